@@ -0,0 +1,36 @@
+-- Per-user admin access. Staff sign in with Clerk; admin_users gives each
+-- one a role (owner, manager, fulfillment, listing_writer). The shared
+-- ADMIN_UI_TOKEN is no longer accepted. admin_audit_log records who
+-- changed prices, stock, orders, listings and staff.
+
+CREATE TABLE IF NOT EXISTS public.admin_users (
+  user_id text PRIMARY KEY,
+  email text,
+  role text NOT NULL
+    CHECK (role IN ('owner', 'manager', 'fulfillment', 'listing_writer')),
+  added_by text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.admin_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  email text,
+  role text NOT NULL,
+  action text NOT NULL,
+  entity_type text NOT NULL,
+  entity_id text,
+  changes jsonb,
+  meta jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created
+ON public.admin_audit_log (created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_entity
+ON public.admin_audit_log (entity_type, entity_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_user
+ON public.admin_audit_log (user_id, created_at DESC);
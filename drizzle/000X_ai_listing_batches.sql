@@ -0,0 +1,48 @@
+-- Bulk AI listing generation. A batch queues many shop listings or
+-- inventory items; the queue runner generates copy for each with retries
+-- and backoff, and reviewers diff and bulk-apply the drafts.
+
+-- Generations can now be made for an inventory item that has no listing yet.
+ALTER TABLE public.ai_listing_generations
+  ALTER COLUMN product_id DROP NOT NULL;
+
+ALTER TABLE public.ai_listing_generations
+  ADD COLUMN IF NOT EXISTS inventory_item_id uuid
+    REFERENCES public.inventory_items(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_ai_listing_generations_inventory_item
+ON public.ai_listing_generations (inventory_item_id, created_at DESC)
+WHERE inventory_item_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.ai_listing_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  target text NOT NULL CHECK (target IN ('product', 'inventory_item')),
+  label text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.ai_listing_batch_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id uuid NOT NULL REFERENCES public.ai_listing_batches(id) ON DELETE CASCADE,
+  product_id uuid REFERENCES public.products(id) ON DELETE CASCADE,
+  inventory_item_id uuid REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'done', 'failed', 'applied')),
+  attempts integer NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  last_error text,
+  generation_id uuid REFERENCES public.ai_listing_generations(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((product_id IS NULL) <> (inventory_item_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_listing_batch_items_batch
+ON public.ai_listing_batch_items (batch_id);
+
+CREATE INDEX IF NOT EXISTS idx_ai_listing_batch_items_due
+ON public.ai_listing_batch_items (next_attempt_at)
+WHERE status IN ('queued', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_ai_listing_batch_items_generation
+ON public.ai_listing_batch_items (generation_id);
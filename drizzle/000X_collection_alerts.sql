@@ -0,0 +1,50 @@
+-- Alerts over a whole collection, a folder or a game slice, evaluated on the
+-- daily user_collection_item_valuations rows ("Pokémon folder drops 10% week
+-- over week", "any card I own moves more than $25 in a day").
+
+CREATE TABLE IF NOT EXISTS public.collection_alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  scope text NOT NULL CHECK (scope IN ('collection', 'folder', 'game')),
+  -- folder scope: folder name ('Unsorted' = no folder); game scope: game id
+  folder text,
+  game text,
+  rule_type text NOT NULL,
+  -- { pct?, amountUsd?, windowDays }
+  params jsonb NOT NULL DEFAULT '{}'::jsonb,
+  active boolean NOT NULL DEFAULT true,
+  is_firing boolean NOT NULL DEFAULT false,
+  last_value_cents bigint,
+  -- latest valuation date the last run looked at
+  last_as_of date,
+  last_evaluated_at timestamptz,
+  last_triggered_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_collection_alerts_target
+ON public.collection_alerts (user_id, scope, COALESCE(folder, ''), COALESCE(game, ''), rule_type);
+
+CREATE INDEX IF NOT EXISTS idx_collection_alerts_active_user
+ON public.collection_alerts (user_id, last_evaluated_at)
+WHERE active = true;
+
+-- Firings from both card and collection alerts land in price_alert_logs.
+-- Collection firings have no single card/game, and the legacy script's
+-- target_card_id isn't set by the app runners.
+ALTER TABLE public.price_alert_logs
+  ADD COLUMN IF NOT EXISTS alert_kind text NOT NULL DEFAULT 'card',
+  ADD COLUMN IF NOT EXISTS user_id text,
+  ADD COLUMN IF NOT EXISTS rule_type text,
+  ADD COLUMN IF NOT EXISTS price_usd numeric(12, 2),
+  ADD COLUMN IF NOT EXISTS details jsonb,
+  ADD COLUMN IF NOT EXISTS target_card_id text;
+
+ALTER TABLE public.price_alert_logs
+  ALTER COLUMN card_id DROP NOT NULL,
+  ALTER COLUMN game DROP NOT NULL,
+  ALTER COLUMN target_card_id DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_price_alert_logs_user_fired
+ON public.price_alert_logs (user_id, fired_at DESC);
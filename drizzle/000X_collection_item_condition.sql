@@ -0,0 +1,21 @@
+-- Raw-card condition on collection items ('nm' | 'lp' | 'mp' | 'hp' | 'dmg';
+-- NULL = unknown, valued as Near Mint). Slabs are valued by grade instead.
+
+ALTER TABLE public.user_collection_items
+  ADD COLUMN IF NOT EXISTS condition text;
+
+-- Copies in different conditions (or printings) are separate holdings.
+DROP INDEX IF EXISTS public.ux_user_collection_item_identity;
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_user_collection_item_identity
+ON public.user_collection_items (
+  user_id,
+  game,
+  card_id,
+  COALESCE(variant_type, ''),
+  COALESCE(condition, ''),
+  COALESCE(grading_company, ''),
+  COALESCE(grade_label, ''),
+  COALESCE(cert_number, ''),
+  COALESCE(folder, '')
+);
@@ -0,0 +1,128 @@
+-- Printing / finish per collection item: normal, holofoil, reverse_holofoil,
+-- first_edition, promo (Pokémon); foil, etched (MTG); first_edition (YGO).
+-- Part of the item identity (ux_user_collection_item_identity).
+
+ALTER TABLE public.user_collection_items
+  ADD COLUMN IF NOT EXISTS variant_type text;
+
+-- Normalizing below can make two holdings identical (NULL next to 'normal',
+-- an MTG 'holofoil' next to 'foil'), so the identity index comes off first
+-- and is rebuilt once those are merged.
+DROP INDEX IF EXISTS public.ux_user_collection_item_identity;
+
+UPDATE public.user_collection_items
+SET variant_type = 'normal'
+WHERE variant_type IS NULL OR btrim(variant_type) = '';
+
+-- MTG foils were stored with the Pokémon spelling before finishes existed
+UPDATE public.user_collection_items
+SET variant_type = 'foil'
+WHERE game = 'mtg' AND variant_type IN ('holofoil', 'reverse_holofoil');
+
+ALTER TABLE public.user_collection_items
+  ALTER COLUMN variant_type SET DEFAULT 'normal',
+  ALTER COLUMN variant_type SET NOT NULL;
+
+-- Merge holdings that now share an identity into the oldest one: quantities
+-- add up, cost is the per-copy average over copies with a known cost, and
+-- valuations, sale lots and trade lines move to the kept row.
+CREATE TEMP TABLE uci_variant_merge AS
+SELECT id, keep_id
+FROM (
+  SELECT
+    id,
+    first_value(id) OVER (
+      PARTITION BY
+        user_id, game, card_id, variant_type,
+        COALESCE(condition, ''), COALESCE(grading_company, ''), COALESCE(grade_label, ''),
+        COALESCE(cert_number, ''), COALESCE(folder, '')
+      ORDER BY created_at, id
+    ) AS keep_id
+  FROM public.user_collection_items
+) d
+WHERE id <> keep_id;
+
+WITH merged AS (
+  SELECT
+    g.keep_id,
+    SUM(i.quantity) AS quantity,
+    round(
+      SUM(i.cost_cents::numeric * i.quantity) FILTER (WHERE i.cost_cents IS NOT NULL)
+      / NULLIF(SUM(i.quantity) FILTER (WHERE i.cost_cents IS NOT NULL), 0)
+    )::int AS cost_cents,
+    SUM(i.last_value_cents) AS last_value_cents,
+    MIN(i.purchase_date) AS purchase_date
+  FROM (
+    SELECT id, keep_id FROM uci_variant_merge
+    UNION
+    SELECT keep_id, keep_id FROM uci_variant_merge
+  ) g
+  JOIN public.user_collection_items i ON i.id = g.id
+  GROUP BY g.keep_id
+)
+UPDATE public.user_collection_items k
+SET
+  quantity = merged.quantity,
+  cost_cents = merged.cost_cents,
+  last_value_cents = merged.last_value_cents,
+  purchase_date = merged.purchase_date,
+  updated_at = now()
+FROM merged
+WHERE k.id = merged.keep_id;
+
+-- A day's valuation from the same source on both rows adds up, like the quantities.
+INSERT INTO public.user_collection_item_valuations (
+  user_id, item_id, as_of_date, value_cents, currency, source, confidence, meta
+)
+SELECT
+  v.user_id, m.keep_id, v.as_of_date, SUM(v.value_cents), MIN(v.currency), v.source,
+  MIN(v.confidence), (array_agg(v.meta))[1]
+FROM public.user_collection_item_valuations v
+JOIN uci_variant_merge m ON m.id = v.item_id
+GROUP BY v.user_id, m.keep_id, v.as_of_date, v.source
+ON CONFLICT (user_id, item_id, as_of_date, (COALESCE(source, ''))) DO UPDATE SET
+  value_cents = user_collection_item_valuations.value_cents + EXCLUDED.value_cents,
+  updated_at = now();
+
+DELETE FROM public.user_collection_item_valuations v
+USING uci_variant_merge m
+WHERE v.item_id = m.id;
+
+-- Sale lots and trade lines only exist once their migrations have run.
+DO $$
+BEGIN
+  IF to_regclass('public.user_collection_sale_lots') IS NOT NULL THEN
+    UPDATE public.user_collection_sale_lots l
+    SET item_id = m.keep_id
+    FROM uci_variant_merge m
+    WHERE l.item_id = m.id;
+  END IF;
+
+  IF to_regclass('public.trade_offer_items') IS NOT NULL THEN
+    UPDATE public.trade_offer_items t
+    SET item_id = m.keep_id
+    FROM uci_variant_merge m
+    WHERE t.item_id = m.id;
+  END IF;
+END;
+$$;
+
+DELETE FROM public.user_collection_items i
+USING uci_variant_merge m
+WHERE i.id = m.id;
+
+DROP TABLE uci_variant_merge;
+
+-- Copies in different printings or conditions are separate holdings.
+CREATE UNIQUE INDEX IF NOT EXISTS ux_user_collection_item_identity
+ON public.user_collection_items (
+  user_id,
+  game,
+  card_id,
+  variant_type,
+  COALESCE(condition, ''),
+  COALESCE(grading_company, ''),
+  COALESCE(grade_label, ''),
+  COALESCE(cert_number, ''),
+  COALESCE(folder, '')
+);
@@ -0,0 +1,34 @@
+CREATE TABLE IF NOT EXISTS public.user_collection_sales (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  kind text NOT NULL DEFAULT 'sale' CHECK (kind IN ('sale', 'disposal')),
+  game text NOT NULL,
+  card_id text NOT NULL,
+  card_name text,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  sold_at date NOT NULL,
+  gross_proceeds_cents integer NOT NULL DEFAULT 0,
+  fees_cents integer NOT NULL DEFAULT 0,
+  shipping_cents integer NOT NULL DEFAULT 0,
+  lot_method text NOT NULL DEFAULT 'fifo' CHECK (lot_method IN ('fifo', 'lifo', 'specific')),
+  note text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_uc_sales_user_sold
+ON public.user_collection_sales(user_id, sold_at);
+
+CREATE TABLE IF NOT EXISTS public.user_collection_sale_lots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id uuid NOT NULL REFERENCES public.user_collection_sales(id) ON DELETE CASCADE,
+  item_id uuid NOT NULL,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  cost_each_cents integer NOT NULL DEFAULT 0,
+  acquired_at date NOT NULL,
+  proceeds_cents integer NOT NULL DEFAULT 0,
+  expenses_cents integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_uc_sale_lots_sale
+ON public.user_collection_sale_lots(sale_id);
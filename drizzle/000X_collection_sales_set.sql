@@ -0,0 +1,19 @@
+-- Set of the card a sale came out of, so portfolio attribution by set can
+-- count what was sold (the collection row is deleted once it hits 0).
+
+ALTER TABLE public.user_collection_sales
+  ADD COLUMN IF NOT EXISTS set_name text;
+
+-- backfill from rows that still hold copies of the same card
+UPDATE public.user_collection_sales s
+SET set_name = i.set_name
+FROM (
+  SELECT DISTINCT ON (user_id, lower(game), card_id) user_id, lower(game) AS game, card_id, set_name
+  FROM public.user_collection_items
+  WHERE set_name IS NOT NULL
+  ORDER BY user_id, lower(game), card_id, updated_at DESC
+) i
+WHERE s.set_name IS NULL
+  AND i.user_id = s.user_id
+  AND i.game = s.game
+  AND i.card_id = s.card_id;
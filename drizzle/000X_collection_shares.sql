@@ -0,0 +1,26 @@
+-- Public read-only links to a whole collection, one folder, or the wishlist.
+
+CREATE TABLE IF NOT EXISTS public.collection_shares (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  slug text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('collection', 'folder', 'wishlist')),
+  folder text,
+  title text,
+  description text,
+  hide_values boolean NOT NULL DEFAULT false,
+  hide_cost boolean NOT NULL DEFAULT true,
+  hide_quantities boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  view_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((kind = 'folder') = (folder IS NOT NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_collection_shares_slug
+ON public.collection_shares (slug);
+
+-- one link per target, so re-sharing keeps the same URL
+CREATE UNIQUE INDEX IF NOT EXISTS ux_collection_shares_target
+ON public.collection_shares (user_id, kind, COALESCE(folder, ''));
@@ -0,0 +1,22 @@
+-- Dated exchange rates (USD per unit, one row per currency per day) and a
+-- per-user display currency. Rates are loaded with
+-- scripts/pricing/05_import_fx_rates.mjs.
+
+CREATE TABLE IF NOT EXISTS public.fx_rates (
+  currency text NOT NULL CHECK (currency IN ('EUR', 'GBP', 'CAD', 'JPY', 'AUD')),
+  rate_date date NOT NULL,
+  usd_per_unit numeric(18, 10) NOT NULL CHECK (usd_per_unit > 0),
+  -- 'ecb', 'file', ...
+  source text NOT NULL DEFAULT 'file',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (currency, rate_date)
+);
+
+CREATE TABLE IF NOT EXISTS public.user_preferences (
+  user_id text PRIMARY KEY,
+  display_currency text NOT NULL DEFAULT 'USD'
+    CHECK (display_currency IN ('USD', 'EUR', 'GBP', 'CAD', 'JPY', 'AUD')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
@@ -0,0 +1,26 @@
+-- One sellable catalog: an inventory item publishes as exactly one shop
+-- listing (products.inventory_item_id), and stock is the sum of the item's
+-- inventory_stock_movements. inventory_items.on_hand and the linked
+-- products.quantity are caches of that sum.
+
+CREATE UNIQUE INDEX IF NOT EXISTS products_inventory_item_unique
+ON public.products (inventory_item_id)
+WHERE inventory_item_id IS NOT NULL;
+
+-- Items whose on_hand was edited outside the ledger get an opening balance
+-- so the ledger explains today's count.
+INSERT INTO public.inventory_stock_movements (item_id, delta, reason, note)
+SELECT i.id, i.on_hand - COALESCE(m.total, 0), 'MANUAL_ADJUST', 'Opening balance (ledger backfill)'
+FROM public.inventory_items i
+LEFT JOIN (
+  SELECT item_id, SUM(delta)::int AS total
+  FROM public.inventory_stock_movements
+  GROUP BY item_id
+) m ON m.item_id = i.id
+WHERE i.on_hand <> COALESCE(m.total, 0);
+
+UPDATE public.products p
+SET quantity = GREATEST(i.on_hand, 0), updated_at = now()
+FROM public.inventory_items i
+WHERE p.inventory_item_id = i.id
+  AND p.quantity IS DISTINCT FROM GREATEST(i.on_hand, 0);
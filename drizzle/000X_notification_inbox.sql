@@ -0,0 +1,9 @@
+-- In-app notification center: archiving, plus a cheap unread count for the
+-- header badge.
+
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_unread
+ON public.notifications (user_id)
+WHERE read_at IS NULL AND archived_at IS NULL;
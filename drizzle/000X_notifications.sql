@@ -0,0 +1,56 @@
+-- Alert delivery: per-user channel preferences, one row per notification
+-- (the in-app inbox doubles as the delivery queue), and per-alert cooldowns.
+
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id text PRIMARY KEY,
+  email_enabled boolean NOT NULL DEFAULT true,
+  inapp_enabled boolean NOT NULL DEFAULT true,
+  discord_enabled boolean NOT NULL DEFAULT false,
+  discord_webhook_url text,
+  webhook_enabled boolean NOT NULL DEFAULT false,
+  webhook_url text,
+  -- HMAC-SHA256 key for the X-Legendary-Signature header
+  webhook_secret text,
+  digest text NOT NULL DEFAULT 'instant' CHECK (digest IN ('instant', 'daily', 'weekly')),
+  -- local hours [start, end) in `timezone`; NULL = no quiet hours
+  quiet_start smallint CHECK (quiet_start BETWEEN 0 AND 23),
+  quiet_end smallint CHECK (quiet_end BETWEEN 0 AND 23),
+  timezone text NOT NULL DEFAULT 'UTC',
+  -- default per-alert cooldown (alerts can override)
+  cooldown_hours integer NOT NULL DEFAULT 24 CHECK (cooldown_hours >= 0),
+  last_digest_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  -- 'price_alert' | 'collection_alert' | 'test' | ...
+  kind text NOT NULL,
+  title text NOT NULL,
+  body text NOT NULL DEFAULT '',
+  href text,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  read_at timestamptz,
+  -- NULL = still queued for email / Discord / webhook
+  delivered_at timestamptz,
+  attempts smallint NOT NULL DEFAULT 0,
+  -- per-channel outcome of the last attempt
+  delivery jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+ON public.notifications (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_pending
+ON public.notifications (user_id, created_at)
+WHERE delivered_at IS NULL;
+
+-- NULL = use the user's default cooldown
+ALTER TABLE public.price_alerts
+  ADD COLUMN IF NOT EXISTS cooldown_hours integer;
+
+ALTER TABLE public.collection_alerts
+  ADD COLUMN IF NOT EXISTS cooldown_hours integer;
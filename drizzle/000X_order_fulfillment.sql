@@ -0,0 +1,23 @@
+-- Order fulfillment: one record per paid order tracking pick / pack /
+-- ship / deliver, the carrier + tracking number, and which customer
+-- emails have gone out. orders.status flips to 'fulfilled' on ship.
+
+CREATE TABLE IF NOT EXISTS public.order_fulfillments (
+  order_id uuid PRIMARY KEY REFERENCES public.orders(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  stage text NOT NULL DEFAULT 'unfulfilled'
+    CHECK (stage IN ('unfulfilled', 'picked', 'packed', 'shipped', 'delivered')),
+  carrier text,
+  tracking_number text,
+  note text,
+  picked_at timestamptz,
+  packed_at timestamptz,
+  shipped_at timestamptz,
+  delivered_at timestamptz,
+  shipped_email_at timestamptz,
+  delivered_email_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_fulfillments_stage
+ON public.order_fulfillments (stage);
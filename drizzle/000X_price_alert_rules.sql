@@ -0,0 +1,28 @@
+-- Momentum price alerts: % moves over a window, moving-average crosses,
+-- cross-source spreads and all-time highs, on top of fixed above/below.
+-- Rule settings live in params; is_firing / last_price_cents let the
+-- evaluator notify on the edge instead of every run.
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'alert_rule_type') THEN
+    ALTER TYPE alert_rule_type ADD VALUE IF NOT EXISTS 'pct_up';
+    ALTER TYPE alert_rule_type ADD VALUE IF NOT EXISTS 'pct_down';
+    ALTER TYPE alert_rule_type ADD VALUE IF NOT EXISTS 'above_ma';
+    ALTER TYPE alert_rule_type ADD VALUE IF NOT EXISTS 'below_ma';
+    ALTER TYPE alert_rule_type ADD VALUE IF NOT EXISTS 'spread';
+    ALTER TYPE alert_rule_type ADD VALUE IF NOT EXISTS 'all_time_high';
+  END IF;
+END $$;
+
+ALTER TABLE public.price_alerts
+  ALTER COLUMN threshold DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS params jsonb NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS is_firing boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS last_price_cents integer,
+  ADD COLUMN IF NOT EXISTS last_evaluated_at timestamptz,
+  ADD COLUMN IF NOT EXISTS last_triggered_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_price_alerts_active_user
+ON public.price_alerts (user_id, last_evaluated_at)
+WHERE active = true;
@@ -0,0 +1,67 @@
+-- Refunds and returns (RMAs).
+--  - order_refunds mirrors Stripe refunds (admin-issued or from the Stripe
+--    dashboard, via webhooks); orders.refunded_cents is the sum of the
+--    succeeded ones and orders.status becomes 'refunded' once it covers the total.
+--  - order_returns / order_return_items are customer return requests; each
+--    line gets a restock or write-off decision that posts RETURN / DAMAGE
+--    movements to inventory_stock_movements.
+--  - products.inventory_item_id links a listing to the inventory item it
+--    sells from, so returns know which ledger to post to.
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS refunded_cents integer NOT NULL DEFAULT 0;
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS inventory_item_id uuid REFERENCES public.inventory_items(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS public.order_returns (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  user_id text NOT NULL,
+  status text NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'approved', 'rejected', 'received', 'closed')),
+  reason_code text NOT NULL,
+  customer_note text,
+  admin_note text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  received_at timestamptz,
+  closed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_returns_order
+ON public.order_returns (order_id);
+
+CREATE INDEX IF NOT EXISTS idx_order_returns_open
+ON public.order_returns (created_at)
+WHERE status IN ('requested', 'approved', 'received');
+
+CREATE TABLE IF NOT EXISTS public.order_return_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  return_id uuid NOT NULL REFERENCES public.order_returns(id) ON DELETE CASCADE,
+  order_item_id uuid NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  qty integer NOT NULL CHECK (qty > 0),
+  decision text CHECK (decision IN ('restock', 'write_off')),
+  decided_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_return_items_return
+ON public.order_return_items (return_id);
+
+CREATE TABLE IF NOT EXISTS public.order_refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE ON UPDATE CASCADE,
+  return_id uuid REFERENCES public.order_returns(id) ON DELETE SET NULL,
+  stripe_refund_id text NOT NULL UNIQUE,
+  amount_cents integer NOT NULL,
+  currency text NOT NULL DEFAULT 'usd',
+  reason text,
+  status text NOT NULL,
+  failure_reason text,
+  created_by text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_refunds_order
+ON public.order_refunds (order_id);
@@ -0,0 +1,71 @@
+-- Saved-search alerts pick candidates by arrival time, not relevance:
+-- a card is "new" when it entered the catalog after the search's watermark.
+-- See findSavedSearchMatches() in src/lib/search/savedSearches.ts.
+
+-- When each catalog row first arrived. Existing rows get the epoch (a
+-- constant default, so no table rewrite); rows inserted from now on get
+-- now(). Upserts leave it alone.
+ALTER TABLE public.tcg_cards
+  ADD COLUMN IF NOT EXISTS ingested_at timestamptz NOT NULL DEFAULT '1970-01-01 00:00:00+00';
+ALTER TABLE public.tcg_cards ALTER COLUMN ingested_at SET DEFAULT now();
+CREATE INDEX IF NOT EXISTS idx_tcg_cards_ingested_at ON public.tcg_cards (ingested_at);
+
+ALTER TABLE public.scryfall_cards_raw
+  ADD COLUMN IF NOT EXISTS ingested_at timestamptz NOT NULL DEFAULT '1970-01-01 00:00:00+00';
+ALTER TABLE public.scryfall_cards_raw ALTER COLUMN ingested_at SET DEFAULT now();
+CREATE INDEX IF NOT EXISTS idx_scryfall_cards_raw_ingested_at ON public.scryfall_cards_raw (ingested_at);
+
+ALTER TABLE public.ygo_cards
+  ADD COLUMN IF NOT EXISTS ingested_at timestamptz NOT NULL DEFAULT '1970-01-01 00:00:00+00';
+ALTER TABLE public.ygo_cards ALTER COLUMN ingested_at SET DEFAULT now();
+CREATE INDEX IF NOT EXISTS idx_ygo_cards_ingested_at ON public.ygo_cards (ingested_at);
+
+-- funko_items and the sports catalogs already have created_at
+CREATE INDEX IF NOT EXISTS idx_funko_items_created_at ON public.funko_items (created_at);
+CREATE INDEX IF NOT EXISTS idx_sc_cards_created_at ON public.sc_cards (created_at);
+CREATE INDEX IF NOT EXISTS idx_scp_cards_created_at ON public.scp_cards (created_at);
+
+-- Shop listings are usually created as drafts, so they arrive when they go
+-- active, not when the row is inserted. The trigger stamps published_at on
+-- every change to 'active' (insert or update, from any writer); a listing
+-- that is archived and reactivated arrives again.
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS published_at timestamptz;
+
+UPDATE public.products
+SET published_at = created_at
+WHERE status = 'active' AND published_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.products_stamp_published_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'active'
+     AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM NEW.status) THEN
+    NEW.published_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_products_published_at ON public.products;
+CREATE TRIGGER trg_products_published_at
+BEFORE INSERT OR UPDATE OF status ON public.products
+FOR EACH ROW
+EXECUTE FUNCTION public.products_stamp_published_at();
+
+CREATE INDEX IF NOT EXISTS idx_products_published_at ON public.products (published_at);
+
+-- Per-search watermark, a (time, match key) keyset cursor so rows sharing a
+-- timestamp are never skipped. New searches start at creation time; existing
+-- ones continue from their last check.
+ALTER TABLE public.saved_searches
+  ADD COLUMN IF NOT EXISTS watermark_at timestamptz,
+  ADD COLUMN IF NOT EXISTS watermark_key text NOT NULL DEFAULT '';
+
+UPDATE public.saved_searches
+SET watermark_at = COALESCE(last_checked_at, created_at)
+WHERE watermark_at IS NULL;
+
+ALTER TABLE public.saved_searches ALTER COLUMN watermark_at SET DEFAULT now();
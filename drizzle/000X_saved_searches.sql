@@ -0,0 +1,34 @@
+CREATE TABLE IF NOT EXISTS public.saved_searches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  name text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('catalog', 'shop')),
+  query text,
+  game text,
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  notify_email boolean NOT NULL DEFAULT true,
+  active boolean NOT NULL DEFAULT true,
+  last_checked_at timestamptz,
+  last_notified_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS saved_searches_user_idx
+ON public.saved_searches(user_id);
+
+CREATE INDEX IF NOT EXISTS saved_searches_active_idx
+ON public.saved_searches(active);
+
+CREATE TABLE IF NOT EXISTS public.saved_search_matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  saved_search_id uuid NOT NULL REFERENCES public.saved_searches(id) ON DELETE CASCADE,
+  item_key text NOT NULL,
+  title text,
+  href text,
+  first_seen_at timestamptz NOT NULL DEFAULT now(),
+  notified_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS saved_search_matches_search_item_uniq
+ON public.saved_search_matches(saved_search_id, item_key);
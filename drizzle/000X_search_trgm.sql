@@ -0,0 +1,69 @@
+-- Cross-game search (/search, /api/search)
+-- Every searched column gets two GIN indexes, matching the WHERE side of
+-- matchOn() in src/lib/search/engine.ts, which ORs three predicates on the
+-- bare column:
+--   col ILIKE '%q%'  and  q <% col        -> gin (col gin_trgm_ops)
+--   to_tsvector('simple', col) @@ query   -> gin (to_tsvector('simple', col))
+-- With each branch indexed the planner can BitmapOr them instead of
+-- scanning the table. Keep the expressions here and in matchOn() in sync;
+-- wrapping the column (coalesce, lower, ...) on either side loses the index.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Pokémon
+CREATE INDEX IF NOT EXISTS idx_tcg_cards_name_trgm
+ON public.tcg_cards USING gin (name gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_tcg_cards_name_tsv
+ON public.tcg_cards USING gin (to_tsvector('simple', name));
+
+-- "number = q" is ORed in too
+CREATE INDEX IF NOT EXISTS idx_tcg_cards_number
+ON public.tcg_cards (number);
+
+-- Magic
+CREATE INDEX IF NOT EXISTS idx_scryfall_cards_raw_name_trgm
+ON public.scryfall_cards_raw USING gin (name gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_scryfall_cards_raw_name_tsv
+ON public.scryfall_cards_raw USING gin (to_tsvector('simple', name));
+
+-- Yu-Gi-Oh! (card_id is the primary key)
+CREATE INDEX IF NOT EXISTS idx_ygo_cards_name_trgm
+ON public.ygo_cards USING gin (name gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_ygo_cards_name_tsv
+ON public.ygo_cards USING gin (to_tsvector('simple', name));
+
+-- Funko (also matched on franchise substring and exact UPC)
+CREATE INDEX IF NOT EXISTS idx_funko_items_name_trgm
+ON public.funko_items USING gin (name gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_funko_items_name_tsv
+ON public.funko_items USING gin (to_tsvector('simple', name));
+
+CREATE INDEX IF NOT EXISTS idx_funko_items_franchise_trgm
+ON public.funko_items USING gin (franchise gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_funko_items_upc
+ON public.funko_items (upc);
+
+-- Sports (sc_cards by player, SportsCardsPro scp_cards by product name)
+CREATE INDEX IF NOT EXISTS idx_sc_cards_player_trgm
+ON public.sc_cards USING gin (player gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_sc_cards_player_tsv
+ON public.sc_cards USING gin (to_tsvector('simple', player));
+
+CREATE INDEX IF NOT EXISTS idx_scp_cards_product_name_trgm
+ON public.scp_cards USING gin (product_name gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_scp_cards_product_name_tsv
+ON public.scp_cards USING gin (to_tsvector('simple', product_name));
+
+-- Shop (sku already has products_sku_unique)
+CREATE INDEX IF NOT EXISTS idx_products_title_trgm
+ON public.products USING gin (title gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_products_title_tsv
+ON public.products USING gin (to_tsvector('simple', title));
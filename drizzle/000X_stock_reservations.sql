@@ -0,0 +1,39 @@
+-- Stock reservations: a checkout holds its listings from the moment the
+-- Stripe session is created until it is paid (converted into SALE stock),
+-- expires or is abandoned (released). Available stock for a new checkout
+-- is products.quantity minus what live holds already cover.
+
+CREATE TABLE IF NOT EXISTS public.stock_reservations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  cart_id uuid REFERENCES public.carts(id) ON DELETE SET NULL,
+  user_id text,
+  stripe_session_id text UNIQUE,
+  status text NOT NULL DEFAULT 'held'
+    CHECK (status IN ('held', 'converted', 'released', 'expired')),
+  expires_at timestamptz NOT NULL,
+  order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  closed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_held
+ON public.stock_reservations (expires_at)
+WHERE status = 'held';
+
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_cart
+ON public.stock_reservations (cart_id)
+WHERE status = 'held';
+
+CREATE TABLE IF NOT EXISTS public.stock_reservation_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reservation_id uuid NOT NULL REFERENCES public.stock_reservations(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  qty integer NOT NULL CHECK (qty > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_reservation_items_reservation
+ON public.stock_reservation_items (reservation_id);
+
+CREATE INDEX IF NOT EXISTS idx_stock_reservation_items_product
+ON public.stock_reservation_items (product_id);
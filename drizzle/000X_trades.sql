@@ -0,0 +1,68 @@
+-- Trade center: opt-in trader handles, offers, offered items and an audit trail.
+
+CREATE TABLE IF NOT EXISTS public.trade_profiles (
+  user_id text PRIMARY KEY,
+  handle text NOT NULL,
+  open_to_trades boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_trade_profiles_handle
+ON public.trade_profiles (lower(handle));
+
+CREATE TABLE IF NOT EXISTS public.trade_offers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  proposer_id text NOT NULL,
+  recipient_id text NOT NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'countered', 'accepted', 'declined', 'cancelled')),
+  parent_id uuid REFERENCES public.trade_offers(id) ON DELETE SET NULL,
+  note text,
+  proposer_value_cents integer NOT NULL DEFAULT 0,
+  recipient_value_cents integer NOT NULL DEFAULT 0,
+  responded_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (proposer_id <> recipient_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trade_offers_proposer
+ON public.trade_offers (proposer_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_trade_offers_recipient
+ON public.trade_offers (recipient_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.trade_offer_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  offer_id uuid NOT NULL REFERENCES public.trade_offers(id) ON DELETE CASCADE,
+  side text NOT NULL CHECK (side IN ('proposer', 'recipient')),
+  item_id uuid NOT NULL,
+  game text NOT NULL,
+  card_id text NOT NULL,
+  card_name text,
+  set_name text,
+  image_url text,
+  variant_type text NOT NULL DEFAULT 'normal',
+  grading_company text NOT NULL DEFAULT '',
+  grade_label text NOT NULL DEFAULT '',
+  cert_number text NOT NULL DEFAULT '',
+  quantity integer NOT NULL CHECK (quantity > 0),
+  unit_value_cents integer,
+  value_source text
+);
+
+CREATE INDEX IF NOT EXISTS idx_trade_offer_items_offer
+ON public.trade_offer_items (offer_id);
+
+CREATE TABLE IF NOT EXISTS public.trade_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  offer_id uuid NOT NULL REFERENCES public.trade_offers(id) ON DELETE CASCADE,
+  actor_id text NOT NULL,
+  action text NOT NULL,
+  detail jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trade_events_offer
+ON public.trade_events (offer_id, created_at);
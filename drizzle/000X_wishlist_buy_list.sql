@@ -0,0 +1,13 @@
+-- Wishlist buying plan: target price, priority and preferred printing per
+-- entry, plus a per-user monthly budget for the buy list.
+
+ALTER TABLE public.user_wishlist_items
+  ADD COLUMN IF NOT EXISTS target_price_cents integer CHECK (target_price_cents IS NULL OR target_price_cents >= 0),
+  ADD COLUMN IF NOT EXISTS priority smallint NOT NULL DEFAULT 2 CHECK (priority BETWEEN 1 AND 3),
+  ADD COLUMN IF NOT EXISTS wanted_variant text;
+
+CREATE TABLE IF NOT EXISTS public.wishlist_budgets (
+  user_id text PRIMARY KEY,
+  monthly_budget_cents integer NOT NULL CHECK (monthly_budget_cents >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
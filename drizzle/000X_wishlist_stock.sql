@@ -0,0 +1,31 @@
+-- Wishlist <-> shop matching: optional condition / grade wants on wishlist
+-- entries, and which matching listings each entry has been told about.
+
+ALTER TABLE public.user_wishlist_items
+  ADD COLUMN IF NOT EXISTS wanted_condition text,
+  ADD COLUMN IF NOT EXISTS wanted_grader text,
+  ADD COLUMN IF NOT EXISTS wanted_grade_x10 integer,
+  ADD COLUMN IF NOT EXISTS notify_in_stock boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS stock_checked_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS public.wishlist_stock_alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  wishlist_item_id uuid NOT NULL REFERENCES public.user_wishlist_items(id) ON DELETE CASCADE,
+  -- "product:<uuid>" or "inventory:<uuid>"
+  listing_key text NOT NULL,
+  title text,
+  href text,
+  price_cents integer,
+  in_stock boolean NOT NULL DEFAULT true,
+  first_seen_at timestamptz NOT NULL DEFAULT now(),
+  restocked_at timestamptz,
+  notified_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS ux_wishlist_stock_alerts_item_listing
+ON public.wishlist_stock_alerts (wishlist_item_id, listing_key);
+
+CREATE INDEX IF NOT EXISTS idx_wishlist_stock_alerts_pending
+ON public.wishlist_stock_alerts (user_id)
+WHERE notified_at IS NULL;
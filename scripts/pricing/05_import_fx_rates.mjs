@@ -0,0 +1,202 @@
+#!/usr/bin/env node
+/* eslint-disable no-console */
+/**
+ * scripts/pricing/05_import_fx_rates.mjs
+ *
+ * Load dated FX rates into public.fx_rates (USD per 1 unit of currency).
+ *
+ * Usage:
+ *   node scripts/pricing/05_import_fx_rates.mjs --file ./data/fx/rates.csv [--source ecb]
+ *   node scripts/pricing/05_import_fx_rates.mjs --from-env [--date 2026-03-01]
+ *
+ * --file accepts either
+ *   long:  date,currency,usd_per_unit     (or date,currency,per_usd)
+ *   wide:  date,EUR,GBP,CAD,JPY,AUD       (units per 1 USD, as most USD-based tables publish)
+ *
+ * --from-env is the local provider stub: it records today's fixed rates
+ * from FX_<CCY>_USD / FX_USD_<CCY> so history builds up day by day until
+ * a real feed is wired in.
+ *
+ * Env:
+ *   DATABASE_URL (required)
+ */
+
+import "dotenv/config";
+import fs from "node:fs";
+import path from "node:path";
+import pg from "pg";
+
+const { Client } = pg;
+
+const CURRENCIES = ["EUR", "GBP", "CAD", "JPY", "AUD"];
+const BATCH = 500;
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 2; i < argv.length; i++) {
+    const a = argv[i];
+    if (!a.startsWith("--")) continue;
+    const key = a.slice(2);
+    const next = argv[i + 1];
+    if (!next || next.startsWith("--")) args[key] = true;
+    else {
+      args[key] = next;
+      i++;
+    }
+  }
+  return args;
+}
+
+function positive(v) {
+  if (v == null || String(v).trim() === "") return null;
+  const n = Number(String(v).trim());
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+function isoDate(v) {
+  const s = String(v ?? "").trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return s;
+  const t = Date.parse(s);
+  return Number.isFinite(t) ? new Date(t).toISOString().slice(0, 10) : null;
+}
+
+function splitCsvLine(line) {
+  return line.split(",").map((c) => c.trim().replace(/^"|"$/g, ""));
+}
+
+/** -> [{ currency, date, usdPerUnit }] */
+function ratesFromCsv(text) {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim());
+  if (lines.length < 2) return [];
+
+  const header = splitCsvLine(lines[0]).map((h) => h.toLowerCase());
+  const out = [];
+
+  const dateIdx = header.indexOf("date");
+  if (dateIdx === -1) throw new Error("CSV needs a 'date' column");
+
+  const curIdx = header.indexOf("currency");
+  if (curIdx !== -1) {
+    const usdIdx = header.indexOf("usd_per_unit");
+    const perUsdIdx = header.indexOf("per_usd");
+    if (usdIdx === -1 && perUsdIdx === -1) throw new Error("CSV needs 'usd_per_unit' or 'per_usd'");
+
+    for (const line of lines.slice(1)) {
+      const cells = splitCsvLine(line);
+      const date = isoDate(cells[dateIdx]);
+      const currency = String(cells[curIdx] ?? "").toUpperCase();
+      const direct = usdIdx !== -1 ? positive(cells[usdIdx]) : null;
+      const perUsd = perUsdIdx !== -1 ? positive(cells[perUsdIdx]) : null;
+      const usdPerUnit = direct ?? (perUsd != null ? 1 / perUsd : null);
+      if (date && CURRENCIES.includes(currency) && usdPerUnit != null) out.push({ currency, date, usdPerUnit });
+    }
+    return out;
+  }
+
+  // wide: one column per currency, units per 1 USD
+  const cols = header
+    .map((h, i) => ({ currency: h.toUpperCase(), i }))
+    .filter((c) => CURRENCIES.includes(c.currency));
+  if (!cols.length) throw new Error(`CSV has no currency columns (${CURRENCIES.join(", ")})`);
+
+  for (const line of lines.slice(1)) {
+    const cells = splitCsvLine(line);
+    const date = isoDate(cells[dateIdx]);
+    if (!date) continue;
+    for (const c of cols) {
+      const perUsd = positive(cells[c.i]);
+      if (perUsd != null) out.push({ currency: c.currency, date, usdPerUnit: 1 / perUsd });
+    }
+  }
+  return out;
+}
+
+function ratesFromEnv(date) {
+  const out = [];
+  for (const c of CURRENCIES) {
+    const direct = positive(process.env[`FX_${c}_USD`]);
+    const inverse = positive(process.env[`FX_USD_${c}`]);
+    const usdPerUnit = direct ?? (inverse != null ? 1 / inverse : null);
+    if (usdPerUnit != null) out.push({ currency: c, date, usdPerUnit });
+  }
+  return out;
+}
+
+async function upsert(client, rates, source) {
+  let written = 0;
+  for (let i = 0; i < rates.length; i += BATCH) {
+    const chunk = rates.slice(i, i + BATCH);
+    const values = [];
+    const params = [];
+    chunk.forEach((r, j) => {
+      const p = j * 4;
+      values.push(`($${p + 1}, $${p + 2}::date, $${p + 3}::numeric, $${p + 4})`);
+      params.push(r.currency, r.date, r.usdPerUnit, source);
+    });
+    const res = await client.query(
+      `
+      INSERT INTO public.fx_rates (currency, rate_date, usd_per_unit, source)
+      VALUES ${values.join(",")}
+      ON CONFLICT (currency, rate_date) DO UPDATE
+        SET usd_per_unit = EXCLUDED.usd_per_unit,
+            source = EXCLUDED.source,
+            updated_at = now()
+      `,
+      params,
+    );
+    written += res.rowCount ?? 0;
+  }
+  return written;
+}
+
+async function main() {
+  const args = parseArgs(process.argv);
+
+  const DATABASE_URL = process.env.DATABASE_URL || "";
+  if (!DATABASE_URL) {
+    console.error("Missing DATABASE_URL");
+    process.exit(1);
+  }
+
+  let rates;
+  let source;
+  if (args["from-env"]) {
+    const date = isoDate(args.date === true ? "" : args.date) ?? new Date().toISOString().slice(0, 10);
+    rates = ratesFromEnv(date);
+    source = "env";
+  } else if (args.file && args.file !== true) {
+    const file = path.resolve(String(args.file));
+    rates = ratesFromCsv(fs.readFileSync(file, "utf8"));
+    source = args.source && args.source !== true ? String(args.source) : "file";
+  } else {
+    console.error("Pass --file <path> or --from-env");
+    process.exit(1);
+  }
+
+  if (!rates.length) {
+    console.error("No usable rates found");
+    process.exit(1);
+  }
+
+  // last row wins for a (currency, date) repeated in the input
+  const unique = [...new Map(rates.map((r) => [`${r.currency}|${r.date}`, r])).values()];
+
+  const client = new Client({ connectionString: DATABASE_URL });
+  await client.connect();
+  try {
+    await client.query("BEGIN");
+    const written = await upsert(client, unique, source);
+    await client.query("COMMIT");
+    console.log(`fx_rates: ${written} rows (${source})`);
+  } catch (err) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw err;
+  } finally {
+    await client.end();
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
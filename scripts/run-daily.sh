@@ -74,11 +74,43 @@ run_step "market_prices_current"   node scripts/pricing/05_build_market_prices_c
 # ---------- Collection valuation ----------
 run_step "revalueCollection"       node scripts/revalueCollection.mjs
 
-# ---------- Alerts ----------
-# runPriceAlerts currently runs but scanPriceAlerts + email sender are not fully wired in on your server.
-# Leave alerts off by default for employee runs.
+# ---------- App cron jobs ----------
+# These run inside the app (the site must be up) and need CRON_SECRET in .env.
+# SITE_URL must be the canonical www host: the bare domain redirects, and curl
+# drops the x-cron-secret header when a redirect changes host.
+SITE_URL="${NEXT_PUBLIC_SITE_URL:-https://www.legendary-collectibles.com}"
+
+cron_call () {
+  local label="$1"
+  local path="$2"
+  run_step "$label" curl -fsSL --max-time 600 \
+    -H "x-cron-secret: ${CRON_SECRET:-}" \
+    "${SITE_URL%/}$path"
+}
+
+# Card + collection alerts share delivery channels, digests, quiet hours and
+# cooldowns (replaces scripts/runPriceAlerts.mjs). Enable with PRICE_ALERTS=1.
+# Digests / quiet-hour batches need /api/cron/notifications hourly as well.
 if [[ "${PRICE_ALERTS:-0}" == "1" ]]; then
-  run_step "runPriceAlerts" node scripts/runPriceAlerts.mjs
+  cron_call "priceAlerts"      /api/cron/price-alerts
+  cron_call "collectionAlerts" /api/cron/collection-alerts
+  cron_call "notifications"    /api/cron/notifications
+fi
+
+# New catalog/shop matches for saved searches. Enable with SAVED_SEARCHES=1.
+if [[ "${SAVED_SEARCHES:-0}" == "1" ]]; then
+  cron_call "savedSearches" /api/cron/saved-searches
+fi
+
+# Wishlist back-in-stock emails. Enable with WISHLIST_STOCK=1.
+if [[ "${WISHLIST_STOCK:-0}" == "1" ]]; then
+  cron_call "wishlistStock" /api/cron/wishlist-stock
+fi
+
+# Works through the bulk AI listing queue (10 items per call, retries with
+# backoff). Enable with AI_LISTINGS=1; run it more often to drain big batches.
+if [[ "${AI_LISTINGS:-0}" == "1" ]]; then
+  cron_call "aiListings" /api/cron/ai-listings
 fi
 
 echo "=== DONE (OK) ==="
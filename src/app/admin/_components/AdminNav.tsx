@@ -2,13 +2,16 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
+import { ROLE_LABELS, type AdminPermission, type AdminRole } from "@/lib/admin/permissions";
 
-const LINKS: Array<{ href: string; label: string }> = [
+const LINKS: Array<{ href: string; label: string; needs?: AdminPermission }> = [
   { href: "/admin", label: "Dashboard" },
-  { href: "/admin/inventory", label: "Inventory" },
-  { href: "/admin/orders", label: "Orders" },
-  { href: "/admin/email-events", label: "Email Events" },
-  { href: "/admin/ai/listings", label: "AI Listings" },
+  { href: "/admin/inventory", label: "Inventory", needs: "catalog:read" },
+  { href: "/admin/orders", label: "Orders", needs: "orders:read" },
+  { href: "/admin/email-events", label: "Email Events", needs: "reports:read" },
+  { href: "/admin/ai/listings", label: "AI Listings", needs: "listings:write" },
+  { href: "/admin/audit", label: "Audit Log", needs: "reports:read" },
+  { href: "/admin/staff", label: "Staff", needs: "staff:manage" },
 ];
 
 
@@ -17,19 +20,31 @@ function isActive(pathname: string, href: string) {
   return pathname === href || pathname.startsWith(href + "/");
 }
 
-export default function AdminNav() {
+export default function AdminNav({
+  role,
+  permissions,
+  email,
+}: {
+  role: AdminRole;
+  permissions: AdminPermission[];
+  email: string | null;
+}) {
   const pathname = usePathname() || "";
+  const links = LINKS.filter((l) => !l.needs || permissions.includes(l.needs));
 
   return (
     <div className="rounded-xl border border-white/10 bg-white/5 p-4">
       <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
         <div>
           <div className="text-sm font-semibold tracking-wide text-white/90">Admin</div>
-          <div className="text-xs opacity-70">Internal tools</div>
+          <div className="text-xs opacity-70">
+            {ROLE_LABELS[role]}
+            {email ? ` • ${email}` : ""}
+          </div>
         </div>
 
         <nav className="flex flex-wrap gap-2">
-          {LINKS.map((l) => {
+          {links.map((l) => {
             const active = isActive(pathname, l.href);
             return (
               <Link
@@ -3,7 +3,6 @@
 
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useSearchParams } from "next/navigation";
-import { getAdminToken } from "@/components/admin/AdminApiTokenGate";
 
 
 type ProductRow = {
@@ -25,12 +24,42 @@ type ProductRow = {
   imageCount: number;
 };
 
+type DiffPart = { op: "same" | "added" | "removed"; text: string };
+
+type FieldDiff = {
+  field: "title" | "subtitle" | "description";
+  before: string | null;
+  after: string | null;
+  changed: boolean;
+  parts: DiffPart[];
+};
+
+type BatchSummary = {
+  id: string;
+  target: "product" | "inventory_item";
+  label: string | null;
+  createdAt: string;
+  total: number;
+  counts: Record<string, number>;
+};
+
+type BatchItem = {
+  id: string;
+  productId: string | null;
+  inventoryItemId: string | null;
+  title: string;
+  status: string;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  generationId: string | null;
+  generationStatus: string | null;
+  diff: FieldDiff[] | null;
+};
+
+// admin routes authenticate with the Clerk session cookie
 function adminHeaders(extra?: Record<string, string>) {
-  const token = getAdminToken();
-  return {
-    ...(extra || {}),
-    ...(token ? { "x-admin-token": token } : {}),
-  };
+  return { ...(extra || {}) };
 }
 
 export default function ListingsClient() {
@@ -52,6 +81,15 @@ export default function ListingsClient() {
 
   const [applyLoading, setApplyLoading] = useState(false);
 
+  // bulk queue
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+  const [batches, setBatches] = useState<BatchSummary[]>([]);
+  const [batchId, setBatchId] = useState<string | null>(null);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [approve, setApprove] = useState<Set<string>>(new Set());
+  const [batchBusy, setBatchBusy] = useState<string | null>(null);
+  const [batchNote, setBatchNote] = useState<string | null>(null);
+
   const selected = useMemo(
     () => rows.find((r) => r.id === selectedId) ?? null,
     [rows, selectedId],
@@ -154,9 +192,122 @@ export default function ListingsClient() {
     }
   }
 
+  async function api(url: string, init?: RequestInit) {
+    const r = await fetch(url, {
+      cache: "no-store",
+      ...init,
+      headers: adminHeaders(init?.body ? { "content-type": "application/json" } : undefined),
+    });
+    const j = await r.json().catch(() => null);
+    if (!r.ok || !j?.ok) throw new Error(j?.message || j?.error || `Request failed (${r.status})`);
+    return j;
+  }
+
+  async function loadBatches(selectId?: string) {
+    try {
+      const j = await api("/api/admin/ai/batches");
+      setBatches(j.batches || []);
+      const id = selectId ?? batchId ?? j.batches?.[0]?.id ?? null;
+      if (id) await loadBatch(id);
+    } catch (e: any) {
+      setError(String(e?.message ?? e));
+    }
+  }
+
+  async function loadBatch(id: string) {
+    const j = await api(`/api/admin/ai/batches/${id}`);
+    setBatchId(id);
+    setBatchItems(j.items || []);
+    setApprove(new Set());
+  }
+
+  async function queueBatch(body: Record<string, unknown>) {
+    setBatchBusy("queue");
+    setError(null);
+    setBatchNote(null);
+    try {
+      const j = await api("/api/admin/ai/batches", { method: "POST", body: JSON.stringify(body) });
+      setBatchNote(`Queued ${j.queued} listing(s).`);
+      setChecked(new Set());
+      await loadBatches(j.batchId);
+    } catch (e: any) {
+      setError(String(e?.message ?? e));
+    } finally {
+      setBatchBusy(null);
+    }
+  }
+
+  /** Runs the queue a few items at a time until nothing is due. */
+  async function processQueue() {
+    setBatchBusy("run");
+    setError(null);
+    try {
+      let done = 0;
+      for (let round = 0; round < 50; round++) {
+        const j = await api("/api/admin/ai/batches/run", { method: "POST", body: JSON.stringify({ limit: 3 }) });
+        done += Number(j.done || 0);
+        if (batchId) await loadBatch(batchId);
+        setBatchNote(`Generated ${done} so far…`);
+        if (!j.processed) break;
+      }
+      setBatchNote(`Queue idle. Generated ${done} listing(s); failed items retry with backoff.`);
+      await loadBatches();
+    } catch (e: any) {
+      setError(String(e?.message ?? e));
+    } finally {
+      setBatchBusy(null);
+    }
+  }
+
+  async function retryFailed() {
+    if (!batchId) return;
+    setBatchBusy("retry");
+    setError(null);
+    try {
+      const j = await api(`/api/admin/ai/batches/${batchId}/retry`, { method: "POST", body: "{}" });
+      setBatchNote(`Requeued ${j.requeued} failed item(s).`);
+      await loadBatches(batchId);
+    } catch (e: any) {
+      setError(String(e?.message ?? e));
+    } finally {
+      setBatchBusy(null);
+    }
+  }
+
+  async function approveSelected() {
+    if (!approve.size) return;
+    setBatchBusy("approve");
+    setError(null);
+    try {
+      const j = await api("/api/admin/ai/apply-listing", {
+        method: "POST",
+        body: JSON.stringify({ generationIds: [...approve] }),
+      });
+      const firstErr = (j.results || []).find((r: any) => !r.ok);
+      setBatchNote(
+        `Applied ${j.applied} listing(s)` + (j.failed ? `, ${j.failed} failed: ${firstErr?.message ?? ""}` : "."),
+      );
+      await Promise.all([loadBatches(batchId ?? undefined), load()]);
+    } catch (e: any) {
+      setError(String(e?.message ?? e));
+    } finally {
+      setBatchBusy(null);
+    }
+  }
+
+  function toggle(set: Set<string>, id: string) {
+    const next = new Set(set);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  }
+
+  const approvable = batchItems.filter((it) => it.generationId && it.status === "done" && it.generationStatus === "draft");
+
   // initial load
   useEffect(() => {
     load();
+    loadBatches();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
@@ -213,6 +364,14 @@ export default function ListingsClient() {
           <table className="w-full text-sm">
             <thead className="sticky top-0 bg-black/60 backdrop-blur">
               <tr className="text-left">
+                <th className="p-2 w-8">
+                  <input
+                    type="checkbox"
+                    aria-label="Select all"
+                    checked={rows.length > 0 && rows.every((r) => checked.has(r.id))}
+                    onChange={(e) => setChecked(e.target.checked ? new Set(rows.map((r) => r.id)) : new Set())}
+                  />
+                </th>
                 <th className="p-2">Title</th>
                 <th className="p-2">SKU</th>
                 <th className="p-2">Status</th>
@@ -235,6 +394,14 @@ export default function ListingsClient() {
                     }}
                     style={{ cursor: "pointer" }}
                   >
+                    <td className="p-2" onClick={(e) => e.stopPropagation()}>
+                      <input
+                        type="checkbox"
+                        aria-label={`Select ${r.title}`}
+                        checked={checked.has(r.id)}
+                        onChange={() => setChecked((prev) => toggle(prev, r.id))}
+                      />
+                    </td>
                     <td className="p-2">
                       <div className="font-medium">{r.title}</div>
                       <div className="opacity-70">{r.slug}</div>
@@ -247,7 +414,7 @@ export default function ListingsClient() {
               })}
               {rows.length === 0 ? (
                 <tr>
-                  <td className="p-3 opacity-70" colSpan={4}>
+                  <td className="p-3 opacity-70" colSpan={5}>
                     No products found.
                   </td>
                 </tr>
@@ -285,6 +452,30 @@ export default function ListingsClient() {
           ) : null}
         </div>
 
+        <div className="mt-4 flex gap-2 flex-wrap border-t border-white/10 pt-4">
+          <button
+            onClick={() => queueBatch({ target: "product", ids: [...checked] })}
+            disabled={!checked.size || !!batchBusy}
+            className="rounded-md border border-white/10 px-3 py-2 hover:bg-white/5"
+          >
+            Queue selected ({checked.size})
+          </button>
+          <button
+            onClick={() => queueBatch({ target: "product", label: "All draft products" })}
+            disabled={!!batchBusy}
+            className="rounded-md border border-white/10 px-3 py-2 hover:bg-white/5"
+          >
+            Queue all draft products
+          </button>
+          <button
+            onClick={() => queueBatch({ target: "inventory_item", label: "All draft inventory items" })}
+            disabled={!!batchBusy}
+            className="rounded-md border border-white/10 px-3 py-2 hover:bg-white/5"
+          >
+            Queue draft inventory items
+          </button>
+        </div>
+
         {selected ? (
           <p className="mt-3 text-xs opacity-70">
             Selected: {selected.title} • {selected.status} • {selected.imageCount} image(s)
@@ -333,6 +524,140 @@ export default function ListingsClient() {
           </div>
         ) : null}
       </div>
+
+      <div className="rounded-lg border border-white/10 p-4 lg:col-span-2">
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <h2 className="text-lg font-semibold">Bulk Review</h2>
+          <div className="flex gap-2 flex-wrap">
+            <select
+              value={batchId ?? ""}
+              onChange={(e) => {
+                if (!e.target.value) return;
+                loadBatch(e.target.value).catch((err) => setError(String(err?.message ?? err)));
+              }}
+              className="rounded-md bg-black/30 border border-white/10 px-3 py-2 text-sm"
+            >
+              {batches.length === 0 ? <option value="">No batches yet</option> : null}
+              {batches.map((b) => (
+                <option key={b.id} value={b.id}>
+                  {new Date(b.createdAt).toLocaleString()} • {b.label || b.target} • {b.counts.done + b.counts.applied}/
+                  {b.total} generated
+                  {b.counts.failed ? ` • ${b.counts.failed} failed` : ""}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={processQueue}
+              disabled={!!batchBusy}
+              className="rounded-md border border-white/10 px-3 py-2 hover:bg-white/5 text-sm"
+            >
+              {batchBusy === "run" ? "Processing…" : "Process queue"}
+            </button>
+            <button
+              onClick={retryFailed}
+              disabled={!batchId || !!batchBusy}
+              className="rounded-md border border-white/10 px-3 py-2 hover:bg-white/5 text-sm"
+            >
+              Retry failed
+            </button>
+            <button
+              onClick={() => setApprove(new Set(approvable.map((it) => it.generationId as string)))}
+              disabled={!approvable.length || !!batchBusy}
+              className="rounded-md border border-white/10 px-3 py-2 hover:bg-white/5 text-sm"
+            >
+              Select all ready ({approvable.length})
+            </button>
+            <button
+              onClick={approveSelected}
+              disabled={!approve.size || !!batchBusy}
+              className="rounded-md border border-emerald-400/40 px-3 py-2 hover:bg-emerald-400/10 text-sm"
+            >
+              {batchBusy === "approve" ? "Applying…" : `Approve selected (${approve.size})`}
+            </button>
+          </div>
+        </div>
+
+        {batchNote ? <p className="mt-2 text-xs opacity-80">{batchNote}</p> : null}
+
+        <div className="mt-4 space-y-3 max-h-[80vh] overflow-auto">
+          {batchItems.map((it) => {
+            const ready = approvable.includes(it);
+            return (
+              <div key={it.id} className="rounded-md border border-white/10 p-3">
+                <div className="flex items-center gap-2 flex-wrap text-sm">
+                  <input
+                    type="checkbox"
+                    aria-label={`Approve ${it.title}`}
+                    disabled={!ready}
+                    checked={!!it.generationId && approve.has(it.generationId)}
+                    onChange={() => it.generationId && setApprove((prev) => toggle(prev, it.generationId as string))}
+                  />
+                  <span className="font-medium">{it.title}</span>
+                  <span className="text-xs opacity-70">
+                    {it.inventoryItemId ? "inventory item" : "product"} • {it.status}
+                    {it.attempts ? ` • attempt ${it.attempts}` : ""}
+                    {it.status === "queued" && it.attempts && it.nextAttemptAt
+                      ? ` • retry after ${new Date(it.nextAttemptAt).toLocaleTimeString()}`
+                      : ""}
+                  </span>
+                </div>
+                {it.lastError && it.status !== "done" && it.status !== "applied" ? (
+                  <p className="mt-1 text-xs text-red-300">{it.lastError}</p>
+                ) : null}
+                {it.diff ? <CopyDiffView diff={it.diff} /> : null}
+              </div>
+            );
+          })}
+          {batchId && batchItems.length === 0 ? <p className="text-sm opacity-70">This batch is empty.</p> : null}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** Current copy (removals struck out) beside the generated copy (additions highlighted). */
+function CopyDiffView({ diff }: { diff: FieldDiff[] }) {
+  return (
+    <div className="mt-2 grid grid-cols-[6rem_1fr_1fr] gap-x-3 gap-y-2 text-xs">
+      <div />
+      <div className="font-semibold opacity-70">Current</div>
+      <div className="font-semibold opacity-70">Generated</div>
+      {diff.map((d) => (
+        <div key={d.field} className="contents">
+          <div className="opacity-70 capitalize">
+            {d.field}
+            {d.changed ? "" : " (same)"}
+          </div>
+          <div className="whitespace-pre-wrap rounded bg-black/30 p-2">
+            {d.parts
+              .filter((p) => p.op !== "added")
+              .map((p, i) =>
+                p.op === "removed" ? (
+                  <del key={i} className="bg-red-500/20 text-red-200">
+                    {p.text}
+                  </del>
+                ) : (
+                  <span key={i}>{p.text}</span>
+                ),
+              )}
+            {!d.before ? <span className="opacity-50">—</span> : null}
+          </div>
+          <div className="whitespace-pre-wrap rounded bg-black/30 p-2">
+            {d.parts
+              .filter((p) => p.op !== "removed")
+              .map((p, i) =>
+                p.op === "added" ? (
+                  <ins key={i} className="bg-emerald-500/20 text-emerald-200 no-underline">
+                    {p.text}
+                  </ins>
+                ) : (
+                  <span key={i}>{p.text}</span>
+                ),
+              )}
+            {!d.after ? <span className="opacity-50">—</span> : null}
+          </div>
+        </div>
+      ))}
     </div>
   );
 }
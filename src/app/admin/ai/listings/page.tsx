@@ -16,6 +16,7 @@ export default function Page() {
       <h1 className="text-2xl font-semibold">Admin • AI Listings</h1>
       <p className="opacity-80 mt-2">
         Browse products, load images for the selected product, generate strict JSON, and apply copy back to the product.
+        Queue many drafts at once, then review each diff under Bulk Review and approve in bulk.
       </p>
 
       <div className="mt-4 rounded-lg border border-white/10 bg-black/20 p-3 text-sm opacity-90">
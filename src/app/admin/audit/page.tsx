@@ -0,0 +1,167 @@
+// src/app/admin/audit/page.tsx
+import "server-only";
+
+import type { Metadata } from "next";
+import Link from "next/link";
+import { requireAdminPage } from "@/lib/adminAuth";
+import { listAdminAudit, type AuditLogRow } from "@/lib/admin/audit";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export const metadata: Metadata = {
+  title: "Admin • Audit Log • Legendary Collectibles",
+  robots: { index: false, follow: false },
+};
+
+const ENTITY_TYPES = ["product", "inventory_item", "order", "catalog_item", "staff", "import"] as const;
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+function one(sp: SearchParams, k: string) {
+  const v = sp?.[k];
+  return Array.isArray(v) ? (v[0] ?? "") : (v ?? "");
+}
+
+function fmt(v: unknown) {
+  if (v === null || v === undefined) return "—";
+  return typeof v === "string" ? v : JSON.stringify(v);
+}
+
+function Changes({ row }: { row: AuditLogRow }) {
+  const entries = Object.entries(row.changes ?? {});
+  const meta = Object.entries(row.meta ?? {}).filter(([, v]) => v !== null && v !== undefined);
+  return (
+    <div className="grid gap-0.5">
+      {entries.map(([k, c]) => (
+        <div key={k}>
+          <span className="opacity-60">{k}:</span> {fmt(c.from)} → {fmt(c.to)}
+        </div>
+      ))}
+      {meta.map(([k, v]) => (
+        <div key={k} className="opacity-60">
+          {k}: {fmt(v)}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default async function Page({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  await requireAdminPage("reports:read");
+  const sp = await searchParams;
+  const entityType = one(sp, "entityType");
+  const entityId = one(sp, "entityId");
+  const userId = one(sp, "userId");
+  const before = one(sp, "before");
+
+  const rows = await listAdminAudit({ entityType, entityId, userId, before, limit: 100 });
+  const last = rows.length === 100 ? rows[rows.length - 1] : null;
+
+  const olderHref = last
+    ? `/admin/audit?${new URLSearchParams({
+        ...(entityType ? { entityType } : {}),
+        ...(entityId ? { entityId } : {}),
+        ...(userId ? { userId } : {}),
+        before: String(last.createdAt),
+      })}`
+    : null;
+
+  return (
+    <div className="max-w-6xl">
+      <h1 className="text-2xl font-semibold">Audit Log</h1>
+      <p className="mt-2 opacity-80">Who changed prices, stock, orders and staff roles.</p>
+
+      <form className="mt-6 flex flex-wrap items-end gap-3">
+        <label className="grid gap-1 text-sm">
+          <span className="opacity-70">Type</span>
+          <select
+            name="entityType"
+            defaultValue={entityType}
+            className="rounded-md border border-white/15 bg-black/30 px-3 py-2"
+          >
+            <option value="">All</option>
+            {ENTITY_TYPES.map((t) => (
+              <option key={t} value={t}>
+                {t}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="grid gap-1 text-sm">
+          <span className="opacity-70">Entity id</span>
+          <input
+            name="entityId"
+            defaultValue={entityId}
+            className="w-72 rounded-md border border-white/15 bg-black/30 px-3 py-2"
+          />
+        </label>
+        <button type="submit" className="rounded-md border border-white/15 bg-white/10 px-4 py-2 text-sm hover:bg-white/20">
+          Filter
+        </button>
+        {entityType || entityId || userId || before ? (
+          <Link href="/admin/audit" className="text-sm text-sky-300 hover:underline">
+            Clear
+          </Link>
+        ) : null}
+      </form>
+
+      <table className="mt-6 w-full text-left text-sm">
+        <thead className="opacity-60">
+          <tr>
+            <th className="py-2 pr-3">When</th>
+            <th className="py-2 pr-3">Who</th>
+            <th className="py-2 pr-3">Action</th>
+            <th className="py-2 pr-3">Entity</th>
+            <th className="py-2">Changes</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.id} className="border-t border-white/10 align-top">
+              <td className="py-2 pr-3 whitespace-nowrap opacity-70">{new Date(r.createdAt).toLocaleString()}</td>
+              <td className="py-2 pr-3">
+                <Link href={`/admin/audit?userId=${encodeURIComponent(r.userId)}`} className="hover:underline">
+                  {r.email ?? r.userId}
+                </Link>
+                <div className="text-xs opacity-60">{r.role}</div>
+              </td>
+              <td className="py-2 pr-3 font-mono text-xs">{r.action}</td>
+              <td className="py-2 pr-3">
+                {r.entityId ? (
+                  <Link
+                    href={`/admin/audit?entityType=${encodeURIComponent(r.entityType)}&entityId=${encodeURIComponent(r.entityId)}`}
+                    className="hover:underline"
+                  >
+                    {r.entityType} · <span className="font-mono text-xs">{r.entityId}</span>
+                  </Link>
+                ) : (
+                  r.entityType
+                )}
+              </td>
+              <td className="py-2 text-xs">
+                <Changes row={r} />
+              </td>
+            </tr>
+          ))}
+          {!rows.length ? (
+            <tr>
+              <td colSpan={5} className="py-4 opacity-60">
+                No entries.
+              </td>
+            </tr>
+          ) : null}
+        </tbody>
+      </table>
+
+      {olderHref ? (
+        <div className="mt-4">
+          <Link href={olderHref} className="text-sm text-sky-300 hover:underline">
+            Older →
+          </Link>
+        </div>
+      ) : null}
+    </div>
+  );
+}
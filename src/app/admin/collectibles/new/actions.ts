@@ -7,6 +7,8 @@ import "server-only";
 import { redirect } from "next/navigation";
 import { sql } from "drizzle-orm";
 import { db } from "@/lib/db";
+import { requireAdminAction } from "@/lib/adminAuth";
+import { recordAdminAudit } from "@/lib/admin/audit";
 
 function isNextRedirect(e: unknown) {
   return typeof e === "object" && e !== null && "digest" in e && (e as any).digest === "NEXT_REDIRECT";
@@ -135,6 +137,8 @@ export async function upsertCollectiblesFromForm(formData: FormData) {
   const backTo = "/admin/collectibles/new";
 
   try {
+    const actor = await requireAdminAction("catalog:write");
+
     const idRaw = sNull(formData.get("id"));
     const upcRaw = sNull(formData.get("upc"));
     const upc = normalizeUpc(upcRaw);
@@ -465,6 +469,13 @@ export async function upsertCollectiblesFromForm(formData: FormData) {
       return { productId };
     });
 
+    await recordAdminAudit(actor, {
+      action: "catalog_item.upsert",
+      entityType: "catalog_item",
+      entityId: id,
+      meta: { kind: "collectibles", productId: result.productId ?? null },
+    });
+
     const okMsg = result.productId ? "Saved + synced product listing." : "Saved.";
     redirect(`/categories/collectibles/items/${encodeURIComponent(id)}?ok=${encodeURIComponent(okMsg)}`);
   } catch (e: any) {
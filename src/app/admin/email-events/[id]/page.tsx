@@ -1,6 +1,7 @@
 // src/app/admin/email-events/[id]/page.tsx
 import "server-only";
 import { db } from "@/lib/db";
+import { requireAdminPage } from "@/lib/adminAuth";
 import { eq } from "drizzle-orm";
 import Link from "next/link";
 import { emailEvents } from "@/lib/db/schema";
@@ -15,6 +16,8 @@ export default async function EmailEventDetailPage({
 }: {
   params: Promise<Params>;
 }) {
+  await requireAdminPage("reports:read");
+
   const { id } = await params;
   const row =
     (
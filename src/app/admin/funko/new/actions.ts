@@ -7,6 +7,8 @@ import "server-only";
 import { redirect } from "next/navigation";
 import { sql } from "drizzle-orm";
 import { db } from "@/lib/db";
+import { requireAdminAction } from "@/lib/adminAuth";
+import { recordAdminAudit } from "@/lib/admin/audit";
 
 // Turbopack/Next throws redirect as an exception; do NOT swallow it.
 function isNextRedirect(e: unknown) {
@@ -138,6 +140,8 @@ export async function upsertFunkoFromForm(formData: FormData) {
   const backTo = "/admin/funko/new";
 
   try {
+    const actor = await requireAdminAction("catalog:write");
+
     const idRaw = sNull(formData.get("id"));
     const upcRaw = sNull(formData.get("upc"));
     const upc = normalizeUpc(upcRaw);
@@ -472,6 +476,13 @@ export async function upsertFunkoFromForm(formData: FormData) {
       return { productId };
     });
 
+    await recordAdminAudit(actor, {
+      action: "catalog_item.upsert",
+      entityType: "catalog_item",
+      entityId: id,
+      meta: { kind: "funko", productId: result.productId ?? null },
+    });
+
     const okMsg = result.productId ? "Saved + synced product listing." : "Saved.";
     redirect(`/categories/funko/items/${encodeURIComponent(id)}?ok=${encodeURIComponent(okMsg)}`);
   } catch (e: any) {
@@ -101,7 +101,11 @@ export default function ItemEditor({ id }: { id: string }) {
       const data = text ? JSON.parse(text) : null;
       if (!res.ok) throw new Error(data?.error || `Publish failed (HTTP ${res.status})`);
 
-      setMsg("Published Live ✅");
+      setMsg(
+        data?.listing?.slug
+          ? `Published Live ✅ — ${data.listing.created ? "listed" : "listing updated"} at /products/${data.listing.slug}`
+          : "Published Live ✅",
+      );
       await load();
     } catch (e: any) {
       setMsg(e?.message || "Publish failed");
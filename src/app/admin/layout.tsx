@@ -1,50 +1,37 @@
 import "server-only";
 
 import type { ReactNode } from "react";
-import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { auth } from "@clerk/nextjs/server";
+import { getAdminActor } from "@/lib/adminAuth";
+import { permissionsFor } from "@/lib/admin/permissions";
 import AdminNav from "./_components/AdminNav";
 import AdminGate from "./_components/AdminGate";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-const COOKIE_NAME = "admin_ui_token";
-
-function isAllowed(cookieValue: string | undefined | null) {
-  const required = (process.env.ADMIN_UI_TOKEN || "").trim();
-
-  // If no token configured, allow (you can remove this if you ALWAYS want a token)
-  if (!required) return true;
-
-  return (cookieValue || "").trim() === required;
-}
-
 export default async function AdminLayout({
   children,
 }: {
   children: ReactNode;
 }) {
-  const jar = await cookies();
-  const cookieVal = jar.get(COOKIE_NAME)?.value ?? null;
-
-  // read ?err=1 from URL is not directly available in layout,
-  // so we just always show gate without the message here.
-  // We'll show error message using /admin/page.tsx if you want,
-  // OR we can show it with a tiny middleware/route wrapper.
-  const ok = isAllowed(cookieVal);
+  const { userId } = await auth();
+  if (!userId) redirect(`/sign-in?redirect_url=${encodeURIComponent("/admin")}`);
 
-  if (!ok) {
-    // We can’t read searchParams in layout, so no err hint here.
+  // signed in, but not staff (no admin_users row and not in ADMIN_EMAILS)
+  const actor = await getAdminActor();
+  if (!actor) {
     return (
       <div className="max-w-7xl mx-auto px-4 py-8">
-        <AdminGate err={null} />
+        <AdminGate />
       </div>
     );
   }
 
   return (
     <div className="max-w-7xl mx-auto px-4 py-8">
-      <AdminNav />
+      <AdminNav role={actor.role} permissions={[...permissionsFor(actor.role)]} email={actor.email} />
       <div className="mt-6">{children}</div>
     </div>
   );
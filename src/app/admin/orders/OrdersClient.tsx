@@ -138,6 +138,16 @@ export default function OrdersClient() {
           >
             Next
           </button>
+
+          <a
+            href="/api/admin/orders/pick-list"
+            target="_blank"
+            rel="noreferrer"
+            className="rounded-md border border-white/10 px-3 py-2 hover:bg-white/10"
+            title="Everything to pull for paid orders that haven't been picked yet"
+          >
+            Pick list (PDF)
+          </a>
         </div>
       </div>
 
@@ -0,0 +1,153 @@
+"use client";
+
+import { useState } from "react";
+import type { OrderFulfillmentView } from "@/lib/orders/fulfillment";
+import {
+  CARRIERS,
+  CARRIER_LABELS,
+  FULFILLMENT_STAGES,
+  FULFILLMENT_STAGE_LABELS,
+  nextStages,
+  stageIndex,
+  type FulfillmentStage,
+} from "@/lib/orders/fulfillmentFlow";
+
+type Props = { orderId: string; initial: OrderFulfillmentView };
+
+const inputCls = "rounded-md border border-white/10 bg-black/20 px-3 py-2 text-sm";
+const btnCls = "rounded-md border border-white/10 px-3 py-2 text-sm hover:bg-white/10 disabled:opacity-50";
+
+const STAMPS: Partial<Record<FulfillmentStage, keyof OrderFulfillmentView>> = {
+  picked: "pickedAt",
+  packed: "packedAt",
+  shipped: "shippedAt",
+  delivered: "deliveredAt",
+};
+
+function fmtTs(v: string | null | undefined) {
+  if (!v) return null;
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? v : d.toLocaleString();
+}
+
+export default function FulfillmentPanel({ orderId, initial }: Props) {
+  const [f, setF] = useState(initial);
+  const [carrier, setCarrier] = useState<string>(initial.carrier ?? "");
+  const [tracking, setTracking] = useState(initial.trackingNumber ?? "");
+  const [note, setNote] = useState(initial.note ?? "");
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<{ kind: "ok" | "err"; text: string } | null>(null);
+
+  const workable = f.orderStatus === "paid" || f.orderStatus === "fulfilled";
+
+  async function save(stage?: FulfillmentStage) {
+    setBusy(true);
+    setMsg(null);
+    try {
+      const res = await fetch(`/api/admin/orders/${orderId}/fulfillment`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ stage, carrier, trackingNumber: tracking, note }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!json?.ok) {
+        setMsg({ kind: "err", text: json?.message ?? json?.error ?? "Update failed." });
+        return;
+      }
+      setF(json.fulfillment);
+      setTracking(json.fulfillment.trackingNumber ?? "");
+      setMsg({
+        kind: "ok",
+        text: json.emailed ? `Saved. Emailed the customer that it was ${json.emailed}.` : "Saved.",
+      });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="mt-8 rounded-xl border border-white/10 bg-black/20 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold">Fulfillment</h2>
+        <div className="flex gap-2">
+          <a href={`/api/admin/orders/${orderId}/packing-slip`} target="_blank" rel="noreferrer" className={btnCls}>
+            Packing slip (PDF)
+          </a>
+          <a href={`/api/admin/orders/pick-list?ids=${orderId}`} target="_blank" rel="noreferrer" className={btnCls}>
+            Pick list (PDF)
+          </a>
+        </div>
+      </div>
+
+      <ol className="mt-4 grid gap-2 sm:grid-cols-4">
+        {FULFILLMENT_STAGES.filter((s) => s !== "unfulfilled").map((s) => {
+          const done = stageIndex(f.stage) >= stageIndex(s);
+          const key = STAMPS[s];
+          return (
+            <li
+              key={s}
+              className={[
+                "rounded-lg border p-2 text-sm",
+                done ? "border-emerald-400/30 bg-emerald-500/10" : "border-white/10 bg-black/30 opacity-70",
+              ].join(" ")}
+            >
+              <div className="font-medium">{FULFILLMENT_STAGE_LABELS[s]}</div>
+              <div className="text-xs opacity-70">{(key && fmtTs(f[key] as string | null)) || "—"}</div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {!workable ? (
+        <p className="mt-4 text-sm text-yellow-300">This order is {f.orderStatus}; only paid orders can be fulfilled.</p>
+      ) : (
+        <>
+          <div className="mt-4 grid gap-2 sm:grid-cols-3">
+            <select value={carrier} onChange={(e) => setCarrier(e.target.value)} className={inputCls}>
+              <option value="">Carrier…</option>
+              {CARRIERS.map((c) => (
+                <option key={c} value={c}>
+                  {CARRIER_LABELS[c]}
+                </option>
+              ))}
+            </select>
+            <input
+              value={tracking}
+              onChange={(e) => setTracking(e.target.value)}
+              placeholder="Tracking number"
+              className={inputCls}
+            />
+            <input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Internal note" className={inputCls} />
+          </div>
+
+          {f.trackingUrl ? (
+            <a href={f.trackingUrl} target="_blank" rel="noreferrer" className="mt-2 inline-block text-sm underline underline-offset-2">
+              Track {f.trackingNumber}
+            </a>
+          ) : null}
+
+          <div className="mt-4 flex flex-wrap gap-2">
+            {nextStages(f.stage).map((s) => (
+              <button key={s} type="button" onClick={() => save(s)} disabled={busy} className={btnCls}>
+                Mark {FULFILLMENT_STAGE_LABELS[s].toLowerCase()}
+              </button>
+            ))}
+            <button type="button" onClick={() => save()} disabled={busy} className={btnCls}>
+              {busy ? "Saving…" : "Save details"}
+            </button>
+          </div>
+        </>
+      )}
+
+      {msg ? (
+        <p className={msg.kind === "ok" ? "mt-3 text-sm text-emerald-300" : "mt-3 text-sm text-red-300"}>{msg.text}</p>
+      ) : null}
+
+      <p className="mt-3 text-xs opacity-60">
+        Shipping and delivery each email the customer once
+        {f.shippedEmailAt ? ` (shipped email sent ${fmtTs(f.shippedEmailAt)})` : ""}
+        {f.deliveredEmailAt ? ` (delivered email sent ${fmtTs(f.deliveredEmailAt)})` : ""}.
+      </p>
+    </div>
+  );
+}
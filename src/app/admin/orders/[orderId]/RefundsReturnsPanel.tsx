@@ -0,0 +1,253 @@
+"use client";
+
+import { useState } from "react";
+import type { OrderRefundSummary } from "@/lib/orders/refunds";
+import type { OrderReturnView } from "@/lib/orders/returns";
+import {
+  REFUND_REASONS,
+  REFUND_REASON_LABELS,
+  RETURN_REASON_LABELS,
+  RETURN_STATUS_LABELS,
+  type RefundReason,
+  type ReturnDecision,
+} from "@/lib/orders/returnsFlow";
+
+type Props = { orderId: string; initialRefunds: OrderRefundSummary; initialReturns: OrderReturnView[] };
+
+const inputCls = "rounded-md border border-white/10 bg-black/20 px-3 py-2 text-sm";
+const btnCls = "rounded-md border border-white/10 px-3 py-2 text-sm hover:bg-white/10 disabled:opacity-50";
+const smallBtnCls = "rounded-md border border-white/10 px-2 py-1 text-xs hover:bg-white/10 disabled:opacity-50";
+
+function money(cents: number, currency: string) {
+  return `${currency.toUpperCase()} $${(cents / 100).toFixed(2)}`;
+}
+
+function fmtTs(v: string | null) {
+  if (!v) return "—";
+  const d = new Date(v);
+  return Number.isNaN(d.getTime()) ? v : d.toLocaleString();
+}
+
+export default function RefundsReturnsPanel({ orderId, initialRefunds, initialReturns }: Props) {
+  const [summary, setSummary] = useState(initialRefunds);
+  const [returns, setReturns] = useState(initialReturns);
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState<RefundReason>("requested_by_customer");
+  const [returnId, setReturnId] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<{ kind: "ok" | "err"; text: string } | null>(null);
+
+  const cur = summary.currency;
+
+  async function call(url: string, method: string, body: unknown) {
+    setBusy(true);
+    setMsg(null);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json().catch(() => null);
+      if (!json?.ok) {
+        setMsg({ kind: "err", text: json?.message ?? json?.error ?? "Request failed." });
+        return null;
+      }
+      return json;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function refund(full: boolean) {
+    const cents = full ? null : Math.round(Number(amount) * 100);
+    if (!full && (!Number.isFinite(cents) || !cents || cents <= 0)) {
+      setMsg({ kind: "err", text: "Enter an amount to refund." });
+      return;
+    }
+    const total = full ? summary.remainingCents : cents!;
+    if (!window.confirm(`Refund ${money(total, cur)} to the customer's card?`)) return;
+
+    const json = await call(`/api/admin/orders/${orderId}/refunds`, "POST", {
+      amountCents: cents,
+      reason,
+      returnId: returnId || undefined,
+    });
+    if (!json) return;
+    setSummary(json.summary);
+    setAmount("");
+    setMsg({ kind: "ok", text: "Refund sent to Stripe." });
+  }
+
+  async function updateReturn(id: string, body: { action?: string; decisions?: { itemId: string; decision: ReturnDecision }[] }) {
+    const json = await call(`/api/admin/orders/${orderId}/returns/${id}`, "PATCH", body);
+    if (!json) return;
+    setReturns((prev) => prev.map((r) => (r.id === id ? json.return : r)));
+    setMsg({
+      kind: "ok",
+      text: json.movements ? `Saved. Posted ${json.movements} stock movement(s).` : "Saved.",
+    });
+  }
+
+  function prefillRefund(r: OrderReturnView) {
+    setReturnId(r.id);
+    setAmount((Math.min(r.valueCents, summary.remainingCents) / 100).toFixed(2));
+  }
+
+  return (
+    <div className="mt-8 rounded-xl border border-white/10 bg-black/20 p-4">
+      <h2 className="text-lg font-semibold">Refunds &amp; returns</h2>
+
+      <div className="mt-3 grid gap-2 text-sm sm:grid-cols-3">
+        <div>
+          <div className="opacity-70">Refunded</div>
+          <div className="font-medium">{money(summary.refundedCents, cur)}</div>
+        </div>
+        <div>
+          <div className="opacity-70">Pending at Stripe</div>
+          <div className="font-medium">{money(summary.pendingCents, cur)}</div>
+        </div>
+        <div>
+          <div className="opacity-70">Still refundable</div>
+          <div className="font-medium">{money(summary.remainingCents, cur)}</div>
+        </div>
+      </div>
+
+      {summary.remainingCents > 0 && summary.orderStatus !== "pending" && summary.orderStatus !== "canceled" ? (
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          <input
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="Amount, e.g. 12.50"
+            inputMode="decimal"
+            className={`${inputCls} w-40`}
+          />
+          <select value={reason} onChange={(e) => setReason(e.target.value as RefundReason)} className={inputCls}>
+            {REFUND_REASONS.map((r) => (
+              <option key={r} value={r}>
+                {REFUND_REASON_LABELS[r]}
+              </option>
+            ))}
+          </select>
+          <select value={returnId} onChange={(e) => setReturnId(e.target.value)} className={inputCls}>
+            <option value="">No return</option>
+            {returns.map((r) => (
+              <option key={r.id} value={r.id}>
+                Return {r.id.slice(0, 8)}
+              </option>
+            ))}
+          </select>
+          <button type="button" onClick={() => refund(false)} disabled={busy} className={btnCls}>
+            Partial refund
+          </button>
+          <button type="button" onClick={() => refund(true)} disabled={busy} className={btnCls}>
+            Refund all ({money(summary.remainingCents, cur)})
+          </button>
+        </div>
+      ) : null}
+
+      {summary.refunds.length ? (
+        <ul className="mt-4 space-y-1 text-sm">
+          {summary.refunds.map((r) => (
+            <li key={r.id} className="flex flex-wrap justify-between gap-2 rounded-lg border border-white/10 bg-black/30 p-2">
+              <span>
+                {money(r.amountCents, r.currency)} · {r.status}
+                {r.failureReason ? ` (${r.failureReason})` : ""}
+                {r.returnId ? ` · return ${r.returnId.slice(0, 8)}` : ""}
+              </span>
+              <span className="text-xs opacity-70">
+                {fmtTs(r.createdAt)} · {r.stripeRefundId}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      <h3 className="mt-6 font-semibold">Return requests</h3>
+      {!returns.length ? (
+        <div className="mt-2 text-sm opacity-70">No returns requested.</div>
+      ) : (
+        <div className="mt-2 space-y-3">
+          {returns.map((r) => (
+            <div key={r.id} className="rounded-lg border border-white/10 bg-black/30 p-3 text-sm">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="font-medium">
+                  {r.id.slice(0, 8)} · {RETURN_STATUS_LABELS[r.status]}
+                </span>
+                <span className="text-xs opacity-70">{fmtTs(r.createdAt)}</span>
+              </div>
+              <div className="mt-1 text-xs opacity-80">
+                {RETURN_REASON_LABELS[r.reasonCode]}
+                {r.customerNote ? ` — “${r.customerNote}”` : ""}
+              </div>
+
+              <ul className="mt-2 space-y-1">
+                {r.items.map((it) => (
+                  <li key={it.id} className="flex flex-wrap items-center justify-between gap-2">
+                    <span>
+                      {it.title} × {it.qty} <span className="opacity-60">({money(it.unitPriceCents * it.qty, cur)})</span>
+                    </span>
+                    {it.decision ? (
+                      <span className="text-xs opacity-80">{it.decision === "restock" ? "Restocked" : "Written off"}</span>
+                    ) : r.status === "received" ? (
+                      <span className="flex gap-1">
+                        <button
+                          type="button"
+                          disabled={busy}
+                          onClick={() => updateReturn(r.id, { decisions: [{ itemId: it.id, decision: "restock" }] })}
+                          className={smallBtnCls}
+                        >
+                          Restock
+                        </button>
+                        <button
+                          type="button"
+                          disabled={busy}
+                          onClick={() => updateReturn(r.id, { decisions: [{ itemId: it.id, decision: "write_off" }] })}
+                          className={smallBtnCls}
+                        >
+                          Write off
+                        </button>
+                      </span>
+                    ) : null}
+                  </li>
+                ))}
+              </ul>
+
+              <div className="mt-2 flex flex-wrap gap-2">
+                {r.status === "requested" ? (
+                  <button type="button" disabled={busy} onClick={() => updateReturn(r.id, { action: "approve" })} className={smallBtnCls}>
+                    Approve
+                  </button>
+                ) : null}
+                {r.status === "requested" || r.status === "approved" ? (
+                  <button type="button" disabled={busy} onClick={() => updateReturn(r.id, { action: "reject" })} className={smallBtnCls}>
+                    Decline
+                  </button>
+                ) : null}
+                {r.status === "approved" ? (
+                  <button type="button" disabled={busy} onClick={() => updateReturn(r.id, { action: "receive" })} className={smallBtnCls}>
+                    Mark received
+                  </button>
+                ) : null}
+                {r.status !== "rejected" && summary.remainingCents > 0 ? (
+                  <button type="button" disabled={busy} onClick={() => prefillRefund(r)} className={smallBtnCls}>
+                    Refund {money(Math.min(r.valueCents, summary.remainingCents), cur)}…
+                  </button>
+                ) : null}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {msg ? (
+        <p className={msg.kind === "ok" ? "mt-3 text-sm text-emerald-300" : "mt-3 text-sm text-red-300"}>{msg.text}</p>
+      ) : null}
+
+      <p className="mt-3 text-xs opacity-60">
+        Restocking puts units back on the listing. If the listing is linked to an inventory item, RETURN / DAMAGE
+        movements are posted to its stock ledger too.
+      </p>
+    </div>
+  );
+}
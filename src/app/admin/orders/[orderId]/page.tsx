@@ -1,10 +1,16 @@
 import "server-only";
 
 import { notFound, redirect } from "next/navigation";
-import { auth, currentUser } from "@clerk/nextjs/server";
+import { auth } from "@clerk/nextjs/server";
+import { requireAdminPage } from "@/lib/adminAuth";
 import { db } from "@/lib/db";
 import { orders, orderItems } from "@/lib/db/schema/orders";
 import { eq } from "drizzle-orm";
+import { getOrderFulfillment } from "@/lib/orders/fulfillment";
+import { getOrderRefunds } from "@/lib/orders/refunds";
+import { listOrderReturns } from "@/lib/orders/returns";
+import FulfillmentPanel from "./FulfillmentPanel";
+import RefundsReturnsPanel from "./RefundsReturnsPanel";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -18,23 +24,12 @@ function money(cents: number | null | undefined, currency: string | null | undef
   return `${cur} $${v}`;
 }
 
-function isAdminEmail(email?: string | null) {
-  const allow = (process.env.ADMIN_EMAILS || "")
-    .split(",")
-    .map((s) => s.trim().toLowerCase())
-    .filter(Boolean);
-
-  if (!allow.length) return false; // force you to set it
-  if (!email) return false;
-  return allow.includes(email.toLowerCase());
-}
-
 export default async function AdminOrderDetailPage({
   params,
 }: {
-  params: { orderId: string };
+  params: Promise<{ orderId: string }>;
 }) {
-  const orderId = params.orderId;
+  const { orderId } = await params;
 
   // If coming from an email link, you’re often signed-out.
   // Redirect to sign-in and bounce back to this exact page (RELATIVE path).
@@ -43,14 +38,7 @@ export default async function AdminOrderDetailPage({
     redirect(`/sign-in?redirect_url=${encodeURIComponent(`/admin/orders/${orderId}`)}`);
   }
 
-  // Get real email from the user object (more reliable than session claims)
-  const user = await currentUser();
-  const email =
-    user?.primaryEmailAddress?.emailAddress ||
-    user?.emailAddresses?.[0]?.emailAddress ||
-    null;
-
-  if (!isAdminEmail(email)) notFound();
+  await requireAdminPage("orders:read");
 
   const [o] = (await db
     .select()
@@ -65,6 +53,12 @@ export default async function AdminOrderDetailPage({
     .from(orderItems)
     .where(eq(orderItems.orderId, orderId))) as OrderItemRow[];
 
+  const [fulfillment, refunds, returns] = await Promise.all([
+    getOrderFulfillment(orderId),
+    getOrderRefunds(orderId),
+    listOrderReturns(orderId),
+  ]);
+
   return (
     <div className="mx-auto w-full max-w-4xl px-4 py-8">
       <div className="mb-6">
@@ -81,6 +75,11 @@ export default async function AdminOrderDetailPage({
           <div className="mt-1 text-lg font-medium">
             {money(o.totalCents, o.currency)}
           </div>
+          {o.refundedCents > 0 ? (
+            <div className="mt-1 text-sm text-yellow-300">
+              Refunded {money(o.refundedCents, o.currency)}
+            </div>
+          ) : null}
 
           <div className="mt-4 text-sm opacity-70">Customer</div>
           <div className="mt-1">{o.email || "—"}</div>
@@ -102,6 +101,10 @@ export default async function AdminOrderDetailPage({
         </div>
       </div>
 
+      <FulfillmentPanel orderId={o.id} initial={fulfillment} />
+
+      <RefundsReturnsPanel orderId={o.id} initialRefunds={refunds} initialReturns={returns} />
+
       <div className="mt-8 rounded-xl border border-white/10 bg-black/20 p-4">
         <h2 className="text-lg font-semibold">Items</h2>
 
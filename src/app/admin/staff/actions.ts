@@ -0,0 +1,53 @@
+// src/app/admin/staff/actions.ts
+"use server";
+
+import "server-only";
+
+import { redirect } from "next/navigation";
+import { requireAdminAction } from "@/lib/adminAuth";
+import { isAdminRole } from "@/lib/admin/permissions";
+import { removeStaff, setStaffRole } from "@/lib/admin/staff";
+
+function isNextRedirect(e: unknown) {
+  return typeof e === "object" && e !== null && "digest" in e && (e as any).digest === "NEXT_REDIRECT";
+}
+
+function s(v: FormDataEntryValue | null): string {
+  return String(v ?? "").trim();
+}
+
+function fail(e: any, fallback: string): never {
+  const msg = typeof e?.message === "string" && e.message.trim() ? e.message.trim() : fallback;
+  redirect(`/admin/staff?error=${encodeURIComponent(msg)}`);
+}
+
+export async function saveStaffRole(formData: FormData) {
+  try {
+    const actor = await requireAdminAction("staff:manage");
+
+    const email = s(formData.get("email"));
+    const role = s(formData.get("role"));
+    if (!isAdminRole(role)) throw new Error("Pick a role.");
+
+    await setStaffRole(actor, { email, role });
+    redirect(`/admin/staff?ok=${encodeURIComponent(`${email} is now ${role}.`)}`);
+  } catch (e: any) {
+    if (isNextRedirect(e)) throw e;
+    fail(e, "Failed to save staff role.");
+  }
+}
+
+export async function removeStaffMember(formData: FormData) {
+  try {
+    const actor = await requireAdminAction("staff:manage");
+
+    const userId = s(formData.get("userId"));
+    if (!userId) throw new Error("Missing user.");
+
+    await removeStaff(actor, userId);
+    redirect(`/admin/staff?ok=${encodeURIComponent("Staff member removed.")}`);
+  } catch (e: any) {
+    if (isNextRedirect(e)) throw e;
+    fail(e, "Failed to remove staff member.");
+  }
+}
@@ -0,0 +1,120 @@
+// src/app/admin/staff/page.tsx
+import "server-only";
+
+import type { Metadata } from "next";
+import { requireAdminPage } from "@/lib/adminAuth";
+import { ADMIN_ROLES, ROLE_LABELS } from "@/lib/admin/permissions";
+import { listStaff } from "@/lib/admin/staff";
+import { removeStaffMember, saveStaffRole } from "./actions";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export const metadata: Metadata = {
+  title: "Admin • Staff • Legendary Collectibles",
+  robots: { index: false, follow: false },
+};
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+function one(sp: SearchParams, k: string) {
+  const v = sp?.[k];
+  return Array.isArray(v) ? (v[0] ?? "") : (v ?? "");
+}
+
+export default async function Page({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const actor = await requireAdminPage("staff:manage");
+  const sp = await searchParams;
+  const ok = one(sp, "ok");
+  const error = one(sp, "error");
+
+  const staff = await listStaff();
+
+  return (
+    <div className="max-w-5xl">
+      <h1 className="text-2xl font-semibold">Staff</h1>
+      <p className="mt-2 opacity-80">
+        Who can use the admin and what they can do. Staff sign in with their own account; owners listed in{" "}
+        <code>ADMIN_EMAILS</code> always have access.
+      </p>
+
+      {ok ? (
+        <div className="mt-6 rounded-xl border border-emerald-500/25 bg-emerald-500/10 p-3 text-sm text-emerald-100">
+          {ok}
+        </div>
+      ) : null}
+
+      {error ? (
+        <div className="mt-6 rounded-xl border border-red-500/25 bg-red-500/10 p-3 text-sm text-red-100">
+          {error}
+        </div>
+      ) : null}
+
+      <form action={saveStaffRole} className="mt-6 flex flex-wrap items-end gap-3 rounded-xl border border-white/10 bg-white/5 p-4">
+        <label className="grid gap-1 text-sm">
+          <span className="opacity-70">Email</span>
+          <input
+            name="email"
+            type="email"
+            required
+            placeholder="staff@example.com"
+            className="w-72 rounded-md border border-white/15 bg-black/30 px-3 py-2"
+          />
+        </label>
+        <label className="grid gap-1 text-sm">
+          <span className="opacity-70">Role</span>
+          <select name="role" defaultValue="fulfillment" className="rounded-md border border-white/15 bg-black/30 px-3 py-2">
+            {ADMIN_ROLES.map((r) => (
+              <option key={r} value={r}>
+                {ROLE_LABELS[r]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button type="submit" className="rounded-md border border-white/15 bg-white/10 px-4 py-2 text-sm hover:bg-white/20">
+          Add / change role
+        </button>
+      </form>
+
+      <table className="mt-6 w-full text-left text-sm">
+        <thead className="opacity-60">
+          <tr>
+            <th className="py-2 pr-3">Email</th>
+            <th className="py-2 pr-3">Role</th>
+            <th className="py-2 pr-3">Updated</th>
+            <th className="py-2" />
+          </tr>
+        </thead>
+        <tbody>
+          {staff.map((m) => (
+            <tr key={m.userId} className="border-t border-white/10">
+              <td className="py-2 pr-3">{m.email ?? m.userId}</td>
+              <td className="py-2 pr-3">{ROLE_LABELS[m.role] ?? m.role}</td>
+              <td className="py-2 pr-3 opacity-70">{new Date(m.updatedAt).toLocaleString()}</td>
+              <td className="py-2 text-right">
+                {m.userId === actor.userId ? (
+                  <span className="opacity-50">you</span>
+                ) : (
+                  <form action={removeStaffMember}>
+                    <input type="hidden" name="userId" value={m.userId} />
+                    <button type="submit" className="text-red-300 hover:underline">
+                      Remove
+                    </button>
+                  </form>
+                )}
+              </td>
+            </tr>
+          ))}
+          {!staff.length ? (
+            <tr>
+              <td colSpan={4} className="py-4 opacity-60">
+                No staff yet.
+              </td>
+            </tr>
+          ) : null}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -5,8 +5,10 @@ import "server-only";
 import { NextResponse, type NextRequest } from "next/server";
 import { db } from "@/lib/db";
 import { sql } from "drizzle-orm";
-import { ListingJsonSchema, type ListingJson } from "@/lib/ai/listingSchema";
-import { requireAdmin } from "@/lib/adminAuth";
+import { ListingBatchError } from "@/lib/ai/listingBatchFlow";
+import { applyListingGeneration, type AppliedListing } from "@/lib/ai/listingGenerator";
+import { requireAdmin, type AdminActor } from "@/lib/adminAuth";
+import { recordAdminAudit } from "@/lib/admin/audit";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -15,6 +17,15 @@ function norm(v: unknown) {
   return String(v ?? "").trim();
 }
 
+function auditApply(actor: AdminActor, applied: AppliedListing) {
+  return recordAdminAudit(actor, {
+    action: "listing.apply_copy",
+    entityType: applied.inventoryItemId ? "inventory_item" : "product",
+    entityId: applied.inventoryItemId ?? applied.productId,
+    meta: { generationId: applied.generationId, title: applied.titleApplied },
+  });
+}
+
 export async function POST(req: NextRequest) {
   const startedAt = Date.now();
 
@@ -22,14 +33,48 @@ export async function POST(req: NextRequest) {
   const body = (await req.json().catch(() => ({}))) as any;
   const generationId = norm(body?.generationId);
 
-  const auth = requireAdmin(req);
+  const auth = await requireAdmin(req, "listings:write");
   if (!auth.ok) {
     return NextResponse.json(
-      { ok: false, error: "unauthorized", message: auth.error },
-      { status: 401 },
+      { ok: false, error: auth.error, message: auth.message },
+      { status: auth.status },
     );
   }
 
+  // Bulk approve: { generationIds: [...] } applies each and reports per id.
+  if (Array.isArray(body?.generationIds)) {
+    const ids = [...new Set((body.generationIds as unknown[]).map(norm).filter(Boolean))].slice(0, 200);
+    const results: Array<{ generationId: string; ok: boolean; error?: string; message?: string }> = [];
+
+    for (const id of ids) {
+      try {
+        const applied = await applyListingGeneration(id);
+        await auditApply(auth.actor, applied);
+        results.push({ generationId: id, ok: true });
+      } catch (err: any) {
+        const code = err instanceof ListingBatchError ? err.code : "apply_failed";
+        if (!(err instanceof ListingBatchError)) {
+          await db
+            .execute(sql`
+              update ai_listing_generations
+              set status = 'error', error_text = ${String(err?.message ?? err)}, updated_at = now()
+              where id = ${id}::uuid
+            `)
+            .catch(() => {});
+        }
+        results.push({ generationId: id, ok: false, error: code, message: String(err?.message ?? err) });
+      }
+    }
+
+    return NextResponse.json({
+      ok: true,
+      applied: results.filter((r) => r.ok).length,
+      failed: results.filter((r) => !r.ok).length,
+      results,
+      ms: Date.now() - startedAt,
+    });
+  }
+
   try {
     if (!generationId) {
       return NextResponse.json(
@@ -38,91 +83,19 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Load generation (must exist)
-    const gRes = await db.execute(sql`
-      select
-        g.id,
-        g.product_id as "productId",
-        g.status,
-        g.output_json as "output"
-      from ai_listing_generations g
-      where g.id = ${generationId}::uuid
-      limit 1
-    `);
-
-    const gen = (gRes as any)?.rows?.[0];
-    if (!gen) {
-      return NextResponse.json(
-        { ok: false, error: "not_found", message: "Generation not found" },
-        { status: 404 },
-      );
-    }
-
-    // Validate exact schema (hard gate)
-    const output = ListingJsonSchema.parse(gen.output) as ListingJson;
-
-    // Apply logic:
-    // - title should come from copy.listingTitle (best, normalized)
-    // - subtitle: if generator set product.subtitle use it
-    // - description: copy.descriptionMd (canonical)
-    const newTitle = output.copy.listingTitle ?? output.copy.shortTitle ?? null;
-    const newSubtitle = output.product.subtitle ?? null;
-    const newDescription = output.copy.descriptionMd ?? null;
-
-    // If the generator somehow produced empty core fields, do NOT apply.
-    if (!newTitle && !newSubtitle && !newDescription) {
-      await db.execute(sql`
-        update ai_listing_generations
-        set
-          status = 'error',
-          error_text = ${"Apply blocked: generated output had no title/subtitle/description to apply."},
-          updated_at = now()
-        where id = ${generationId}::uuid
-      `);
-
-      return NextResponse.json(
-        {
-          ok: false,
-          error: "apply_blocked",
-          message: "Apply blocked: output had no title/subtitle/description.",
-        },
-        { status: 422 },
-      );
-    }
-
-    // Write back to products
-    await db.execute(sql`
-      update products
-      set
-        title = coalesce(${newTitle}, title),
-        subtitle = coalesce(${newSubtitle}, subtitle),
-        description = coalesce(${newDescription}, description),
-        updated_at = now()
-      where id = ${gen.productId}::uuid
-    `);
-
-    // Mark generation applied
-    await db.execute(sql`
-      update ai_listing_generations
-      set
-        status = 'applied',
-        error_text = null,
-        updated_at = now()
-      where id = ${generationId}::uuid
-    `);
+    const applied = await applyListingGeneration(generationId);
+    await auditApply(auth.actor, applied);
 
     return NextResponse.json({
       ok: true,
-      applied: {
-        generationId,
-        productId: gen.productId,
-        titleApplied: newTitle,
-        subtitleApplied: newSubtitle,
-        descriptionApplied: !!newDescription,
-      },
+      applied,
       ms: Date.now() - startedAt,
     });
   } catch (err: any) {
+    if (err instanceof ListingBatchError) {
+      return NextResponse.json({ ok: false, error: err.code, message: err.message }, { status: err.status });
+    }
+
     // Best-effort: record error on that row too.
     try {
       if (generationId) {
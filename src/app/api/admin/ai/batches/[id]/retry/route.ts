@@ -0,0 +1,22 @@
+// src/app/api/admin/ai/batches/[id]/retry/route.ts
+import "server-only";
+
+import { NextResponse, type NextRequest } from "next/server";
+import { requireAdmin } from "@/lib/adminAuth";
+import { retryFailedItems } from "@/lib/ai/listingBatches";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/** POST /api/admin/ai/batches/:id/retry — requeue the batch's failed items */
+export async function POST(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const auth = await requireAdmin(req, "listings:write");
+  if (!auth.ok) {
+    return NextResponse.json({ ok: false, error: auth.error, message: auth.message }, { status: auth.status });
+  }
+
+  const { id } = await context.params;
+  const requeued = await retryFailedItems(id);
+  return NextResponse.json({ ok: true, requeued });
+}
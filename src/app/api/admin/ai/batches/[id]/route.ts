@@ -0,0 +1,22 @@
+// src/app/api/admin/ai/batches/[id]/route.ts
+import "server-only";
+
+import { NextResponse, type NextRequest } from "next/server";
+import { requireAdmin } from "@/lib/adminAuth";
+import { listingBatchReview } from "@/lib/ai/listingBatches";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/** GET /api/admin/ai/batches/:id — items with current vs generated copy diffs */
+export async function GET(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const auth = await requireAdmin(req, "catalog:read");
+  if (!auth.ok) {
+    return NextResponse.json({ ok: false, error: auth.error, message: auth.message }, { status: auth.status });
+  }
+
+  const { id } = await context.params;
+  const items = await listingBatchReview(id);
+  return NextResponse.json({ ok: true, items });
+}
@@ -0,0 +1,63 @@
+// src/app/api/admin/ai/batches/route.ts
+import "server-only";
+
+import { NextResponse, type NextRequest } from "next/server";
+import { requireAdmin } from "@/lib/adminAuth";
+import { BATCH_TARGETS, ListingBatchError, type BatchTarget } from "@/lib/ai/listingBatchFlow";
+import { createListingBatch, listListingBatches } from "@/lib/ai/listingBatches";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/** GET /api/admin/ai/batches — recent batches with per-status counts */
+export async function GET(req: NextRequest) {
+  const auth = await requireAdmin(req, "catalog:read");
+  if (!auth.ok) {
+    return NextResponse.json({ ok: false, error: auth.error, message: auth.message }, { status: auth.status });
+  }
+
+  const batches = await listListingBatches();
+  return NextResponse.json({ ok: true, batches });
+}
+
+/**
+ * POST /api/admin/ai/batches
+ * Body: { target: "product" | "inventory_item", ids?: string[], label?: string }
+ *
+ * Queues copy generation for the given listings, or for every draft of
+ * that kind when ids is omitted.
+ */
+export async function POST(req: NextRequest) {
+  const auth = await requireAdmin(req, "listings:write");
+  if (!auth.ok) {
+    return NextResponse.json({ ok: false, error: auth.error, message: auth.message }, { status: auth.status });
+  }
+
+  const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+  const target = String(body?.target ?? "product") as BatchTarget;
+  if (!BATCH_TARGETS.includes(target)) {
+    return NextResponse.json(
+      { ok: false, error: "bad_request", message: `target must be one of ${BATCH_TARGETS.join(", ")}` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const res = await createListingBatch({
+      target,
+      ids: body?.ids ?? undefined,
+      label: typeof body?.label === "string" ? body.label : null,
+    });
+    return NextResponse.json({ ok: true, ...res });
+  } catch (err: any) {
+    if (err instanceof ListingBatchError) {
+      return NextResponse.json({ ok: false, error: err.code, message: err.message }, { status: err.status });
+    }
+    console.error("[/api/admin/ai/batches] error:", err);
+    return NextResponse.json(
+      { ok: false, error: "batch_failed", message: String(err?.message ?? err) },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,39 @@
+// src/app/api/admin/ai/batches/run/route.ts
+import "server-only";
+
+import { NextResponse, type NextRequest } from "next/server";
+import { requireAdmin } from "@/lib/adminAuth";
+import { runListingQueue } from "@/lib/ai/listingBatches";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * POST /api/admin/ai/batches/run
+ * Body: { limit?: number }
+ *
+ * Works through a few due queue items now instead of waiting for the cron.
+ */
+export async function POST(req: NextRequest) {
+  const auth = await requireAdmin(req, "listings:write");
+  if (!auth.ok) {
+    return NextResponse.json({ ok: false, error: auth.error, message: auth.message }, { status: auth.status });
+  }
+
+  const body = (await req.json().catch(() => ({}))) as Record<string, unknown>;
+  const n = Math.floor(Number(body?.limit ?? 3));
+  const limit = Number.isFinite(n) ? Math.min(Math.max(n, 1), 10) : 3;
+
+  const startedAt = Date.now();
+  try {
+    const summary = await runListingQueue({ limit });
+    return NextResponse.json({ ok: true, ...summary, ms: Date.now() - startedAt });
+  } catch (err: any) {
+    console.error("[/api/admin/ai/batches/run] error:", err);
+    return NextResponse.json(
+      { ok: false, error: "run_failed", message: String(err?.message ?? err) },
+      { status: 500 },
+    );
+  }
+}
@@ -4,6 +4,7 @@ import "server-only";
 import { NextResponse, type NextRequest } from "next/server";
 import { db } from "@/lib/db";
 import { sql } from "drizzle-orm";
+import { requireAdmin } from "@/lib/adminAuth";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -12,7 +13,12 @@ function norm(v: unknown) {
   return String(v ?? "").trim();
 }
 
-export async function GET(_req: NextRequest, ctx: { params: Promise<{ generationId: string }> }) {
+export async function GET(req: NextRequest, ctx: { params: Promise<{ generationId: string }> }) {
+  const auth = await requireAdmin(req, "catalog:read");
+  if (!auth.ok) {
+    return NextResponse.json({ ok: false, error: auth.error, message: auth.message }, { status: auth.status });
+  }
+
   const p = await ctx.params;
   const generationId = norm(p?.generationId);
 
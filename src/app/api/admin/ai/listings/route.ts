@@ -4,6 +4,7 @@ import "server-only";
 import { NextResponse, type NextRequest } from "next/server";
 import { db } from "@/lib/db";
 import { sql } from "drizzle-orm";
+import { requireAdmin } from "@/lib/adminAuth";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -14,6 +15,11 @@ function toInt(v: string | null, fallback: number) {
 }
 
 export async function GET(req: NextRequest) {
+  const auth = await requireAdmin(req, "catalog:read");
+  if (!auth.ok) {
+    return NextResponse.json({ ok: false, error: auth.error, message: auth.message }, { status: auth.status });
+  }
+
   const { searchParams } = new URL(req.url);
 
   const q = (searchParams.get("q") || "").trim();
@@ -4,47 +4,13 @@ import "server-only";
 import { NextResponse, type NextRequest } from "next/server";
 import { sql } from "drizzle-orm";
 import { db } from "@/lib/db";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAdminAudit } from "@/lib/admin/audit";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
-/**
- * Admin auth:
- * - Supports:
- *   - Authorization: Bearer <token>
- *   - x-admin-token: <token>
- *   - ?token=<token>
- *
- * Set env: ADMIN_TOKEN
- */
-function readHeader(req: NextRequest, name: string) {
-  try {
-    return req.headers.get(name);
-  } catch {
-    return null;
-  }
-}
-
-function getAdminTokenFromRequest(req: NextRequest): string | null {
-  const auth = readHeader(req, "authorization") || readHeader(req, "Authorization");
-  if (auth) {
-    const m = auth.match(/^\s*Bearer\s+(.+)\s*$/i);
-    if (m?.[1]) return m[1].trim();
-  }
-
-  const x = readHeader(req, "x-admin-token") || readHeader(req, "X-Admin-Token");
-  if (x) return x.trim();
-
-  try {
-    const url = new URL(req.url);
-    const t = url.searchParams.get("token");
-    if (t) return t.trim();
-  } catch {}
-
-  return null;
-}
-
 function norm(v: unknown): string {
   return String(v ?? "").trim();
 }
@@ -150,14 +116,9 @@ type ProductReturnRow = {
 };
 
 export async function POST(req: NextRequest) {
-  const expected = norm(process.env.ADMIN_TOKEN);
-  const got = getAdminTokenFromRequest(req);
-
-  if (!expected || !got || got !== expected) {
-    return NextResponse.json(
-      { error: "unauthorized", message: "Missing or invalid admin token." },
-      { status: 401 },
-    );
+  const auth = await requireAdmin(req, "catalog:write");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error, message: auth.message }, { status: auth.status });
   }
 
   let body: UpsertBody;
@@ -459,5 +420,17 @@ export async function POST(req: NextRequest) {
     product = res.rows?.[0] ?? null;
   }
 
+  await recordAdminAudit(auth.actor, {
+    action: "catalog_item.upsert",
+    entityType: "catalog_item",
+    entityId: canonicalId,
+    meta: {
+      kind: "collectibles",
+      productId: product?.id ?? null,
+      priceCents: product?.price_cents ?? null,
+      quantity: product?.quantity ?? null,
+    },
+  });
+
   return NextResponse.json({ ok: true, item, product });
 }
@@ -17,8 +17,8 @@ export async function POST(
   req: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
-  const auth = requireAdmin(req);
-  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: 401 });
+  const auth = await requireAdmin(req, "listings:write");
+  if (!auth.ok) return NextResponse.json({ error: auth.error, message: auth.message }, { status: auth.status });
 
   const { id: itemId } = await context.params;
   const body = await req.json().catch(() => ({}));
@@ -50,8 +50,8 @@ export async function DELETE(
   req: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
-  const auth = requireAdmin(req);
-  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: 401 });
+  const auth = await requireAdmin(req, "listings:write");
+  if (!auth.ok) return NextResponse.json({ error: auth.error, message: auth.message }, { status: auth.status });
 
   const { id: itemId } = await context.params;
   const url = new URL(req.url);
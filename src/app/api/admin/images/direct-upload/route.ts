@@ -36,11 +36,11 @@ function pickCfUpload(json: unknown): { ok: true; id: string; uploadURL: string
 }
 
 export async function POST(req: NextRequest) {
-  const auth = requireAdmin(req);
+  const auth = await requireAdmin(req, "listings:write");
   if (!auth.ok) {
     return NextResponse.json(
-      { ok: false, error: "unauthorized", message: auth.error },
-      { status: 401 },
+      { ok: false, error: auth.error, message: auth.message },
+      { status: auth.status },
     );
   }
 
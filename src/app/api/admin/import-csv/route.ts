@@ -27,9 +27,9 @@ function normalizeGame(v: string) {
 
 export async function POST(req: NextRequest) {
   try {
-    const auth = requireAdmin(req);
+    const auth = await requireAdmin(req, "catalog:write");
     if (!auth.ok)
-      return NextResponse.json({ error: auth.error }, { status: 401 });
+      return NextResponse.json({ error: auth.error, message: auth.message }, { status: auth.status });
 
     const form = await req.formData();
     const file = form.get("file");
@@ -3,12 +3,13 @@ import "server-only";
 
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin } from "@/lib/adminAuth";
+import { recordAdminAudit } from "@/lib/admin/audit";
 import { db } from "@/lib/db";
 import {
   inventoryImportRows,
   inventoryItems,
-  inventoryStockMovements,
 } from "@/lib/db/schema/inventory";
+import { postStockMovement, refreshListing } from "@/lib/inventory/catalog";
 import { and, desc, eq, inArray, sql } from "drizzle-orm";
 
 export const runtime = "nodejs";
@@ -29,8 +30,8 @@ export async function POST(
   req: NextRequest,
   context: { params: Promise<{ batchId: string }> },
 ) {
-  const auth = requireAdmin(req);
-  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: 401 });
+  const auth = await requireAdmin(req, "stock:write");
+  if (!auth.ok) return NextResponse.json({ error: auth.error, message: auth.message }, { status: auth.status });
 
   const { batchId } = await context.params;
 
@@ -125,24 +126,16 @@ export async function POST(
           if (r.condition) updates.condition = r.condition;
 
           await tx.update(inventoryItems).set(updates).where(eq(inventoryItems.id, item.id));
+          await refreshListing(item.id, tx);
         }
 
-        // Insert movement
-        await tx.insert(inventoryStockMovements).values({
+        // Insert movement (also refreshes onHand and any published listing)
+        await postStockMovement(tx, {
           itemId: item.id,
           delta: qtyDelta,
           reason: "IMPORT_ADD",
           note: r.notes || null,
-        } as any);
-
-        // Update cached onHand
-        await tx
-          .update(inventoryItems)
-          .set({
-            onHand: sql`${inventoryItems.onHand} + ${qtyDelta}`,
-            updatedAt: sql`now()`,
-          })
-          .where(eq(inventoryItems.id, item.id));
+        });
 
         // Mark row applied
         await tx
@@ -172,6 +165,15 @@ export async function POST(
     }
   });
 
+  if (applied.length) {
+    await recordAdminAudit(auth.actor, {
+      action: "stock.import",
+      entityType: "import",
+      entityId: batchId,
+      meta: { appliedCount: applied.length, failedCount: failed.length, itemIds: applied.map((a) => a.itemId) },
+    });
+  }
+
   return NextResponse.json({
     ok: true,
     appliedCount: applied.length,
@@ -9,8 +9,8 @@ export async function GET(
   req: NextRequest,
   context: { params: Promise<{ batchId: string }> }
 ) {
-  const auth = requireAdmin(req);
-  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: 401 });
+  const auth = await requireAdmin(req, "catalog:read");
+  if (!auth.ok) return NextResponse.json({ error: auth.error, message: auth.message }, { status: auth.status });
 
   const { batchId } = await context.params;
 
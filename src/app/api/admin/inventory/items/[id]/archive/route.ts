@@ -1,26 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin } from "@/lib/adminAuth";
-import { db } from "@/lib/db";
-import { inventoryItems } from "@/lib/db/schema/inventory";
-import { eq, sql } from "drizzle-orm";
+import { recordAdminAudit } from "@/lib/admin/audit";
+import { archiveInventoryItem } from "@/lib/inventory/catalog";
+import { CatalogError } from "@/lib/inventory/catalogFlow";
 
+// Archives the item and takes its shop listing down with it.
 export async function POST(
   req: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
-  const auth = requireAdmin(req);
-  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: 401 });
+  const auth = await requireAdmin(req, "catalog:write");
+  if (!auth.ok) return NextResponse.json({ error: auth.error, message: auth.message }, { status: auth.status });
 
   const { id } = await context.params;
 
-  const updated = await db
-    .update(inventoryItems)
-    .set({ status: "archived", updatedAt: sql`now()` })
-    .where(eq(inventoryItems.id, id))
-    .returning();
-
-  const item = updated[0];
-  if (!item) return NextResponse.json({ error: "Not found" }, { status: 404 });
-
-  return NextResponse.json({ item });
+  try {
+    const item = await archiveInventoryItem(id);
+    await recordAdminAudit(auth.actor, {
+      action: "inventory_item.archive",
+      entityType: "inventory_item",
+      entityId: id,
+    });
+    return NextResponse.json({ item });
+  } catch (err) {
+    if (err instanceof CatalogError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
 }
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin } from "@/lib/adminAuth";
 import { db } from "@/lib/db";
+import { refreshListing } from "@/lib/inventory/catalog";
 import { sql } from "drizzle-orm";
 
 export const runtime = "nodejs";
@@ -9,8 +10,8 @@ export async function GET(
   req: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
-  const auth = requireAdmin(req);
-  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: 401 });
+  const auth = await requireAdmin(req, "catalog:read");
+  if (!auth.ok) return NextResponse.json({ error: auth.error, message: auth.message }, { status: auth.status });
 
   const { id: itemId } = await context.params;
 
@@ -40,8 +41,8 @@ export async function POST(
   req: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
-  const auth = requireAdmin(req);
-  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: 401 });
+  const auth = await requireAdmin(req, "listings:write");
+  if (!auth.ok) return NextResponse.json({ error: auth.error, message: auth.message }, { status: auth.status });
 
   const { id: itemId } = await context.params;
   const body = await req.json().catch(() => ({}));
@@ -72,6 +73,7 @@ export async function POST(
   `);
 
   const image = (ins as any).rows?.[0] ?? null;
+  await refreshListing(itemId);
   return NextResponse.json({ ok: true, image });
 }
 
@@ -80,8 +82,8 @@ export async function PATCH(
   req: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
-  const auth = requireAdmin(req);
-  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: 401 });
+  const auth = await requireAdmin(req, "listings:write");
+  if (!auth.ok) return NextResponse.json({ error: auth.error, message: auth.message }, { status: auth.status });
 
   const { id: itemId } = await context.params;
   const body = await req.json().catch(() => ({}));
@@ -103,6 +105,7 @@ export async function PATCH(
       sort += 10;
     }
   });
+  await refreshListing(itemId);
 
   return NextResponse.json({ ok: true });
 }
@@ -111,8 +114,8 @@ export async function DELETE(
   req: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
-  const auth = requireAdmin(req);
-  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: 401 });
+  const auth = await requireAdmin(req, "listings:write");
+  if (!auth.ok) return NextResponse.json({ error: auth.error, message: auth.message }, { status: auth.status });
 
   const { id: itemId } = await context.params;
   const url = new URL(req.url);
@@ -126,6 +129,7 @@ export async function DELETE(
     DELETE FROM inventory_item_images
     WHERE id = ${imageRowId} AND item_id = ${itemId}
   `);
+  await refreshListing(itemId);
 
   return NextResponse.json({ ok: true });
 }
@@ -1,28 +1,38 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin } from "@/lib/adminAuth";
-import { db } from "@/lib/db";
-import { sql } from "drizzle-orm";
+import { recordAdminAudit } from "@/lib/admin/audit";
+import { publishInventoryItem } from "@/lib/inventory/catalog";
+import { CatalogError } from "@/lib/inventory/catalogFlow";
 
 export const runtime = "nodejs";
 
+// Marks the item live and creates / updates its shop listing.
 export async function POST(
   req: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
-  const auth = requireAdmin(req);
-  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: 401 });
+  const auth = await requireAdmin(req, "catalog:write");
+  if (!auth.ok) return NextResponse.json({ error: auth.error, message: auth.message }, { status: auth.status });
 
   const { id } = await context.params;
 
-  const res = await db.execute(sql`
-    UPDATE inventory_items
-    SET status = 'live', updated_at = now()
-    WHERE id = ${id}
-    RETURNING id, status
-  `);
-
-  const row = (res as any).rows?.[0] ?? null;
-  if (!row) return NextResponse.json({ error: "Not found" }, { status: 404 });
-
-  return NextResponse.json({ ok: true, item: row });
+  try {
+    const listing = await publishInventoryItem(id);
+    await recordAdminAudit(auth.actor, {
+      action: "inventory_item.publish",
+      entityType: "inventory_item",
+      entityId: id,
+      meta: { productId: listing.productId, slug: listing.slug, created: listing.created },
+    });
+    return NextResponse.json({
+      ok: true,
+      item: { id, status: "live", on_hand: listing.onHand },
+      listing,
+    });
+  } catch (err) {
+    if (err instanceof CatalogError) {
+      return NextResponse.json({ error: err.message, code: err.code }, { status: err.status });
+    }
+    throw err;
+  }
 }
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin } from "@/lib/adminAuth";
 import { db } from "@/lib/db";
+import { refreshListing } from "@/lib/inventory/catalog";
+import { recordAdminAudit } from "@/lib/admin/audit";
+import { auditChanges } from "@/lib/admin/permissions";
 import { sql } from "drizzle-orm";
 
 export const runtime = "nodejs";
@@ -9,8 +12,8 @@ export async function GET(
   req: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
-  const auth = requireAdmin(req);
-  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: 401 });
+  const auth = await requireAdmin(req, "catalog:read");
+  if (!auth.ok) return NextResponse.json({ error: auth.error, message: auth.message }, { status: auth.status });
 
   const { id } = await context.params;
 
@@ -34,8 +37,8 @@ export async function PATCH(
   req: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
-  const auth = requireAdmin(req);
-  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: 401 });
+  const auth = await requireAdmin(req, "catalog:write");
+  if (!auth.ok) return NextResponse.json({ error: auth.error, message: auth.message }, { status: auth.status });
 
   const { id } = await context.params;
 
@@ -68,6 +71,14 @@ export async function PATCH(
     return NextResponse.json({ error: "costBasisCents must be a non-negative number" }, { status: 400 });
   }
 
+  const beforeRes = await db.execute(sql`
+    SELECT title, condition, game, price_cents, cost_basis_cents
+    FROM inventory_items
+    WHERE id = ${id}
+    LIMIT 1
+  `);
+  const before = (beforeRes as any).rows?.[0] ?? null;
+
   const res = await db.execute(sql`
     UPDATE inventory_items
     SET
@@ -88,5 +99,22 @@ export async function PATCH(
   const item = (res as any).rows?.[0] ?? null;
   if (!item) return NextResponse.json({ error: "Not found" }, { status: 404 });
 
+  // keep the shop listing (if published) in step with the edit
+  await refreshListing(id);
+
+  await recordAdminAudit(auth.actor, {
+    action: "inventory_item.update",
+    entityType: "inventory_item",
+    entityId: id,
+    changes: auditChanges(before, {
+      title,
+      condition,
+      game,
+      price_cents: priceCents,
+      cost_basis_cents: costBasisCents,
+    }),
+    meta: meta ? { metaUpdated: true } : null,
+  });
+
   return NextResponse.json({ item });
 }
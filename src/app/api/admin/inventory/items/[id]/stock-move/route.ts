@@ -2,11 +2,8 @@
 import "server-only";
 
 import { NextRequest, NextResponse } from "next/server";
-import {
-  inventoryItems,
-  inventoryStockMovements,
-} from "@/lib/db/schema/inventory";
-import { eq, sql } from "drizzle-orm";
+import { stockReasonEnum } from "@/lib/db/schema/inventory";
+import type { StockReason } from "@/lib/inventory/catalog";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -16,13 +13,15 @@ export async function POST(
   context: { params: Promise<{ id: string }> },
 ) {
   // Lazy imports to avoid build-time module evaluation blowing up "collect page data"
-  const [{ requireAdmin }, { db }] = await Promise.all([
+  const [{ requireAdmin }, { db }, { postStockMovement }, { recordAdminAudit }] = await Promise.all([
     import("@/lib/adminAuth"),
     import("@/lib/db"),
+    import("@/lib/inventory/catalog"),
+    import("@/lib/admin/audit"),
   ]);
 
-  const auth = requireAdmin(req);
-  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: 401 });
+  const auth = await requireAdmin(req, "stock:write");
+  if (!auth.ok) return NextResponse.json({ error: auth.error, message: auth.message }, { status: auth.status });
 
   const { id } = await context.params;
 
@@ -36,25 +35,23 @@ export async function POST(
     );
   }
 
-  const reason = (body?.reason || "MANUAL_ADJUST") as any;
+  const reason = String(body?.reason || "MANUAL_ADJUST") as StockReason;
+  if (!(stockReasonEnum.enumValues as readonly string[]).includes(reason)) {
+    return NextResponse.json({ error: "unknown reason" }, { status: 400 });
+  }
   const note = (body?.note || null) as string | null;
 
-  await db.transaction(async (tx: any) => {
-    await tx.insert(inventoryStockMovements).values({
-      itemId: id,
-      delta,
-      reason,
-      note,
-    } as any);
-
-    await tx
-      .update(inventoryItems)
-      .set({
-        onHand: sql`${inventoryItems.onHand} + ${delta}`,
-        updatedAt: sql`now()`,
-      })
-      .where(eq(inventoryItems.id, id));
+  // the ledger is the stock: on_hand and the shop listing follow from it
+  const onHand = await db.transaction((tx: any) =>
+    postStockMovement(tx, { itemId: id, delta, reason, note }),
+  );
+  await recordAdminAudit(auth.actor, {
+    action: "stock.move",
+    entityType: "inventory_item",
+    entityId: id,
+    changes: { onHand: { from: onHand - delta, to: onHand } },
+    meta: { delta, reason, note },
   });
 
-  return NextResponse.json({ ok: true });
+  return NextResponse.json({ ok: true, onHand });
 }
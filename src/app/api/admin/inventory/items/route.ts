@@ -14,8 +14,8 @@ export async function GET(req: NextRequest) {
     import("@/lib/db"),
   ]);
 
-  const auth = requireAdmin(req);
-  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: 401 });
+  const auth = await requireAdmin(req, "catalog:read");
+  if (!auth.ok) return NextResponse.json({ error: auth.error, message: auth.message }, { status: auth.status });
 
   const url = new URL(req.url);
   const status = url.searchParams.get("status"); // draft|live|archived
@@ -39,13 +39,14 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
-  const [{ requireAdmin }, { db }] = await Promise.all([
+  const [{ requireAdmin }, { db }, { recordAdminAudit }] = await Promise.all([
     import("@/lib/adminAuth"),
     import("@/lib/db"),
+    import("@/lib/admin/audit"),
   ]);
 
-  const auth = requireAdmin(req);
-  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: 401 });
+  const auth = await requireAdmin(req, "catalog:write");
+  if (!auth.ok) return NextResponse.json({ error: auth.error, message: auth.message }, { status: auth.status });
 
   const body = await req.json().catch(() => ({} as any));
   const title = (body?.title || "").trim();
@@ -65,5 +66,12 @@ export async function POST(req: NextRequest) {
     })
     .returning();
 
+  await recordAdminAudit(auth.actor, {
+    action: "inventory_item.create",
+    entityType: "inventory_item",
+    entityId: item.id,
+    meta: { title: item.title, sku: item.sku, priceCents: item.priceCents },
+  });
+
   return NextResponse.json({ item });
 }
@@ -0,0 +1,75 @@
+// src/app/api/admin/orders/[orderId]/fulfillment/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAdminAudit } from "@/lib/admin/audit";
+import { getOrderFulfillment, updateOrderFulfillment } from "@/lib/orders/fulfillment";
+import { FulfillmentError } from "@/lib/orders/fulfillmentFlow";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Ctx = { params: Promise<{ orderId: string }> };
+
+function fail(err: unknown) {
+  if (err instanceof FulfillmentError) {
+    return NextResponse.json({ ok: false, error: err.code, message: err.message }, { status: err.status });
+  }
+  console.error("[admin/orders/fulfillment] failed", err);
+  return NextResponse.json(
+    { ok: false, error: "server_error", message: "Could not update fulfillment." },
+    { status: 500 },
+  );
+}
+
+/** GET /api/admin/orders/:orderId/fulfillment -> { ok, fulfillment } */
+export async function GET(req: Request, ctx: Ctx) {
+  const auth = await requireAdmin(req, "orders:read");
+  if (!auth.ok) return NextResponse.json({ error: auth.error, message: auth.message }, { status: auth.status });
+
+  const { orderId } = await ctx.params;
+  if (!UUID_RE.test(orderId)) {
+    return NextResponse.json({ ok: false, error: "bad_request", message: "Invalid order id" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ ok: true, fulfillment: await getOrderFulfillment(orderId) });
+  } catch (err) {
+    return fail(err);
+  }
+}
+
+/**
+ * PATCH /api/admin/orders/:orderId/fulfillment
+ * { stage?: "picked"|"packed"|"shipped"|"delivered", carrier?, trackingNumber?, note? }
+ * -> { ok, fulfillment, emailed: "shipped"|"delivered"|null }
+ */
+export async function PATCH(req: Request, ctx: Ctx) {
+  const auth = await requireAdmin(req, "orders:fulfill");
+  if (!auth.ok) return NextResponse.json({ error: auth.error, message: auth.message }, { status: auth.status });
+
+  const { orderId } = await ctx.params;
+  if (!UUID_RE.test(orderId)) {
+    return NextResponse.json({ ok: false, error: "bad_request", message: "Invalid order id" }, { status: 400 });
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+
+  try {
+    const { fulfillment, emailed } = await updateOrderFulfillment(orderId, body);
+    await recordAdminAudit(auth.actor, {
+      action: "order.fulfillment",
+      entityType: "order",
+      entityId: orderId,
+      meta: { stage: body.stage ?? null, carrier: body.carrier ?? null, trackingNumber: body.trackingNumber ?? null },
+    });
+    return NextResponse.json({ ok: true, fulfillment, emailed });
+  } catch (err) {
+    return fail(err);
+  }
+}
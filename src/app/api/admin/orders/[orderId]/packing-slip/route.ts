@@ -0,0 +1,40 @@
+// src/app/api/admin/orders/[orderId]/packing-slip/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/adminAuth";
+import { loadPackingSlip } from "@/lib/orders/fulfillment";
+import { FulfillmentError } from "@/lib/orders/fulfillmentFlow";
+import { packingSlipPdf } from "@/lib/orders/pdf";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Ctx = { params: Promise<{ orderId: string }> };
+
+/** GET /api/admin/orders/:orderId/packing-slip -> application/pdf */
+export async function GET(req: Request, ctx: Ctx) {
+  const auth = await requireAdmin(req, "orders:read");
+  if (!auth.ok) return NextResponse.json({ error: auth.error, message: auth.message }, { status: auth.status });
+
+  const { orderId } = await ctx.params;
+  if (!UUID_RE.test(orderId)) {
+    return NextResponse.json({ ok: false, error: "bad_request", message: "Invalid order id" }, { status: 400 });
+  }
+
+  try {
+    return await packingSlipPdf(await loadPackingSlip(orderId));
+  } catch (err) {
+    if (err instanceof FulfillmentError) {
+      return NextResponse.json({ ok: false, error: err.code, message: err.message }, { status: err.status });
+    }
+    console.error("[admin/orders/packing-slip] failed", err);
+    return NextResponse.json(
+      { ok: false, error: "server_error", message: "Could not build the packing slip." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,72 @@
+// src/app/api/admin/orders/[orderId]/refunds/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAdminAudit } from "@/lib/admin/audit";
+import { createOrderRefund, getOrderRefunds } from "@/lib/orders/refunds";
+import { RefundError } from "@/lib/orders/returnsFlow";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Ctx = { params: Promise<{ orderId: string }> };
+
+function fail(err: unknown) {
+  if (err instanceof RefundError) {
+    return NextResponse.json({ ok: false, error: err.code, message: err.message }, { status: err.status });
+  }
+  console.error("[admin/orders/refunds] failed", err);
+  return NextResponse.json({ ok: false, error: "server_error", message: "Could not process the refund." }, { status: 500 });
+}
+
+/** GET /api/admin/orders/:orderId/refunds -> { ok, summary } */
+export async function GET(req: Request, ctx: Ctx) {
+  const admin = await requireAdmin(req, "orders:read");
+  if (!admin.ok) return NextResponse.json({ error: admin.error, message: admin.message }, { status: admin.status });
+
+  const { orderId } = await ctx.params;
+  if (!UUID_RE.test(orderId)) {
+    return NextResponse.json({ ok: false, error: "bad_request", message: "Invalid order id" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ ok: true, summary: await getOrderRefunds(orderId) });
+  } catch (err) {
+    return fail(err);
+  }
+}
+
+/**
+ * POST /api/admin/orders/:orderId/refunds
+ * { amountCents?: number, reason?: "requested_by_customer"|"duplicate"|"fraudulent", returnId? }
+ * -> { ok, summary }. No amount = refund everything that's left.
+ */
+export async function POST(req: Request, ctx: Ctx) {
+  const admin = await requireAdmin(req, "orders:refund");
+  if (!admin.ok) return NextResponse.json({ error: admin.error, message: admin.message }, { status: admin.status });
+
+  const { orderId } = await ctx.params;
+  if (!UUID_RE.test(orderId)) {
+    return NextResponse.json({ ok: false, error: "bad_request", message: "Invalid order id" }, { status: 400 });
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+
+  try {
+    const summary = await createOrderRefund(orderId, body, { createdBy: admin.actor.userId });
+    await recordAdminAudit(admin.actor, {
+      action: "order.refund",
+      entityType: "order",
+      entityId: orderId,
+      meta: { amountCents: body.amountCents ?? null, reason: body.reason ?? null, returnId: body.returnId ?? null },
+    });
+    return NextResponse.json({ ok: true, summary });
+  } catch (err) {
+    return fail(err);
+  }
+}
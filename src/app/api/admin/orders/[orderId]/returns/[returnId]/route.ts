@@ -0,0 +1,51 @@
+// src/app/api/admin/orders/[orderId]/returns/[returnId]/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAdminAudit } from "@/lib/admin/audit";
+import { updateReturn } from "@/lib/orders/returns";
+import { ReturnError } from "@/lib/orders/returnsFlow";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Ctx = { params: Promise<{ orderId: string; returnId: string }> };
+
+/**
+ * PATCH /api/admin/orders/:orderId/returns/:returnId
+ * { action?: "approve"|"reject"|"receive", adminNote?, decisions?: [{ itemId, decision: "restock"|"write_off" }] }
+ * -> { ok, return, movements }
+ */
+export async function PATCH(req: Request, ctx: Ctx) {
+  const admin = await requireAdmin(req, "orders:fulfill");
+  if (!admin.ok) return NextResponse.json({ error: admin.error, message: admin.message }, { status: admin.status });
+
+  const { orderId, returnId } = await ctx.params;
+  if (!UUID_RE.test(orderId) || !UUID_RE.test(returnId)) {
+    return NextResponse.json({ ok: false, error: "bad_request", message: "Invalid id" }, { status: 400 });
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+
+  try {
+    const { ret, movements } = await updateReturn(orderId, returnId, body);
+    await recordAdminAudit(admin.actor, {
+      action: "order.return",
+      entityType: "order",
+      entityId: orderId,
+      meta: { returnId, action: body.action ?? null, decisions: body.decisions ?? null },
+    });
+    return NextResponse.json({ ok: true, return: ret, movements });
+  } catch (err) {
+    if (err instanceof ReturnError) {
+      return NextResponse.json({ ok: false, error: err.code, message: err.message }, { status: err.status });
+    }
+    console.error("[admin/orders/returns] update failed", err);
+    return NextResponse.json({ ok: false, error: "server_error", message: "Could not update the return." }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+// src/app/api/admin/orders/[orderId]/returns/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/adminAuth";
+import { listOrderReturns } from "@/lib/orders/returns";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Ctx = { params: Promise<{ orderId: string }> };
+
+/** GET /api/admin/orders/:orderId/returns -> { ok, returns } */
+export async function GET(req: Request, ctx: Ctx) {
+  const admin = await requireAdmin(req, "orders:read");
+  if (!admin.ok) return NextResponse.json({ error: admin.error, message: admin.message }, { status: admin.status });
+
+  const { orderId } = await ctx.params;
+  if (!UUID_RE.test(orderId)) {
+    return NextResponse.json({ ok: false, error: "bad_request", message: "Invalid order id" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ ok: true, returns: await listOrderReturns(orderId) });
+  } catch (err) {
+    console.error("[admin/orders/returns] list failed", err);
+    return NextResponse.json({ ok: false, error: "server_error", message: "Could not load returns." }, { status: 500 });
+  }
+}
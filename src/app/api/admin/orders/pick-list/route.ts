@@ -0,0 +1,40 @@
+// src/app/api/admin/orders/pick-list/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/adminAuth";
+import { loadPickList } from "@/lib/orders/fulfillment";
+import { pickListPdf } from "@/lib/orders/pdf";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * GET /api/admin/orders/pick-list?ids=<uuid>,<uuid> -> application/pdf
+ * Without ids: every paid order that hasn't been picked yet.
+ */
+export async function GET(req: Request) {
+  const auth = await requireAdmin(req, "orders:read");
+  if (!auth.ok) return NextResponse.json({ error: auth.error, message: auth.message }, { status: auth.status });
+
+  const ids = (new URL(req.url).searchParams.get("ids") || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  if (ids.some((id) => !UUID_RE.test(id))) {
+    return NextResponse.json({ ok: false, error: "bad_request", message: "Invalid order id" }, { status: 400 });
+  }
+
+  try {
+    return await pickListPdf(await loadPickList(ids));
+  } catch (err) {
+    console.error("[admin/orders/pick-list] failed", err);
+    return NextResponse.json(
+      { ok: false, error: "server_error", message: "Could not build the pick list." },
+      { status: 500 },
+    );
+  }
+}
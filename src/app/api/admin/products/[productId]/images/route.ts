@@ -4,6 +4,7 @@ import { NextResponse, type NextRequest } from "next/server";
 import { db } from "@/lib/db";
 import { sql } from "drizzle-orm";
 import { requireAdmin } from "@/lib/adminAuth";
+import type { AdminPermission } from "@/lib/admin/permissions";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -54,12 +55,12 @@ type ImgRow = {
   createdAt: string;
 };
 
-async function guard(req: NextRequest) {
-  const auth = requireAdmin(req);
+async function guard(req: NextRequest, permission: AdminPermission) {
+  const auth = await requireAdmin(req, permission);
   if (!auth.ok) {
     return NextResponse.json(
-      { ok: false, error: "unauthorized", message: auth.error },
-      { status: 401 },
+      { ok: false, error: auth.error, message: auth.message },
+      { status: auth.status },
     );
   }
   return null;
@@ -105,7 +106,7 @@ function pickReturnedId(rowsUnknown: unknown): string | null {
 }
 
 export async function GET(req: NextRequest, ctx: { params: Promise<{ productId: string }> }) {
-  const denied = await guard(req);
+  const denied = await guard(req, "catalog:read");
   if (denied) return denied;
 
   const { productId } = await ctx.params;
@@ -138,7 +139,7 @@ export async function GET(req: NextRequest, ctx: { params: Promise<{ productId:
 }
 
 export async function POST(req: NextRequest, ctx: { params: Promise<{ productId: string }> }) {
-  const denied = await guard(req);
+  const denied = await guard(req, "listings:write");
   if (denied) return denied;
 
   const { productId } = await ctx.params;
@@ -206,7 +207,7 @@ export async function POST(req: NextRequest, ctx: { params: Promise<{ productId:
  * 2) { order: [{id, sort}, ...] } -> reorder
  */
 export async function PATCH(req: NextRequest, ctx: { params: Promise<{ productId: string }> }) {
-  const denied = await guard(req);
+  const denied = await guard(req, "listings:write");
   if (denied) return denied;
 
   const { productId } = await ctx.params;
@@ -318,7 +319,7 @@ export async function PATCH(req: NextRequest, ctx: { params: Promise<{ productId
 }
 
 export async function DELETE(req: NextRequest, ctx: { params: Promise<{ productId: string }> }) {
-  const denied = await guard(req);
+  const denied = await guard(req, "listings:write");
   if (denied) return denied;
 
   const { productId } = await ctx.params;
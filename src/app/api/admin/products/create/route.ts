@@ -5,6 +5,8 @@ import "server-only";
 import { NextResponse, type NextRequest } from "next/server";
 import { db } from "@/lib/db";
 import { sql } from "drizzle-orm";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAdminAudit } from "@/lib/admin/audit";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -91,6 +93,11 @@ async function nextUniqueSlug(base: string): Promise<string> {
 }
 
 export async function POST(req: NextRequest) {
+  const auth = await requireAdmin(req, "catalog:write");
+  if (!auth.ok) {
+    return NextResponse.json({ ok: false, error: auth.error, message: auth.message }, { status: auth.status });
+  }
+
   try {
     const body = await req.json().catch(() => ({}));
 
@@ -252,6 +259,12 @@ export async function POST(req: NextRequest) {
     `);
 
     const row = (ins as any)?.rows?.[0];
+    await recordAdminAudit(auth.actor, {
+      action: "product.create",
+      entityType: "product",
+      entityId: row?.id ?? null,
+      meta: { title, slug: row?.slug ?? finalSlug, priceCents, quantity, status },
+    });
     return NextResponse.json({ ok: true, product: row });
   } catch (err: any) {
     const e = err?.cause ?? err;
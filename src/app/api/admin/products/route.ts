@@ -4,6 +4,8 @@ import "server-only";
 import { NextResponse, type NextRequest } from "next/server";
 import { db } from "@/lib/db";
 import { sql } from "drizzle-orm";
+import { requireAdmin } from "@/lib/adminAuth";
+import { recordAdminAudit } from "@/lib/admin/audit";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -23,6 +25,11 @@ function clamp(n: number, min: number, max: number) {
 }
 
 export async function GET(req: NextRequest) {
+  const auth = await requireAdmin(req, "catalog:read");
+  if (!auth.ok) {
+    return NextResponse.json({ ok: false, error: auth.error, message: auth.message }, { status: auth.status });
+  }
+
   const { searchParams } = new URL(req.url);
 
   const q = (searchParams.get("q") || "").trim();
@@ -92,6 +99,11 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
+  const auth = await requireAdmin(req, "catalog:write");
+  if (!auth.ok) {
+    return NextResponse.json({ ok: false, error: auth.error, message: auth.message }, { status: auth.status });
+  }
+
   try {
     const body = await req.json().catch(() => ({}));
 
@@ -145,6 +157,13 @@ export async function POST(req: NextRequest) {
     const row = (ins as any)?.rows?.[0] ?? null;
     if (!row) throw new Error("Insert failed");
 
+    await recordAdminAudit(auth.actor, {
+      action: "product.create",
+      entityType: "product",
+      entityId: row.id,
+      meta: { title, slug, priceCents, quantity, status },
+    });
+
     return NextResponse.json({ ok: true, product: row });
   } catch (err: any) {
     return NextResponse.json(
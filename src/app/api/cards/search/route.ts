@@ -1,7 +1,9 @@
 import "server-only";
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { sql } from "drizzle-orm";
+import { sql, type SQL } from "drizzle-orm";
+import { looksLikeCardQuery, parseCardQuery } from "@/lib/search/query";
+import { compileCardQuery } from "@/lib/search/compileQuery";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -11,13 +13,42 @@ const ALLOWED_LANG = new Set(["en", "ja"]);
 export async function GET(req: Request) {
   const url = new URL(req.url);
   const q = (url.searchParams.get("q") || "").trim();
-  const lang = (url.searchParams.get("lang") || "en").toLowerCase();
+  let lang = (url.searchParams.get("lang") || "en").toLowerCase();
+
+  // Structured queries (set:sv3 rarity:"illustration rare" price>20 ...)
+  let structuredWhere: SQL | null = null;
+  if (looksLikeCardQuery(q)) {
+    const parsed = parseCardQuery(q);
+    if (!parsed.ok) {
+      return NextResponse.json({ ok: false, error: "Invalid query", errors: parsed.errors }, { status: 400 });
+    }
+
+    // lang: in the query wins over ?lang= so "lang:ja" switches to the TCGdex rows
+    const langTerm = parsed.query.terms.find((t) => t.field === "lang" && !t.negate && t.op !== "!=");
+    if (langTerm) lang = langTerm.value.toLowerCase();
+
+    const compiled = compileCardQuery(parsed.query, "pokemon");
+    if (!compiled.ok) {
+      return NextResponse.json({ ok: false, error: "Invalid query", errors: compiled.errors }, { status: 400 });
+    }
+    structuredWhere = compiled.where;
+  }
+
   const source = lang === "ja" ? "tcgdex" : "pokemontcg"; // adjust if your EN source differs
 
   if (!ALLOWED_LANG.has(lang)) {
     return NextResponse.json({ ok: false, error: "Invalid lang" }, { status: 400 });
   }
 
+  const match = structuredWhere
+    ? structuredWhere
+    : q === ""
+      ? sql`true`
+      : sql`name ILIKE ${"%" + q + "%"}
+           OR set_name ILIKE ${"%" + q + "%"}
+           OR series ILIKE ${"%" + q + "%"}
+           OR number = ${q}`;
+
   const rows = await db.execute(sql`
     SELECT
       id,
@@ -38,16 +69,11 @@ export async function GET(req: Request) {
       variant_first_edition,
       source,
       lang
-    FROM tcg_cards
+    FROM tcg_cards c
     WHERE source = ${source}
       AND lang = ${lang}
       AND (
-        ${q === ""
-          ? sql`true`
-          : sql`name ILIKE ${"%" + q + "%"}
-               OR set_name ILIKE ${"%" + q + "%"}
-               OR series ILIKE ${"%" + q + "%"}
-               OR number = ${q}`}
+        ${match}
       )
     ORDER BY set_name ASC, number ASC
     LIMIT 60
@@ -8,6 +8,8 @@ import Stripe from "stripe";
 import { sql } from "drizzle-orm";
 import { db } from "@/lib/db";
 
+import { attachCheckoutSession, releaseReservation, reserveStock } from "@/lib/orders/reservations";
+import { ReservationError } from "@/lib/orders/reservationsFlow";
 import { baseShippingCentsForWeight } from "@/lib/shipping/rates";
 import { insuranceCentsForShipment } from "@/lib/shipping/insurance";
 
@@ -348,35 +350,79 @@ export async function POST(req: Request) {
       })),
     );
 
-    const session = await stripe.checkout.sessions.create({
-      mode: "payment",
-      line_items,
+    // 3) hold the stock for as long as the Stripe session can be paid
+    let reservation;
+    try {
+      reservation = await reserveStock({
+        cartId,
+        userId,
+        lines: rows.map((r) => ({
+          productId: String(r.productId),
+          qty: Math.max(1, Math.min(99, n(r.qty, 1))),
+        })),
+      });
+    } catch (e: any) {
+      if (!(e instanceof ReservationError)) throw e;
+      await logCheckoutEvent(
+        {
+          eventType: "checkout_failed",
+          userId,
+          cartId,
+          email: customerEmail,
+          subtotalCents,
+          metadata: errMeta(e.code, e.message),
+        },
+        req,
+      );
+      return NextResponse.json({ error: e.message, code: e.code }, { status: e.status });
+    }
 
-      ...(customerEmail ? { customer_email: customerEmail } : {}),
+    // a new checkout from the same cart replaces the old one
+    for (const oldSessionId of reservation.supersededSessionIds) {
+      await stripe.checkout.sessions.expire(oldSessionId).catch(() => null);
+    }
 
-      shipping_address_collection: { allowed_countries },
+    let session: Stripe.Checkout.Session;
+    try {
+      session = await stripe.checkout.sessions.create({
+        mode: "payment",
+        line_items,
+        expires_at: reservation.sessionExpiresAt,
 
-      billing_address_collection: "required",
-      automatic_tax: { enabled: true },
+        ...(customerEmail ? { customer_email: customerEmail } : {}),
 
-      success_url: `${SITE_URL}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: `${SITE_URL}/cart/review`,
+        shipping_address_collection: { allowed_countries },
 
-      metadata: {
-        cartId: String(cartId),
-        userId: userId ?? "",
-        isGuest: String(!userId),
-        items_json,
-        subtotalCents: String(Math.max(0, Math.floor(subtotalCents))),
-        shippingModel: "weight_tiers+insurance_line_items",
-        freeShippingThresholdCents: String(FREE_SHIPPING_THRESHOLD_CENTS),
-
-        weightLbs: String(Number(totalWeight.toFixed(2))),
-        baseShippingCents: String(Math.floor(baseShippingCents)),
-        insuranceCents: String(Math.floor(insuranceCents)),
-        freeShipping: String(Boolean(freeShipping)),
-      },
-    });
+        billing_address_collection: "required",
+        automatic_tax: { enabled: true },
+
+        success_url: `${SITE_URL}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
+        cancel_url: `${SITE_URL}/cart/review`,
+
+        metadata: {
+          cartId: String(cartId),
+          userId: userId ?? "",
+          isGuest: String(!userId),
+          items_json,
+          subtotalCents: String(Math.max(0, Math.floor(subtotalCents))),
+          shippingModel: "weight_tiers+insurance_line_items",
+          freeShippingThresholdCents: String(FREE_SHIPPING_THRESHOLD_CENTS),
+
+          weightLbs: String(Number(totalWeight.toFixed(2))),
+          baseShippingCents: String(Math.floor(baseShippingCents)),
+          insuranceCents: String(Math.floor(insuranceCents)),
+          freeShipping: String(Boolean(freeShipping)),
+          reservationId: reservation.reservationId ?? "",
+        },
+      });
+    } catch (e) {
+      if (reservation.reservationId) await releaseReservation(reservation.reservationId);
+      throw e;
+    }
+
+    if (reservation.reservationId) {
+      await attachCheckoutSession(reservation.reservationId, session.id);
+    }
 
     const url = session.url;
     if (!url) {
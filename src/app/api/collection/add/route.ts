@@ -7,7 +7,12 @@ import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
 import { sql } from "drizzle-orm";
 import { getUserPlan } from "@/lib/plans";
-import { getLivePriceForCard, normalizeGame, type GameId } from "@/lib/livePrices";
+import { normalizeGame } from "@/lib/livePrices";
+import { getValuation } from "@/lib/valuations/engine";
+import { parseSlabGrade } from "@/lib/valuations/grading";
+import { normalizeVariant, variantLabel, type CanonVariant } from "@/lib/valuations/variants";
+import { normalizeCondition } from "@/lib/cards/condition";
+import { enqueueRevalueJob } from "@/lib/collections/revalueQueue";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -20,6 +25,8 @@ type Body = {
   imageUrl?: string;
 
   variantType?: string | null;
+  /** raw copies: "NM" | "LP" | "MP" | "HP" | "DMG"; ignored for slabs */
+  condition?: string | null;
 
   grading_company?: string;
   grade_label?: string;
@@ -40,209 +47,6 @@ function todayISODate(): string {
   return new Date().toISOString().slice(0, 10);
 }
 
-/**
- * Canonical DB values for user_collection_items.variant_type:
- * - normal
- * - holofoil
- * - reverse_holofoil
- * - first_edition
- * - promo
- */
-type CanonVariant = "normal" | "holofoil" | "reverse_holofoil" | "first_edition" | "promo";
-
-function normalizeVariantType(input: unknown): CanonVariant {
-  const s = String(input ?? "").trim().toLowerCase();
-  if (!s) return "normal";
-
-  if (s === "normal") return "normal";
-  if (s === "holo" || s === "holofoil") return "holofoil";
-  if (s === "reverse" || s === "reverse_holo" || s === "reverseholo" || s === "reverse_holofoil")
-    return "reverse_holofoil";
-  if (s === "first" || s === "firstedition" || s === "first_edition") return "first_edition";
-  if (s === "promo" || s === "wpromo" || s === "w_promo") return "promo";
-
-  return "normal";
-}
-
-function variantLabel(v: string): string {
-  switch (v) {
-    case "holofoil":
-      return "Holo";
-    case "reverse_holofoil":
-      return "Reverse";
-    case "first_edition":
-      return "1st Ed";
-    case "promo":
-      return "Promo";
-    default:
-      return "Normal";
-  }
-}
-
-/** tolerant parsing: handles "0.07", "$0.07", " 0.07 " */
-function toNumber(x: unknown): number | null {
-  if (x == null) return null;
-  if (typeof x === "number") return Number.isFinite(x) ? x : null;
-
-  if (typeof x === "string") {
-    let s = x.trim();
-    if (!s) return null;
-    s = s.replace(/,/g, "");
-    s = s.replace(/[^\d.\-]/g, "");
-    if (!s) return null;
-    const n = Number(s);
-    return Number.isFinite(n) ? n : null;
-  }
-
-  return null;
-}
-
-function toCentsFromPrice(x: unknown): number | null {
-  const n = toNumber(x);
-  if (n == null || n <= 0) return null;
-  return Math.round(n * 100);
-}
-
-function pickTcgplayerWideCents(
-  row: {
-    normal: string | null;
-    holofoil: string | null;
-    reverse_holofoil: string | null;
-    first_edition_holofoil: string | null;
-    first_edition_normal: string | null;
-    market_price: string | number | null;
-    low_price: string | number | null;
-    mid_price: string | number | null;
-    high_price: string | number | null;
-  },
-  variantType: CanonVariant,
-): { cents: number | null; used: "wide" | "generic" | "none" } {
-  let wideVal: string | null = null;
-
-  if (variantType === "normal") wideVal = row.normal;
-  else if (variantType === "holofoil") wideVal = row.holofoil;
-  else if (variantType === "reverse_holofoil") wideVal = row.reverse_holofoil;
-  else if (variantType === "first_edition") {
-    wideVal = row.first_edition_holofoil ?? row.first_edition_normal ?? null;
-  } else if (variantType === "promo") {
-    wideVal = row.holofoil ?? row.normal ?? null;
-  }
-
-  const wideCents = toCentsFromPrice(wideVal);
-  if (wideCents != null) return { cents: wideCents, used: "wide" };
-
-  const generic =
-    toCentsFromPrice(row.market_price) ??
-    toCentsFromPrice(row.mid_price) ??
-    toCentsFromPrice(row.low_price) ??
-    toCentsFromPrice(row.high_price);
-
-  if (generic != null) return { cents: generic, used: "generic" };
-
-  return { cents: null, used: "none" };
-}
-
-/**
- * Pokémon DB-first lookup:
- * - Reads wide columns (normal/holofoil/reverse_holofoil/etc.) on tcgplayer table
- * - Works even when variant_type is blank (your me1 rows are like this)
- * - If no usable price in DB, returns null (caller may optionally fallback to live)
- */
-async function lookupPokemonDbPrice(cardId: string, variantType: CanonVariant) {
-  const res = await db.execute<{
-    updated_at: string | null;
-    variant_type: string | null;
-
-    normal: string | null;
-    holofoil: string | null;
-    reverse_holofoil: string | null;
-    first_edition_holofoil: string | null;
-    first_edition_normal: string | null;
-
-    market_price: string | number | null;
-    low_price: string | number | null;
-    mid_price: string | number | null;
-    high_price: string | number | null;
-
-    currency: string | null;
-  }>(sql`
-    SELECT
-      updated_at,
-      variant_type,
-      normal,
-      holofoil,
-      reverse_holofoil,
-      first_edition_holofoil,
-      first_edition_normal,
-      market_price,
-      low_price,
-      mid_price,
-      high_price,
-      currency
-    FROM public.tcg_card_prices_tcgplayer
-    WHERE card_id = ${cardId}
-    ORDER BY
-      CASE WHEN variant_type = ${variantType} THEN 0 ELSE 1 END,
-      CASE
-        WHEN ${variantType} = 'normal' AND normal IS NOT NULL AND btrim(normal) <> '' THEN 0
-        WHEN ${variantType} = 'holofoil' AND holofoil IS NOT NULL AND btrim(holofoil) <> '' THEN 0
-        WHEN ${variantType} = 'reverse_holofoil' AND reverse_holofoil IS NOT NULL AND btrim(reverse_holofoil) <> '' THEN 0
-        ELSE 1
-      END,
-      updated_at DESC NULLS LAST
-    LIMIT 10
-  `);
-
-  const rows = res.rows ?? [];
-  if (!rows.length) return null;
-
-  for (const row of rows) {
-    const picked = pickTcgplayerWideCents(row, variantType);
-    if (picked.cents != null) {
-      return {
-        unitPriceCents: picked.cents,
-        source: "tcgplayer_db",
-        confidence: picked.used === "wide" ? "variant_column" : "market_or_mid",
-        currency: (row.currency ?? "USD").toUpperCase(),
-        updatedAt: row.updated_at ?? null,
-      };
-    }
-  }
-
-  return null;
-}
-
-/* ------------------ UPDATED: revalue enqueue helper ------------------ */
-
-async function ensureRevalueActiveIndexExists() {
-  // Partial unique index (NOT a constraint). Safe to run repeatedly.
-  await db.execute(sql`
-    CREATE UNIQUE INDEX IF NOT EXISTS ux_user_revalue_jobs_active_user
-    ON public.user_revalue_jobs (user_id)
-    WHERE status IN ('queued', 'running')
-  `);
-}
-
-/**
- * Enqueue a per-user revalue job (deduped by the partial unique index).
- * IMPORTANT: use ON CONFLICT DO NOTHING (not ON CONSTRAINT),
- * because partial indexes cannot be referenced as constraints.
- */
-async function enqueueRevalueJob(userId: string) {
-  try {
-    await ensureRevalueActiveIndexExists();
-
-    await db.execute(sql`
-      INSERT INTO public.user_revalue_jobs (user_id, status)
-      VALUES (${userId}, 'queued')
-      ON CONFLICT DO NOTHING
-    `);
-  } catch (err) {
-    // Never block add() if queue insert fails
-    console.warn("enqueueRevalueJob failed (continuing)", err);
-  }
-}
-
 export async function POST(req: Request) {
   const { userId } = await auth();
   if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
@@ -269,7 +73,10 @@ export async function POST(req: Request) {
   const certNumber = (body.cert_number ?? "").toString().trim();
   const purchaseDate = body.purchase_date ?? null;
 
-  const variantType: CanonVariant = normalizeVariantType(body.variantType);
+  const variantType: CanonVariant = normalizeVariant(body.variantType, normalizeGame(gameRaw));
+
+  // slabs are valued by grade, so only raw copies keep a condition
+  const condition = parseSlabGrade(gradingCompany, gradeLabel) ? null : normalizeCondition(body.condition);
 
   const qtyRaw = body.quantity ?? 1;
   const quantity =
@@ -306,6 +113,7 @@ export async function POST(req: Request) {
         AND game = ${gameNorm}
         AND card_id = ${cardId}
         AND variant_type = ${variantType}
+        AND COALESCE(condition,'') = COALESCE(${condition},'')
         AND COALESCE(grading_company,'') = COALESCE(${gradingCompany},'')
         AND COALESCE(grade_label,'') = COALESCE(${gradeLabel},'')
         AND COALESCE(cert_number,'') = COALESCE(${certNumber},'')
@@ -397,36 +205,16 @@ export async function POST(req: Request) {
   let priceCurrency: string | null = null;
 
   try {
-    if (gameNorm === "pokemon") {
-      // 1️⃣ DB-first lookup (authoritative)
-      const dbPrice = await lookupPokemonDbPrice(cardId, variantType);
-
-      if (dbPrice) {
-        unitPriceCents = dbPrice.unitPriceCents;
-        priceSource = dbPrice.source;
-        priceConfidence = dbPrice.confidence;
-        priceCurrency = dbPrice.currency ?? "USD";
-      } else {
-        // 2️⃣ Live fallback ONLY if DB has nothing usable
-        const livePrice = await getLivePriceForCard("pokemon", cardId, variantType);
-
-        if (livePrice) {
-          unitPriceCents = Math.round(livePrice.amount * 100);
-          priceSource = livePrice.source;
-          priceConfidence = "live_fallback";
-          priceCurrency = livePrice.currency ?? "USD";
-        }
-      }
-    } else {
-      // Non-Pokémon paths unchanged
-      const livePrice = await getLivePriceForCard(gameNorm as GameId, cardId);
-
-      if (livePrice) {
-        unitPriceCents = Math.round(livePrice.amount * 100);
-        priceSource = livePrice.source;
-        priceConfidence = "live";
-        priceCurrency = livePrice.currency ?? "USD";
-      }
+    const game = normalizeGame(gameNorm);
+    const valuation = game
+      ? await getValuation({ game, cardId, variant: variantType, condition, gradingCompany, gradeLabel })
+      : null;
+
+    if (valuation) {
+      unitPriceCents = Math.round(valuation.valueUsd * 100);
+      priceSource = valuation.primarySource;
+      priceConfidence = valuation.confidence.grade;
+      priceCurrency = "USD";
     }
   } catch (err) {
     console.warn("collection/add price lookup failed (continuing)", err);
@@ -467,6 +255,7 @@ export async function POST(req: Request) {
           quantity: newQty,
           card_id: cardId,
           variant_type: variantType,
+          condition,
           grading_company: gradingCompany || null,
           grade_label: gradeLabel || null,
           cert_number: certNumber || null,
@@ -521,6 +310,7 @@ export async function POST(req: Request) {
         quantity: newQty,
         variant_type: variantType,
         variant_label: variantLabel(variantType),
+        condition,
         unit_price_cents: unitPriceCents,
         last_value_cents: newLastValueCents,
         priced: unitPriceCents != null,
@@ -539,6 +329,7 @@ export async function POST(req: Request) {
         set_name,
         image_url,
         variant_type,
+        condition,
         grading_company,
         grade_label,
         cert_number,
@@ -557,6 +348,7 @@ export async function POST(req: Request) {
         ${setName},
         ${imageUrl},
         ${variantType},
+        ${condition},
         ${gradingCompany},
         ${gradeLabel},
         ${certNumber},
@@ -578,6 +370,7 @@ export async function POST(req: Request) {
         quantity,
         card_id: cardId,
         variant_type: variantType,
+        condition,
         grading_company: gradingCompany || null,
         grade_label: gradeLabel || null,
         cert_number: certNumber || null,
@@ -632,6 +425,7 @@ export async function POST(req: Request) {
       quantity,
       variant_type: variantType,
       variant_label: variantLabel(variantType),
+      condition,
       unit_price_cents: unitPriceCents,
       last_value_cents: insertedLastValueCents,
       priced: unitPriceCents != null,
@@ -6,6 +6,11 @@ import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
 import { sql } from "drizzle-orm";
+import { getDisplayCurrency } from "@/lib/fx/displayCurrency";
+import { loadFxTable } from "@/lib/fx/rates";
+import { getUserPlan, canSeePortfolioPerformance } from "@/lib/plans";
+import { getPortfolioPerformance } from "@/lib/portfolio/analytics";
+import { DEFAULT_BENCHMARK, parseBenchmark } from "@/lib/portfolio/performance";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -38,6 +43,13 @@ export async function GET() {
   const today = new Date();
   const todayStr = toDateStr(today);
 
+  // Money below is in hundredths of `currency`; values stay in USD when
+  // there is no rate for the user's currency.
+  const [preferred, fx] = await Promise.all([getDisplayCurrency(userId), loadFxTable()]);
+  const currency = fx.rate(preferred) != null ? preferred : "USD";
+  const toDisplay = (usdCents: number, on?: string | null) =>
+    Math.round(fx.fromUsd(usdCents, currency, on) ?? usdCents);
+
   // 1) Load all collection items for this user (for listing widgets)
   const rowsRes = await db.execute<CollectionRow>(sql`
     SELECT
@@ -83,8 +95,8 @@ export async function GET() {
 
   const totalQuantity = Number(s.total_quantity ?? 0);
   const distinctItems = Number(s.distinct_items ?? 0);
-  const totalCostCents = Number(s.total_cost_cents ?? 0);
-  const totalValueCents = Number(s.total_value_cents ?? 0);
+  const totalCostCents = toDisplay(Number(s.total_cost_cents ?? 0));
+  const totalValueCents = toDisplay(Number(s.total_value_cents ?? 0));
 
   // 2b) byGame (market value only)
   const byGameRes = await db.execute<{
@@ -106,7 +118,7 @@ export async function GET() {
     const key = (r.game ?? "other").toLowerCase();
     byGame[key] = {
       quantity: Number(r.quantity ?? 0),
-      valueCents: Number(r.value_cents ?? 0),
+      valueCents: toDisplay(Number(r.value_cents ?? 0)),
     };
   }
 
@@ -152,11 +164,43 @@ export async function GET() {
       setName: r.set_name,
       imageUrl: r.image_url,
       quantity: r.quantity ?? 0,
-      lastValueCents: r.last_value_cents ?? 0,
+      lastValueCents: toDisplay(r.last_value_cents ?? 0),
       createdAt: r.created_at,
     }));
 
-  // 5) Return JSON
+  // 5) Performance over the same window (Pro); the full report is
+  // /api/collection/performance
+  const plan = await getUserPlan(userId);
+  let performance = null;
+  if (canSeePortfolioPerformance(plan)) {
+    try {
+      const p = await getPortfolioPerformance(userId, {
+        days: lookbackDays,
+        currency,
+        benchmark: parseBenchmark(DEFAULT_BENCHMARK),
+      });
+      performance = {
+        days: lookbackDays,
+        twr: p.twr?.total ?? null,
+        mwr: p.mwr,
+        maxDrawdown: p.drawdown?.maxDrawdown ?? null,
+        volatility: p.volatility,
+        benchmark: p.benchmark
+          ? {
+              id: p.benchmark.id,
+              label: p.benchmark.label,
+              return: p.benchmark.comparison?.benchmarkReturn ?? null,
+              excessReturn: p.benchmark.comparison?.excessReturn ?? null,
+              beatsBenchmark: p.benchmark.comparison?.beatsBenchmark ?? null,
+            }
+          : null,
+      };
+    } catch (err) {
+      console.error("[collection/dashboard] performance failed", err);
+    }
+  }
+
+  // 6) Return JSON
   return NextResponse.json({
     summary: {
       totalQuantity,
@@ -164,14 +208,17 @@ export async function GET() {
       totalCostCents,
       totalValueCents,
       byGame,
+      currency,
       asOfDate: todayStr,
     },
     history: historyRows.map((h) => ({
       date: h.as_of_date,
-      totalValueCents: Number(h.total_value_cents ?? 0),
-      totalCostCents: Number(h.total_cost_cents ?? 0),
+      // each day at that day's rate
+      totalValueCents: toDisplay(Number(h.total_value_cents ?? 0), h.as_of_date),
+      totalCostCents: toDisplay(Number(h.total_cost_cents ?? 0), h.as_of_date),
       totalQuantity: Number(h.total_quantity ?? 0),
     })),
     recentlyAdded,
+    performance,
   });
 }
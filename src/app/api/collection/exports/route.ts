@@ -14,6 +14,8 @@ type Row = {
   card_name: string | null;
   set_name: string | null;
   image_url: string | null;
+  variant_type: string | null;
+  condition: string | null;
   grading_company: string | null;
   grade_label: string | null;
   cert_number: string | null;
@@ -71,6 +73,8 @@ export async function GET() {
         card_name,
         set_name,
         image_url,
+        variant_type,
+        condition,
         grading_company,
         grade_label,
         cert_number,
@@ -102,6 +106,8 @@ export async function GET() {
     "card_name",
     "set_name",
     "image_url",
+    "variant_type",
+    "condition",
     "grading_company",
     "grade_label",
     "cert_number",
@@ -126,6 +132,8 @@ export async function GET() {
         csvEscape(r.card_name),
         csvEscape(r.set_name),
         csvEscape(r.image_url),
+        csvEscape(r.variant_type),
+        csvEscape(r.condition),
         csvEscape(r.grading_company),
         csvEscape(r.grade_label),
         csvEscape(r.cert_number),
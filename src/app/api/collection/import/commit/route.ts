@@ -0,0 +1,51 @@
+// src/app/api/collection/import/commit/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { PlanLimitError } from "@/lib/collections/limits";
+import { ImportError, commitCollectionImport, validateImportCommit } from "@/lib/collections/importCards";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * POST /api/collection/import/commit
+ *   {
+ *     folder?: "Unsorted",          // default for items without their own folder
+ *     items: [{
+ *       line?, game, cardId, quantity, variant?,
+ *       gradingCompany?, gradeLabel?, certNumber?,
+ *       costCents?, purchaseDate?, folder?
+ *     }]
+ *   }
+ *
+ * Items come from the reviewed preview (matched rows + manual picks).
+ * The whole batch is checked against plan limits before anything is written.
+ */
+export async function POST(req: Request) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+
+  try {
+    const input = validateImportCommit(body);
+    const result = await commitCollectionImport(userId, input);
+    return NextResponse.json({ ok: true, ...result }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    if (err instanceof ImportError || err instanceof PlanLimitError) {
+      return NextResponse.json(
+        { ok: false, error: err.code, message: err.message, details: err.details ?? null },
+        { status: err.status },
+      );
+    }
+    console.error("[collection/import/commit] failed", err);
+    return NextResponse.json(
+      { ok: false, error: "server_error", message: "Could not import the collection." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,100 @@
+// src/app/api/collection/import/preview/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserPlan } from "@/lib/plans";
+import { getCollectionCounts } from "@/lib/collections/limits";
+import {
+  normalizeImportGame,
+  normalizeImportSource,
+  parseCollectionFile,
+} from "@/lib/collections/csvImport";
+import { resolveImportRows } from "@/lib/collections/importCards";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const MAX_CSV_BYTES = 2 * 1024 * 1024;
+
+/**
+ * POST /api/collection/import/preview
+ *   { csv: "<file contents>", source?: "auto" | "tcgplayer" | "deckbox" | "moxfield" | "dragonshield" | "generic" | "json",
+ *     game?: "pokemon" | "mtg" | "yugioh" }
+ *   -> parsed rows matched against the catalogs (matched / ambiguous / unmatched)
+ *
+ * Nothing is written; the client reviews the rows and posts the picks to /commit.
+ */
+export async function POST(req: Request) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+
+  const csv = typeof body.csv === "string" ? body.csv : "";
+  if (csv.length > MAX_CSV_BYTES) {
+    return NextResponse.json(
+      { ok: false, error: "file_too_large", message: "Import files are limited to 2 MB." },
+      { status: 413 },
+    );
+  }
+
+  const source = normalizeImportSource(body.source);
+  if (!source) {
+    return NextResponse.json(
+      { ok: false, error: "invalid_source", message: "Unknown import source." },
+      { status: 400 },
+    );
+  }
+
+  const parsed = parseCollectionFile(csv, { source });
+  if (!parsed.ok) {
+    return NextResponse.json({ ok: false, error: parsed.error, message: parsed.message }, { status: 400 });
+  }
+
+  // Deckbox / Moxfield / Dragon Shield exports are Magic-only.
+  const defaultGame =
+    normalizeImportGame(body.game) ??
+    (parsed.source === "tcgplayer" || parsed.source === "generic" || parsed.source === "json" ? "pokemon" : "mtg");
+
+  try {
+    const [rows, plan, counts] = await Promise.all([
+      resolveImportRows(parsed.rows, defaultGame),
+      getUserPlan(userId),
+      getCollectionCounts(userId),
+    ]);
+
+    const summary = { matched: 0, ambiguous: 0, unmatched: 0, quantity: 0 };
+    for (const r of rows) {
+      summary[r.status] += 1;
+      summary.quantity += r.quantity;
+    }
+
+    return NextResponse.json(
+      {
+        ok: true,
+        source: parsed.source,
+        game: defaultGame,
+        rows,
+        skipped: parsed.skipped,
+        summary,
+        usage: {
+          plan: plan.name,
+          items: counts.items,
+          collections: counts.collections,
+          maxItems: plan.limits.maxItemsTotal,
+          maxCollections: plan.limits.maxCollections,
+        },
+      },
+      { headers: { "Cache-Control": "no-store" } },
+    );
+  } catch (err) {
+    console.error("[collection/import/preview] failed", err);
+    return NextResponse.json(
+      { ok: false, error: "server_error", message: "Could not match the file against the catalog." },
+      { status: 500 },
+    );
+  }
+}
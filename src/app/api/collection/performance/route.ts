@@ -0,0 +1,69 @@
+// src/app/api/collection/performance/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserPlan, canSeePortfolioPerformance } from "@/lib/plans";
+import { resolveDisplayCurrency } from "@/lib/fx/displayCurrency";
+import { getPortfolioPerformance } from "@/lib/portfolio/analytics";
+import { BENCHMARK_PRESETS, DEFAULT_BENCHMARK, parseBenchmark } from "@/lib/portfolio/performance";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * GET /api/collection/performance?days=365&benchmark=pokemon-20&currency=EUR
+ *
+ * Time- and money-weighted returns, drawdown, volatility, attribution by
+ * game and set, and a comparison with a market benchmark
+ * ("<game>-<min USD>", or benchmark=none).
+ */
+export async function GET(req: Request) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const plan = await getUserPlan(userId);
+  if (!canSeePortfolioPerformance(plan)) {
+    return NextResponse.json(
+      {
+        error: "Plan limit",
+        message: "Portfolio performance analytics are available on the Pro Collector plan.",
+        plan: plan.id,
+        upgradeUrl: "/pricing",
+      },
+      { status: 403 },
+    );
+  }
+
+  const url = new URL(req.url);
+  const days = Math.max(7, Math.min(3650, Number(url.searchParams.get("days") || "365") || 365));
+
+  const benchParam = url.searchParams.get("benchmark") ?? DEFAULT_BENCHMARK;
+  const benchmark = benchParam === "none" ? null : parseBenchmark(benchParam);
+  if (benchParam !== "none" && !benchmark) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: "invalid_benchmark",
+        message: `benchmark must look like <game>-<min USD>, e.g. ${BENCHMARK_PRESETS.join(", ")}, or none.`,
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const currency = await resolveDisplayCurrency(userId, url.searchParams.get("currency"));
+    const performance = await getPortfolioPerformance(userId, { days, currency, benchmark });
+    return NextResponse.json(
+      { ok: true, days, benchmarks: BENCHMARK_PRESETS, performance },
+      { headers: { "Cache-Control": "no-store" } },
+    );
+  } catch (err) {
+    console.error("[collection/performance] failed", err);
+    return NextResponse.json(
+      { ok: false, error: "server_error", message: "Could not compute portfolio performance." },
+      { status: 500 },
+    );
+  }
+}
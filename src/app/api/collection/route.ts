@@ -10,6 +10,7 @@ import { sql } from "drizzle-orm";
 import { db } from "@/lib/db";
 
 import { getUserPlan } from "@/lib/plans";
+import { valueCollectionRows } from "@/lib/valuations/collection";
 
 // ---------- CSV helpers ----------
 function csvEscape(v: unknown): string {
@@ -60,154 +61,66 @@ export async function GET(req: Request) {
   const url = new URL(req.url);
   const game = asGame(url.searchParams.get("game"));
 
-  // We export from user_collection_items.
-  // For each game, we join the *best available* “current USD” price source:
-  // - pokemon: tcg_card_prices_tcgplayer (prefer normal market_price)
-  // - mtg: mtg_prices_effective (effective_usd) then scryfall_latest (usd)
-  // - yugioh: ygo_card_prices (tcgplayer/ebay/amazon/etc) - pick best in SQL
-  //
-  // NOTE: this is conservative and meant to “just work” with what you already built.
+  // We export from user_collection_items; names come from each game's
+  // catalog and prices from the valuation engine.
 
   const rows =
     (
       await db.execute<{
         game: string;
         card_id: string;
-        variant_type: string | null;
+        variant_type: string;
+        condition: string | null;
+        grading_company: string | null;
+        grade_label: string | null;
         quantity: number;
         cost_cents: number | null;
         name: string | null;
         set_name: string | null;
-
-        current_price_usd: number | null;
-        current_value_usd: number | null;
-
-        // optional sources/debug
-        price_source: string | null;
-        price_updated: string | null;
       }>(sql`
-      WITH items AS (
         SELECT
-          u.game,
-          u.card_id,
-          COALESCE(NULLIF(u.variant_type,''), 'normal') AS variant_type,
-          COALESCE(u.quantity,0)::int AS quantity,
-          u.cost_cents
-        FROM public.user_collection_items u
-        WHERE u.user_id = ${userId}
-          AND (${game} = 'all' OR u.game = ${game})
-      ),
-
-      pokemon_prices AS (
-        SELECT
-          p.card_id,
-          -- prefer "normal" variant market_price, otherwise any market/mid/low/high
-          COALESCE(
-            MAX(CASE WHEN LOWER(p.variant_type) = 'normal' THEN p.market_price::numeric END),
-            MAX(p.market_price::numeric),
-            MAX(p.mid_price::numeric),
-            MAX(p.low_price::numeric),
-            MAX(p.high_price::numeric)
-          )::float8 AS price_usd,
-          MAX(TO_CHAR(p.updated_at::date,'YYYY-MM-DD')) AS updated
-        FROM public.tcg_card_prices_tcgplayer p
-        GROUP BY p.card_id
-      ),
-
-      mtg_prices AS (
-        SELECT
-          c.id::text AS card_id,
-          COALESCE(e.effective_usd, s.usd)::float8 AS price_usd,
-          COALESCE(
-            TO_CHAR(e.effective_updated_at::date,'YYYY-MM-DD'),
-            TO_CHAR(s.updated_at::date,'YYYY-MM-DD')
-          ) AS updated
-        FROM public.scryfall_cards_raw c
-        LEFT JOIN public.mtg_prices_effective e       ON e.scryfall_id = c.id
-        LEFT JOIN public.mtg_prices_scryfall_latest s ON s.scryfall_id = c.id
-      ),
-
-      ygo_prices AS (
-        SELECT
-          p.card_id::text AS card_id,
-          -- pick best available numeric price
-          COALESCE(
-            NULLIF(p.tcgplayer_price,0),
-            NULLIF(p.ebay_price,0),
-            NULLIF(p.amazon_price,0),
-            NULLIF(p.coolstuffinc_price,0),
-            NULLIF(p.cardmarket_price,0)
-          )::float8 AS price_usd,
-          NULL::text AS updated
-        FROM public.ygo_card_prices p
-      )
-
-      SELECT
-        i.game,
-        i.card_id,
-        i.variant_type,
-        i.quantity,
-        i.cost_cents,
-
-        -- Names by game
-        CASE
-          WHEN i.game = 'pokemon' THEN (SELECT c.name FROM public.tcg_cards c WHERE c.id = i.card_id LIMIT 1)
-          WHEN i.game = 'mtg' THEN (SELECT c.name FROM public.scryfall_cards_raw c WHERE c.id::text = i.card_id LIMIT 1)
-          WHEN i.game = 'yugioh' THEN (SELECT c.name FROM public.ygo_cards c WHERE c.card_id::text = i.card_id LIMIT 1)
-          ELSE NULL
-        END AS name,
-
-        CASE
-          WHEN i.game = 'pokemon' THEN (SELECT c.set_name FROM public.tcg_cards c WHERE c.id = i.card_id LIMIT 1)
-          WHEN i.game = 'mtg' THEN (SELECT s.name FROM public.scryfall_sets s
-                                    JOIN public.scryfall_cards_raw c ON LOWER(s.code) = LOWER(c.set_code)
-                                    WHERE c.id::text = i.card_id LIMIT 1)
-          ELSE NULL
-        END AS set_name,
-
-        -- current_price_usd by game
-        CASE
-          WHEN i.game = 'pokemon' THEN (SELECT pp.price_usd FROM pokemon_prices pp WHERE pp.card_id = i.card_id LIMIT 1)
-          WHEN i.game = 'mtg' THEN (SELECT mp.price_usd FROM mtg_prices mp WHERE mp.card_id = i.card_id LIMIT 1)
-          WHEN i.game = 'yugioh' THEN (SELECT yp.price_usd FROM ygo_prices yp WHERE yp.card_id = i.card_id LIMIT 1)
-          ELSE NULL
-        END AS current_price_usd,
-
-        -- current_value_usd = price * qty
-        (
-          COALESCE(
-            CASE
-              WHEN i.game = 'pokemon' THEN (SELECT pp.price_usd FROM pokemon_prices pp WHERE pp.card_id = i.card_id LIMIT 1)
-              WHEN i.game = 'mtg' THEN (SELECT mp.price_usd FROM mtg_prices mp WHERE mp.card_id = i.card_id LIMIT 1)
-              WHEN i.game = 'yugioh' THEN (SELECT yp.price_usd FROM ygo_prices yp WHERE yp.card_id = i.card_id LIMIT 1)
-              ELSE NULL
-            END,
-            0
-          ) * i.quantity
-        )::float8 AS current_value_usd,
-
-        CASE
-          WHEN i.game = 'pokemon' THEN 'tcgplayer'
-          WHEN i.game = 'mtg' THEN 'scryfall/effective'
-          WHEN i.game = 'yugioh' THEN 'ygo_sources'
-          ELSE NULL
-        END AS price_source,
-
-        CASE
-          WHEN i.game = 'pokemon' THEN (SELECT pp.updated FROM pokemon_prices pp WHERE pp.card_id = i.card_id LIMIT 1)
-          WHEN i.game = 'mtg' THEN (SELECT mp.updated FROM mtg_prices mp WHERE mp.card_id = i.card_id LIMIT 1)
-          ELSE NULL
-        END AS price_updated
-
-      FROM items i
-      ORDER BY i.game, name NULLS LAST, i.card_id
-    `)
+          i.game,
+          i.card_id,
+          COALESCE(NULLIF(i.variant_type,''), 'normal') AS variant_type,
+          i.condition,
+          i.grading_company,
+          i.grade_label,
+          COALESCE(i.quantity,0)::int AS quantity,
+          i.cost_cents,
+
+          CASE
+            WHEN i.game = 'pokemon' THEN (SELECT c.name FROM public.tcg_cards c WHERE c.id = i.card_id LIMIT 1)
+            WHEN i.game = 'mtg' THEN (SELECT c.name FROM public.scryfall_cards_raw c WHERE c.id::text = i.card_id LIMIT 1)
+            WHEN i.game = 'yugioh' THEN (SELECT c.name FROM public.ygo_cards c WHERE c.card_id::text = i.card_id LIMIT 1)
+            ELSE NULL
+          END AS name,
+
+          CASE
+            WHEN i.game = 'pokemon' THEN (SELECT c.set_name FROM public.tcg_cards c WHERE c.id = i.card_id LIMIT 1)
+            WHEN i.game = 'mtg' THEN (
+              SELECT s.name
+              FROM public.scryfall_sets s
+              JOIN public.scryfall_cards_raw c ON LOWER(s.code) = LOWER(c.set_code)
+              WHERE c.id::text = i.card_id
+              LIMIT 1
+            )
+            ELSE NULL
+          END AS set_name
+
+        FROM public.user_collection_items i
+        WHERE i.user_id = ${userId}
+          AND (${game} = 'all' OR i.game = ${game})
+        ORDER BY i.game, name NULLS LAST, i.card_id
+      `)
     ).rows ?? [];
 
+  // prices come from the valuation engine, per printing / condition / grade
+  const priced = await valueCollectionRows(rows);
+
   // Build CSV output
-  const out = rows.map((r) => {
+  const out = priced.map((r) => {
     const costUsd = centsToUsd(r.cost_cents);
-    const current = n2(r.current_price_usd);
+    const current = r.valuation?.valueUsd ?? null;
     const qty = n2(r.quantity) ?? 0;
     const currentValue = current != null ? current * qty : null;
 
@@ -216,13 +129,16 @@ export async function GET(req: Request) {
       card_id: r.card_id,
       name: r.name ?? "",
       set_name: r.set_name ?? "",
-      variant_type: r.variant_type ?? "normal",
+      variant_type: r.variant_type,
+      condition: r.condition ?? "",
+      grade: [r.grading_company, r.grade_label].filter(Boolean).join(" "),
       quantity: r.quantity,
       cost_usd: costUsd != null ? costUsd.toFixed(2) : "",
       current_price_usd: current != null ? current.toFixed(2) : "",
       current_value_usd: currentValue != null ? currentValue.toFixed(2) : "",
-      price_source: r.price_source ?? "",
-      price_updated: r.price_updated ?? "",
+      price_source: r.valuation?.primarySource ?? "",
+      price_confidence: r.valuation?.confidence.grade ?? "",
+      price_updated: r.valuation?.asOf?.slice(0, 10) ?? "",
     };
   });
 
@@ -232,11 +148,14 @@ export async function GET(req: Request) {
     "name",
     "set_name",
     "variant_type",
+    "condition",
+    "grade",
     "quantity",
     "cost_usd",
     "current_price_usd",
     "current_value_usd",
     "price_source",
+    "price_confidence",
     "price_updated",
   ];
 
@@ -0,0 +1,95 @@
+// src/app/api/collection/sales/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { SaleError, recordCollectionSale, validateSaleInput } from "@/lib/collections/sales";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * GET /api/collection/sales?year=2025
+ *   -> recorded sales/disposals with their matched lots
+ *
+ * POST /api/collection/sales
+ *   {
+ *     game, cardId, quantity, soldAt: "YYYY-MM-DD",
+ *     grossProceedsCents, feesCents, shippingCents,
+ *     kind?: "sale" | "disposal",
+ *     method?: "fifo" | "lifo" | "specific",
+ *     lots?: [{ itemId, quantity }],   // method = "specific"
+ *     note?
+ *   }
+ */
+export async function GET(req: Request) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const url = new URL(req.url);
+  const year = Number(url.searchParams.get("year") ?? "");
+  const hasYear = Number.isInteger(year) && year > 1900;
+
+  const res = await db.execute(sql`
+    SELECT
+      s.id,
+      s.kind,
+      s.game,
+      s.card_id AS "cardId",
+      s.card_name AS "cardName",
+      s.quantity,
+      s.sold_at::text AS "soldAt",
+      s.gross_proceeds_cents AS "grossProceedsCents",
+      s.fees_cents AS "feesCents",
+      s.shipping_cents AS "shippingCents",
+      s.lot_method AS "lotMethod",
+      s.note,
+      COALESCE(
+        (
+          SELECT json_agg(json_build_object(
+            'itemId', l.item_id,
+            'quantity', l.quantity,
+            'acquiredAt', l.acquired_at,
+            'costEachCents', l.cost_each_cents,
+            'proceedsCents', l.proceeds_cents,
+            'expensesCents', l.expenses_cents
+          ) ORDER BY l.acquired_at)
+          FROM user_collection_sale_lots l
+          WHERE l.sale_id = s.id
+        ),
+        '[]'::json
+      ) AS lots
+    FROM user_collection_sales s
+    WHERE s.user_id = ${userId}
+    ${hasYear ? sql`AND EXTRACT(YEAR FROM s.sold_at) = ${year}` : sql``}
+    ORDER BY s.sold_at DESC, s.created_at DESC
+  `);
+
+  return NextResponse.json({ ok: true, sales: res.rows ?? [] }, { headers: { "Cache-Control": "no-store" } });
+}
+
+export async function POST(req: Request) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+
+  try {
+    const input = validateSaleInput(body);
+    const sale = await recordCollectionSale(userId, input);
+    return NextResponse.json({ ok: true, ...sale }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    if (err instanceof SaleError) {
+      return NextResponse.json({ ok: false, error: err.code, message: err.message }, { status: err.status });
+    }
+    console.error("[collection/sales] failed", err);
+    return NextResponse.json(
+      { ok: false, error: "server_error", message: "Could not record the sale." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,59 @@
+// src/app/api/collection/shares/[id]/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { ShareError, deleteShare, updateShare } from "@/lib/shares/shares";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Ctx = { params: Promise<{ id: string }> };
+
+/**
+ * PATCH /api/collection/shares/:id
+ *   { title?, description?, hideValues?, hideCost?, hideQuantities?, isActive? }
+ */
+export async function PATCH(req: Request, ctx: Ctx) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await ctx.params;
+  if (!UUID_RE.test(id)) {
+    return NextResponse.json({ ok: false, error: "bad_request", message: "Invalid id" }, { status: 400 });
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+
+  try {
+    const share = await updateShare(userId, id, body);
+    return NextResponse.json({ ok: true, share }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    if (err instanceof ShareError) {
+      return NextResponse.json({ ok: false, error: err.code, message: err.message }, { status: err.status });
+    }
+    console.error("[collection/shares] update failed", err);
+    return NextResponse.json(
+      { ok: false, error: "server_error", message: "Could not update the share link." },
+      { status: 500 },
+    );
+  }
+}
+
+/** DELETE /api/collection/shares/:id — the public URL stops working. */
+export async function DELETE(_req: Request, ctx: Ctx) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await ctx.params;
+  if (!UUID_RE.test(id)) {
+    return NextResponse.json({ ok: false, error: "bad_request", message: "Invalid id" }, { status: 400 });
+  }
+
+  await deleteShare(userId, id);
+  return NextResponse.json({ ok: true }, { headers: { "Cache-Control": "no-store" } });
+}
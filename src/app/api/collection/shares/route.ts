@@ -0,0 +1,51 @@
+// src/app/api/collection/shares/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { ShareError, listShareableFolders, listShares, upsertShare, validateShareInput } from "@/lib/shares/shares";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/** GET /api/collection/shares -> { ok, shares, folders } */
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const [shares, folders] = await Promise.all([listShares(userId), listShareableFolders(userId)]);
+  return NextResponse.json({ ok: true, shares, folders }, { headers: { "Cache-Control": "no-store" } });
+}
+
+/**
+ * POST /api/collection/shares
+ *   {
+ *     kind: "collection" | "folder" | "wishlist",
+ *     folder?: string,               // required for kind = "folder"
+ *     title?, description?,
+ *     hideValues?: false, hideCost?: true, hideQuantities?: false
+ *   }
+ *   -> { ok, share }   (existing link for the same target is updated, URL unchanged)
+ */
+export async function POST(req: Request) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+
+  try {
+    const share = await upsertShare(userId, validateShareInput(body));
+    return NextResponse.json({ ok: true, share }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    if (err instanceof ShareError) {
+      return NextResponse.json({ ok: false, error: err.code, message: err.message }, { status: err.status });
+    }
+    console.error("[collection/shares] create failed", err);
+    return NextResponse.json(
+      { ok: false, error: "server_error", message: "Could not create the share link." },
+      { status: 500 },
+    );
+  }
+}
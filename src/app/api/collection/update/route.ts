@@ -4,6 +4,8 @@ import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
 import { sql } from "drizzle-orm";
+import { normalizeVariant } from "@/lib/valuations/variants";
+import { normalizeCondition } from "@/lib/cards/condition";
 
 export const runtime = "nodejs";
 
@@ -26,8 +28,8 @@ export async function POST(req: Request) {
   }
 
   // Ensure the row exists AND belongs to the user
-  const existing = await db.execute(
-    sql`SELECT id FROM user_collection_items WHERE id = ${id} AND user_id = ${userId} LIMIT 1`
+  const existing = await db.execute<{ id: string; game: string }>(
+    sql`SELECT id, game FROM user_collection_items WHERE id = ${id} AND user_id = ${userId} LIMIT 1`
   );
   if (existing.rows.length === 0) {
     return NextResponse.json({ error: "Not found" }, { status: 404 });
@@ -58,8 +60,29 @@ export async function POST(req: Request) {
     cert_number,
     purchase_date,
     last_value_cents,
+    variant_type,
+    condition,
   } = body;
 
+  // printing and condition are part of the item identity, so a change can
+  // collide with another row for the same card
+  try {
+    if (variant_type !== undefined) {
+      await updateColumn("variant_type", normalizeVariant(variant_type, existing.rows[0].game));
+    }
+    if (condition !== undefined) {
+      await updateColumn("condition", normalizeCondition(condition));
+    }
+  } catch (err: any) {
+    if (err?.code === "23505") {
+      return NextResponse.json(
+        { error: "You already have this card in that printing and condition in this folder." },
+        { status: 409 },
+      );
+    }
+    throw err;
+  }
+
   // Apply any fields that were provided
   if (grading_company !== undefined) {
     await updateColumn("grading_company", String(grading_company));
@@ -0,0 +1,21 @@
+// src/app/api/cron/ai-listings/route.ts
+import "server-only";
+
+import { cronLimit, runCronJob } from "@/lib/cronAuth";
+import { runListingQueue } from "@/lib/ai/listingBatches";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * GET /api/cron/ai-listings?limit=10
+ * Header: x-cron-secret: $CRON_SECRET
+ *
+ * Generates listing copy for due bulk-queue items, requeueing failures
+ * with backoff. Stops early when the time budget runs out.
+ */
+export async function GET(req: Request) {
+  const limit = cronLimit(req, 10, 50);
+  return runCronJob(req, "ai-listings", () => runListingQueue({ limit, budgetMs: 50_000 }));
+}
@@ -0,0 +1,21 @@
+// src/app/api/cron/collection-alerts/route.ts
+import "server-only";
+
+import { cronLimit, runCronJob } from "@/lib/cronAuth";
+import { runCollectionAlerts } from "@/lib/alerts/collectionAlerts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * GET /api/cron/collection-alerts?limit=200
+ * Header: x-cron-secret: $CRON_SECRET
+ *
+ * Evaluates collection / folder / game-slice alerts against the daily
+ * collection valuations, logs firings and notifies owners.
+ */
+export async function GET(req: Request) {
+  const limit = cronLimit(req, 200);
+  return runCronJob(req, "collection-alerts", () => runCollectionAlerts({ limit }));
+}
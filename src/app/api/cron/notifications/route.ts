@@ -0,0 +1,21 @@
+// src/app/api/cron/notifications/route.ts
+import "server-only";
+
+import { cronLimit, runCronJob } from "@/lib/cronAuth";
+import { flushNotifications } from "@/lib/notifications/notifications";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * GET /api/cron/notifications?limit=500
+ * Header: x-cron-secret: $CRON_SECRET
+ *
+ * Sends queued notifications: daily / weekly digests that are due, batches
+ * held through quiet hours, and retries of failed deliveries. Run hourly.
+ */
+export async function GET(req: Request) {
+  const limit = cronLimit(req, 500, 5000);
+  return runCronJob(req, "notifications", () => flushNotifications({ limit }));
+}
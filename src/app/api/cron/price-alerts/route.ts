@@ -0,0 +1,22 @@
+// src/app/api/cron/price-alerts/route.ts
+import "server-only";
+
+import { cronLimit, runCronJob } from "@/lib/cronAuth";
+import { runPriceAlerts } from "@/lib/alerts/priceAlerts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * GET /api/cron/price-alerts?limit=200
+ * Header: x-cron-secret: $CRON_SECRET
+ *
+ * Evaluates active price alerts (fixed thresholds, % moves, moving averages,
+ * spreads, all-time highs) against price history and notifies owners when a
+ * rule starts firing (outside its cooldown).
+ */
+export async function GET(req: Request) {
+  const limit = cronLimit(req, 200);
+  return runCronJob(req, "price-alerts", () => runPriceAlerts({ limit }));
+}
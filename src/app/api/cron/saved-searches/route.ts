@@ -0,0 +1,20 @@
+// src/app/api/cron/saved-searches/route.ts
+import "server-only";
+
+import { cronLimit, runCronJob } from "@/lib/cronAuth";
+import { runSavedSearches } from "@/lib/search/savedSearches";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * GET /api/cron/saved-searches?limit=200
+ * Header: x-cron-secret: $CRON_SECRET
+ *
+ * Finds new catalog/shop matches for saved searches and emails their owners.
+ */
+export async function GET(req: Request) {
+  const limit = cronLimit(req, 200);
+  return runCronJob(req, "saved-searches", () => runSavedSearches({ limit }));
+}
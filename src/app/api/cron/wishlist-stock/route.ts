@@ -0,0 +1,21 @@
+// src/app/api/cron/wishlist-stock/route.ts
+import "server-only";
+
+import { cronLimit, runCronJob } from "@/lib/cronAuth";
+import { runWishlistStockAlerts } from "@/lib/wishlist/stock";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * GET /api/cron/wishlist-stock?limit=200
+ * Header: x-cron-secret: $CRON_SECRET
+ *
+ * Matches wishlists against shop listings and emails owners when a matching
+ * listing goes active/live or comes back in stock.
+ */
+export async function GET(req: Request) {
+  const limit = cronLimit(req, 200);
+  return runCronJob(req, "wishlist-stock", () => runWishlistStockAlerts({ limit }));
+}
@@ -4,7 +4,8 @@ import "server-only";
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { sql } from "drizzle-orm";
-import { getLivePriceForCard, normalizeGame, type GameId } from "@/lib/livePrices";
+import { normalizeGame } from "@/lib/livePrices";
+import { getValuation } from "@/lib/valuations/engine";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -28,6 +29,10 @@ type ItemRow = {
   user_id: string;
   game: string; // raw stored game
   card_id: string;
+  variant_type: string | null;
+  condition: string | null;
+  grading_company: string | null;
+  grade_label: string | null;
   quantity: number | null;
   cost_cents: number | null; // per-copy cost basis
 };
@@ -55,6 +60,10 @@ export async function POST() {
       user_id,
       game,
       card_id,
+      variant_type,
+      condition,
+      grading_company,
+      grade_label,
       quantity,
       cost_cents
     FROM user_collection_items
@@ -93,13 +102,20 @@ export async function POST() {
         continue;
       }
 
-      const livePrice = await getLivePriceForCard(gameNorm as GameId, item.card_id);
-      if (!livePrice) {
+      const valuation = await getValuation({
+        game: gameNorm,
+        cardId: item.card_id,
+        variant: item.variant_type,
+        condition: item.condition,
+        gradingCompany: item.grading_company,
+        gradeLabel: item.grade_label,
+      });
+      if (!valuation) {
         skippedNoPrice++;
         continue;
       }
 
-      const unitPriceCents = Math.round(livePrice.amount * 100); // per copy
+      const unitPriceCents = Math.round(valuation.valueUsd * 100); // per copy
       const totalValueCents = unitPriceCents * qty;
 
       // Update main collection row with *total* value
@@ -112,8 +128,8 @@ export async function POST() {
       `);
 
       // Per-item valuation snapshot
-      const source = (livePrice as any)?.source ?? null;
-      const confidence = (livePrice as any)?.confidence ?? null;
+      const source = valuation.primarySource;
+      const confidence = valuation.confidence.grade;
 
       const metaJson = JSON.stringify({
         unit_price_cents: unitPriceCents,
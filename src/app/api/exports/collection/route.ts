@@ -10,6 +10,12 @@ import { auth } from "@clerk/nextjs/server";
 import { sql } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { getUserPlan } from "@/lib/plans";
+import { valueCollectionRows } from "@/lib/valuations/collection";
+import { normalizeExportFormat } from "@/lib/collections/exportFormats";
+import { buildCollectionExport } from "@/lib/collections/exportItems";
+import { resolveDisplayCurrency } from "@/lib/fx/displayCurrency";
+import { loadFxTable } from "@/lib/fx/rates";
+import { fxDecimal } from "@/lib/fx/table";
 
 // ---------- CSV helpers ----------
 function csvEscape(v: unknown): string {
@@ -55,79 +61,46 @@ export async function GET(req: Request) {
   const url = new URL(req.url);
   const game = asGame(url.searchParams.get("game"));
 
+  // ?format=tcgplayer|moxfield|archidekt|mtgo|ydk|json (default: our CSV below)
+  const format = normalizeExportFormat(url.searchParams.get("format"));
+  if (!format) return NextResponse.json({ error: "Unknown export format." }, { status: 400 });
+
+  if (format !== "csv") {
+    const file = await buildCollectionExport(userId, format, { game });
+    return new NextResponse(file.body, {
+      status: 200,
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+        "Cache-Control": "no-store",
+        "X-Content-Type-Options": "nosniff",
+        "X-Export-Skipped": String(file.skipped),
+      },
+    });
+  }
+
   const rows =
     (
       await db.execute<{
         game: string;
         card_id: string;
-        variant_type: string | null;
+        variant_type: string;
+        condition: string | null;
+        grading_company: string | null;
+        grade_label: string | null;
         quantity: number;
         cost_cents: number | null;
         name: string | null;
         set_name: string | null;
-        current_price_usd: number | null;
-        price_source: string | null;
-        price_updated: string | null;
       }>(sql`
-        WITH items AS (
-          SELECT
-            u.game,
-            u.card_id,
-            COALESCE(NULLIF(u.variant_type,''), 'normal') AS variant_type,
-            COALESCE(u.quantity,0)::int AS quantity,
-            u.cost_cents
-          FROM public.user_collection_items u
-          WHERE u.user_id = ${userId}
-            AND (${game} = 'all' OR u.game = ${game})
-        ),
-
-        pokemon_prices AS (
-          SELECT
-            p.card_id,
-            COALESCE(
-              MAX(CASE WHEN LOWER(p.variant_type) = 'normal' THEN p.market_price::numeric END),
-              MAX(p.market_price::numeric),
-              MAX(p.mid_price::numeric),
-              MAX(p.low_price::numeric),
-              MAX(p.high_price::numeric)
-            )::float8 AS price_usd,
-            MAX(TO_CHAR(p.updated_at::date,'YYYY-MM-DD')) AS updated
-          FROM public.tcg_card_prices_tcgplayer p
-          GROUP BY p.card_id
-        ),
-
-        mtg_prices AS (
-          SELECT
-            c.id::text AS card_id,
-            COALESCE(e.effective_usd, s.usd)::float8 AS price_usd,
-            COALESCE(
-              TO_CHAR(e.effective_updated_at::date,'YYYY-MM-DD'),
-              TO_CHAR(s.updated_at::date,'YYYY-MM-DD')
-            ) AS updated
-          FROM public.scryfall_cards_raw c
-          LEFT JOIN public.mtg_prices_effective e       ON e.scryfall_id = c.id
-          LEFT JOIN public.mtg_prices_scryfall_latest s ON s.scryfall_id = c.id
-        ),
-
-        ygo_prices AS (
-          SELECT
-            p.card_id::text AS card_id,
-            COALESCE(
-              NULLIF(p.tcgplayer_price,0),
-              NULLIF(p.ebay_price,0),
-              NULLIF(p.amazon_price,0),
-              NULLIF(p.coolstuffinc_price,0),
-              NULLIF(p.cardmarket_price,0)
-            )::float8 AS price_usd,
-            NULL::text AS updated
-          FROM public.ygo_card_prices p
-        )
-
         SELECT
           i.game,
           i.card_id,
-          i.variant_type,
-          i.quantity,
+          COALESCE(NULLIF(i.variant_type,''), 'normal') AS variant_type,
+          i.condition,
+          i.grading_company,
+          i.grade_label,
+          COALESCE(i.quantity,0)::int AS quantity,
           i.cost_cents,
 
           CASE
@@ -147,51 +120,53 @@ export async function GET(req: Request) {
               LIMIT 1
             )
             ELSE NULL
-          END AS set_name,
-
-          CASE
-            WHEN i.game = 'pokemon' THEN (SELECT pp.price_usd FROM pokemon_prices pp WHERE pp.card_id = i.card_id LIMIT 1)
-            WHEN i.game = 'mtg' THEN (SELECT mp.price_usd FROM mtg_prices mp WHERE mp.card_id = i.card_id LIMIT 1)
-            WHEN i.game = 'yugioh' THEN (SELECT yp.price_usd FROM ygo_prices yp WHERE yp.card_id = i.card_id LIMIT 1)
-            ELSE NULL
-          END AS current_price_usd,
-
-          CASE
-            WHEN i.game = 'pokemon' THEN 'tcgplayer'
-            WHEN i.game = 'mtg' THEN 'scryfall/effective'
-            WHEN i.game = 'yugioh' THEN 'ygo_sources'
-            ELSE NULL
-          END AS price_source,
+          END AS set_name
 
-          CASE
-            WHEN i.game = 'pokemon' THEN (SELECT pp.updated FROM pokemon_prices pp WHERE pp.card_id = i.card_id LIMIT 1)
-            WHEN i.game = 'mtg' THEN (SELECT mp.updated FROM mtg_prices mp WHERE mp.card_id = i.card_id LIMIT 1)
-            ELSE NULL
-          END AS price_updated
-
-        FROM items i
+        FROM public.user_collection_items i
+        WHERE i.user_id = ${userId}
+          AND (${game} = 'all' OR i.game = ${game})
         ORDER BY i.game, name NULLS LAST, i.card_id
       `)
     ).rows ?? [];
 
-  const out = rows.map((r) => {
+  // prices come from the valuation engine, per printing / condition / grade
+  const priced = await valueCollectionRows(rows);
+
+  // ?currency= (default: the user's display currency); each price is
+  // converted at the rate on the date it was quoted
+  const [fx, currency] = await Promise.all([
+    loadFxTable(),
+    resolveDisplayCurrency(userId, url.searchParams.get("currency")),
+  ]);
+
+  const out = priced.map((r) => {
     const costUsd = centsToUsd(r.cost_cents);
-    const current = n2(r.current_price_usd);
+    const current = r.valuation?.valueUsd ?? null;
     const qty = n2(r.quantity) ?? 0;
     const currentValue = current != null ? current * qty : null;
+    const on = r.valuation?.asOf ?? null;
+    const usdPerUnit = fx.rate(currency, on);
+    const local = (usd: number | null) => (usd != null && usdPerUnit != null ? fxDecimal(usd / usdPerUnit, currency) : "");
 
     return {
       game: r.game,
       card_id: r.card_id,
       name: r.name ?? "",
       set_name: r.set_name ?? "",
-      variant_type: r.variant_type ?? "normal",
+      variant_type: r.variant_type,
+      condition: r.condition ?? "",
+      grade: [r.grading_company, r.grade_label].filter(Boolean).join(" "),
       quantity: r.quantity,
       cost_usd: costUsd != null ? costUsd.toFixed(2) : "",
       current_price_usd: current != null ? current.toFixed(2) : "",
       current_value_usd: currentValue != null ? currentValue.toFixed(2) : "",
-      price_source: r.price_source ?? "",
-      price_updated: r.price_updated ?? "",
+      price_source: r.valuation?.primarySource ?? "",
+      price_confidence: r.valuation?.confidence.grade ?? "",
+      price_updated: r.valuation?.asOf?.slice(0, 10) ?? "",
+      currency,
+      fx_rate: usdPerUnit != null ? (1 / usdPerUnit).toFixed(6) : "",
+      current_price: local(current),
+      current_value: local(currentValue),
     };
   });
 
@@ -201,12 +176,19 @@ export async function GET(req: Request) {
     "name",
     "set_name",
     "variant_type",
+    "condition",
+    "grade",
     "quantity",
     "cost_usd",
     "current_price_usd",
     "current_value_usd",
     "price_source",
+    "price_confidence",
     "price_updated",
+    "currency",
+    "fx_rate",
+    "current_price",
+    "current_value",
   ];
 
   const csv = toCsv(out, header);
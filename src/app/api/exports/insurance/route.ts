@@ -6,6 +6,10 @@ import { auth } from "@clerk/nextjs/server";
 import { sql } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { getUserPlan } from "@/lib/plans";
+import { valueCollectionRows } from "@/lib/valuations/collection";
+import { resolveDisplayCurrency } from "@/lib/fx/displayCurrency";
+import { loadFxTable } from "@/lib/fx/rates";
+import { fxDecimal } from "@/lib/fx/table";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -35,10 +39,11 @@ type ExportRow = {
   game: string;
   card_id: string;
   name: string | null;
-  variant_type: string | null;
+  variant_type: string;
+  condition: string | null;
+  grading_company: string | null;
+  grade_label: string | null;
   quantity: number;
-  current_price_usd: number | null;
-  current_value_usd: number | null;
 };
 
 export async function GET(req: Request) {
@@ -67,6 +72,9 @@ export async function GET(req: Request) {
           u.game::text AS game,
           u.card_id::text AS card_id,
           COALESCE(NULLIF(u.variant_type,''), 'normal')::text AS variant_type,
+          u.condition,
+          u.grading_company,
+          u.grade_label,
           COALESCE(u.quantity,0)::int AS quantity
         FROM public.user_collection_items u
         WHERE u.user_id = ${userId}
@@ -84,86 +92,65 @@ export async function GET(req: Request) {
         -- Yu-Gi-Oh!
         SELECT 'yugioh'::text AS game, c.card_id::text AS card_id, c.name::text AS name
         FROM public.ygo_cards c
-      ),
-
-      prices AS (
-        -- Pokémon: best representative tcgplayer price for card_id (USD)
-        SELECT
-          'pokemon'::text AS game,
-          p.card_id::text AS card_id,
-          COALESCE(
-            MAX(CASE WHEN LOWER(p.variant_type) = 'normal' THEN p.market_price::numeric END),
-            MAX(p.market_price::numeric),
-            MAX(p.mid_price::numeric),
-            MAX(p.low_price::numeric),
-            MAX(p.high_price::numeric)
-          )::float8 AS price_usd
-        FROM public.tcg_card_prices_tcgplayer p
-        GROUP BY p.card_id
-
-        UNION ALL
-
-        -- MTG: effective USD if present else scryfall latest usd
-        SELECT
-          'mtg'::text AS game,
-          c.id::text AS card_id,
-          COALESCE(e.effective_usd, s.usd)::float8 AS price_usd
-        FROM public.scryfall_cards_raw c
-        LEFT JOIN public.mtg_prices_effective e       ON e.scryfall_id = c.id
-        LEFT JOIN public.mtg_prices_scryfall_latest s ON s.scryfall_id = c.id
-
-        UNION ALL
-
-        -- YGO: best available USD-ish price
-        SELECT
-          'yugioh'::text AS game,
-          p.card_id::text AS card_id,
-          COALESCE(
-            NULLIF(p.tcgplayer_price,0),
-            NULLIF(p.ebay_price,0),
-            NULLIF(p.amazon_price,0),
-            NULLIF(p.coolstuffinc_price,0),
-            NULLIF(p.cardmarket_price,0)
-          )::float8 AS price_usd
-        FROM public.ygo_card_prices p
       )
 
-      SELECT
-        i.game,
-        i.card_id,
-        n.name,
-        i.variant_type,
-        i.quantity,
-        pr.price_usd AS current_price_usd,
-        (COALESCE(pr.price_usd, 0) * i.quantity)::float8 AS current_value_usd
+      SELECT i.game, i.card_id, n.name, i.variant_type, i.condition, i.grading_company, i.grade_label, i.quantity
       FROM items i
-      LEFT JOIN names  n  ON n.game = i.game AND n.card_id = i.card_id
-      LEFT JOIN prices pr ON pr.game = i.game AND pr.card_id = i.card_id
-      WHERE (COALESCE(pr.price_usd, 0) * i.quantity) >= ${thresholdUsd}
-      ORDER BY current_value_usd DESC NULLS LAST
+      LEFT JOIN names n ON n.game = i.game AND n.card_id = i.card_id
     `)
     ).rows ?? [];
 
-  const out = rows.map((r) => ({
-    game: r.game,
-    card_id: r.card_id,
-    name: r.name ?? "",
-    variant_type: r.variant_type ?? "normal",
-    quantity: r.quantity,
-    current_price_usd: r.current_price_usd != null ? r.current_price_usd.toFixed(2) : "",
-    line_value_usd: r.current_value_usd != null ? r.current_value_usd.toFixed(2) : "",
-    threshold_usd: thresholdUsd.toFixed(2),
-  }));
+  // values again in ?currency= (default: the user's display currency),
+  // at the rate on each price's date
+  const [fx, currency] = await Promise.all([
+    loadFxTable(),
+    resolveDisplayCurrency(userId, url.searchParams.get("currency")),
+  ]);
+  const local = (usd: number | null, on: string | null) => {
+    const v = usd != null ? fx.fromUsd(usd, currency, on) : null;
+    return v != null ? fxDecimal(v, currency) : "";
+  };
+
+  // slabs at their grade, raw copies at their printing and condition
+  const out = (await valueCollectionRows(rows))
+    .map((r) => {
+      const each = r.valuation?.valueUsd ?? null;
+      return { ...r, each, line: (each ?? 0) * r.quantity };
+    })
+    .filter((r) => r.line >= thresholdUsd)
+    .sort((a, b) => b.line - a.line)
+    .map((r) => ({
+      game: r.game,
+      card_id: r.card_id,
+      name: r.name ?? "",
+      variant_type: r.variant_type,
+      condition: r.condition ?? "",
+      grade: [r.grading_company, r.grade_label].filter(Boolean).join(" "),
+      quantity: r.quantity,
+      current_price_usd: r.each != null ? r.each.toFixed(2) : "",
+      line_value_usd: r.line.toFixed(2),
+      confidence: r.valuation?.confidence.grade ?? "",
+      threshold_usd: thresholdUsd.toFixed(2),
+      currency,
+      current_price: local(r.each, r.valuation?.asOf ?? null),
+      line_value: local(r.line, r.valuation?.asOf ?? null),
+    }));
 
   const header = [
     "game",
     "card_id",
     "name",
     "variant_type",
+    "condition",
+    "grade",
     "quantity",
     "current_price_usd",
     "line_value_usd",
+    "confidence",
     "threshold_usd",
+    "currency",
+    "current_price",
+    "line_value",
   ];
 
   const csv = toCsv(out, header);
@@ -0,0 +1,48 @@
+// src/app/api/notifications/[id]/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { NotificationError } from "@/lib/notifications/policy";
+import { countUnreadNotifications, updateNotification } from "@/lib/notifications/inbox";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Ctx = { params: Promise<{ id: string }> };
+
+/** PATCH /api/notifications/:id { read?: boolean, archived?: boolean } -> { ok, notification, unread } */
+export async function PATCH(req: Request, ctx: Ctx) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await ctx.params;
+  if (!UUID_RE.test(id)) {
+    return NextResponse.json({ ok: false, error: "bad_request", message: "Invalid id" }, { status: 400 });
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+
+  const patch: { read?: boolean; archived?: boolean } = {};
+  if (typeof body.read === "boolean") patch.read = body.read;
+  if (typeof body.archived === "boolean") patch.archived = body.archived;
+
+  try {
+    const notification = await updateNotification(userId, id, patch);
+    const unread = await countUnreadNotifications(userId);
+    return NextResponse.json({ ok: true, notification, unread }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    if (err instanceof NotificationError) {
+      return NextResponse.json({ ok: false, error: err.code, message: err.message }, { status: err.status });
+    }
+    console.error("[notifications] update failed", err);
+    return NextResponse.json(
+      { ok: false, error: "server_error", message: "Could not update the notification." },
+      { status: 500 },
+    );
+  }
+}
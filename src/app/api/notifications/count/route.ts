@@ -0,0 +1,19 @@
+// src/app/api/notifications/count/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { countUnreadNotifications } from "@/lib/notifications/inbox";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/** GET /api/notifications/count -> { count } (0 when signed out; polled by the header) */
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ count: 0 });
+
+  const count = await countUnreadNotifications(userId);
+  return NextResponse.json({ count }, { headers: { "Cache-Control": "no-store" } });
+}
@@ -0,0 +1,53 @@
+// src/app/api/notifications/preferences/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { NotificationError } from "@/lib/notifications/policy";
+import { getNotificationSettings, updateNotificationSettings } from "@/lib/notifications/notifications";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/** GET /api/notifications/preferences -> { ok, settings } */
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const settings = await getNotificationSettings(userId);
+  return NextResponse.json({ ok: true, settings }, { headers: { "Cache-Control": "no-store" } });
+}
+
+/**
+ * PUT /api/notifications/preferences
+ *   {
+ *     emailEnabled?, inAppEnabled?, discordEnabled?, discordWebhookUrl?,
+ *     webhookEnabled?, webhookUrl?, rotateWebhookSecret?,
+ *     digest?: "instant" | "daily" | "weekly",
+ *     quietStart?: 0-23 | null, quietEnd?: 0-23 | null, timezone?,
+ *     cooldownHours?
+ *   }
+ * Only the keys sent are changed. -> { ok, settings }
+ */
+export async function PUT(req: Request) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+
+  try {
+    const settings = await updateNotificationSettings(userId, body);
+    return NextResponse.json({ ok: true, settings }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    if (err instanceof NotificationError) {
+      return NextResponse.json({ ok: false, error: err.code, message: err.message }, { status: err.status });
+    }
+    console.error("[notifications/preferences] failed", err);
+    return NextResponse.json(
+      { ok: false, error: "server_error", message: "Could not save your notification settings." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,29 @@
+// src/app/api/notifications/read/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { markNotificationsRead } from "@/lib/notifications/inbox";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** POST /api/notifications/read { ids: string[] } | { all: true } -> { ok, unread } */
+export async function POST(req: Request) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+
+  const ids = Array.isArray(body.ids) ? body.ids.map(String).filter((id: string) => UUID_RE.test(id)) : [];
+  if (body.all !== true && !ids.length) {
+    return NextResponse.json({ ok: false, error: "bad_request", message: "Send ids or all: true." }, { status: 400 });
+  }
+
+  const unread = await markNotificationsRead(userId, body.all === true ? "all" : ids.slice(0, 200));
+  return NextResponse.json({ ok: true, unread }, { headers: { "Cache-Control": "no-store" } });
+}
@@ -0,0 +1,27 @@
+// src/app/api/notifications/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { listNotifications } from "@/lib/notifications/inbox";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * GET /api/notifications?archived=1&before=<createdAt>&limit=30
+ *   -> { ok, notifications, unread, nextBefore }
+ */
+export async function GET(req: Request) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const url = new URL(req.url);
+  const page = await listNotifications(userId, {
+    archived: url.searchParams.get("archived") === "1",
+    before: url.searchParams.get("before"),
+    limit: Number(url.searchParams.get("limit")) || undefined,
+  });
+  return NextResponse.json({ ok: true, ...page }, { headers: { "Cache-Control": "no-store" } });
+}
@@ -0,0 +1,42 @@
+// src/app/api/notifications/test/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { notifyUser } from "@/lib/notifications/notifications";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * POST /api/notifications/test -> { ok, delivered, channels: { email?: "sent" | error, ... } }
+ * Sends a test notification on every enabled channel right away
+ * (ignores quiet hours and digests).
+ */
+export async function POST() {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  try {
+    const { delivered, channels } = await notifyUser(
+      userId,
+      [
+        {
+          kind: "test",
+          title: "Test notification",
+          body: "Your notification channels are set up.",
+          href: "/notifications/settings",
+        },
+      ],
+      { force: true },
+    );
+    return NextResponse.json({ ok: true, delivered, channels }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    console.error("[notifications/test] failed", err);
+    return NextResponse.json(
+      { ok: false, error: "server_error", message: "Could not send a test notification." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,64 @@
+// src/app/api/orders/[orderId]/returns/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createReturnRequest, getReturnableOrder, listOrderReturns } from "@/lib/orders/returns";
+import { ReturnError } from "@/lib/orders/returnsFlow";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Ctx = { params: Promise<{ orderId: string }> };
+
+function fail(err: unknown) {
+  if (err instanceof ReturnError) {
+    return NextResponse.json({ ok: false, error: err.code, message: err.message }, { status: err.status });
+  }
+  console.error("[orders/returns] failed", err);
+  return NextResponse.json({ ok: false, error: "server_error", message: "Could not process the return." }, { status: 500 });
+}
+
+/** GET /api/orders/:orderId/returns -> { ok, order, returns } (your own orders only) */
+export async function GET(_req: Request, ctx: Ctx) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { orderId } = await ctx.params;
+  if (!UUID_RE.test(orderId)) {
+    return NextResponse.json({ ok: false, error: "bad_request", message: "Invalid order id" }, { status: 400 });
+  }
+
+  try {
+    const order = await getReturnableOrder(userId, orderId);
+    return NextResponse.json({ ok: true, order, returns: await listOrderReturns(orderId) });
+  } catch (err) {
+    return fail(err);
+  }
+}
+
+/**
+ * POST /api/orders/:orderId/returns
+ * { reasonCode, note?, items: [{ orderItemId, qty }] } -> { ok, return }
+ */
+export async function POST(req: Request, ctx: Ctx) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { orderId } = await ctx.params;
+  if (!UUID_RE.test(orderId)) {
+    return NextResponse.json({ ok: false, error: "bad_request", message: "Invalid order id" }, { status: 400 });
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+
+  try {
+    return NextResponse.json({ ok: true, return: await createReturnRequest(userId, orderId, body) });
+  } catch (err) {
+    return fail(err);
+  }
+}
@@ -0,0 +1,51 @@
+// src/app/api/preferences/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { FX_CURRENCIES, normalizeFxCurrency } from "@/lib/fx/table";
+import { getDisplayCurrency, setDisplayCurrency } from "@/lib/fx/displayCurrency";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/** GET /api/preferences -> { ok, displayCurrency, currencies } */
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const displayCurrency = await getDisplayCurrency(userId);
+  return NextResponse.json(
+    { ok: true, displayCurrency, currencies: FX_CURRENCIES },
+    { headers: { "Cache-Control": "no-store" } },
+  );
+}
+
+/** PUT /api/preferences { displayCurrency: "USD" | "EUR" | "GBP" | "CAD" | "JPY" | "AUD" } */
+export async function PUT(req: Request) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+
+  const currency = normalizeFxCurrency(body.displayCurrency);
+  if (!currency) {
+    return NextResponse.json(
+      { ok: false, error: "invalid_currency", message: `displayCurrency must be one of ${FX_CURRENCIES.join(", ")}.` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const displayCurrency = await setDisplayCurrency(userId, currency);
+    return NextResponse.json({ ok: true, displayCurrency }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    console.error("[preferences] failed", err);
+    return NextResponse.json(
+      { ok: false, error: "server_error", message: "Could not save your display currency." },
+      { status: 500 },
+    );
+  }
+}
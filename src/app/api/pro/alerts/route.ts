@@ -6,6 +6,8 @@ import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
 import { sql } from "drizzle-orm";
 import { getUserPlan, canSeeTrends } from "@/lib/plans";
+import { AlertRuleError, readAlertRule } from "@/lib/alerts/rules";
+import { NotificationError, readCooldownHours } from "@/lib/notifications/policy";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -13,8 +15,13 @@ export const dynamic = "force-dynamic";
 // Canonical alert payload going forward:
 // - market_item_id is required
 // - game is stored for convenience
-// - rule_type: above | below
-// - threshold: USD numeric
+// - rule_type: above | below | pct_up | pct_down | above_ma | below_ma | spread | all_time_high
+// - threshold: USD numeric (above / below only)
+// - params: { pct?, windowDays?, sources? } for the momentum rules, e.g.
+//     { rule_type: "pct_up", params: { pct: 20, windowDays: 7 } }
+//     { rule_type: "below_ma", params: { windowDays: 30 } }
+//     { rule_type: "spread", params: { pct: 25, sources: ["tcgplayer", "cardmarket"] } }
+// - cooldown_hours: minimum hours between notifications (null = the user's default)
 export async function GET() {
   const { userId } = await auth();
   if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
@@ -30,10 +37,15 @@ export async function GET() {
       a.game,
       a.rule_type,
       a.threshold,
+      a.params,
       a.active,
+      a.is_firing,
+      a.last_price_cents,
       a.created_at,
       a.updated_at,
+      a.last_evaluated_at,
       a.last_triggered_at,
+      a.cooldown_hours,
 
       a.market_item_id,
       mi.display_name,
@@ -65,24 +77,39 @@ export async function POST(req: Request) {
 
   const marketItemId = String(body?.market_item_id ?? "").trim();
   const game = String(body?.game ?? "").trim().toLowerCase();
-  const ruleType = String(body?.rule_type ?? "").trim().toLowerCase();
-  const thresholdNum = Number(body?.threshold);
 
   if (!marketItemId || !["pokemon", "mtg", "yugioh"].includes(game)) {
     return NextResponse.json({ error: "Invalid game or market_item_id" }, { status: 400 });
   }
-  if (!["above", "below"].includes(ruleType) || !Number.isFinite(thresholdNum)) {
-    return NextResponse.json({ error: "Invalid rule_type or threshold" }, { status: 400 });
+
+  let rule;
+  let cooldownHours;
+  try {
+    rule = readAlertRule(body ?? {});
+    cooldownHours = readCooldownHours(body?.cooldown_hours);
+  } catch (err) {
+    if (err instanceof AlertRuleError || err instanceof NotificationError) {
+      return NextResponse.json({ error: err.message, code: err.code }, { status: err.status });
+    }
+    throw err;
   }
 
-  // Prevent duplicates using unique index (user_id, market_item_id, rule_type)
+  // Prevent duplicates using unique index (user_id, market_item_id, rule_type).
+  // Changing a rule re-arms it.
   const inserted = await db.execute(sql`
-    INSERT INTO price_alerts (user_id, game, market_item_id, rule_type, threshold, active)
-    VALUES (${userId}, ${game}, ${marketItemId}::uuid, ${ruleType}, ${thresholdNum}, true)
+    INSERT INTO price_alerts (user_id, game, market_item_id, rule_type, threshold, params, cooldown_hours, active)
+    VALUES (
+      ${userId}, ${game}, ${marketItemId}::uuid, ${rule.ruleType}, ${rule.threshold},
+      ${JSON.stringify(rule.params)}::jsonb, ${cooldownHours}, true
+    )
     ON CONFLICT (user_id, market_item_id, rule_type)
     DO UPDATE SET
       threshold = EXCLUDED.threshold,
+      params = EXCLUDED.params,
+      cooldown_hours = EXCLUDED.cooldown_hours,
       active = true,
+      is_firing = false,
+      last_price_cents = NULL,
       updated_at = now()
     RETURNING id
   `);
@@ -0,0 +1,64 @@
+// src/app/api/pro/collection-alerts/[id]/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { AlertRuleError } from "@/lib/alerts/rules";
+import { deleteCollectionAlert, setCollectionAlertActive } from "@/lib/alerts/collectionAlerts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Ctx = { params: Promise<{ id: string }> };
+
+function errorResponse(err: unknown, what: string) {
+  if (err instanceof AlertRuleError) {
+    return NextResponse.json({ ok: false, error: err.code, message: err.message }, { status: err.status });
+  }
+  console.error(`[pro/collection-alerts] ${what} failed`, err);
+  return NextResponse.json({ ok: false, error: "server_error", message: "Something went wrong." }, { status: 500 });
+}
+
+/** PATCH /api/pro/collection-alerts/:id  { active: boolean } */
+export async function PATCH(req: Request, ctx: Ctx) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await ctx.params;
+  if (!UUID_RE.test(id)) {
+    return NextResponse.json({ ok: false, error: "bad_request", message: "Invalid id" }, { status: 400 });
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body.active !== "boolean") {
+    return NextResponse.json({ ok: false, error: "bad_request", message: "active must be true or false" }, { status: 400 });
+  }
+
+  try {
+    const alert = await setCollectionAlertActive(userId, id, body.active);
+    return NextResponse.json({ ok: true, alert }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    return errorResponse(err, "update");
+  }
+}
+
+/** DELETE /api/pro/collection-alerts/:id */
+export async function DELETE(_req: Request, ctx: Ctx) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await ctx.params;
+  if (!UUID_RE.test(id)) {
+    return NextResponse.json({ ok: false, error: "bad_request", message: "Invalid id" }, { status: 400 });
+  }
+
+  try {
+    await deleteCollectionAlert(userId, id);
+    return NextResponse.json({ ok: true }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    return errorResponse(err, "delete");
+  }
+}
@@ -0,0 +1,60 @@
+// src/app/api/pro/collection-alerts/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserPlan, canUsePriceAlerts } from "@/lib/plans";
+import { AlertRuleError } from "@/lib/alerts/rules";
+import { NotificationError } from "@/lib/notifications/policy";
+import { listAlertScopes, listCollectionAlerts, upsertCollectionAlert } from "@/lib/alerts/collectionAlerts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/** GET /api/pro/collection-alerts -> { ok, alerts, scopes: { folders, games } } */
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const plan = await getUserPlan(userId);
+  if (!canUsePriceAlerts(plan)) return NextResponse.json({ error: "Pro required" }, { status: 402 });
+
+  const [alerts, scopes] = await Promise.all([listCollectionAlerts(userId), listAlertScopes(userId)]);
+  return NextResponse.json({ ok: true, alerts, scopes }, { headers: { "Cache-Control": "no-store" } });
+}
+
+/**
+ * POST /api/pro/collection-alerts
+ *   {
+ *     scope: { kind: "collection" } | { kind: "folder", folder } | { kind: "game", game },
+ *     rule_type: "value_pct_down" | "value_pct_up" | "item_move_usd" | "item_move_pct",
+ *     params: { pct?, amountUsd?, windowDays? },
+ *     cooldown_hours?: number | null   // null = the user's default
+ *   }
+ * Same scope + rule_type updates the existing alert.
+ */
+export async function POST(req: Request) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const plan = await getUserPlan(userId);
+  if (!canUsePriceAlerts(plan)) return NextResponse.json({ error: "Pro required" }, { status: 402 });
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+
+  try {
+    const alert = await upsertCollectionAlert(userId, body);
+    return NextResponse.json({ ok: true, alert }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    if (err instanceof AlertRuleError || err instanceof NotificationError) {
+      return NextResponse.json({ ok: false, error: err.code, message: err.message }, { status: err.status });
+    }
+    console.error("[pro/collection-alerts] create failed", err);
+    return NextResponse.json(
+      { ok: false, error: "server_error", message: "Could not save the alert." },
+      { status: 500 },
+    );
+  }
+}
@@ -4,6 +4,8 @@ import { auth } from "@clerk/nextjs/server";
 import { getUserPlan } from "@/lib/plans";
 import { db } from "@/lib/db";
 import { sql } from "drizzle-orm";
+import { normalizeExportFormat } from "@/lib/collections/exportFormats";
+import { buildCollectionExport } from "@/lib/collections/exportItems";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -26,7 +28,7 @@ function csvEscape(v: unknown) {
   return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
 }
 
-export async function GET() {
+export async function GET(req: Request) {
   const { userId } = await auth();
   if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
@@ -41,6 +43,25 @@ export async function GET() {
     return NextResponse.json({ error: "Pro required" }, { status: 402 });
   }
 
+  // ?format=tcgplayer|moxfield|archidekt|mtgo|ydk|json (default: CSV below)
+  const url = new URL(req.url);
+  const format = normalizeExportFormat(url.searchParams.get("format"));
+  if (!format) return NextResponse.json({ error: "Unknown export format" }, { status: 400 });
+
+  if (format !== "csv") {
+    const file = await buildCollectionExport(userId, format, {
+      game: (url.searchParams.get("game") ?? "").trim().toLowerCase() || null,
+    });
+    return new NextResponse(file.body, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.filename}"`,
+        "Cache-Control": "no-store",
+        "X-Export-Skipped": String(file.skipped),
+      },
+    });
+  }
+
 
   // Adjust table/columns if your collection table differs.
   const rows = (await db.execute<Row>(sql`
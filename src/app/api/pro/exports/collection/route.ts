@@ -4,7 +4,11 @@ import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
 import { sql } from "drizzle-orm";
-import { getLivePriceForCard, normalizeGame, type LivePrice } from "@/lib/livePrices";
+import { normalizeGame } from "@/lib/livePrices";
+import { valueCollectionRows } from "@/lib/valuations/collection";
+import { resolveDisplayCurrency } from "@/lib/fx/displayCurrency";
+import { loadFxTable } from "@/lib/fx/rates";
+import { fxDecimal } from "@/lib/fx/table";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -15,40 +19,14 @@ function csvEscape(v: unknown) {
   return s;
 }
 
-// ✅ tolerant extractor: works even if LivePrice doesn't expose `price`
-function getUsd(p: LivePrice | null | undefined): number | null {
-  if (!p) return null;
-
-  const anyP = p as any;
-
-  const candidates = [
-    anyP.usd,
-    anyP.priceUsd,
-    anyP.marketUsd,
-    anyP.marketPrice,
-    anyP.price,
-    anyP.value,
-    anyP.amount,
-    anyP.mid,
-  ];
-
-  for (const c of candidates) {
-    const n = typeof c === "string" ? Number(c) : typeof c === "number" ? c : NaN;
-    if (Number.isFinite(n)) return n;
-  }
-
-  // Sometimes it's nested (e.g. { prices: { usd: ... } })
-  const nested = anyP.prices?.usd ?? anyP.prices?.price ?? anyP.market?.usd;
-  const nn = typeof nested === "string" ? Number(nested) : typeof nested === "number" ? nested : NaN;
-  if (Number.isFinite(nn)) return nn;
-
-  return null;
-}
-
 type ItemRow = {
   id: string;
   game: string;
   card_id: string;
+  variant_type: string | null;
+  condition: string | null;
+  grading_company: string | null;
+  grade_label: string | null;
   quantity: number;
   cost_cents: number | null;
   created_at?: string | null;
@@ -67,6 +45,10 @@ export async function GET(req: Request) {
       id,
       game,
       card_id,
+      variant_type,
+      condition,
+      grading_company,
+      grade_label,
       quantity,
       cost_cents,
       created_at
@@ -78,25 +60,38 @@ export async function GET(req: Request) {
 
   const items = (res.rows ?? []) as ItemRow[];
 
-  const priced = await Promise.all(
-    items.map(async (it) => {
-      const g = normalizeGame(it.game);
-      const p = await getLivePriceForCard(g as any, it.card_id);
-      const market = getUsd(p);
-      const marketSource = (p as any)?.source ?? (p as any)?.provider ?? null;
-      return { ...it, market, marketSource };
-    }),
-  );
+  const priced = (await valueCollectionRows(items)).map((it) => ({
+    ...it,
+    market: it.valuation?.valueUsd ?? null,
+    marketSource: it.valuation?.primarySource ?? null,
+    confidence: it.valuation?.confidence.grade ?? null,
+    basis: it.valuation?.basis ?? null,
+    asOf: it.valuation?.asOf ?? null,
+  }));
+
+  // market columns again in ?currency= (default: the user's display
+  // currency), at the rate on each price's date
+  const [fx, currency] = await Promise.all([
+    loadFxTable(),
+    resolveDisplayCurrency(userId, url.searchParams.get("currency")),
+  ]);
 
   const header = [
     "item_id",
     "game",
     "card_id",
+    "condition",
+    "grade",
     "quantity",
     "cost_basis_total_usd",
     "market_price_each_usd",
     "market_value_total_usd",
     "market_source",
+    "market_confidence",
+    "market_basis",
+    "currency",
+    "market_price_each",
+    "market_value_total",
     "created_at",
   ];
 
@@ -107,17 +102,26 @@ export async function GET(req: Request) {
     const costTotalUsd = it.cost_cents != null ? Number(it.cost_cents) / 100 : "";
     const marketEachUsd = it.market != null ? Number(it.market) : "";
     const marketTotalUsd = it.market != null ? Number(it.market) * qty : "";
+    const usdPerUnit = fx.rate(currency, it.asOf);
+    const local = (usd: number | "") => (usd !== "" && usdPerUnit != null ? fxDecimal(usd / usdPerUnit, currency) : "");
 
     lines.push(
       [
         csvEscape(it.id),
         csvEscape(it.game),
         csvEscape(it.card_id),
+        csvEscape(it.condition ?? ""),
+        csvEscape([it.grading_company, it.grade_label].filter(Boolean).join(" ")),
         csvEscape(qty),
         csvEscape(costTotalUsd),
         csvEscape(marketEachUsd),
         csvEscape(marketTotalUsd),
         csvEscape(it.marketSource ?? ""),
+        csvEscape(it.confidence ?? ""),
+        csvEscape(it.basis ?? ""),
+        csvEscape(currency),
+        csvEscape(local(marketEachUsd)),
+        csvEscape(local(marketTotalUsd)),
         csvEscape(it.created_at ?? ""),
       ].join(","),
     );
@@ -4,7 +4,8 @@ import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
 import { sql } from "drizzle-orm";
-import { getLivePriceForCard, normalizeGame, type LivePrice } from "@/lib/livePrices";
+import { normalizeGame } from "@/lib/livePrices";
+import { valueCollectionRows } from "@/lib/valuations/collection";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -15,37 +16,14 @@ function csvEscape(v: unknown) {
   return s;
 }
 
-function getUsd(p: LivePrice | null | undefined): number | null {
-  if (!p) return null;
-  const anyP = p as any;
-
-  const candidates = [
-    anyP.usd,
-    anyP.priceUsd,
-    anyP.marketUsd,
-    anyP.marketPrice,
-    anyP.price,
-    anyP.value,
-    anyP.amount,
-    anyP.mid,
-  ];
-
-  for (const c of candidates) {
-    const n = typeof c === "string" ? Number(c) : typeof c === "number" ? c : NaN;
-    if (Number.isFinite(n)) return n;
-  }
-
-  const nested = anyP.prices?.usd ?? anyP.prices?.price ?? anyP.market?.usd;
-  const nn = typeof nested === "string" ? Number(nested) : typeof nested === "number" ? nested : NaN;
-  if (Number.isFinite(nn)) return nn;
-
-  return null;
-}
-
 type ItemRow = {
   id: string;
   game: string;
   card_id: string;
+  variant_type: string | null;
+  condition: string | null;
+  grading_company: string | null;
+  grade_label: string | null;
   quantity: number;
   cost_cents: number | null;
 };
@@ -60,7 +38,7 @@ export async function GET(req: Request) {
   const gameNormalized = gameParam ? normalizeGame(gameParam) : null;
 
   const res = await db.execute<ItemRow>(sql`
-    SELECT id, game, card_id, quantity, cost_cents
+    SELECT id, game, card_id, variant_type, condition, grading_company, grade_label, quantity, cost_cents
     FROM user_collection_items
     WHERE user_id = ${userId}
     ${gameNormalized ? sql`AND game = ${gameNormalized}` : sql``}
@@ -68,24 +46,20 @@ export async function GET(req: Request) {
 
   const items = (res.rows ?? []) as ItemRow[];
 
-  const priced = await Promise.all(
-    items.map(async (it) => {
-      const g = normalizeGame(it.game);
-      const p = await getLivePriceForCard(g as any, it.card_id);
-      const each = getUsd(p) ?? 0;
-      const qty = Number(it.quantity || 0);
-      const total = each * qty;
-      const costTotal = it.cost_cents != null ? Number(it.cost_cents) / 100 : 0;
-
-      return {
-        ...it,
-        market_each: each,
-        market_total: total,
-        cost_total: costTotal,
-        source: (p as any)?.source ?? (p as any)?.provider ?? "",
-      };
-    }),
-  );
+  const priced = (await valueCollectionRows(items)).map((it) => {
+    const each = it.valuation?.valueUsd ?? 0;
+    const qty = Number(it.quantity || 0);
+    const costTotal = it.cost_cents != null ? Number(it.cost_cents) / 100 : 0;
+
+    return {
+      ...it,
+      market_each: each,
+      market_total: each * qty,
+      cost_total: costTotal,
+      source: it.valuation?.primarySource ?? "",
+      confidence: it.valuation?.confidence.grade ?? "",
+    };
+  });
 
   const filtered = priced
     .filter((x) => x.market_total >= threshold)
@@ -100,6 +74,7 @@ export async function GET(req: Request) {
     "cost_total_usd",
     "unrealized_gain_usd",
     "market_source",
+    "market_confidence",
   ];
 
   const lines = [header.join(",")];
@@ -116,6 +91,7 @@ export async function GET(req: Request) {
         csvEscape(x.cost_total),
         csvEscape(gain),
         csvEscape(x.source),
+        csvEscape(x.confidence),
       ].join(","),
     );
   }
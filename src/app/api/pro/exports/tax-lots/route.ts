@@ -4,7 +4,10 @@ import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
 import { sql } from "drizzle-orm";
-import { getLivePriceForCard, normalizeGame, type LivePrice } from "@/lib/livePrices";
+import { normalizeGame } from "@/lib/livePrices";
+import { valueCollectionRows } from "@/lib/valuations/collection";
+import { getRealizedGainReport } from "@/lib/collections/sales";
+import { holdingTerm } from "@/lib/collections/lots";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -15,42 +18,39 @@ function csvEscape(v: unknown) {
   return s;
 }
 
-function getUsd(p: LivePrice | null | undefined): number | null {
-  if (!p) return null;
-  const anyP = p as any;
-
-  const candidates = [
-    anyP.usd,
-    anyP.priceUsd,
-    anyP.marketUsd,
-    anyP.marketPrice,
-    anyP.price,
-    anyP.value,
-    anyP.amount,
-    anyP.mid,
-  ];
-
-  for (const c of candidates) {
-    const n = typeof c === "string" ? Number(c) : typeof c === "number" ? c : NaN;
-    if (Number.isFinite(n)) return n;
-  }
-
-  const nested = anyP.prices?.usd ?? anyP.prices?.price ?? anyP.market?.usd;
-  const nn = typeof nested === "string" ? Number(nested) : typeof nested === "number" ? nested : NaN;
-  if (Number.isFinite(nn)) return nn;
-
-  return null;
-}
-
 type ItemRow = {
   id: string;
   game: string;
   card_id: string;
+  variant_type: string | null;
+  condition: string | null;
+  grading_company: string | null;
+  grade_label: string | null;
   quantity: number;
   cost_cents: number | null;
-  created_at: string | null;
+  acquired_at: string | null;
 };
 
+function csvResponse(lines: string[], filename: string) {
+  return new NextResponse(lines.join("\n"), {
+    status: 200,
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+const usd = (cents: number) => (cents / 100).toFixed(2);
+
+/**
+ * GET /api/pro/exports/tax-lots
+ *   ?type=unrealized (default) -> open lots vs live market price
+ *   ?type=realized&year=2025   -> matched sale lots, short-term vs long-term
+ *   &game=pokemon|mtg|yugioh
+ *   &format=json               -> realized report totals + rows as JSON
+ */
 export async function GET(req: Request) {
   const { userId } = await auth();
   if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
@@ -59,8 +59,13 @@ export async function GET(req: Request) {
   const gameParam = url.searchParams.get("game");
   const gameNormalized = gameParam ? normalizeGame(gameParam) : null;
 
+  if ((url.searchParams.get("type") ?? "").toLowerCase() === "realized") {
+    return realized(userId, url, gameNormalized);
+  }
+
   const res = await db.execute<ItemRow>(sql`
-    SELECT id, game, card_id, quantity, cost_cents, created_at
+    SELECT id, game, card_id, variant_type, condition, grading_company, grade_label, quantity, cost_cents,
+      COALESCE(purchase_date, created_at::date)::text AS acquired_at
     FROM user_collection_items
     WHERE user_id = ${userId}
     ${gameNormalized ? sql`AND game = ${gameNormalized}` : sql``}
@@ -69,37 +74,35 @@ export async function GET(req: Request) {
 
   const items = (res.rows ?? []) as ItemRow[];
 
-  const enriched = await Promise.all(
-    items.map(async (it) => {
-      const g = normalizeGame(it.game);
-      const p = await getLivePriceForCard(g as any, it.card_id);
-
-      const marketEach = getUsd(p) ?? 0;
-      const source = (p as any)?.source ?? (p as any)?.provider ?? "";
-
-      const qty = Number(it.quantity || 0);
-
-      const costTotal = it.cost_cents != null ? Number(it.cost_cents) / 100 : 0;
-      const costEach = qty > 0 ? costTotal / qty : 0;
-
-      const marketTotal = marketEach * qty;
-      const gainTotal = marketTotal - costTotal;
-
-      const roiPct = costTotal > 0 ? (gainTotal / costTotal) * 100 : null;
-
-      return {
-        ...it,
-        qty,
-        cost_each: costEach,
-        cost_total: costTotal,
-        market_each: marketEach,
-        market_total: marketTotal,
-        gain_total: gainTotal,
-        roi_pct: roiPct,
-        source,
-      };
-    }),
-  );
+  const enriched = (await valueCollectionRows(items)).map((it) => {
+    const marketEach = it.valuation?.valueUsd ?? 0;
+    const source = it.valuation?.primarySource ?? "";
+
+    const qty = Number(it.quantity || 0);
+
+    // cost_cents is the per-copy cost basis
+    const costEach = it.cost_cents != null ? Number(it.cost_cents) / 100 : 0;
+    const costTotal = costEach * qty;
+
+    const marketTotal = marketEach * qty;
+    const gainTotal = marketTotal - costTotal;
+
+    const roiPct = costTotal > 0 ? (gainTotal / costTotal) * 100 : null;
+
+    return {
+      ...it,
+      qty,
+      cost_each: costEach,
+      cost_total: costTotal,
+      market_each: marketEach,
+      market_total: marketTotal,
+      gain_total: gainTotal,
+      roi_pct: roiPct,
+      term: it.acquired_at ? holdingTerm(it.acquired_at, new Date().toISOString().slice(0, 10)) : "",
+      source,
+      confidence: it.valuation?.confidence.grade ?? "",
+    };
+  });
 
   const header = [
     "item_id",
@@ -113,7 +116,9 @@ export async function GET(req: Request) {
     "market_total_usd",
     "unrealized_gain_usd",
     "roi_pct",
+    "term_if_sold_today",
     "market_source",
+    "market_confidence",
   ];
 
   const lines = [header.join(",")];
@@ -125,29 +130,98 @@ export async function GET(req: Request) {
         csvEscape(x.game),
         csvEscape(x.card_id),
         csvEscape(x.qty),
-        csvEscape(x.created_at ?? ""),
+        csvEscape(x.acquired_at ?? ""),
         csvEscape(x.cost_each),
         csvEscape(x.cost_total),
         csvEscape(x.market_each),
         csvEscape(x.market_total),
         csvEscape(x.gain_total),
         csvEscape(x.roi_pct == null ? "" : x.roi_pct),
+        csvEscape(x.term),
         csvEscape(x.source),
+        csvEscape(x.confidence),
       ].join(","),
     );
   }
 
-  const csv = lines.join("\n");
   const filename = gameNormalized
     ? `tax_lots_${gameNormalized}_${new Date().toISOString().slice(0, 10)}.csv`
     : `tax_lots_all_${new Date().toISOString().slice(0, 10)}.csv`;
 
-  return new NextResponse(csv, {
-    status: 200,
-    headers: {
-      "Content-Type": "text/csv; charset=utf-8",
-      "Content-Disposition": `attachment; filename="${filename}"`,
-      "Cache-Control": "no-store",
-    },
-  });
+  return csvResponse(lines, filename);
+}
+
+async function realized(userId: string, url: URL, game: string | null) {
+  const yearRaw = Number(url.searchParams.get("year") ?? "");
+  const year = Number.isInteger(yearRaw) && yearRaw > 1900 ? yearRaw : null;
+
+  const report = await getRealizedGainReport(userId, { year, game });
+
+  if ((url.searchParams.get("format") ?? "").toLowerCase() === "json") {
+    return NextResponse.json({ ok: true, year, ...report }, { headers: { "Cache-Control": "no-store" } });
+  }
+
+  const header = [
+    "term",
+    "sale_id",
+    "kind",
+    "game",
+    "card_id",
+    "card_name",
+    "quantity",
+    "date_acquired",
+    "date_sold",
+    "proceeds_usd",
+    "fees_and_shipping_usd",
+    "cost_basis_usd",
+    "gain_usd",
+    "lot_method",
+    "lot_item_id",
+  ];
+
+  const lines = [header.join(",")];
+
+  for (const r of report.rows) {
+    lines.push(
+      [
+        csvEscape(r.term === "long" ? "long-term" : "short-term"),
+        csvEscape(r.sale_id),
+        csvEscape(r.kind),
+        csvEscape(r.game),
+        csvEscape(r.card_id),
+        csvEscape(r.card_name ?? ""),
+        csvEscape(r.quantity),
+        csvEscape(r.acquired_at),
+        csvEscape(r.sold_at),
+        csvEscape(usd(r.proceeds_cents)),
+        csvEscape(usd(r.expenses_cents)),
+        csvEscape(usd(r.cost_basis_cents)),
+        csvEscape(usd(r.gain_cents)),
+        csvEscape(r.lot_method),
+        csvEscape(r.item_id),
+      ].join(","),
+    );
+  }
+
+  // Totals at the bottom so the file is usable on its own
+  lines.push("");
+  for (const [label, t] of [
+    ["TOTAL short-term", report.shortTerm],
+    ["TOTAL long-term", report.longTerm],
+    ["TOTAL", report.total],
+  ] as const) {
+    lines.push(
+      [
+        csvEscape(label), "", "", "", "", "", "", "", "",
+        csvEscape(usd(t.proceedsCents)),
+        csvEscape(usd(t.expensesCents)),
+        csvEscape(usd(t.costBasisCents)),
+        csvEscape(usd(t.gainCents)),
+        "", "",
+      ].join(","),
+    );
+  }
+
+  const stamp = year ?? new Date().toISOString().slice(0, 10);
+  return csvResponse(lines, `realized_gains_${game ?? "all"}_${stamp}.csv`);
 }
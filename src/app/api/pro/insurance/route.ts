@@ -4,11 +4,10 @@ import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
 import { sql } from "drizzle-orm";
-import {
-  getLivePriceForCard,
-  normalizeGame,
-  type LivePrice,
-} from "@/lib/livePrices";
+import { valueCollectionRows } from "@/lib/valuations/collection";
+import { resolveDisplayCurrency } from "@/lib/fx/displayCurrency";
+import { loadFxTable } from "@/lib/fx/rates";
+import { fxDecimal } from "@/lib/fx/table";
 import { getUserPlan, canSeeInsuranceReports } from "@/lib/plans";
 
 export const runtime = "nodejs";
@@ -18,6 +17,10 @@ type ItemRow = {
   id: string;
   game: string;
   card_id: string;
+  variant_type: string | null;
+  condition: string | null;
+  grading_company: string | null;
+  grade_label: string | null;
   quantity: number;
   cost_cents: number | null;
 };
@@ -28,35 +31,6 @@ function csvEscape(v: unknown) {
   return s;
 }
 
-// tolerant extractor (no `.price` usage)
-function getUsd(p: LivePrice | null | undefined): number | null {
-  if (!p) return null;
-  const anyP = p as any;
-
-  const candidates = [
-    anyP.usd,
-    anyP.priceUsd,
-    anyP.marketUsd,
-    anyP.marketPrice,
-    anyP.price,
-    anyP.value,
-    anyP.amount,
-    anyP.mid,
-  ];
-
-  for (const c of candidates) {
-    const n = typeof c === "string" ? Number(c) : typeof c === "number" ? c : NaN;
-    if (Number.isFinite(n)) return n;
-  }
-
-  const nested = anyP.prices?.usd ?? anyP.prices?.price ?? anyP.market?.usd;
-  const nn =
-    typeof nested === "string" ? Number(nested) : typeof nested === "number" ? nested : NaN;
-  if (Number.isFinite(nn)) return nn;
-
-  return null;
-}
-
 export async function GET(req: Request) {
   const { userId } = await auth();
   if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
@@ -72,34 +46,44 @@ export async function GET(req: Request) {
   const threshold = Math.max(1, Number(url.searchParams.get("threshold") || "250"));
 
   const res = await db.execute<ItemRow>(sql`
-    SELECT id, game, card_id, quantity, cost_cents
+    SELECT id, game, card_id, variant_type, condition, grading_company, grade_label, quantity, cost_cents
     FROM user_collection_items
     WHERE user_id = ${userId}
   `);
 
   const items = (res.rows ?? []) as ItemRow[];
 
-  const priced = await Promise.all(
-    items.map(async (it) => {
-      const g = normalizeGame(it.game);
-      const p = await getLivePriceForCard(g as any, it.card_id);
-
-      const marketEach = getUsd(p) ?? 0;
-      const marketTotal = marketEach * Number(it.quantity || 0);
-
-      const costEach = it.cost_cents != null ? Number(it.cost_cents) / 100 : 0;
-      const costTotal = costEach * Number(it.quantity || 0);
-
-      return {
-        ...it,
-        marketEach,
-        marketTotal,
-        costEach,
-        costTotal,
-        source: (p as any)?.source ?? (p as any)?.provider ?? null,
-      };
-    }),
-  );
+  // USD figures are also given in ?currency= (default: the user's display
+  // currency): market values at the rate on each price's date, cost at
+  // the latest rate. USD when we have no rate for it.
+  const [fx, requested] = await Promise.all([
+    loadFxTable(),
+    resolveDisplayCurrency(userId, url.searchParams.get("currency")),
+  ]);
+  const currency = fx.rate(requested) != null ? requested : "USD";
+  const local = (usd: number, on?: string | null) => fx.fromUsd(usd, currency, on) ?? usd;
+
+  const priced = (await valueCollectionRows(items)).map((it) => {
+    const qty = Number(it.quantity || 0);
+    const marketEach = it.valuation?.valueUsd ?? 0;
+    const costEach = it.cost_cents != null ? Number(it.cost_cents) / 100 : 0;
+    const asOf = it.valuation?.asOf ?? null;
+
+    return {
+      ...it,
+      marketEach,
+      marketTotal: marketEach * qty,
+      // insurers want the replacement range, not just the midpoint
+      marketLowTotal: (it.valuation?.lowUsd ?? 0) * qty,
+      marketHighTotal: (it.valuation?.highUsd ?? 0) * qty,
+      costEach,
+      costTotal: costEach * qty,
+      marketTotalLocal: local(marketEach * qty, asOf),
+      source: it.valuation?.primarySource ?? null,
+      confidence: it.valuation?.confidence.grade ?? null,
+      basis: it.valuation?.basis ?? null,
+    };
+  });
 
   const totalsByGame: Record<
     string,
@@ -107,6 +91,7 @@ export async function GET(req: Request) {
   > = {};
   let totalMarket = 0;
   let totalCost = 0;
+  let totalMarketLocal = 0;
 
   for (const it of priced) {
     const g = it.game;
@@ -118,6 +103,7 @@ export async function GET(req: Request) {
 
     totalMarket += it.marketTotal;
     totalCost += it.costTotal;
+    totalMarketLocal += it.marketTotalLocal;
   }
 
   const highValue = priced
@@ -133,19 +119,47 @@ export async function GET(req: Request) {
       costBasis: totalCost,
       unrealizedGain: totalMarket - totalCost,
     },
+    currency,
+    totalsLocal: {
+      marketValue: totalMarketLocal,
+      costBasis: local(totalCost),
+      unrealizedGain: totalMarketLocal - local(totalCost),
+    },
     byGame: totalsByGame,
     highValueItems: highValue.map((x) => ({
       game: x.game,
       card_id: x.card_id,
+      condition: x.condition,
+      grade: [x.grading_company, x.grade_label].filter(Boolean).join(" ") || null,
       quantity: x.quantity,
       market_each: x.marketEach,
       market_total: x.marketTotal,
+      market_low_total: x.marketLowTotal,
+      market_high_total: x.marketHighTotal,
+      market_total_local: x.marketTotalLocal,
       source: x.source,
+      confidence: x.confidence,
+      basis: x.basis,
     })),
   };
 
   if (format === "csv") {
-    const header = ["game", "card_id", "quantity", "market_each_usd", "market_total_usd", "source"];
+    const header = [
+      "game",
+      "card_id",
+      "condition",
+      "grade",
+      "quantity",
+      "market_each_usd",
+      "market_total_usd",
+      "market_low_total_usd",
+      "market_high_total_usd",
+      "source",
+      "confidence",
+      "basis",
+      "currency",
+      "market_total",
+    ];
     const lines = [header.join(",")];
 
     for (const x of highValue) {
@@ -153,10 +167,18 @@ export async function GET(req: Request) {
         [
           csvEscape(x.game),
           csvEscape(x.card_id),
+          csvEscape(x.condition ?? ""),
+          csvEscape([x.grading_company, x.grade_label].filter(Boolean).join(" ")),
           csvEscape(x.quantity),
           csvEscape(x.marketEach),
           csvEscape(x.marketTotal),
+          csvEscape(x.marketLowTotal),
+          csvEscape(x.marketHighTotal),
           csvEscape(x.source ?? ""),
+          csvEscape(x.confidence ?? ""),
+          csvEscape(x.basis ?? ""),
+          csvEscape(currency),
+          csvEscape(fxDecimal(x.marketTotalLocal, currency)),
         ].join(","),
       );
     }
@@ -4,7 +4,7 @@ import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
 import { sql } from "drizzle-orm";
-import { getLivePriceForCard, normalizeGame, type LivePrice } from "@/lib/livePrices";
+import { valueCollectionRows } from "@/lib/valuations/collection";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -12,43 +12,20 @@ export const dynamic = "force-dynamic";
 type ItemRow = {
   game: string;
   card_id: string;
+  variant_type: string | null;
+  condition: string | null;
+  grading_company: string | null;
+  grade_label: string | null;
   quantity: number;
   cost_cents: number | null;
 };
 
-function getUsd(p: LivePrice | null | undefined): number | null {
-  if (!p) return null;
-  const anyP = p as any;
-
-  const candidates = [
-    anyP.usd,
-    anyP.priceUsd,
-    anyP.marketUsd,
-    anyP.marketPrice,
-    anyP.price,
-    anyP.value,
-    anyP.amount,
-    anyP.mid,
-  ];
-
-  for (const c of candidates) {
-    const n = typeof c === "string" ? Number(c) : typeof c === "number" ? c : NaN;
-    if (Number.isFinite(n)) return n;
-  }
-
-  const nested = anyP.prices?.usd ?? anyP.prices?.price ?? anyP.market?.usd;
-  const nn = typeof nested === "string" ? Number(nested) : typeof nested === "number" ? nested : NaN;
-  if (Number.isFinite(nn)) return nn;
-
-  return null;
-}
-
 export async function GET() {
   const { userId } = await auth();
   if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
   const res = await db.execute<ItemRow>(sql`
-    SELECT game, card_id, quantity, cost_cents
+    SELECT game, card_id, variant_type, condition, grading_company, grade_label, quantity, cost_cents
     FROM user_collection_items
     WHERE user_id = ${userId}
   `);
@@ -61,19 +38,14 @@ export async function GET() {
     );
   }
 
-  const priced = await Promise.all(
-    items.map(async (it) => {
-      const g = normalizeGame(it.game);
-      const p = await getLivePriceForCard(g as any, it.card_id);
+  const priced = (await valueCollectionRows(items)).map((it) => {
+    const each = it.valuation?.valueUsd ?? 0;
+    const qty = Number(it.quantity || 0);
+    const marketTotal = each * qty;
+    const costTotal = it.cost_cents != null ? Number(it.cost_cents) / 100 : 0;
 
-      const each = getUsd(p) ?? 0;
-      const qty = Number(it.quantity || 0);
-      const marketTotal = each * qty;
-      const costTotal = it.cost_cents != null ? Number(it.cost_cents) / 100 : 0;
-
-      return { marketTotal, costTotal };
-    }),
-  );
+    return { marketTotal, costTotal };
+  });
 
   const costBasis = priced.reduce((a, b) => a + b.costTotal, 0);
   const marketValue = priced.reduce((a, b) => a + b.marketTotal, 0);
@@ -0,0 +1,73 @@
+// src/app/api/saved-searches/[id]/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Ctx = { params: Promise<{ id: string }> };
+
+/**
+ * PATCH /api/saved-searches/:id  { name?, notifyEmail?, active? }
+ */
+export async function PATCH(req: Request, ctx: Ctx) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ ok: false, error: "unauthorized", message: "Sign in required" }, { status: 401 });
+  }
+
+  const { id } = await ctx.params;
+  if (!UUID_RE.test(id)) {
+    return NextResponse.json({ ok: false, error: "bad_request", message: "Invalid id" }, { status: 400 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const sets = [];
+  if (typeof body?.name === "string" && body.name.trim()) sets.push(sql`name = ${body.name.trim().slice(0, 120)}`);
+  if (typeof body?.notifyEmail === "boolean") sets.push(sql`notify_email = ${body.notifyEmail}`);
+  if (typeof body?.active === "boolean") sets.push(sql`active = ${body.active}`);
+
+  if (!sets.length) {
+    return NextResponse.json({ ok: false, error: "bad_request", message: "Nothing to update" }, { status: 400 });
+  }
+
+  const res = await db.execute(sql`
+    UPDATE saved_searches
+    SET ${sql.join(sets, sql`, `)}, updated_at = now()
+    WHERE id = ${id}::uuid AND user_id = ${userId}
+    RETURNING id
+  `);
+
+  if (!res.rows?.length) {
+    return NextResponse.json({ ok: false, error: "not_found", message: "Saved search not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true }, { headers: { "Cache-Control": "no-store" } });
+}
+
+export async function DELETE(_req: Request, ctx: Ctx) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ ok: false, error: "unauthorized", message: "Sign in required" }, { status: 401 });
+  }
+
+  const { id } = await ctx.params;
+  if (!UUID_RE.test(id)) {
+    return NextResponse.json({ ok: false, error: "bad_request", message: "Invalid id" }, { status: 400 });
+  }
+
+  // saved_search_matches rows go with it (ON DELETE CASCADE)
+  await db.execute(sql`
+    DELETE FROM saved_searches
+    WHERE id = ${id}::uuid AND user_id = ${userId}
+  `);
+
+  return NextResponse.json({ ok: true }, { headers: { "Cache-Control": "no-store" } });
+}
@@ -0,0 +1,84 @@
+// src/app/api/saved-searches/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { MAX_SAVED_SEARCHES_PER_USER, validateSavedSearchInput } from "@/lib/search/savedSearches";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * GET  /api/saved-searches  -> the signed-in user's saved searches
+ * POST /api/saved-searches  -> save a search
+ *   { kind: "catalog", query: "game:mtg set:mh3 price>20", game?: "mtg", name?, notifyEmail? }
+ *   { kind: "shop", filters: { game, format, q, sealed, graded, grader, gradeMin, ... }, name?, notifyEmail? }
+ */
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ ok: false, error: "unauthorized", message: "Sign in required" }, { status: 401 });
+  }
+
+  const res = await db.execute(sql`
+    SELECT
+      s.id, s.name, s.kind, s.query, s.game, s.filters,
+      s.notify_email AS "notifyEmail",
+      s.active,
+      s.last_checked_at AS "lastCheckedAt",
+      s.last_notified_at AS "lastNotifiedAt",
+      s.created_at AS "createdAt",
+      (SELECT COUNT(*)::int FROM saved_search_matches m WHERE m.saved_search_id = s.id) AS "matchCount"
+    FROM saved_searches s
+    WHERE s.user_id = ${userId}
+    ORDER BY s.created_at DESC
+  `);
+
+  return NextResponse.json({ ok: true, searches: res.rows ?? [] }, { headers: { "Cache-Control": "no-store" } });
+}
+
+export async function POST(req: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ ok: false, error: "unauthorized", message: "Sign in required" }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const v = validateSavedSearchInput(body);
+  if (!v.ok) {
+    return NextResponse.json({ ok: false, error: v.error, message: v.message, errors: v.errors }, { status: 400 });
+  }
+
+  const countRes = await db.execute<{ n: number }>(sql`
+    SELECT COUNT(*)::int AS n FROM saved_searches WHERE user_id = ${userId}
+  `);
+  if ((countRes.rows?.[0]?.n ?? 0) >= MAX_SAVED_SEARCHES_PER_USER) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: "limit_reached",
+        message: `You can save up to ${MAX_SAVED_SEARCHES_PER_USER} searches. Delete one to add another.`,
+      },
+      { status: 409 },
+    );
+  }
+
+  const { name, kind, query, game, filters, notifyEmail } = v.value;
+
+  const inserted = await db.execute<{ id: string }>(sql`
+    INSERT INTO saved_searches (user_id, name, kind, query, game, filters, notify_email)
+    VALUES (
+      ${userId}, ${name}, ${kind}, ${query}, ${game},
+      ${JSON.stringify(filters)}::jsonb, ${notifyEmail}
+    )
+    RETURNING id
+  `);
+
+  return NextResponse.json(
+    { ok: true, id: inserted.rows?.[0]?.id ?? null, name },
+    { headers: { "Cache-Control": "no-store" } },
+  );
+}
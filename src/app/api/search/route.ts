@@ -0,0 +1,44 @@
+// src/app/api/search/route.ts
+import "server-only";
+
+import { NextResponse, type NextRequest } from "next/server";
+import { searchEverything } from "@/lib/search/engine";
+import { normalizeSearchGame } from "@/lib/search/games";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+function toInt(v: unknown, fallback: number, max: number) {
+  const n = Number(String(v ?? ""));
+  if (!Number.isFinite(n)) return fallback;
+  const m = Math.floor(n);
+  if (m < 1) return fallback;
+  return Math.min(m, max);
+}
+
+/**
+ * GET /api/search?q=charizard
+ * Optional:
+ * - game=pokemon|mtg|yugioh|funko|sports|shop (facet slice)
+ * - limit=48 (max 100)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const url = new URL(req.url);
+
+    const q = String(url.searchParams.get("q") ?? "").trim();
+    const game = normalizeSearchGame(url.searchParams.get("game"));
+    const limit = toInt(url.searchParams.get("limit"), 48, 100);
+
+    const result = await searchEverything({ q, game, limit });
+
+    return NextResponse.json({ ok: true, ...result }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    console.error("[/api/search] error:", e);
+    return NextResponse.json(
+      { ok: false, error: "search_failed", message: e?.message || String(e) },
+      { status: 500 },
+    );
+  }
+}
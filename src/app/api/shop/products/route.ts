@@ -4,6 +4,7 @@ import "server-only";
 import { NextResponse, type NextRequest } from "next/server";
 import { sql } from "drizzle-orm";
 import { db } from "@/lib/db";
+import { SHOP_FILTER_GAMES, readShopFilters, shopFilterWhere } from "@/lib/shop/filters";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -21,56 +22,6 @@ function toInt(v: unknown, fallback: number, max = 200) {
   return Math.min(m, max);
 }
 
-function toBool(v: unknown): boolean | null {
-  const s = String(v ?? "").trim().toLowerCase();
-  if (!s) return null;
-  if (s === "true" || s === "1" || s === "yes") return true;
-  if (s === "false" || s === "0" || s === "no") return false;
-  return null;
-}
-
-/** -------------------------
- *  Canonical allow-lists
- *  ------------------------- */
-
-// "collectibles" is a SPECIAL BUCKET, not a true "game equals collectibles" filter.
-const ALLOWED_GAMES = ["pokemon", "yugioh", "mtg", "sports", "funko", "collectibles"] as const;
-
-type AllowedGame = (typeof ALLOWED_GAMES)[number];
-
-const ALLOWED_GAMES_SET = new Set<AllowedGame>(ALLOWED_GAMES);
-
-function isAllowedGame(v: string): v is AllowedGame {
-  return ALLOWED_GAMES_SET.has(v as AllowedGame);
-}
-
-// normalize plural slugs -> enum values
-function normFormat(v: string) {
-  const s = (v || "").trim().toLowerCase();
-  if (!s) return "";
-  if (s === "singles") return "single";
-  if (s === "packs") return "pack";
-  if (s === "boxes") return "box";
-  if (s === "bundles") return "bundle";
-  if (s === "lots") return "lot";
-  if (s === "accessories") return "accessory";
-  return s;
-}
-
-function normGame(v: string) {
-  const s = (v || "").trim().toLowerCase();
-  if (!s) return "";
-
-  if (s === "ygo" || s === "yu-gi-oh" || s === "yu-gi-oh!") return "yugioh";
-  if (s === "magic") return "mtg";
-
-  // Treat these as the SPECIAL BUCKET
-  if (s === "collectible") return "collectibles";
-  if (s === "figures" || s === "figure") return "collectibles";
-
-  return s;
-}
-
 // "13/98" -> 13
 const leadingInt = (expr: any) =>
   sql`nullif(regexp_replace(coalesce(${expr}::text, ''), '[^0-9].*$', ''), '')::int`;
@@ -87,8 +38,8 @@ const UUID_RE =
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
 
-  const gameRaw = normGame(norm(searchParams.get("game")));
-  const format = normFormat(norm(searchParams.get("format")));
+  const { filters, invalidGame } = readShopFilters((k) => searchParams.get(k));
+  const format = filters.format ?? "";
   const sortRaw = norm(searchParams.get("sort")).toLowerCase();
   const sort = sortRaw || "featured";
 
@@ -96,61 +47,17 @@ export async function GET(req: NextRequest) {
   const limit = toInt(searchParams.get("limit"), 24, 96);
   const offset = (page - 1) * limit;
 
-  const q = norm(searchParams.get("q"));
-  const sealed = toBool(searchParams.get("sealed"));
-  const graded = toBool(searchParams.get("graded"));
-  const grader = norm(searchParams.get("grader")).toLowerCase();
-  const condition = norm(searchParams.get("condition")).toLowerCase();
-
-  const priceMin = norm(searchParams.get("priceMin"));
-  const priceMax = norm(searchParams.get("priceMax"));
-
-  const game: AllowedGame | "" = gameRaw ? (isAllowedGame(gameRaw) ? gameRaw : "") : "";
-
-  if (gameRaw && !game) {
+  if (invalidGame) {
     return NextResponse.json(
       {
         error: "bad_request",
-        message: `Invalid game '${gameRaw}'. Allowed: ${ALLOWED_GAMES.join(", ")}.`,
+        message: `Invalid game '${invalidGame}'. Allowed: ${SHOP_FILTER_GAMES.join(", ")}.`,
       },
       { status: 400, headers: { "Cache-Control": "no-store, max-age=0" } },
     );
   }
 
-  const where: any[] = [];
-  where.push(sql`p.status = 'active'`);
-
-  /**
-   * ✅ KEY FIX:
-   * collectibles = bucket = NOT pokemon/yugioh/mtg/funko
-   */
-  if (game === "collectibles") {
-    where.push(
-      sql`p.game not in ('pokemon'::game, 'yugioh'::game, 'mtg'::game, 'funko'::game)`,
-    );
-  } else if (game) {
-    where.push(sql`p.game = ${game}::game`);
-  }
-
-  if (format) where.push(sql`p.format = ${format}::product_format`);
-
-  if (sealed !== null) where.push(sql`p.sealed = ${sealed}`);
-  if (graded !== null) where.push(sql`p.is_graded = ${graded}`);
-
-  if (grader) where.push(sql`lower(p.grader::text) = ${grader}`);
-  if (condition) where.push(sql`lower(p.condition::text) = ${condition}`);
-
-  if (priceMin && !Number.isNaN(Number(priceMin))) where.push(sql`p.price_cents >= ${Number(priceMin)}`);
-  if (priceMax && !Number.isNaN(Number(priceMax))) where.push(sql`p.price_cents <= ${Number(priceMax)}`);
-
-  if (q) {
-    const like = `%${q.replace(/%/g, "\\%").replace(/_/g, "\\_")}%`;
-    where.push(sql`(
-      p.title ILIKE ${like}
-      OR coalesce(p.subtitle,'') ILIKE ${like}
-      OR coalesce(p.sku,'') ILIKE ${like}
-    )`);
-  }
+  const where = shopFilterWhere(filters);
 
   const whereSql = where.length ? sql`where ${sql.join(where, sql` and `)}` : sql``;
 
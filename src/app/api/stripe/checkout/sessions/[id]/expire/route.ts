@@ -3,6 +3,7 @@ import "server-only";
 
 import { NextRequest } from "next/server";
 import Stripe from "stripe";
+import { releaseCheckoutSession } from "@/lib/orders/reservations";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -86,11 +87,34 @@ export async function POST(
     }
 
     // "Expire" strategy:
+    // 0) If the session is still open, expire it and release its stock hold.
     // 1) If there's a payment_intent, cancel it (prevents charge).
     // 2) If session came from a payment_link, deactivate that link (prevents new sessions).
     // 3) If subscription exists, cancel subscription.
     // If none apply, return 400.
 
+    // 0) Expire an open session
+    if (session.status === "open") {
+      try {
+        const expired = await stripe.checkout.sessions.expire(sessionId);
+        const released = await releaseCheckoutSession(sessionId, "released");
+        return json(200, {
+          success: true,
+          id: sessionId,
+          action: "session_expired",
+          object: "checkout.session",
+          status: expired.status ?? null,
+          stockReleased: released,
+        });
+      } catch (err: any) {
+        if (isStripeMissingResource(err)) {
+          return json(404, { error: "Checkout session not found" });
+        }
+        console.error("Stripe expire session error:", err);
+        return json(500, { error: "Failed to expire checkout session" });
+      }
+    }
+
     // 1) Cancel PaymentIntent if present
     if (session.payment_intent) {
       const piId =
@@ -10,6 +10,8 @@ import { getStripe, baseUrlFromReq, parseJson, errorJson } from "../../_shared";
 import { db } from "@/lib/db";
 import { carts, cart_lines } from "@/lib/db/schema/cart";
 import { products } from "@/lib/db/schema/shop";
+import { attachCheckoutSession, releaseReservation, reserveStock } from "@/lib/orders/reservations";
+import { ReservationError } from "@/lib/orders/reservationsFlow";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -159,21 +161,46 @@ export async function POST(req: NextRequest): Promise<Response> {
     // ✅ IMPORTANT: Stripe client must be created at request-time
     const stripe = getStripe();
 
-    const session = await stripe.checkout.sessions.create({
-      mode: "payment",
-      success_url,
-      cancel_url,
-      // NOTE: In Stripe Checkout, currency is typically set via price_data.currency per line item.
-      // Keeping this out avoids compatibility issues. Your line items already include currency.
-      line_items,
-      metadata: {
-        cartId,
-        items_json,
-      },
+    // ✅ Hold the stock until the session is paid or expires
+    const reservation = await reserveStock({
+      cartId,
+      userId: null,
+      lines: snapshot.map((it) => ({ productId: it.productId, qty: it.qty })),
     });
+    for (const oldSessionId of reservation.supersededSessionIds) {
+      await stripe.checkout.sessions.expire(oldSessionId).catch(() => null);
+    }
+
+    let session: Stripe.Checkout.Session;
+    try {
+      session = await stripe.checkout.sessions.create({
+        mode: "payment",
+        success_url,
+        cancel_url,
+        // NOTE: In Stripe Checkout, currency is typically set via price_data.currency per line item.
+        // Keeping this out avoids compatibility issues. Your line items already include currency.
+        line_items,
+        expires_at: reservation.sessionExpiresAt,
+        metadata: {
+          cartId,
+          items_json,
+          reservationId: reservation.reservationId ?? "",
+        },
+      });
+    } catch (err) {
+      if (reservation.reservationId) await releaseReservation(reservation.reservationId);
+      throw err;
+    }
+
+    if (reservation.reservationId) {
+      await attachCheckoutSession(reservation.reservationId, session.id);
+    }
 
     return Response.json(session, { status: 200 });
   } catch (err: any) {
+    if (err instanceof ReservationError) {
+      return Response.json({ error: err.message, code: err.code }, { status: err.status });
+    }
     return errorJson(err, 400);
   }
 }
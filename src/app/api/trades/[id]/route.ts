@@ -0,0 +1,75 @@
+// src/app/api/trades/[id]/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { PlanLimitError } from "@/lib/collections/limits";
+import { TradeError, getTradeOffer, normalizeTradeAction, respondToTrade } from "@/lib/trades/trades";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Ctx = { params: Promise<{ id: string }> };
+
+/** GET /api/trades/:id -> { ok, offer, events } */
+export async function GET(_req: Request, ctx: Ctx) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await ctx.params;
+  const found = UUID_RE.test(id) ? await getTradeOffer(userId, id) : null;
+  if (!found) {
+    return NextResponse.json({ ok: false, error: "not_found", message: "Trade not found." }, { status: 404 });
+  }
+
+  return NextResponse.json({ ok: true, ...found }, { headers: { "Cache-Control": "no-store" } });
+}
+
+/**
+ * POST /api/trades/:id
+ *   { action: "accept" | "decline" }             (recipient)
+ *   { action: "cancel" }                         (proposer)
+ *   { action: "counter", give, get, note? }      (recipient; give = your items, get = theirs)
+ *
+ * Accepting moves both sides' cards between the two collections in one transaction.
+ */
+export async function POST(req: Request, ctx: Ctx) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await ctx.params;
+  if (!UUID_RE.test(id)) {
+    return NextResponse.json({ ok: false, error: "not_found", message: "Trade not found." }, { status: 404 });
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+
+  const action = normalizeTradeAction(body.action);
+  if (!action) {
+    return NextResponse.json(
+      { ok: false, error: "bad_request", message: "action must be accept, decline, cancel or counter." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result = await respondToTrade(userId, id, action, body);
+    return NextResponse.json({ ok: true, ...result }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    if (err instanceof TradeError || err instanceof PlanLimitError) {
+      return NextResponse.json(
+        { ok: false, error: err.code, message: err.message, details: err.details ?? null },
+        { status: err.status },
+      );
+    }
+    console.error(`[trades/${action}] failed`, err);
+    return NextResponse.json(
+      { ok: false, error: "server_error", message: "Could not update the trade." },
+      { status: 500 },
+    );
+  }
+}
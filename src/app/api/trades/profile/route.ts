@@ -0,0 +1,47 @@
+// src/app/api/trades/profile/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { TradeError, getTradeProfile, upsertTradeProfile } from "@/lib/trades/trades";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/** GET /api/trades/profile -> { ok, profile: { handle, openToTrades } | null } */
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const profile = await getTradeProfile(userId);
+  return NextResponse.json({ ok: true, profile }, { headers: { "Cache-Control": "no-store" } });
+}
+
+/**
+ * PUT /api/trades/profile  { handle, openToTrades? }
+ *
+ * Only traders with openToTrades can be found by handle, and only they
+ * show their collection to other traders.
+ */
+export async function PUT(req: Request) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+
+  try {
+    const profile = await upsertTradeProfile(userId, body);
+    return NextResponse.json({ ok: true, profile }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    if (err instanceof TradeError) {
+      return NextResponse.json({ ok: false, error: err.code, message: err.message }, { status: err.status });
+    }
+    console.error("[trades/profile] failed", err);
+    return NextResponse.json(
+      { ok: false, error: "server_error", message: "Could not save your trade profile." },
+      { status: 500 },
+    );
+  }
+}
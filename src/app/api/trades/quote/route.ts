@@ -0,0 +1,45 @@
+// src/app/api/trades/quote/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { TradeError, quoteTrade, validateTradeInput } from "@/lib/trades/trades";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * POST /api/trades/quote
+ *   { recipient: "handle", give: [{ itemId, quantity }], get: [{ itemId, quantity }] }
+ *   -> { ok, recipient: { handle }, items: [{ ..., unitValueCents, valueSource }], score }
+ *
+ * Values both sides at live prices without creating anything.
+ */
+export async function POST(req: Request) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+
+  try {
+    const { recipient, items, score } = await quoteTrade(userId, validateTradeInput(body));
+    return NextResponse.json(
+      { ok: true, recipient: { handle: recipient.handle }, items, score },
+      { headers: { "Cache-Control": "no-store" } },
+    );
+  } catch (err) {
+    if (err instanceof TradeError) {
+      return NextResponse.json(
+        { ok: false, error: err.code, message: err.message, details: err.details ?? null },
+        { status: err.status },
+      );
+    }
+    console.error("[trades/quote] failed", err);
+    return NextResponse.json(
+      { ok: false, error: "server_error", message: "Could not value the trade." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,65 @@
+// src/app/api/trades/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { PlanLimitError } from "@/lib/collections/limits";
+import {
+  TradeError,
+  createTradeOffer,
+  getTradeProfile,
+  listTradeOffers,
+  validateTradeInput,
+} from "@/lib/trades/trades";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * GET /api/trades
+ *   -> { ok, profile, offers: [...] }  (offers sent and received, pending first)
+ */
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const [profile, offers] = await Promise.all([getTradeProfile(userId), listTradeOffers(userId)]);
+  return NextResponse.json({ ok: true, profile, offers }, { headers: { "Cache-Control": "no-store" } });
+}
+
+/**
+ * POST /api/trades
+ *   {
+ *     recipient: "handle",
+ *     give: [{ itemId, quantity }],   // your user_collection_items
+ *     get:  [{ itemId, quantity }],   // theirs
+ *     note?: string
+ *   }
+ *   -> { ok, offerId, score }
+ */
+export async function POST(req: Request) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+
+  try {
+    const input = validateTradeInput(body);
+    const result = await createTradeOffer(userId, input);
+    return NextResponse.json({ ok: true, ...result }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    if (err instanceof TradeError || err instanceof PlanLimitError) {
+      return NextResponse.json(
+        { ok: false, error: err.code, message: err.message, details: err.details ?? null },
+        { status: err.status },
+      );
+    }
+    console.error("[trades] create failed", err);
+    return NextResponse.json(
+      { ok: false, error: "server_error", message: "Could not send the offer." },
+      { status: 500 },
+    );
+  }
+}
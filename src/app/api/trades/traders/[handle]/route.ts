@@ -0,0 +1,38 @@
+// src/app/api/trades/traders/[handle]/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { findTrader, listTradeableItems } from "@/lib/trades/trades";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type Ctx = { params: Promise<{ handle: string }> };
+
+/**
+ * GET /api/trades/traders/:handle
+ *   -> { ok, trader: { handle }, items: [...] }
+ *
+ * 404 unless the trader has opted in to trades.
+ */
+export async function GET(_req: Request, ctx: Ctx) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { handle } = await ctx.params;
+  const trader = await findTrader(decodeURIComponent(handle));
+  if (!trader || trader.userId === userId) {
+    return NextResponse.json(
+      { ok: false, error: "trader_not_found", message: "No open trader with that handle." },
+      { status: 404 },
+    );
+  }
+
+  const items = await listTradeableItems(trader.userId);
+  return NextResponse.json(
+    { ok: true, trader: { handle: trader.handle }, items },
+    { headers: { "Cache-Control": "no-store" } },
+  );
+}
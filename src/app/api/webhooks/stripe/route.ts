@@ -5,6 +5,11 @@ import Stripe from "stripe";
 import { sql } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { logCheckoutEvent } from "@/lib/checkoutAnalytics";
+import { notifyOrderStatus } from "@/lib/notifications/notifications";
+import { recordSale } from "@/lib/inventory/catalog";
+import { orderRef } from "@/lib/orders/fulfillmentFlow";
+import { recordStripeRefund } from "@/lib/orders/refunds";
+import { convertReservation, releaseCheckoutSession } from "@/lib/orders/reservations";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -143,6 +148,31 @@ export async function POST(req: Request) {
       return new NextResponse("ok", { status: 200 });
     }
 
+    // ------------------------------------------------------------
+    // Abandoned checkout: give its held stock back
+    // ------------------------------------------------------------
+    if (event.type === "checkout.session.expired") {
+      const session = event.data.object as Stripe.Checkout.Session;
+      await releaseCheckoutSession(s(session.id), "expired");
+      return new NextResponse("ok", { status: 200 });
+    }
+
+    // ------------------------------------------------------------
+    // Refunds (ours and ones made in the Stripe dashboard): keep
+    // order_refunds, orders.refunded_cents and orders.status in step
+    // ------------------------------------------------------------
+    if (
+      event.type === "refund.created" ||
+      event.type === "refund.updated" ||
+      event.type === "refund.failed" ||
+      event.type === "charge.refund.updated"
+    ) {
+      const refund = event.data.object as Stripe.Refund;
+      const orderId = await recordStripeRefund(refund);
+      if (!orderId) console.warn("[stripe/webhook] refund without a matching order", s(refund.id));
+      return new NextResponse("ok", { status: 200 });
+    }
+
     // ------------------------------------------------------------
     // Existing fulfillment path (unchanged): only finalize on completed
     // ------------------------------------------------------------
@@ -204,7 +234,7 @@ export async function POST(req: Request) {
 
     const productIds = items.map((it) => it.productId).filter(Boolean);
 
-    await db.transaction(async (tx) => {
+    const { orderId, firstDelivery } = await db.transaction(async (tx) => {
       const orderRes = await tx.execute(sql`
         INSERT INTO orders (
           user_id,
@@ -253,7 +283,8 @@ export async function POST(req: Request) {
         ON CONFLICT (stripe_session_id) DO UPDATE
         SET
           stripe_payment_intent_id = EXCLUDED.stripe_payment_intent_id,
-          status = EXCLUDED.status,
+          -- a redelivered event must not undo a later fulfillment or refund
+          status = CASE WHEN orders.status = 'pending' THEN EXCLUDED.status ELSE orders.status END,
           subtotal_cents = EXCLUDED.subtotal_cents,
           tax_cents = EXCLUDED.tax_cents,
           shipping_cents = EXCLUDED.shipping_cents,
@@ -267,11 +298,14 @@ export async function POST(req: Request) {
           shipping_address = COALESCE(EXCLUDED.shipping_address, orders.shipping_address),
           stripe_session_raw = EXCLUDED.stripe_session_raw,
           updated_at = now()
-        RETURNING id
+        RETURNING id, (xmax = 0) AS inserted
       `);
 
       const orderId = (orderRes as any)?.rows?.[0]?.id as string | undefined;
       if (!orderId) throw new Error("Failed to create order");
+      // false on a redelivered event: the first delivery already took the stock
+      // and sent the confirmation
+      const firstDelivery = Boolean((orderRes as any)?.rows?.[0]?.inserted);
 
       const imgRes = await tx.execute(sql`
         WITH first_image AS (
@@ -291,6 +325,11 @@ export async function POST(req: Request) {
 
       await tx.execute(sql`DELETE FROM order_items WHERE order_id = ${orderId}::uuid`);
 
+      // a reserved checkout turns its hold into the sale; older sessions
+      // without one decrement stock from the line items below, once, when
+      // the order is first created
+      const reserved = await convertReservation(tx, stripeSessionId, orderId);
+
       for (const it of items) {
         const pid = s(it.productId);
         const qty = Math.max(1, toInt(it.qty, 1));
@@ -321,12 +360,9 @@ export async function POST(req: Request) {
           )
         `);
 
-        await tx.execute(sql`
-          UPDATE products
-          SET quantity = GREATEST(COALESCE(quantity, 0) - ${qty}, 0),
-              updated_at = now()
-          WHERE id = ${pid}::uuid
-        `);
+        if (!reserved && firstDelivery && pid) {
+          await recordSale(tx, { productId: pid, qty, note: `Order ${orderRef(orderId)}: ${title}` });
+        }
       }
 
       if (cartId) {
@@ -337,8 +373,18 @@ export async function POST(req: Request) {
           WHERE id = ${cartId}::uuid
         `);
       }
+
+      return { orderId, firstDelivery };
     });
 
+    if (firstDelivery) {
+      try {
+        await notifyOrderStatus(orderId, "paid");
+      } catch (e) {
+        console.error("[stripe/webhook] order notification failed", e);
+      }
+    }
+
     return new NextResponse("ok", { status: 200 });
   } catch (err: any) {
     console.error("[stripe/webhook] error", err);
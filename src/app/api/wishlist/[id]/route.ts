@@ -0,0 +1,67 @@
+// src/app/api/wishlist/[id]/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { WishlistError, deleteWishlistEntry, updateWishlistEntry } from "@/lib/wishlist/stock";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Ctx = { params: Promise<{ id: string }> };
+
+/**
+ * PATCH /api/wishlist/:id
+ *   {
+ *     wantedCondition?: "nm" | "lp" | "mp" | "hp" | "dmg" | "",   // worst acceptable raw condition
+ *     wantedGrader?: "psa" | "bgs" | "cgc" | "sgc" | "",
+ *     wantedGrade?: 9.5 | "",                                      // minimum grade
+ *     wantedVariant?: "normal" | "holofoil" | "reverse_holofoil" | "first_edition" | "promo" | "",
+ *     targetPriceCents?: number | null,                            // buy-list target for one copy
+ *     priority?: 1 | 2 | 3 | "high" | "medium" | "low",
+ *     notifyInStock?: boolean
+ *   }
+ */
+export async function PATCH(req: Request, ctx: Ctx) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await ctx.params;
+  if (!UUID_RE.test(id)) {
+    return NextResponse.json({ ok: false, error: "bad_request", message: "Invalid id" }, { status: 400 });
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+
+  try {
+    const item = await updateWishlistEntry(userId, id, body);
+    return NextResponse.json({ ok: true, item }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    if (err instanceof WishlistError) {
+      return NextResponse.json({ ok: false, error: err.code, message: err.message }, { status: err.status });
+    }
+    console.error("[wishlist] update failed", err);
+    return NextResponse.json(
+      { ok: false, error: "server_error", message: "Could not update the wishlist item." },
+      { status: 500 },
+    );
+  }
+}
+
+/** DELETE /api/wishlist/:id */
+export async function DELETE(_req: Request, ctx: Ctx) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await ctx.params;
+  if (!UUID_RE.test(id)) {
+    return NextResponse.json({ ok: false, error: "bad_request", message: "Invalid id" }, { status: 400 });
+  }
+
+  await deleteWishlistEntry(userId, id);
+  return NextResponse.json({ ok: true }, { headers: { "Cache-Control": "no-store" } });
+}
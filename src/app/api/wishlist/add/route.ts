@@ -3,6 +3,9 @@ import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
 import { sql } from "drizzle-orm";
+import { WishlistError, readTargetPriceCents } from "@/lib/wishlist/stock";
+import { normalizePriority, normalizeWishlistVariant } from "@/lib/wishlist/buyListPlan";
+import { normalizeCondition } from "@/lib/cards/condition";
 
 export const runtime = "nodejs";
 
@@ -12,8 +15,21 @@ type Body = {
   cardName?: string;
   setName?: string;
   imageUrl?: string;
+  /** per copy; the buy list flags the card once the market is at or below it */
+  targetPriceCents?: number | null;
+  priority?: "high" | "medium" | "low" | 1 | 2 | 3;
+  condition?: string;
+  variant?: string;
 };
 
+/**
+ * POST /api/wishlist/add
+ *   { game, cardId, cardName?, setName?, imageUrl?, targetPriceCents?, priority?, condition?, variant? }
+ *
+ * Adding a card that's already on the wishlist updates whichever plan fields
+ * were sent and leaves the rest alone.
+ */
+
 export async function POST(req: Request) {
   const { userId } = await auth();
 
@@ -42,6 +58,29 @@ export async function POST(req: Request) {
   const setName = body.setName?.trim() || null;
   const imageUrl = body.imageUrl?.trim() || null;
 
+  let targetPriceCents: number | null;
+  try {
+    targetPriceCents = readTargetPriceCents(body.targetPriceCents);
+  } catch (err) {
+    if (err instanceof WishlistError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+  const priority = body.priority == null ? null : normalizePriority(body.priority);
+  const condition = body.condition ? normalizeCondition(body.condition) : null;
+  const variant = body.variant ? normalizeWishlistVariant(body.variant) : null;
+
+  if (body.priority != null && !priority) {
+    return NextResponse.json({ error: "priority must be high, medium or low" }, { status: 400 });
+  }
+  if (body.condition && !condition) {
+    return NextResponse.json({ error: "Unknown condition" }, { status: 400 });
+  }
+  if (body.variant && !variant) {
+    return NextResponse.json({ error: "Unknown variant" }, { status: 400 });
+  }
+
   await db.execute(
     sql`
       INSERT INTO user_wishlist_items (
@@ -50,7 +89,11 @@ export async function POST(req: Request) {
         card_id,
         card_name,
         set_name,
-        image_url
+        image_url,
+        target_price_cents,
+        priority,
+        wanted_condition,
+        wanted_variant
       )
       VALUES (
         ${userId},
@@ -58,9 +101,18 @@ export async function POST(req: Request) {
         ${cardId},
         ${cardName},
         ${setName},
-        ${imageUrl}
+        ${imageUrl},
+        ${targetPriceCents},
+        ${priority ?? 2},
+        ${condition},
+        ${variant}
       )
-      ON CONFLICT (user_id, game, card_id) DO NOTHING
+      ON CONFLICT (user_id, game, card_id) DO UPDATE SET
+        target_price_cents = COALESCE(${targetPriceCents}::int, user_wishlist_items.target_price_cents),
+        priority = COALESCE(${priority}::smallint, user_wishlist_items.priority),
+        wanted_condition = COALESCE(${condition}::text, user_wishlist_items.wanted_condition),
+        wanted_variant = COALESCE(${variant}::text, user_wishlist_items.wanted_variant),
+        updated_at = now()
     `
   );
 
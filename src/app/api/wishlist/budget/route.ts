@@ -0,0 +1,43 @@
+// src/app/api/wishlist/budget/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { WishlistError } from "@/lib/wishlist/stock";
+import { getWishlistBudget, setWishlistBudget } from "@/lib/wishlist/buyList";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/** GET /api/wishlist/budget -> { ok, monthlyBudgetCents: number | null } */
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const monthlyBudgetCents = await getWishlistBudget(userId);
+  return NextResponse.json({ ok: true, monthlyBudgetCents }, { headers: { "Cache-Control": "no-store" } });
+}
+
+/** PUT /api/wishlist/budget { monthlyBudgetCents: number | null }  (null clears it) */
+export async function PUT(req: Request) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json().catch(() => null);
+  if (!body) return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+
+  try {
+    const monthlyBudgetCents = await setWishlistBudget(userId, body.monthlyBudgetCents);
+    return NextResponse.json({ ok: true, monthlyBudgetCents }, { headers: { "Cache-Control": "no-store" } });
+  } catch (err) {
+    if (err instanceof WishlistError) {
+      return NextResponse.json({ ok: false, error: err.code, message: err.message }, { status: err.status });
+    }
+    console.error("[wishlist/budget] failed", err);
+    return NextResponse.json(
+      { ok: false, error: "server_error", message: "Could not save the budget." },
+      { status: 500 },
+    );
+  }
+}
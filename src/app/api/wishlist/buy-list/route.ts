@@ -0,0 +1,25 @@
+// src/app/api/wishlist/buy-list/route.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { buildBuyList } from "@/lib/wishlist/buyList";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/**
+ * GET /api/wishlist/buy-list
+ *   -> { ok, month, rows: [{ ..., marketCents, status, belowTarget, savingsCents }], totals }
+ *
+ * Wishlist priced at live market, ordered by priority and fitted to this
+ * month's budget (minus purchases already logged this month).
+ */
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const buyList = await buildBuyList(userId);
+  return NextResponse.json({ ok: true, ...buyList }, { headers: { "Cache-Control": "no-store" } });
+}
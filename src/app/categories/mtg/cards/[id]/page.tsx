@@ -19,6 +19,7 @@ import CardAmazonCTA from "@/components/CardAmazonCTA";
 import { getAffiliateLinkForCard } from "@/lib/affiliate";
 import CardEbayCTA from "@/components/CardEbayCTA";
 import CardActions from "@/components/collection/CardActions";
+import { GAME_VARIANTS } from "@/lib/valuations/variants";
 
 import PriceAlertBell from "@/components/alerts/PriceAlertBell";
 import { getUserPlan, canUsePriceAlerts } from "@/lib/plans";
@@ -333,6 +334,7 @@ export default async function MtgCardDetailPage({
                 cardName={card.name ?? undefined}
                 imageUrl={hero}
                 canSave={canSave}
+                variants={GAME_VARIANTS.mtg}
               />
 
               {userId ? (
@@ -4,10 +4,12 @@ import "server-only";
 import type { Metadata } from "next";
 import Link from "next/link";
 import Image from "next/image";
-import { sql } from "drizzle-orm";
+import { sql, type SQL } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { unstable_noStore as noStore } from "next/cache";
 import { site } from "@/config/site";
+import { looksLikeCardQuery, parseCardQuery, type CardQueryError } from "@/lib/search/query";
+import { compileCardQuery } from "@/lib/search/compileQuery";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -184,6 +186,8 @@ function safeNum(v?: string | null) {
 /* ---------------- Data ---------------- */
 async function getCards(opts: {
   q: string | null;
+  /** compiled structured query (set:mh3 rarity:mythic ...); replaces the plain q match */
+  structured: SQL | null;
   set: string | null;
   colors: string[];
   types: string[];
@@ -198,7 +202,9 @@ async function getCards(opts: {
 
   let where = sql`TRUE`;
 
-  if (like) {
+  if (opts.structured) {
+    where = sql`${where} AND ${opts.structured}`;
+  } else if (like) {
     where = sql`${where} AND (
       c.name ILIKE ${like}
       OR c.collector_number ILIKE ${like}
@@ -306,15 +312,32 @@ export default async function MtgCardsIndex({
     (RARITY_UI as readonly string[]).includes(r),
   );
 
-  const { rows, total } = await getCards({
-    q,
-    set,
-    colors: selColors,
-    types: selTypes,
-    rarities: selRarities,
-    offset: (reqPage - 1) * perPage,
-    limit: perPage,
-  });
+  // Scryfall-style syntax in the search box (e.g. `set:mh3 rarity:mythic price>20`)
+  let structured: SQL | null = null;
+  let queryErrors: CardQueryError[] = [];
+  if (q && looksLikeCardQuery(q)) {
+    const parsed = parseCardQuery(q);
+    if (!parsed.ok) {
+      queryErrors = parsed.errors;
+    } else {
+      const compiled = compileCardQuery(parsed.query, "mtg");
+      if (compiled.ok) structured = compiled.where;
+      else queryErrors = compiled.errors;
+    }
+  }
+
+  const { rows, total } = queryErrors.length
+    ? { rows: [] as CardThumb[], total: 0 }
+    : await getCards({
+        q,
+        structured,
+        set,
+        colors: selColors,
+        types: selTypes,
+        rarities: selRarities,
+        offset: (reqPage - 1) * perPage,
+        limit: perPage,
+      });
 
   const totalPages = Math.max(1, Math.ceil(total / perPage));
   const page = Math.max(1, Math.min(totalPages, reqPage));
@@ -412,7 +435,7 @@ export default async function MtgCardsIndex({
             <input
               name="q"
               defaultValue={q ?? ""}
-              placeholder="Search name / number / type…"
+              placeholder='Name, or set:mh3 rarity:mythic price>20 artist:"Rebecca Guay"…'
               className="w-60 md:w-[360px] rounded-lg border border-white/20 bg-white/10 px-3 py-1.5 text-sm text-white placeholder:text-white/60 outline-none focus:ring-2 focus:ring-white/50"
             />
             <input
@@ -437,6 +460,19 @@ export default async function MtgCardsIndex({
               </a>
             ) : null}
           </form>
+
+          {queryErrors.length ? (
+            <div className="mt-3 rounded-lg border border-red-400/40 bg-red-500/10 p-3 text-sm text-red-100">
+              <div className="font-semibold">Couldn’t understand that search</div>
+              <ul className="mt-1 list-disc pl-5">
+                {queryErrors.map((e) => (
+                  <li key={`${e.position}-${e.token}`}>
+                    <code className="text-red-200">{e.token}</code> — {e.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
         </div>
 
         {/* SEO intro */}
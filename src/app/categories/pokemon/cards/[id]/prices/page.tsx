@@ -7,7 +7,8 @@ import { db } from "@/lib/db";
 
 import type { Metadata } from "next";
 import { site } from "@/config/site";
-import { type DisplayCurrency, convert, formatMoney, getFx } from "@/lib/pricing";
+import { type DisplayCurrency, formatMoney } from "@/lib/pricing";
+import { loadFxTable } from "@/lib/fx/rates";
 
 import PriceHistoryChart from "@/components/charts/PriceHistoryChart";
 
@@ -208,23 +209,28 @@ export default async function PokemonCardPricesPage({
   // We store snapshots per currency. For now: use nativeCurrency points.
   const hist = await loadHistory(core.id, nativeCurrency, 180);
 
-  const fx = getFx();
+  const fx = await loadFxTable();
 
-  const points = hist.map((r) => ({
-    as_of_date: r.as_of_date,
-    value: Number(r.market_price_cents || 0) / 100,
-  }));
+  // Converted points use the rate on each snapshot's date; without a rate
+  // for either side we stay in the native currency.
+  const hasFx = display !== "NATIVE" && fx.rate(display) != null && fx.rate(nativeCurrency) != null;
+  const shownCurrency = hasFx ? (display as "USD" | "EUR") : (nativeCurrency as "USD" | "EUR");
+
+  const points = hist.map((r) => {
+    const native = Number(r.market_price_cents || 0) / 100;
+    return {
+      as_of_date: r.as_of_date,
+      value: hasFx ? (fx.convert(native, nativeCurrency, shownCurrency, r.as_of_date) ?? native) : native,
+    };
+  });
 
   const latest = points.length ? points[points.length - 1].value : null;
   const p7 = points.length >= 8 ? points[points.length - 8].value : null;
   const p30 = points.length >= 31 ? points[points.length - 31].value : null;
 
-  // Display conversions for the metric strip (chart stays native)
   function showMoney(v: number | null) {
     if (v == null) return "—";
-    if (display === "NATIVE") return formatMoney(v, nativeCurrency as any);
-    const out = convert(v, nativeCurrency as any, display) ?? v;
-    return formatMoney(out, display);
+    return formatMoney(v, shownCurrency);
   }
 
   // -----------------------
@@ -372,10 +378,9 @@ export default async function PokemonCardPricesPage({
         <div className="mt-3 text-xs text-white/60">
           {display === "NATIVE"
             ? "Native market currency."
-            : `Converted to ${display}${fx.usdToEur || fx.eurToUsd ? "" : " (no FX set; fallback used)"}`}
-
-          <span className="text-white/40"> • </span>
-          Chart is shown in native ({nativeCurrency}) for accuracy.
+            : hasFx
+              ? `Converted to ${display} at each day's rate.`
+              : `No ${display} rate available; shown in native ${nativeCurrency}.`}
         </div>
       </div>
 
@@ -383,7 +388,7 @@ export default async function PokemonCardPricesPage({
       <PriceHistoryChart
         title="Price History (Daily Snapshots)"
         points={points}
-        currency={nativeCurrency}
+        currency={shownCurrency}
       />
 
       {/* Fallback if no data */}
@@ -1,10 +1,258 @@
 import "server-only";
-import { notFound } from "next/navigation";
+
+import type { Metadata } from "next";
+import Link from "next/link";
+import { unstable_noStore as noStore } from "next/cache";
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { site } from "@/config/site";
+import { parseSportsCardId, type SportsCardRef } from "@/lib/search/games";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
-export default function SportsCardDetailPage() {
-  notFound();
+/**
+ * One sports card, from either catalog: sc_cards (player / set / number,
+ * with images from public archives) or SportsCardsPro's scp_cards (product
+ * + set name, with prices). SportsCardsPro ids arrive prefixed, see
+ * @/lib/search/games.
+ */
+
+type SportsCard = {
+  title: string;
+  image: string | null;
+  fields: { label: string; value: string | null }[];
+  sourceUrl: string | null;
+  prices: { key: string; cents: number; currency: string; asOf: string }[];
+};
+
+type ScRow = {
+  id: string;
+  sport: string;
+  year: number | null;
+  set_name: string | null;
+  number: string | null;
+  player: string | null;
+  team: string | null;
+  source: string;
+  source_url: string | null;
+  image_url: string | null;
+};
+
+type ScpRow = {
+  id: string;
+  product_name: string;
+  console_name: string;
+  genre: string | null;
+  release_date: string | null;
+  image_url: string | null;
+};
+
+type ScpPriceRow = {
+  price_key: string;
+  price_cents: number;
+  currency: string;
+  as_of: string;
+};
+
+function priceLabel(key: string) {
+  return key.replace(/[-_]+/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+async function getScCard(id: string): Promise<SportsCard | null> {
+  const res = await db.execute<ScRow>(sql`
+    SELECT
+      c.id, c.sport, c.year, c.set_name, c.number, c.player, c.team, c.source, c.source_url,
+      img.src_url AS image_url
+    FROM public.sc_cards c
+    LEFT JOIN LATERAL (
+      SELECT i.src_url
+      FROM public.sc_images i
+      WHERE i.card_id = c.id
+      ORDER BY i.is_primary DESC, i.created_at ASC
+      LIMIT 1
+    ) img ON TRUE
+    WHERE c.id = ${id}
+    LIMIT 1
+  `);
+  const c = res.rows?.[0];
+  if (!c) return null;
+
+  return {
+    title: [c.year, c.set_name, c.player].filter(Boolean).join(" ") || c.id,
+    image: c.image_url,
+    fields: [
+      { label: "Player", value: c.player },
+      { label: "Sport", value: c.sport },
+      { label: "Year", value: c.year ? String(c.year) : null },
+      { label: "Set", value: c.set_name },
+      { label: "Number", value: c.number ? `#${c.number}` : null },
+      { label: "Team", value: c.team },
+    ],
+    sourceUrl: c.source_url,
+    prices: [],
+  };
+}
+
+async function getScpCard(id: string): Promise<SportsCard | null> {
+  const [cardRes, priceRes] = await Promise.all([
+    db.execute<ScpRow>(sql`
+      SELECT id, product_name, console_name, genre, release_date, image_url
+      FROM public.scp_cards
+      WHERE id = ${id}
+      LIMIT 1
+    `),
+    db.execute<ScpPriceRow>(sql`
+      SELECT price_key, price_cents, currency, as_of
+      FROM public.scp_card_prices
+      WHERE card_id = ${id}
+      ORDER BY price_cents ASC
+    `),
+  ]);
+  const c = cardRes.rows?.[0];
+  if (!c) return null;
+
+  return {
+    title: c.product_name,
+    image: c.image_url,
+    fields: [
+      { label: "Set", value: c.console_name },
+      { label: "Genre", value: c.genre },
+      { label: "Released", value: c.release_date },
+    ],
+    sourceUrl: null,
+    prices: (priceRes.rows ?? []).map((p) => ({
+      key: p.price_key,
+      cents: Number(p.price_cents),
+      currency: p.currency,
+      asOf: p.as_of,
+    })),
+  };
+}
+
+async function getSportsCard(ref: SportsCardRef | null): Promise<SportsCard | null> {
+  noStore();
+  if (!ref) return null;
+  return ref.source === "scp" ? getScpCard(ref.id) : getScCard(ref.id);
+}
+
+function Field({ label, value }: { label: string; value: string | null }) {
+  if (!value) return null;
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/5 p-3">
+      <div className="text-xs uppercase tracking-wide text-white/60">{label}</div>
+      <div className="mt-1 wrap-break-word text-sm font-medium text-white">{value}</div>
+    </div>
+  );
+}
+
+export async function generateMetadata({ params }: { params: Promise<{ id: string }> }): Promise<Metadata> {
+  const p = await params;
+  const raw = decodeURIComponent(String(p?.id ?? "")).trim();
+  const card = await getSportsCard(parseSportsCardId(raw));
+
+  if (!card) {
+    return { title: `Card Not Found | ${site.name}`, robots: { index: false, follow: true } };
+  }
+  return {
+    title: `${card.title} — Sports Cards | ${site.name}`,
+    description: `Sports card details for ${card.title}.`,
+  };
+}
+
+export default async function SportsCardDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const p = await params;
+  const rawId = decodeURIComponent(String(p?.id ?? "")).trim();
+  const card = await getSportsCard(parseSportsCardId(rawId));
+
+  if (!card) {
+    return (
+      <section className="space-y-6">
+        <div className="rounded-2xl border border-white/15 bg-white/5 p-4 backdrop-blur-sm">
+          <h1 className="text-2xl font-bold text-white">Card not found</h1>
+          <p className="mt-2 break-all text-sm text-white/70">
+            Looked up: <code>{rawId}</code>
+          </p>
+          <Link href="/search?game=sports" className="mt-4 inline-block text-sky-300 hover:underline">
+            ← Search sports cards
+          </Link>
+        </div>
+      </section>
+    );
+  }
+
+  return (
+    <section className="space-y-8">
+      <nav className="text-xs text-white/70">
+        <div className="flex flex-wrap items-center gap-2">
+          <Link href="/" className="hover:underline">Home</Link>
+          <span className="text-white/40">/</span>
+          <Link href="/categories" className="hover:underline">Categories</Link>
+          <span className="text-white/40">/</span>
+          <Link href="/search?game=sports" className="hover:underline">Sports</Link>
+          <span className="text-white/40">/</span>
+          <span className="text-white/90">{card.title}</span>
+        </div>
+      </nav>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-12">
+        <div className="lg:col-span-5">
+          <section className="rounded-2xl border border-white/15 bg-white/5 p-4 backdrop-blur-sm">
+            <h2 className="sr-only">Image</h2>
+            <div className="relative mx-auto grid aspect-3/4 w-full max-w-md place-items-center">
+              {card.image ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={card.image} alt={card.title} className="max-h-full max-w-full object-contain" />
+              ) : (
+                <div className="text-white/70">No image</div>
+              )}
+            </div>
+          </section>
+        </div>
+
+        <div className="lg:col-span-7 space-y-4">
+          <section className="rounded-2xl border border-white/15 bg-white/5 p-4 backdrop-blur-sm">
+            <h1 className="text-2xl font-bold text-white">{card.title}</h1>
+
+            <div className="mt-3 grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+              {card.fields.map((f) => (
+                <Field key={f.label} label={f.label} value={f.value} />
+              ))}
+            </div>
+
+            {card.sourceUrl ? (
+              <a
+                href={card.sourceUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mt-4 inline-block text-sm text-sky-300 hover:underline"
+              >
+                View source ↗
+              </a>
+            ) : null}
+          </section>
+
+          {card.prices.length > 0 && (
+            <section className="rounded-2xl border border-white/15 bg-white/5 p-4 backdrop-blur-sm text-white">
+              <h2 className="mb-2 text-lg font-semibold">Prices</h2>
+              <table className="w-full text-sm">
+                <tbody className="divide-y divide-white/10">
+                  {card.prices.map((p) => (
+                    <tr key={p.key}>
+                      <td className="py-1 pr-2 text-white/80">{priceLabel(p.key)}</td>
+                      <td className="py-1 text-right font-medium">
+                        {p.currency} ${(p.cents / 100).toFixed(2)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-2 text-xs text-white/50">SportsCardsPro, as of {card.prices[0].asOf}.</p>
+            </section>
+          )}
+        </div>
+      </div>
+    </section>
+  );
 }
@@ -12,6 +12,7 @@ import { auth } from "@clerk/nextjs/server";
 
 import YgoCardSearch from "@/components/ygo/YgoCardSearch";
 import CardActions from "@/components/collection/CardActions";
+import { GAME_VARIANTS } from "@/lib/valuations/variants";
 
 /* Alerts */
 import PriceAlertBell from "@/components/alerts/PriceAlertBell";
@@ -681,6 +682,7 @@ export default async function YugiohCardDetailPage({
                 cardName={card.name}
                 setName={firstSet ?? undefined}
                 imageUrl={cover ?? undefined}
+                variants={GAME_VARIANTS.yugioh}
               />
 
               {userId ? (
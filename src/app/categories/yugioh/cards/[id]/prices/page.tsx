@@ -11,7 +11,8 @@ import { absUrl } from "@/lib/urls";
 
 import MarketPrices from "@/components/MarketPrices";
 
-import { type DisplayCurrency, convert, formatMoney, getFx } from "@/lib/pricing";
+import { type DisplayCurrency, formatMoney } from "@/lib/pricing";
+import { loadFxTable } from "@/lib/fx/rates";
 
 import {
   centsToUsd,
@@ -322,7 +323,8 @@ export default async function YugiohCardPricesPage({
   /* ------------------------------
      YGO Price History (per source)
   ------------------------------ */
-  const fx = getFx();
+  const fx = await loadFxTable();
+  const hasFx = display === "NATIVE" || fx.rate(display) != null;
   const dayMs = 24 * 3600 * 1000;
 
   // hist is daily, ascending day order
@@ -331,10 +333,11 @@ export default async function YugiohCardPricesPage({
   const h30 = pickAtOrAfter(hist, 30 * dayMs);
 
   // Your YGO history is effectively in USD; we optionally convert to EUR
-  function conv(n: number | null, src: "USD" | "EUR"): number | null {
+  // at the rate on the day the snapshot was taken
+  function conv(n: number | null, src: "USD" | "EUR", on: string | null | undefined): number | null {
     if (n == null) return null;
     if (display === "NATIVE") return n;
-    const out = convert(n, src, display);
+    const out = fx.convert(n, src, display, on);
     return out == null ? n : out;
   }
 
@@ -355,9 +358,9 @@ export default async function YugiohCardPricesPage({
     const v7 = asNum(h7Raw);
     const v30 = asNum(h30Raw);
 
-    const latestConv = conv(latestNum, "USD");
-    const v7Conv = conv(v7, "USD");
-    const v30Conv = conv(v30, "USD");
+    const latestConv = conv(latestNum, "USD", latest?.captured_at);
+    const v7Conv = conv(v7, "USD", h7?.captured_at);
+    const v30Conv = conv(v30, "USD", h30?.captured_at);
 
     metrics.push({
       label,
@@ -397,9 +400,9 @@ export default async function YugiohCardPricesPage({
         )
       : null;
 
-    const effLatestConv = conv(effLatestNum, "USD");
-    const eff7Conv = conv(eff7Num, "USD");
-    const eff30Conv = conv(eff30Num, "USD");
+    const effLatestConv = conv(effLatestNum, "USD", latest.captured_at);
+    const eff7Conv = conv(eff7Num, "USD", h7?.captured_at);
+    const eff30Conv = conv(eff30Num, "USD", h30?.captured_at);
 
     if (effLatestConv != null) {
       metrics.push({
@@ -578,7 +581,7 @@ export default async function YugiohCardPricesPage({
             <div className="text-xs text-white/60">
               {display === "NATIVE"
                 ? "Native market currencies"
-                : `Converted to ${display}${fx.usdToEur || fx.eurToUsd ? "" : " (no FX set; fallback used)"}`}
+                : `Converted to ${display} at each day's rate${hasFx ? "" : " (no FX rate; fallback used)"}`}
             </div>
           </div>
 
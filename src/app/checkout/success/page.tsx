@@ -2,10 +2,12 @@
 import "server-only";
 
 import Link from "next/link";
+import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
 import { orders, orderItems } from "@/lib/db/schema/orders";
 import { eq } from "drizzle-orm";
 import GoogleCustomerReviewsOptIn from "./GoogleCustomerReviewsOptIn";
+import { canRequestReturn } from "@/lib/orders/returnsFlow";
 
 export const dynamic = "force-dynamic";
 
@@ -166,6 +168,11 @@ export default async function CheckoutSuccessPage({ searchParams }: Props) {
   est.setDate(est.getDate() + 7);
   const estimatedDeliveryDate = yyyyMmDd(est);
 
+  // returns are requested by the signed-in owner; guests contact support
+  const { userId } = await auth();
+  const canReturn =
+    !!order.userId && order.userId === userId && canRequestReturn({ status: String(order.status), createdAt: order.createdAt });
+
   const showGcr =
     merchantId > 0 &&
     orderId.length > 0 &&
@@ -263,6 +270,13 @@ export default async function CheckoutSuccessPage({ searchParams }: Props) {
                 </span>
               </div>
 
+              {order.refundedCents > 0 ? (
+                <div className="flex items-center justify-between text-white/70">
+                  <span>Refunded</span>
+                  <span>−{fmtMoney(order.refundedCents, currency)}</span>
+                </div>
+              ) : null}
+
               <div className="pt-3 text-xs text-white/60">
                 Status:{" "}
                 <span className="text-white/80">
@@ -271,6 +285,15 @@ export default async function CheckoutSuccessPage({ searchParams }: Props) {
               </div>
             </div>
 
+            {canReturn ? (
+              <Link
+                href={`/orders/${order.id}/return`}
+                className="mt-4 inline-block text-sm text-white/80 underline underline-offset-2 hover:text-white"
+              >
+                Return items
+              </Link>
+            ) : null}
+
             {/* ✅ Google Customer Reviews Opt-in */}
             {showGcr ? (
               <div className="mt-6">
@@ -4,6 +4,10 @@ import "server-only";
 import Link from "next/link";
 import Image from "next/image";
 import MarketValueInline from "@/components/market/MarketValueInline";
+import RecordSaleButton from "@/components/collection/RecordSaleButton";
+import { formatUsdCents, type FxCurrency, type FxTable } from "@/lib/fx/table";
+import { variantLabel } from "@/lib/valuations/variants";
+import { CARD_CONDITION_LABELS, normalizeCondition } from "@/lib/cards/condition";
 
 export type CollectionItem = {
   id: string;
@@ -13,6 +17,9 @@ export type CollectionItem = {
   set_name: string | null;
   image_url: string | null;
 
+  variant_type: string | null;
+  condition: string | null;
+
   grading_company: string | null;
   grade_label: string | null;
   cert_number: string | null;
@@ -44,10 +51,6 @@ export type MVRow = {
 
 export type MVMap = Map<string, { today: MVRow | null; yesterday: MVRow | null }>;
 
-function moneyFromCents(cents: number | null | undefined) {
-  if (cents == null) return "—";
-  return `$${(cents / 100).toFixed(2)}`;
-}
 
 function gameToCardUrl(game: string, cardId: string) {
   const g = String(game).toLowerCase();
@@ -68,8 +71,11 @@ export default function CollectionTableBody(props: {
   items: CollectionItem[];
   planTier: "free" | "collector" | "pro";
   mvMap: MVMap;
+  fx: FxTable;
+  currency: FxCurrency;
 }) {
-  const { items, planTier, mvMap } = props;
+  const { items, planTier, mvMap, fx, currency } = props;
+  const moneyFromCents = (cents: number | null | undefined) => formatUsdCents(fx, currency, cents);
 
   return (
     <tbody className="divide-y divide-white/10">
@@ -92,6 +98,7 @@ export default function CollectionTableBody(props: {
         const mv = cardKey ? mvMap.get(`${cardKey}||${grade}`) : null;
 
         const href = r.card_id ? gameToCardUrl(r.game ?? "", r.card_id) : null;
+        const condition = normalizeCondition(r.condition);
 
         return (
           <tr key={r.id} className="align-top">
@@ -130,6 +137,16 @@ export default function CollectionTableBody(props: {
                 <div className="text-xs text-white/60">
                   {r.set_name ?? "—"} {r.folder ? <>• {r.folder}</> : null}
                 </div>
+                <div className="flex flex-wrap gap-1 text-[11px]">
+                  <span className="rounded border border-white/15 bg-white/5 px-1.5 py-0.5 text-white/80">
+                    {variantLabel(r.variant_type)}
+                  </span>
+                  {condition ? (
+                    <span className="rounded border border-white/15 bg-white/5 px-1.5 py-0.5 text-white/70">
+                      {CARD_CONDITION_LABELS[condition]}
+                    </span>
+                  ) : null}
+                </div>
               </div>
             </td>
 
@@ -174,6 +191,7 @@ export default function CollectionTableBody(props: {
                   plan={planTier}
                   today={mv.today}
                   yesterday={mv.yesterday ?? null}
+                  formatUsd={(usd) => formatUsdCents(fx, currency, Math.round(usd * 100), mv.today?.as_of_date)}
                 />
               ) : (
                 <div className="mt-2 text-xs text-white/50">Market: —</div>
@@ -193,6 +211,11 @@ export default function CollectionTableBody(props: {
               ) : (
                 <span className="text-xs text-white/50">—</span>
               )}
+              {r.card_id && r.game && qty > 0 ? (
+                <div className="mt-1">
+                  <RecordSaleButton itemId={r.id} game={r.game} cardId={r.card_id} maxQuantity={qty} />
+                </div>
+              ) : null}
             </td>
           </tr>
         );
@@ -3,6 +3,11 @@
 import { FormEvent, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import {
+  CARD_CONDITIONS,
+  CARD_CONDITION_LABELS,
+  type CardCondition,
+} from "@/lib/cards/condition";
 
 
 type InitialCard = {
@@ -43,6 +48,7 @@ export default function AddCollectionForm({ initial }: Props) {
   const [gradeLabel, setGradeLabel] = useState<string>(
     GRADE_OPTIONS.UNGR[0]
   );
+  const [condition, setCondition] = useState<CardCondition>("nm");
   const [quantity, setQuantity] = useState<number>(1);
   const [folder, setFolder] = useState<string>("");
   const [cost, setCost] = useState<string>("");
@@ -75,6 +81,7 @@ export default function AddCollectionForm({ initial }: Props) {
           imageUrl: initial.imageUrl || undefined,
           grading_company: gradingCompany,
           grade_label: gradeLabel,
+          condition: gradingCompany === "UNGR" ? condition : null,
           quantity,
           folder: folder || null,
           cost_cents: costCents,
@@ -151,6 +158,26 @@ export default function AddCollectionForm({ initial }: Props) {
       </div>
     </div>
 
+    {/* Condition (raw copies; slabs are valued by grade) */}
+    {gradingCompany === "UNGR" ? (
+      <div className="space-y-1">
+        <label className="text-xs uppercase tracking-wide text-white/60">
+          Condition
+        </label>
+        <select
+          value={condition}
+          onChange={(e) => setCondition(e.target.value as CardCondition)}
+          className="w-full rounded-md bg-white px-3 py-2 text-sm text-neutral-900"
+        >
+          {CARD_CONDITIONS.map((c) => (
+            <option key={c} value={c} className="text-neutral-900">
+              {CARD_CONDITION_LABELS[c]}
+            </option>
+          ))}
+        </select>
+      </div>
+    ) : null}
+
     {/* Quantity + Folder */}
     <div className="grid gap-3 sm:grid-cols-2">
       <div className="space-y-1">
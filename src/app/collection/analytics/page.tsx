@@ -12,16 +12,30 @@ import {
   canSeeInsuranceReports,
   canSeeTrends,
   canUseAdvancedLtvTools,
+  canSeePortfolioPerformance,
 } from "@/lib/plans";
 import CardSparkline from "@/components/collection/CardSparkline";
 import MoversInlinePanel from "@/components/collection/MoversInlinePanel";
 import InsuranceInlinePanel from "@/components/collection/InsuranceInlinePanel";
+import DisplayCurrencySelect from "@/components/collection/DisplayCurrencySelect";
+import PortfolioPerformancePanel from "@/components/collection/PortfolioPerformancePanel";
+import { getDisplayCurrency } from "@/lib/fx/displayCurrency";
+import { loadFxTable } from "@/lib/fx/rates";
+import { formatFx } from "@/lib/fx/table";
+import { getPortfolioPerformance } from "@/lib/portfolio/analytics";
+import { DEFAULT_BENCHMARK, parseBenchmark } from "@/lib/portfolio/performance";
 
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
+type SearchParams = Record<string, string | string[] | undefined>;
+
+function first(v: string | string[] | undefined): string | undefined {
+  return Array.isArray(v) ? v[0] : v;
+}
+
 type DailyValRow = {
   as_of_date: string;
   total_quantity: number;
@@ -48,15 +62,6 @@ type RecentItemRow = {
   created_at: string;
 };
 
-function fmtMoney(cents: number | null | undefined): string {
-  if (cents == null) return "—";
-  const dollars = cents / 100;
-  return `$${dollars.toLocaleString("en-US", {
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  })}`;
-}
-
 function fmtDate(d: string | Date | null | undefined): string {
   if (!d) return "";
   const dt = d instanceof Date ? d : new Date(d);
@@ -101,7 +106,12 @@ function buildSparklinePoints(
 
 
 
-export default async function CollectionAnalyticsPage() {
+export default async function CollectionAnalyticsPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const sp = await searchParams;
   const { userId } = await auth();
   if (!userId) {
     return (
@@ -122,6 +132,15 @@ export default async function CollectionAnalyticsPage() {
   const canMovers = canSeeTrends(plan);
   const canInsurance = canSeeInsuranceReports(plan);
   const canLtv = canUseAdvancedLtvTools(plan);
+  const canPerformance = canSeePortfolioPerformance(plan);
+
+  // Money below is in hundredths of `currency`: daily snapshots at that
+  // day's rate, current values at the latest rate. USD when we have no
+  // rate for the user's currency.
+  const [preferred, fx] = await Promise.all([getDisplayCurrency(userId), loadFxTable()]);
+  const currency = fx.rate(preferred) != null ? preferred : "USD";
+  const toDisplay = (usdCents: number, on?: string | null) => Math.round(fx.fromUsd(usdCents, currency, on) ?? usdCents);
+  const fmtMoney = (cents: number | null | undefined) => (cents == null ? "—" : formatFx(cents / 100, currency));
 
   // ----- Load daily valuations -----
   const dailyRes = await db.execute<DailyValRow>(sql`
@@ -140,17 +159,17 @@ export default async function CollectionAnalyticsPage() {
   const latest = daily[daily.length - 1];
   const prev = daily[daily.length - 2];
 
-  const latestValueCents = latest ? Number(latest.total_value_cents ?? 0) : 0;
-  const prevValueCents = prev ? Number(prev.total_value_cents ?? 0) : 0;
+  const latestValueCents = latest ? toDisplay(Number(latest.total_value_cents ?? 0), latest.as_of_date) : 0;
+  const prevValueCents = prev ? toDisplay(Number(prev.total_value_cents ?? 0), prev.as_of_date) : 0;
   const changeCents = latestValueCents - prevValueCents;
   const changePct = prevValueCents > 0 ? (changeCents / prevValueCents) * 100 : null;
 
-  const costCents = latest ? Number(latest.total_cost_cents ?? 0) : null;
+  const costCents = latest ? toDisplay(Number(latest.total_cost_cents ?? 0), latest.as_of_date) : null;
   const unrealizedCents = costCents != null ? latestValueCents - costCents : null;
 
   const history = daily.map((d) => ({
     date: d.as_of_date,
-    valueCents: Number(d.total_value_cents ?? 0),
+    valueCents: toDisplay(Number(d.total_value_cents ?? 0), d.as_of_date),
   }));
 
   // ----- By game breakdown -----
@@ -170,7 +189,7 @@ export default async function CollectionAnalyticsPage() {
       game: r.game,
       label: gameLabel(r.game),
       qty: Number(r.qty ?? 0),
-      valueCents: r.value_cents != null ? Number(r.value_cents) : 0,
+      valueCents: r.value_cents != null ? toDisplay(Number(r.value_cents)) : 0,
     }))
     .sort((a, b) => b.valueCents - a.valueCents);
 
@@ -193,6 +212,14 @@ export default async function CollectionAnalyticsPage() {
   `);
   const recent = recentRes.rows ?? [];
 
+  // ----- Performance (Pro) -----
+  const perfDays = Math.max(7, Math.min(3650, Number(first(sp.days)) || 365));
+  const benchParam = first(sp.benchmark) ?? DEFAULT_BENCHMARK;
+  const benchmark = benchParam === "none" ? null : parseBenchmark(benchParam) ?? parseBenchmark(DEFAULT_BENCHMARK);
+  const performance = canPerformance
+    ? await getPortfolioPerformance(userId, { days: perfDays, currency, benchmark })
+    : null;
+
   return (
     <section className="max-w-6xl mx-auto px-4 py-6 text-white space-y-8">
       <header className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
@@ -204,9 +231,12 @@ export default async function CollectionAnalyticsPage() {
         </div>
 
         <div className="flex flex-col items-end gap-2 sm:items-end">
-          <Link href="/collection" className="text-sm text-sky-300 hover:underline">
-            ← Back to collection
-          </Link>
+          <div className="flex items-center gap-3">
+            <DisplayCurrencySelect value={preferred} />
+            <Link href="/collection" className="text-sm text-sky-300 hover:underline">
+              ← Back to collection
+            </Link>
+          </div>
 
           <div className="flex flex-wrap items-center justify-end gap-2">
             {canCsv ? (
@@ -470,6 +500,19 @@ export default async function CollectionAnalyticsPage() {
         )}
       </div>
 
+      {/* --- Performance --- */}
+      {performance ? (
+        <PortfolioPerformancePanel performance={performance} days={perfDays} benchmarkId={benchmark?.id ?? null} />
+      ) : (
+        <div className="rounded-2xl border border-amber-400/30 bg-amber-500/10 p-4 text-sm text-amber-100">
+          Time-weighted returns, drawdown and a market benchmark are part of{" "}
+          <Link href="/pricing" className="underline">
+            Pro Collector
+          </Link>
+          . See whether your collection is beating the market.
+        </div>
+      )}
+
       {/* --- Recently added --- */}
       <div className="rounded-2xl border border-white/15 bg-white/5 p-4 backdrop-blur-sm">
         <div className="flex items-center justify-between mb-2">
@@ -484,7 +527,7 @@ export default async function CollectionAnalyticsPage() {
         ) : (
           <ul className="divide-y divide-white/10">
             {recent.map((r) => {
-              const valueCents = r.last_value_cents != null ? r.last_value_cents * r.quantity : null;
+              const valueCents = r.last_value_cents != null ? toDisplay(r.last_value_cents * r.quantity) : null;
 
               return (
                 <li key={r.id} className="flex items-center gap-3 py-2">
@@ -0,0 +1,465 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import type { ImportCard, ResolvedImportRow } from "@/lib/collections/importCards";
+import type { SkippedRow } from "@/lib/collections/csvImport";
+
+type Props = {
+  sources: { value: string; label: string }[];
+};
+
+type Usage = {
+  plan: string;
+  items: number;
+  collections: number;
+  maxItems: number | null;
+  maxCollections: number | null;
+};
+
+type ReviewRow = ResolvedImportRow & {
+  pick: ImportCard | null;
+  include: boolean;
+};
+
+type SearchHit = { id: string; title: string; subtitle: string | null; imageUrl: string | null };
+
+const GAMES = [
+  { value: "pokemon", label: "Pokémon" },
+  { value: "mtg", label: "Magic: The Gathering" },
+  { value: "yugioh", label: "Yu-Gi-Oh!" },
+];
+
+const STATUS_STYLES: Record<ResolvedImportRow["status"], string> = {
+  matched: "border-emerald-400/40 bg-emerald-500/15 text-emerald-100",
+  ambiguous: "border-amber-400/40 bg-amber-500/15 text-amber-100",
+  unmatched: "border-red-400/40 bg-red-500/15 text-red-100",
+};
+
+function cardLabel(c: ImportCard) {
+  return [c.name, c.setName, c.number ? `#${c.number}` : null].filter(Boolean).join(" · ");
+}
+
+/** Manual search for rows we couldn't match, backed by /api/search. */
+function RowSearch({ game, initial, onPick }: { game: string; initial: string; onPick: (c: ImportCard) => void }) {
+  const [q, setQ] = useState(initial);
+  const [hits, setHits] = useState<SearchHit[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function run() {
+    if (!q.trim() || busy) return;
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/search?game=${encodeURIComponent(game)}&limit=8&q=${encodeURIComponent(q.trim())}`);
+      const json = await res.json().catch(() => null);
+      setHits(json?.ok ? (json.hits as SearchHit[]) : []);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-1">
+        <input
+          value={q}
+          onChange={(e) => setQ(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              void run();
+            }
+          }}
+          className="w-full rounded bg-white/10 px-2 py-1 text-xs"
+          placeholder="Search the catalog…"
+        />
+        <button
+          type="button"
+          onClick={run}
+          disabled={busy}
+          className="rounded border border-white/20 bg-white/10 px-2 py-1 text-xs hover:bg-white/20 disabled:opacity-60"
+        >
+          {busy ? "…" : "Find"}
+        </button>
+      </div>
+      {hits && !hits.length ? <div className="text-xs text-white/50">No results.</div> : null}
+      {hits?.map((h) => (
+        <button
+          key={h.id}
+          type="button"
+          onClick={() =>
+            onPick({ cardId: h.id, name: h.title, setName: h.subtitle, number: null, imageUrl: h.imageUrl })
+          }
+          className="block w-full truncate rounded px-2 py-0.5 text-left text-xs text-sky-200 hover:bg-white/10"
+        >
+          {h.title}
+          {h.subtitle ? <span className="text-white/50"> · {h.subtitle}</span> : null}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Upload → review → import. Matched rows are pre-selected; ambiguous rows pick a
+ * printing from the candidates and unmatched rows can be searched manually or skipped.
+ */
+export default function ImportCollectionClient({ sources }: Props) {
+  const [source, setSource] = useState("auto");
+  const [game, setGame] = useState("pokemon");
+  const [folder, setFolder] = useState("Unsorted");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState("");
+
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  const [rows, setRows] = useState<ReviewRow[] | null>(null);
+  const [skipped, setSkipped] = useState<SkippedRow[]>([]);
+  const [usage, setUsage] = useState<Usage | null>(null);
+  const [filter, setFilter] = useState<"all" | "review">("all");
+  const [done, setDone] = useState<{ inserted: number; updated: number; quantity: number } | null>(null);
+
+  async function onFile(file: File | null) {
+    setRows(null);
+    setDone(null);
+    setErr(null);
+    setFileName(file?.name ?? null);
+    setCsv(file ? await file.text() : "");
+  }
+
+  async function preview() {
+    if (!csv || busy) return;
+    setBusy(true);
+    setErr(null);
+    setDone(null);
+
+    try {
+      const res = await fetch("/api/collection/import/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ csv, source, game }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json?.ok) {
+        setErr(json?.message || "Could not read that file.");
+        return;
+      }
+
+      setRows(
+        (json.rows as ResolvedImportRow[]).map((r) => ({
+          ...r,
+          pick: r.match ?? (r.candidates.length === 1 ? r.candidates[0] : null),
+          include: r.status === "matched",
+        })),
+      );
+      setSkipped(json.skipped ?? []);
+      setUsage(json.usage ?? null);
+      setFilter(json.summary?.matched === json.rows.length ? "all" : "review");
+    } catch {
+      setErr("Could not read that file.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function update(line: number, patch: Partial<ReviewRow>) {
+    setRows((prev) => prev?.map((r) => (r.line === line ? { ...r, ...patch } : r)) ?? null);
+  }
+
+  const selected = useMemo(() => (rows ?? []).filter((r) => r.include && r.pick), [rows]);
+  const selectedQty = selected.reduce((n, r) => n + r.quantity, 0);
+  const needsReview = (rows ?? []).filter((r) => !r.pick).length;
+
+  const overLimit =
+    usage?.maxItems != null && usage.items + selectedQty > usage.maxItems
+      ? usage.items + selectedQty - usage.maxItems
+      : 0;
+
+  async function commit() {
+    if (!selected.length || busy) return;
+    setBusy(true);
+    setErr(null);
+
+    try {
+      const res = await fetch("/api/collection/import/commit", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          folder,
+          items: selected.map((r) => ({
+            line: r.line,
+            game: r.game,
+            cardId: r.pick!.cardId,
+            quantity: r.quantity,
+            variant: r.variant,
+            condition: r.condition,
+            gradingCompany: r.gradingCompany,
+            gradeLabel: r.gradeLabel,
+            certNumber: r.certNumber,
+            costCents: r.costCents,
+            purchaseDate: r.purchaseDate,
+            folder: r.folder,
+          })),
+        }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json?.ok) {
+        setErr(json?.message || "Import failed.");
+        return;
+      }
+      setDone({ inserted: json.inserted, updated: json.updated, quantity: json.quantity });
+      setRows(null);
+    } catch {
+      setErr("Import failed.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const visible = (rows ?? []).filter((r) => filter === "all" || r.status !== "matched");
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4 rounded-2xl border border-white/15 bg-white/5 p-4 backdrop-blur-sm">
+        <div className="grid gap-3 sm:grid-cols-3">
+          <div className="space-y-1">
+            <label className="text-xs uppercase tracking-wide text-white/60">Exported from</label>
+            <select
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              className="w-full rounded-md bg-white px-3 py-2 text-sm text-neutral-900"
+            >
+              <option value="auto">Detect automatically</option>
+              {sources.map((s) => (
+                <option key={s.value} value={s.value}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-xs uppercase tracking-wide text-white/60">Game</label>
+            <select
+              value={game}
+              onChange={(e) => setGame(e.target.value)}
+              className="w-full rounded-md bg-white px-3 py-2 text-sm text-neutral-900"
+            >
+              {GAMES.map((g) => (
+                <option key={g.value} value={g.value}>
+                  {g.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-1">
+            <label className="text-xs uppercase tracking-wide text-white/60">Folder</label>
+            <input
+              value={folder}
+              onChange={(e) => setFolder(e.target.value)}
+              className="w-full rounded-md bg-white/10 px-3 py-2 text-sm text-white"
+              placeholder="Unsorted"
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="cursor-pointer rounded-lg border border-white/25 bg-white/10 px-3 py-1.5 text-sm hover:bg-white/20">
+            Choose file…
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => void onFile(e.target.files?.[0] ?? null)}
+            />
+          </label>
+          <span className="text-sm text-white/70">{fileName ?? "No file selected"}</span>
+          <button
+            type="button"
+            onClick={preview}
+            disabled={!csv || busy}
+            className="ml-auto rounded-lg border border-sky-400/50 bg-sky-500/20 px-4 py-1.5 text-sm font-medium text-sky-50 hover:bg-sky-500/30 disabled:opacity-50"
+          >
+            {busy && !rows ? "Matching…" : "Preview import"}
+          </button>
+        </div>
+
+        <p className="text-xs text-white/50">
+          Game is used for rows that don&apos;t say which game they belong to. Rows from Dragon Shield keep their own
+          folder names.
+        </p>
+      </div>
+
+      {err ? <div className="rounded-lg border border-red-400/40 bg-red-500/15 p-3 text-sm text-red-100">{err}</div> : null}
+
+      {done ? (
+        <div className="rounded-lg border border-emerald-400/40 bg-emerald-500/15 p-3 text-sm text-emerald-50">
+          Imported {done.quantity.toLocaleString("en-US")} cards ({done.inserted} new rows, {done.updated} merged into
+          existing rows). Prices will update shortly.{" "}
+          <Link href="/collection" className="underline">
+            View collection
+          </Link>
+        </div>
+      ) : null}
+
+      {rows ? (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-semibold">{rows.length} rows</span>
+            <span className="text-white/60">·</span>
+            <span>{selected.length} selected ({selectedQty.toLocaleString("en-US")} cards)</span>
+            {needsReview ? <span className="text-amber-200">· {needsReview} need a match</span> : null}
+            {skipped.length ? <span className="text-white/60">· {skipped.length} skipped</span> : null}
+
+            <div className="ml-auto flex gap-1">
+              {(["review", "all"] as const).map((f) => (
+                <button
+                  key={f}
+                  type="button"
+                  onClick={() => setFilter(f)}
+                  className={`rounded px-2 py-1 text-xs ${filter === f ? "bg-white/20" : "bg-white/5 hover:bg-white/10"}`}
+                >
+                  {f === "review" ? "Needs review" : "All rows"}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {overLimit ? (
+            <div className="rounded-lg border border-amber-400/40 bg-amber-500/15 p-3 text-sm text-amber-50">
+              Your {usage?.plan} plan allows {usage?.maxItems?.toLocaleString("en-US")} items and you have{" "}
+              {usage?.items.toLocaleString("en-US")}. Deselect {overLimit.toLocaleString("en-US")} cards or{" "}
+              <Link href="/pricing" className="underline">
+                upgrade
+              </Link>{" "}
+              to import everything.
+            </div>
+          ) : null}
+
+          <div className="overflow-x-auto rounded-2xl border border-white/15">
+            <table className="min-w-full text-sm">
+              <thead className="bg-white/5 text-left text-xs uppercase tracking-wide text-white/60">
+                <tr>
+                  <th className="px-3 py-2"></th>
+                  <th className="px-3 py-2">Line</th>
+                  <th className="px-3 py-2">In file</th>
+                  <th className="px-3 py-2">Qty</th>
+                  <th className="px-3 py-2">Match</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((r) => (
+                  <tr key={r.line} className="border-t border-white/10 align-top">
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={r.include}
+                        disabled={!r.pick}
+                        onChange={(e) => update(r.line, { include: e.target.checked })}
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-white/50">{r.line}</td>
+                    <td className="px-3 py-2">
+                      <div>{r.name || "—"}</div>
+                      <div className="text-xs text-white/50">
+                        {[
+                          r.setCode?.toUpperCase(),
+                          r.setName,
+                          r.number ? `#${r.number}` : null,
+                          r.variant !== "normal" ? r.variant : null,
+                          r.gradeLabel ?? r.gradingCompany,
+                          r.condition,
+                        ]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </div>
+                    </td>
+                    <td className="px-3 py-2">{r.quantity}</td>
+                    <td className="w-80 px-3 py-2">
+                      <span className={`inline-block rounded-full border px-2 py-0.5 text-xs ${STATUS_STYLES[r.status]}`}>
+                        {r.status}
+                      </span>
+
+                      {r.pick ? (
+                        <div className="mt-1 flex items-center gap-2 text-xs">
+                          <span className="truncate">{cardLabel(r.pick)}</span>
+                          {r.status !== "matched" ? (
+                            <button
+                              type="button"
+                              onClick={() => update(r.line, { pick: null, include: false })}
+                              className="text-white/50 hover:text-white"
+                            >
+                              change
+                            </button>
+                          ) : null}
+                        </div>
+                      ) : r.candidates.length ? (
+                        <select
+                          defaultValue=""
+                          onChange={(e) => {
+                            const c = r.candidates.find((x) => x.cardId === e.target.value) ?? null;
+                            update(r.line, { pick: c, include: !!c });
+                          }}
+                          className="mt-1 w-full rounded bg-white px-2 py-1 text-xs text-neutral-900"
+                        >
+                          <option value="">Pick a printing…</option>
+                          {r.candidates.map((c) => (
+                            <option key={c.cardId} value={c.cardId}>
+                              {cardLabel(c)}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <div className="mt-1">
+                          <RowSearch
+                            game={r.game}
+                            initial={r.name}
+                            onPick={(c) => update(r.line, { pick: c, include: true })}
+                          />
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {!visible.length ? (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-6 text-center text-white/60">
+                      Everything matched. Switch to &quot;All rows&quot; to double-check before importing.
+                    </td>
+                  </tr>
+                ) : null}
+              </tbody>
+            </table>
+          </div>
+
+          {skipped.length ? (
+            <details className="text-xs text-white/60">
+              <summary className="cursor-pointer">Skipped lines</summary>
+              <ul className="mt-1 space-y-0.5">
+                {skipped.map((s) => (
+                  <li key={s.line}>
+                    Line {s.line}: {s.reason}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          ) : null}
+
+          <div className="flex items-center justify-end gap-3">
+            <span className="text-xs text-white/50">Unselected rows are left out of the import.</span>
+            <button
+              type="button"
+              onClick={commit}
+              disabled={!selected.length || busy || overLimit > 0}
+              className="rounded-lg border border-emerald-400/50 bg-emerald-500/20 px-4 py-2 text-sm font-medium text-emerald-50 hover:bg-emerald-500/30 disabled:opacity-50"
+            >
+              {busy ? "Importing…" : `Import ${selectedQty.toLocaleString("en-US")} cards`}
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
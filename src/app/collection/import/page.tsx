@@ -0,0 +1,52 @@
+// src/app/collection/import/page.tsx
+import "server-only";
+
+import Link from "next/link";
+import { auth } from "@clerk/nextjs/server";
+import { IMPORT_SOURCES, IMPORT_SOURCE_LABELS } from "@/lib/collections/csvImport";
+import ImportCollectionClient from "@/app/collection/import/ImportCollectionClient";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default async function CollectionImportPage() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return (
+      <section className="p-8 text-white">
+        <h1 className="text-2xl font-bold">You must sign in</h1>
+        <p className="mt-2">
+          <Link href="/sign-in" className="underline">
+            Sign in
+          </Link>{" "}
+          to import your collection.
+        </p>
+      </section>
+    );
+  }
+
+  const sources = IMPORT_SOURCES.map((value) => ({ value, label: IMPORT_SOURCE_LABELS[value] }));
+
+  return (
+    <section className="mx-auto max-w-5xl space-y-6 p-4 text-white">
+      <header className="space-y-2">
+        <h1 className="text-2xl font-bold">Import Collection</h1>
+        <p className="text-sm text-white/70">
+          Upload a CSV export from TCGplayer, Deckbox, Moxfield or Dragon Shield (or any spreadsheet with
+          Name, Set, Number and Quantity columns), or a JSON backup exported from here. We&apos;ll match each row to our catalog and let you review
+          anything we couldn&apos;t place before it&apos;s added.
+        </p>
+      </header>
+
+      <ImportCollectionClient sources={sources} />
+
+      <div className="text-sm text-white/60">
+        <Link href="/collection" className="text-sky-300 hover:underline">
+          ← Back to collection
+        </Link>
+      </div>
+    </section>
+  );
+}
@@ -13,6 +13,10 @@ import {
   canSeeTrends,
 } from "@/lib/plans";
 import CollectionDashboardClient from "@/components/collection/CollectionDashboardClient";
+import DisplayCurrencySelect from "@/components/collection/DisplayCurrencySelect";
+import { getDisplayCurrency } from "@/lib/fx/displayCurrency";
+import { loadFxTable } from "@/lib/fx/rates";
+import { formatUsdCents } from "@/lib/fx/table";
 
 import CollectionTableBody, {
   type CollectionItem,
@@ -31,11 +35,6 @@ function first(v: string | string[] | undefined): string | undefined {
   return v;
 }
 
-function formatMoneyFromCents(cents: number | null | undefined): string {
-  if (cents == null) return "—";
-  return `$${(cents / 100).toFixed(2)}`;
-}
-
 function formatGameLabel(game: string | null | undefined): string {
   switch (String(game ?? "").toLowerCase()) {
     case "pokemon":
@@ -123,6 +122,9 @@ export default async function CollectionPage({
   const canInsurance = canSeeInsuranceReports(plan);
   const canMovers = canSeeTrends(plan);
 
+  const [currency, fx] = await Promise.all([getDisplayCurrency(userId), loadFxTable()]);
+  const formatMoneyFromCents = (cents: number | null | undefined) => formatUsdCents(fx, currency, cents);
+
   // ---- Filters from query string ----
   const sort = first(sp.sort) ?? "date";
   const game = first(sp.game) ?? "all";
@@ -139,6 +141,8 @@ export default async function CollectionPage({
       card_name,
       set_name,
       image_url,
+      variant_type,
+      condition,
       grading_company,
       grade_label,
       cert_number,
@@ -305,10 +309,11 @@ const wanted = Array.from(
 
   const historyRaw = historyRes.rows ?? [];
   const sparklinePoints = historyRaw
-    .map((row) => ({
-      date: row.as_of_date,
-      value: toNumber(row.total_value_cents),
-    }))
+    .map((row) => {
+      // each day at that day's rate, so the trend shows what the user saw
+      const usd = toNumber(row.total_value_cents);
+      return { date: row.as_of_date, value: fx.fromUsd(usd, currency, row.as_of_date) ?? usd };
+    })
     .filter((p) => p.value > 0);
 
   const sparklinePath = buildSparklinePath(
@@ -323,6 +328,8 @@ const wanted = Array.from(
       card_name,
       set_name,
       image_url,
+      variant_type,
+      condition,
       grading_company,
       grade_label,
       cert_number,
@@ -361,9 +368,12 @@ const wanted = Array.from(
 
         <div className="flex flex-col items-start gap-2 sm:items-end">
           {/* Plan pill */}
-          <div className="inline-flex items-center gap-2 rounded-full border border-white/20 bg-white/5 px-3 py-1 text-xs">
-            <span className="uppercase tracking-wide text-white/50">Plan</span>
-            <span className="font-semibold text-white">{planLabel}</span>
+          <div className="flex items-center gap-3">
+            <DisplayCurrencySelect value={currency} />
+            <div className="inline-flex items-center gap-2 rounded-full border border-white/20 bg-white/5 px-3 py-1 text-xs">
+              <span className="uppercase tracking-wide text-white/50">Plan</span>
+              <span className="font-semibold text-white">{planLabel}</span>
+            </div>
           </div>
 
           {/* Actions */}
@@ -375,6 +385,27 @@ const wanted = Array.from(
               View analytics
             </Link>
 
+            <Link
+              href="/collection/import"
+              className="rounded-lg border border-white/25 bg-white/10 px-3 py-1.5 text-xs font-medium text-white hover:bg-white/20"
+            >
+              Import CSV
+            </Link>
+
+            <Link
+              href="/collection/wishlist"
+              className="rounded-lg border border-white/25 bg-white/10 px-3 py-1.5 text-xs font-medium text-white hover:bg-white/20"
+            >
+              Wishlist
+            </Link>
+
+            <Link
+              href="/collection/share"
+              className="rounded-lg border border-white/25 bg-white/10 px-3 py-1.5 text-xs font-medium text-white hover:bg-white/20"
+            >
+              Share
+            </Link>
+
             {canCsv ? (
               <a
                 href="/api/pro/exports/collection"
@@ -646,7 +677,7 @@ const wanted = Array.from(
             </tr>
           </thead>
 
-          <CollectionTableBody items={items} planTier={planTier} mvMap={mvMap} />
+          <CollectionTableBody items={items} planTier={planTier} mvMap={mvMap} fx={fx} currency={currency} />
         </table>
       </div>
     </section>
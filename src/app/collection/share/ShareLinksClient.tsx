@@ -0,0 +1,218 @@
+"use client";
+
+import { useState } from "react";
+import type { ShareLink } from "@/lib/shares/shares";
+
+type Props = {
+  initialShares: ShareLink[];
+  folders: { folder: string; items: number }[];
+  baseUrl: string;
+};
+
+type Flags = Pick<ShareLink, "hideValues" | "hideCost" | "hideQuantities">;
+
+const FLAG_LABELS: { key: keyof Flags; label: string }[] = [
+  { key: "hideValues", label: "Hide values" },
+  { key: "hideCost", label: "Hide cost basis" },
+  { key: "hideQuantities", label: "Hide quantities" },
+];
+
+function targetLabel(s: Pick<ShareLink, "kind" | "folder">) {
+  if (s.kind === "wishlist") return "Wishlist";
+  if (s.kind === "folder") return `Binder: ${s.folder}`;
+  return "Whole collection";
+}
+
+export default function ShareLinksClient({ initialShares, folders, baseUrl }: Props) {
+  const [shares, setShares] = useState(initialShares);
+  const [target, setTarget] = useState("collection");
+  const [title, setTitle] = useState("");
+  const [flags, setFlags] = useState<Flags>({ hideValues: false, hideCost: true, hideQuantities: false });
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  function upsertLocal(share: ShareLink) {
+    setShares((prev) => {
+      const rest = prev.filter((s) => s.id !== share.id);
+      return [...rest, share];
+    });
+  }
+
+  async function create() {
+    if (busy) return;
+    setBusy(true);
+    setErr(null);
+    try {
+      const [kind, folder] = target.startsWith("folder:") ? ["folder", target.slice(7)] : [target, null];
+      const res = await fetch("/api/collection/shares", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ kind, folder, title, ...flags }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!json?.ok) {
+        setErr(json?.message ?? "Could not create the link.");
+        return;
+      }
+      upsertLocal(json.share as ShareLink);
+      setTitle("");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function patch(id: string, body: Partial<ShareLink>) {
+    setErr(null);
+    const res = await fetch(`/api/collection/shares/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const json = await res.json().catch(() => null);
+    if (!json?.ok) {
+      setErr(json?.message ?? "Could not update the link.");
+      return;
+    }
+    upsertLocal(json.share as ShareLink);
+  }
+
+  async function remove(id: string) {
+    if (!confirm("Delete this link? Anyone who has it will see a not-found page.")) return;
+    const res = await fetch(`/api/collection/shares/${id}`, { method: "DELETE" });
+    if (res.ok) setShares((prev) => prev.filter((s) => s.id !== id));
+  }
+
+  async function copy(url: string) {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(url);
+      setTimeout(() => setCopied(null), 1500);
+    } catch {
+      window.prompt("Copy this link", url);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4 rounded-2xl border border-white/15 bg-white/5 p-4 backdrop-blur-sm">
+        <h2 className="text-lg font-semibold">New link</h2>
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1">
+            <label className="text-xs uppercase tracking-wide text-white/60">What to share</label>
+            <select
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              className="w-full rounded-md bg-white px-3 py-2 text-sm text-neutral-900"
+            >
+              <option value="collection">Whole collection</option>
+              <option value="wishlist">Wishlist</option>
+              {folders.map((f) => (
+                <option key={f.folder} value={`folder:${f.folder}`}>
+                  Binder: {f.folder} ({f.items})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs uppercase tracking-wide text-white/60">Title (optional)</label>
+            <input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="w-full rounded-md bg-white/10 px-3 py-2 text-sm text-white"
+              placeholder="My vintage holos"
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          {FLAG_LABELS.map((f) => (
+            <label key={f.key} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={flags[f.key]}
+                onChange={(e) => setFlags({ ...flags, [f.key]: e.target.checked })}
+              />
+              {f.label}
+            </label>
+          ))}
+          <button
+            type="button"
+            onClick={create}
+            disabled={busy}
+            className="ml-auto rounded-lg border border-sky-400/50 bg-sky-500/20 px-4 py-1.5 text-sm font-medium text-sky-50 hover:bg-sky-500/30 disabled:opacity-50"
+          >
+            {busy ? "Saving…" : "Create link"}
+          </button>
+        </div>
+        <p className="text-xs text-white/50">
+          Sharing the same collection, binder or wishlist again updates its existing link instead of making a new
+          one.
+        </p>
+      </div>
+
+      {err ? <div className="rounded-lg border border-red-400/40 bg-red-500/15 p-3 text-sm text-red-100">{err}</div> : null}
+
+      <div className="space-y-3">
+        <h2 className="text-lg font-semibold">Your links</h2>
+        {!shares.length ? <div className="text-sm text-white/60">You haven&apos;t shared anything yet.</div> : null}
+        {shares.map((s) => {
+          const url = `${baseUrl}/${s.slug}`;
+          return (
+            <div
+              key={s.id}
+              className={`space-y-3 rounded-2xl border border-white/15 bg-white/5 p-4 backdrop-blur-sm ${
+                s.isActive ? "" : "opacity-60"
+              }`}
+            >
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium">{s.title || targetLabel(s)}</span>
+                {s.title ? <span className="text-white/50">· {targetLabel(s)}</span> : null}
+                <span className="text-white/50">· {s.viewCount.toLocaleString()} views</span>
+                {!s.isActive ? <span className="text-amber-200">· off</span> : null}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                <input readOnly value={url} className="min-w-0 flex-1 rounded bg-black/30 px-2 py-1 text-xs text-white/80" />
+                <button
+                  type="button"
+                  onClick={() => copy(url)}
+                  className="rounded border border-white/20 bg-white/10 px-2 py-1 text-xs hover:bg-white/20"
+                >
+                  {copied === url ? "Copied" : "Copy"}
+                </button>
+                <a
+                  href={url}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="rounded border border-white/20 bg-white/10 px-2 py-1 text-xs hover:bg-white/20"
+                >
+                  Open
+                </a>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-4 text-xs">
+                {FLAG_LABELS.map((f) => (
+                  <label key={f.key} className="flex items-center gap-1.5">
+                    <input type="checkbox" checked={s[f.key]} onChange={(e) => patch(s.id, { [f.key]: e.target.checked })} />
+                    {f.label}
+                  </label>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => patch(s.id, { isActive: !s.isActive })}
+                  className="ml-auto text-sky-300 hover:underline"
+                >
+                  {s.isActive ? "Turn off" : "Turn on"}
+                </button>
+                <button type="button" onClick={() => remove(s.id)} className="text-red-300 hover:underline">
+                  Delete
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+// src/app/collection/share/page.tsx
+import "server-only";
+
+import Link from "next/link";
+import { auth } from "@clerk/nextjs/server";
+import { listShareableFolders, listShares } from "@/lib/shares/shares";
+import { absoluteUrl } from "@/lib/seo";
+import ShareLinksClient from "@/app/collection/share/ShareLinksClient";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default async function CollectionSharePage() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return (
+      <section className="p-8 text-white">
+        <h1 className="text-2xl font-bold">You must sign in</h1>
+        <p className="mt-2">
+          <Link href="/sign-in" className="underline">
+            Sign in
+          </Link>{" "}
+          to share your collection.
+        </p>
+      </section>
+    );
+  }
+
+  const [shares, folders] = await Promise.all([listShares(userId), listShareableFolders(userId)]);
+
+  return (
+    <section className="mx-auto max-w-4xl space-y-6 p-4 text-white">
+      <header className="space-y-2">
+        <h1 className="text-2xl font-bold">Share Links</h1>
+        <p className="text-sm text-white/70">
+          Publish a read-only page for your whole collection, one binder (folder) or your wishlist. Anyone with the
+          link can view it; you choose whether values, cost basis and quantities are shown. Turning a link off or
+          deleting it takes the page down.
+        </p>
+      </header>
+
+      <ShareLinksClient initialShares={shares} folders={folders} baseUrl={absoluteUrl("/share")} />
+
+      <div className="text-sm text-white/60">
+        <Link href="/collection" className="text-sky-300 hover:underline">
+          ← Back to collection
+        </Link>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,260 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import type { WishlistEntryWithStock } from "@/lib/wishlist/stock";
+import { CARD_CONDITIONS, CARD_CONDITION_LABELS } from "@/lib/cards/condition";
+import { GRADERS, describeWant, type StockListing } from "@/lib/wishlist/stockMatch";
+import {
+  WISHLIST_PRIORITIES,
+  WISHLIST_PRIORITY_LABELS,
+  WISHLIST_VARIANTS,
+  WISHLIST_VARIANT_LABELS,
+} from "@/lib/wishlist/buyListPlan";
+
+type Props = { items: WishlistEntryWithStock[] };
+
+function money(cents: number | null) {
+  if (cents == null) return "—";
+  return (cents / 100).toLocaleString("en-US", { style: "currency", currency: "USD" });
+}
+
+function listingLabel(l: StockListing) {
+  const grade = l.isGraded
+    ? [l.grader?.toUpperCase(), l.gradeX10 != null ? String(l.gradeX10 / 10) : null].filter(Boolean).join(" ")
+    : l.condition
+      ? l.condition.toUpperCase()
+      : null;
+  return [grade, money(l.priceCents)].filter(Boolean).join(" · ");
+}
+
+function InStockBadge({ listings }: { listings: StockListing[] }) {
+  const best = listings[0];
+  const body = (
+    <>
+      In stock at Legendary
+      <span className="ml-1 opacity-80">· {listingLabel(best)}</span>
+      {listings.length > 1 ? <span className="ml-1 opacity-70">(+{listings.length - 1} more)</span> : null}
+    </>
+  );
+  const cls =
+    "inline-flex items-center rounded-full border border-emerald-400/50 bg-emerald-500/20 px-2 py-0.5 text-xs text-emerald-50";
+
+  return best.href ? (
+    <Link href={best.href} className={`${cls} hover:bg-emerald-500/30`} title={best.title}>
+      {body}
+    </Link>
+  ) : (
+    <span className={cls} title={best.title}>
+      {body}
+    </span>
+  );
+}
+
+function WantEditor({ item, onSaved }: { item: WishlistEntryWithStock; onSaved: () => void }) {
+  const [condition, setCondition] = useState<string>(item.want.conditionMin ?? "");
+  const [grader, setGrader] = useState<string>(item.want.grader ?? "");
+  const [grade, setGrade] = useState<string>(item.want.gradeMinX10 != null ? String(item.want.gradeMinX10 / 10) : "");
+  const [variant, setVariant] = useState<string>(item.wantedVariant ?? "");
+  const [target, setTarget] = useState(item.targetPriceCents != null ? (item.targetPriceCents / 100).toFixed(2) : "");
+  const [priority, setPriority] = useState<string>(String(item.priority));
+  const [notify, setNotify] = useState(item.notifyInStock);
+  const [err, setErr] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function save() {
+    const dollars = target.trim() ? Number(target.trim().replace(/[$,]/g, "")) : null;
+    if (dollars != null && (!Number.isFinite(dollars) || dollars < 0)) {
+      setErr("Target price must be a dollar amount.");
+      return;
+    }
+
+    setBusy(true);
+    setErr(null);
+    try {
+      const res = await fetch(`/api/wishlist/${item.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          wantedCondition: condition,
+          wantedGrader: grader,
+          wantedGrade: grade,
+          wantedVariant: variant,
+          targetPriceCents: dollars == null ? null : Math.round(dollars * 100),
+          priority: Number(priority),
+          notifyInStock: notify,
+        }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!json?.ok) {
+        setErr(json?.message ?? "Could not save.");
+        return;
+      }
+      onSaved();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <select
+        value={condition}
+        onChange={(e) => setCondition(e.target.value)}
+        className="rounded bg-white px-2 py-1 text-neutral-900"
+      >
+        <option value="">Any condition</option>
+        {CARD_CONDITIONS.map((c) => (
+          <option key={c} value={c}>
+            {CARD_CONDITION_LABELS[c]}
+            {c === "nm" ? "" : " or better"}
+          </option>
+        ))}
+      </select>
+      <select value={grader} onChange={(e) => setGrader(e.target.value)} className="rounded bg-white px-2 py-1 text-neutral-900">
+        <option value="">Any grader</option>
+        {GRADERS.map((g) => (
+          <option key={g} value={g}>
+            {g.toUpperCase()}
+          </option>
+        ))}
+      </select>
+      <input
+        value={grade}
+        onChange={(e) => setGrade(e.target.value)}
+        className="w-20 rounded bg-white/10 px-2 py-1"
+        placeholder="Min grade"
+        inputMode="decimal"
+      />
+      <select value={variant} onChange={(e) => setVariant(e.target.value)} className="rounded bg-white px-2 py-1 text-neutral-900">
+        <option value="">Any variant</option>
+        {WISHLIST_VARIANTS.map((v) => (
+          <option key={v} value={v}>
+            {WISHLIST_VARIANT_LABELS[v]}
+          </option>
+        ))}
+      </select>
+      <input
+        value={target}
+        onChange={(e) => setTarget(e.target.value)}
+        className="w-24 rounded bg-white/10 px-2 py-1"
+        placeholder="Target $"
+        inputMode="decimal"
+      />
+      <select
+        value={priority}
+        onChange={(e) => setPriority(e.target.value)}
+        className="rounded bg-white px-2 py-1 text-neutral-900"
+      >
+        {WISHLIST_PRIORITIES.map((p) => (
+          <option key={p} value={p}>
+            {WISHLIST_PRIORITY_LABELS[p]} priority
+          </option>
+        ))}
+      </select>
+      <label className="flex items-center gap-1">
+        <input type="checkbox" checked={notify} onChange={(e) => setNotify(e.target.checked)} />
+        Email me when in stock
+      </label>
+      <button
+        type="button"
+        onClick={save}
+        disabled={busy}
+        className="rounded border border-white/20 bg-white/10 px-2 py-1 hover:bg-white/20 disabled:opacity-60"
+      >
+        {busy ? "Saving…" : "Save"}
+      </button>
+      {err ? <span className="text-red-300">{err}</span> : null}
+    </div>
+  );
+}
+
+export default function WishlistClient({ items }: Props) {
+  const router = useRouter();
+  const [editing, setEditing] = useState<string | null>(null);
+  const [onlyInStock, setOnlyInStock] = useState(false);
+
+  async function remove(id: string) {
+    if (!confirm("Remove this card from your wishlist?")) return;
+    const res = await fetch(`/api/wishlist/${id}`, { method: "DELETE" });
+    if (res.ok) router.refresh();
+  }
+
+  const shown = onlyInStock ? items.filter((i) => i.listings.length) : items;
+
+  if (!items.length) {
+    return (
+      <div className="rounded-2xl border border-white/15 bg-white/5 p-6 text-center text-sm text-white/60">
+        Your wishlist is empty. Use “Add to wishlist” on any card page.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm text-white/80">
+        <input type="checkbox" checked={onlyInStock} onChange={(e) => setOnlyInStock(e.target.checked)} />
+        Only show cards in stock
+      </label>
+
+      <ul className="divide-y divide-white/10 overflow-hidden rounded-2xl border border-white/15 bg-white/5">
+        {shown.map((it) => {
+          const want = describeWant(it.want);
+          return (
+            <li key={it.id} className="flex gap-3 p-3">
+              <div className="h-20 w-14 shrink-0 overflow-hidden rounded bg-black/30">
+                {it.imageUrl ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={it.imageUrl} alt={it.cardName ?? it.cardId} className="h-full w-full object-contain" />
+                ) : null}
+              </div>
+
+              <div className="min-w-0 flex-1 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="truncate font-medium">{it.cardName ?? it.cardId}</span>
+                  {it.setName ? <span className="text-xs text-white/50">{it.setName}</span> : null}
+                  {want ? (
+                    <span className="rounded-full border border-white/20 px-2 py-0.5 text-xs text-white/70">{want}</span>
+                  ) : null}
+                  {it.wantedVariant ? (
+                    <span className="rounded-full border border-white/20 px-2 py-0.5 text-xs text-white/70">
+                      {WISHLIST_VARIANT_LABELS[it.wantedVariant]}
+                    </span>
+                  ) : null}
+                </div>
+
+                <div className="flex flex-wrap gap-3 text-xs text-white/60">
+                  <span>{WISHLIST_PRIORITY_LABELS[it.priority]} priority</span>
+                  {it.targetPriceCents != null ? <span>Target {money(it.targetPriceCents)}</span> : null}
+                </div>
+
+                {it.listings.length ? <InStockBadge listings={it.listings} /> : null}
+
+                {editing === it.id ? (
+                  <WantEditor
+                    item={it}
+                    onSaved={() => {
+                      setEditing(null);
+                      router.refresh();
+                    }}
+                  />
+                ) : (
+                  <div className="flex gap-3 text-xs">
+                    <button type="button" onClick={() => setEditing(it.id)} className="text-sky-300 hover:underline">
+                      Edit want
+                    </button>
+                    <button type="button" onClick={() => remove(it.id)} className="text-red-300 hover:underline">
+                      Remove
+                    </button>
+                    {!it.notifyInStock ? <span className="text-white/40">Stock emails off</span> : null}
+                  </div>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { BuyList } from "@/lib/wishlist/buyList";
+import { WISHLIST_PRIORITY_LABELS, WISHLIST_VARIANT_LABELS, type BuyListStatus } from "@/lib/wishlist/buyListPlan";
+import { describeWant } from "@/lib/wishlist/stockMatch";
+
+type Props = { buyList: BuyList };
+
+const STATUS_LABELS: Record<BuyListStatus, string> = {
+  planned: "Buy this month",
+  over_budget: "Over budget",
+  above_target: "Above target",
+  unpriced: "No price",
+};
+
+const STATUS_CLASSES: Record<BuyListStatus, string> = {
+  planned: "border-emerald-400/50 bg-emerald-500/20 text-emerald-50",
+  over_budget: "border-amber-400/50 bg-amber-500/15 text-amber-50",
+  above_target: "border-white/20 bg-white/5 text-white/70",
+  unpriced: "border-white/10 bg-transparent text-white/40",
+};
+
+function money(cents: number | null) {
+  if (cents == null) return "—";
+  return (cents / 100).toLocaleString("en-US", { style: "currency", currency: "USD" });
+}
+
+function BudgetForm({ budgetCents }: { budgetCents: number | null }) {
+  const router = useRouter();
+  const [value, setValue] = useState(budgetCents != null ? (budgetCents / 100).toFixed(2) : "");
+  const [err, setErr] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function save() {
+    const trimmed = value.trim();
+    const dollars = trimmed ? Number(trimmed.replace(/[$,]/g, "")) : null;
+    if (dollars != null && (!Number.isFinite(dollars) || dollars < 0)) {
+      setErr("Enter a dollar amount.");
+      return;
+    }
+
+    setBusy(true);
+    setErr(null);
+    try {
+      const res = await fetch("/api/wishlist/budget", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ monthlyBudgetCents: dollars == null ? null : Math.round(dollars * 100) }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!json?.ok) {
+        setErr(json?.message ?? "Could not save.");
+        return;
+      }
+      router.refresh();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <label htmlFor="buy-list-budget" className="text-white/70">
+        Monthly budget
+      </label>
+      <input
+        id="buy-list-budget"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        className="w-28 rounded bg-white/10 px-2 py-1"
+        placeholder="No limit"
+        inputMode="decimal"
+      />
+      <button
+        type="button"
+        onClick={save}
+        disabled={busy}
+        className="rounded border border-white/20 bg-white/10 px-2 py-1 hover:bg-white/20 disabled:opacity-60"
+      >
+        {busy ? "Saving…" : "Save"}
+      </button>
+      {err ? <span className="text-red-300">{err}</span> : null}
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-xl border border-white/15 bg-white/5 p-3">
+      <div className="text-xs text-white/60">{label}</div>
+      <div className="text-lg font-semibold">{value}</div>
+    </div>
+  );
+}
+
+export default function BuyListClient({ buyList }: Props) {
+  const { rows, totals } = buyList;
+
+  return (
+    <div className="space-y-4">
+      <BudgetForm budgetCents={totals.budgetCents} />
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <Stat label="Wishlist at market" value={money(totals.marketTotalCents)} />
+        <Stat label={`Planned (${totals.plannedCount})`} value={money(totals.plannedTotalCents)} />
+        <Stat label={`Spent in ${buyList.month}`} value={money(totals.spentCents)} />
+        <Stat label="Left after plan" value={totals.remainingCents == null ? "No budget" : money(totals.remainingCents)} />
+      </div>
+
+      <p className="text-xs text-white/50">
+        {totals.belowTargetCount} at or below target
+        {totals.unpricedCount ? ` · ${totals.unpricedCount} without a market price` : ""}
+      </p>
+
+      {!rows.length ? (
+        <div className="rounded-2xl border border-white/15 bg-white/5 p-6 text-center text-sm text-white/60">
+          Your wishlist is empty.
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-2xl border border-white/15 bg-white/5">
+          <table className="w-full text-sm">
+            <thead className="text-left text-xs text-white/60">
+              <tr>
+                <th className="p-3">Card</th>
+                <th className="p-3">Priority</th>
+                <th className="p-3 text-right">Market</th>
+                <th className="p-3 text-right">Target</th>
+                <th className="p-3">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {rows.map((r) => {
+                const want = [r.wantedVariant ? WISHLIST_VARIANT_LABELS[r.wantedVariant] : null, describeWant(r.want)]
+                  .filter(Boolean)
+                  .join(" · ");
+                return (
+                  <tr key={r.id}>
+                    <td className="p-3">
+                      <div className="font-medium">{r.cardName ?? r.cardId}</div>
+                      <div className="text-xs text-white/50">{[r.setName, want].filter(Boolean).join(" · ")}</div>
+                    </td>
+                    <td className="p-3">{WISHLIST_PRIORITY_LABELS[r.priority]}</td>
+                    <td className="p-3 text-right" title={r.priceSource ?? undefined}>
+                      {money(r.marketCents)}
+                    </td>
+                    <td className="p-3 text-right">
+                      {money(r.targetPriceCents)}
+                      {r.belowTarget && r.savingsCents ? (
+                        <div className="text-xs text-emerald-300">{money(r.savingsCents)} under</div>
+                      ) : null}
+                    </td>
+                    <td className="p-3">
+                      <span className={`inline-flex rounded-full border px-2 py-0.5 text-xs ${STATUS_CLASSES[r.status]}`}>
+                        {r.belowTarget && r.status === "planned" ? "Below target · buy" : STATUS_LABELS[r.status]}
+                      </span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
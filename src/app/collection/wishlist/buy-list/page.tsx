@@ -0,0 +1,52 @@
+// src/app/collection/wishlist/buy-list/page.tsx
+import "server-only";
+
+import Link from "next/link";
+import { auth } from "@clerk/nextjs/server";
+import { buildBuyList } from "@/lib/wishlist/buyList";
+import BuyListClient from "@/app/collection/wishlist/buy-list/BuyListClient";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default async function BuyListPage() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return (
+      <section className="p-8 text-white">
+        <h1 className="text-2xl font-bold">You must sign in</h1>
+        <p className="mt-2">
+          <Link href="/sign-in" className="underline">
+            Sign in
+          </Link>{" "}
+          to plan your purchases.
+        </p>
+      </section>
+    );
+  }
+
+  const buyList = await buildBuyList(userId);
+
+  return (
+    <section className="mx-auto max-w-5xl space-y-6 p-4 text-white">
+      <header className="space-y-2">
+        <h1 className="text-2xl font-bold">Buy List</h1>
+        <p className="text-sm text-white/70">
+          Your wishlist at today&apos;s market prices, in priority order. Cards at or below your target price come
+          first; anything above target waits for a better price. With a monthly budget set, we fill it from the top
+          after what you&apos;ve already logged as bought this month.
+        </p>
+      </header>
+
+      <BuyListClient buyList={buyList} />
+
+      <div className="flex gap-4 text-sm text-white/60">
+        <Link href="/collection/wishlist" className="text-sky-300 hover:underline">
+          ← Back to wishlist
+        </Link>
+      </div>
+    </section>
+  );
+}
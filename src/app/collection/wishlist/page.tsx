@@ -0,0 +1,62 @@
+// src/app/collection/wishlist/page.tsx
+import "server-only";
+
+import Link from "next/link";
+import { auth } from "@clerk/nextjs/server";
+import { loadWishlistWithStock } from "@/lib/wishlist/stock";
+import WishlistClient from "@/app/collection/wishlist/WishlistClient";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default async function WishlistPage() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return (
+      <section className="p-8 text-white">
+        <h1 className="text-2xl font-bold">You must sign in</h1>
+        <p className="mt-2">
+          <Link href="/sign-in" className="underline">
+            Sign in
+          </Link>{" "}
+          to see your wishlist.
+        </p>
+      </section>
+    );
+  }
+
+  const items = await loadWishlistWithStock(userId);
+  const inStock = items.filter((i) => i.listings.length).length;
+
+  return (
+    <section className="mx-auto max-w-5xl space-y-6 p-4 text-white">
+      <header className="space-y-2">
+        <h1 className="text-2xl font-bold">Wishlist</h1>
+        <p className="text-sm text-white/70">
+          {items.length} cards
+          {inStock ? (
+            <>
+              {" "}
+              · <span className="text-emerald-200">{inStock} in stock at Legendary</span>
+            </>
+          ) : null}
+          . Set the condition or grade you&apos;re after and we&apos;ll email you when a matching listing goes live
+          or comes back in stock.
+        </p>
+      </header>
+
+      <WishlistClient items={items} />
+
+      <div className="flex gap-4 text-sm text-white/60">
+        <Link href="/collection" className="text-sky-300 hover:underline">
+          ← Back to collection
+        </Link>
+        <Link href="/collection/wishlist/buy-list" className="text-sky-300 hover:underline">
+          Buy list →
+        </Link>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import type { NotificationPage, NotificationView } from "@/lib/notifications/inbox";
+import { notificationKindLabel } from "@/lib/notifications/events";
+import { NOTIFICATIONS_CHANGED_EVENT } from "@/hooks/useNotificationCount";
+
+type Props = { initial: NotificationPage };
+type Tab = "inbox" | "archived";
+
+const btnCls = "rounded-md border border-white/25 bg-white/10 px-2 py-1 text-xs hover:bg-white/20 disabled:opacity-60";
+
+function fmtWhen(iso: string) {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? "" : d.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+function announce() {
+  window.dispatchEvent(new Event(NOTIFICATIONS_CHANGED_EVENT));
+}
+
+export default function NotificationsClient({ initial }: Props) {
+  const [tab, setTab] = useState<Tab>("inbox");
+  const [rows, setRows] = useState<NotificationView[]>(initial.notifications);
+  const [unread, setUnread] = useState(initial.unread);
+  const [nextBefore, setNextBefore] = useState(initial.nextBefore);
+  const [loading, setLoading] = useState(false);
+
+  async function load(next: Tab, before: string | null = null) {
+    setLoading(true);
+    try {
+      const qs = new URLSearchParams();
+      if (next === "archived") qs.set("archived", "1");
+      if (before) qs.set("before", before);
+      const res = await fetch(`/api/notifications?${qs}`, { cache: "no-store" });
+      const json = await res.json().catch(() => null);
+      if (!json?.ok) return;
+      setRows((prev) => (before ? [...prev, ...json.notifications] : json.notifications));
+      setUnread(json.unread);
+      setNextBefore(json.nextBefore);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function switchTab(next: Tab) {
+    if (next === tab) return;
+    setTab(next);
+    setRows([]);
+    load(next);
+  }
+
+  async function patch(n: NotificationView, body: { read?: boolean; archived?: boolean }) {
+    const res = await fetch(`/api/notifications/${n.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const json = await res.json().catch(() => null);
+    if (!json?.ok) return;
+
+    setUnread(json.unread);
+    setRows((prev) =>
+      body.archived !== undefined
+        ? prev.filter((r) => r.id !== n.id)
+        : prev.map((r) => (r.id === n.id ? json.notification : r)),
+    );
+    announce();
+  }
+
+  async function markAllRead() {
+    const res = await fetch("/api/notifications/read", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ all: true }),
+    });
+    const json = await res.json().catch(() => null);
+    if (!json?.ok) return;
+
+    const now = new Date().toISOString();
+    setUnread(json.unread);
+    setRows((prev) => prev.map((r) => (r.readAt ? r : { ...r, readAt: now })));
+    announce();
+  }
+
+  function open(n: NotificationView) {
+    // fire-and-forget: the link navigates away
+    if (!n.readAt) {
+      fetch(`/api/notifications/${n.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ read: true }),
+        keepalive: true,
+      }).then(announce, () => {});
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {(["inbox", "archived"] as const).map((t) => (
+          <button
+            key={t}
+            type="button"
+            onClick={() => switchTab(t)}
+            className={
+              tab === t
+                ? "rounded-full border border-white/40 bg-white/15 px-3 py-1 font-medium"
+                : "rounded-full border border-white/15 bg-white/5 px-3 py-1 text-white/70 hover:bg-white/10"
+            }
+          >
+            {t === "inbox" ? `Inbox${unread ? ` (${unread})` : ""}` : "Archived"}
+          </button>
+        ))}
+        {tab === "inbox" && unread > 0 ? (
+          <button type="button" onClick={markAllRead} className={`${btnCls} ml-auto`}>
+            Mark all read
+          </button>
+        ) : null}
+      </div>
+
+      {!rows.length && !loading ? (
+        <div className="rounded-lg border border-dashed border-white/20 bg-black/30 p-4 text-sm text-white/70">
+          {tab === "inbox"
+            ? "You're all caught up. Alerts, trade offers and order updates will show up here."
+            : "Nothing archived."}
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {rows.map((n) => (
+            <li
+              key={n.id}
+              className={[
+                "flex flex-wrap items-start gap-3 rounded-xl border p-3 text-sm",
+                n.readAt ? "border-white/10 bg-black/30" : "border-sky-400/30 bg-sky-500/10",
+              ].join(" ")}
+            >
+              <div className="min-w-0 flex-1">
+                <div className="flex flex-wrap items-center gap-2 text-[11px] text-white/50">
+                  <span className="rounded-full border border-white/15 px-2 py-0.5">{notificationKindLabel(n.kind)}</span>
+                  {fmtWhen(n.createdAt)}
+                  {!n.readAt ? <span className="h-2 w-2 rounded-full bg-sky-400" aria-label="Unread" /> : null}
+                </div>
+                <div className="mt-1 font-medium">
+                  {n.href ? (
+                    <Link href={n.href} onClick={() => open(n)} className="hover:underline">
+                      {n.title}
+                    </Link>
+                  ) : (
+                    n.title
+                  )}
+                </div>
+                {n.body ? <div className="text-xs text-white/70">{n.body}</div> : null}
+              </div>
+
+              <div className="flex gap-2">
+                {tab === "inbox" ? (
+                  <>
+                    <button type="button" onClick={() => patch(n, { read: !n.readAt })} className={btnCls}>
+                      {n.readAt ? "Mark unread" : "Mark read"}
+                    </button>
+                    <button type="button" onClick={() => patch(n, { archived: true })} className={btnCls}>
+                      Archive
+                    </button>
+                  </>
+                ) : (
+                  <button type="button" onClick={() => patch(n, { archived: false })} className={btnCls}>
+                    Move to inbox
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {nextBefore ? (
+        <button type="button" onClick={() => load(tab, nextBefore)} disabled={loading} className={btnCls}>
+          {loading ? "Loading…" : "Load more"}
+        </button>
+      ) : loading ? (
+        <div className="text-sm text-white/60">Loading…</div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+// src/app/notifications/page.tsx
+import "server-only";
+
+import Link from "next/link";
+import { auth } from "@clerk/nextjs/server";
+import { listNotifications } from "@/lib/notifications/inbox";
+import NotificationsClient from "@/app/notifications/NotificationsClient";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default async function NotificationsPage() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return (
+      <section className="p-8 text-white">
+        <h1 className="text-2xl font-bold">You must sign in</h1>
+        <p className="mt-2">
+          <Link href="/sign-in" className="underline">
+            Sign in
+          </Link>{" "}
+          to see your notifications.
+        </p>
+      </section>
+    );
+  }
+
+  const initial = await listNotifications(userId);
+
+  return (
+    <section className="mx-auto max-w-3xl space-y-6 p-4 text-white">
+      <header className="flex flex-wrap items-end justify-between gap-3">
+        <div className="space-y-2">
+          <h1 className="text-2xl font-bold">Notifications</h1>
+          <p className="text-sm text-white/70">
+            Price and collection alerts, trade offers, order updates and wishlist restocks — everything we&apos;ve
+            emailed or posted for you, in one place.
+          </p>
+        </div>
+        <Link href="/notifications/settings" className="text-sm text-sky-300 hover:underline">
+          Settings →
+        </Link>
+      </header>
+
+      <NotificationsClient initial={initial} />
+    </section>
+  );
+}
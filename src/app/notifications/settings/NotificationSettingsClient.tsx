@@ -0,0 +1,255 @@
+"use client";
+
+import { useState } from "react";
+import type { NotificationSettings } from "@/lib/notifications/notifications";
+import {
+  COOLDOWN_CHOICES,
+  DIGEST_MODES,
+  DIGEST_MODE_LABELS,
+  describeCooldown,
+  type DigestMode,
+} from "@/lib/notifications/policy";
+
+type Props = { initial: NotificationSettings };
+
+const fieldCls = "rounded-md border border-white/15 bg-zinc-900 px-2 py-1.5 text-sm text-white";
+const inputCls = "w-full rounded-md border border-white/15 bg-white/5 px-2 py-1.5 text-sm text-white placeholder:text-white/30";
+const cardCls = "space-y-3 rounded-xl border border-white/20 bg-black/40 p-4";
+
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+function hourLabel(h: number) {
+  return `${String(h).padStart(2, "0")}:00`;
+}
+
+function Toggle({ label, checked, onChange }: { label: string; checked: boolean; onChange: (v: boolean) => void }) {
+  return (
+    <label className="flex items-center gap-2 text-sm">
+      <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} />
+      {label}
+    </label>
+  );
+}
+
+export default function NotificationSettingsClient({ initial }: Props) {
+  const [s, setS] = useState(initial);
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [msg, setMsg] = useState<{ kind: "ok" | "err"; text: string } | null>(null);
+
+  function set<K extends keyof NotificationSettings>(key: K, value: NotificationSettings[K]) {
+    setS((prev) => ({ ...prev, [key]: value }));
+  }
+
+  async function save(extra: Record<string, unknown> = {}) {
+    setMsg(null);
+    setSaving(true);
+    try {
+      const res = await fetch("/api/notifications/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          emailEnabled: s.emailEnabled,
+          inAppEnabled: s.inAppEnabled,
+          discordEnabled: s.discordEnabled,
+          discordWebhookUrl: s.discordWebhookUrl ?? "",
+          webhookEnabled: s.webhookEnabled,
+          webhookUrl: s.webhookUrl ?? "",
+          digest: s.digest,
+          quietStart: s.quietStart,
+          quietEnd: s.quietEnd,
+          timezone: s.timezone,
+          cooldownHours: s.cooldownHours,
+          ...extra,
+        }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!json?.ok) {
+        setMsg({ kind: "err", text: json?.message ?? "Could not save your settings." });
+        return;
+      }
+      setS(json.settings);
+      setMsg({ kind: "ok", text: "Settings saved." });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function sendTest() {
+    setMsg(null);
+    setTesting(true);
+    try {
+      const res = await fetch("/api/notifications/test", { method: "POST" });
+      const json = await res.json().catch(() => null);
+      if (!json?.ok) {
+        setMsg({ kind: "err", text: json?.message ?? "Could not send a test." });
+        return;
+      }
+      const channels = Object.entries((json.channels ?? {}) as Record<string, string>);
+      const failed = channels.filter(([, r]) => r !== "sent");
+      setMsg(
+        failed.length
+          ? { kind: "err", text: failed.map(([c, r]) => `${c}: ${r}`).join(" · ") }
+          : { kind: "ok", text: channels.length ? `Sent via ${channels.map(([c]) => c).join(", ")}.` : "Saved to your inbox." },
+      );
+    } finally {
+      setTesting(false);
+    }
+  }
+
+  function fillBrowserTimezone() {
+    set("timezone", Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC");
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className={cardCls}>
+        <h2 className="text-lg font-semibold">Channels</h2>
+        <Toggle label="Email" checked={s.emailEnabled} onChange={(v) => set("emailEnabled", v)} />
+        <Toggle label="In-app inbox" checked={s.inAppEnabled} onChange={(v) => set("inAppEnabled", v)} />
+
+        <div className="space-y-1">
+          <Toggle label="Discord" checked={s.discordEnabled} onChange={(v) => set("discordEnabled", v)} />
+          <input
+            value={s.discordWebhookUrl ?? ""}
+            onChange={(e) => set("discordWebhookUrl", e.target.value)}
+            placeholder="https://discord.com/api/webhooks/…"
+            className={inputCls}
+          />
+        </div>
+
+        <div className="space-y-1">
+          <Toggle label="Webhook" checked={s.webhookEnabled} onChange={(v) => set("webhookEnabled", v)} />
+          <input
+            value={s.webhookUrl ?? ""}
+            onChange={(e) => set("webhookUrl", e.target.value)}
+            placeholder="https://example.com/hooks/legendary"
+            className={inputCls}
+          />
+          {s.webhookSecret ? (
+            <div className="flex flex-wrap items-center gap-2 text-xs text-white/60">
+              Signing secret <code className="rounded bg-white/10 px-1.5 py-0.5 text-white/80">{s.webhookSecret}</code>
+              <button
+                type="button"
+                onClick={() => save({ rotateWebhookSecret: true })}
+                disabled={saving}
+                className="rounded border border-white/20 bg-white/10 px-2 py-0.5 hover:bg-white/20 disabled:opacity-60"
+              >
+                Rotate
+              </button>
+            </div>
+          ) : null}
+          <p className="text-[11px] text-white/50">
+            We POST JSON signed with HMAC-SHA256 of <code>timestamp.body</code> in the X-Legendary-Signature header.
+          </p>
+        </div>
+      </div>
+
+      <div className={cardCls}>
+        <h2 className="text-lg font-semibold">Timing</h2>
+
+        <label className="flex flex-wrap items-center gap-2 text-sm">
+          Deliver
+          <select value={s.digest} onChange={(e) => set("digest", e.target.value as DigestMode)} className={fieldCls}>
+            {DIGEST_MODES.map((d) => (
+              <option key={d} value={d}>
+                {DIGEST_MODE_LABELS[d]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          Quiet hours
+          <select
+            value={s.quietStart ?? ""}
+            onChange={(e) => set("quietStart", e.target.value === "" ? null : Number(e.target.value))}
+            className={fieldCls}
+          >
+            <option value="">Off</option>
+            {HOURS.map((h) => (
+              <option key={h} value={h}>
+                {hourLabel(h)}
+              </option>
+            ))}
+          </select>
+          to
+          <select
+            value={s.quietEnd ?? ""}
+            onChange={(e) => set("quietEnd", e.target.value === "" ? null : Number(e.target.value))}
+            className={fieldCls}
+          >
+            <option value="">Off</option>
+            {HOURS.map((h) => (
+              <option key={h} value={h}>
+                {hourLabel(h)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          Time zone
+          <input value={s.timezone} onChange={(e) => set("timezone", e.target.value)} className={`${fieldCls} w-48`} />
+          <button
+            type="button"
+            onClick={fillBrowserTimezone}
+            className="rounded border border-white/20 bg-white/10 px-2 py-1 text-xs hover:bg-white/20"
+          >
+            Use this device&apos;s
+          </button>
+        </div>
+
+        <label className="flex flex-wrap items-center gap-2 text-sm">
+          Default alert cooldown
+          <select
+            value={s.cooldownHours}
+            onChange={(e) => set("cooldownHours", Number(e.target.value))}
+            className={fieldCls}
+          >
+            <option value={0}>{describeCooldown(0)}</option>
+            {COOLDOWN_CHOICES.map((h) => (
+              <option key={h} value={h}>
+                {describeCooldown(h)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <p className="text-[11px] text-white/50">
+          Notifications held by quiet hours or a digest go out together afterwards, and stay in your inbox either way.
+        </p>
+      </div>
+
+      {msg ? (
+        <div
+          className={
+            msg.kind === "ok"
+              ? "rounded-lg border border-emerald-400/30 bg-emerald-500/10 p-3 text-sm text-emerald-100"
+              : "rounded-lg border border-rose-400/30 bg-rose-500/10 p-3 text-sm text-rose-100"
+          }
+        >
+          {msg.text}
+        </div>
+      ) : null}
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => save()}
+          disabled={saving}
+          className="rounded-md border border-emerald-400/40 bg-emerald-500/20 px-3 py-1.5 text-sm font-medium text-emerald-50 hover:bg-emerald-500/30 disabled:opacity-60"
+        >
+          {saving ? "Saving…" : "Save settings"}
+        </button>
+        <button
+          type="button"
+          onClick={sendTest}
+          disabled={testing}
+          className="rounded-md border border-white/25 bg-white/10 px-3 py-1.5 text-sm hover:bg-white/20 disabled:opacity-60"
+        >
+          {testing ? "Sending…" : "Send a test"}
+        </button>
+      </div>
+    </div>
+  );
+}
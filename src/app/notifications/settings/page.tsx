@@ -0,0 +1,51 @@
+// src/app/notifications/settings/page.tsx
+import "server-only";
+
+import Link from "next/link";
+import { auth } from "@clerk/nextjs/server";
+import { getNotificationSettings } from "@/lib/notifications/notifications";
+import NotificationSettingsClient from "@/app/notifications/settings/NotificationSettingsClient";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default async function NotificationSettingsPage() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return (
+      <section className="p-8 text-white">
+        <h1 className="text-2xl font-bold">You must sign in</h1>
+        <p className="mt-2">
+          <Link href="/sign-in" className="underline">
+            Sign in
+          </Link>{" "}
+          to manage your notifications.
+        </p>
+      </section>
+    );
+  }
+
+  const settings = await getNotificationSettings(userId);
+
+  return (
+    <section className="mx-auto max-w-3xl space-y-6 p-4 text-white">
+      <header className="space-y-2">
+        <h1 className="text-2xl font-bold">Notification Settings</h1>
+        <p className="text-sm text-white/70">
+          Choose where price and collection alerts reach you, whether they arrive as they happen or in a digest, and
+          when to hold them. Each alert also waits out a cooldown before it can notify you again.
+        </p>
+      </header>
+
+      <NotificationSettingsClient initial={settings} />
+
+      <div className="flex gap-4 text-sm text-white/60">
+        <Link href="/pro" className="text-sky-300 hover:underline">
+          ← Back to alerts
+        </Link>
+      </div>
+    </section>
+  );
+}
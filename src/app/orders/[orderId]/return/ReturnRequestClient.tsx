@@ -0,0 +1,172 @@
+"use client";
+
+import { useState } from "react";
+import type { OrderReturnView, ReturnableOrder } from "@/lib/orders/returns";
+import {
+  RETURN_REASONS,
+  RETURN_REASON_LABELS,
+  RETURN_STATUS_LABELS,
+  type ReturnReason,
+} from "@/lib/orders/returnsFlow";
+
+type Props = { order: ReturnableOrder; initialReturns: OrderReturnView[] };
+
+const fieldCls = "rounded-md border border-white/15 bg-zinc-900 px-2 py-1.5 text-sm text-white";
+const cardCls = "space-y-3 rounded-xl border border-white/20 bg-black/40 p-4";
+
+function money(cents: number, currency: string) {
+  return `${currency.toUpperCase()} $${(cents / 100).toFixed(2)}`;
+}
+
+function fmtDate(iso: string) {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? "" : d.toLocaleDateString(undefined, { dateStyle: "medium" });
+}
+
+export default function ReturnRequestClient({ order, initialReturns }: Props) {
+  const [returns, setReturns] = useState(initialReturns);
+  const [qty, setQty] = useState<Record<string, number>>({});
+  const [reasonCode, setReasonCode] = useState<ReturnReason | "">("");
+  const [note, setNote] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<{ kind: "ok" | "err"; text: string } | null>(null);
+
+  const available = order.items.filter((it) => it.qty - it.requestedQty > 0);
+
+  async function submit() {
+    setBusy(true);
+    setMsg(null);
+    try {
+      const res = await fetch(`/api/orders/${order.orderId}/returns`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          reasonCode,
+          note,
+          items: Object.entries(qty).map(([orderItemId, n]) => ({ orderItemId, qty: n })),
+        }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!json?.ok) {
+        setMsg({ kind: "err", text: json?.message ?? "Could not send your request." });
+        return;
+      }
+      setReturns((prev) => [json.return, ...prev]);
+      setQty({});
+      setNote("");
+      setReasonCode("");
+      setMsg({ kind: "ok", text: "Return requested. We'll let you know once it's approved." });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {returns.map((r) => (
+        <div key={r.id} className={cardCls}>
+          <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+            <span className="font-medium">Requested {fmtDate(r.createdAt)}</span>
+            <span className="rounded-full border border-white/20 px-2 py-0.5 text-xs">{RETURN_STATUS_LABELS[r.status]}</span>
+          </div>
+          <ul className="text-sm text-white/80">
+            {r.items.map((it) => (
+              <li key={it.id}>
+                {it.title} × {it.qty}
+              </li>
+            ))}
+          </ul>
+          <div className="text-xs text-white/60">
+            {RETURN_REASON_LABELS[r.reasonCode]}
+            {r.customerNote ? ` — ${r.customerNote}` : ""}
+          </div>
+          {r.adminNote ? <div className="text-xs text-white/80">From us: {r.adminNote}</div> : null}
+        </div>
+      ))}
+
+      {!order.eligible ? (
+        <div className="rounded-lg border border-dashed border-white/20 bg-black/30 p-4 text-sm text-white/70">
+          This order can no longer be returned online. Contact support and we&apos;ll help.
+        </div>
+      ) : !available.length ? (
+        <div className="rounded-lg border border-dashed border-white/20 bg-black/30 p-4 text-sm text-white/70">
+          Everything on this order is already on a return.
+        </div>
+      ) : (
+        <div className={cardCls}>
+          <h2 className="text-lg font-semibold">Request a return</h2>
+
+          <ul className="space-y-2">
+            {available.map((it) => {
+              const max = it.qty - it.requestedQty;
+              return (
+                <li key={it.orderItemId} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                  <span className="min-w-0 flex-1">
+                    {it.title}
+                    <span className="ml-2 text-xs text-white/60">{money(it.unitPriceCents, order.currency)} each</span>
+                  </span>
+                  <select
+                    value={qty[it.orderItemId] ?? 0}
+                    onChange={(e) => setQty((prev) => ({ ...prev, [it.orderItemId]: Number(e.target.value) }))}
+                    className={fieldCls}
+                  >
+                    {Array.from({ length: max + 1 }, (_, n) => (
+                      <option key={n} value={n}>
+                        {n === 0 ? "Keep" : `Return ${n}`}
+                      </option>
+                    ))}
+                  </select>
+                </li>
+              );
+            })}
+          </ul>
+
+          <label className="flex flex-wrap items-center gap-2 text-sm">
+            Reason
+            <select
+              value={reasonCode}
+              onChange={(e) => setReasonCode(e.target.value as ReturnReason | "")}
+              className={fieldCls}
+            >
+              <option value="">Choose…</option>
+              {RETURN_REASONS.map((r) => (
+                <option key={r} value={r}>
+                  {RETURN_REASON_LABELS[r]}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={3}
+            placeholder="Anything we should know? Photos of damage help — reply to our email with them."
+            className={`${fieldCls} w-full`}
+          />
+
+          <button
+            type="button"
+            onClick={submit}
+            disabled={busy}
+            className="rounded-md border border-emerald-400/40 bg-emerald-500/20 px-3 py-1.5 text-sm font-medium text-emerald-50 hover:bg-emerald-500/30 disabled:opacity-60"
+          >
+            {busy ? "Sending…" : "Request return"}
+          </button>
+        </div>
+      )}
+
+      {msg ? (
+        <div
+          className={
+            msg.kind === "ok"
+              ? "rounded-lg border border-emerald-400/30 bg-emerald-500/10 p-3 text-sm text-emerald-100"
+              : "rounded-lg border border-rose-400/30 bg-rose-500/10 p-3 text-sm text-rose-100"
+          }
+        >
+          {msg.text}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+// src/app/orders/[orderId]/return/page.tsx
+import "server-only";
+
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { auth } from "@clerk/nextjs/server";
+import { getReturnableOrder, listOrderReturns } from "@/lib/orders/returns";
+import { ReturnError, RETURN_WINDOW_DAYS } from "@/lib/orders/returnsFlow";
+import ReturnRequestClient from "./ReturnRequestClient";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export default async function OrderReturnPage({ params }: { params: Promise<{ orderId: string }> }) {
+  const { orderId } = await params;
+  if (!UUID_RE.test(orderId)) notFound();
+
+  const { userId } = await auth();
+  if (!userId) {
+    return (
+      <section className="p-8 text-white">
+        <h1 className="text-2xl font-bold">You must sign in</h1>
+        <p className="mt-2">
+          <Link href={`/sign-in?redirect_url=${encodeURIComponent(`/orders/${orderId}/return`)}`} className="underline">
+            Sign in
+          </Link>{" "}
+          to return items from your order.
+        </p>
+      </section>
+    );
+  }
+
+  let order;
+  try {
+    order = await getReturnableOrder(userId, orderId);
+  } catch (err) {
+    if (err instanceof ReturnError && err.status === 404) notFound();
+    throw err;
+  }
+  const returns = await listOrderReturns(orderId);
+
+  return (
+    <section className="mx-auto max-w-3xl space-y-6 p-4 text-white">
+      <header className="space-y-2">
+        <h1 className="text-2xl font-bold">Returns for order #{orderId.slice(0, 8).toUpperCase()}</h1>
+        <p className="text-sm text-white/70">
+          You can request a return within {RETURN_WINDOW_DAYS} days of your order. Once we approve it, ship the items
+          back; we&apos;ll refund you after they arrive. Questions? Email support@legendary-collectibles.com.
+        </p>
+      </header>
+
+      <ReturnRequestClient order={order} initialReturns={returns} />
+    </section>
+  );
+}
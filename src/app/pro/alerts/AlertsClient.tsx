@@ -1,13 +1,17 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import { describeAlertRule, readAlertRule, type PriceAlertRuleType } from "@/lib/alerts/rules";
 
 type AlertRow = {
   id: string;
   game: string;
-  rule_type: "above" | "below";
-  threshold: number;
+  rule_type: PriceAlertRuleType;
+  threshold: number | null;
+  params: Record<string, unknown> | null;
   active: boolean;
+  is_firing?: boolean;
+  last_triggered_at?: string | null;
 
   display_name: string;
   set_name?: string | null;
@@ -15,8 +19,12 @@ type AlertRow = {
   image_url?: string | null;
 };
 
-function fmtUsd(n: number) {
-  return n.toLocaleString(undefined, { style: "currency", currency: "USD" });
+function ruleText(a: AlertRow) {
+  try {
+    return describeAlertRule(readAlertRule(a));
+  } catch {
+    return a.rule_type;
+  }
 }
 
 function gameLabel(g: string) {
@@ -37,7 +45,7 @@ export default function AlertsClient() {
     try {
       const res = await fetch("/api/pro/alerts", { cache: "no-store" });
       const json = await res.json();
-      setRows(json.rows ?? []);
+      setRows(json.alerts ?? json.rows ?? []);
     } catch (e: any) {
       setErr("Failed to load alerts");
     } finally {
@@ -100,11 +108,18 @@ export default function AlertsClient() {
               {a.number ? ` #${a.number}` : ""}
             </div>
             <div className="mt-1 text-xs text-white/70">
-              Alert when price goes{" "}
-              <span className="font-semibold">
-                {a.rule_type === "above" ? "above" : "below"} {fmtUsd(a.threshold)}
-              </span>
+              Alert when: <span className="font-semibold">{ruleText(a)}</span>
+              {a.is_firing ? (
+                <span className="ml-2 rounded-full border border-amber-400/40 bg-amber-500/15 px-2 py-0.5 text-[11px] text-amber-100">
+                  Triggered
+                </span>
+              ) : null}
             </div>
+            {a.last_triggered_at ? (
+              <div className="mt-0.5 text-[11px] text-white/50">
+                Last alerted {new Date(a.last_triggered_at).toLocaleDateString()}
+              </div>
+            ) : null}
           </div>
 
           <button
@@ -0,0 +1,247 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { CollectionAlertView } from "@/lib/alerts/collectionAlerts";
+import {
+  COLLECTION_ALERT_RULE_LABELS,
+  COLLECTION_ALERT_RULE_TYPES,
+  type CollectionAlertRuleType,
+} from "@/lib/alerts/collectionRules";
+import { COOLDOWN_CHOICES, describeCooldown } from "@/lib/notifications/policy";
+
+type Scopes = { folders: string[]; games: string[] };
+type ScopeKind = "collection" | "folder" | "game";
+
+function gameLabel(g: string) {
+  if (g === "pokemon") return "Pokémon";
+  if (g === "mtg") return "Magic";
+  if (g === "yugioh") return "Yu-Gi-Oh!";
+  return g;
+}
+
+const fieldCls = "rounded-md border border-white/15 bg-zinc-900 px-2 py-1.5 text-sm text-white";
+
+export default function CollectionAlertsClient() {
+  const [alerts, setAlerts] = useState<CollectionAlertView[]>([]);
+  const [scopes, setScopes] = useState<Scopes>({ folders: [], games: [] });
+  const [loading, setLoading] = useState(true);
+
+  const [kind, setKind] = useState<ScopeKind>("collection");
+  const [target, setTarget] = useState("");
+  const [rule, setRule] = useState<CollectionAlertRuleType>("value_pct_down");
+  const [amount, setAmount] = useState("10");
+  const [windowDays, setWindowDays] = useState("7");
+  const [cooldown, setCooldown] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  async function load() {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/pro/collection-alerts", { cache: "no-store" });
+      const json = await res.json().catch(() => null);
+      setAlerts(json?.alerts ?? []);
+      setScopes(json?.scopes ?? { folders: [], games: [] });
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  function pickRule(next: CollectionAlertRuleType) {
+    setRule(next);
+    if (next === "item_move_usd") {
+      setAmount("25");
+      setWindowDays("1");
+    } else if (next === "item_move_pct") {
+      setAmount("20");
+      setWindowDays("1");
+    } else {
+      setAmount("10");
+      setWindowDays("7");
+    }
+  }
+
+  async function save() {
+    setErr(null);
+    setSaving(true);
+    try {
+      const scope =
+        kind === "folder"
+          ? { kind, folder: target || scopes.folders[0] }
+          : kind === "game"
+            ? { kind, game: target || scopes.games[0] }
+            : { kind };
+      const params =
+        rule === "item_move_usd" ? { amountUsd: Number(amount), windowDays } : { pct: Number(amount), windowDays };
+
+      const res = await fetch("/api/pro/collection-alerts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ scope, rule_type: rule, params, cooldown_hours: cooldown ? Number(cooldown) : null }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!json?.ok) {
+        setErr(json?.message ?? json?.error ?? "Could not save the alert.");
+        return;
+      }
+      await load();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function toggle(a: CollectionAlertView) {
+    await fetch(`/api/pro/collection-alerts/${a.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ active: !a.active }),
+    });
+    await load();
+  }
+
+  async function remove(id: string) {
+    await fetch(`/api/pro/collection-alerts/${id}`, { method: "DELETE" });
+    setAlerts((rows) => rows.filter((r) => r.id !== id));
+  }
+
+  const targets = kind === "folder" ? scopes.folders : kind === "game" ? scopes.games : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={kind}
+          onChange={(e) => {
+            setKind(e.target.value as ScopeKind);
+            setTarget("");
+          }}
+          className={fieldCls}
+        >
+          <option value="collection">Whole collection</option>
+          <option value="folder" disabled={!scopes.folders.length}>
+            A folder
+          </option>
+          <option value="game" disabled={!scopes.games.length}>
+            A game
+          </option>
+        </select>
+
+        {targets.length ? (
+          <select value={target || targets[0]} onChange={(e) => setTarget(e.target.value)} className={fieldCls}>
+            {targets.map((t) => (
+              <option key={t} value={t}>
+                {kind === "game" ? gameLabel(t) : t}
+              </option>
+            ))}
+          </select>
+        ) : null}
+
+        <select value={rule} onChange={(e) => pickRule(e.target.value as CollectionAlertRuleType)} className={fieldCls}>
+          {COLLECTION_ALERT_RULE_TYPES.map((r) => (
+            <option key={r} value={r}>
+              {COLLECTION_ALERT_RULE_LABELS[r]}
+            </option>
+          ))}
+        </select>
+
+        <label className="flex items-center gap-1 text-white/70">
+          {rule === "item_move_usd" ? "$" : "%"}
+          <input
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            inputMode="decimal"
+            className="w-20 rounded-md border border-white/15 bg-white/5 px-2 py-1.5 text-white"
+          />
+        </label>
+
+        <label className="flex items-center gap-1 text-white/70">
+          over
+          <input
+            value={windowDays}
+            onChange={(e) => setWindowDays(e.target.value)}
+            inputMode="numeric"
+            className="w-14 rounded-md border border-white/15 bg-white/5 px-2 py-1.5 text-white"
+          />
+          days
+        </label>
+
+        <select value={cooldown} onChange={(e) => setCooldown(e.target.value)} className={fieldCls} title="Notify at most">
+          <option value="">Default cooldown</option>
+          {COOLDOWN_CHOICES.map((h) => (
+            <option key={h} value={h}>
+              {describeCooldown(h)}
+            </option>
+          ))}
+        </select>
+
+        <button
+          type="button"
+          onClick={save}
+          disabled={saving}
+          className="rounded-md border border-emerald-400/40 bg-emerald-500/20 px-3 py-1.5 text-xs font-medium text-emerald-50 hover:bg-emerald-500/30 disabled:opacity-60"
+        >
+          {saving ? "Saving…" : "Add alert"}
+        </button>
+        {err ? <span className="text-xs text-rose-200">{err}</span> : null}
+      </div>
+
+      {loading ? (
+        <div className="text-sm text-white/60">Loading collection alerts…</div>
+      ) : !alerts.length ? (
+        <div className="rounded-lg border border-dashed border-white/20 bg-black/30 p-4 text-sm text-white/70">
+          No collection alerts yet. One alert here watches every card in its scope.
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {alerts.map((a) => (
+            <li
+              key={a.id}
+              className="flex flex-wrap items-center gap-3 rounded-xl border border-white/20 bg-black/40 p-3 text-sm"
+            >
+              <div className="min-w-0 flex-1">
+                <div className="font-medium">
+                  {a.scope.kind === "game" ? `${gameLabel(a.scope.game)} cards` : a.scopeLabel}
+                </div>
+                <div className="text-xs text-white/70">
+                  {a.ruleLabel}
+                  {a.isFiring ? (
+                    <span className="ml-2 rounded-full border border-amber-400/40 bg-amber-500/15 px-2 py-0.5 text-[11px] text-amber-100">
+                      Triggered
+                    </span>
+                  ) : null}
+                  {!a.active ? <span className="ml-2 text-white/40">Paused</span> : null}
+                  {a.cooldownHours != null ? (
+                    <span className="ml-2 text-white/40">{describeCooldown(a.cooldownHours)}</span>
+                  ) : null}
+                </div>
+                {a.lastTriggeredAt ? (
+                  <div className="text-[11px] text-white/50">
+                    Last alerted {new Date(a.lastTriggeredAt).toLocaleDateString()}
+                  </div>
+                ) : null}
+              </div>
+              <button
+                type="button"
+                onClick={() => toggle(a)}
+                className="rounded-md border border-white/25 bg-white/10 px-2 py-1 text-xs hover:bg-white/20"
+              >
+                {a.active ? "Pause" : "Resume"}
+              </button>
+              <button
+                type="button"
+                onClick={() => remove(a.id)}
+                className="rounded-md border border-white/25 bg-white/10 px-2 py-1 text-xs hover:bg-white/20"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { db } from "@/lib/db";
 
 import ProMoversCard from "./pro-movers-card";
 import AlertsClient from "./alerts/AlertsClient";
+import CollectionAlertsClient from "./alerts/CollectionAlertsClient";
 import { getUserPlan } from "@/lib/plans";
 
 export const runtime = "nodejs";
@@ -134,6 +135,17 @@ export default async function ProPage() {
           <DownloadLink href="/api/exports/collection?game=mtg">Export MTG CSV</DownloadLink>
           <DownloadLink href="/api/exports/collection?game=yugioh">Export YGO CSV</DownloadLink>
         </div>
+
+        <p className="mt-4 opacity-80">Take your collection to other apps, or keep a backup you can import here.</p>
+
+        <div className="mt-2 flex flex-wrap gap-2">
+          <DownloadLink href="/api/exports/collection?format=tcgplayer">TCGplayer Mass Entry</DownloadLink>
+          <DownloadLink href="/api/exports/collection?format=moxfield">Moxfield (MTG)</DownloadLink>
+          <DownloadLink href="/api/exports/collection?format=archidekt">Archidekt (MTG)</DownloadLink>
+          <DownloadLink href="/api/exports/collection?format=mtgo">MTGO .dek</DownloadLink>
+          <DownloadLink href="/api/exports/collection?format=ydk">YGOPRODeck .ydk</DownloadLink>
+          <DownloadLink href="/api/exports/collection?format=json">Backup JSON</DownloadLink>
+        </div>
       </section>
 
       {/* Insurance */}
@@ -163,6 +175,22 @@ export default async function ProPage() {
           </div>
         )}
       </section>
+
+      {/* Collection Alerts */}
+      <section className="mt-6 rounded-2xl border border-white/20 bg-black/40 p-4 backdrop-blur-sm">
+        <div className="mb-3">
+          <h2 className="text-lg font-semibold">Collection Alerts</h2>
+          <p className="text-xs text-white/60">
+            One alert over your whole collection, a folder or a game — e.g. a folder dropping 10% week over week, or
+            any card you own moving more than $25 in a day.
+          </p>
+          <Link href="/notifications/settings" className="mt-1 inline-block text-xs text-sky-300 hover:underline">
+            Delivery, digests &amp; quiet hours →
+          </Link>
+        </div>
+
+        <CollectionAlertsClient />
+      </section>
     </main>
   );
 }
@@ -1,20 +1,179 @@
 // src/app/search/page.tsx
-export const dynamic = "force-static";
-export default function SearchPage({ searchParams }: { searchParams?: { q?: string } }) {
-  const q = (searchParams?.q ?? "").trim();
+import "server-only";
+
+import type { Metadata } from "next";
+import Link from "next/link";
+import Image from "next/image";
+import { site } from "@/config/site";
+import { searchEverything } from "@/lib/search/engine";
+import { SEARCH_GAME_LABELS, normalizeSearchGame, type SearchGame } from "@/lib/search/games";
+import SaveSearchButton from "@/components/search/SaveSearchButton";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+export const metadata: Metadata = {
+  title: `Search | ${site.name}`,
+  description: "Search Pokémon, Magic: The Gathering, Yu-Gi-Oh!, Funko, sports cards and the shop in one place.",
+  robots: { index: false, follow: true },
+};
+
+function lastVal(v?: string | string[]) {
+  if (Array.isArray(v)) return v[v.length - 1];
+  return v;
+}
+
+function buildHref(q: string, game: SearchGame | null) {
+  const p = new URLSearchParams();
+  if (q) p.set("q", q);
+  if (game) p.set("game", game);
+  const s = p.toString();
+  return s ? `/search?${s}` : "/search";
+}
+
+function money(cents: number | null) {
+  if (cents == null) return null;
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+export default async function SearchPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const sp = await searchParams;
+
+  const q = (lastVal(sp?.q) ?? "").trim();
+  const game = normalizeSearchGame(lastVal(sp?.game));
+
+  const result = q ? await searchEverything({ q, game, limit: 60 }) : null;
+  const allCount = result ? result.facets.reduce((acc, f) => acc + f.count, 0) : 0;
+
+  // game: inside the query (structured search) wins over the ?game= facet
+  const activeGame = result?.game ?? game;
+
   return (
-    <section className="mx-auto max-w-3xl p-6 text-white">
-      <h1 className="text-2xl font-bold mb-4">Search</h1>
-      <form className="flex gap-2 mb-6">
+    <section className="mx-auto max-w-6xl p-6 text-white">
+      <div className="mb-4 flex items-center justify-between gap-3">
+        <h1 className="text-2xl font-bold">Search</h1>
+        <Link href="/search/saved" className="text-sm text-indigo-200 hover:underline">
+          Saved searches
+        </Link>
+      </div>
+
+      <form action="/search" className="flex gap-2 mb-6">
         <input
           name="q"
           defaultValue={q}
-          placeholder="Search…"
+          placeholder="Search cards, sets, Funko, or products…"
           className="flex-1 rounded border border-white/20 bg-white/10 px-3.5 py-2.5"
         />
+        {game ? <input type="hidden" name="game" value={game} /> : null}
         <button className="rounded border border-white/20 bg-white/10 px-4 py-2.5">Go</button>
       </form>
-      {q ? <p>Showing results for: <strong>{q}</strong></p> : <p>Type a query and press Go.</p>}
+
+      {!q ? (
+        <p className="text-white/80">
+          Type a query and press Go. Card fields work too, e.g.{" "}
+          <code className="text-indigo-200">game:mtg set:mh3 rarity:mythic price&gt;20</code>
+        </p>
+      ) : result && result.errors.length ? (
+        <div className="rounded-lg border border-red-400/40 bg-red-500/10 p-3 text-sm text-red-100">
+          <div className="font-semibold">Couldn’t understand that search</div>
+          <ul className="mt-1 list-disc pl-5">
+            {result.errors.map((e) => (
+              <li key={`${e.position}-${e.token}`}>
+                <code className="text-red-200">{e.token}</code> — {e.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : !result || result.facets.length === 0 ? (
+        <div className="space-y-3">
+          <p className="text-white/80">
+            No results for <strong>{q}</strong>. Try a shorter name or check the spelling.
+          </p>
+          <p className="text-sm text-white/70">
+            Waiting on something that isn’t listed yet? Save this search and we’ll email you when it shows up.
+          </p>
+          <SaveSearchButton kind="catalog" query={q} game={game} />
+        </div>
+      ) : (
+        <>
+          {/* Game facets */}
+          <div className="mb-5 flex flex-wrap gap-2 text-sm">
+            <Link
+              href={buildHref(q, null)}
+              className={`rounded-full border px-3 py-1 ${
+                !activeGame ? "border-indigo-400 bg-indigo-500/20" : "border-white/20 bg-white/5 hover:bg-white/10"
+              }`}
+            >
+              All ({allCount.toLocaleString("en-US")})
+            </Link>
+            {result.facets.map((f) => (
+              <Link
+                key={f.game}
+                href={buildHref(q, f.game)}
+                className={`rounded-full border px-3 py-1 ${
+                  activeGame === f.game
+                    ? "border-indigo-400 bg-indigo-500/20"
+                    : "border-white/20 bg-white/5 hover:bg-white/10"
+                }`}
+              >
+                {f.label} ({f.count.toLocaleString("en-US")})
+              </Link>
+            ))}
+          </div>
+
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-white/70">
+              Showing {result.hits.length.toLocaleString("en-US")} of {result.total.toLocaleString("en-US")} results for{" "}
+              <strong className="text-white">{q}</strong>
+              {activeGame ? ` in ${SEARCH_GAME_LABELS[activeGame]}` : ""}
+            </p>
+            <SaveSearchButton kind="catalog" query={q} game={game} />
+          </div>
+
+          <ul className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-5">
+            {result.hits.map((h) => (
+              <li
+                key={`${h.game}:${h.id}`}
+                className="overflow-hidden rounded-xl border border-white/10 bg-white/5 transition hover:border-white/20 hover:bg-white/10"
+              >
+                <Link href={h.href} className="block">
+                  <div className="relative w-full" style={{ aspectRatio: "3 / 4" }}>
+                    {h.imageUrl ? (
+                      <Image
+                        src={h.imageUrl}
+                        alt={h.title}
+                        fill
+                        unoptimized
+                        className="object-contain"
+                        sizes="(max-width: 640px) 50vw, (max-width: 1024px) 33vw, 20vw"
+                      />
+                    ) : (
+                      <div className="absolute inset-0 grid place-items-center text-white/70">No image</div>
+                    )}
+                  </div>
+                  <div className="p-3">
+                    <div className="mb-1 text-[11px] uppercase tracking-wide text-indigo-300">
+                      {SEARCH_GAME_LABELS[h.game]}
+                    </div>
+                    <div className="line-clamp-2 text-sm font-semibold">{h.title}</div>
+                    {h.subtitle ? <div className="mt-1 line-clamp-1 text-xs text-white/70">{h.subtitle}</div> : null}
+                    {money(h.priceCents) ? (
+                      <div className="mt-1 text-sm font-medium text-emerald-300">{money(h.priceCents)}</div>
+                    ) : null}
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
     </section>
   );
 }
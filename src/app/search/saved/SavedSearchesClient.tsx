@@ -0,0 +1,156 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+
+type SavedSearch = {
+  id: string;
+  name: string;
+  kind: "catalog" | "shop";
+  query: string | null;
+  game: string | null;
+  filters: Record<string, unknown> | null;
+  notifyEmail: boolean;
+  active: boolean;
+  lastCheckedAt: string | null;
+  lastNotifiedAt: string | null;
+  matchCount: number;
+};
+
+function openHref(s: SavedSearch) {
+  if (s.kind === "catalog") {
+    const p = new URLSearchParams();
+    if (s.query) p.set("q", s.query);
+    if (s.game) p.set("game", s.game);
+    return `/search?${p.toString()}`;
+  }
+
+  const f = s.filters ?? {};
+  const game = typeof f.game === "string" ? f.game : "";
+  const format = typeof f.format === "string" ? f.format : "all";
+  const p = new URLSearchParams();
+  for (const [k, v] of Object.entries(f)) {
+    if (k === "game" || k === "format" || v == null || v === "") continue;
+    p.set(k, String(v));
+  }
+  const qs = p.toString();
+  return game ? `/shop/${game}/${format}${qs ? `?${qs}` : ""}` : "/shop";
+}
+
+function fmtDate(v: string | null) {
+  if (!v) return "never";
+  return new Date(v).toLocaleString();
+}
+
+export default function SavedSearchesClient() {
+  const [rows, setRows] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+
+  async function load() {
+    setLoading(true);
+    setErr(null);
+    try {
+      const res = await fetch("/api/saved-searches", { cache: "no-store" });
+      const json = await res.json();
+      if (!json?.ok) throw new Error(json?.message || "Failed");
+      setRows(json.searches ?? []);
+    } catch {
+      setErr("Failed to load saved searches");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function update(id: string, patch: Partial<Pick<SavedSearch, "notifyEmail" | "active">>) {
+    setRows((r) => r.map((x) => (x.id === id ? { ...x, ...patch } : x)));
+    const res = await fetch(`/api/saved-searches/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(patch),
+    });
+    if (!res.ok) load();
+  }
+
+  async function remove(id: string) {
+    await fetch(`/api/saved-searches/${id}`, { method: "DELETE" });
+    setRows((r) => r.filter((x) => x.id !== id));
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  if (loading) {
+    return <div className="text-sm text-white/60">Loading saved searches…</div>;
+  }
+
+  if (err) {
+    return (
+      <div className="rounded-lg border border-rose-400/30 bg-rose-500/10 p-3 text-sm text-rose-100">
+        {err}
+      </div>
+    );
+  }
+
+  if (rows.length === 0) {
+    return (
+      <div className="rounded-lg border border-dashed border-white/20 bg-black/30 p-4 text-sm text-white/70">
+        You don’t have any saved searches yet.
+        <div className="mt-2 text-xs text-white/60">
+          Run a <Link href="/search" className="underline">search</Link> or set shop filters, then hit “Save search”.
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {rows.map((s) => (
+        <div
+          key={s.id}
+          className="flex flex-wrap items-center gap-3 rounded-xl border border-white/20 bg-black/40 p-3"
+        >
+          <div className="min-w-0 flex-1">
+            <Link href={openHref(s)} className="font-medium hover:underline">
+              {s.name}
+            </Link>
+            <div className="text-xs text-white/60">
+              {s.kind === "catalog" ? "Catalog search" : "Shop filter"}
+              {s.kind === "catalog" && s.query ? ` • ${s.query}` : ""}
+              {` • ${s.matchCount} tracked`}
+            </div>
+            <div className="mt-1 text-xs text-white/50">
+              Last checked {fmtDate(s.lastCheckedAt)} • last emailed {fmtDate(s.lastNotifiedAt)}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-1 text-xs text-white/80">
+            <input
+              type="checkbox"
+              checked={s.notifyEmail}
+              onChange={(e) => update(s.id, { notifyEmail: e.target.checked })}
+            />
+            Email me
+          </label>
+
+          <label className="flex items-center gap-1 text-xs text-white/80">
+            <input
+              type="checkbox"
+              checked={s.active}
+              onChange={(e) => update(s.id, { active: e.target.checked })}
+            />
+            Active
+          </label>
+
+          <button
+            onClick={() => remove(s.id)}
+            className="rounded-md border border-white/25 bg-white/10 px-2 py-1 text-xs hover:bg-white/20"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+// src/app/search/saved/page.tsx
+import "server-only";
+
+import type { Metadata } from "next";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { auth } from "@clerk/nextjs/server";
+import { site } from "@/config/site";
+import SavedSearchesClient from "./SavedSearchesClient";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export const metadata: Metadata = {
+  title: `Saved Searches | ${site.name}`,
+  robots: { index: false, follow: false },
+};
+
+export default async function SavedSearchesPage() {
+  const { userId } = await auth();
+  if (!userId) {
+    redirect(`/sign-in?redirect_url=${encodeURIComponent("/search/saved")}`);
+  }
+
+  return (
+    <section className="mx-auto max-w-4xl p-6 text-white">
+      <div className="mb-4 flex items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold">Saved Searches</h1>
+          <p className="text-sm text-white/70">
+            We check these daily and email you when new cards, sets or shop listings match.
+          </p>
+        </div>
+        <Link href="/search" className="text-sm text-indigo-200 hover:underline">
+          New search
+        </Link>
+      </div>
+
+      <SavedSearchesClient />
+    </section>
+  );
+}
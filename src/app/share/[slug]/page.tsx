@@ -0,0 +1,157 @@
+// src/app/share/[slug]/page.tsx
+import "server-only";
+
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { site } from "@/config/site";
+import { getShareMetadata } from "@/lib/seo";
+import { getPublicShare } from "@/lib/shares/shares";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type Params = { params: Promise<{ slug: string }> };
+
+function money(cents: number | null) {
+  if (cents == null) return null;
+  return (cents / 100).toLocaleString("en-US", { style: "currency", currency: "USD" });
+}
+
+const GAME_LABELS: Record<string, string> = {
+  pokemon: "Pokémon",
+  mtg: "Magic",
+  yugioh: "Yu-Gi-Oh!",
+  funko: "Funko",
+};
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const { slug } = await params;
+  const share = await getPublicShare(slug);
+
+  if (!share) {
+    return {
+      title: `Link not found | ${site.name}`,
+      robots: { index: false, follow: false },
+    };
+  }
+
+  const parts = [`${share.summary.cards} cards`];
+  const value = money(share.summary.valueCents);
+  if (value) parts.push(`worth ${value}`);
+
+  return getShareMetadata({
+    title: share.title,
+    description: share.description || `${parts.join(" ")} on ${site.name}.`,
+    image: share.items.find((i) => i.imageUrl)?.imageUrl,
+    slug: share.slug,
+  });
+}
+
+export default async function SharePage({ params }: Params) {
+  const { slug } = await params;
+  const share = await getPublicShare(slug, { countView: true });
+  if (!share) notFound();
+
+  const { summary } = share;
+  const stats = [
+    { label: share.kind === "wishlist" ? "Wanted" : "Cards", value: summary.cards.toLocaleString() },
+    summary.copies != null ? { label: "Copies", value: summary.copies.toLocaleString() } : null,
+    summary.valueCents != null ? { label: "Market value", value: money(summary.valueCents) } : null,
+    summary.costCents != null ? { label: "Cost basis", value: money(summary.costCents) } : null,
+  ].filter(Boolean) as { label: string; value: string | null }[];
+
+  return (
+    <section className="mx-auto max-w-6xl space-y-6 p-4 text-white">
+      <header className="space-y-3 rounded-2xl border border-white/15 bg-white/5 p-4 backdrop-blur-sm">
+        <div className="text-xs uppercase tracking-wide text-white/50">
+          {share.kind === "wishlist" ? "Wishlist" : share.kind === "folder" ? "Binder" : "Collection"}
+        </div>
+        <h1 className="text-2xl font-bold">{share.title}</h1>
+        {share.description ? <p className="text-sm text-white/70">{share.description}</p> : null}
+
+        <div className="flex flex-wrap gap-3">
+          {stats.map((s) => (
+            <div key={s.label} className="rounded-lg border border-white/10 bg-black/20 px-3 py-2">
+              <div className="text-xs text-white/50">{s.label}</div>
+              <div className="text-lg font-semibold">{s.value}</div>
+            </div>
+          ))}
+        </div>
+
+        {share.ownerHandle ? (
+          <p className="text-sm text-white/60">
+            Want to trade? Send an offer to{" "}
+            <Link href="/trade" className="text-sky-300 hover:underline">
+              @{share.ownerHandle}
+            </Link>{" "}
+            in the Trade Center.
+          </p>
+        ) : null}
+      </header>
+
+      {!share.items.length ? (
+        <div className="rounded-2xl border border-white/15 bg-white/5 p-6 text-center text-sm text-white/60">
+          Nothing here yet.
+        </div>
+      ) : (
+        <ul className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
+          {share.items.map((it, i) => {
+            const card = (
+              <>
+                <div className="aspect-[63/88] overflow-hidden rounded-md bg-black/30">
+                  {it.imageUrl ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img src={it.imageUrl} alt={it.name} loading="lazy" className="h-full w-full object-contain" />
+                  ) : (
+                    <div className="flex h-full items-center justify-center text-xs text-white/40">No image</div>
+                  )}
+                </div>
+                <div className="mt-2 space-y-0.5 text-xs">
+                  <div className="truncate font-medium text-white" title={it.name}>
+                    {it.quantity != null && it.quantity > 1 ? `${it.quantity}× ` : ""}
+                    {it.name}
+                  </div>
+                  <div className="truncate text-white/50">
+                    {[GAME_LABELS[it.game] ?? it.game, it.setName].filter(Boolean).join(" · ")}
+                  </div>
+                  {it.variant || it.grade ? (
+                    <div className="truncate text-white/60">
+                      {[it.variant?.replace(/_/g, " "), it.grade].filter(Boolean).join(" · ")}
+                    </div>
+                  ) : null}
+                  {it.valueCents != null || it.costCents != null ? (
+                    <div className="flex gap-2 text-white/70">
+                      {it.valueCents != null ? <span>{money(it.valueCents)}</span> : null}
+                      {it.costCents != null ? <span className="text-white/40">cost {money(it.costCents)}</span> : null}
+                    </div>
+                  ) : null}
+                </div>
+              </>
+            );
+
+            return (
+              <li key={`${it.game}-${it.cardId}-${i}`} className="rounded-xl border border-white/10 bg-white/5 p-2">
+                {it.href ? (
+                  <Link href={it.href} className="block hover:opacity-90">
+                    {card}
+                  </Link>
+                ) : (
+                  card
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <p className="text-center text-xs text-white/40">
+        Shared from{" "}
+        <Link href="/" className="hover:underline">
+          {site.name}
+        </Link>
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,548 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import type { TradeScore } from "@/lib/trades/fairness";
+import type {
+  QuotedItem,
+  TradeableItem,
+  TradeEventView,
+  TradeOfferView,
+  TradeProfile,
+} from "@/lib/trades/trades";
+
+type Props = {
+  profile: TradeProfile | null;
+  myItems: TradeableItem[];
+  offers: TradeOfferView[];
+};
+
+type Picks = Record<string, number>;
+
+const STATUS_STYLES: Record<TradeOfferView["status"], string> = {
+  pending: "border-sky-400/40 bg-sky-500/15 text-sky-100",
+  countered: "border-amber-400/40 bg-amber-500/15 text-amber-100",
+  accepted: "border-emerald-400/40 bg-emerald-500/15 text-emerald-100",
+  declined: "border-red-400/40 bg-red-500/15 text-red-100",
+  cancelled: "border-white/20 bg-white/10 text-white/70",
+};
+
+function money(cents: number | null | undefined) {
+  if (cents == null) return "—";
+  return (cents / 100).toLocaleString("en-US", { style: "currency", currency: "USD" });
+}
+
+function itemLabel(it: Pick<TradeableItem, "cardName" | "cardId" | "setName" | "variantType" | "gradingCompany" | "gradeLabel">) {
+  const grade = it.gradingCompany ? `${it.gradingCompany} ${it.gradeLabel}`.trim() : null;
+  const variant = it.variantType && it.variantType !== "normal" ? it.variantType.replace(/_/g, " ") : null;
+  return [it.cardName ?? it.cardId, it.setName, variant, grade].filter(Boolean).join(" · ");
+}
+
+function toPickList(picks: Picks) {
+  return Object.entries(picks)
+    .filter(([, q]) => q > 0)
+    .map(([itemId, quantity]) => ({ itemId, quantity }));
+}
+
+/** "You give" / "You get" totals from the viewer's side of the score. */
+function viewerTotals(score: TradeScore, role: "proposer" | "recipient") {
+  const give = role === "proposer" ? score.proposerValueCents : score.recipientValueCents;
+  const get = role === "proposer" ? score.recipientValueCents : score.proposerValueCents;
+  return { give, get };
+}
+
+function Verdict({ score, role }: { score: TradeScore; role: "proposer" | "recipient" }) {
+  const { give, get } = viewerTotals(score, role);
+  const diff = get - give;
+  const pct = Math.round(score.imbalancePct * 100);
+
+  let text = "Even trade";
+  let cls = "border-emerald-400/40 bg-emerald-500/15 text-emerald-100";
+  if (score.verdict !== "fair") {
+    const ahead = (score.verdict === "favors_proposer") === (role === "proposer");
+    text = ahead ? `You come out ${money(Math.abs(diff))} ahead (${pct}%)` : `You give up ${money(Math.abs(diff))} (${pct}%)`;
+    cls = ahead
+      ? "border-sky-400/40 bg-sky-500/15 text-sky-100"
+      : "border-amber-400/40 bg-amber-500/15 text-amber-100";
+  }
+
+  return (
+    <div className={`rounded-lg border px-3 py-2 text-sm ${cls}`}>
+      <div className="font-medium">{text}</div>
+      <div className="text-xs opacity-80">
+        You give {money(give)} · You get {money(get)}
+        {score.unpricedItems ? ` · ${score.unpricedItems} card(s) without a price counted as $0` : ""}
+      </div>
+    </div>
+  );
+}
+
+function ItemPicker({
+  title,
+  items,
+  picks,
+  onChange,
+  empty,
+}: {
+  title: string;
+  items: TradeableItem[];
+  picks: Picks;
+  onChange: (next: Picks) => void;
+  empty: string;
+}) {
+  const [filter, setFilter] = useState("");
+  const shown = useMemo(() => {
+    const q = filter.trim().toLowerCase();
+    if (!q) return items;
+    return items.filter((it) => itemLabel(it).toLowerCase().includes(q));
+  }, [items, filter]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <h3 className="text-sm font-semibold">{title}</h3>
+        <input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className="ml-auto w-40 rounded bg-white/10 px-2 py-1 text-xs"
+          placeholder="Filter…"
+        />
+      </div>
+      <div className="max-h-80 space-y-1 overflow-y-auto rounded-lg border border-white/10 p-2">
+        {!shown.length ? <div className="text-xs text-white/50">{empty}</div> : null}
+        {shown.map((it) => {
+          const q = picks[it.itemId] ?? 0;
+          return (
+            <div key={it.itemId} className="flex items-center gap-2 text-xs">
+              <span className={`flex-1 truncate ${q ? "text-white" : "text-white/70"}`} title={itemLabel(it)}>
+                {itemLabel(it)}
+              </span>
+              <span className="text-white/40">×{it.quantity}</span>
+              <input
+                type="number"
+                min={0}
+                max={it.quantity}
+                value={q}
+                onChange={(e) => {
+                  const n = Math.max(0, Math.min(it.quantity, Math.floor(Number(e.target.value) || 0)));
+                  onChange({ ...picks, [it.itemId]: n });
+                }}
+                className="w-14 rounded bg-white/10 px-1 py-0.5 text-right"
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function OfferItems({ items, side, label }: { items: QuotedItem[]; side: "proposer" | "recipient"; label: string }) {
+  const list = items.filter((i) => i.side === side);
+  return (
+    <div className="space-y-1">
+      <div className="text-xs uppercase tracking-wide text-white/50">{label}</div>
+      {!list.length ? <div className="text-xs text-white/50">Nothing</div> : null}
+      {list.map((it) => (
+        <div key={`${it.side}-${it.itemId}`} className="flex gap-2 text-xs">
+          <span className="flex-1 truncate">
+            {it.quantity}× {itemLabel(it)}
+          </span>
+          <span className="text-white/60">{money(it.unitValueCents == null ? null : it.unitValueCents * it.quantity)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function TradeCenterClient({ profile, myItems, offers }: Props) {
+  const router = useRouter();
+
+  // profile
+  const [handle, setHandle] = useState(profile?.handle ?? "");
+  const [open, setOpen] = useState(profile?.openToTrades ?? true);
+  const [profileMsg, setProfileMsg] = useState<string | null>(null);
+
+  // builder
+  const [partnerInput, setPartnerInput] = useState("");
+  const [partner, setPartner] = useState<string | null>(null);
+  const [partnerItems, setPartnerItems] = useState<TradeableItem[]>([]);
+  const [give, setGive] = useState<Picks>({});
+  const [get, setGet] = useState<Picks>({});
+  const [note, setNote] = useState("");
+  const [counterOf, setCounterOf] = useState<string | null>(null);
+  const [score, setScore] = useState<TradeScore | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  // inbox
+  const [history, setHistory] = useState<Record<string, TradeEventView[]>>({});
+
+  const giveList = useMemo(() => toPickList(give), [give]);
+  const getList = useMemo(() => toPickList(get), [get]);
+
+  // live valuation while building
+  useEffect(() => {
+    if (!partner || (!giveList.length && !getList.length)) {
+      setScore(null);
+      return;
+    }
+    let cancelled = false;
+    const t = setTimeout(async () => {
+      const res = await fetch("/api/trades/quote", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ recipient: partner, give: giveList, get: getList }),
+      }).catch(() => null);
+      const json = await res?.json().catch(() => null);
+      if (cancelled) return;
+      if (json?.ok) {
+        setScore(json.score as TradeScore);
+        setErr(null);
+      } else {
+        setScore(null);
+        setErr(json?.message ?? "Could not value the trade.");
+      }
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+    };
+  }, [partner, giveList, getList]);
+
+  async function saveProfile() {
+    setProfileMsg(null);
+    const res = await fetch("/api/trades/profile", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ handle, openToTrades: open }),
+    });
+    const json = await res.json().catch(() => null);
+    setProfileMsg(json?.ok ? "Saved." : (json?.message ?? "Could not save."));
+    if (json?.ok) router.refresh();
+  }
+
+  async function loadPartner(h: string): Promise<boolean> {
+    setErr(null);
+    setMsg(null);
+    const res = await fetch(`/api/trades/traders/${encodeURIComponent(h.trim().replace(/^@/, ""))}`);
+    const json = await res.json().catch(() => null);
+    if (!json?.ok) {
+      setErr(json?.message ?? "No open trader with that handle.");
+      return false;
+    }
+    setPartner(json.trader.handle);
+    setPartnerItems(json.items as TradeableItem[]);
+    return true;
+  }
+
+  function resetBuilder() {
+    setGive({});
+    setGet({});
+    setNote("");
+    setCounterOf(null);
+    setScore(null);
+  }
+
+  async function startNew() {
+    resetBuilder();
+    await loadPartner(partnerInput);
+  }
+
+  async function startCounter(o: TradeOfferView) {
+    if (!o.proposerHandle) return;
+    resetBuilder();
+    setPartnerInput(o.proposerHandle);
+    if (!(await loadPartner(o.proposerHandle))) return;
+
+    // I was the recipient: what they asked me for is my "give", what they offered is my "get".
+    const mine: Picks = {};
+    const theirs: Picks = {};
+    for (const it of o.items) {
+      if (it.side === "recipient") mine[it.itemId] = it.quantity;
+      else theirs[it.itemId] = it.quantity;
+    }
+    setGive(mine);
+    setGet(theirs);
+    setCounterOf(o.id);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
+  async function send() {
+    if (!partner || busy) return;
+    setBusy(true);
+    setErr(null);
+    setMsg(null);
+    try {
+      const payload = { recipient: partner, give: giveList, get: getList, note };
+      const res = counterOf
+        ? await fetch(`/api/trades/${counterOf}`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ action: "counter", ...payload }),
+          })
+        : await fetch("/api/trades", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(payload),
+          });
+      const json = await res.json().catch(() => null);
+      if (!json?.ok) {
+        setErr(json?.message ?? "Could not send the offer.");
+        return;
+      }
+      setMsg(counterOf ? "Counter-offer sent." : `Offer sent to @${partner}.`);
+      resetBuilder();
+      router.refresh();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function respond(o: TradeOfferView, action: "accept" | "decline" | "cancel") {
+    if (action === "accept" && !confirm("Accept this trade? The cards move between both collections right away.")) {
+      return;
+    }
+    setErr(null);
+    setMsg(null);
+    const res = await fetch(`/api/trades/${o.id}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ action }),
+    });
+    const json = await res.json().catch(() => null);
+    if (!json?.ok) {
+      setErr(json?.message ?? "Could not update the trade.");
+      return;
+    }
+    setMsg(action === "accept" ? "Trade complete — your collection has been updated." : `Offer ${json.status}.`);
+    router.refresh();
+  }
+
+  async function toggleHistory(id: string) {
+    if (history[id]) {
+      const next = { ...history };
+      delete next[id];
+      setHistory(next);
+      return;
+    }
+    const res = await fetch(`/api/trades/${id}`);
+    const json = await res.json().catch(() => null);
+    if (json?.ok) setHistory({ ...history, [id]: json.events as TradeEventView[] });
+  }
+
+  const canSend = !!profile && !!partner && !!(giveList.length || getList.length) && !busy;
+
+  return (
+    <div className="space-y-6 text-white">
+      {/* Profile */}
+      <div className="space-y-3 rounded-2xl border border-white/15 bg-white/5 p-4 backdrop-blur-sm">
+        <h2 className="text-lg font-semibold">Your trader profile</h2>
+        <p className="text-xs text-white/60">
+          Other collectors find you by handle. While you&apos;re open to trades they can see the cards in your
+          collection (not your costs or folders).
+        </p>
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            value={handle}
+            onChange={(e) => setHandle(e.target.value)}
+            className="w-56 rounded-md bg-white/10 px-3 py-2 text-sm"
+            placeholder="handle"
+          />
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={open} onChange={(e) => setOpen(e.target.checked)} />
+            Open to trades
+          </label>
+          <button
+            type="button"
+            onClick={saveProfile}
+            className="rounded-lg border border-white/25 bg-white/10 px-3 py-1.5 text-sm hover:bg-white/20"
+          >
+            Save
+          </button>
+          {profileMsg ? <span className="text-sm text-white/70">{profileMsg}</span> : null}
+        </div>
+      </div>
+
+      {/* Builder */}
+      <div className="space-y-4 rounded-2xl border border-white/15 bg-white/5 p-4 backdrop-blur-sm">
+        <div className="flex flex-wrap items-center gap-3">
+          <h2 className="text-lg font-semibold">{counterOf ? "Counter-offer" : "New offer"}</h2>
+          <input
+            value={partnerInput}
+            onChange={(e) => setPartnerInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                void startNew();
+              }
+            }}
+            disabled={!!counterOf}
+            className="w-56 rounded-md bg-white/10 px-3 py-2 text-sm disabled:opacity-60"
+            placeholder="Trade with @handle"
+          />
+          {counterOf ? (
+            <button
+              type="button"
+              onClick={resetBuilder}
+              className="rounded-lg border border-white/25 bg-white/10 px-3 py-1.5 text-sm hover:bg-white/20"
+            >
+              Discard counter
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={startNew}
+              className="rounded-lg border border-white/25 bg-white/10 px-3 py-1.5 text-sm hover:bg-white/20"
+            >
+              Load collection
+            </button>
+          )}
+        </div>
+
+        {!profile ? (
+          <div className="text-sm text-amber-200">Save a trader handle above before sending offers.</div>
+        ) : null}
+
+        {partner ? (
+          <>
+            <div className="grid gap-4 md:grid-cols-2">
+              <ItemPicker
+                title="You give"
+                items={myItems}
+                picks={give}
+                onChange={setGive}
+                empty="Your collection is empty."
+              />
+              <ItemPicker
+                title={`You get from @${partner}`}
+                items={partnerItems}
+                picks={get}
+                onChange={setGet}
+                empty="Nothing to trade for."
+              />
+            </div>
+
+            {score ? <Verdict score={score} role="proposer" /> : null}
+
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+              className="w-full rounded-md bg-white/10 px-3 py-2 text-sm"
+              placeholder="Note (condition, shipping, …)"
+            />
+
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={send}
+                disabled={!canSend}
+                className="rounded-lg border border-sky-400/50 bg-sky-500/20 px-4 py-1.5 text-sm font-medium text-sky-50 hover:bg-sky-500/30 disabled:opacity-50"
+              >
+                {busy ? "Sending…" : counterOf ? "Send counter-offer" : "Send offer"}
+              </button>
+            </div>
+          </>
+        ) : null}
+      </div>
+
+      {err ? <div className="rounded-lg border border-red-400/40 bg-red-500/15 p-3 text-sm text-red-100">{err}</div> : null}
+      {msg ? (
+        <div className="rounded-lg border border-emerald-400/40 bg-emerald-500/15 p-3 text-sm text-emerald-50">{msg}</div>
+      ) : null}
+
+      {/* Offers */}
+      <div className="space-y-3">
+        <h2 className="text-lg font-semibold">Offers</h2>
+        {!offers.length ? <div className="text-sm text-white/60">No offers yet.</div> : null}
+        {offers.map((o) => {
+          const other = o.role === "proposer" ? o.recipientHandle : o.proposerHandle;
+          const mySide = o.role;
+          const theirSide = o.role === "proposer" ? "recipient" : "proposer";
+          const events = history[o.id];
+
+          return (
+            <div
+              key={o.id}
+              id={`offer-${o.id}`}
+              className="space-y-3 rounded-2xl border border-white/15 bg-white/5 p-4 backdrop-blur-sm"
+            >
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className={`rounded-full border px-2 py-0.5 text-xs ${STATUS_STYLES[o.status]}`}>{o.status}</span>
+                <span className="font-medium">
+                  {o.role === "proposer" ? "To" : "From"} @{other ?? "unknown"}
+                </span>
+                <span className="text-white/50">{new Date(o.createdAt).toLocaleString()}</span>
+                {o.parentId ? <span className="text-white/50">· counter-offer</span> : null}
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-2">
+                <OfferItems items={o.items} side={mySide} label="You give" />
+                <OfferItems items={o.items} side={theirSide} label="You get" />
+              </div>
+
+              <Verdict score={o.score} role={o.role} />
+              {o.note ? <p className="text-sm text-white/70">“{o.note}”</p> : null}
+
+              <div className="flex flex-wrap gap-2">
+                {o.status === "pending" && o.role === "recipient" ? (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => respond(o, "accept")}
+                      className="rounded-lg border border-emerald-400/50 bg-emerald-500/20 px-3 py-1 text-sm hover:bg-emerald-500/30"
+                    >
+                      Accept
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => startCounter(o)}
+                      className="rounded-lg border border-white/25 bg-white/10 px-3 py-1 text-sm hover:bg-white/20"
+                    >
+                      Counter
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => respond(o, "decline")}
+                      className="rounded-lg border border-red-400/50 bg-red-500/20 px-3 py-1 text-sm hover:bg-red-500/30"
+                    >
+                      Decline
+                    </button>
+                  </>
+                ) : null}
+                {o.status === "pending" && o.role === "proposer" ? (
+                  <button
+                    type="button"
+                    onClick={() => respond(o, "cancel")}
+                    className="rounded-lg border border-white/25 bg-white/10 px-3 py-1 text-sm hover:bg-white/20"
+                  >
+                    Withdraw
+                  </button>
+                ) : null}
+                <button
+                  type="button"
+                  onClick={() => toggleHistory(o.id)}
+                  className="ml-auto text-xs text-sky-300 hover:underline"
+                >
+                  {events ? "Hide history" : "History"}
+                </button>
+              </div>
+
+              {events ? (
+                <ol className="space-y-1 border-t border-white/10 pt-2 text-xs text-white/70">
+                  {events.map((e, i) => (
+                    <li key={i}>
+                      {new Date(e.createdAt).toLocaleString()} — @{e.actorHandle ?? "unknown"} {e.action}
+                    </li>
+                  ))}
+                </ol>
+              ) : null}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
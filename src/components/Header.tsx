@@ -16,6 +16,7 @@ import {
   UserButton,
 } from "@clerk/nextjs";
 import { useCartCount } from "@/hooks/useCartCount";
+import { useNotificationCount } from "@/hooks/useNotificationCount";
 
 const LOGO_CF_ID = "f7b75c90-dccb-4c37-e603-2bc749caaa00";
 
@@ -96,9 +97,10 @@ export default function Header() {
 
           {/* Search bar - desktop */}
           <div className="hidden flex-1 lg:block">
-            <form className="relative max-w-2xl">
+            <form action="/search" className="relative max-w-2xl">
               <input
                 type="search"
+                name="q"
                 placeholder="Search cards, sets, or products..."
                 className="h-11 w-full rounded-xl border border-white/15 bg-white/5 px-4 pr-12 text-sm text-white placeholder:text-white/50
                            focus:border-indigo-500 focus:bg-white/10 focus:outline-none focus:ring-2 focus:ring-indigo-500/40"
@@ -163,6 +165,7 @@ export default function Header() {
                 </SignedOut>
 
                 <SignedIn>
+                  <NotificationBell />
                   <UserButton
                     appearance={{
                       elements: {
@@ -263,9 +266,10 @@ export default function Header() {
 
         {/* Search bar - mobile */}
         <div className="border-t border-white/10 px-3 py-3 sm:px-4 lg:hidden">
-          <form className="relative">
+          <form action="/search" className="relative">
             <input
               type="search"
+              name="q"
               placeholder="Search..."
               className="h-10 w-full rounded-xl border border-white/15 bg-white/5 px-4 pr-10 text-sm text-white placeholder:text-white/50
                          focus:border-indigo-500 focus:bg-white/10 focus:outline-none focus:ring-2 focus:ring-indigo-500/40"
@@ -296,6 +300,38 @@ export default function Header() {
   );
 }
 
+function NotificationBell() {
+  const unread = useNotificationCount();
+
+  return (
+    <Link
+      href="/notifications"
+      aria-label={unread > 0 ? `Notifications (${unread} unread)` : "Notifications"}
+      className="relative mr-3 flex h-10 w-10 items-center justify-center rounded-xl border border-white/15 bg-white/5 transition-colors hover:bg-white/10"
+    >
+      <svg
+        className="h-5 w-5 text-white"
+        fill="none"
+        viewBox="0 0 24 24"
+        stroke="currentColor"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
+        />
+      </svg>
+
+      {unread > 0 && (
+        <span className="absolute -right-1 -top-1 flex h-5 min-w-5 items-center justify-center rounded-full bg-red-500 px-1 text-xs font-bold text-white">
+          {unread > 99 ? "99+" : unread}
+        </span>
+      )}
+    </Link>
+  );
+}
+
 function NavLink({
   href,
   active,
@@ -1,6 +1,17 @@
 "use client";
 
 import { useMemo, useState } from "react";
+import {
+  AlertRuleError,
+  PRICE_ALERT_RULE_LABELS,
+  PRICE_ALERT_RULE_TYPES,
+  PRICE_SOURCES,
+  PRICE_SOURCE_LABELS,
+  readAlertRule,
+  type PriceAlertRuleType,
+  type PriceSource,
+} from "@/lib/alerts/rules";
+import { COOLDOWN_CHOICES, describeCooldown } from "@/lib/notifications/policy";
 
 type GameKey = "pokemon" | "yugioh" | "mtg" | "funko";
 
@@ -14,6 +25,9 @@ type Props = {
 
 
 
+const inputCls =
+  "mt-2 w-full rounded-md border border-white/15 bg-white/5 px-3 py-2 text-sm text-white outline-none placeholder:text-white/30 focus:border-white/25";
+
 function fmtUsd(n: number) {
   return n.toLocaleString(undefined, { style: "currency", currency: "USD" });
 }
@@ -26,8 +40,12 @@ export default function PriceAlertBell({
   className,
 }: Props) {
   const [open, setOpen] = useState(false);
-  const [rule, setRule] = useState<"above" | "below">("above");
+  const [rule, setRule] = useState<PriceAlertRuleType>("above");
   const [threshold, setThreshold] = useState<string>("");
+  const [pct, setPct] = useState<string>("20");
+  const [windowDays, setWindowDays] = useState<string>("7");
+  const [sources, setSources] = useState<[PriceSource, PriceSource]>(["tcgplayer", "cardmarket"]);
+  const [cooldown, setCooldown] = useState<string>("");
   const [saving, setSaving] = useState(false);
   const [msg, setMsg] = useState<{ kind: "ok" | "err"; text: string } | null>(null);
 
@@ -42,9 +60,15 @@ export default function PriceAlertBell({
   async function save() {
     setMsg(null);
 
-    const t = Number(threshold);
-    if (!Number.isFinite(t) || t <= 0) {
-      setMsg({ kind: "err", text: "Enter a valid price (USD)." });
+    let payload;
+    try {
+      payload = readAlertRule({
+        rule_type: rule,
+        threshold,
+        params: { pct, windowDays, sources },
+      });
+    } catch (e) {
+      setMsg({ kind: "err", text: e instanceof AlertRuleError ? e.message : "Check the alert settings." });
       return;
     }
 
@@ -57,8 +81,10 @@ export default function PriceAlertBell({
         body: JSON.stringify({
           game,
           market_item_id: marketItemId,
-          rule_type: rule,
-          threshold: t,
+          rule_type: payload.ruleType,
+          threshold: payload.threshold,
+          params: payload.params,
+          cooldown_hours: cooldown ? Number(cooldown) : null,
         }),
       });
 
@@ -125,47 +151,113 @@ export default function PriceAlertBell({
             <div className="mt-4 grid gap-3 md:grid-cols-2">
               <div>
                 <div className="text-xs uppercase tracking-wide text-white/60">Rule</div>
-                <div className="mt-2 flex gap-2">
-                  <button
-                    type="button"
-                    onClick={() => setRule("above")}
-                    className={
-                      rule === "above"
-                        ? "rounded-lg border border-emerald-400/40 bg-emerald-500/15 px-3 py-2 text-xs font-medium text-emerald-100"
-                        : "rounded-lg border border-white/20 bg-white/5 px-3 py-2 text-xs text-white hover:bg-white/10"
-                    }
-                  >
-                    Above
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => setRule("below")}
-                    className={
-                      rule === "below"
-                        ? "rounded-lg border border-sky-400/40 bg-sky-500/15 px-3 py-2 text-xs font-medium text-sky-100"
-                        : "rounded-lg border border-white/20 bg-white/5 px-3 py-2 text-xs text-white hover:bg-white/10"
-                    }
-                  >
-                    Below
-                  </button>
-                </div>
+                <select
+                  value={rule}
+                  onChange={(e) => {
+                    const next = e.target.value as PriceAlertRuleType;
+                    setRule(next);
+                    if (next === "above_ma" || next === "below_ma") setWindowDays("30");
+                    if (next === "pct_up" || next === "pct_down") setWindowDays("7");
+                    if (next === "spread") setPct("25");
+                  }}
+                  className="mt-2 w-full rounded-md border border-white/15 bg-zinc-900 px-3 py-2 text-sm text-white outline-none focus:border-white/25"
+                >
+                  {PRICE_ALERT_RULE_TYPES.map((r) => (
+                    <option key={r} value={r}>
+                      {PRICE_ALERT_RULE_LABELS[r]}
+                    </option>
+                  ))}
+                </select>
               </div>
 
-              <div>
-                <div className="text-xs uppercase tracking-wide text-white/60">Target price (USD)</div>
-                <input
-                  value={threshold}
-                  onChange={(e) => setThreshold(e.target.value)}
-                  inputMode="decimal"
-                  placeholder="e.g. 24.99"
-                  className="mt-2 w-full rounded-md border border-white/15 bg-white/5 px-3 py-2 text-sm text-white outline-none placeholder:text-white/30 focus:border-white/25"
-                />
-                <div className="mt-1 text-[11px] text-white/50">
-                  {currentUsd != null && Number.isFinite(currentUsd)
-                    ? `Current: ${fmtUsd(currentUsd)}`
-                    : "Current price unavailable"}
+              {rule === "above" || rule === "below" ? (
+                <div>
+                  <div className="text-xs uppercase tracking-wide text-white/60">Target price (USD)</div>
+                  <input
+                    value={threshold}
+                    onChange={(e) => setThreshold(e.target.value)}
+                    inputMode="decimal"
+                    placeholder="e.g. 24.99"
+                    className={inputCls}
+                  />
+                  <div className="mt-1 text-[11px] text-white/50">
+                    {currentUsd != null && Number.isFinite(currentUsd)
+                      ? `Current: ${fmtUsd(currentUsd)}`
+                      : "Current price unavailable"}
+                  </div>
+                </div>
+              ) : null}
+
+              {rule === "pct_up" || rule === "pct_down" || rule === "spread" ? (
+                <div>
+                  <div className="text-xs uppercase tracking-wide text-white/60">
+                    {rule === "spread" ? "Spread over (%)" : rule === "pct_up" ? "Up by (%)" : "Down by (%)"}
+                  </div>
+                  <input value={pct} onChange={(e) => setPct(e.target.value)} inputMode="decimal" className={inputCls} />
                 </div>
+              ) : null}
+
+              {rule === "pct_up" || rule === "pct_down" || rule === "above_ma" || rule === "below_ma" ? (
+                <div>
+                  <div className="text-xs uppercase tracking-wide text-white/60">
+                    {rule === "above_ma" || rule === "below_ma" ? "Average over (days)" : "Within (days)"}
+                  </div>
+                  <input
+                    value={windowDays}
+                    onChange={(e) => setWindowDays(e.target.value)}
+                    inputMode="numeric"
+                    className={inputCls}
+                  />
+                </div>
+              ) : null}
+
+              {rule === "spread" ? (
+                <div>
+                  <div className="text-xs uppercase tracking-wide text-white/60">Compare</div>
+                  <div className="mt-2 flex gap-2">
+                    {[0, 1].map((i) => (
+                      <select
+                        key={i}
+                        value={sources[i]}
+                        onChange={(e) => {
+                          const next: [PriceSource, PriceSource] = [...sources];
+                          next[i] = e.target.value as PriceSource;
+                          setSources(next);
+                        }}
+                        className="w-full rounded-md border border-white/15 bg-zinc-900 px-2 py-2 text-sm text-white"
+                      >
+                        {PRICE_SOURCES.map((src) => (
+                          <option key={src} value={src}>
+                            {PRICE_SOURCE_LABELS[src]}
+                          </option>
+                        ))}
+                      </select>
+                    ))}
+                  </div>
+                </div>
+              ) : null}
+
+              <div>
+                <div className="text-xs uppercase tracking-wide text-white/60">Notify at most</div>
+                <select
+                  value={cooldown}
+                  onChange={(e) => setCooldown(e.target.value)}
+                  className="mt-2 w-full rounded-md border border-white/15 bg-zinc-900 px-3 py-2 text-sm text-white outline-none focus:border-white/25"
+                >
+                  <option value="">My default</option>
+                  {COOLDOWN_CHOICES.map((h) => (
+                    <option key={h} value={h}>
+                      {describeCooldown(h)}
+                    </option>
+                  ))}
+                </select>
               </div>
+
+              {rule === "all_time_high" ? (
+                <div className="text-xs text-white/60 md:col-span-2">
+                  We&apos;ll alert you each time the price sets a new high.
+                </div>
+              ) : null}
             </div>
 
             {suggested && (
@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import { normalizeVariant } from "@/lib/valuations/variants";
 
 type Props = {
   game: string;
@@ -9,7 +10,7 @@ type Props = {
   setName?: string | null;
   imageUrl?: string | null;
 
-  /** Variant identity for Pokémon (normal/holo/etc). */
+  /** Printing / finish (holofoil, reverse_holofoil, foil, etched, first_edition, ...). */
   variantType?: string | null;
 
   initialInCollection?: boolean;
@@ -17,33 +18,6 @@ type Props = {
   className?: string;
 };
 
-/**
- * We store canonical values in DB (user_collection_items.variant_type):
- * - normal
- * - holofoil
- * - reverse_holofoil
- * - first_edition
- * - promo
- */
-function normalizeVariantType(input: unknown): string {
-  const s = String(input ?? "").trim().toLowerCase();
-  if (!s) return "normal";
-
-  if (s === "normal") return "normal";
-  if (s === "holo" || s === "holofoil") return "holofoil";
-  if (
-    s === "reverse" ||
-    s === "reverse_holo" ||
-    s === "reverseholo" ||
-    s === "reverse_holofoil"
-  )
-    return "reverse_holofoil";
-  if (s === "first" || s === "firstedition" || s === "first_edition") return "first_edition";
-  if (s === "promo" || s === "wpromo" || s === "w_promo") return "promo";
-
-  return "normal";
-}
-
 export default function AddToCollectionButton({
   game,
   cardId,
@@ -67,7 +41,7 @@ export default function AddToCollectionButton({
     setQty(initialQuantity);
   }, [initialInCollection, initialQuantity, cardId, variantType]);
 
-  const variantTypeCanon = useMemo(() => normalizeVariantType(variantType), [variantType]);
+  const variantTypeCanon = useMemo(() => normalizeVariant(variantType, game), [variantType, game]);
 
   async function addOne() {
     if (saving) return;
@@ -2,6 +2,7 @@
 
 import { useState, useTransition } from "react";
 import Link from "next/link";
+import { variantLabel, type CanonVariant } from "@/lib/valuations/variants";
 
 type Props = {
   canSave: boolean;
@@ -10,6 +11,8 @@ type Props = {
   cardName?: string;
   setName?: string;
   imageUrl?: string | null;
+  /** printings / finishes to choose from; no picker with fewer than two */
+  variants?: CanonVariant[];
 };
 
 type ApiError = {
@@ -34,10 +37,12 @@ export default function CardActions({
   cardName,
   setName,
   imageUrl,
+  variants,
 }: Props) {
   const [isPending, startTransition] = useTransition();
   const [status, setStatus] = useState<"idle" | "success" | "error">("idle");
   const [error, setError] = useState<ApiError | null>(null);
+  const [variantType, setVariantType] = useState<CanonVariant>(variants?.[0] ?? "normal");
 
   if (!canSave) {
     return (
@@ -70,6 +75,7 @@ export default function CardActions({
             cardName,
             setName,
             imageUrl,
+            variantType,
             quantity: 1,
           }),
         });
@@ -107,6 +113,22 @@ export default function CardActions({
     <div className="space-y-2">
       {/* Main action row */}
       <div className="flex flex-wrap items-center gap-2">
+        {variants && variants.length > 1 && (
+          <select
+            value={variantType}
+            onChange={(e) => setVariantType(e.target.value as CanonVariant)}
+            disabled={isPending}
+            aria-label="Printing"
+            className="rounded-lg border border-white/20 bg-white/10 px-2 py-1.5 text-xs text-white"
+          >
+            {variants.map((v) => (
+              <option key={v} value={v} className="bg-slate-900">
+                {variantLabel(v)}
+              </option>
+            ))}
+          </select>
+        )}
+
         <button
           type="button"
           onClick={handleQuickAdd}
@@ -4,16 +4,23 @@ import { useMemo } from "react";
 import Image from "next/image";
 import Link from "next/link";
 import { useCollectionDashboard } from "@/hooks/useCollectionDashboard";
+import { formatFx, type FxCurrency } from "@/lib/fx/table";
 
-function moneyFromCents(cents: number | null | undefined): string {
+function moneyFromCents(cents: number | null | undefined, currency: FxCurrency): string {
   if (cents == null) return "—";
-  return `$${(cents / 100).toFixed(2)}`;
+  return formatFx(cents / 100, currency);
+}
+
+function pct(n: number | null | undefined): string {
+  if (n == null) return "—";
+  return `${n >= 0 ? "+" : ""}${(n * 100).toFixed(1)}%`;
 }
 
 export default function CollectionDashboardClient() {
-  const { loading, error, summary, history, recentlyAdded } =
+  const { loading, error, summary, history, recentlyAdded, performance } =
     useCollectionDashboard();
 
+  const currency = summary?.currency ?? "USD";
   const mainValue = summary?.totalValueCents ?? 0;
   const totalCost = summary?.totalCostCents ?? 0;
 
@@ -87,13 +94,13 @@ export default function CollectionDashboardClient() {
                 }
               >
                 {valueChange > 0 ? "▲" : "▼"}{" "}
-                {moneyFromCents(Math.abs(valueChange))}
+                {moneyFromCents(Math.abs(valueChange), currency)}
               </span>
             )}
           </div>
           <div className="mt-2 text-2xl font-bold text-white">
             {summary
-              ? moneyFromCents(mainValue)
+              ? moneyFromCents(mainValue, currency)
               : loading
               ? "…"
               : "—"}
@@ -101,6 +108,26 @@ export default function CollectionDashboardClient() {
           <div className="mt-1 text-xs text-white/60">
             Based on latest price × qty
           </div>
+          {performance?.twr != null && (
+            <Link
+              href="/collection/analytics"
+              className="mt-1 block text-xs text-white/70 hover:underline"
+            >
+              {performance.days}d return {pct(performance.twr)}
+              {performance.benchmark?.return != null && (
+                <span
+                  className={
+                    performance.benchmark.beatsBenchmark
+                      ? "text-emerald-300"
+                      : "text-red-300"
+                  }
+                >
+                  {" "}
+                  vs {pct(performance.benchmark.return)} market
+                </span>
+              )}
+            </Link>
+          )}
         </div>
 
         <div className="rounded-xl border border-white/10 bg-white/5 px-4 py-3">
@@ -124,7 +151,7 @@ export default function CollectionDashboardClient() {
                 </span>
                 <span className="text-white/70">
                   {data.quantity} •{" "}
-                  {moneyFromCents(data.valueCents)}
+                  {moneyFromCents(data.valueCents, currency)}
                 </span>
               </div>
             ))}
@@ -244,6 +271,7 @@ export default function CollectionDashboardClient() {
                         {r.lastValueCents != null &&
                           ` • ${moneyFromCents(
                             r.lastValueCents * r.quantity,
+                            currency,
                           )}`}
                       </span>
                       {typeof r.createdAt === "string" && (
@@ -3,6 +3,7 @@
 import { useState } from "react";
 import Image from "next/image";
 import Link from "next/link";
+import { variantLabel } from "@/lib/valuations/variants";
 
 type CollectionItem = {
   id: string;
@@ -12,6 +13,7 @@ type CollectionItem = {
   card_name: string | null;
   set_name: string | null;
   image_url: string | null;
+  variant_type: string | null;
   grading_company: string | null;
   grade_label: string | null;
   cert_number: string | null;
@@ -110,6 +112,9 @@ function CollectionRow({ item }: { item: CollectionItem }) {
         <div className="text-xs text-white/60">
           {item.set_name || "—"}
         </div>
+        <div className="mt-1 inline-block rounded border border-white/15 bg-white/5 px-1.5 py-0.5 text-[11px] text-white/80">
+          {variantLabel(item.variant_type)}
+        </div>
       </td>
 
       {/* Grade dropdown */}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { FX_CURRENCIES, type FxCurrency } from "@/lib/fx/table";
+
+type Props = {
+  value: FxCurrency;
+};
+
+/** Saves the user's display currency and re-renders the page in it. */
+export default function DisplayCurrencySelect({ value }: Props) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [currency, setCurrency] = useState<FxCurrency>(value);
+  const [error, setError] = useState<string | null>(null);
+
+  function handleChange(next: FxCurrency) {
+    const prev = currency;
+    setCurrency(next);
+    setError(null);
+
+    startTransition(async () => {
+      try {
+        const res = await fetch("/api/preferences", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ displayCurrency: next }),
+        });
+        if (!res.ok) {
+          const data = (await res.json().catch(() => ({}))) as { message?: string };
+          setCurrency(prev);
+          setError(data.message ?? "Could not save.");
+          return;
+        }
+        router.refresh();
+      } catch (err) {
+        console.error("DisplayCurrencySelect save failed", err);
+        setCurrency(prev);
+        setError("Network error.");
+      }
+    });
+  }
+
+  return (
+    <label className="inline-flex items-center gap-2 text-xs text-white/70">
+      <span>Currency</span>
+      <select
+        value={currency}
+        onChange={(e) => handleChange(e.target.value as FxCurrency)}
+        disabled={isPending}
+        className="rounded-md border border-white/20 bg-white/10 px-2 py-1 text-xs text-white"
+      >
+        {FX_CURRENCIES.map((c) => (
+          <option key={c} value={c} className="bg-slate-900">
+            {c}
+          </option>
+        ))}
+      </select>
+      {error ? <span className="text-red-300">{error}</span> : null}
+    </label>
+  );
+}
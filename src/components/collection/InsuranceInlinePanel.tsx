@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import { formatFx, type FxCurrency } from "@/lib/fx/table";
 
 type InsuranceItem = {
   game: string;
@@ -8,17 +9,23 @@ type InsuranceItem = {
   quantity: number;
   market_each: number;
   market_total: number;
+  /** market_total in the payload's currency */
+  market_total_local?: number;
   source?: string | null;
 };
 
+type Totals = {
+  marketValue: number;
+  costBasis: number;
+  unrealizedGain: number;
+};
+
 type InsurancePayload = {
   asOf: string;
   threshold: number;
-  totals: {
-    marketValue: number;
-    costBasis: number;
-    unrealizedGain: number;
-  };
+  totals: Totals;
+  currency?: FxCurrency;
+  totalsLocal?: Totals;
   highValueItems: InsuranceItem[];
 };
 
@@ -48,6 +55,9 @@ export default function InsuranceInlinePanel({
   const [err, setErr] = useState<string | null>(null);
   const [data, setData] = useState<InsurancePayload | null>(null);
 
+  const totals = data?.totalsLocal ?? data?.totals ?? { marketValue: 0, costBasis: 0, unrealizedGain: 0 };
+  const money = (v: number) => (data?.totalsLocal ? formatFx(v, data.currency ?? "USD") : usd(v));
+
   const url = useMemo(
     () => `/api/pro/insurance?threshold=${encodeURIComponent(String(threshold))}`,
     [threshold],
@@ -136,22 +146,23 @@ export default function InsuranceInlinePanel({
       {!loading && !err && data && (
         <>
           <div className="mt-3 grid gap-3 sm:grid-cols-3">
+            {/* totals in the user's display currency when the API sent them */}
             <div className="rounded-xl border border-white/10 bg-black/20 p-3">
               <div className="text-xs uppercase tracking-wide text-white/60">Market value</div>
-              <div className="mt-1 text-lg font-semibold text-white">{usd(data.totals.marketValue)}</div>
+              <div className="mt-1 text-lg font-semibold text-white">{money(totals.marketValue)}</div>
             </div>
             <div className="rounded-xl border border-white/10 bg-black/20 p-3">
               <div className="text-xs uppercase tracking-wide text-white/60">Cost basis</div>
-              <div className="mt-1 text-lg font-semibold text-white">{usd(data.totals.costBasis)}</div>
+              <div className="mt-1 text-lg font-semibold text-white">{money(totals.costBasis)}</div>
             </div>
             <div className="rounded-xl border border-white/10 bg-black/20 p-3">
               <div className="text-xs uppercase tracking-wide text-white/60">Unrealized gain</div>
               <div
                 className={`mt-1 text-lg font-semibold ${
-                  data.totals.unrealizedGain >= 0 ? "text-emerald-300" : "text-red-300"
+                  totals.unrealizedGain >= 0 ? "text-emerald-300" : "text-red-300"
                 }`}
               >
-                {usd(data.totals.unrealizedGain)}
+                {money(totals.unrealizedGain)}
               </div>
             </div>
           </div>
@@ -181,8 +192,14 @@ export default function InsuranceInlinePanel({
                           <div className="text-xs text-white/60">{(x.game || "").toUpperCase()}</div>
                         </td>
                         <td className="p-2 text-right text-white/80">{x.quantity}</td>
-                        <td className="p-2 text-right text-white/80">{usd(x.market_each)}</td>
-                        <td className="p-2 text-right text-white/80">{usd(x.market_total)}</td>
+                        <td className="p-2 text-right text-white/80">
+                          {x.market_total_local != null && x.quantity > 0
+                            ? money(x.market_total_local / x.quantity)
+                            : usd(x.market_each)}
+                        </td>
+                        <td className="p-2 text-right text-white/80">
+                          {x.market_total_local != null ? money(x.market_total_local) : usd(x.market_total)}
+                        </td>
                       </tr>
                     ))}
                   </tbody>
@@ -0,0 +1,285 @@
+import Link from "next/link";
+import { formatFx } from "@/lib/fx/table";
+import type { PortfolioPerformance } from "@/lib/portfolio/analytics";
+import {
+  BENCHMARK_PRESETS,
+  daysBetween,
+  parseBenchmark,
+  type AttributionRow,
+  type IndexPoint,
+} from "@/lib/portfolio/performance";
+
+type Props = {
+  performance: PortfolioPerformance;
+  days: number;
+  benchmarkId: string | null;
+};
+
+const WINDOWS = [30, 90, 365, 1095];
+
+function pct(n: number | null | undefined, digits = 1): string {
+  if (n == null || !Number.isFinite(n)) return "—";
+  return `${n >= 0 ? "+" : ""}${(n * 100).toFixed(digits)}%`;
+}
+
+function tone(n: number | null | undefined): string {
+  if (n == null || n === 0) return "text-white";
+  return n > 0 ? "text-emerald-300" : "text-red-300";
+}
+
+function windowLabel(days: number): string {
+  return days % 365 === 0 ? `${days / 365}y` : `${days}d`;
+}
+
+type Scale = { from: string; to: string; min: number; max: number };
+
+/** Polyline points for an index on a date/value scale shared with the benchmark. */
+function linePoints(index: IndexPoint[], scale: Scale, width: number, height: number): string {
+  const span = scale.max - scale.min || 1;
+  const days = daysBetween(scale.from, scale.to) || 1;
+  return index
+    .map((p) => {
+      const x = (daysBetween(scale.from, p.date) / days) * width;
+      const y = height - ((p.index - scale.min) / span) * height;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+}
+
+function AttributionTable({
+  title,
+  rows,
+  fmtMoney,
+}: {
+  title: string;
+  rows: AttributionRow[];
+  fmtMoney: (cents: number) => string;
+}) {
+  return (
+    <div>
+      <div className="text-xs uppercase tracking-wide text-white/60">{title}</div>
+      {rows.length === 0 ? (
+        <div className="mt-2 text-sm text-white/70">Nothing to attribute yet.</div>
+      ) : (
+        <table className="mt-2 w-full text-sm">
+          <thead className="text-xs text-white/50">
+            <tr>
+              <th className="py-1 text-left font-normal"></th>
+              <th className="py-1 text-right font-normal">Gain</th>
+              <th className="py-1 text-right font-normal">Return</th>
+              <th className="py-1 text-right font-normal">Share</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/10">
+            {rows.map((r) => (
+              <tr key={r.key}>
+                <td className="max-w-[12rem] truncate py-1 pr-2">{r.label}</td>
+                <td className={`py-1 text-right ${tone(r.gain)}`}>
+                  {r.gain < 0 ? "-" : "+"}
+                  {fmtMoney(Math.abs(r.gain))}
+                </td>
+                <td className={`py-1 text-right ${tone(r.return)}`}>{pct(r.return)}</td>
+                <td className="py-1 text-right text-white/70">
+                  {r.shareOfGain == null ? "—" : `${(r.shareOfGain * 100).toFixed(0)}%`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function PortfolioPerformancePanel({ performance: p, days, benchmarkId }: Props) {
+  const fmtMoney = (cents: number) => formatFx(cents / 100, p.currency);
+  const gameLabel = (g: string) =>
+    g === "pokemon" ? "Pokémon" : g === "mtg" ? "Magic: The Gathering" : g === "yugioh" ? "Yu-Gi-Oh!" : g;
+
+  const href = (next: { days?: number; benchmark?: string }) =>
+    `/collection/analytics?${new URLSearchParams({
+      days: String(next.days ?? days),
+      benchmark: next.benchmark ?? benchmarkId ?? "none",
+    })}#performance`;
+
+  const bench = p.benchmark;
+  const cmp = bench?.comparison ?? null;
+
+  // chart both series from the first date they share
+  const benchDates = new Set(bench?.index.map((b) => b.date) ?? []);
+  const firstShared = p.index.find((x) => benchDates.has(x.date))?.date ?? p.index[0]?.date;
+  const rebase = (xs: IndexPoint[]) => {
+    const from = xs.filter((x) => !firstShared || x.date >= firstShared);
+    const base = from[0]?.index || 1;
+    return from.map((x) => ({ date: x.date, index: x.index / base }));
+  };
+  const mine = rebase(p.index);
+  const theirs = bench ? rebase(bench.index) : [];
+  const all = [...mine, ...theirs].map((x) => x.index);
+  const scale: Scale = {
+    from: firstShared ?? "",
+    to: [...mine, ...theirs].reduce((last, x) => (x.date > last ? x.date : last), firstShared ?? ""),
+    min: all.length ? Math.min(...all) : 1,
+    max: all.length ? Math.max(...all) : 1,
+  };
+
+  return (
+    <div id="performance" className="rounded-2xl border border-white/15 bg-white/5 p-4 backdrop-blur-sm space-y-4">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Performance</h2>
+          <p className="text-xs text-white/70">
+            Returns net of what you bought and sold, from daily snapshots
+            {p.from && p.to ? ` (${p.from} → ${p.to})` : ""}.
+          </p>
+        </div>
+
+        <div className="flex flex-col items-end gap-1 text-xs">
+          <div className="flex gap-1">
+            {WINDOWS.map((w) => (
+              <Link
+                key={w}
+                href={href({ days: w })}
+                className={`rounded-md border px-2 py-0.5 ${
+                  w === days ? "border-sky-400/60 bg-sky-500/20 text-white" : "border-white/15 text-white/70 hover:bg-white/10"
+                }`}
+              >
+                {windowLabel(w)}
+              </Link>
+            ))}
+          </div>
+          <div className="flex flex-wrap justify-end gap-1">
+            {[...BENCHMARK_PRESETS, "none"].map((id) => (
+              <Link
+                key={id}
+                href={href({ benchmark: id })}
+                className={`rounded-md border px-2 py-0.5 ${
+                  id === (benchmarkId ?? "none")
+                    ? "border-sky-400/60 bg-sky-500/20 text-white"
+                    : "border-white/15 text-white/70 hover:bg-white/10"
+                }`}
+              >
+                {id === "none" ? "No benchmark" : parseBenchmark(id)?.label ?? id}
+              </Link>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {p.snapshots < 2 ? (
+        <div className="rounded-md border border-white/10 bg-white/5 p-3 text-sm text-white/80">
+          Performance needs at least two daily snapshots in this window. Keep your nightly revalue job running.
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+            <div className="rounded-xl border border-white/10 bg-white/5 px-3 py-2">
+              <div className="text-xs text-white/60">Time-weighted return</div>
+              <div className={`mt-1 text-xl font-semibold ${tone(p.twr?.total)}`}>{pct(p.twr?.total)}</div>
+              <div className="text-xs text-white/50">
+                {p.twr?.annualized != null ? `${pct(p.twr.annualized)} / yr` : "How your cards did"}
+              </div>
+            </div>
+            <div className="rounded-xl border border-white/10 bg-white/5 px-3 py-2">
+              <div className="text-xs text-white/60">Money-weighted return</div>
+              <div className={`mt-1 text-xl font-semibold ${tone(p.mwr)}`}>{pct(p.mwr)}</div>
+              <div className="text-xs text-white/50">Per year, incl. your timing</div>
+            </div>
+            <div className="rounded-xl border border-white/10 bg-white/5 px-3 py-2">
+              <div className="text-xs text-white/60">Gain</div>
+              <div className={`mt-1 text-xl font-semibold ${tone(p.gainCents)}`}>
+                {p.gainCents < 0 ? "-" : "+"}
+                {fmtMoney(Math.abs(p.gainCents))}
+              </div>
+              <div className="text-xs text-white/50">Net flows {fmtMoney(p.netFlowsCents)}</div>
+            </div>
+            <div className="rounded-xl border border-white/10 bg-white/5 px-3 py-2">
+              <div className="text-xs text-white/60">Max drawdown</div>
+              <div className={`mt-1 text-xl font-semibold ${tone(p.drawdown?.maxDrawdown)}`}>
+                {pct(p.drawdown?.maxDrawdown)}
+              </div>
+              <div className="text-xs text-white/50">
+                {p.drawdown?.peakDate && p.drawdown.troughDate
+                  ? `${p.drawdown.peakDate} → ${p.drawdown.troughDate}`
+                  : "No fall from a peak"}
+              </div>
+            </div>
+            <div className="rounded-xl border border-white/10 bg-white/5 px-3 py-2">
+              <div className="text-xs text-white/60">Volatility</div>
+              <div className="mt-1 text-xl font-semibold">
+                {p.volatility != null ? `${(p.volatility * 100).toFixed(1)}%` : "—"}
+              </div>
+              <div className="text-xs text-white/50">Annualized</div>
+            </div>
+          </div>
+
+          {bench && (
+            <div className="rounded-xl border border-white/10 bg-white/5 px-3 py-3">
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <div className="text-sm">
+                  {cmp ? (
+                    <>
+                      You{" "}
+                      <span className={cmp.beatsBenchmark ? "text-emerald-300" : "text-red-300"}>
+                        {cmp.beatsBenchmark ? "beat" : "trailed"}
+                      </span>{" "}
+                      {bench.label.toLowerCase()} by{" "}
+                      <span className={tone(cmp.excessReturn)}>{pct(Math.abs(cmp.excessReturn))}</span>
+                      <span className="text-white/60">
+                        {" "}
+                        ({pct(cmp.portfolioReturn)} vs {pct(cmp.benchmarkReturn)})
+                      </span>
+                    </>
+                  ) : (
+                    <span className="text-white/70">Not enough market history for {bench.label.toLowerCase()} in this window.</span>
+                  )}
+                </div>
+                <div className="flex gap-3 text-xs text-white/60">
+                  <span className="text-emerald-300">— Your collection</span>
+                  <span className="text-sky-300">— {bench.label}</span>
+                </div>
+              </div>
+
+              {mine.length > 1 && (
+                <svg viewBox="0 0 260 100" className="mt-2 h-36 w-full">
+                  <polyline
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="1.5"
+                    className="text-sky-300"
+                    points={linePoints(theirs, scale, 260, 96)}
+                  />
+                  <polyline
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    className="text-emerald-300"
+                    points={linePoints(mine, scale, 260, 96)}
+                  />
+                </svg>
+              )}
+            </div>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <AttributionTable
+              title="Attribution by game"
+              rows={p.attribution.byGame.map((r) => ({ ...r, label: gameLabel(r.label) }))}
+              fmtMoney={fmtMoney}
+            />
+            {p.attribution.bySet ? (
+              <AttributionTable title="Attribution by set (top 10)" rows={p.attribution.bySet.slice(0, 10)} fmtMoney={fmtMoney} />
+            ) : (
+              <div>
+                <div className="text-xs uppercase tracking-wide text-white/60">Attribution by set</div>
+                <div className="mt-2 text-sm text-white/70">
+                  Available for windows that start after set-level snapshots began.
+                </div>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+type Props = {
+  itemId: string;
+  game: string;
+  cardId: string;
+  maxQuantity: number;
+};
+
+type LotChoice = "fifo" | "lifo" | "this";
+
+function toCents(v: string) {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? Math.round(n * 100) : 0;
+}
+
+/**
+ * Inline "Sell" form for a collection row. Records the sale against acquisition
+ * lots (FIFO / LIFO / this row) and removes the sold copies from the collection.
+ */
+export default function RecordSaleButton({ itemId, game, cardId, maxQuantity }: Props) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  const [kind, setKind] = useState<"sale" | "disposal">("sale");
+  const [qty, setQty] = useState(1);
+  const [price, setPrice] = useState("");
+  const [fees, setFees] = useState("");
+  const [shipping, setShipping] = useState("");
+  const [soldAt, setSoldAt] = useState(() => new Date().toISOString().slice(0, 10));
+  const [lots, setLots] = useState<LotChoice>("fifo");
+
+  async function submit() {
+    if (saving) return;
+    setSaving(true);
+    setErr(null);
+
+    try {
+      const res = await fetch("/api/collection/sales", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          kind,
+          game,
+          cardId,
+          quantity: qty,
+          soldAt,
+          grossProceedsCents: kind === "sale" ? toCents(price) : 0,
+          feesCents: toCents(fees),
+          shippingCents: toCents(shipping),
+          method: lots === "this" ? "specific" : lots,
+          lots: lots === "this" ? [{ itemId, quantity: qty }] : undefined,
+        }),
+      });
+
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json?.ok) {
+        setErr(json?.message || "Could not record the sale.");
+        return;
+      }
+
+      setOpen(false);
+      router.refresh();
+    } catch {
+      setErr("Could not record the sale.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="inline-block rounded-md border border-white/15 bg-white/5 px-2 py-1 text-xs text-white/80 hover:bg-white/10"
+      >
+        Sell
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-2 w-56 space-y-2 rounded-lg border border-white/15 bg-black/60 p-2 text-xs text-white">
+      <div className="flex gap-2">
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as "sale" | "disposal")}
+          className="flex-1 rounded bg-white/10 p-1"
+        >
+          <option value="sale">Sold</option>
+          <option value="disposal">Gave away / lost</option>
+        </select>
+        <input
+          type="number"
+          min={1}
+          max={maxQuantity}
+          value={qty}
+          onChange={(e) => setQty(Math.max(1, Math.floor(Number(e.target.value) || 1)))}
+          className="w-14 rounded bg-white/10 px-1"
+          title="Quantity"
+        />
+      </div>
+
+      {kind === "sale" ? (
+        <input
+          value={price}
+          onChange={(e) => setPrice(e.target.value)}
+          placeholder="Sale price (total $)"
+          className="w-full rounded bg-white/10 px-2 py-1"
+        />
+      ) : null}
+
+      <div className="flex gap-2">
+        <input
+          value={fees}
+          onChange={(e) => setFees(e.target.value)}
+          placeholder="Fees $"
+          className="w-1/2 rounded bg-white/10 px-2 py-1"
+        />
+        <input
+          value={shipping}
+          onChange={(e) => setShipping(e.target.value)}
+          placeholder="Shipping $"
+          className="w-1/2 rounded bg-white/10 px-2 py-1"
+        />
+      </div>
+
+      <input
+        type="date"
+        value={soldAt}
+        onChange={(e) => setSoldAt(e.target.value)}
+        className="w-full rounded bg-white/10 px-2 py-1"
+      />
+
+      <select
+        value={lots}
+        onChange={(e) => setLots(e.target.value as LotChoice)}
+        className="w-full rounded bg-white/10 p-1"
+        title="Which copies were sold"
+      >
+        <option value="fifo">Oldest copies first (FIFO)</option>
+        <option value="lifo">Newest copies first (LIFO)</option>
+        <option value="this">This row only (specific ID)</option>
+      </select>
+
+      {err ? <div className="text-red-300">{err}</div> : null}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={submit}
+          disabled={saving}
+          className="rounded border border-white/20 bg-white/10 px-2 py-1 hover:bg-white/20 disabled:opacity-60"
+        >
+          {saving ? "Saving…" : "Record"}
+        </button>
+        <button type="button" onClick={() => setOpen(false)} className="px-2 py-1 text-white/60 hover:text-white">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -54,8 +54,15 @@ export default function MarketValueInline(props: {
   today: ValueRow | null | undefined;
   yesterday?: ValueRow | null | undefined;
   showDisclaimer?: boolean;
+  /** formats a USD amount for display; default "$1.23" */
+  formatUsd?: (usd: number) => string;
 }) {
-  const { plan, today, yesterday, showDisclaimer = true } = props;
+  const { plan, today, yesterday, showDisclaimer = true, formatUsd } = props;
+
+  const money = (v: number | string | null | undefined) => {
+    const n = toNum(v);
+    return n != null && formatUsd ? formatUsd(n) : moneyUsd(v);
+  };
 
   const canCollector = plan === "collector" || plan === "pro";
   const canPro = plan === "pro";
@@ -70,7 +77,7 @@ export default function MarketValueInline(props: {
     <div className="mt-2 rounded-md border border-white/10 bg-white/5 px-2 py-1.5 text-xs">
       <div className="flex flex-wrap items-center gap-2">
         <span className="text-white/60">Market:</span>
-        <span className="font-semibold text-white">{moneyUsd(tv)}</span>
+        <span className="font-semibold text-white">{money(tv)}</span>
 
         <span
           className="rounded border border-white/10 bg-black/20 px-1.5 py-0.5 text-[11px] text-white/80"
@@ -83,7 +90,7 @@ export default function MarketValueInline(props: {
           <span className="text-white/70">
             • Range:{" "}
             <span className="text-white">
-              {moneyUsd(today?.range_low_usd ?? null)}–{moneyUsd(today?.range_high_usd ?? null)}
+              {money(today?.range_low_usd ?? null)}–{money(today?.range_high_usd ?? null)}
             </span>
           </span>
         ) : (
@@ -1,176 +1,92 @@
 import "server-only";
 
 import Link from "next/link";
-import { sql } from "drizzle-orm";
-import { db } from "@/lib/db";
-import { convert, formatMoney } from "@/lib/pricing";
+import { formatMoney } from "@/lib/pricing";
+import { normalizeGame } from "@/lib/livePrices";
+import { getValuation } from "@/lib/valuations/engine";
+import type { ConfidenceGrade, PriceSource } from "@/lib/valuations/blend";
 
 type Props = {
   game: "pokemon" | "yugioh" | "mtg" | "funko";
   canonicalId: string; // pokemon card id, etc.
 
-  // kept for compatibility; not used with tcgdex snapshot
+  // kept for compatibility; the valuation engine finds its own sources
   canonicalSource?: string | null;
 
+  /** printing to value, e.g. "reverse_holofoil"; default normal */
+  variant?: string | null;
+
   title?: string;
   showDisclaimer?: boolean;
 
-  // gating (kept; but tcgdex snapshot doesn't provide true ranges/confidence)
+  // plan gating
   canSeeRanges?: boolean;
   canSeeConfidence?: boolean;
 };
 
-type TcgdexCardRow = {
-  id: string;
-  raw_json: any;
+const SOURCE_LABELS: Record<PriceSource, string> = {
+  tcgplayer: "TCGplayer",
+  cardmarket: "Cardmarket",
+  ebay: "eBay sold",
+  pricecharting: "PriceCharting",
+  retail: "Retail",
 };
 
-type Money = {
-  amount: number;
-  currency: "USD" | "EUR";
+const CONFIDENCE_HINTS: Record<ConfidenceGrade, string> = {
+  A: "Several fresh sources that agree",
+  B: "Good data with some disagreement or age",
+  C: "Thin or single-source data",
+  D: "Very little data; treat as a rough guide",
 };
 
-function safeString(v: unknown): string {
-  if (typeof v === "string") return v;
-  if (typeof v === "number" && Number.isFinite(v)) return String(v);
-  return "";
-}
-
-function toNum(v: unknown): number | null {
-  if (typeof v === "number" && Number.isFinite(v)) return v;
-  const s = safeString(v).trim();
-  if (!s) return null;
-  const n = Number(s);
-  return Number.isFinite(n) ? n : null;
-}
-
-function normCur(v: unknown): "USD" | "EUR" {
-  const s = safeString(v).trim().toUpperCase();
-  return s === "EUR" ? "EUR" : "USD";
-}
-
-function money(amount: number | null, currency: "USD" | "EUR"): Money | null {
-  if (amount == null || !Number.isFinite(amount) || amount <= 0) return null;
-  return { amount, currency };
-}
-
 function moneyUsd(n: number | null | undefined) {
   if (n == null || !Number.isFinite(n) || n <= 0) return "—";
   return formatMoney(n, "USD");
 }
 
-function fmtUpdated(v: unknown) {
-  const s = safeString(v).trim();
-  if (!s) return null;
-  const t = Date.parse(s);
-  if (!Number.isFinite(t)) return s;
-  return new Date(t).toISOString();
-}
-
-function pickPriceFromBucket(bucket: any): number | null {
-  const market = toNum(bucket?.marketPrice);
-  if (market != null && market > 0) return market;
-
-  const mid = toNum(bucket?.midPrice);
-  if (mid != null && mid > 0) return mid;
-
-  const low = toNum(bucket?.lowPrice);
-  if (low != null && low > 0) return low;
-
-  const high = toNum(bucket?.highPrice);
-  if (high != null && high > 0) return high;
-
-  return null;
-}
-
-async function getTcgdexCard(id: string): Promise<TcgdexCardRow | null> {
-  const res = await db.execute<TcgdexCardRow>(sql`
-    SELECT id, raw_json
-    FROM public.tcgdex_cards
-    WHERE id = ${id}
-    LIMIT 1
-  `);
-  return res.rows?.[0] ?? null;
+function fmtUpdated(v: string | null) {
+  if (!v) return null;
+  const t = Date.parse(v);
+  if (!Number.isFinite(t)) return v;
+  return new Date(t).toISOString().slice(0, 10);
 }
 
 /**
- * MarketValuePanel (tcgdex snapshot version)
- *
- * tcgdex does NOT provide:
- * - true daily history (for trend vs yesterday)
- * - p25/p75 ranges
- * - confidence grades
+ * MarketValuePanel
  *
- * So:
- * - "Market value" = best available snapshot converted to USD
- * - trend = always "↔" with "No trend data yet"
- * - range/confidence gated but shown as unavailable rather than lying
+ * Shows the blended value from the valuation engine (@/lib/valuations):
+ * TCGplayer, Cardmarket, eBay comps and PriceCharting weighted by recency
+ * and sample size. Range and confidence are gated by plan.
  */
 export default async function MarketValuePanel({
   game,
   canonicalId,
   canonicalSource = null,
+  variant = null,
   title = "Market Value",
   showDisclaimer = true,
   canSeeRanges = false,
   canSeeConfidence = false,
 }: Props) {
-  void game;
   void canonicalSource;
 
   const cid = String(canonicalId ?? "").trim();
   if (!cid) return null;
 
-  const row = await getTcgdexCard(cid);
-  const raw = row?.raw_json ?? null;
+  const gameId = normalizeGame(game);
+  const v = gameId ? await getValuation({ game: gameId, cardId: cid, variant }) : null;
 
-  if (!raw) {
+  if (!v) {
     return (
       <section className="rounded-2xl border border-white/15 bg-white/5 p-4 backdrop-blur-sm">
         <h2 className="text-lg font-semibold text-white">{title}</h2>
-        <div className="mt-2 text-sm text-white/70">No tcgdex snapshot found yet for this item.</div>
+        <div className="mt-2 text-sm text-white/70">No market data yet for this item.</div>
       </section>
     );
   }
 
-  const pricing = raw?.pricing ?? {};
-  const tcg = pricing?.tcgplayer ?? null;
-  const cm = pricing?.cardmarket ?? null;
-
-  // Prefer TCGplayer normal market, then reverse/holo, then Cardmarket trend/avg
-  const tcgUnit = normCur(tcg?.unit ?? "USD");
-  const tcgUpdated = fmtUpdated(tcg?.updated);
-
-  const bestTcg =
-    money(pickPriceFromBucket(tcg?.normal), tcgUnit) ??
-    money(pickPriceFromBucket(tcg?.["reverse-holofoil"]), tcgUnit) ??
-    money(pickPriceFromBucket(tcg?.holofoil), tcgUnit);
-
-  // Cardmarket is EUR
-  const cmUpdated = fmtUpdated(cm?.updated);
-  const cmUnit: "EUR" = "EUR";
-
-  const bestCm =
-    money(toNum(cm?.trend), cmUnit) ??
-    money(toNum(cm?.avg), cmUnit) ??
-    money(toNum(cm?.low), cmUnit) ??
-    money(toNum(cm?.["trend-holo"]), cmUnit) ??
-    money(toNum(cm?.["avg-holo"]), cmUnit) ??
-    money(toNum(cm?.["low-holo"]), cmUnit);
-
-  const best = bestTcg ?? bestCm;
-
-  // Convert best -> USD for display
-  const marketUsd =
-    best == null
-      ? null
-      : best.currency === "USD"
-        ? best.amount
-        : (convert(best.amount, "EUR", "USD") ?? null);
-
-  const updated = tcgUpdated ?? cmUpdated ?? null;
-
-  const trend = { arrow: "↔", label: "No trend data yet (tcgdex provides snapshot pricing, not daily series)." };
+  const updated = fmtUpdated(v.asOf);
+  const sourceNames = [...new Set(v.sources.map((s) => SOURCE_LABELS[s.source]))];
 
   return (
     <section className="rounded-2xl border border-white/15 bg-white/5 p-4 backdrop-blur-sm">
@@ -180,25 +96,21 @@ export default async function MarketValuePanel({
           <h2 className="text-lg font-semibold text-white">{title}</h2>
 
           <div className="mt-1 flex flex-wrap items-center gap-2 text-sm text-white/80">
-            <span className="text-2xl font-bold text-white">{moneyUsd(marketUsd)}</span>
-
-            <span
-              className="rounded-md border border-white/15 bg-white/5 px-2 py-1 text-xs text-white/80"
-              title={trend.label}
-            >
-              {trend.arrow}
-            </span>
+            <span className="text-2xl font-bold text-white">{moneyUsd(v.valueUsd)}</span>
 
             {canSeeConfidence ? (
-              <span className="rounded-md border border-white/15 bg-white/5 px-2 py-1 text-xs text-white/80">
-                Confidence: <span className="font-semibold text-white">—</span>
+              <span
+                className="rounded-md border border-white/15 bg-white/5 px-2 py-1 text-xs text-white/80"
+                title={`${CONFIDENCE_HINTS[v.confidence.grade]} (score ${v.confidence.score.toFixed(2)})`}
+              >
+                Confidence: <span className="font-semibold text-white">{v.confidence.grade}</span>
               </span>
             ) : (
               <Link
                 href="/pricing"
                 className="rounded-md border border-white/15 bg-white/5 px-2 py-1 text-xs text-white/80 hover:bg-white/10"
                 prefetch={false}
-                title="Pro required to view confidence (not available from tcgdex snapshot)"
+                title="Pro required to view confidence"
               >
                 Confidence: 🔒 Pro
               </Link>
@@ -207,20 +119,13 @@ export default async function MarketValuePanel({
 
           <div className="mt-2 text-xs text-white/60">
             {updated ? <>As of {updated}</> : <>As of latest snapshot</>}
-            {best ? (
+            {sourceNames.length ? (
               <>
                 {" "}
-                • Source:{" "}
-                <span className="text-white/80">{bestTcg ? "TCGplayer" : "Cardmarket"}</span>
+                • Sources: <span className="text-white/80">{sourceNames.join(", ")}</span>
               </>
             ) : null}
           </div>
-
-          {!best ? (
-            <div className="mt-2 text-xs text-white/70">
-              No usable price fields found in snapshot yet.
-            </div>
-          ) : null}
         </div>
 
         {/* RIGHT */}
@@ -229,30 +134,30 @@ export default async function MarketValuePanel({
 
           {canSeeRanges ? (
             <div className="mt-1 text-sm text-white">
-              <span className="font-semibold">—</span>
+              <span className="font-semibold">{moneyUsd(v.lowUsd)}</span>
               <span className="text-white/50"> — </span>
-              <span className="font-semibold">—</span>
+              <span className="font-semibold">{moneyUsd(v.highUsd)}</span>
             </div>
           ) : (
             <Link
               href="/pricing"
               className="mt-1 inline-block rounded-md border border-white/15 bg-white/5 px-2 py-1 text-xs text-white/80 hover:bg-white/10"
               prefetch={false}
-              title="Collector required to view ranges (not available from tcgdex snapshot)"
+              title="Collector required to view ranges"
             >
               🔒 Collector+ to view range
             </Link>
           )}
 
           <div className="mt-2 text-[11px] text-white/50">
-            Ranges require historical aggregation (p25–p75). tcgdex snapshot doesn’t include that yet.
+            Range spans the sources we blend, wider when confidence is low.
           </div>
         </div>
       </div>
 
       {showDisclaimer ? (
         <div className="mt-4 border-t border-white/10 pt-3 text-xs text-white/60">
-          Market value based on snapshot pricing (tcgdex). Not a guaranteed sale price.
+          Market value blends recent marketplace prices and sales. Not a guaranteed sale price.
         </div>
       ) : null}
     </section>
@@ -4,24 +4,10 @@
 import { useEffect, useMemo, useState } from "react";
 import AddToCollectionButton from "@/components/collection/AddToCollectionButton";
 import type { PokemonVariants } from "@/components/pokemon/VariantChips";
+import { variantLabel } from "@/lib/valuations/variants";
 
 type VariantTypeDb = "normal" | "holofoil" | "reverse_holofoil" | "first_edition" | "promo";
 
-function variantLabel(v: VariantTypeDb) {
-  switch (v) {
-    case "holofoil":
-      return "Holo";
-    case "reverse_holofoil":
-      return "Reverse";
-    case "first_edition":
-      return "1st Ed";
-    case "promo":
-      return "Promo";
-    default:
-      return "Normal";
-  }
-}
-
 /** Strict boolean interpretation (prevents !!"f" === true) */
 function truthy(v: unknown): boolean {
   if (v === true) return true;
@@ -16,6 +16,7 @@ type QuickAction =
   | "movers30"
   | "taxLotsGame"
   | "taxLotsAll"
+  | "realizedYear"
   | "highValueGame"
   | "alerts";
 
@@ -25,6 +26,7 @@ export default function DownloadsPanel() {
   const [quick, setQuick] = useState<QuickAction>("");
 
   const gameName = useMemo(() => GAME_LABEL[game], [game]);
+  const taxYear = new Date().getFullYear();
 
   function runQuick(action: QuickAction) {
     if (!action) return;
@@ -47,6 +49,9 @@ export default function DownloadsPanel() {
       case "taxLotsAll":
         href = `/api/pro/exports/tax-lots`;
         break;
+      case "realizedYear":
+        href = `/api/pro/exports/tax-lots?type=realized&year=${taxYear}`;
+        break;
       case "highValueGame":
         href = `/api/pro/exports/high-value?threshold=${threshold}&game=${g}`;
         break;
@@ -92,6 +97,7 @@ export default function DownloadsPanel() {
               <option value="movers30">Movers (30d) CSV</option>
               <option value="taxLotsGame">{gameName} Tax Lots CSV</option>
               <option value="taxLotsAll">All Games Tax Lots CSV</option>
+              <option value="realizedYear">Realized Gains {taxYear} CSV</option>
               <option value="highValueGame">{gameName} High-Value CSV (≥ {hv})</option>
               <option value="alerts">Alerts Backup CSV</option>
             </select>
@@ -214,7 +220,7 @@ export default function DownloadsPanel() {
             className="rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-white hover:border-white/20 hover:bg-white/10"
           >
             {gameName} Tax Lots (CSV)
-            <div className="text-xs text-white/60">Cost basis + market + gain/ROI</div>
+            <div className="text-xs text-white/60">Open lots: cost basis + market + unrealized gain/ROI</div>
           </a>
 
           <a
@@ -225,6 +231,14 @@ export default function DownloadsPanel() {
             <div className="text-xs text-white/60">Best for accounting & reselling</div>
           </a>
 
+          <a
+            href={`/api/pro/exports/tax-lots?type=realized&year=${taxYear}`}
+            className="rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-white hover:border-white/20 hover:bg-white/10"
+          >
+            Realized Gains {taxYear} (CSV)
+            <div className="text-xs text-white/60">Recorded sales matched to lots, short- vs long-term</div>
+          </a>
+
           <a
             href={`/api/pro/exports/high-value?threshold=${encodeURIComponent(
               String(hv),
@@ -0,0 +1,79 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+
+type Props =
+  | { kind: "catalog"; query: string; game?: string | null; className?: string }
+  | { kind: "shop"; filters: Record<string, string>; className?: string };
+
+/**
+ * Saves the current search (catalog query or shop filters) and turns on
+ * "email me about new matches". Signed-out users are sent to sign-in first.
+ */
+export default function SaveSearchButton(props: Props) {
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  async function save() {
+    if (saving || saved) return;
+    setSaving(true);
+    setErr(null);
+
+    try {
+      const res = await fetch("/api/saved-searches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          props.kind === "catalog"
+            ? { kind: "catalog", query: props.query, game: props.game ?? null }
+            : { kind: "shop", filters: props.filters },
+        ),
+      });
+
+      if (res.status === 401) {
+        const back = `${window.location.pathname}${window.location.search}`;
+        window.location.href = `/sign-in?redirect_url=${encodeURIComponent(back)}`;
+        return;
+      }
+
+      const json = await res.json().catch(() => null);
+      if (!res.ok || !json?.ok) {
+        setErr(json?.message || "Could not save this search.");
+        return;
+      }
+
+      setSaved(true);
+    } catch {
+      setErr("Could not save this search.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (saved) {
+    return (
+      <span className={`text-sm text-emerald-300 ${props.className ?? ""}`}>
+        Saved — we’ll email you new matches.{" "}
+        <Link href="/search/saved" className="underline hover:text-emerald-200">
+          Manage
+        </Link>
+      </span>
+    );
+  }
+
+  return (
+    <span className={props.className}>
+      <button
+        type="button"
+        onClick={save}
+        disabled={saving}
+        className="rounded border border-white/20 bg-white/10 px-3 py-1.5 text-sm hover:bg-white/20 disabled:opacity-60"
+      >
+        {saving ? "Saving…" : "🔔 Save search"}
+      </button>
+      {err ? <span className="ml-2 text-xs text-red-300">{err}</span> : null}
+    </span>
+  );
+}
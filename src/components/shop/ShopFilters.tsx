@@ -3,6 +3,7 @@
 
 import { useMemo, useState } from "react";
 import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import SaveSearchButton from "@/components/search/SaveSearchButton";
 
 const SORTS = [
   { v: "featured", label: "Featured" },
@@ -11,7 +12,7 @@ const SORTS = [
   { v: "price_desc", label: "Price: High → Low" },
 ];
 
-export default function ShopFilters({  }: { game: string; format: string }) {
+export default function ShopFilters({ game, format }: { game: string; format: string }) {
   const sp = useSearchParams();
   const pathname = usePathname();
   const router = useRouter();
@@ -190,6 +191,10 @@ export default function ShopFilters({  }: { game: string; format: string }) {
         <button className="btn" onClick={apply}>Apply</button>
         <button className="btn btnGhost" onClick={clearAll}>Clear</button>
       </div>
+
+      <div className="filtersActions">
+        <SaveSearchButton kind="shop" filters={{ ...state, game, format }} />
+      </div>
     </div>
   );
 }
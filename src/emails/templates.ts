@@ -69,6 +69,184 @@ export function supportStaffTemplate(opts: {
   };
 }
 
+export function savedSearchMatchesTemplate(opts: {
+  searchName: string;
+  matches: { title: string; subtitle?: string | null; href: string; priceCents?: number | null }[];
+  /** matches beyond the ones listed */
+  moreCount?: number;
+}) {
+  const n = opts.matches.length + (opts.moreCount ?? 0);
+  const title = `New matches for “${opts.searchName}”`;
+  const price = (c?: number | null) => (c == null ? "" : ` — $${(c / 100).toFixed(2)}`);
+  const link = (href: string) => (href.startsWith("http") ? href : `${brandUrl}${href}`);
+
+  const items = opts.matches
+    .map(
+      (m) => `
+      <li style="margin-bottom:6px;">
+        <a href="${escapeHtml(link(m.href))}" target="_blank" rel="noopener noreferrer">${escapeHtml(m.title)}</a>${
+          m.subtitle ? ` <span style="color:#666;">(${escapeHtml(m.subtitle)})</span>` : ""
+        }${price(m.priceCents)}
+      </li>`,
+    )
+    .join("");
+
+  const body = `
+    <p>${n === 1 ? "1 new item matches" : `${n} new items match`} your saved search <strong>${escapeHtml(opts.searchName)}</strong>.</p>
+    <ul style="padding-left:18px;">${items}</ul>
+    ${opts.moreCount ? `<p>…and ${opts.moreCount} more.</p>` : ""}
+    <p><a href="${brandUrl}/search/saved" target="_blank" rel="noopener noreferrer">Manage your saved searches</a></p>
+  `;
+
+  return {
+    subject: `[${brand}] ${n} new match${n === 1 ? "" : "es"} for “${opts.searchName}”`,
+    html: Email.renderHtml(title, body),
+    text:
+      `${title}\n\n` +
+      opts.matches.map((m) => `- ${m.title}${m.subtitle ? ` (${m.subtitle})` : ""}${price(m.priceCents)}\n  ${link(m.href)}`).join("\n") +
+      (opts.moreCount ? `\n…and ${opts.moreCount} more.` : "") +
+      `\n\nManage your saved searches: ${brandUrl}/search/saved\n`,
+  };
+}
+
+export function wishlistBackInStockTemplate(opts: {
+  items: { cardName: string; title: string; href: string | null; priceCents?: number | null }[];
+  /** listings beyond the ones listed */
+  moreCount?: number;
+}) {
+  const n = opts.items.length + (opts.moreCount ?? 0);
+  const title = n === 1 ? "A card on your wishlist is in stock" : "Cards on your wishlist are in stock";
+  const price = (c?: number | null) => (c == null ? "" : ` — $${(c / 100).toFixed(2)}`);
+  const link = (href: string | null) => (!href ? `${brandUrl}/shop` : href.startsWith("http") ? href : `${brandUrl}${href}`);
+
+  const items = opts.items
+    .map(
+      (m) => `
+      <li style="margin-bottom:6px;">
+        <strong>${escapeHtml(m.cardName)}</strong>:
+        <a href="${escapeHtml(link(m.href))}" target="_blank" rel="noopener noreferrer">${escapeHtml(m.title)}</a>${price(m.priceCents)}
+      </li>`,
+    )
+    .join("");
+
+  const body = `
+    <p>${n === 1 ? "A listing" : `${n} listings`} matching your wishlist just went live or came back in stock at ${brand}.</p>
+    <ul style="padding-left:18px;">${items}</ul>
+    ${opts.moreCount ? `<p>…and ${opts.moreCount} more.</p>` : ""}
+    <p><a href="${brandUrl}/collection/wishlist" target="_blank" rel="noopener noreferrer">View your wishlist</a></p>
+  `;
+
+  return {
+    subject: `[${brand}] ${n === 1 ? `${opts.items[0]?.cardName ?? "A wishlist card"} is` : `${n} wishlist cards are`} in stock`,
+    html: Email.renderHtml(title, body),
+    text:
+      `${title}\n\n` +
+      opts.items.map((m) => `- ${m.cardName}: ${m.title}${price(m.priceCents)}\n  ${link(m.href)}`).join("\n") +
+      (opts.moreCount ? `\n…and ${opts.moreCount} more.` : "") +
+      `\n\nView your wishlist: ${brandUrl}/collection/wishlist\n`,
+  };
+}
+
+export function notificationsTemplate(opts: {
+  items: { title: string; body: string; href: string | null }[];
+  /** notifications beyond the ones listed */
+  moreCount?: number;
+  digest?: "daily" | "weekly" | null;
+}) {
+  const n = opts.items.length + (opts.moreCount ?? 0);
+  const title = opts.digest
+    ? `Your ${opts.digest} digest`
+    : n === 1
+      ? opts.items[0]?.title ?? "New notification"
+      : `${n} new notifications`;
+  const link = (href: string) => (href.startsWith("http") ? href : `${brandUrl}${href}`);
+
+  const items = opts.items
+    .map(
+      (m) => `
+      <li style="margin-bottom:6px;">
+        ${m.href ? `<a href="${escapeHtml(link(m.href))}" target="_blank" rel="noopener noreferrer"><strong>${escapeHtml(m.title)}</strong></a>` : `<strong>${escapeHtml(m.title)}</strong>`}<br />
+        <span style="color:#555;">${escapeHtml(m.body)}</span>
+      </li>`,
+    )
+    .join("");
+
+  const body = `
+    <ul style="padding-left:18px;">${items}</ul>
+    ${opts.moreCount ? `<p>…and ${opts.moreCount} more.</p>` : ""}
+    <p>
+      <a href="${brandUrl}/notifications" target="_blank" rel="noopener noreferrer">View your inbox</a> ·
+      <a href="${brandUrl}/notifications/settings" target="_blank" rel="noopener noreferrer">Notification settings</a>
+    </p>
+  `;
+
+  return {
+    subject: `[${brand}] ${opts.digest ? `${title}: ${n} notification${n === 1 ? "" : "s"}` : title}`,
+    html: Email.renderHtml(title, body),
+    text:
+      `${title}\n\n` +
+      opts.items.map((m) => `- ${m.title}\n  ${m.body}${m.href ? `\n  ${link(m.href)}` : ""}`).join("\n") +
+      (opts.moreCount ? `\n…and ${opts.moreCount} more.` : "") +
+      `\n\nYour inbox: ${brandUrl}/notifications\nNotification settings: ${brandUrl}/notifications/settings\n`,
+  };
+}
+
+export function orderShipmentTemplate(opts: {
+  stage: "shipped" | "delivered";
+  /** e.g. "#0F3C2A9E" */
+  orderRef: string;
+  name?: string | null;
+  items: { title: string; qty: number }[];
+  carrier?: string | null;
+  trackingNumber?: string | null;
+  trackingUrl?: string | null;
+  /** receipt / order page */
+  orderHref?: string | null;
+}) {
+  const shipped = opts.stage === "shipped";
+  const title = shipped ? `Your order ${opts.orderRef} has shipped` : `Your order ${opts.orderRef} was delivered`;
+  const link = (href: string) => (href.startsWith("http") ? href : `${brandUrl}${href}`);
+  const tracking = opts.trackingNumber
+    ? `${opts.carrier ? `${opts.carrier} ` : ""}${opts.trackingNumber}`
+    : null;
+
+  const items = opts.items
+    .map((it) => `<li style="margin-bottom:4px;">${escapeHtml(it.title)} × ${it.qty}</li>`)
+    .join("");
+
+  const body = `
+    <p>Hi${opts.name ? ` ${escapeHtml(opts.name)}` : ""},</p>
+    <p>${
+      shipped
+        ? `Good news: your ${brand} order <strong>${escapeHtml(opts.orderRef)}</strong> is on its way.`
+        : `Your ${brand} order <strong>${escapeHtml(opts.orderRef)}</strong> has been delivered. Enjoy!`
+    }</p>
+    ${
+      tracking
+        ? `<p><strong>Tracking:</strong> ${
+            opts.trackingUrl
+              ? `<a href="${escapeHtml(opts.trackingUrl)}" target="_blank" rel="noopener noreferrer">${escapeHtml(tracking)}</a>`
+              : escapeHtml(tracking)
+          }</p>`
+        : ""
+    }
+    <ul style="padding-left:18px;">${items}</ul>
+    ${opts.orderHref ? `<p><a href="${escapeHtml(link(opts.orderHref))}" target="_blank" rel="noopener noreferrer">View your order</a></p>` : ""}
+    <p>Questions? Reply to this email or write to <a href="mailto:${supportEmail}">${supportEmail}</a>.</p>
+  `;
+
+  return {
+    subject: `[${brand}] ${title}`,
+    html: Email.renderHtml(title, body),
+    text:
+      `${title}\n\n` +
+      (tracking ? `Tracking: ${tracking}${opts.trackingUrl ? `\n${opts.trackingUrl}` : ""}\n\n` : "") +
+      opts.items.map((it) => `- ${it.title} x ${it.qty}`).join("\n") +
+      (opts.orderHref ? `\n\nView your order: ${link(opts.orderHref)}` : "") +
+      `\n\nQuestions? ${supportEmail}\n`,
+  };
+}
+
 function escapeHtml(s: string) {
   return s
     .replaceAll("&", "&amp;")
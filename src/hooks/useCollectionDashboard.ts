@@ -1,13 +1,16 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import type { FxCurrency } from "@/lib/fx/table";
 
 type ByGameEntry = {
   quantity: number;
   valueCents: number;
 };
 
+/** Money fields are hundredths of `currency` (the user's display currency). */
 type Summary = {
+  currency: FxCurrency;
   totalQuantity: number;
   distinctItems: number;
   totalCostCents: number;
@@ -34,10 +37,27 @@ type RecentlyAddedItem = {
   createdAt: string | Date;
 };
 
+/** Returns are fractions (0.12 = +12%); null on plans without performance analytics. */
+type PerformanceSummary = {
+  days: number;
+  twr: number | null;
+  mwr: number | null;
+  maxDrawdown: number | null;
+  volatility: number | null;
+  benchmark: {
+    id: string;
+    label: string;
+    return: number | null;
+    excessReturn: number | null;
+    beatsBenchmark: boolean | null;
+  } | null;
+};
+
 type DashboardResponse = {
   summary: Summary;
   history: HistoryPoint[];
   recentlyAdded: RecentlyAddedItem[];
+  performance?: PerformanceSummary | null;
 };
 
 type State = {
@@ -46,6 +66,7 @@ type State = {
   summary: Summary | null;
   history: HistoryPoint[];
   recentlyAdded: RecentlyAddedItem[];
+  performance: PerformanceSummary | null;
 };
 
 export function useCollectionDashboard(): State {
@@ -55,6 +76,7 @@ export function useCollectionDashboard(): State {
     summary: null,
     history: [],
     recentlyAdded: [],
+    performance: null,
   });
 
   useEffect(() => {
@@ -91,6 +113,7 @@ export function useCollectionDashboard(): State {
             summary: data.summary ?? null,
             history: data.history ?? [],
             recentlyAdded: data.recentlyAdded ?? [],
+            performance: data.performance ?? null,
           });
         }
       } catch (err) {
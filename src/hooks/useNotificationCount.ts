@@ -0,0 +1,33 @@
+// src/hooks/useNotificationCount.ts
+"use client";
+
+import { useEffect, useState } from "react";
+
+/** fired by the inbox after mark-read / archive so the header badge updates at once */
+export const NOTIFICATIONS_CHANGED_EVENT = "notifications:changed";
+
+export function useNotificationCount() {
+  const [count, setCount] = useState(0);
+
+  async function refresh() {
+    try {
+      const res = await fetch("/api/notifications/count", { cache: "no-store" });
+      const j = await res.json();
+      setCount(Number(j?.count ?? 0));
+    } catch {
+      // ignore
+    }
+  }
+
+  useEffect(() => {
+    refresh();
+    const id = setInterval(refresh, 60000); // 60s
+    window.addEventListener(NOTIFICATIONS_CHANGED_EVENT, refresh);
+    return () => {
+      clearInterval(id);
+      window.removeEventListener(NOTIFICATIONS_CHANGED_EVENT, refresh);
+    };
+  }, []);
+
+  return count;
+}
@@ -0,0 +1,83 @@
+// src/lib/admin/audit.ts
+import "server-only";
+
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import type { AdminActor } from "@/lib/adminAuth";
+import type { AuditChanges } from "@/lib/admin/permissions";
+
+/**
+ * Who changed what in the admin. One row per price, stock, order, listing
+ * or staff change, with the changed fields (from -> to). Writing the entry
+ * never fails the change it records; a failed write is logged instead.
+ */
+
+export type AuditEntityType = "product" | "inventory_item" | "order" | "catalog_item" | "staff" | "import";
+
+export type AuditEntry = {
+  action: string;
+  entityType: AuditEntityType;
+  entityId: string | null;
+  changes?: AuditChanges | null;
+  meta?: Record<string, unknown> | null;
+};
+
+export type AuditLogRow = {
+  id: string;
+  userId: string;
+  email: string | null;
+  role: string;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  changes: AuditChanges | null;
+  meta: Record<string, unknown> | null;
+  createdAt: string;
+};
+
+export async function recordAdminAudit(actor: AdminActor, entry: AuditEntry) {
+  try {
+    await db.execute(sql`
+      INSERT INTO public.admin_audit_log (user_id, email, role, action, entity_type, entity_id, changes, meta)
+      VALUES (
+        ${actor.userId}, ${actor.email}, ${actor.role}, ${entry.action}, ${entry.entityType}, ${entry.entityId},
+        ${entry.changes && Object.keys(entry.changes).length ? JSON.stringify(entry.changes) : null}::jsonb,
+        ${entry.meta ? JSON.stringify(entry.meta) : null}::jsonb
+      )
+    `);
+  } catch (err) {
+    console.error("[admin/audit] failed to record", { action: entry.action, entityId: entry.entityId, err });
+  }
+}
+
+export async function listAdminAudit(filter: {
+  entityType?: string | null;
+  entityId?: string | null;
+  userId?: string | null;
+  limit?: number;
+  before?: string | null;
+}): Promise<AuditLogRow[]> {
+  const limit = Math.min(Math.max(filter.limit ?? 100, 1), 500);
+  const res = await db.execute<AuditLogRow>(sql`
+    SELECT
+      id::text AS id,
+      user_id AS "userId",
+      email,
+      role,
+      action,
+      entity_type AS "entityType",
+      entity_id AS "entityId",
+      changes,
+      meta,
+      created_at AS "createdAt"
+    FROM public.admin_audit_log
+    WHERE true
+      ${filter.entityType ? sql`AND entity_type = ${filter.entityType}` : sql``}
+      ${filter.entityId ? sql`AND entity_id = ${filter.entityId}` : sql``}
+      ${filter.userId ? sql`AND user_id = ${filter.userId}` : sql``}
+      ${filter.before ? sql`AND created_at < ${filter.before}::timestamptz` : sql``}
+    ORDER BY created_at DESC, id DESC
+    LIMIT ${limit}
+  `);
+  return res.rows ?? [];
+}
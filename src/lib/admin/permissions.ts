@@ -0,0 +1,99 @@
+// src/lib/admin/permissions.ts
+//
+// Staff roles and what each may do in the admin, as a role -> permission
+// table. ../adminAuth.ts looks up a user's role and ./audit.ts records what
+// they did with it.
+
+export const ADMIN_ROLES = ["owner", "manager", "fulfillment", "listing_writer"] as const;
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  owner: "Owner",
+  manager: "Manager",
+  fulfillment: "Fulfillment",
+  listing_writer: "Listing writer",
+};
+
+export type AdminPermission =
+  /** view products, inventory and listings */
+  | "catalog:read"
+  /** create/edit listings and inventory items, including prices */
+  | "catalog:write"
+  /** listing copy and photos (AI generation, images), not prices */
+  | "listings:write"
+  /** stock movements and inventory imports */
+  | "stock:write"
+  | "orders:read"
+  /** fulfillment stages and return decisions */
+  | "orders:fulfill"
+  | "orders:refund"
+  /** email events, audit log */
+  | "reports:read"
+  /** staff roles, diagnostics */
+  | "staff:manage";
+
+const ROLE_PERMISSIONS: Record<AdminRole, readonly AdminPermission[]> = {
+  owner: [
+    "catalog:read",
+    "catalog:write",
+    "listings:write",
+    "stock:write",
+    "orders:read",
+    "orders:fulfill",
+    "orders:refund",
+    "reports:read",
+    "staff:manage",
+  ],
+  manager: [
+    "catalog:read",
+    "catalog:write",
+    "listings:write",
+    "stock:write",
+    "orders:read",
+    "orders:fulfill",
+    "orders:refund",
+    "reports:read",
+  ],
+  fulfillment: ["catalog:read", "orders:read", "orders:fulfill"],
+  listing_writer: ["catalog:read", "listings:write"],
+};
+
+export function isAdminRole(v: unknown): v is AdminRole {
+  return (ADMIN_ROLES as readonly string[]).includes(String(v ?? ""));
+}
+
+export function can(role: AdminRole | null | undefined, permission: AdminPermission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function permissionsFor(role: AdminRole): readonly AdminPermission[] {
+  return ROLE_PERMISSIONS[role];
+}
+
+/** ADMIN_EMAILS ("a@x.com, b@y.com") — bootstrap owners before any roles exist */
+export function parseAdminEmails(raw: string | null | undefined): string[] {
+  return String(raw ?? "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+/**
+ * The fields of `after` that differ from `before`, for the audit log.
+ * Only keys present in `after` count, so a partial PATCH body can be
+ * passed as-is.
+ */
+export function auditChanges(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown>,
+): AuditChanges {
+  const out: AuditChanges = {};
+  for (const [k, to] of Object.entries(after)) {
+    if (to === undefined) continue;
+    const from = before?.[k] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to ?? null)) out[k] = { from, to: to ?? null };
+  }
+  return out;
+}
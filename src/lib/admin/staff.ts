@@ -0,0 +1,86 @@
+// src/lib/admin/staff.ts
+import "server-only";
+
+import { clerkClient } from "@clerk/nextjs/server";
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import type { AdminActor } from "@/lib/adminAuth";
+import { recordAdminAudit } from "@/lib/admin/audit";
+import type { AdminRole } from "@/lib/admin/permissions";
+
+/** Staff management (owners only): who has which admin role. */
+
+export type StaffMember = {
+  userId: string;
+  email: string | null;
+  role: AdminRole;
+  addedBy: string | null;
+  updatedAt: string;
+};
+
+export async function listStaff(): Promise<StaffMember[]> {
+  const res = await db.execute<StaffMember>(sql`
+    SELECT user_id AS "userId", email, role, added_by AS "addedBy", updated_at AS "updatedAt"
+    FROM public.admin_users
+    ORDER BY role, email NULLS LAST
+  `);
+  return res.rows ?? [];
+}
+
+/** Clerk user id for a sign-in email (they must have signed up first). */
+async function findUserIdByEmail(email: string): Promise<string | null> {
+  const cc: any = clerkClient as any;
+  const client = typeof cc === "function" ? await cc() : cc;
+  const list = await client.users.getUserList({ emailAddress: [email] });
+  const users = Array.isArray(list) ? list : list?.data;
+  return users?.[0]?.id ?? null;
+}
+
+/** Adds a staff member by email, or changes their role. */
+export async function setStaffRole(actor: AdminActor, input: { email: string; role: AdminRole }) {
+  const email = input.email.trim().toLowerCase();
+  if (!email) throw new Error("Enter the staff member's email.");
+
+  const userId = await findUserIdByEmail(email);
+  if (!userId) throw new Error(`No account for ${email}. Ask them to sign up first.`);
+  if (userId === actor.userId) throw new Error("You can't change your own role.");
+
+  const prev = await db.execute<{ role: string }>(sql`
+    SELECT role FROM public.admin_users WHERE user_id = ${userId}
+  `);
+  const from = prev.rows?.[0]?.role ?? null;
+
+  await db.execute(sql`
+    INSERT INTO public.admin_users (user_id, email, role, added_by)
+    VALUES (${userId}, ${email}, ${input.role}, ${actor.userId})
+    ON CONFLICT (user_id) DO UPDATE
+    SET role = EXCLUDED.role, email = EXCLUDED.email, updated_at = now()
+  `);
+
+  await recordAdminAudit(actor, {
+    action: "staff.role",
+    entityType: "staff",
+    entityId: userId,
+    changes: from === input.role ? null : { role: { from, to: input.role } },
+    meta: { email },
+  });
+}
+
+export async function removeStaff(actor: AdminActor, userId: string) {
+  if (userId === actor.userId) throw new Error("You can't remove yourself.");
+
+  const res = await db.execute<{ role: string; email: string | null }>(sql`
+    DELETE FROM public.admin_users WHERE user_id = ${userId}
+    RETURNING role, email
+  `);
+  const removed = res.rows?.[0];
+  if (!removed) return;
+
+  await recordAdminAudit(actor, {
+    action: "staff.remove",
+    entityType: "staff",
+    entityId: userId,
+    changes: { role: { from: removed.role, to: null } },
+    meta: { email: removed.email },
+  });
+}
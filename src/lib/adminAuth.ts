@@ -1,69 +1,89 @@
 // src/lib/adminAuth.ts
 import "server-only";
 
-type AdminAuthResult = { ok: true } | { ok: false; error: string; message: string };
+import { auth } from "@clerk/nextjs/server";
+import { notFound } from "next/navigation";
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { getUserEmail } from "@/lib/userEmail";
+import {
+  can,
+  isAdminRole,
+  parseAdminEmails,
+  type AdminPermission,
+  type AdminRole,
+} from "@/lib/admin/permissions";
 
-function readHeader(req: Request, name: string) {
-  try {
-    return req.headers.get(name);
-  } catch {
-    return null;
-  }
-}
+/**
+ * Admin access is per Clerk user. A signed-in user's role comes from
+ * admin_users; emails listed in ADMIN_EMAILS are owners even without a row,
+ * so a fresh install can sign in and add staff. Every admin API route names
+ * the permission it needs, and changes are attributed to the actor in the
+ * audit log (see @/lib/admin/audit).
+ */
 
-function readCookie(req: Request, name: string): string | null {
-  const raw = readHeader(req, "cookie") || readHeader(req, "Cookie");
-  if (!raw) return null;
+export type AdminActor = {
+  userId: string;
+  email: string | null;
+  role: AdminRole;
+};
 
-  const parts = raw.split(";").map((s) => s.trim());
-  for (const p of parts) {
-    const idx = p.indexOf("=");
-    if (idx <= 0) continue;
-    const k = p.slice(0, idx).trim();
-    if (k !== name) continue;
-    const v = p.slice(idx + 1).trim();
-    try {
-      return decodeURIComponent(v);
-    } catch {
-      return v;
-    }
-  }
-  return null;
-}
+type AdminAuthResult =
+  | { ok: true; actor: AdminActor }
+  | { ok: false; error: string; message: string; status: 401 | 403 };
 
-function getTokenFromRequest(req: Request): string | null {
-  // 1) Authorization: Bearer xxx
-  const auth = readHeader(req, "authorization") || readHeader(req, "Authorization");
-  if (auth) {
-    const m = auth.match(/^\s*Bearer\s+(.+)\s*$/i);
-    if (m?.[1]) return m[1].trim();
-  }
+/** The signed-in staff member, or null when signed out / not staff. */
+export async function getAdminActor(): Promise<AdminActor | null> {
+  const { userId } = await auth();
+  if (!userId) return null;
 
-  // 2) x-admin-token header
-  const x = readHeader(req, "x-admin-token") || readHeader(req, "X-Admin-Token");
-  if (x) return x.trim();
+  const res = await db.execute<{ role: string; email: string | null }>(sql`
+    SELECT role, email FROM public.admin_users WHERE user_id = ${userId} LIMIT 1
+  `);
+  const row = res.rows?.[0];
+  if (row && isAdminRole(row.role)) return { userId, email: row.email, role: row.role };
 
-  // 3) cookie (what your browser actually has)
-  const c = readCookie(req, "admin_ui_token");
-  if (c) return c.trim();
-
-  // 4) ?token=
-  try {
-    const url = new URL((req as any).url || "");
-    const t = url.searchParams.get("token");
-    if (t) return t.trim();
-  } catch {}
+  const owners = parseAdminEmails(process.env.ADMIN_EMAILS);
+  if (!owners.length) return null;
 
+  const email = await getUserEmail(userId);
+  if (email && owners.includes(email.toLowerCase())) return { userId, email, role: "owner" };
   return null;
 }
 
-export function requireAdmin(req: Request): AdminAuthResult {
-  const expected = (process.env.ADMIN_UI_TOKEN || "").trim();
-  if (!expected) return { ok: false, error: "unauthorized", message: "Server missing ADMIN_UI_TOKEN env var" };
+export async function requireAdmin(req: Request, permission: AdminPermission): Promise<AdminAuthResult> {
+  const actor = await getAdminActor();
+  if (!actor) {
+    return { ok: false, error: "unauthorized", message: "Sign in with a staff account", status: 401 };
+  }
+  if (!can(actor.role, permission)) {
+    console.warn("[adminAuth] forbidden", {
+      userId: actor.userId,
+      role: actor.role,
+      permission,
+      path: new URL(req.url).pathname,
+    });
+    return {
+      ok: false,
+      error: "forbidden",
+      message: `Your role (${actor.role}) can't do this (${permission})`,
+      status: 403,
+    };
+  }
+  return { ok: true, actor };
+}
 
-  const provided = getTokenFromRequest(req);
-  if (!provided) return { ok: false, error: "unauthorized", message: "Missing admin token" };
-  if (provided !== expected) return { ok: false, error: "unauthorized", message: "Invalid admin token" };
+/** For server actions: the actor, or an error thrown when not allowed. */
+export async function requireAdminAction(permission: AdminPermission): Promise<AdminActor> {
+  const actor = await getAdminActor();
+  if (!actor) throw new Error("Sign in with a staff account.");
+  if (!can(actor.role, permission)) throw new Error(`Your role (${actor.role}) can't do this.`);
+  return actor;
+}
 
-  return { ok: true };
+/** For admin pages that read data directly: 404 unless the actor may. */
+export async function requireAdminPage(permission: AdminPermission): Promise<AdminActor> {
+  const actor = await getAdminActor();
+  if (!actor || !can(actor.role, permission)) notFound();
+  return actor;
 }
@@ -0,0 +1,170 @@
+// src/lib/ai/listingBatchFlow.ts
+//
+// Bulk AI listing generation: retry/backoff policy for queued items and the
+// current-vs-generated copy diff reviewers approve from. The batch and item
+// rows themselves are read and written in ./listingBatches.ts.
+
+export const BATCH_TARGETS = ["product", "inventory_item"] as const;
+export type BatchTarget = (typeof BATCH_TARGETS)[number];
+
+export const BATCH_ITEM_STATUSES = ["queued", "running", "done", "failed", "applied"] as const;
+export type BatchItemStatus = (typeof BATCH_ITEM_STATUSES)[number];
+
+/** generation attempts per item before it is marked failed */
+export const MAX_ATTEMPTS = 4;
+export const BACKOFF_BASE_SECONDS = 30;
+export const BACKOFF_MAX_SECONDS = 30 * 60;
+
+/** most items one batch may queue */
+export const MAX_BATCH_SIZE = 200;
+
+export class ListingBatchError extends Error {
+  code: string;
+  status: number;
+  /** false when trying again can't help (target gone, bad input) */
+  retryable: boolean;
+  constructor(message: string, code: string, status = 400, retryable = false) {
+    super(message);
+    this.code = code;
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+/** 30s, 60s, 120s … capped at 30 minutes */
+export function retryDelaySeconds(attempt: number): number {
+  const n = Math.max(1, Math.floor(attempt));
+  return Math.min(BACKOFF_MAX_SECONDS, BACKOFF_BASE_SECONDS * 2 ** (n - 1));
+}
+
+export type AttemptOutcome =
+  | { status: "queued"; nextAttemptAt: Date }
+  | { status: "failed"; nextAttemptAt: null };
+
+/**
+ * What happens to an item after attempt number `attempts` failed: back
+ * off and requeue, or give up once attempts run out or the error says
+ * retrying is pointless.
+ */
+export function afterFailure(attempts: number, err: unknown, now = new Date()): AttemptOutcome {
+  const retryable = !(err instanceof ListingBatchError) || err.retryable;
+  if (!retryable || attempts >= MAX_ATTEMPTS) return { status: "failed", nextAttemptAt: null };
+  return {
+    status: "queued",
+    nextAttemptAt: new Date(now.getTime() + retryDelaySeconds(attempts) * 1000),
+  };
+}
+
+/** de-duplicated, trimmed ids, capped at MAX_BATCH_SIZE */
+export function batchIds(ids: unknown): string[] {
+  if (!Array.isArray(ids)) throw new ListingBatchError("ids must be an array", "bad_request");
+  const out = [...new Set(ids.map((v) => String(v ?? "").trim()).filter(Boolean))];
+  if (!out.length) throw new ListingBatchError("Select at least one listing", "empty_batch");
+  if (out.length > MAX_BATCH_SIZE) {
+    throw new ListingBatchError(`A batch can hold at most ${MAX_BATCH_SIZE} listings`, "batch_too_large");
+  }
+  return out;
+}
+
+/* ---------------- copy + diff ---------------- */
+
+export type ListingCopy = {
+  title: string | null;
+  subtitle: string | null;
+  description: string | null;
+};
+
+/** The fields apply-listing writes, taken from a generation's output JSON. */
+export function copyFromOutput(output: any): ListingCopy {
+  const clean = (v: unknown) => {
+    const s = typeof v === "string" ? v.trim() : "";
+    return s || null;
+  };
+  return {
+    title: clean(output?.copy?.listingTitle) ?? clean(output?.copy?.shortTitle),
+    subtitle: clean(output?.product?.subtitle),
+    description: clean(output?.copy?.descriptionMd),
+  };
+}
+
+export type DiffPart = { op: "same" | "added" | "removed"; text: string };
+
+export type FieldDiff = {
+  field: keyof ListingCopy;
+  before: string | null;
+  after: string | null;
+  changed: boolean;
+  parts: DiffPart[];
+};
+
+/** words and the whitespace after them, so joined parts rebuild the text */
+function tokens(s: string): string[] {
+  return s.match(/\S+\s*|\s+/g) ?? [];
+}
+
+/** past this many LCS cells the diff falls back to replace-all */
+const MAX_DIFF_CELLS = 250_000;
+
+/** Word-level diff (longest common subsequence), adjacent parts merged. */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokens(before);
+  const b = tokens(after);
+
+  const parts: DiffPart[] = [];
+  const push = (op: DiffPart["op"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.op === op) last.text += text;
+    else parts.push({ op, text });
+  };
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    if (before) push("removed", before);
+    if (after) push("added", after);
+    return parts;
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("same", a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+  return parts;
+}
+
+/**
+ * Field-by-field diff of what the listing says now against what applying
+ * the generation would leave. A field the model left empty keeps its
+ * current value (apply-listing coalesces), so it shows as unchanged.
+ */
+export function copyDiff(current: ListingCopy, generated: ListingCopy): FieldDiff[] {
+  return (["title", "subtitle", "description"] as const).map((field) => {
+    const before = current[field] ?? null;
+    const after = generated[field] ?? before;
+    const changed = (before ?? "") !== (after ?? "");
+    return {
+      field,
+      before,
+      after,
+      changed,
+      parts: changed ? diffWords(before ?? "", after ?? "") : [{ op: "same" as const, text: before ?? "" }],
+    };
+  });
+}
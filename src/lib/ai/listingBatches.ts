@@ -0,0 +1,301 @@
+// src/lib/ai/listingBatches.ts
+import "server-only";
+
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { generateListing } from "@/lib/ai/listingGenerator";
+import {
+  MAX_BATCH_SIZE,
+  ListingBatchError,
+  afterFailure,
+  batchIds,
+  copyDiff,
+  copyFromOutput,
+  type BatchItemStatus,
+  type BatchTarget,
+  type FieldDiff,
+} from "@/lib/ai/listingBatchFlow";
+
+/**
+ * Bulk listing generation. A batch queues shop listings or inventory items;
+ * runListingQueue (cron, or "Run now" in the admin) works through due items
+ * one model call at a time, requeueing failures with backoff. Generations
+ * land as drafts, and reviewers approve them through apply-listing.
+ */
+
+/** a claimed item still "running" after this long is assumed crashed */
+const STALE_RUNNING_MINUTES = 10;
+
+export type BatchSummary = {
+  id: string;
+  target: BatchTarget;
+  label: string | null;
+  createdAt: string;
+  total: number;
+  counts: Record<BatchItemStatus, number>;
+};
+
+export type BatchReviewItem = {
+  id: string;
+  productId: string | null;
+  inventoryItemId: string | null;
+  title: string;
+  status: BatchItemStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  generationId: string | null;
+  generationStatus: string | null;
+  diff: FieldDiff[] | null;
+};
+
+export type QueueRunSummary = {
+  processed: number;
+  done: number;
+  retried: number;
+  failed: number;
+};
+
+/**
+ * Queues the given listings, or every draft of that kind when `ids` is
+ * omitted. Returns the batch id and how many items it holds.
+ */
+export async function createListingBatch(input: {
+  target: BatchTarget;
+  ids?: unknown;
+  label?: string | null;
+}): Promise<{ batchId: string; queued: number }> {
+  const ids = input.ids === undefined ? null : batchIds(input.ids);
+  const idList = ids
+    ? sql.join(
+        ids.map((id) => sql`${id}::uuid`),
+        sql`, `,
+      )
+    : null;
+
+  return db.transaction(async (tx) => {
+    const res = await tx.execute<{ id: string }>(sql`
+      INSERT INTO public.ai_listing_batches (target, label)
+      VALUES (${input.target}, ${input.label?.trim() || null})
+      RETURNING id::text AS id
+    `);
+    const batchId = res.rows?.[0]?.id;
+    if (!batchId) throw new Error("Failed to create batch");
+
+    const inserted =
+      input.target === "product"
+        ? await tx.execute(sql`
+            INSERT INTO public.ai_listing_batch_items (batch_id, product_id)
+            SELECT ${batchId}::uuid, p.id
+            FROM public.products p
+            WHERE ${idList ? sql`p.id IN (${idList})` : sql`p.status = 'draft'::product_status`}
+            ORDER BY p.updated_at DESC
+            LIMIT ${MAX_BATCH_SIZE}
+            RETURNING id
+          `)
+        : await tx.execute(sql`
+            INSERT INTO public.ai_listing_batch_items (batch_id, inventory_item_id)
+            SELECT ${batchId}::uuid, i.id
+            FROM public.inventory_items i
+            WHERE ${idList ? sql`i.id IN (${idList})` : sql`i.status = 'draft'`}
+            ORDER BY i.updated_at DESC
+            LIMIT ${MAX_BATCH_SIZE}
+            RETURNING id
+          `);
+
+    const queued = inserted.rows?.length ?? 0;
+    if (!queued) throw new ListingBatchError("Nothing to queue: no matching listings", "empty_batch");
+    return { batchId, queued };
+  });
+}
+
+export async function listListingBatches(limit = 20): Promise<BatchSummary[]> {
+  const res = await db.execute<{
+    id: string;
+    target: BatchTarget;
+    label: string | null;
+    created_at: string;
+    status: BatchItemStatus | null;
+    n: number | null;
+  }>(sql`
+    WITH recent AS (
+      SELECT id, target, label, created_at
+      FROM public.ai_listing_batches
+      ORDER BY created_at DESC
+      LIMIT ${limit}
+    )
+    SELECT r.id::text AS id, r.target, r.label, r.created_at, bi.status, COUNT(bi.id)::int AS n
+    FROM recent r
+    LEFT JOIN public.ai_listing_batch_items bi ON bi.batch_id = r.id
+    GROUP BY r.id, r.target, r.label, r.created_at, bi.status
+    ORDER BY r.created_at DESC
+  `);
+
+  const byId = new Map<string, BatchSummary>();
+  for (const row of res.rows ?? []) {
+    let b = byId.get(row.id);
+    if (!b) {
+      b = {
+        id: row.id,
+        target: row.target,
+        label: row.label,
+        createdAt: String(row.created_at),
+        total: 0,
+        counts: { queued: 0, running: 0, done: 0, failed: 0, applied: 0 },
+      };
+      byId.set(row.id, b);
+    }
+    if (row.status) {
+      b.counts[row.status] = Number(row.n ?? 0);
+      b.total += Number(row.n ?? 0);
+    }
+  }
+  return [...byId.values()];
+}
+
+/** A batch's items with the current copy diffed against each generation. */
+export async function listingBatchReview(batchId: string): Promise<BatchReviewItem[]> {
+  const res = await db.execute<{
+    id: string;
+    product_id: string | null;
+    inventory_item_id: string | null;
+    status: BatchItemStatus;
+    attempts: number;
+    next_attempt_at: string | null;
+    last_error: string | null;
+    generation_id: string | null;
+    generation_status: string | null;
+    output: unknown;
+    title: string | null;
+    subtitle: string | null;
+    description: string | null;
+  }>(sql`
+    SELECT
+      bi.id::text AS id,
+      bi.product_id::text AS product_id,
+      bi.inventory_item_id::text AS inventory_item_id,
+      bi.status,
+      bi.attempts,
+      bi.next_attempt_at,
+      bi.last_error,
+      bi.generation_id::text AS generation_id,
+      g.status AS generation_status,
+      g.output_json AS output,
+      COALESCE(p.title, i.title) AS title,
+      COALESCE(p.subtitle, i.meta->>'subtitle', i.meta->>'setName') AS subtitle,
+      COALESCE(p.description, i.meta->>'description') AS description
+    FROM public.ai_listing_batch_items bi
+    LEFT JOIN public.products p ON p.id = bi.product_id
+    LEFT JOIN public.inventory_items i ON i.id = bi.inventory_item_id
+    LEFT JOIN public.ai_listing_generations g ON g.id = bi.generation_id
+    WHERE bi.batch_id = ${batchId}::uuid
+    ORDER BY bi.created_at, bi.id
+  `);
+
+  return (res.rows ?? []).map((r) => ({
+    id: r.id,
+    productId: r.product_id,
+    inventoryItemId: r.inventory_item_id,
+    title: r.title ?? "(deleted)",
+    status: r.status,
+    attempts: Number(r.attempts),
+    nextAttemptAt: r.next_attempt_at ? String(r.next_attempt_at) : null,
+    lastError: r.last_error,
+    generationId: r.generation_id,
+    generationStatus: r.generation_status,
+    diff: r.output
+      ? copyDiff(
+          { title: r.title, subtitle: r.subtitle, description: r.description },
+          copyFromOutput(r.output),
+        )
+      : null,
+  }));
+}
+
+/**
+ * Generates copy for due queue items until `limit` items are processed or
+ * `budgetMs` runs out. Each item is claimed with SKIP LOCKED, so
+ * overlapping runs never generate the same item twice.
+ */
+export async function runListingQueue(opts: { limit?: number; budgetMs?: number } = {}): Promise<QueueRunSummary> {
+  const limit = opts.limit ?? 5;
+  const deadline = Date.now() + (opts.budgetMs ?? 45_000);
+  const summary: QueueRunSummary = { processed: 0, done: 0, retried: 0, failed: 0 };
+
+  while (summary.processed < limit && Date.now() < deadline) {
+    const item = await claimNextItem();
+    if (!item) break;
+    summary.processed++;
+
+    try {
+      const target = item.product_id
+        ? { kind: "product" as const, id: item.product_id }
+        : { kind: "inventory_item" as const, id: item.inventory_item_id as string };
+      const { generationId } = await generateListing(target);
+
+      await db.execute(sql`
+        UPDATE public.ai_listing_batch_items
+        SET status = 'done', generation_id = ${generationId}::uuid, last_error = NULL, updated_at = now()
+        WHERE id = ${item.id}::uuid
+      `);
+      summary.done++;
+    } catch (e: any) {
+      const next = afterFailure(item.attempts, e);
+      console.warn("[ai/listingBatches] generation failed", {
+        itemId: item.id,
+        attempt: item.attempts,
+        next: next.status,
+        error: e?.message || String(e),
+      });
+
+      await db.execute(sql`
+        UPDATE public.ai_listing_batch_items
+        SET
+          status = ${next.status},
+          next_attempt_at = COALESCE(${next.nextAttemptAt?.toISOString() ?? null}::timestamptz, next_attempt_at),
+          last_error = ${String(e?.message ?? e).slice(0, 2000)},
+          updated_at = now()
+        WHERE id = ${item.id}::uuid
+      `);
+      if (next.status === "failed") summary.failed++;
+      else summary.retried++;
+    }
+  }
+
+  return summary;
+}
+
+/** Marks failed items of a batch queued again, with a fresh set of attempts. */
+export async function retryFailedItems(batchId: string): Promise<number> {
+  const res = await db.execute(sql`
+    UPDATE public.ai_listing_batch_items
+    SET status = 'queued', attempts = 0, next_attempt_at = now(), updated_at = now()
+    WHERE batch_id = ${batchId}::uuid AND status = 'failed'
+    RETURNING id
+  `);
+  return res.rows?.length ?? 0;
+}
+
+async function claimNextItem() {
+  const res = await db.execute<{
+    id: string;
+    product_id: string | null;
+    inventory_item_id: string | null;
+    attempts: number;
+  }>(sql`
+    UPDATE public.ai_listing_batch_items
+    SET status = 'running', attempts = attempts + 1, updated_at = now()
+    WHERE id = (
+      SELECT id FROM public.ai_listing_batch_items
+      WHERE (status = 'queued' AND next_attempt_at <= now())
+         OR (status = 'running' AND updated_at < now() - make_interval(mins => ${STALE_RUNNING_MINUTES}))
+      ORDER BY next_attempt_at, created_at
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id::text AS id, product_id::text AS product_id,
+      inventory_item_id::text AS inventory_item_id, attempts
+  `);
+  const row = res.rows?.[0];
+  return row ? { ...row, attempts: Number(row.attempts) } : null;
+}
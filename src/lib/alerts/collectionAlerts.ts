@@ -0,0 +1,401 @@
+// src/lib/alerts/collectionAlerts.ts
+import "server-only";
+
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { logAlertFiring } from "@/lib/alerts/priceAlerts";
+import { getNotificationSettings, notifyUser } from "@/lib/notifications/notifications";
+import { inCooldown, readCooldownHours } from "@/lib/notifications/policy";
+import { AlertRuleError } from "@/lib/alerts/rules";
+import {
+  describeCollectionRule,
+  describeCollectionScope,
+  evaluateCollectionRule,
+  readCollectionRule,
+  readCollectionScope,
+  shouldNotifyCollection,
+  type CollectionAlertEvaluation,
+  type CollectionAlertRule,
+  type CollectionAlertRuleType,
+  type CollectionAlertScope,
+  type ValuedItem,
+} from "@/lib/alerts/collectionRules";
+
+/**
+ * Collection-wide / folder / game-slice alerts (Pro).
+ *
+ * One alert covers every card in its scope, using the daily
+ * user_collection_item_valuations rows. Firings are logged to
+ * price_alert_logs (alert_kind = 'collection') and delivered through
+ * notifyUser, with the same cooldowns as card alerts.
+ */
+
+export type CollectionAlertView = {
+  id: string;
+  scope: CollectionAlertScope;
+  scopeLabel: string;
+  ruleType: CollectionAlertRuleType;
+  ruleLabel: string;
+  params: Omit<CollectionAlertRule, "ruleType">;
+  active: boolean;
+  isFiring: boolean;
+  /** null = the user's default */
+  cooldownHours: number | null;
+  lastTriggeredAt: string | null;
+  createdAt: string;
+};
+
+export type CollectionAlertRunSummary = {
+  users: number;
+  alerts: number;
+  triggered: number;
+  notified: number;
+  cooledDown: number;
+  skipped: number;
+  failed: number;
+};
+
+type AlertRow = {
+  id: string;
+  user_id: string;
+  scope: string;
+  folder: string | null;
+  game: string | null;
+  rule_type: string;
+  params: unknown;
+  active: boolean;
+  is_firing: boolean;
+  last_as_of: string | null;
+  last_triggered_at: string | null;
+  cooldown_hours: number | null;
+  created_at: string;
+};
+
+const MAX_ALERTS_PER_USER = 50;
+/** valuations can skip days; look a bit past the window for a base point */
+const WINDOW_SLACK_DAYS = 7;
+
+function parseRow(r: AlertRow): { scope: CollectionAlertScope; rule: CollectionAlertRule } {
+  return {
+    scope: readCollectionScope({ kind: r.scope, folder: r.folder, game: r.game }),
+    rule: readCollectionRule(r),
+  };
+}
+
+function toView(r: AlertRow): CollectionAlertView | null {
+  try {
+    const { scope, rule } = parseRow(r);
+    const { ruleType, ...params } = rule;
+    return {
+      id: r.id,
+      scope,
+      scopeLabel: describeCollectionScope(scope),
+      ruleType,
+      ruleLabel: describeCollectionRule(rule),
+      params,
+      active: r.active,
+      isFiring: r.is_firing,
+      cooldownHours: r.cooldown_hours,
+      lastTriggeredAt: r.last_triggered_at,
+      createdAt: r.created_at,
+    };
+  } catch {
+    return null;
+  }
+}
+
+const COLS = sql`
+  id::text AS id, user_id, scope, folder, game, rule_type, params, active, is_firing,
+  last_as_of::text AS last_as_of, last_triggered_at::text AS last_triggered_at, cooldown_hours, created_at::text AS created_at
+`;
+
+/* ------------------------------ Owner side ------------------------------ */
+
+export async function listCollectionAlerts(userId: string): Promise<CollectionAlertView[]> {
+  const res = await db.execute<AlertRow>(sql`
+    SELECT ${COLS}
+    FROM public.collection_alerts
+    WHERE user_id = ${userId}
+    ORDER BY created_at DESC
+  `);
+  return (res.rows ?? []).map(toView).filter((v): v is CollectionAlertView => v != null);
+}
+
+/**
+ * Creates an alert, or updates the rule's params if the same scope + rule
+ * type already exists (re-arming it).
+ *   { scope: { kind, folder?, game? }, rule_type, params, cooldown_hours? }
+ */
+export async function upsertCollectionAlert(userId: string, body: unknown): Promise<CollectionAlertView> {
+  const b = (body ?? {}) as { scope?: unknown; rule_type?: unknown; params?: unknown; cooldown_hours?: unknown };
+  const scope = readCollectionScope((b.scope ?? {}) as Record<string, unknown>);
+  const rule = readCollectionRule(b);
+  const { ruleType, ...params } = rule;
+  const cooldownHours = readCooldownHours(b.cooldown_hours);
+
+  const folder = scope.kind === "folder" ? scope.folder : null;
+  const game = scope.kind === "game" ? scope.game : null;
+
+  // updating an existing alert doesn't count against the cap
+  const count = await db.execute<{ n: number }>(sql`
+    SELECT COUNT(*)::int AS n
+    FROM public.collection_alerts
+    WHERE user_id = ${userId}
+      AND NOT (
+        scope = ${scope.kind} AND COALESCE(folder, '') = ${folder ?? ""}
+        AND COALESCE(game, '') = ${game ?? ""} AND rule_type = ${ruleType}
+      )
+  `);
+  if (Number(count.rows?.[0]?.n ?? 0) >= MAX_ALERTS_PER_USER) {
+    throw new AlertRuleError(`You can have up to ${MAX_ALERTS_PER_USER} collection alerts.`, "too_many_alerts", 409);
+  }
+
+  const res = await db.execute<AlertRow>(sql`
+    INSERT INTO public.collection_alerts (user_id, scope, folder, game, rule_type, params, cooldown_hours)
+    VALUES (
+      ${userId}, ${scope.kind}, ${folder}, ${game}, ${ruleType}, ${JSON.stringify(params)}::jsonb, ${cooldownHours}
+    )
+    ON CONFLICT (user_id, scope, COALESCE(folder, ''), COALESCE(game, ''), rule_type)
+    DO UPDATE SET
+      params = EXCLUDED.params,
+      cooldown_hours = EXCLUDED.cooldown_hours,
+      active = true,
+      is_firing = false,
+      last_as_of = NULL,
+      updated_at = now()
+    RETURNING ${COLS}
+  `);
+  return toView(res.rows[0])!;
+}
+
+export async function setCollectionAlertActive(userId: string, id: string, active: boolean): Promise<CollectionAlertView> {
+  const res = await db.execute<AlertRow>(sql`
+    UPDATE public.collection_alerts
+    SET active = ${active}, is_firing = false, updated_at = now()
+    WHERE id = ${id}::uuid AND user_id = ${userId}
+    RETURNING ${COLS}
+  `);
+  const row = res.rows?.[0];
+  if (!row) throw new AlertRuleError("Alert not found.", "not_found", 404);
+  return toView(row)!;
+}
+
+export async function deleteCollectionAlert(userId: string, id: string): Promise<void> {
+  const res = await db.execute<{ id: string }>(sql`
+    DELETE FROM public.collection_alerts
+    WHERE id = ${id}::uuid AND user_id = ${userId}
+    RETURNING id
+  `);
+  if (!res.rows?.length) throw new AlertRuleError("Alert not found.", "not_found", 404);
+}
+
+/** Folders + games the user can scope an alert to. */
+export async function listAlertScopes(userId: string): Promise<{ folders: string[]; games: string[] }> {
+  const res = await db.execute<{ kind: "folder" | "game"; value: string }>(sql`
+    SELECT DISTINCT 'folder' AS kind, COALESCE(folder, 'Unsorted') AS value
+    FROM public.user_collection_items WHERE user_id = ${userId} AND quantity > 0
+    UNION
+    SELECT DISTINCT 'game' AS kind, game AS value
+    FROM public.user_collection_items WHERE user_id = ${userId} AND quantity > 0
+    ORDER BY 1, 2
+  `);
+  const rows = res.rows ?? [];
+  return {
+    folders: rows.filter((r) => r.kind === "folder").map((r) => r.value),
+    games: rows.filter((r) => r.kind === "game").map((r) => r.value),
+  };
+}
+
+/* -------------------------------- Valuations ------------------------------ */
+
+/** Daily value per collection row in scope (latest valuation per row/day). */
+export async function loadScopeValuations(
+  userId: string,
+  scope: CollectionAlertScope,
+  days: number,
+): Promise<ValuedItem[]> {
+  const filter =
+    scope.kind === "folder"
+      ? sql`AND COALESCE(i.folder, 'Unsorted') = ${scope.folder}`
+      : scope.kind === "game"
+        ? sql`AND i.game = ${scope.game}`
+        : sql``;
+
+  const res = await db.execute<{
+    item_id: string;
+    card_name: string | null;
+    card_id: string;
+    quantity: number;
+    date: string;
+    cents: number;
+  }>(sql`
+    SELECT DISTINCT ON (v.item_id, v.as_of_date)
+      v.item_id::text AS item_id, i.card_name, i.card_id, i.quantity,
+      v.as_of_date::text AS date, v.value_cents AS cents
+    FROM public.user_collection_item_valuations v
+    JOIN public.user_collection_items i ON i.id = v.item_id
+    WHERE v.user_id = ${userId}
+      AND i.user_id = ${userId}
+      AND i.quantity > 0
+      AND v.currency = 'USD'
+      AND v.as_of_date >= CURRENT_DATE - ${days}::int
+      ${filter}
+    ORDER BY v.item_id, v.as_of_date, v.updated_at DESC
+  `);
+
+  const byItem = new Map<string, ValuedItem>();
+  for (const r of res.rows ?? []) {
+    let it = byItem.get(r.item_id);
+    if (!it) {
+      it = { itemId: r.item_id, cardName: r.card_name || r.card_id, quantity: Number(r.quantity) || 1, points: [] };
+      byItem.set(r.item_id, it);
+    }
+    it.points.push({ date: r.date, cents: Number(r.cents) });
+  }
+  return [...byItem.values()];
+}
+
+/* ---------------------------------- Runner -------------------------------- */
+
+type Evaluated = {
+  row: AlertRow;
+  scope: CollectionAlertScope | null;
+  rule: CollectionAlertRule | null;
+  evaluation: CollectionAlertEvaluation | null;
+  notify: boolean;
+  cooledDown: boolean;
+};
+
+async function evaluateUser(userId: string, defaultCooldownHours: number): Promise<Evaluated[]> {
+  const rows =
+    (
+      await db.execute<AlertRow>(sql`
+        SELECT ${COLS}
+        FROM public.collection_alerts
+        WHERE user_id = ${userId} AND active = true
+      `)
+    ).rows ?? [];
+
+  // several rules over the same scope share one valuation load
+  const cache = new Map<string, Promise<ValuedItem[]>>();
+  const now = new Date();
+  const out: Evaluated[] = [];
+
+  for (const row of rows) {
+    let parsed: { scope: CollectionAlertScope; rule: CollectionAlertRule };
+    try {
+      parsed = parseRow(row);
+    } catch {
+      out.push({ row, scope: null, rule: null, evaluation: null, notify: false, cooledDown: false });
+      continue;
+    }
+
+    const { scope, rule } = parsed;
+    const days = rule.windowDays + WINDOW_SLACK_DAYS;
+    const key = `${JSON.stringify(scope)}:${days}`;
+    if (!cache.has(key)) cache.set(key, loadScopeValuations(userId, scope, days));
+
+    const evaluation = evaluateCollectionRule(rule, await cache.get(key)!);
+    const edge = shouldNotifyCollection(rule, { firing: row.is_firing, asOf: row.last_as_of }, evaluation);
+    const cooledDown = edge && inCooldown(row.last_triggered_at, row.cooldown_hours ?? defaultCooldownHours, now);
+    out.push({ row, scope, rule, evaluation, notify: edge && !cooledDown, cooledDown });
+  }
+
+  return out;
+}
+
+async function saveState(userId: string, results: Evaluated[]) {
+  for (const { row, scope, rule, evaluation, notify } of results) {
+    if (notify && scope && rule && evaluation) {
+      await logAlertFiring({
+        alertId: row.id,
+        kind: "collection",
+        userId,
+        game: scope.kind === "game" ? scope.game : null,
+        cardId: null,
+        ruleType: rule.ruleType,
+        priceCents: evaluation.valueCents,
+        details: {
+          scope: describeCollectionScope(scope),
+          rule: describeCollectionRule(rule),
+          detail: evaluation.detail,
+          asOf: evaluation.asOf,
+          metricPct: evaluation.metricPct,
+          movers: evaluation.movers.slice(0, 20),
+        },
+      });
+    }
+
+    await db.execute(sql`
+      UPDATE public.collection_alerts SET
+        is_firing = ${evaluation ? evaluation.firing : row.is_firing},
+        last_value_cents = ${evaluation ? evaluation.valueCents : sql`last_value_cents`},
+        last_as_of = ${evaluation ? evaluation.asOf : row.last_as_of}::date,
+        last_evaluated_at = now(),
+        last_triggered_at = ${notify ? sql`now()` : sql`last_triggered_at`}
+      WHERE id = ${row.id}::uuid
+    `);
+  }
+}
+
+/**
+ * Evaluates active collection alerts for up to `limit` users (least recently
+ * checked first); one notification per alert that fired.
+ */
+export async function runCollectionAlerts(opts: { limit?: number } = {}): Promise<CollectionAlertRunSummary> {
+  const limit = Math.max(1, Math.min(Math.floor(opts.limit ?? 200), 1000));
+
+  const users =
+    (
+      await db.execute<{ user_id: string }>(sql`
+        SELECT user_id
+        FROM public.collection_alerts
+        WHERE active = true
+        GROUP BY user_id
+        ORDER BY MIN(last_evaluated_at) ASC NULLS FIRST
+        LIMIT ${limit}
+      `)
+    ).rows ?? [];
+
+  const summary: CollectionAlertRunSummary = {
+    users: 0,
+    alerts: 0,
+    triggered: 0,
+    notified: 0,
+    cooledDown: 0,
+    skipped: 0,
+    failed: 0,
+  };
+
+  for (const { user_id: userId } of users) {
+    try {
+      const settings = await getNotificationSettings(userId);
+      const results = await evaluateUser(userId, settings.cooldownHours);
+      const fired = results.filter((r) => r.notify);
+
+      await notifyUser(
+        userId,
+        fired.map(({ row, scope, rule, evaluation }) => ({
+          kind: "collection_alert",
+          title: `${describeCollectionScope(scope!)}: ${describeCollectionRule(rule!)}`,
+          body: evaluation!.detail,
+          href: "/collection",
+          data: { alertId: row.id, asOf: evaluation!.asOf, valueCents: evaluation!.valueCents },
+        })),
+      );
+      await saveState(userId, results);
+
+      summary.users++;
+      summary.alerts += results.length;
+      summary.triggered += fired.length;
+      summary.cooledDown += results.filter((r) => r.cooledDown).length;
+      summary.skipped += results.filter((r) => r.rule && !r.evaluation).length;
+      if (fired.length) summary.notified++;
+    } catch (err) {
+      summary.failed++;
+      console.error(`[collection-alerts] user ${userId} failed`, err);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,225 @@
+// src/lib/alerts/collectionRules.ts
+//
+// Alerts over a whole collection, a folder or a game slice, evaluated on the
+// daily user_collection_item_valuations rows: rule validation and the
+// trigger checks. ./collectionAlerts.ts loads the values and runs them.
+
+import { AlertRuleError, type PricePoint } from "./rules";
+
+export type CollectionAlertScope =
+  | { kind: "collection" }
+  | { kind: "folder"; folder: string }
+  | { kind: "game"; game: string };
+
+export type CollectionAlertRuleType = "value_pct_up" | "value_pct_down" | "item_move_usd" | "item_move_pct";
+
+export const COLLECTION_ALERT_RULE_TYPES: CollectionAlertRuleType[] = [
+  "value_pct_down",
+  "value_pct_up",
+  "item_move_usd",
+  "item_move_pct",
+];
+
+export const COLLECTION_ALERT_RULE_LABELS: Record<CollectionAlertRuleType, string> = {
+  value_pct_down: "Total value drops %",
+  value_pct_up: "Total value rises %",
+  item_move_usd: "Any card moves $",
+  item_move_pct: "Any card moves %",
+};
+
+export type CollectionAlertRule = {
+  ruleType: CollectionAlertRuleType;
+  /** value_* / item_move_pct */
+  pct?: number;
+  /** item_move_usd, USD per copy */
+  amountUsd?: number;
+  windowDays: number;
+};
+
+/** one collection row's daily total value (value_cents is for the whole row) */
+export type ValuedItem = {
+  itemId: string;
+  cardName: string;
+  quantity: number;
+  points: PricePoint[];
+};
+
+export type CardMove = { itemId: string; cardName: string; fromCents: number; toCents: number };
+
+export type CollectionAlertEvaluation = {
+  firing: boolean;
+  /** latest valuation date looked at */
+  asOf: string;
+  /** scope total on asOf (items with a comparable base only) */
+  valueCents: number;
+  metricPct: number | null;
+  /** item rules: biggest movers first */
+  movers: CardMove[];
+  detail: string;
+};
+
+const DAY_MS = 86_400_000;
+
+export function normalizeCollectionRuleType(raw: unknown): CollectionAlertRuleType | null {
+  const v = String(raw ?? "").trim().toLowerCase();
+  return (COLLECTION_ALERT_RULE_TYPES as string[]).includes(v) ? (v as CollectionAlertRuleType) : null;
+}
+
+function readNumber(raw: unknown, label: string, min: number, max: number): number {
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < min || n > max) {
+    throw new AlertRuleError(`${label} must be between ${min} and ${max}.`, "invalid_params");
+  }
+  return n;
+}
+
+/** { kind, folder?, game? } -> scope; folder "Unsorted" is the no-folder bucket. */
+export function readCollectionScope(raw: { kind?: unknown; folder?: unknown; game?: unknown }): CollectionAlertScope {
+  const kind = String(raw.kind ?? "").trim().toLowerCase();
+  if (kind === "collection") return { kind };
+  if (kind === "folder") {
+    const folder = String(raw.folder ?? "").trim();
+    if (!folder) throw new AlertRuleError("Pick a folder.", "invalid_scope");
+    return { kind, folder: folder.slice(0, 200) };
+  }
+  if (kind === "game") {
+    const game = String(raw.game ?? "").trim().toLowerCase();
+    if (!game) throw new AlertRuleError("Pick a game.", "invalid_scope");
+    return { kind, game };
+  }
+  throw new AlertRuleError("Scope must be collection, folder or game.", "invalid_scope");
+}
+
+/** { rule_type, params: { pct?, amountUsd?, windowDays? } } -> rule */
+export function readCollectionRule(raw: { rule_type?: unknown; params?: unknown }): CollectionAlertRule {
+  const ruleType = normalizeCollectionRuleType(raw.rule_type);
+  if (!ruleType) throw new AlertRuleError("Unknown rule type.", "invalid_rule_type");
+
+  const p = (raw.params && typeof raw.params === "object" ? raw.params : {}) as Record<string, unknown>;
+  const isValue = ruleType === "value_pct_up" || ruleType === "value_pct_down";
+  const windowDays = Math.round(readNumber(p.windowDays ?? (isValue ? 7 : 1), "Window", 1, 365));
+
+  if (ruleType === "item_move_usd") {
+    return { ruleType, amountUsd: readNumber(p.amountUsd, "Amount", 0.01, 1_000_000), windowDays };
+  }
+  return { ruleType, pct: readNumber(p.pct, "Percent", 0.1, 1000), windowDays };
+}
+
+export function describeCollectionScope(scope: CollectionAlertScope): string {
+  if (scope.kind === "folder") return `Folder “${scope.folder}”`;
+  if (scope.kind === "game") return `${scope.game} cards`;
+  return "Whole collection";
+}
+
+function period(days: number) {
+  if (days === 1) return "a day";
+  if (days === 7) return "a week";
+  return `${days} days`;
+}
+
+export function describeCollectionRule(rule: CollectionAlertRule): string {
+  switch (rule.ruleType) {
+    case "value_pct_down":
+      return `Value drops ${rule.pct}% in ${period(rule.windowDays)}`;
+    case "value_pct_up":
+      return `Value rises ${rule.pct}% in ${period(rule.windowDays)}`;
+    case "item_move_usd":
+      return `Any card moves more than $${rule.amountUsd?.toFixed(2)} in ${period(rule.windowDays)}`;
+    case "item_move_pct":
+      return `Any card moves more than ${rule.pct}% in ${period(rule.windowDays)}`;
+  }
+}
+
+function dayMs(date: string) {
+  return Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+}
+
+function usd(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+/** latest point + the last point on/before `days` earlier */
+function window(points: PricePoint[], days: number): { base: PricePoint; now: PricePoint } | null {
+  const sorted = [...points].filter((p) => Number.isFinite(dayMs(p.date))).sort((a, b) => dayMs(a.date) - dayMs(b.date));
+  const now = sorted[sorted.length - 1];
+  if (!now) return null;
+  const cutoff = dayMs(now.date) - days * DAY_MS;
+  const base = [...sorted].reverse().find((p) => dayMs(p.date) <= cutoff);
+  return base ? { base, now } : null;
+}
+
+/**
+ * Value rules compare the scope's total now vs `windowDays` ago, counting
+ * only cards valued on both sides — adding or selling cards isn't a price move.
+ * Item rules compare each card's per-copy value over the window.
+ * null = no item has enough history yet.
+ */
+export function evaluateCollectionRule(rule: CollectionAlertRule, items: ValuedItem[]): CollectionAlertEvaluation | null {
+  const windows = items
+    .map((it) => ({ it, w: window(it.points, rule.windowDays) }))
+    .filter((x): x is { it: ValuedItem; w: { base: PricePoint; now: PricePoint } } => x.w != null);
+  if (!windows.length) return null;
+
+  const asOf = windows.map((x) => x.w.now.date).sort().pop()!;
+  const baseTotal = windows.reduce((s, x) => s + x.w.base.cents, 0);
+  const nowTotal = windows.reduce((s, x) => s + x.w.now.cents, 0);
+
+  if (rule.ruleType === "value_pct_up" || rule.ruleType === "value_pct_down") {
+    if (baseTotal <= 0) return null;
+    const change = ((nowTotal - baseTotal) / baseTotal) * 100;
+    const want = rule.pct ?? Infinity;
+    return {
+      firing: rule.ruleType === "value_pct_up" ? change >= want : change <= -want,
+      asOf,
+      valueCents: nowTotal,
+      metricPct: change,
+      movers: [],
+      detail: `${usd(baseTotal)} → ${usd(nowTotal)} (${change >= 0 ? "+" : ""}${change.toFixed(1)}% over ${period(rule.windowDays)})`,
+    };
+  }
+
+  const movers = windows
+    .map(({ it, w }) => {
+      const qty = Math.max(1, it.quantity);
+      return {
+        itemId: it.itemId,
+        cardName: it.cardName,
+        fromCents: Math.round(w.base.cents / qty),
+        toCents: Math.round(w.now.cents / qty),
+      };
+    })
+    .filter((m) => {
+      const delta = Math.abs(m.toCents - m.fromCents);
+      if (rule.ruleType === "item_move_usd") return delta >= Math.round((rule.amountUsd ?? Infinity) * 100);
+      return m.fromCents > 0 && (delta / m.fromCents) * 100 >= (rule.pct ?? Infinity);
+    })
+    .sort((a, b) => Math.abs(b.toCents - b.fromCents) - Math.abs(a.toCents - a.fromCents));
+
+  return {
+    firing: movers.length > 0,
+    asOf,
+    valueCents: nowTotal,
+    metricPct: null,
+    movers,
+    detail: movers.length
+      ? movers
+          .slice(0, 3)
+          .map((m) => `${m.cardName} ${usd(m.fromCents)} → ${usd(m.toCents)}`)
+          .join("; ") + (movers.length > 3 ? ` (+${movers.length - 3} more)` : "")
+      : "No card moved enough",
+  };
+}
+
+/**
+ * Value rules notify when they start firing. Item rules notify once per new
+ * valuation day that has movers (different cards move on different days).
+ */
+export function shouldNotifyCollection(
+  rule: CollectionAlertRule,
+  prev: { firing: boolean; asOf: string | null },
+  next: CollectionAlertEvaluation | null,
+): boolean {
+  if (!next?.firing) return false;
+  if (rule.ruleType === "item_move_usd" || rule.ruleType === "item_move_pct") return next.asOf !== prev.asOf;
+  return !prev.firing;
+}
@@ -0,0 +1,399 @@
+// src/lib/alerts/priceAlerts.ts
+import "server-only";
+
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { convert, type Currency } from "@/lib/pricing";
+import { getNotificationSettings, notifyUser } from "@/lib/notifications/notifications";
+import { inCooldown } from "@/lib/notifications/policy";
+import {
+  describeAlertRule,
+  evaluateAlertRule,
+  readAlertRule,
+  shouldNotify,
+  type AlertEvaluation,
+  type PriceAlertRule,
+  type PricePoint,
+  type PriceSource,
+} from "@/lib/alerts/rules";
+
+/**
+ * Price alert evaluation.
+ *
+ * Each active `price_alerts` row is checked against its market item's daily
+ * history:
+ *  - pokemon: tcg_card_prices_tcgplayer_history
+ *  - yugioh:  ygo_card_prices_history (TCGplayer column)
+ *  - anything else (or no rows above): market_price_daily
+ *  - last resort: the user's own user_collection_item_valuations for the card
+ * Spread rules compare current per-source prices instead (EUR sources are
+ * converted with the env FX rate; without one they're skipped).
+ *
+ * Alerts notify on the edge (see shouldNotify) and remember is_firing /
+ * last_price_cents between runs; a repeat within the alert's cooldown
+ * (cooldown_hours, else the user's default) is swallowed. Notifications go
+ * out through notifyUser, which handles channels, digests and quiet hours.
+ * Every notified firing is logged to price_alert_logs.
+ */
+
+export type PriceAlertRunSummary = {
+  users: number;
+  alerts: number;
+  triggered: number;
+  /** users notified this run */
+  notified: number;
+  /** firings swallowed by a cooldown */
+  cooledDown: number;
+  /** rules with too little history to evaluate this run */
+  skipped: number;
+  failed: number;
+};
+
+type AlertRow = {
+  id: string;
+  user_id: string;
+  game: string;
+  rule_type: string;
+  threshold: string | number | null;
+  params: unknown;
+  is_firing: boolean;
+  last_price_cents: number | null;
+  last_triggered_at: string | null;
+  cooldown_hours: number | null;
+  market_item_id: string;
+  canonical_id: string;
+  display_name: string | null;
+};
+
+/** enough for a 365-day window plus its base point */
+const HISTORY_DAYS = 400;
+
+/* --------------------------------- History -------------------------------- */
+
+function toPoints(rows: { date: string; cents: number | string | null }[]): PricePoint[] {
+  return rows
+    .map((r) => ({ date: String(r.date).slice(0, 10), cents: Number(r.cents) }))
+    .filter((p) => Number.isFinite(p.cents) && p.cents > 0);
+}
+
+/** Daily USD series for a market item; `days` null = full history. */
+export async function loadPriceSeries(opts: {
+  userId: string;
+  game: string;
+  cardId: string;
+  marketItemId: string;
+  days: number | null;
+}): Promise<PricePoint[]> {
+  const { userId, game, cardId, marketItemId, days } = opts;
+  const since = days == null ? sql`TRUE` : sql`captured_at >= now() - make_interval(days => ${days})`;
+
+  if (game === "pokemon") {
+    const res = await db.execute<{ date: string; cents: number | null }>(sql`
+      SELECT DISTINCT ON (captured_at::date)
+        captured_at::date::text AS date,
+        ROUND(COALESCE(normal, holofoil, reverse_holofoil, first_edition_holofoil, first_edition_normal) * 100)::int AS cents
+      FROM public.tcg_card_prices_tcgplayer_history
+      WHERE card_id = ${cardId}
+        AND ${since}
+        AND COALESCE(normal, holofoil, reverse_holofoil, first_edition_holofoil, first_edition_normal) IS NOT NULL
+      ORDER BY captured_at::date, captured_at DESC
+    `);
+    const points = toPoints(res.rows ?? []);
+    if (points.length) return points;
+  }
+
+  if (game === "yugioh") {
+    const res = await db.execute<{ date: string; cents: number | null }>(sql`
+      SELECT DISTINCT ON (captured_at::date)
+        captured_at::date::text AS date,
+        ROUND(tcgplayer_price * 100)::int AS cents
+      FROM public.ygo_card_prices_history
+      WHERE card_id = ${cardId}
+        AND ${since}
+        AND tcgplayer_price IS NOT NULL
+      ORDER BY captured_at::date, captured_at DESC
+    `);
+    const points = toPoints(res.rows ?? []);
+    if (points.length) return points;
+  }
+
+  const daily = await db.execute<{ date: string; cents: number }>(sql`
+    SELECT as_of_date::text AS date, value_cents AS cents
+    FROM public.market_price_daily
+    WHERE market_item_id = ${marketItemId}::uuid
+      AND currency = 'USD'
+      AND ${days == null ? sql`TRUE` : sql`as_of_date >= CURRENT_DATE - ${days}::int`}
+    ORDER BY as_of_date ASC
+  `);
+  const points = toPoints(daily.rows ?? []);
+  if (points.length) return points;
+
+  // per-copy value of the user's own copies of the card
+  const owned = await db.execute<{ date: string; cents: number | null }>(sql`
+    SELECT
+      v.as_of_date::text AS date,
+      ROUND(SUM(v.value_cents)::numeric / NULLIF(SUM(GREATEST(i.quantity, 1)), 0))::int AS cents
+    FROM public.user_collection_item_valuations v
+    JOIN public.user_collection_items i ON i.id = v.item_id
+    WHERE v.user_id = ${userId}
+      AND i.game = ${game}
+      AND i.card_id = ${cardId}
+      AND v.currency = 'USD'
+      AND ${days == null ? sql`TRUE` : sql`v.as_of_date >= CURRENT_DATE - ${days}::int`}
+    GROUP BY v.as_of_date
+    ORDER BY v.as_of_date ASC
+  `);
+  return toPoints(owned.rows ?? []);
+}
+
+function toUsdCents(amount: number | string | null | undefined, currency: Currency): number | null {
+  if (amount == null || amount === "") return null;
+  const n = Number(String(amount).replace(/[$,€\s]/g, ""));
+  if (!Number.isFinite(n) || n <= 0) return null;
+  const usd = convert(n, currency, "USD");
+  return usd == null ? null : Math.round(usd * 100);
+}
+
+/** Current price per source (USD cents) for spread rules. */
+export async function loadSourcePrices(opts: {
+  game: string;
+  cardId: string;
+  marketItemId: string;
+}): Promise<Partial<Record<PriceSource, number>>> {
+  const out: Partial<Record<PriceSource, number>> = {};
+  const put = (source: PriceSource, cents: number | null) => {
+    if (cents != null) out[source] = cents;
+  };
+
+  const snaps = await db.execute<{ source: string; currency: string; value_cents: number }>(sql`
+    SELECT DISTINCT ON (source) source, currency, value_cents
+    FROM public.market_price_snapshots
+    WHERE market_item_id = ${opts.marketItemId}::uuid
+      AND condition IS NULL
+    ORDER BY source, as_of_date DESC, (price_type = 'market') DESC
+  `);
+  for (const s of snaps.rows ?? []) {
+    const source = s.source.toLowerCase() as PriceSource;
+    const currency = s.currency?.toUpperCase() === "EUR" ? "EUR" : "USD";
+    put(source, toUsdCents(Number(s.value_cents) / 100, currency));
+  }
+
+  // the per-game current tables are fresher than the nightly snapshots
+  if (opts.game === "yugioh") {
+    const res = await db.execute<Record<string, string | null>>(sql`
+      SELECT tcgplayer_price, cardmarket_price, ebay_price, amazon_price, coolstuffinc_price
+      FROM public.ygo_card_prices
+      WHERE card_id = ${opts.cardId}
+      LIMIT 1
+    `);
+    const r = res.rows?.[0];
+    if (r) {
+      put("tcgplayer", toUsdCents(r.tcgplayer_price, "USD"));
+      put("cardmarket", toUsdCents(r.cardmarket_price, "EUR"));
+      put("ebay", toUsdCents(r.ebay_price, "USD"));
+      put("amazon", toUsdCents(r.amazon_price, "USD"));
+      put("coolstuffinc", toUsdCents(r.coolstuffinc_price, "USD"));
+    }
+  }
+
+  if (opts.game === "pokemon") {
+    const res = await db.execute<{ tcgplayer: string | null; cardmarket: string | null }>(sql`
+      SELECT
+        (SELECT COALESCE(NULLIF(normal, ''), NULLIF(holofoil, ''), NULLIF(reverse_holofoil, ''),
+                         NULLIF(first_edition_holofoil, ''), NULLIF(first_edition_normal, ''))
+           FROM public.tcg_card_prices_tcgplayer WHERE card_id = ${opts.cardId} LIMIT 1) AS tcgplayer,
+        (SELECT COALESCE(NULLIF(trend_price, ''), NULLIF(average_sell_price, ''))
+           FROM public.tcg_card_prices_cardmarket WHERE card_id = ${opts.cardId} LIMIT 1) AS cardmarket
+    `);
+    const r = res.rows?.[0];
+    if (r) {
+      put("tcgplayer", toUsdCents(r.tcgplayer, "USD"));
+      put("cardmarket", toUsdCents(r.cardmarket, "EUR"));
+    }
+  }
+
+  return out;
+}
+
+/* ----------------------------------- Log ---------------------------------- */
+
+/** One row in price_alert_logs per firing, for card and collection alerts alike. */
+export async function logAlertFiring(entry: {
+  alertId: string;
+  kind: "card" | "collection";
+  userId: string;
+  game: string | null;
+  cardId: string | null;
+  ruleType: string;
+  priceCents: number | null;
+  details: Record<string, unknown>;
+}) {
+  await db.execute(sql`
+    INSERT INTO public.price_alert_logs (alert_id, alert_kind, user_id, game, card_id, rule_type, price_usd, details)
+    VALUES (
+      ${entry.alertId}, ${entry.kind}, ${entry.userId}, ${entry.game}, ${entry.cardId}, ${entry.ruleType},
+      ${entry.priceCents == null ? null : entry.priceCents / 100}, ${JSON.stringify(entry.details)}::jsonb
+    )
+  `);
+}
+
+/* ---------------------------------- Runner -------------------------------- */
+
+function cardHref(game: string, cardId: string): string {
+  const enc = encodeURIComponent(cardId);
+  if (game === "pokemon" || game === "mtg" || game === "yugioh") return `/categories/${game}/cards/${enc}`;
+  return "/pro";
+}
+
+type Evaluated = {
+  row: AlertRow;
+  rule: PriceAlertRule | null;
+  evaluation: AlertEvaluation | null;
+  notify: boolean;
+  cooledDown: boolean;
+};
+
+async function evaluateUser(
+  userId: string,
+  defaultCooldownHours: number,
+  seriesCache: Map<string, Promise<PricePoint[]>>,
+  sourceCache: Map<string, Promise<Partial<Record<PriceSource, number>>>>,
+): Promise<Evaluated[]> {
+  const rows =
+    (
+      await db.execute<AlertRow>(sql`
+        SELECT
+          a.id::text AS id, a.user_id, a.game, a.rule_type::text AS rule_type, a.threshold, a.params,
+          a.is_firing, a.last_price_cents, a.last_triggered_at::text AS last_triggered_at, a.cooldown_hours,
+          a.market_item_id::text AS market_item_id, mi.canonical_id, mi.display_name
+        FROM price_alerts a
+        JOIN market_items mi ON mi.id = a.market_item_id
+        WHERE a.user_id = ${userId}
+          AND a.active = true
+      `)
+    ).rows ?? [];
+
+  const now = new Date();
+  const out: Evaluated[] = [];
+  for (const row of rows) {
+    let rule: PriceAlertRule;
+    try {
+      rule = readAlertRule(row);
+    } catch {
+      // hand-edited / legacy row: leave it alone
+      out.push({ row, rule: null, evaluation: null, notify: false, cooledDown: false });
+      continue;
+    }
+
+    const base = { userId, game: row.game, cardId: row.canonical_id, marketItemId: row.market_item_id };
+    let evaluation: AlertEvaluation | null;
+
+    if (rule.ruleType === "spread") {
+      if (!sourceCache.has(row.market_item_id)) sourceCache.set(row.market_item_id, loadSourcePrices(base));
+      evaluation = evaluateAlertRule(rule, { series: [], sources: await sourceCache.get(row.market_item_id)! });
+    } else {
+      const days = rule.ruleType === "all_time_high" ? null : HISTORY_DAYS;
+      // the valuation fallback is per user, so the cache is too
+      const key = `${userId}:${row.market_item_id}:${days ?? "all"}`;
+      if (!seriesCache.has(key)) seriesCache.set(key, loadPriceSeries({ ...base, days }));
+      evaluation = evaluateAlertRule(rule, { series: await seriesCache.get(key)! });
+    }
+
+    const edge = shouldNotify(rule, { firing: row.is_firing, priceCents: row.last_price_cents }, evaluation);
+    const cooledDown = edge && inCooldown(row.last_triggered_at, row.cooldown_hours ?? defaultCooldownHours, now);
+    out.push({ row, rule, evaluation, notify: edge && !cooledDown, cooledDown });
+  }
+
+  return out;
+}
+
+async function saveState(results: Evaluated[]) {
+  for (const { row, rule, evaluation, notify } of results) {
+    if (notify && rule && evaluation) {
+      await logAlertFiring({
+        alertId: row.id,
+        kind: "card",
+        userId: row.user_id,
+        game: row.game,
+        cardId: row.canonical_id,
+        ruleType: rule.ruleType,
+        priceCents: evaluation.priceCents,
+        details: { rule: describeAlertRule(rule), detail: evaluation.detail, metricPct: evaluation.metricPct },
+      });
+    }
+
+    await db.execute(sql`
+      UPDATE price_alerts SET
+        is_firing = ${evaluation ? evaluation.firing : row.is_firing},
+        last_price_cents = ${evaluation ? evaluation.priceCents : row.last_price_cents},
+        last_evaluated_at = now(),
+        last_triggered_at = ${notify ? sql`now()` : sql`last_triggered_at`}
+      WHERE id = ${row.id}::uuid
+    `);
+  }
+}
+
+/**
+ * Evaluates active alerts for up to `limit` users (least recently checked
+ * first) and sends each user one notification per alert that just fired.
+ */
+export async function runPriceAlerts(opts: { limit?: number } = {}): Promise<PriceAlertRunSummary> {
+  const limit = Math.max(1, Math.min(Math.floor(opts.limit ?? 200), 1000));
+
+  const users =
+    (
+      await db.execute<{ user_id: string }>(sql`
+        SELECT user_id
+        FROM price_alerts
+        WHERE active = true
+        GROUP BY user_id
+        ORDER BY MIN(last_evaluated_at) ASC NULLS FIRST
+        LIMIT ${limit}
+      `)
+    ).rows ?? [];
+
+  const summary: PriceAlertRunSummary = {
+    users: 0,
+    alerts: 0,
+    triggered: 0,
+    notified: 0,
+    cooledDown: 0,
+    skipped: 0,
+    failed: 0,
+  };
+  const seriesCache = new Map<string, Promise<PricePoint[]>>();
+  const sourceCache = new Map<string, Promise<Partial<Record<PriceSource, number>>>>();
+
+  for (const { user_id: userId } of users) {
+    try {
+      const settings = await getNotificationSettings(userId);
+      const results = await evaluateUser(userId, settings.cooldownHours, seriesCache, sourceCache);
+      const fired = results.filter((r) => r.notify);
+
+      // a failure here leaves alert state untouched so the next run retries
+      await notifyUser(
+        userId,
+        fired.map(({ row, rule, evaluation }) => ({
+          kind: "price_alert",
+          title: `Price alert: ${row.display_name || row.canonical_id}`,
+          body: `${describeAlertRule(rule!)} — ${evaluation!.detail}`,
+          href: cardHref(row.game, row.canonical_id),
+          data: { alertId: row.id, game: row.game, cardId: row.canonical_id, priceCents: evaluation!.priceCents },
+        })),
+      );
+      await saveState(results);
+
+      summary.users++;
+      summary.alerts += results.length;
+      summary.triggered += fired.length;
+      summary.cooledDown += results.filter((r) => r.cooledDown).length;
+      summary.skipped += results.filter((r) => r.rule && !r.evaluation).length;
+      if (fired.length) summary.notified++;
+    } catch (err) {
+      summary.failed++;
+      console.error(`[price-alerts] user ${userId} failed`, err);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,298 @@
+// src/lib/alerts/rules.ts
+//
+// Price alert rule types, validation of new rules and evaluation against a
+// daily price series. ./priceAlerts.ts loads the history and runs them.
+
+export type PriceAlertRuleType =
+  | "above"
+  | "below"
+  | "pct_up"
+  | "pct_down"
+  | "above_ma"
+  | "below_ma"
+  | "spread"
+  | "all_time_high";
+
+export const PRICE_ALERT_RULE_TYPES: PriceAlertRuleType[] = [
+  "above",
+  "below",
+  "pct_up",
+  "pct_down",
+  "above_ma",
+  "below_ma",
+  "spread",
+  "all_time_high",
+];
+
+export const PRICE_ALERT_RULE_LABELS: Record<PriceAlertRuleType, string> = {
+  above: "Price above",
+  below: "Price below",
+  pct_up: "Up % in window",
+  pct_down: "Down % in window",
+  above_ma: "Rises above moving average",
+  below_ma: "Falls below moving average",
+  spread: "Spread between sources",
+  all_time_high: "New all-time high",
+};
+
+export type PriceSource = "tcgplayer" | "cardmarket" | "ebay" | "amazon" | "coolstuffinc";
+
+export const PRICE_SOURCES: PriceSource[] = ["tcgplayer", "cardmarket", "ebay", "amazon", "coolstuffinc"];
+
+export const PRICE_SOURCE_LABELS: Record<PriceSource, string> = {
+  tcgplayer: "TCGplayer",
+  cardmarket: "Cardmarket",
+  ebay: "eBay",
+  amazon: "Amazon",
+  coolstuffinc: "CoolStuffInc",
+};
+
+export type PriceAlertParams = {
+  /** pct_up / pct_down / spread */
+  pct?: number;
+  /** pct_up / pct_down lookback, above_ma / below_ma average window */
+  windowDays?: number;
+  /** spread: the two sources compared */
+  sources?: [PriceSource, PriceSource];
+};
+
+export type PriceAlertRule = {
+  ruleType: PriceAlertRuleType;
+  /** USD; only for the fixed above/below rules */
+  threshold: number | null;
+  params: PriceAlertParams;
+};
+
+/** one price per day, USD cents */
+export type PricePoint = { date: string; cents: number };
+
+export type AlertEvaluation = {
+  firing: boolean;
+  /** latest price (spread: the higher of the two sources) */
+  priceCents: number;
+  /** % change / % vs average / % spread, when the rule has one */
+  metricPct: number | null;
+  detail: string;
+};
+
+export class AlertRuleError extends Error {
+  code: string;
+  status: number;
+
+  constructor(message: string, code: string, status = 400) {
+    super(message);
+    this.name = "AlertRuleError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+const DEFAULT_WINDOW_DAYS = 7;
+const DEFAULT_MA_DAYS = 30;
+const DAY_MS = 86_400_000;
+
+export function normalizeRuleType(raw: unknown): PriceAlertRuleType | null {
+  const v = String(raw ?? "").trim().toLowerCase();
+  return (PRICE_ALERT_RULE_TYPES as string[]).includes(v) ? (v as PriceAlertRuleType) : null;
+}
+
+export function normalizePriceSource(raw: unknown): PriceSource | null {
+  const v = String(raw ?? "").trim().toLowerCase();
+  return (PRICE_SOURCES as string[]).includes(v) ? (v as PriceSource) : null;
+}
+
+function readNumber(raw: unknown, label: string, min: number, max: number): number {
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < min || n > max) {
+    throw new AlertRuleError(`${label} must be between ${min} and ${max}.`, "invalid_params");
+  }
+  return n;
+}
+
+/**
+ * Validates an alert rule from a request body / DB row:
+ *   { rule_type, threshold?, params?: { pct?, windowDays?, sources? } }
+ * Only the params a rule uses are kept.
+ */
+export function readAlertRule(raw: { rule_type?: unknown; threshold?: unknown; params?: unknown }): PriceAlertRule {
+  const ruleType = normalizeRuleType(raw.rule_type);
+  if (!ruleType) throw new AlertRuleError("Unknown rule type.", "invalid_rule_type");
+
+  const p = (raw.params && typeof raw.params === "object" ? raw.params : {}) as Record<string, unknown>;
+
+  switch (ruleType) {
+    case "above":
+    case "below":
+      return { ruleType, threshold: readNumber(raw.threshold, "Threshold", 0.01, 10_000_000), params: {} };
+
+    case "pct_up":
+    case "pct_down":
+      return {
+        ruleType,
+        threshold: null,
+        params: {
+          pct: readNumber(p.pct, "Percent", 1, 1000),
+          windowDays: Math.round(readNumber(p.windowDays ?? DEFAULT_WINDOW_DAYS, "Window", 1, 365)),
+        },
+      };
+
+    case "above_ma":
+    case "below_ma":
+      return {
+        ruleType,
+        threshold: null,
+        params: { windowDays: Math.round(readNumber(p.windowDays ?? DEFAULT_MA_DAYS, "Average window", 2, 365)) },
+      };
+
+    case "spread": {
+      const list = Array.isArray(p.sources) ? p.sources : ["tcgplayer", "cardmarket"];
+      const a = normalizePriceSource(list[0]);
+      const b = normalizePriceSource(list[1]);
+      if (!a || !b || a === b) throw new AlertRuleError("Pick two different price sources.", "invalid_params");
+      return { ruleType, threshold: null, params: { pct: readNumber(p.pct, "Spread", 1, 1000), sources: [a, b] } };
+    }
+
+    case "all_time_high":
+      return { ruleType, threshold: null, params: {} };
+  }
+}
+
+function usd(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function pct(n: number) {
+  return `${n >= 0 ? "+" : ""}${n.toFixed(1)}%`;
+}
+
+export function describeAlertRule(rule: PriceAlertRule): string {
+  const { pct: p, windowDays: w, sources } = rule.params;
+  switch (rule.ruleType) {
+    case "above":
+      return `Price goes above ${usd(Math.round((rule.threshold ?? 0) * 100))}`;
+    case "below":
+      return `Price goes below ${usd(Math.round((rule.threshold ?? 0) * 100))}`;
+    case "pct_up":
+      return `Up ${p}% in ${w} day${w === 1 ? "" : "s"}`;
+    case "pct_down":
+      return `Down ${p}% in ${w} day${w === 1 ? "" : "s"}`;
+    case "above_ma":
+      return `Rises above its ${w}-day average`;
+    case "below_ma":
+      return `Falls below its ${w}-day average`;
+    case "spread":
+      return `${PRICE_SOURCE_LABELS[sources?.[0] ?? "tcgplayer"]} vs ${PRICE_SOURCE_LABELS[sources?.[1] ?? "cardmarket"]} spread over ${p}%`;
+    case "all_time_high":
+      return "New all-time high";
+  }
+}
+
+function dayMs(date: string) {
+  return Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+}
+
+/**
+ * Evaluates a rule against the card's daily series (and per-source prices for
+ * spread rules). null = not enough data to say either way.
+ */
+export function evaluateAlertRule(
+  rule: PriceAlertRule,
+  input: { series: PricePoint[]; sources?: Partial<Record<PriceSource, number>> },
+): AlertEvaluation | null {
+  if (rule.ruleType === "spread") {
+    const [sa, sb] = rule.params.sources ?? ["tcgplayer", "cardmarket"];
+    const a = input.sources?.[sa];
+    const b = input.sources?.[sb];
+    if (a == null || b == null || a <= 0 || b <= 0) return null;
+
+    const spread = ((Math.max(a, b) - Math.min(a, b)) / Math.min(a, b)) * 100;
+    return {
+      firing: spread >= (rule.params.pct ?? Infinity),
+      priceCents: Math.max(a, b),
+      metricPct: spread,
+      detail: `${PRICE_SOURCE_LABELS[sa]} ${usd(a)} vs ${PRICE_SOURCE_LABELS[sb]} ${usd(b)} (${spread.toFixed(1)}% spread)`,
+    };
+  }
+
+  const series = input.series
+    .filter((p) => Number.isFinite(p.cents) && p.cents > 0 && Number.isFinite(dayMs(p.date)))
+    .sort((x, y) => dayMs(x.date) - dayMs(y.date));
+  const latest = series[series.length - 1];
+  if (!latest) return null;
+
+  const now = latest.cents;
+  const before = series.slice(0, -1);
+
+  switch (rule.ruleType) {
+    case "above":
+    case "below": {
+      const target = Math.round((rule.threshold ?? 0) * 100);
+      return {
+        firing: rule.ruleType === "above" ? now > target : now < target,
+        priceCents: now,
+        metricPct: null,
+        detail: `Now ${usd(now)} (target ${usd(target)})`,
+      };
+    }
+
+    case "pct_up":
+    case "pct_down": {
+      // price as of the start of the window: last point on/before the cutoff
+      const cutoff = dayMs(latest.date) - (rule.params.windowDays ?? DEFAULT_WINDOW_DAYS) * DAY_MS;
+      const base = [...before].reverse().find((p) => dayMs(p.date) <= cutoff);
+      if (!base) return null;
+
+      const change = ((now - base.cents) / base.cents) * 100;
+      const want = rule.params.pct ?? Infinity;
+      return {
+        firing: rule.ruleType === "pct_up" ? change >= want : change <= -want,
+        priceCents: now,
+        metricPct: change,
+        detail: `${usd(base.cents)} → ${usd(now)} (${pct(change)} in ${rule.params.windowDays} days)`,
+      };
+    }
+
+    case "above_ma":
+    case "below_ma": {
+      const days = rule.params.windowDays ?? DEFAULT_MA_DAYS;
+      const from = dayMs(latest.date) - days * DAY_MS;
+      const window = before.filter((p) => dayMs(p.date) >= from);
+      // a couple of points isn't an average
+      if (window.length < Math.min(3, days)) return null;
+
+      const avg = window.reduce((s, p) => s + p.cents, 0) / window.length;
+      const vs = ((now - avg) / avg) * 100;
+      return {
+        firing: rule.ruleType === "above_ma" ? now > avg : now < avg,
+        priceCents: now,
+        metricPct: vs,
+        detail: `Now ${usd(now)} vs ${days}-day average ${usd(Math.round(avg))} (${pct(vs)})`,
+      };
+    }
+
+    case "all_time_high": {
+      if (!before.length) return null;
+      const high = Math.max(...before.map((p) => p.cents));
+      return {
+        firing: now > high,
+        priceCents: now,
+        metricPct: ((now - high) / high) * 100,
+        detail: `Now ${usd(now)}, previous high ${usd(high)}`,
+      };
+    }
+  }
+}
+
+/**
+ * Alerts notify on the edge: when a rule starts firing, not on every run it
+ * stays true. All-time highs are the exception — each higher high is news.
+ */
+export function shouldNotify(
+  rule: PriceAlertRule,
+  prev: { firing: boolean; priceCents: number | null },
+  next: AlertEvaluation | null,
+): boolean {
+  if (!next?.firing) return false;
+  if (!prev.firing) return true;
+  return rule.ruleType === "all_time_high" && prev.priceCents != null && next.priceCents > prev.priceCents;
+}
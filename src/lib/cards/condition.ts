@@ -0,0 +1,46 @@
+// src/lib/cards/condition.ts
+//
+// Raw card conditions (Near Mint down to Damaged) and the spellings we
+// accept for them from forms, CSV imports and shop listings. Shared by the
+// collection, wishlist matching and the valuation engine.
+
+export type CardCondition = "nm" | "lp" | "mp" | "hp" | "dmg";
+
+/** Best first. */
+export const CARD_CONDITIONS: CardCondition[] = ["nm", "lp", "mp", "hp", "dmg"];
+
+export const CARD_CONDITION_LABELS: Record<CardCondition, string> = {
+  nm: "Near Mint",
+  lp: "Lightly Played",
+  mp: "Moderately Played",
+  hp: "Heavily Played",
+  dmg: "Damaged",
+};
+
+const CONDITION_ALIASES: Record<string, CardCondition> = {
+  nm: "nm",
+  "near mint": "nm",
+  "near-mint": "nm",
+  mint: "nm",
+  m: "nm",
+  lp: "lp",
+  "lightly played": "lp",
+  "light play": "lp",
+  ex: "lp",
+  excellent: "lp",
+  mp: "mp",
+  "moderately played": "mp",
+  "moderate play": "mp",
+  played: "mp",
+  hp: "hp",
+  "heavily played": "hp",
+  "heavy play": "hp",
+  dmg: "dmg",
+  damaged: "dmg",
+  poor: "dmg",
+};
+
+export function normalizeCondition(raw: unknown): CardCondition | null {
+  const v = String(raw ?? "").trim().toLowerCase().replace(/_/g, " ");
+  return CONDITION_ALIASES[v] ?? null;
+}
@@ -0,0 +1,465 @@
+// src/lib/collections/csvImport.ts
+//
+// Parses collection exports from other apps (TCGplayer, Deckbox, Moxfield,
+// Dragon Shield, or a plain spreadsheet) into normalized import rows, plus our
+// own lossless JSON export (./exportFormats.ts).
+//
+// Only parsing and column mapping happen here; ./importCards.ts resolves the
+// rows to cards and writes them.
+
+import { parse } from "csv-parse/sync";
+import { COLLECTION_JSON_FORMAT, type CollectionJsonExport } from "./exportFormats";
+
+export type CsvImportSource = "tcgplayer" | "deckbox" | "moxfield" | "dragonshield" | "generic";
+
+export type ImportSource = CsvImportSource | "json";
+
+export const IMPORT_SOURCES: ImportSource[] = ["tcgplayer", "deckbox", "moxfield", "dragonshield", "generic", "json"];
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  tcgplayer: "TCGplayer",
+  deckbox: "Deckbox",
+  moxfield: "Moxfield",
+  dragonshield: "Dragon Shield",
+  generic: "Spreadsheet (Name, Set, Number, Quantity)",
+  json: "Legendary Collectibles backup (JSON)",
+};
+
+export type ImportGame = "pokemon" | "mtg" | "yugioh";
+
+/** Same canonical values as user_collection_items.variant_type */
+export type ImportVariant = "normal" | "holofoil" | "reverse_holofoil" | "first_edition" | "promo";
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export type ImportRow = {
+  /** 1-based line in the original file (header = line 1) */
+  line: number;
+  /** from a "Product Line" / "Game" column when present */
+  game: ImportGame | null;
+  /** our own card id; only set by the JSON backup format */
+  cardId: string | null;
+  name: string;
+  setCode: string | null;
+  setName: string | null;
+  number: string | null;
+  quantity: number;
+  variant: ImportVariant;
+  gradingCompany: string | null;
+  gradeLabel: string | null;
+  certNumber: string | null;
+  condition: string | null;
+  language: string | null;
+  /** per copy */
+  costCents: number | null;
+  /** YYYY-MM-DD */
+  purchaseDate: string | null;
+  folder: string | null;
+  scryfallId: string | null;
+  tcgplayerId: number | null;
+};
+
+export type SkippedRow = { line: number; reason: string };
+
+export type ParseImportResult =
+  | { ok: true; source: ImportSource; rows: ImportRow[]; skipped: SkippedRow[] }
+  | { ok: false; error: string; message: string };
+
+type Field =
+  | "game"
+  | "name"
+  | "setCode"
+  | "setName"
+  | "number"
+  | "quantity"
+  | "printing"
+  | "foil"
+  | "condition"
+  | "language"
+  | "cost"
+  | "purchaseDate"
+  | "folder"
+  | "scryfallId"
+  | "tcgplayerId";
+
+/**
+ * Header names per source (lowercased). First match wins.
+ * Note "Edition" is a set NAME on Deckbox but a set CODE on Moxfield.
+ * TCGplayer/Deckbox "Price" columns are market/asking prices, not cost, so they are ignored.
+ */
+const COLUMNS: Record<CsvImportSource, Partial<Record<Field, string[]>>> = {
+  tcgplayer: {
+    game: ["product line"],
+    name: ["simple name", "name", "product name"],
+    setCode: ["set code"],
+    setName: ["set", "set name"],
+    number: ["card number", "number"],
+    quantity: ["quantity", "add to quantity", "total quantity"],
+    printing: ["printing"],
+    condition: ["condition"],
+    language: ["language"],
+    tcgplayerId: ["product id", "tcgplayer id"],
+  },
+  deckbox: {
+    name: ["name"],
+    setCode: ["edition code"],
+    setName: ["edition"],
+    number: ["card number"],
+    quantity: ["count"],
+    foil: ["foil"],
+    condition: ["condition"],
+    language: ["language"],
+  },
+  moxfield: {
+    name: ["name"],
+    setCode: ["edition"],
+    number: ["collector number"],
+    quantity: ["count"],
+    foil: ["foil"],
+    condition: ["condition"],
+    language: ["language"],
+    cost: ["purchase price"],
+  },
+  dragonshield: {
+    folder: ["folder name"],
+    name: ["card name"],
+    setCode: ["set code"],
+    setName: ["set name"],
+    number: ["card number"],
+    quantity: ["quantity"],
+    printing: ["printing"],
+    condition: ["condition"],
+    language: ["language"],
+    cost: ["price bought"],
+    purchaseDate: ["date bought"],
+  },
+  generic: {
+    game: ["game", "product line"],
+    name: ["name", "card name", "card"],
+    setCode: ["set code", "set_code", "edition code"],
+    setName: ["set", "set name", "set_name", "edition"],
+    number: ["number", "card number", "collector number", "collector_number"],
+    quantity: ["quantity", "qty", "count"],
+    printing: ["printing", "variant", "finish"],
+    foil: ["foil"],
+    condition: ["condition"],
+    language: ["language", "lang"],
+    cost: ["cost", "cost each", "purchase price", "price paid", "cost basis"],
+    purchaseDate: ["purchase date", "purchase_date", "date bought", "acquired"],
+    folder: ["folder", "collection", "binder"],
+    scryfallId: ["scryfall id", "scryfall_id"],
+    tcgplayerId: ["tcgplayer id", "tcgplayer_id", "product id"],
+  },
+};
+
+export function normalizeImportSource(raw: unknown): ImportSource | "auto" | null {
+  const v = String(raw ?? "").trim().toLowerCase().replace(/[\s_-]+/g, "");
+  if (!v || v === "auto") return "auto";
+  if (v === "tcgplayer" || v === "tcg") return "tcgplayer";
+  if (v === "deckbox") return "deckbox";
+  if (v === "moxfield") return "moxfield";
+  if (v === "dragonshield" || v === "ds") return "dragonshield";
+  if (v === "generic" || v === "csv" || v === "spreadsheet") return "generic";
+  if (v === "json" || v === "backup") return "json";
+  return null;
+}
+
+export function normalizeImportGame(raw: unknown): ImportGame | null {
+  const v = String(raw ?? "").trim().toLowerCase();
+  if (!v) return null;
+  if (v === "pokemon" || v === "pokémon" || v.startsWith("pokemon") || v.startsWith("pokémon")) return "pokemon";
+  if (v === "mtg" || v === "magic" || v.startsWith("magic")) return "mtg";
+  if (v === "ygo" || v === "yugioh" || v === "yu-gi-oh" || v === "yu-gi-oh!") return "yugioh";
+  return null;
+}
+
+/** Guess the exporting app from the header row. */
+export function detectImportSource(headers: string[]): CsvImportSource {
+  const h = new Set(headers.map((x) => x.trim().toLowerCase()));
+
+  if (h.has("folder name") && h.has("card name")) return "dragonshield";
+  if (h.has("product id") || h.has("simple name") || (h.has("printing") && h.has("product line"))) {
+    return "tcgplayer";
+  }
+  if (h.has("count") && h.has("edition")) {
+    // Moxfield's export is Deckbox-shaped but uses set codes + "Collector Number"
+    return h.has("collector number") || h.has("purchase price") ? "moxfield" : "deckbox";
+  }
+  return "generic";
+}
+
+/** "Reverse Holofoil", "Foil", "etched", "1st Edition Holofoil" -> canonical variant */
+export function normalizeImportVariant(printing: unknown, foil?: unknown): ImportVariant {
+  const p = String(printing ?? "").trim().toLowerCase();
+  const f = String(foil ?? "").trim().toLowerCase();
+
+  if (p.includes("1st") || p.includes("first")) return "first_edition";
+  if (p.includes("reverse")) return "reverse_holofoil";
+  if (p.includes("promo")) return "promo";
+  if (p.includes("holo") || p.includes("foil") || p.includes("etched")) return "holofoil";
+
+  if (f && f !== "false" && f !== "no" && f !== "0" && f !== "normal" && f !== "nonfoil") {
+    return "holofoil";
+  }
+
+  return "normal";
+}
+
+/** "4/102" -> "4", "004" -> "4", "TG01" stays as-is */
+export function normalizeCardNumber(raw: unknown): string | null {
+  let v = String(raw ?? "").trim();
+  if (!v) return null;
+  if (v.startsWith("#")) v = v.slice(1);
+  const slash = v.indexOf("/");
+  if (slash > 0) v = v.slice(0, slash);
+  if (/^\d+$/.test(v)) v = String(Number(v));
+  return v || null;
+}
+
+function toCents(raw: unknown): number | null {
+  const s = String(raw ?? "").replace(/[^\d.,-]/g, "").replace(/,/g, "");
+  if (!s) return null;
+  const n = Number(s);
+  return Number.isFinite(n) && n > 0 ? Math.round(n * 100) : null;
+}
+
+/** Accepts YYYY-MM-DD (optionally with a time) or M/D/YYYY. */
+function toISODate(raw: unknown): string | null {
+  const s = String(raw ?? "").trim();
+  if (!s) return null;
+
+  let m = /^(\d{4})-(\d{2})-(\d{2})/.exec(s);
+  if (m) return `${m[1]}-${m[2]}-${m[3]}`;
+
+  m = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(s);
+  if (m) return `${m[3]}-${m[1].padStart(2, "0")}-${m[2].padStart(2, "0")}`;
+
+  return null;
+}
+
+function text(raw: unknown): string | null {
+  const s = String(raw ?? "").trim();
+  return s || null;
+}
+
+/**
+ * Parse a collection CSV. `source` defaults to auto-detection from the header.
+ * Rows without a card name/ID or with a zero quantity are reported in `skipped`.
+ */
+export function parseCollectionCsv(
+  csvText: string,
+  opts: { source?: CsvImportSource | "auto" } = {},
+): ParseImportResult {
+  // Dragon Shield prefixes its export with an Excel "sep=," hint line.
+  let body = String(csvText ?? "").replace(/^\uFEFF/, "");
+  let lineOffset = 0;
+  if (/^sep=.?\r?\n/i.test(body)) {
+    body = body.replace(/^sep=.?\r?\n/i, "");
+    lineOffset = 1;
+  }
+
+  if (!body.trim()) {
+    return { ok: false, error: "empty_file", message: "The file is empty." };
+  }
+
+  let records: string[][];
+  try {
+    records = parse(body, {
+      bom: true,
+      skip_empty_lines: true,
+      relax_column_count: true,
+      relax_quotes: true,
+      trim: true,
+    }) as string[][];
+  } catch (err) {
+    return {
+      ok: false,
+      error: "invalid_csv",
+      message: `Could not read the CSV: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+
+  const [header, ...data] = records;
+  if (!header?.length || !data.length) {
+    return { ok: false, error: "empty_file", message: "The file has no card rows." };
+  }
+  if (data.length > MAX_IMPORT_ROWS) {
+    return {
+      ok: false,
+      error: "too_many_rows",
+      message: `Imports are limited to ${MAX_IMPORT_ROWS.toLocaleString("en-US")} rows per file. Split the file and try again.`,
+    };
+  }
+
+  const source = !opts.source || opts.source === "auto" ? detectImportSource(header) : opts.source;
+  const lower = header.map((h) => h.trim().toLowerCase());
+  const cols = COLUMNS[source];
+
+  const idx = (field: Field): number => {
+    for (const name of cols[field] ?? []) {
+      const i = lower.indexOf(name);
+      if (i >= 0) return i;
+    }
+    return -1;
+  };
+
+  const at: Record<Field, number> = {
+    game: idx("game"),
+    name: idx("name"),
+    setCode: idx("setCode"),
+    setName: idx("setName"),
+    number: idx("number"),
+    quantity: idx("quantity"),
+    printing: idx("printing"),
+    foil: idx("foil"),
+    condition: idx("condition"),
+    language: idx("language"),
+    cost: idx("cost"),
+    purchaseDate: idx("purchaseDate"),
+    folder: idx("folder"),
+    scryfallId: idx("scryfallId"),
+    tcgplayerId: idx("tcgplayerId"),
+  };
+
+  if (at.name < 0 && at.scryfallId < 0 && at.tcgplayerId < 0) {
+    return {
+      ok: false,
+      error: "missing_columns",
+      message: "Couldn't find a card name column. Check that the first row is the header.",
+    };
+  }
+
+  const get = (rec: string[], field: Field) => (at[field] >= 0 ? rec[at[field]] : undefined);
+
+  const rows: ImportRow[] = [];
+  const skipped: SkippedRow[] = [];
+
+  data.forEach((rec, i) => {
+    const line = i + 2 + lineOffset;
+
+    const name = text(get(rec, "name")) ?? "";
+    const scryfallId = text(get(rec, "scryfallId"));
+    const tcgRaw = Number(String(get(rec, "tcgplayerId") ?? "").trim());
+    const tcgplayerId = Number.isInteger(tcgRaw) && tcgRaw > 0 ? tcgRaw : null;
+
+    if (!name && !scryfallId && !tcgplayerId) {
+      skipped.push({ line, reason: "No card name or ID" });
+      return;
+    }
+
+    const qtyRaw = String(get(rec, "quantity") ?? "").trim();
+    const quantity = qtyRaw === "" ? 1 : Math.floor(Number(qtyRaw));
+    if (!Number.isFinite(quantity) || quantity < 1) {
+      skipped.push({ line, reason: "Quantity is 0 or not a number" });
+      return;
+    }
+
+    rows.push({
+      line,
+      game: normalizeImportGame(get(rec, "game")),
+      cardId: null,
+      name,
+      setCode: text(get(rec, "setCode")),
+      setName: text(get(rec, "setName")),
+      number: normalizeCardNumber(get(rec, "number")),
+      quantity,
+      variant: normalizeImportVariant(get(rec, "printing"), get(rec, "foil")),
+      gradingCompany: null,
+      gradeLabel: null,
+      certNumber: null,
+      condition: text(get(rec, "condition")),
+      language: text(get(rec, "language")),
+      costCents: toCents(get(rec, "cost")),
+      purchaseDate: toISODate(get(rec, "purchaseDate")),
+      folder: text(get(rec, "folder"))?.slice(0, 100) ?? null,
+      scryfallId,
+      tcgplayerId,
+    });
+  });
+
+  return { ok: true, source, rows, skipped };
+}
+
+/**
+ * Reads our own JSON backup back in. Rows carry exact card ids and grading,
+ * so nothing needs fuzzy matching.
+ */
+export function parseCollectionJson(jsonText: string): ParseImportResult {
+  let doc: Partial<CollectionJsonExport> | null = null;
+  try {
+    doc = JSON.parse(jsonText);
+  } catch {
+    return { ok: false, error: "invalid_json", message: "The file isn't valid JSON." };
+  }
+
+  if (doc?.format !== COLLECTION_JSON_FORMAT || !Array.isArray(doc.items)) {
+    return { ok: false, error: "invalid_json", message: "This JSON file isn't a Legendary Collectibles export." };
+  }
+  if (doc.items.length > MAX_IMPORT_ROWS) {
+    return {
+      ok: false,
+      error: "too_many_rows",
+      message: `Imports are limited to ${MAX_IMPORT_ROWS.toLocaleString("en-US")} rows per file. Split the file and try again.`,
+    };
+  }
+
+  const rows: ImportRow[] = [];
+  const skipped: SkippedRow[] = [];
+
+  doc.items.forEach((it, i) => {
+    // "line" is the 1-based position in items[] for JSON
+    const line = i + 1;
+    const game = normalizeImportGame(it?.game);
+    const cardId = text(it?.cardId);
+    const quantity = Math.floor(Number(it?.quantity ?? 1));
+
+    if (!game || !cardId) {
+      skipped.push({ line, reason: "Missing game or card id" });
+      return;
+    }
+    if (!Number.isFinite(quantity) || quantity < 1) {
+      skipped.push({ line, reason: "Quantity is 0 or not a number" });
+      return;
+    }
+
+    const cost = Number(it?.costCents);
+
+    rows.push({
+      line,
+      game,
+      cardId,
+      name: text(it?.cardName) ?? "",
+      setCode: text(it?.setCode),
+      setName: text(it?.setName),
+      number: text(it?.number),
+      quantity,
+      variant: normalizeImportVariant(it?.variant),
+      gradingCompany: text(it?.gradingCompany)?.toUpperCase() ?? null,
+      gradeLabel: text(it?.gradeLabel),
+      certNumber: text(it?.certNumber),
+      condition: null,
+      language: null,
+      costCents: it?.costCents != null && Number.isFinite(cost) && cost >= 0 ? Math.round(cost) : null,
+      purchaseDate: toISODate(it?.purchaseDate),
+      folder: text(it?.folder)?.slice(0, 100) ?? null,
+      scryfallId: null,
+      tcgplayerId: null,
+    });
+  });
+
+  return { ok: true, source: "json", rows, skipped };
+}
+
+/** Entry point for uploads: our JSON backup or any supported CSV. */
+export function parseCollectionFile(
+  fileText: string,
+  opts: { source?: ImportSource | "auto" } = {},
+): ParseImportResult {
+  const body = String(fileText ?? "").replace(/^\uFEFF/, "");
+  const source = opts.source ?? "auto";
+
+  if (source === "json" || (source === "auto" && body.trimStart().startsWith("{"))) {
+    return parseCollectionJson(body);
+  }
+  return parseCollectionCsv(body, { source });
+}
@@ -0,0 +1,224 @@
+// src/lib/collections/exportFormats.ts
+//
+// Renders a user's collection in formats other tools read (TCGplayer mass
+// entry, Moxfield/Archidekt text, MTGO .dek, YGOPRODeck .ydk) plus a lossless
+// JSON form that our own importer (./csvImport.ts) reads back.
+//
+// Each format takes rows already loaded by ./exportItems.ts.
+
+export type CollectionExportFormat = "tcgplayer" | "moxfield" | "archidekt" | "mtgo" | "ydk" | "json";
+
+export const COLLECTION_JSON_FORMAT = "legendary-collectibles/collection";
+export const COLLECTION_JSON_VERSION = 1;
+
+export const COLLECTION_EXPORT_FORMATS: Record<
+  CollectionExportFormat,
+  { label: string; ext: string; contentType: string; games: string[] | null }
+> = {
+  tcgplayer: { label: "TCGplayer Mass Entry", ext: "txt", contentType: "text/plain", games: null },
+  moxfield: { label: "Moxfield text", ext: "txt", contentType: "text/plain", games: ["mtg"] },
+  archidekt: { label: "Archidekt text", ext: "txt", contentType: "text/plain", games: ["mtg"] },
+  mtgo: { label: "MTGO .dek", ext: "dek", contentType: "application/xml", games: ["mtg"] },
+  ydk: { label: "YGOPRODeck .ydk", ext: "ydk", contentType: "text/plain", games: ["yugioh"] },
+  json: { label: "Backup JSON (re-importable)", ext: "json", contentType: "application/json", games: null },
+};
+
+/** One user_collection_items row plus the catalog identifiers other tools key on. */
+export type CollectionExportItem = {
+  game: string;
+  cardId: string;
+  cardName: string | null;
+  setName: string | null;
+  setCode: string | null;
+  number: string | null;
+  variant: string;
+  gradingCompany: string | null;
+  gradeLabel: string | null;
+  certNumber: string | null;
+  quantity: number;
+  folder: string | null;
+  /** per copy */
+  costCents: number | null;
+  purchaseDate: string | null;
+  lastValueCents: number | null;
+  imageUrl: string | null;
+  tcgplayerId: number | null;
+  mtgoId: number | null;
+  mtgoFoilId: number | null;
+  /** Yu-Gi-Oh! card type, used to split the extra deck in .ydk */
+  ygoType: string | null;
+};
+
+export type CollectionJsonExport = {
+  format: typeof COLLECTION_JSON_FORMAT;
+  version: number;
+  exportedAt: string;
+  items: Omit<CollectionExportItem, "mtgoId" | "mtgoFoilId" | "ygoType">[];
+};
+
+export type RenderedExport = {
+  body: string;
+  /** rows written */
+  exported: number;
+  /** rows the format can't represent (wrong game, no MTGO id, ...) */
+  skipped: number;
+};
+
+export function normalizeExportFormat(raw: unknown): CollectionExportFormat | "csv" | null {
+  const v = String(raw ?? "").trim().toLowerCase();
+  if (!v || v === "csv") return "csv";
+  if (v === "tcgplayer" || v === "tcgplayer-mass-entry" || v === "mass-entry") return "tcgplayer";
+  if (v === "moxfield") return "moxfield";
+  if (v === "archidekt") return "archidekt";
+  if (v === "mtgo" || v === "dek") return "mtgo";
+  if (v === "ydk" || v === "ygoprodeck") return "ydk";
+  if (v === "json") return "json";
+  return null;
+}
+
+function isFoil(variant: string) {
+  return variant !== "normal" && variant !== "";
+}
+
+function xmlAttr(v: string) {
+  return v.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/** Sums quantities of rows that render to the same line (e.g. one card across folders). */
+function tally(lines: [string, number][]): Map<string, number> {
+  const out = new Map<string, number>();
+  for (const [k, qty] of lines) out.set(k, (out.get(k) ?? 0) + qty);
+  return out;
+}
+
+function renderTcgplayer(items: CollectionExportItem[]): RenderedExport {
+  const named = items.filter((it) => it.cardName);
+  const lines = tally(
+    named.map((it) => [it.setCode ? `${it.cardName} [${it.setCode.toUpperCase()}]` : `${it.cardName}`, it.quantity]),
+  );
+  return {
+    body: [...lines].map(([k, q]) => `${q} ${k}`).join("\n") + "\n",
+    exported: named.length,
+    skipped: items.length - named.length,
+  };
+}
+
+function renderDeckText(items: CollectionExportItem[], style: "moxfield" | "archidekt"): RenderedExport {
+  const mtg = items.filter((it) => it.game === "mtg" && it.cardName);
+  const lines = tally(
+    mtg.map((it) => {
+      const set = it.setCode ? (style === "moxfield" ? it.setCode.toUpperCase() : it.setCode.toLowerCase()) : null;
+      const parts = [it.cardName, set ? `(${set})` : null, set && it.number ? it.number : null, isFoil(it.variant) ? "*F*" : null];
+      return [parts.filter(Boolean).join(" "), it.quantity];
+    }),
+  );
+  const qty = (q: number) => (style === "archidekt" ? `${q}x` : `${q}`);
+  return {
+    body: [...lines].map(([k, q]) => `${qty(q)} ${k}`).join("\n") + "\n",
+    exported: mtg.length,
+    skipped: items.length - mtg.length,
+  };
+}
+
+function renderMtgo(items: CollectionExportItem[]): RenderedExport {
+  const byCat = new Map<number, { name: string; qty: number }>();
+  let exported = 0;
+
+  for (const it of items) {
+    if (it.game !== "mtg") continue;
+    const catId = isFoil(it.variant) ? (it.mtgoFoilId ?? it.mtgoId) : it.mtgoId;
+    if (!catId) continue;
+    const prev = byCat.get(catId);
+    byCat.set(catId, { name: it.cardName ?? "", qty: (prev?.qty ?? 0) + it.quantity });
+    exported += 1;
+  }
+
+  const cards = [...byCat].map(
+    ([catId, c]) =>
+      `  <Cards CatID="${catId}" Quantity="${c.qty}" Sideboard="false" Name="${xmlAttr(c.name)}" Annotation="0" />`,
+  );
+
+  return {
+    body: [
+      `<?xml version="1.0" encoding="utf-8"?>`,
+      `<Deck xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">`,
+      `  <NetDeckID>0</NetDeckID>`,
+      `  <PreconstructedDeckID>0</PreconstructedDeckID>`,
+      ...cards,
+      `</Deck>`,
+      ``,
+    ].join("\n"),
+    exported,
+    skipped: items.length - exported,
+  };
+}
+
+const YGO_EXTRA_RE = /fusion|synchro|xyz|link/i;
+
+function renderYdk(items: CollectionExportItem[]): RenderedExport {
+  const main: string[] = [];
+  const extra: string[] = [];
+  let exported = 0;
+
+  for (const it of items) {
+    // .ydk lines are passcodes, which is what ygo_cards.card_id stores
+    if (it.game !== "yugioh" || !/^\d+$/.test(it.cardId)) continue;
+    const target = it.ygoType && YGO_EXTRA_RE.test(it.ygoType) ? extra : main;
+    for (let i = 0; i < it.quantity; i++) target.push(it.cardId);
+    exported += 1;
+  }
+
+  return {
+    body: ["#created by Legendary Collectibles", "#main", ...main, "#extra", ...extra, "!side", ""].join("\n"),
+    exported,
+    skipped: items.length - exported,
+  };
+}
+
+function renderJson(items: CollectionExportItem[], exportedAt: string): RenderedExport {
+  const doc: CollectionJsonExport = {
+    format: COLLECTION_JSON_FORMAT,
+    version: COLLECTION_JSON_VERSION,
+    exportedAt,
+    items: items.map((it) => ({
+      game: it.game,
+      cardId: it.cardId,
+      cardName: it.cardName,
+      setName: it.setName,
+      setCode: it.setCode,
+      number: it.number,
+      variant: it.variant,
+      gradingCompany: it.gradingCompany,
+      gradeLabel: it.gradeLabel,
+      certNumber: it.certNumber,
+      quantity: it.quantity,
+      folder: it.folder,
+      costCents: it.costCents,
+      purchaseDate: it.purchaseDate,
+      lastValueCents: it.lastValueCents,
+      imageUrl: it.imageUrl,
+      tcgplayerId: it.tcgplayerId,
+    })),
+  };
+  return { body: JSON.stringify(doc, null, 2) + "\n", exported: items.length, skipped: 0 };
+}
+
+export function renderCollectionExport(
+  format: CollectionExportFormat,
+  items: CollectionExportItem[],
+  opts: { exportedAt?: string } = {},
+): RenderedExport {
+  switch (format) {
+    case "tcgplayer":
+      return renderTcgplayer(items);
+    case "moxfield":
+    case "archidekt":
+      return renderDeckText(items, format);
+    case "mtgo":
+      return renderMtgo(items);
+    case "ydk":
+      return renderYdk(items);
+    case "json":
+      return renderJson(items, opts.exportedAt ?? new Date().toISOString());
+  }
+}
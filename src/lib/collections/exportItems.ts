@@ -0,0 +1,142 @@
+// src/lib/collections/exportItems.ts
+import "server-only";
+
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+  COLLECTION_EXPORT_FORMATS,
+  renderCollectionExport,
+  type CollectionExportFormat,
+  type CollectionExportItem,
+} from "@/lib/collections/exportFormats";
+
+type Row = {
+  game: string;
+  card_id: string;
+  card_name: string | null;
+  set_name: string | null;
+  set_code: string | null;
+  number: string | null;
+  variant_type: string | null;
+  grading_company: string | null;
+  grade_label: string | null;
+  cert_number: string | null;
+  quantity: number;
+  folder: string | null;
+  cost_cents: number | null;
+  purchase_date: string | null;
+  last_value_cents: number | null;
+  image_url: string | null;
+  tcgplayer_id: number | null;
+  mtgo_id: number | null;
+  mtgo_foil_id: number | null;
+  ygo_type: string | null;
+};
+
+function nz(v: unknown): number | null {
+  if (v == null) return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * user_collection_items joined to each catalog for the identifiers other
+ * tools need (set codes, collector numbers, TCGplayer / MTGO ids).
+ */
+export async function loadCollectionExportItems(
+  userId: string,
+  opts: { game?: string | null } = {},
+): Promise<CollectionExportItem[]> {
+  const game = opts.game && opts.game !== "all" ? opts.game : null;
+
+  const res = await db.execute<Row>(sql`
+    SELECT
+      u.game,
+      u.card_id,
+      COALESCE(u.card_name, m.name, p.name, y.name) AS card_name,
+      COALESCE(u.set_name, m.payload->>'set_name', p.set_name) AS set_name,
+      CASE
+        WHEN u.game = 'mtg' THEN m.set_code
+        WHEN u.game = 'pokemon' THEN COALESCE(p.ptcgo_code, p.set_id)
+        ELSE NULL
+      END AS set_code,
+      CASE
+        WHEN u.game = 'mtg' THEN m.collector_number
+        WHEN u.game = 'pokemon' THEN p.number
+        ELSE NULL
+      END AS number,
+      COALESCE(NULLIF(u.variant_type, ''), 'normal') AS variant_type,
+      NULLIF(u.grading_company, '') AS grading_company,
+      NULLIF(u.grade_label, '') AS grade_label,
+      NULLIF(u.cert_number, '') AS cert_number,
+      COALESCE(u.quantity, 0)::int AS quantity,
+      u.folder,
+      u.cost_cents,
+      u.purchase_date::text AS purchase_date,
+      u.last_value_cents,
+      u.image_url,
+      m.tcgplayer_id,
+      m.mtgo_id,
+      m.mtgo_foil_id,
+      y.type AS ygo_type
+    FROM public.user_collection_items u
+    LEFT JOIN public.scryfall_cards_raw m
+      ON u.game = 'mtg' AND m.id::text = u.card_id
+    LEFT JOIN public.tcg_cards p
+      ON u.game = 'pokemon' AND p.id = u.card_id
+    LEFT JOIN public.ygo_cards y
+      ON u.game = 'yugioh' AND y.card_id = u.card_id
+    WHERE u.user_id = ${userId}
+      ${game ? sql`AND u.game = ${game}` : sql``}
+      AND COALESCE(u.quantity, 0) > 0
+    ORDER BY u.game, card_name NULLS LAST, u.card_id
+  `);
+
+  return (res.rows ?? []).map((r) => ({
+    game: r.game,
+    cardId: r.card_id,
+    cardName: r.card_name,
+    setName: r.set_name,
+    setCode: r.set_code,
+    number: r.number,
+    variant: r.variant_type ?? "normal",
+    gradingCompany: r.grading_company,
+    gradeLabel: r.grade_label,
+    certNumber: r.cert_number,
+    quantity: Number(r.quantity ?? 0),
+    folder: r.folder,
+    costCents: nz(r.cost_cents),
+    purchaseDate: r.purchase_date,
+    lastValueCents: nz(r.last_value_cents),
+    imageUrl: r.image_url,
+    tcgplayerId: nz(r.tcgplayer_id),
+    mtgoId: nz(r.mtgo_id),
+    mtgoFoilId: nz(r.mtgo_foil_id),
+    ygoType: r.ygo_type,
+  }));
+}
+
+/**
+ * Builds a download for any non-CSV export format. Formats tied to one game
+ * (.dek, .ydk, deck text) only read that game's rows.
+ */
+export async function buildCollectionExport(
+  userId: string,
+  format: CollectionExportFormat,
+  opts: { game?: string | null } = {},
+) {
+  const meta = COLLECTION_EXPORT_FORMATS[format];
+  const game = meta.games?.length === 1 ? meta.games[0] : opts.game;
+
+  const items = await loadCollectionExportItems(userId, { game });
+  const rendered = renderCollectionExport(format, items);
+
+  const stamp = new Date().toISOString().slice(0, 10);
+  const scope = game && game !== "all" ? game : "all";
+
+  return {
+    ...rendered,
+    filename: `collection_${scope}_${format}_${stamp}.${meta.ext}`,
+    contentType: `${meta.contentType}; charset=utf-8`,
+  };
+}
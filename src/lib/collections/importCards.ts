@@ -0,0 +1,664 @@
+// src/lib/collections/importCards.ts
+import "server-only";
+
+import { sql, type SQL } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { ensureCanAddCollection, ensureCanAddItem } from "@/lib/collections/limits";
+import { enqueueRevalueJob } from "@/lib/collections/revalueQueue";
+import { normalizeImportGame, type ImportGame, type ImportRow } from "@/lib/collections/csvImport";
+import { parseSlabGrade } from "@/lib/valuations/grading";
+import { normalizeVariant, type CanonVariant } from "@/lib/valuations/variants";
+import { normalizeCondition, type CardCondition } from "@/lib/cards/condition";
+
+/* ========== Typed Errors ========== */
+
+export class ImportError extends Error {
+  code: string;
+  status: number;
+  details?: Record<string, unknown>;
+
+  constructor(message: string, code: string, status = 400, details?: Record<string, unknown>) {
+    super(message);
+    this.name = "ImportError";
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/* ========== Types ========== */
+
+export type ImportCard = {
+  cardId: string;
+  name: string;
+  setName: string | null;
+  number: string | null;
+  imageUrl: string | null;
+};
+
+export type ImportMatchStatus = "matched" | "ambiguous" | "unmatched";
+
+export type ImportMatchedBy = "card_id" | "scryfall_id" | "tcgplayer_id" | "set_number" | "name";
+
+export type ResolvedImportRow = Omit<ImportRow, "game"> & {
+  game: ImportGame;
+  status: ImportMatchStatus;
+  matchedBy: ImportMatchedBy | null;
+  match: ImportCard | null;
+  /** up to MAX_CANDIDATES printings to pick from when ambiguous */
+  candidates: ImportCard[];
+};
+
+export type ImportCommitItem = {
+  line: number | null;
+  game: ImportGame;
+  cardId: string;
+  quantity: number;
+  /** printing / finish for the item's game (an MTG "holofoil" row becomes "foil") */
+  variant: CanonVariant;
+  /** raw copies only; null for slabs or when the file doesn't say */
+  condition: CardCondition | null;
+  gradingCompany: string;
+  gradeLabel: string;
+  certNumber: string;
+  /** per copy */
+  costCents: number | null;
+  purchaseDate: string | null;
+  folder: string;
+};
+
+export type ImportCommitResult = {
+  inserted: number;
+  updated: number;
+  quantity: number;
+  folders: string[];
+};
+
+const MAX_CANDIDATES = 8;
+const DEFAULT_FOLDER = "Unsorted";
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/* ========== SQL helpers ========== */
+
+function textArray(values: string[]): SQL {
+  return sql`ARRAY[${sql.join(
+    values.map((v) => sql`${v}`),
+    sql`, `,
+  )}]::text[]`;
+}
+
+function intArray(values: number[]): SQL {
+  return sql`ARRAY[${sql.join(
+    values.map((v) => sql`${v}`),
+    sql`, `,
+  )}]::int[]`;
+}
+
+function uniq<T>(values: T[]): T[] {
+  return [...new Set(values)];
+}
+
+function lc(v: string | null | undefined): string {
+  return String(v ?? "").trim().toLowerCase();
+}
+
+type CardRow = {
+  card_id: string;
+  name: string;
+  set_name: string | null;
+  set_code: string | null;
+  number: string | null;
+  image_url: string | null;
+};
+
+type NameRow = CardRow & { printings: number };
+
+function toCard(r: CardRow): ImportCard {
+  return {
+    cardId: r.card_id,
+    name: r.name,
+    setName: r.set_name,
+    number: r.number,
+    imageUrl: r.image_url,
+  };
+}
+
+/** Groups name-lookup rows by lowercased name. */
+function groupByName(rows: NameRow[]) {
+  const out = new Map<string, { total: number; cards: CardRow[] }>();
+  for (const r of rows) {
+    const k = lc(r.name);
+    const g = out.get(k) ?? { total: Number(r.printings ?? 0), cards: [] };
+    g.cards.push(r);
+    out.set(k, g);
+  }
+  return out;
+}
+
+/* ========== Per-game catalog lookups ========== */
+
+const MTG_COLS = sql`
+  c.id::text AS card_id,
+  c.name,
+  c.payload->>'set_name' AS set_name,
+  c.set_code,
+  c.collector_number AS number,
+  COALESCE(
+    (c.payload->'image_uris'->>'small'),
+    (c.payload->'card_faces'->0->'image_uris'->>'small')
+  ) AS image_url
+`;
+
+const POKEMON_COLS = sql`
+  c.id::text AS card_id,
+  c.name,
+  c.set_name,
+  c.set_id AS set_code,
+  c.number,
+  c.small_image AS image_url
+`;
+
+const YGO_COLS = sql`
+  c.card_id::text AS card_id,
+  c.name,
+  NULL::text AS set_name,
+  NULL::text AS set_code,
+  NULL::text AS number,
+  (
+    SELECT i.image_url_small
+    FROM ygo_card_images i
+    WHERE i.card_id = c.card_id
+    ORDER BY (CASE WHEN i.image_url_small IS NOT NULL THEN 0 ELSE 1 END)
+    LIMIT 1
+  ) AS image_url
+`;
+
+async function lookupCardsById(game: ImportGame, ids: string[]): Promise<Map<string, CardRow>> {
+  const arr = textArray(ids);
+  const query =
+    game === "mtg"
+      ? sql`SELECT ${MTG_COLS} FROM public.scryfall_cards_raw c WHERE c.id::text = ANY(${arr})`
+      : game === "pokemon"
+        ? sql`SELECT ${POKEMON_COLS} FROM public.tcg_cards c WHERE c.id = ANY(${arr})`
+        : sql`SELECT ${YGO_COLS} FROM ygo_cards c WHERE c.card_id = ANY(${arr})`;
+
+  const res = await db.execute<CardRow>(query);
+  return new Map((res.rows ?? []).map((c) => [c.card_id, c]));
+}
+
+function nameQuery(game: ImportGame, names: string[]): SQL {
+  const arr = textArray(names);
+
+  if (game === "mtg") {
+    return sql`
+      SELECT * FROM (
+        SELECT ${MTG_COLS},
+          COUNT(*) OVER (PARTITION BY lower(c.name))::int AS printings,
+          row_number() OVER (PARTITION BY lower(c.name) ORDER BY c.released_at DESC NULLS LAST) AS rn
+        FROM public.scryfall_cards_raw c
+        WHERE lower(c.name) = ANY(${arr}) AND c.lang = 'en'
+      ) x
+      WHERE x.rn <= ${MAX_CANDIDATES}
+    `;
+  }
+
+  if (game === "pokemon") {
+    return sql`
+      SELECT * FROM (
+        SELECT ${POKEMON_COLS},
+          COUNT(*) OVER (PARTITION BY lower(c.name))::int AS printings,
+          row_number() OVER (PARTITION BY lower(c.name) ORDER BY c.release_date DESC NULLS LAST) AS rn
+        FROM public.tcg_cards c
+        WHERE lower(c.name) = ANY(${arr})
+      ) x
+      WHERE x.rn <= ${MAX_CANDIDATES}
+    `;
+  }
+
+  return sql`
+    SELECT ${YGO_COLS}, 1 AS printings
+    FROM ygo_cards c
+    WHERE lower(c.name) = ANY(${arr})
+  `;
+}
+
+/** "LOB-EN001" style Yu-Gi-Oh! print codes */
+const YGO_PRINT_CODE_RE = /^[A-Z0-9]{2,6}-[A-Z]{0,2}\d{1,4}[A-Z]?$/i;
+
+function ygoPrintCode(r: ImportRow): string | null {
+  if (r.number && YGO_PRINT_CODE_RE.test(r.number)) return r.number.toUpperCase();
+  if (r.setCode && YGO_PRINT_CODE_RE.test(r.setCode)) return r.setCode.toUpperCase();
+  return null;
+}
+
+function setNumberKey(code: string | null | undefined, number: string | null | undefined) {
+  return `${lc(code)}|${lc(number)}`;
+}
+
+type Resolution = Pick<ResolvedImportRow, "status" | "matchedBy" | "match" | "candidates">;
+
+const UNMATCHED: Resolution = { status: "unmatched", matchedBy: null, match: null, candidates: [] };
+
+function matched(card: CardRow, by: ImportMatchedBy): Resolution {
+  return { status: "matched", matchedBy: by, match: toCard(card), candidates: [] };
+}
+
+async function resolveByName(game: ImportGame, rows: ImportRow[], out: Map<number, Resolution>) {
+  const pending = rows.filter((r) => !out.has(r.line) && r.name);
+  if (!pending.length) return;
+
+  const res = await db.execute<NameRow>(nameQuery(game, uniq(pending.map((r) => lc(r.name)))));
+  const byName = groupByName(res.rows ?? []);
+
+  for (const r of pending) {
+    const g = byName.get(lc(r.name));
+    if (!g) continue;
+
+    // A set name on the row can narrow several printings down to one.
+    const inSet = r.setName ? g.cards.filter((c) => lc(c.set_name) === lc(r.setName)) : [];
+
+    if (g.total === 1) out.set(r.line, matched(g.cards[0], "name"));
+    else if (inSet.length === 1) out.set(r.line, matched(inSet[0], "name"));
+    else {
+      out.set(r.line, {
+        status: "ambiguous",
+        matchedBy: null,
+        match: null,
+        candidates: (inSet.length ? inSet : g.cards).map(toCard),
+      });
+    }
+  }
+}
+
+async function resolveMtg(rows: ImportRow[], out: Map<number, Resolution>) {
+  // 1) Scryfall IDs
+  const scryIds = uniq(rows.map((r) => lc(r.scryfallId)).filter(Boolean));
+  if (scryIds.length) {
+    const res = await db.execute<CardRow>(sql`
+      SELECT ${MTG_COLS}
+      FROM public.scryfall_cards_raw c
+      WHERE c.id::text = ANY(${textArray(scryIds)})
+    `);
+    const byId = new Map((res.rows ?? []).map((c) => [lc(c.card_id), c]));
+    for (const r of rows) {
+      const c = r.scryfallId ? byId.get(lc(r.scryfallId)) : undefined;
+      if (c) out.set(r.line, matched(c, "scryfall_id"));
+    }
+  }
+
+  // 2) TCGplayer product IDs (regular or etched)
+  const tcgIds = uniq(rows.filter((r) => !out.has(r.line) && r.tcgplayerId).map((r) => r.tcgplayerId as number));
+  if (tcgIds.length) {
+    const res = await db.execute<CardRow & { tcgplayer_id: number | null; tcgplayer_etched_id: number | null }>(sql`
+      SELECT ${MTG_COLS}, c.tcgplayer_id, c.tcgplayer_etched_id
+      FROM public.scryfall_cards_raw c
+      WHERE c.tcgplayer_id = ANY(${intArray(tcgIds)})
+         OR c.tcgplayer_etched_id = ANY(${intArray(tcgIds)})
+      ORDER BY (c.lang = 'en') DESC
+    `);
+    const byTcg = new Map<number, CardRow>();
+    for (const c of res.rows ?? []) {
+      for (const id of [c.tcgplayer_id, c.tcgplayer_etched_id]) {
+        if (id != null && !byTcg.has(Number(id))) byTcg.set(Number(id), c);
+      }
+    }
+    for (const r of rows) {
+      const c = !out.has(r.line) && r.tcgplayerId ? byTcg.get(r.tcgplayerId) : undefined;
+      if (c) out.set(r.line, matched(c, "tcgplayer_id"));
+    }
+  }
+
+  // 3) set code + collector number
+  const pairs = rows.filter((r) => !out.has(r.line) && r.setCode && r.number);
+  if (pairs.length) {
+    const keys = uniq(pairs.map((r) => setNumberKey(r.setCode, r.number)));
+    const values = sql.join(
+      keys.map((k) => {
+        const [code, num] = k.split("|");
+        return sql`(${code}, ${num})`;
+      }),
+      sql`, `,
+    );
+    const res = await db.execute<CardRow>(sql`
+      SELECT ${MTG_COLS}
+      FROM public.scryfall_cards_raw c
+      WHERE (lower(c.set_code), lower(c.collector_number)) IN (VALUES ${values})
+      ORDER BY (c.lang = 'en') DESC
+    `);
+    const byKey = new Map<string, CardRow>();
+    for (const c of res.rows ?? []) {
+      const k = setNumberKey(c.set_code, c.number);
+      if (!byKey.has(k)) byKey.set(k, c);
+    }
+    for (const r of pairs) {
+      const c = byKey.get(setNumberKey(r.setCode, r.number));
+      if (c) out.set(r.line, matched(c, "set_number"));
+    }
+  }
+
+  // 4) name (+ set name)
+  await resolveByName("mtg", rows, out);
+}
+
+async function resolvePokemon(rows: ImportRow[], out: Map<number, Resolution>) {
+  // 1) set (id / PTCGO code / name) + number
+  const withNumber = rows.filter((r) => r.number && (r.setCode || r.setName));
+  if (withNumber.length) {
+    const numbers = uniq(withNumber.map((r) => lc(r.number)));
+    const codes = uniq(withNumber.map((r) => lc(r.setCode)).filter(Boolean));
+    const setNames = uniq(withNumber.map((r) => lc(r.setName)).filter(Boolean));
+
+    const res = await db.execute<CardRow & { ptcgo_code: string | null }>(sql`
+      SELECT ${POKEMON_COLS}, c.ptcgo_code
+      FROM public.tcg_cards c
+      WHERE lower(c.number) = ANY(${textArray(numbers)})
+        AND (
+          ${codes.length ? sql`lower(c.set_id) = ANY(${textArray(codes)}) OR lower(c.ptcgo_code) = ANY(${textArray(codes)})` : sql`FALSE`}
+          OR ${setNames.length ? sql`lower(c.set_name) = ANY(${textArray(setNames)})` : sql`FALSE`}
+        )
+    `);
+    const cards = res.rows ?? [];
+
+    for (const r of withNumber) {
+      const hits = cards.filter(
+        (c) =>
+          lc(c.number) === lc(r.number) &&
+          ((r.setCode && (lc(c.set_code) === lc(r.setCode) || lc(c.ptcgo_code) === lc(r.setCode))) ||
+            (r.setName && lc(c.set_name) === lc(r.setName))),
+      );
+      if (hits.length === 1) out.set(r.line, matched(hits[0], "set_number"));
+      else if (hits.length > 1) {
+        out.set(r.line, { status: "ambiguous", matchedBy: null, match: null, candidates: hits.map(toCard) });
+      }
+    }
+  }
+
+  // 2) name (+ set name)
+  await resolveByName("pokemon", rows, out);
+}
+
+async function resolveYugioh(rows: ImportRow[], out: Map<number, Resolution>) {
+  // 1) print code, e.g. LOB-EN001
+  const codes = uniq(rows.map(ygoPrintCode).filter((c): c is string => !!c));
+  if (codes.length) {
+    const res = await db.execute<CardRow & { print_code: string }>(sql`
+      SELECT DISTINCT ON (upper(s.set_code))
+        ${YGO_COLS},
+        upper(s.set_code) AS print_code
+      FROM ygo_card_sets s
+      JOIN ygo_cards c ON c.card_id = s.card_id
+      WHERE upper(s.set_code) = ANY(${textArray(codes)})
+      ORDER BY upper(s.set_code)
+    `);
+    const byCode = new Map((res.rows ?? []).map((c) => [c.print_code, c]));
+    for (const r of rows) {
+      const code = ygoPrintCode(r);
+      const c = code ? byCode.get(code) : undefined;
+      if (c) out.set(r.line, matched({ ...c, number: code }, "set_number"));
+    }
+  }
+
+  // 2) name (card names are unique on Yu-Gi-Oh!)
+  await resolveByName("yugioh", rows, out);
+}
+
+/* ========== Public: resolve ========== */
+
+/**
+ * Matches parsed CSV rows against our catalogs. Rows keep their own game
+ * (e.g. TCGplayer "Product Line") and fall back to `defaultGame`.
+ * Lookups are batched per game so a few thousand rows is a handful of queries.
+ */
+export async function resolveImportRows(rows: ImportRow[], defaultGame: ImportGame): Promise<ResolvedImportRow[]> {
+  const byGame = new Map<ImportGame, ImportRow[]>();
+  for (const r of rows) {
+    const g = r.game ?? defaultGame;
+    byGame.set(g, [...(byGame.get(g) ?? []), r]);
+  }
+
+  const out = new Map<number, Resolution>();
+
+  for (const [game, list] of byGame) {
+    // Rows from our own JSON backup already carry the card id.
+    const withId = list.filter((r) => r.cardId);
+    if (withId.length) {
+      const cards = await lookupCardsById(game, uniq(withId.map((r) => r.cardId as string)));
+      for (const r of withId) {
+        const c = cards.get(r.cardId as string);
+        if (c) out.set(r.line, matched(c, "card_id"));
+      }
+    }
+
+    if (game === "mtg") await resolveMtg(list, out);
+    else if (game === "pokemon") await resolvePokemon(list, out);
+    else await resolveYugioh(list, out);
+  }
+
+  return rows.map((r) => ({ ...r, game: r.game ?? defaultGame, ...(out.get(r.line) ?? UNMATCHED) }));
+}
+
+/* ========== Public: commit ========== */
+
+function s(v: unknown) {
+  return String(v ?? "").trim();
+}
+
+export function validateImportCommit(body: any): { items: ImportCommitItem[] } {
+  const list = Array.isArray(body?.items) ? body.items : null;
+  if (!list || !list.length) {
+    throw new ImportError("Nothing to import. Pick at least one matched row.", "empty_import");
+  }
+
+  const defaultFolder = s(body?.folder).slice(0, 100) || DEFAULT_FOLDER;
+
+  const items: ImportCommitItem[] = list.map((it: any, i: number) => {
+    const line = Number.isInteger(Number(it?.line)) ? Number(it.line) : null;
+    const where = line ? `Row ${line}` : `Item ${i + 1}`;
+
+    const game = normalizeImportGame(it?.game);
+    const cardId = s(it?.cardId);
+    if (!game || !cardId) throw new ImportError(`${where}: game and cardId are required.`, "missing_card");
+
+    const quantity = Number(it?.quantity ?? 1);
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new ImportError(`${where}: quantity must be a whole number of at least 1.`, "invalid_quantity");
+    }
+
+    const cost = it?.costCents == null || it.costCents === "" ? null : Number(it.costCents);
+    if (cost != null && (!Number.isFinite(cost) || cost < 0)) {
+      throw new ImportError(`${where}: costCents must be a non-negative number.`, "invalid_amount");
+    }
+
+    const purchaseDate = s(it?.purchaseDate) || null;
+    if (purchaseDate && (!DATE_RE.test(purchaseDate) || Number.isNaN(Date.parse(purchaseDate)))) {
+      throw new ImportError(`${where}: purchaseDate must be a YYYY-MM-DD date.`, "invalid_date");
+    }
+
+    const gradingCompany = s(it?.gradingCompany).toUpperCase().slice(0, 20);
+    const gradeLabel = s(it?.gradeLabel).slice(0, 40);
+
+    return {
+      line,
+      game,
+      cardId,
+      quantity,
+      variant: normalizeVariant(it?.variant, game),
+      condition: parseSlabGrade(gradingCompany, gradeLabel) ? null : normalizeCondition(it?.condition),
+      gradingCompany,
+      gradeLabel,
+      certNumber: s(it?.certNumber).slice(0, 60),
+      costCents: cost == null ? null : Math.round(cost),
+      purchaseDate,
+      folder: s(it?.folder).slice(0, 100) || defaultFolder,
+    };
+  });
+
+  return { items };
+}
+
+/** Same identity the add route uses (card + variant + condition + grading + folder). */
+function identityKey(it: ImportCommitItem) {
+  return [
+    it.game,
+    it.cardId,
+    it.variant,
+    it.condition ?? "",
+    it.gradingCompany,
+    it.gradeLabel,
+    it.certNumber,
+    it.folder,
+  ].join("\u0000");
+}
+
+/** Per-copy cost of two lots combined, weighted by quantity. */
+function blendCost(aCents: number | null, aQty: number, bCents: number | null, bQty: number): number | null {
+  if (aCents == null) return bCents;
+  if (bCents == null) return aCents;
+  return Math.round((aCents * aQty + bCents * bQty) / (aQty + bQty));
+}
+
+/**
+ * Writes reviewed import rows into user_collection_items in one transaction.
+ * Plan limits (items by quantity, plus any new folders) are checked for the
+ * whole batch first, so an import either fits entirely or is rejected.
+ */
+export async function commitCollectionImport(
+  userId: string,
+  input: { items: ImportCommitItem[] },
+): Promise<ImportCommitResult> {
+  // Merge duplicate rows (same card/variant/folder) before touching the DB.
+  const merged = new Map<string, ImportCommitItem>();
+  for (const it of input.items) {
+    const k = identityKey(it);
+    const prev = merged.get(k);
+    if (!prev) {
+      merged.set(k, { ...it });
+      continue;
+    }
+    prev.costCents = blendCost(prev.costCents, prev.quantity, it.costCents, it.quantity);
+    prev.quantity += it.quantity;
+    if (it.purchaseDate && (!prev.purchaseDate || it.purchaseDate < prev.purchaseDate)) {
+      prev.purchaseDate = it.purchaseDate;
+    }
+  }
+  const items = [...merged.values()];
+
+  // Only write cards that exist in our catalogs.
+  const cards = new Map<string, CardRow>();
+  for (const game of uniq(items.map((it) => it.game))) {
+    const ids = uniq(items.filter((it) => it.game === game).map((it) => it.cardId));
+    for (const [id, c] of await lookupCardsById(game, ids)) cards.set(`${game}:${id}`, c);
+  }
+
+  const unknown = input.items.filter((it) => !cards.has(`${it.game}:${it.cardId}`));
+  if (unknown.length) {
+    throw new ImportError(
+      `${unknown.length} row${unknown.length === 1 ? "" : "s"} point at cards we couldn't find. Re-run the preview and pick a match.`,
+      "unknown_cards",
+      400,
+      { lines: unknown.map((it) => it.line).filter((l) => l != null) },
+    );
+  }
+
+  const totalQty = items.reduce((n, it) => n + it.quantity, 0);
+  await ensureCanAddItem(userId, totalQty);
+
+  const folderRes = await db.execute<{ folder: string }>(sql`
+    SELECT DISTINCT COALESCE(folder, '__default__') AS folder
+    FROM public.user_collection_items
+    WHERE user_id = ${userId}
+  `);
+  const existingFolders = new Set((folderRes.rows ?? []).map((r) => r.folder));
+  const folders = uniq(items.map((it) => it.folder));
+  const newFolders = folders.filter((f) => !existingFolders.has(f));
+  if (newFolders.length) await ensureCanAddCollection(userId, newFolders.length);
+
+  const result = await db.transaction(async (tx) => {
+    let inserted = 0;
+    let updated = 0;
+
+    for (const it of items) {
+      const card = cards.get(`${it.game}:${it.cardId}`)!;
+
+      const existingRes = await tx.execute<{ id: string; quantity: number; cost_cents: number | null }>(sql`
+        SELECT id, quantity, cost_cents
+        FROM public.user_collection_items
+        WHERE user_id = ${userId}
+          AND game = ${it.game}
+          AND card_id = ${it.cardId}
+          AND variant_type = ${it.variant}
+          AND COALESCE(condition,'') = ${it.condition ?? ""}
+          AND COALESCE(grading_company,'') = ${it.gradingCompany}
+          AND COALESCE(grade_label,'') = ${it.gradeLabel}
+          AND COALESCE(cert_number,'') = ${it.certNumber}
+          AND COALESCE(folder,'__default__') = ${it.folder}
+        LIMIT 1
+        FOR UPDATE
+      `);
+      const existing = existingRes.rows?.[0];
+
+      if (existing) {
+        await tx.execute(sql`
+          UPDATE public.user_collection_items
+          SET
+            quantity = quantity + ${it.quantity},
+            cost_cents = ${blendCost(existing.cost_cents, Number(existing.quantity ?? 0), it.costCents, it.quantity)},
+            purchase_date = COALESCE(purchase_date, ${it.purchaseDate}::date),
+            updated_at = NOW()
+          WHERE id = ${existing.id}
+        `);
+        updated += 1;
+        continue;
+      }
+
+      await tx.execute(sql`
+        INSERT INTO public.user_collection_items (
+          user_id,
+          game,
+          card_id,
+          card_name,
+          set_name,
+          image_url,
+          variant_type,
+          condition,
+          grading_company,
+          grade_label,
+          cert_number,
+          purchase_date,
+          quantity,
+          folder,
+          cost_cents,
+          last_value_cents,
+          updated_at
+        )
+        VALUES (
+          ${userId},
+          ${it.game},
+          ${it.cardId},
+          ${card.name},
+          ${card.set_name},
+          ${card.image_url},
+          ${it.variant},
+          ${it.condition},
+          ${it.gradingCompany},
+          ${it.gradeLabel},
+          ${it.certNumber},
+          ${it.purchaseDate}::date,
+          ${it.quantity},
+          ${it.folder},
+          ${it.costCents},
+          0,
+          NOW()
+        )
+      `);
+      inserted += 1;
+    }
+
+    return { inserted, updated };
+  });
+
+  // Prices are filled in by the revalue worker rather than per row here.
+  await enqueueRevalueJob(userId);
+
+  return { ...result, quantity: totalQty, folders };
+}
@@ -114,7 +114,7 @@ export async function getCollectionCounts(userId: string): Promise<CollectionCou
 
 /* ========== Helper messages ========== */
 
-function buildCollectionLimitMessage(plan: Plan, counts: CollectionCounts): string {
+function buildCollectionLimitMessage(plan: Plan, counts: CollectionCounts, adding = 1): string {
   const caps = planCapabilities(plan);
 
   if (caps.maxCollections == null) {
@@ -123,10 +123,12 @@ function buildCollectionLimitMessage(plan: Plan, counts: CollectionCounts): stri
 
   return `Your current plan (${plan.name}) allows up to ${caps.maxCollections} collection${
     caps.maxCollections === 1 ? "" : "s"
-  }. You already have ${counts.collections}. Upgrade your plan to create more collections.`;
+  }. You already have ${counts.collections}${
+    adding > 1 ? ` and this would add ${adding} more` : ""
+  }. Upgrade your plan to create more collections.`;
 }
 
-function buildItemLimitMessage(plan: Plan, counts: CollectionCounts): string {
+function buildItemLimitMessage(plan: Plan, counts: CollectionCounts, adding = 1): string {
   const caps = planCapabilities(plan);
 
   if (caps.maxItemsTotal == null) {
@@ -135,14 +137,17 @@ function buildItemLimitMessage(plan: Plan, counts: CollectionCounts): string {
 
   return `Your current plan (${plan.name}) allows up to ${caps.maxItemsTotal?.toLocaleString(
     "en-US",
-  )} items. You already have ${counts.items.toLocaleString(
-    "en-US",
-  )} items recorded. Upgrade your plan to track additional items.`;
+  )} items. You already have ${counts.items.toLocaleString("en-US")} items recorded${
+    adding > 1 ? ` and this would add ${adding.toLocaleString("en-US")} more` : ""
+  }. Upgrade your plan to track additional items.`;
 }
 
 /* ========== Public guard helpers ========== */
-
-export async function ensureCanAddCollection(userId: string): Promise<void> {
+/**
+ * `count` lets bulk paths (e.g. CSV import) check the whole batch up front:
+ * adding `count` more must still fit under the plan cap.
+ */
+export async function ensureCanAddCollection(userId: string, count = 1): Promise<void> {
   if (!userId) {
     throw new CollectionLimitError("You must be signed in to create collections.");
   }
@@ -152,20 +157,21 @@ export async function ensureCanAddCollection(userId: string): Promise<void> {
     getCollectionCounts(userId),
   ]);
 
-  if (!canAddCollection(plan, counts.collections)) {
+  if (!canAddCollection(plan, counts.collections + Math.max(1, count) - 1)) {
     const caps = planCapabilities(plan);
     throw new CollectionLimitError(
-      buildCollectionLimitMessage(plan, counts),
+      buildCollectionLimitMessage(plan, counts, count),
       {
         planId: plan.id,
         maxCollections: caps.maxCollections,
         currentCollections: counts.collections,
+        adding: count,
       },
     );
   }
 }
 
-export async function ensureCanAddItem(userId: string): Promise<void> {
+export async function ensureCanAddItem(userId: string, count = 1): Promise<void> {
   if (!userId) {
     throw new ItemLimitError("You must be signed in to add items.");
   }
@@ -175,14 +181,15 @@ export async function ensureCanAddItem(userId: string): Promise<void> {
     getCollectionCounts(userId),
   ]);
 
-  if (!canAddItem(plan, counts.items)) {
+  if (!canAddItem(plan, counts.items + Math.max(1, count) - 1)) {
     const caps = planCapabilities(plan);
     throw new ItemLimitError(
-      buildItemLimitMessage(plan, counts),
+      buildItemLimitMessage(plan, counts, count),
       {
         planId: plan.id,
         maxItems: caps.maxItemsTotal,
         currentItems: counts.items,
+        adding: count,
       },
     );
   }
@@ -0,0 +1,159 @@
+// src/lib/collections/lots.ts
+//
+// Sell-side lot matching for collection sales/disposals.
+//
+// An acquisition lot is one user_collection_items row: `quantity` copies at
+// `cost_cents` each (per-copy basis), acquired on `purchase_date` (falling back
+// to created_at). Matching only decides which lots a sale draws from and
+// the cost basis that leaves; ./sales.ts writes the result.
+
+export type LotMethod = "fifo" | "lifo" | "specific";
+
+export const LOT_METHODS: LotMethod[] = ["fifo", "lifo", "specific"];
+
+export type HoldingTerm = "short" | "long";
+
+export type AcquisitionLot = {
+  itemId: string;
+  quantity: number;
+  costEachCents: number;
+  /** YYYY-MM-DD */
+  acquiredAt: string;
+};
+
+export type LotAllocation = {
+  itemId: string;
+  quantity: number;
+  costEachCents: number;
+  acquiredAt: string;
+};
+
+export type AllocateResult =
+  | { ok: true; allocations: LotAllocation[] }
+  | { ok: false; error: string; message: string };
+
+export function normalizeLotMethod(raw: unknown): LotMethod | null {
+  const v = String(raw ?? "").trim().toLowerCase();
+  if (v === "fifo" || v === "lifo") return v;
+  if (v === "specific" || v === "specific_id" || v === "specific-id") return "specific";
+  return null;
+}
+
+/**
+ * Picks which lots a sale of `quantity` copies comes out of.
+ * - fifo: oldest acquisition first
+ * - lifo: newest acquisition first
+ * - specific: exactly the `picks` given ({ itemId, quantity })
+ */
+export function allocateLots(
+  lots: AcquisitionLot[],
+  quantity: number,
+  method: LotMethod,
+  picks: { itemId: string; quantity: number }[] = [],
+): AllocateResult {
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    return { ok: false, error: "invalid_quantity", message: "Quantity must be a whole number of at least 1." };
+  }
+
+  const available = lots.reduce((acc, l) => acc + Math.max(0, l.quantity), 0);
+  if (quantity > available) {
+    return {
+      ok: false,
+      error: "insufficient_quantity",
+      message: `You only have ${available} ${available === 1 ? "copy" : "copies"} to sell.`,
+    };
+  }
+
+  if (method === "specific") {
+    const byId = new Map(lots.map((l) => [l.itemId, l]));
+    const used = new Map<string, number>();
+    const allocations: LotAllocation[] = [];
+
+    for (const p of picks) {
+      const lot = byId.get(p.itemId);
+      if (!lot) {
+        return { ok: false, error: "unknown_lot", message: `Lot ${p.itemId} is not in your collection.` };
+      }
+      if (!Number.isInteger(p.quantity) || p.quantity < 1) {
+        return { ok: false, error: "invalid_quantity", message: "Each lot quantity must be at least 1." };
+      }
+      const total = (used.get(p.itemId) ?? 0) + p.quantity;
+      if (total > lot.quantity) {
+        return {
+          ok: false,
+          error: "insufficient_quantity",
+          message: `Lot ${p.itemId} only has ${lot.quantity} ${lot.quantity === 1 ? "copy" : "copies"}.`,
+        };
+      }
+      used.set(p.itemId, total);
+      allocations.push({
+        itemId: lot.itemId,
+        quantity: p.quantity,
+        costEachCents: lot.costEachCents,
+        acquiredAt: lot.acquiredAt,
+      });
+    }
+
+    const picked = allocations.reduce((acc, a) => acc + a.quantity, 0);
+    if (picked !== quantity) {
+      return {
+        ok: false,
+        error: "lot_mismatch",
+        message: `Selected lots add up to ${picked}, but the sale is for ${quantity}.`,
+      };
+    }
+    return { ok: true, allocations };
+  }
+
+  // Ties (same date) fall back to itemId so results are stable.
+  const ordered = [...lots]
+    .filter((l) => l.quantity > 0)
+    .sort((a, b) => a.acquiredAt.localeCompare(b.acquiredAt) || a.itemId.localeCompare(b.itemId));
+  if (method === "lifo") ordered.reverse();
+
+  const allocations: LotAllocation[] = [];
+  let remaining = quantity;
+  for (const lot of ordered) {
+    if (remaining <= 0) break;
+    const take = Math.min(lot.quantity, remaining);
+    allocations.push({ itemId: lot.itemId, quantity: take, costEachCents: lot.costEachCents, acquiredAt: lot.acquiredAt });
+    remaining -= take;
+  }
+
+  return { ok: true, allocations };
+}
+
+/**
+ * Long-term = held MORE than one year (US rule): sold after the one-year
+ * anniversary of the acquisition date. Dates are YYYY-MM-DD.
+ */
+export function holdingTerm(acquiredAt: string, soldAt: string): HoldingTerm {
+  const [y, m, d] = acquiredAt.split("-").map(Number);
+  if (!y || !m || !d) return "short";
+  const anniversary = `${String(y + 1).padStart(4, "0")}-${String(m).padStart(2, "0")}-${String(d).padStart(2, "0")}`;
+  return soldAt > anniversary ? "long" : "short";
+}
+
+/**
+ * Splits a cents amount across parts proportionally to `weights`
+ * (largest-remainder, so the parts always sum back to `total`).
+ */
+export function splitCents(total: number, weights: number[]): number[] {
+  const sum = weights.reduce((a, w) => a + w, 0);
+  if (!weights.length) return [];
+  if (sum <= 0) return weights.map((_, i) => (i === 0 ? total : 0));
+
+  const raw = weights.map((w) => (total * w) / sum);
+  const parts = raw.map((r) => Math.floor(r));
+  let left = total - parts.reduce((a, p) => a + p, 0);
+
+  const order = raw
+    .map((r, i) => ({ i, frac: r - Math.floor(r) }))
+    .sort((a, b) => b.frac - a.frac || a.i - b.i);
+  for (const o of order) {
+    if (left <= 0) break;
+    parts[o.i] += 1;
+    left -= 1;
+  }
+  return parts;
+}
@@ -0,0 +1,34 @@
+// src/lib/collections/revalueQueue.ts
+import "server-only";
+
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+
+async function ensureRevalueActiveIndexExists() {
+  // Partial unique index (NOT a constraint). Safe to run repeatedly.
+  await db.execute(sql`
+    CREATE UNIQUE INDEX IF NOT EXISTS ux_user_revalue_jobs_active_user
+    ON public.user_revalue_jobs (user_id)
+    WHERE status IN ('queued', 'running')
+  `);
+}
+
+/**
+ * Enqueue a per-user revalue job (deduped by the partial unique index).
+ * IMPORTANT: use ON CONFLICT DO NOTHING (not ON CONSTRAINT),
+ * because partial indexes cannot be referenced as constraints.
+ */
+export async function enqueueRevalueJob(userId: string) {
+  try {
+    await ensureRevalueActiveIndexExists();
+
+    await db.execute(sql`
+      INSERT INTO public.user_revalue_jobs (user_id, status)
+      VALUES (${userId}, 'queued')
+      ON CONFLICT DO NOTHING
+    `);
+  } catch (err) {
+    // Never block the caller if queue insert fails
+    console.warn("enqueueRevalueJob failed (continuing)", err);
+  }
+}
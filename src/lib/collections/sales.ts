@@ -0,0 +1,376 @@
+// src/lib/collections/sales.ts
+import "server-only";
+
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+  allocateLots,
+  holdingTerm,
+  normalizeLotMethod,
+  splitCents,
+  type AcquisitionLot,
+  type HoldingTerm,
+  type LotMethod,
+} from "@/lib/collections/lots";
+
+/* ========== Typed Errors ========== */
+
+export class SaleError extends Error {
+  code: string;
+  status: number;
+
+  constructor(message: string, code: string, status = 400) {
+    super(message);
+    this.name = "SaleError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/* ========== Types ========== */
+
+export type SaleKind = "sale" | "disposal";
+
+export type SaleInput = {
+  kind: SaleKind;
+  game: string;
+  cardId: string;
+  quantity: number;
+  /** YYYY-MM-DD */
+  soldAt: string;
+  grossProceedsCents: number;
+  feesCents: number;
+  shippingCents: number;
+  method: LotMethod;
+  /** only for method = "specific" */
+  lots: { itemId: string; quantity: number }[];
+  note: string | null;
+};
+
+export type RecordedSale = {
+  saleId: string;
+  allocations: {
+    itemId: string;
+    quantity: number;
+    acquiredAt: string;
+    costBasisCents: number;
+    proceedsCents: number;
+    expensesCents: number;
+  }[];
+};
+
+export type RealizedLotRow = {
+  sale_id: string;
+  kind: SaleKind;
+  game: string;
+  card_id: string;
+  card_name: string | null;
+  item_id: string;
+  quantity: number;
+  acquired_at: string;
+  sold_at: string;
+  proceeds_cents: number;
+  expenses_cents: number;
+  cost_basis_cents: number;
+  gain_cents: number;
+  term: HoldingTerm;
+  lot_method: LotMethod;
+};
+
+export type RealizedTotals = {
+  proceedsCents: number;
+  expensesCents: number;
+  costBasisCents: number;
+  gainCents: number;
+};
+
+export type RealizedGainReport = {
+  rows: RealizedLotRow[];
+  shortTerm: RealizedTotals;
+  longTerm: RealizedTotals;
+  total: RealizedTotals;
+};
+
+/* ========== Validation ========== */
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function s(v: unknown) {
+  return String(v ?? "").trim();
+}
+
+function toCents(v: unknown, field: string): number {
+  if (v == null || v === "") return 0;
+  const n = Number(v);
+  if (!Number.isFinite(n) || n < 0) {
+    throw new SaleError(`${field} must be a non-negative number of cents.`, "invalid_amount");
+  }
+  return Math.round(n);
+}
+
+export function validateSaleInput(body: any): SaleInput {
+  const kind = s(body?.kind || "sale").toLowerCase();
+  if (kind !== "sale" && kind !== "disposal") {
+    throw new SaleError("kind must be 'sale' or 'disposal'.", "invalid_kind");
+  }
+
+  const game = s(body?.game).toLowerCase();
+  const cardId = s(body?.cardId ?? body?.card_id);
+  if (!game || !cardId) throw new SaleError("game and cardId are required.", "missing_card");
+
+  const quantity = Number(body?.quantity ?? 1);
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new SaleError("quantity must be a whole number of at least 1.", "invalid_quantity");
+  }
+
+  const soldAt = s(body?.soldAt ?? body?.sold_at) || new Date().toISOString().slice(0, 10);
+  if (!DATE_RE.test(soldAt) || Number.isNaN(Date.parse(soldAt))) {
+    throw new SaleError("soldAt must be a YYYY-MM-DD date.", "invalid_date");
+  }
+  if (soldAt > new Date().toISOString().slice(0, 10)) {
+    throw new SaleError("soldAt can't be in the future.", "invalid_date");
+  }
+
+  const method = normalizeLotMethod(body?.method ?? "fifo");
+  if (!method) throw new SaleError("method must be fifo, lifo or specific.", "invalid_method");
+
+  const lots = Array.isArray(body?.lots)
+    ? body.lots.map((l: any) => ({ itemId: s(l?.itemId ?? l?.item_id), quantity: Number(l?.quantity) }))
+    : [];
+  if (method === "specific" && !lots.length) {
+    throw new SaleError("Pick at least one lot for a specific-ID sale.", "missing_lots");
+  }
+
+  // Disposals (gifts, losses) have no proceeds; fees can still apply (e.g. shipping a gift).
+  const grossProceedsCents = kind === "disposal" ? 0 : toCents(body?.grossProceedsCents, "grossProceedsCents");
+
+  return {
+    kind,
+    game,
+    cardId,
+    quantity,
+    soldAt,
+    grossProceedsCents,
+    feesCents: toCents(body?.feesCents, "feesCents"),
+    shippingCents: toCents(body?.shippingCents, "shippingCents"),
+    method,
+    lots,
+    note: s(body?.note).slice(0, 500) || null,
+  };
+}
+
+/* ========== Recording ========== */
+
+/**
+ * Records a sale/disposal, matches it to acquisition lots and removes the sold
+ * copies from the collection (rows that hit 0 are deleted) in one transaction.
+ */
+export async function recordCollectionSale(userId: string, input: SaleInput): Promise<RecordedSale> {
+  return db.transaction(async (tx) => {
+    const lotRes = await tx.execute<{
+      id: string;
+      quantity: number;
+      cost_cents: number | null;
+      acquired_at: string;
+      card_name: string | null;
+      set_name: string | null;
+    }>(sql`
+      SELECT
+        id::text AS id,
+        quantity,
+        cost_cents,
+        COALESCE(purchase_date, created_at::date)::text AS acquired_at,
+        card_name,
+        set_name
+      FROM user_collection_items
+      WHERE user_id = ${userId}
+        AND lower(game) = ${input.game}
+        AND card_id = ${input.cardId}
+      FOR UPDATE
+    `);
+
+    const rows = lotRes.rows ?? [];
+    if (!rows.length) {
+      throw new SaleError("That card isn't in your collection.", "not_found", 404);
+    }
+
+    const lots: AcquisitionLot[] = rows.map((r) => ({
+      itemId: r.id,
+      quantity: Number(r.quantity ?? 0),
+      costEachCents: Number(r.cost_cents ?? 0),
+      acquiredAt: r.acquired_at,
+    }));
+
+    const allocated = allocateLots(lots, input.quantity, input.method, input.lots);
+    if (!allocated.ok) {
+      throw new SaleError(allocated.message, allocated.error, 409);
+    }
+
+    const early = allocated.allocations.find((a) => a.acquiredAt > input.soldAt);
+    if (early) {
+      throw new SaleError(
+        `Sale date ${input.soldAt} is before lot ${early.itemId} was acquired (${early.acquiredAt}).`,
+        "invalid_date",
+      );
+    }
+
+    const weights = allocated.allocations.map((a) => a.quantity);
+    const proceeds = splitCents(input.grossProceedsCents, weights);
+    const expenses = splitCents(input.feesCents + input.shippingCents, weights);
+
+    const saleRes = await tx.execute<{ id: string }>(sql`
+      INSERT INTO user_collection_sales (
+        user_id, kind, game, card_id, card_name, set_name, quantity, sold_at,
+        gross_proceeds_cents, fees_cents, shipping_cents, lot_method, note
+      )
+      VALUES (
+        ${userId}, ${input.kind}, ${input.game}, ${input.cardId}, ${rows[0].card_name},
+        ${rows.find((r) => r.set_name)?.set_name ?? null},
+        ${input.quantity}, ${input.soldAt}::date,
+        ${input.grossProceedsCents}, ${input.feesCents}, ${input.shippingCents},
+        ${input.method}, ${input.note}
+      )
+      RETURNING id::text AS id
+    `);
+    const saleId = saleRes.rows[0].id;
+
+    const out: RecordedSale["allocations"] = [];
+
+    for (const [i, a] of allocated.allocations.entries()) {
+      await tx.execute(sql`
+        INSERT INTO user_collection_sale_lots (
+          sale_id, item_id, quantity, cost_each_cents, acquired_at, proceeds_cents, expenses_cents
+        )
+        VALUES (
+          ${saleId}::uuid, ${a.itemId}::uuid, ${a.quantity}, ${a.costEachCents},
+          ${a.acquiredAt}::date, ${proceeds[i]}, ${expenses[i]}
+        )
+      `);
+
+      await tx.execute(sql`
+        UPDATE user_collection_items
+        SET quantity = quantity - ${a.quantity}, updated_at = now()
+        WHERE id = ${a.itemId}::uuid AND user_id = ${userId}
+      `);
+
+      out.push({
+        itemId: a.itemId,
+        quantity: a.quantity,
+        acquiredAt: a.acquiredAt,
+        costBasisCents: a.costEachCents * a.quantity,
+        proceedsCents: proceeds[i],
+        expensesCents: expenses[i],
+      });
+    }
+
+    await tx.execute(sql`
+      DELETE FROM user_collection_items
+      WHERE user_id = ${userId}
+        AND lower(game) = ${input.game}
+        AND card_id = ${input.cardId}
+        AND quantity <= 0
+    `);
+
+    return { saleId, allocations: out };
+  });
+}
+
+/* ========== Reporting ========== */
+
+function emptyTotals(): RealizedTotals {
+  return { proceedsCents: 0, expensesCents: 0, costBasisCents: 0, gainCents: 0 };
+}
+
+function addTo(t: RealizedTotals, r: RealizedLotRow) {
+  t.proceedsCents += r.proceeds_cents;
+  t.expensesCents += r.expenses_cents;
+  t.costBasisCents += r.cost_basis_cents;
+  t.gainCents += r.gain_cents;
+}
+
+/**
+ * Realized gains per matched lot, split short-term vs long-term.
+ * gain = proceeds - (fees + shipping) - cost basis
+ */
+export async function getRealizedGainReport(
+  userId: string,
+  opts: { year?: number | null; game?: string | null } = {},
+): Promise<RealizedGainReport> {
+  const res = await db.execute<{
+    sale_id: string;
+    kind: SaleKind;
+    game: string;
+    card_id: string;
+    card_name: string | null;
+    item_id: string;
+    quantity: number;
+    acquired_at: string;
+    sold_at: string;
+    proceeds_cents: number;
+    expenses_cents: number;
+    cost_each_cents: number;
+    lot_method: LotMethod;
+  }>(sql`
+    SELECT
+      s.id::text AS sale_id,
+      s.kind,
+      s.game,
+      s.card_id,
+      s.card_name,
+      l.item_id::text AS item_id,
+      l.quantity,
+      l.acquired_at::text AS acquired_at,
+      s.sold_at::text AS sold_at,
+      l.proceeds_cents,
+      l.expenses_cents,
+      l.cost_each_cents,
+      s.lot_method
+    FROM user_collection_sales s
+    JOIN user_collection_sale_lots l ON l.sale_id = s.id
+    WHERE s.user_id = ${userId}
+    ${opts.year ? sql`AND EXTRACT(YEAR FROM s.sold_at) = ${opts.year}` : sql``}
+    ${opts.game ? sql`AND lower(s.game) = ${opts.game}` : sql``}
+    ORDER BY s.sold_at ASC, s.created_at ASC, l.acquired_at ASC
+  `);
+
+  const report: RealizedGainReport = {
+    rows: [],
+    shortTerm: emptyTotals(),
+    longTerm: emptyTotals(),
+    total: emptyTotals(),
+  };
+
+  for (const r of res.rows ?? []) {
+    const qty = Number(r.quantity);
+    const costBasis = Number(r.cost_each_cents) * qty;
+    const proceeds = Number(r.proceeds_cents);
+    const expenses = Number(r.expenses_cents);
+
+    const row: RealizedLotRow = {
+      sale_id: r.sale_id,
+      kind: r.kind,
+      game: r.game,
+      card_id: r.card_id,
+      card_name: r.card_name,
+      item_id: r.item_id,
+      quantity: qty,
+      acquired_at: r.acquired_at,
+      sold_at: r.sold_at,
+      proceeds_cents: proceeds,
+      expenses_cents: expenses,
+      cost_basis_cents: costBasis,
+      gain_cents: proceeds - expenses - costBasis,
+      term: holdingTerm(r.acquired_at, r.sold_at),
+      lot_method: r.lot_method,
+    };
+
+    report.rows.push(row);
+    addTo(row.term === "long" ? report.longTerm : report.shortTerm, row);
+    addTo(report.total, row);
+  }
+
+  // Short-term first, like Form 8949 Part I / Part II.
+  report.rows.sort((a, b) => (a.term === b.term ? 0 : a.term === "short" ? -1 : 1));
+
+  return report;
+}
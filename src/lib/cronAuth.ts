@@ -0,0 +1,56 @@
+// src/lib/cronAuth.ts
+import "server-only";
+
+import { NextResponse } from "next/server";
+
+/**
+ * Cron routes are called by the scheduler (and scripts/run-daily.sh) with
+ * `x-cron-secret: $CRON_SECRET`; JOB_SECRET is still accepted from older
+ * setups. runCronJob() checks the secret, runs the job and reports its
+ * summary with how long it took.
+ */
+
+function norm(v: unknown) {
+  return String(v ?? "").trim();
+}
+
+export function isCronAuthorized(req: Request): boolean {
+  const headerSecret = norm(req.headers.get("x-cron-secret"));
+  const envSecret = norm(process.env.CRON_SECRET || process.env.JOB_SECRET);
+  return Boolean(envSecret) && headerSecret === envSecret;
+}
+
+/** ?limit=, floored and capped at `max`; missing or below 1 uses `fallback`. */
+export function cronLimit(req: Request, fallback: number, max = 1000): number {
+  const n = Number(new URL(req.url).searchParams.get("limit") ?? "");
+  if (!Number.isFinite(n)) return fallback;
+  const m = Math.floor(n);
+  if (m < 1) return fallback;
+  return Math.min(m, max);
+}
+
+/**
+ * 401 without the secret; otherwise `{ ok: true, ...summary, ms }`, or a
+ * 500 `run_failed` with the error message if the job throws.
+ */
+export async function runCronJob(
+  req: Request,
+  name: string,
+  job: () => Promise<Record<string, unknown>>,
+): Promise<NextResponse> {
+  if (!isCronAuthorized(req)) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+
+  const startedAt = Date.now();
+  try {
+    const summary = await job();
+    return NextResponse.json({ ok: true, ...summary, ms: Date.now() - startedAt });
+  } catch (e: any) {
+    console.error(`[/api/cron/${name}] error:`, e);
+    return NextResponse.json(
+      { ok: false, error: "run_failed", message: e?.message || String(e) },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,41 @@
+// src/lib/db/schema/adminUsers.ts
+import { pgTable, uuid, text, jsonb, timestamp, index } from "drizzle-orm/pg-core";
+
+/* ------------------------------------------------------------------ */
+/* Staff roles + admin audit trail                                     */
+/* ------------------------------------------------------------------ */
+
+/** Clerk users with admin access; role is one of ADMIN_ROLES. */
+export const adminUsers = pgTable("admin_users", {
+  userId: text("user_id").primaryKey(),
+  email: text("email"),
+  role: text("role").notNull(), // owner | manager | fulfillment | listing_writer
+  addedBy: text("added_by"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+/** One row per admin change; changes holds { field: { from, to } }. */
+export const adminAuditLog = pgTable(
+  "admin_audit_log",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: text("user_id").notNull(),
+    email: text("email"),
+    role: text("role").notNull(),
+    action: text("action").notNull(),
+    entityType: text("entity_type").notNull(),
+    entityId: text("entity_id"),
+    changes: jsonb("changes").$type<Record<string, { from: unknown; to: unknown }>>(),
+    meta: jsonb("meta").$type<Record<string, unknown>>(),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    createdIdx: index("idx_admin_audit_log_created").on(t.createdAt),
+    entityIdx: index("idx_admin_audit_log_entity").on(t.entityType, t.entityId, t.createdAt),
+    userIdx: index("idx_admin_audit_log_user").on(t.userId, t.createdAt),
+  }),
+);
+
+export type AdminUser = typeof adminUsers.$inferSelect;
+export type AdminAuditLogRow = typeof adminAuditLog.$inferSelect;
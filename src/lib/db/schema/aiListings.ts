@@ -0,0 +1,49 @@
+// src/lib/db/schema/aiListings.ts
+import { pgTable, uuid, text, integer, timestamp, index } from "drizzle-orm/pg-core";
+import { products } from "./shop";
+import { inventoryItems } from "./inventory";
+
+/* ------------------------------------------------------------------ */
+/* Bulk AI listing generation queue                                    */
+/* ------------------------------------------------------------------ */
+
+/** One bulk request and which kind of listing it queued. */
+export const aiListingBatches = pgTable("ai_listing_batches", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  target: text("target").notNull(), // "product" | "inventory_item"
+  label: text("label"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+/**
+ * One listing to generate copy for. Exactly one of product_id /
+ * inventory_item_id is set. Failed attempts requeue with backoff
+ * (next_attempt_at) until they run out.
+ */
+export const aiListingBatchItems = pgTable(
+  "ai_listing_batch_items",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    batchId: uuid("batch_id")
+      .notNull()
+      .references(() => aiListingBatches.id, { onDelete: "cascade" }),
+    productId: uuid("product_id").references(() => products.id, { onDelete: "cascade" }),
+    inventoryItemId: uuid("inventory_item_id").references(() => inventoryItems.id, { onDelete: "cascade" }),
+
+    status: text("status").notNull().default("queued"), // queued | running | done | failed | applied
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }).notNull().defaultNow(),
+    lastError: text("last_error"),
+    generationId: uuid("generation_id"), // ai_listing_generations.id
+
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    batchIdx: index("idx_ai_listing_batch_items_batch").on(t.batchId),
+    generationIdx: index("idx_ai_listing_batch_items_generation").on(t.generationId),
+  }),
+);
+
+export type AiListingBatch = typeof aiListingBatches.$inferSelect;
+export type AiListingBatchItem = typeof aiListingBatchItems.$inferSelect;
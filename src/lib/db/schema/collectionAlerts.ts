@@ -0,0 +1,31 @@
+// src/lib/db/schema/collectionAlerts.ts
+import { pgTable, uuid, text, boolean, bigint, date, jsonb, timestamp, integer } from "drizzle-orm/pg-core";
+
+/* ------------------------------------------------------------------ */
+/* Collection / folder / game-slice alerts                             */
+/* ------------------------------------------------------------------ */
+
+export const collectionAlerts = pgTable("collection_alerts", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull(),
+
+  scope: text("scope").notNull(), // "collection" | "folder" | "game"
+  folder: text("folder"),
+  game: text("game"),
+
+  ruleType: text("rule_type").notNull(), // see CollectionAlertRuleType in src/lib/alerts/collectionRules.ts
+  params: jsonb("params").default({}).notNull(),
+  active: boolean("active").default(true).notNull(),
+
+  isFiring: boolean("is_firing").default(false).notNull(),
+  lastValueCents: bigint("last_value_cents", { mode: "number" }),
+  lastAsOf: date("last_as_of"),
+  lastEvaluatedAt: timestamp("last_evaluated_at", { withTimezone: true }),
+  lastTriggeredAt: timestamp("last_triggered_at", { withTimezone: true }),
+  cooldownHours: integer("cooldown_hours"), // null = user default
+
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+export type CollectionAlert = typeof collectionAlerts.$inferSelect;
@@ -0,0 +1,73 @@
+// src/lib/db/schema/collectionSales.ts
+import {
+  pgTable,
+  uuid,
+  text,
+  integer,
+  date,
+  timestamp,
+  index,
+} from "drizzle-orm/pg-core";
+
+/* ------------------------------------------------------------------ */
+/* Sales / disposals out of user_collection_items                      */
+/* ------------------------------------------------------------------ */
+
+export const userCollectionSales = pgTable(
+  "user_collection_sales",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: text("user_id").notNull(),
+
+    kind: text("kind").notNull().default("sale"), // "sale" | "disposal" (gift, loss, trade-in at $0)
+    game: text("game").notNull(),
+    cardId: text("card_id").notNull(),
+    cardName: text("card_name"),
+    setName: text("set_name"),
+
+    quantity: integer("quantity").notNull(),
+    soldAt: date("sold_at").notNull(),
+
+    // all amounts are totals for the whole sale, not per copy
+    grossProceedsCents: integer("gross_proceeds_cents").notNull().default(0),
+    feesCents: integer("fees_cents").notNull().default(0),
+    shippingCents: integer("shipping_cents").notNull().default(0),
+
+    lotMethod: text("lot_method").notNull().default("fifo"), // "fifo" | "lifo" | "specific"
+    note: text("note"),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    userSoldIdx: index("idx_uc_sales_user_sold").on(t.userId, t.soldAt),
+  }),
+);
+
+/**
+ * Which acquisition lots (collection rows) a sale consumed.
+ * Cost/date are snapshotted because the source row is deleted when it hits 0 copies.
+ */
+export const userCollectionSaleLots = pgTable(
+  "user_collection_sale_lots",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    saleId: uuid("sale_id").notNull(),
+    itemId: uuid("item_id").notNull(),
+
+    quantity: integer("quantity").notNull(),
+    costEachCents: integer("cost_each_cents").notNull().default(0),
+    acquiredAt: date("acquired_at").notNull(),
+
+    // this lot's share of the sale (split by quantity)
+    proceedsCents: integer("proceeds_cents").notNull().default(0),
+    expensesCents: integer("expenses_cents").notNull().default(0),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    saleIdx: index("idx_uc_sale_lots_sale").on(t.saleId),
+  }),
+);
+
+export type UserCollectionSale = typeof userCollectionSales.$inferSelect;
+export type UserCollectionSaleLot = typeof userCollectionSaleLots.$inferSelect;
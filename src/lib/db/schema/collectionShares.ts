@@ -0,0 +1,38 @@
+// src/lib/db/schema/collectionShares.ts
+import { pgTable, uuid, text, boolean, integer, timestamp, uniqueIndex } from "drizzle-orm/pg-core";
+
+/* ------------------------------------------------------------------ */
+/* Public share links (collection / folder / wishlist)                 */
+/* ------------------------------------------------------------------ */
+
+export const collectionShares = pgTable(
+  "collection_shares",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: text("user_id").notNull(),
+    slug: text("slug").notNull(),
+
+    // "collection" | "folder" | "wishlist"
+    kind: text("kind").notNull(),
+    // only for kind = "folder"
+    folder: text("folder"),
+
+    title: text("title"),
+    description: text("description"),
+
+    hideValues: boolean("hide_values").notNull().default(false),
+    hideCost: boolean("hide_cost").notNull().default(true),
+    hideQuantities: boolean("hide_quantities").notNull().default(false),
+
+    isActive: boolean("is_active").notNull().default(true),
+    viewCount: integer("view_count").notNull().default(0),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    slugIdx: uniqueIndex("ux_collection_shares_slug").on(t.slug),
+  }),
+);
+
+export type CollectionShare = typeof collectionShares.$inferSelect;
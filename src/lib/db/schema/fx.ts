@@ -0,0 +1,31 @@
+// src/lib/db/schema/fx.ts
+import { pgTable, text, date, numeric, timestamp, primaryKey } from "drizzle-orm/pg-core";
+
+/* ------------------------------------------------------------------ */
+/* Dated FX rates + per-user display currency                          */
+/* ------------------------------------------------------------------ */
+
+export const fxRates = pgTable(
+  "fx_rates",
+  {
+    currency: text("currency").notNull(), // "EUR" | "GBP" | "CAD" | "JPY" | "AUD"
+    rateDate: date("rate_date").notNull(),
+    usdPerUnit: numeric("usd_per_unit", { precision: 18, scale: 10 }).notNull(),
+    source: text("source").default("file").notNull(),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [primaryKey({ columns: [t.currency, t.rateDate] })],
+);
+
+export const userPreferences = pgTable("user_preferences", {
+  userId: text("user_id").primaryKey(),
+  displayCurrency: text("display_currency").default("USD").notNull(), // see FX_CURRENCIES in src/lib/fx/table.ts
+
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+export type FxRateRow = typeof fxRates.$inferSelect;
+export type UserPreferencesRow = typeof userPreferences.$inferSelect;
@@ -6,8 +6,11 @@ export * from "./billing";
 export * from "./mtg";
 export * from "./pricecharting";
 export * from "./collectionAnalytics";
+export * from "./collectionSales";
 export * from "./priceAlertLogs";
 export * from "./priceAlerts";
+export * from "./collectionAlerts";
+export * from "./notifications";
 
 
 export * from "./inventory";
@@ -15,6 +18,13 @@ export * from "./orders";
 export * from "./cart";
 export * from "./shop";
 export * from "./funko";
+export * from "./savedSearches";
+export * from "./trades";
+export * from "./collectionShares";
+export * from "./wishlistStock";
+export * from "./aiListings";
+export * from "./adminUsers";
+export * from "./fx";
 
 
 
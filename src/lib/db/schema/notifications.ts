@@ -0,0 +1,49 @@
+// src/lib/db/schema/notifications.ts
+import { pgTable, uuid, text, boolean, smallint, integer, jsonb, timestamp } from "drizzle-orm/pg-core";
+
+/* ------------------------------------------------------------------ */
+/* Notification preferences + inbox / delivery queue                  */
+/* ------------------------------------------------------------------ */
+
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: text("user_id").primaryKey(),
+
+  emailEnabled: boolean("email_enabled").default(true).notNull(),
+  inAppEnabled: boolean("inapp_enabled").default(true).notNull(),
+  discordEnabled: boolean("discord_enabled").default(false).notNull(),
+  discordWebhookUrl: text("discord_webhook_url"),
+  webhookEnabled: boolean("webhook_enabled").default(false).notNull(),
+  webhookUrl: text("webhook_url"),
+  webhookSecret: text("webhook_secret"),
+
+  digest: text("digest").default("instant").notNull(), // "instant" | "daily" | "weekly"
+  quietStart: smallint("quiet_start"),
+  quietEnd: smallint("quiet_end"),
+  timezone: text("timezone").default("UTC").notNull(),
+  cooldownHours: integer("cooldown_hours").default(24).notNull(),
+  lastDigestAt: timestamp("last_digest_at", { withTimezone: true }),
+
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+export const notifications = pgTable("notifications", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id").notNull(),
+
+  kind: text("kind").notNull(), // see NotificationKind in src/lib/notifications/events.ts
+  title: text("title").notNull(),
+  body: text("body").default("").notNull(),
+  href: text("href"),
+  data: jsonb("data").default({}).notNull(),
+
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  readAt: timestamp("read_at", { withTimezone: true }),
+  archivedAt: timestamp("archived_at", { withTimezone: true }),
+  deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+  attempts: smallint("attempts").default(0).notNull(),
+  delivery: jsonb("delivery"),
+});
+
+export type NotificationPreferencesRow = typeof notificationPreferences.$inferSelect;
+export type NotificationRow = typeof notifications.$inferSelect;
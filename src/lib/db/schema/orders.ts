@@ -39,6 +39,8 @@ export const orders = pgTable(
     taxCents: integer("tax_cents").notNull().default(0),
     shippingCents: integer("shipping_cents").notNull().default(0),
     totalCents: integer("total_cents").notNull().default(0),
+    // sum of succeeded order_refunds
+    refundedCents: integer("refunded_cents").notNull().default(0),
 
     email: text("email"),
     customerName: text("customer_name"),
@@ -94,3 +96,159 @@ export const orderItems = pgTable(
     productIdx: index("order_items_product_idx").on(t.productId),
   })
 );
+
+// stage: see FULFILLMENT_STAGES in src/lib/orders/fulfillmentFlow.ts
+export const orderFulfillments = pgTable(
+  "order_fulfillments",
+  {
+    orderId: uuid("order_id")
+      .primaryKey()
+      .references(() => orders.id, { onDelete: "cascade", onUpdate: "cascade" }),
+
+    stage: text("stage").notNull().default("unfulfilled"),
+    carrier: text("carrier"),
+    trackingNumber: text("tracking_number"),
+    note: text("note"),
+
+    pickedAt: timestamp("picked_at", { withTimezone: true }),
+    packedAt: timestamp("packed_at", { withTimezone: true }),
+    shippedAt: timestamp("shipped_at", { withTimezone: true }),
+    deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+
+    shippedEmailAt: timestamp("shipped_email_at", { withTimezone: true }),
+    deliveredEmailAt: timestamp("delivered_email_at", { withTimezone: true }),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (t) => ({
+    stageIdx: index("idx_order_fulfillments_stage").on(t.stage),
+  })
+);
+
+// status: see RETURN_STATUSES in src/lib/orders/returnsFlow.ts
+export const orderReturns = pgTable(
+  "order_returns",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    orderId: uuid("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade", onUpdate: "cascade" }),
+    userId: text("user_id").notNull(),
+
+    status: text("status").notNull().default("requested"),
+    reasonCode: text("reason_code").notNull(),
+    customerNote: text("customer_note"),
+    adminNote: text("admin_note"),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    receivedAt: timestamp("received_at", { withTimezone: true }),
+    closedAt: timestamp("closed_at", { withTimezone: true }),
+  },
+  (t) => ({
+    orderIdx: index("idx_order_returns_order").on(t.orderId),
+  })
+);
+
+export const orderReturnItems = pgTable(
+  "order_return_items",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    returnId: uuid("return_id")
+      .notNull()
+      .references(() => orderReturns.id, { onDelete: "cascade" }),
+    orderItemId: uuid("order_item_id")
+      .notNull()
+      .references(() => orderItems.id, { onDelete: "cascade" }),
+    qty: integer("qty").notNull(),
+    // "restock" | "write_off"; null until the item is back
+    decision: text("decision"),
+    decidedAt: timestamp("decided_at", { withTimezone: true }),
+  },
+  (t) => ({
+    returnIdx: index("idx_order_return_items_return").on(t.returnId),
+  })
+);
+
+export const orderRefunds = pgTable(
+  "order_refunds",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    orderId: uuid("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade", onUpdate: "cascade" }),
+    returnId: uuid("return_id").references(() => orderReturns.id, { onDelete: "set null" }),
+
+    stripeRefundId: text("stripe_refund_id").notNull().unique(),
+    amountCents: integer("amount_cents").notNull(),
+    currency: text("currency").notNull().default("usd"),
+    reason: text("reason"),
+    // Stripe's refund status
+    status: text("status").notNull(),
+    failureReason: text("failure_reason"),
+    createdBy: text("created_by"),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (t) => ({
+    orderIdx: index("idx_order_refunds_order").on(t.orderId),
+  })
+);
+
+// status: see RESERVATION_STATUSES in src/lib/orders/reservationsFlow.ts
+export const stockReservations = pgTable(
+  "stock_reservations",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    cartId: uuid("cart_id").references(() => carts.id, { onDelete: "set null" }),
+    userId: text("user_id"),
+    stripeSessionId: text("stripe_session_id").unique(),
+
+    status: text("status").notNull().default("held"),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    orderId: uuid("order_id").references(() => orders.id, { onDelete: "set null" }),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    closedAt: timestamp("closed_at", { withTimezone: true }),
+  },
+  (t) => ({
+    cartIdx: index("idx_stock_reservations_cart").on(t.cartId),
+  })
+);
+
+export const stockReservationItems = pgTable(
+  "stock_reservation_items",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    reservationId: uuid("reservation_id")
+      .notNull()
+      .references(() => stockReservations.id, { onDelete: "cascade" }),
+    productId: uuid("product_id")
+      .notNull()
+      .references(() => products.id, { onDelete: "cascade" }),
+    qty: integer("qty").notNull(),
+  },
+  (t) => ({
+    reservationIdx: index("idx_stock_reservation_items_reservation").on(t.reservationId),
+    productIdx: index("idx_stock_reservation_items_product").on(t.productId),
+  })
+);
@@ -1,13 +1,17 @@
 // src/lib/db/schema/priceAlertLogs.ts
-import { pgTable, serial, text, timestamp, numeric } from "drizzle-orm/pg-core";
+import { pgTable, serial, text, timestamp, numeric, jsonb } from "drizzle-orm/pg-core";
 
 export const priceAlertLogs = pgTable("price_alert_logs", {
   id: serial("id").primaryKey(),
 
   alertId: text("alert_id").notNull(),
-  cardId: text("card_id").notNull(),
-  game: text("game").notNull(),
+  alertKind: text("alert_kind").default("card").notNull(), // "card" | "collection"
+  userId: text("user_id"),
+  cardId: text("card_id"),                                 // null for collection alerts
+  game: text("game"),
+  ruleType: text("rule_type"),
 
   priceUsd: numeric("price_usd", { precision: 12, scale: 2 }),
+  details: jsonb("details"),
   firedAt: timestamp("fired_at").defaultNow().notNull(),
 });
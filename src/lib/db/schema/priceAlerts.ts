@@ -1,5 +1,5 @@
 // src/lib/db/schema/priceAlerts.ts
-import { pgTable, text, varchar, numeric, boolean, timestamp, serial } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, numeric, boolean, timestamp, serial, jsonb, integer } from "drizzle-orm/pg-core";
 
 export const priceAlerts = pgTable("price_alerts", {
   id: serial("id").primaryKey(),
@@ -9,9 +9,16 @@ export const priceAlerts = pgTable("price_alerts", {
   cardId: text("card_id").notNull(),
 
   source: varchar("source", { length: 20 }).notNull(),     // "tcgplayer" | "cardmarket" | "ebay" | "pricecharting"
-  ruleType: varchar("rule_type", { length: 20 }).notNull(),// "at_or_below" | "at_or_above"
+  ruleType: varchar("rule_type", { length: 20 }).notNull(),// see PriceAlertRuleType in src/lib/alerts/rules.ts
 
-  threshold: numeric("threshold", { precision: 12, scale: 2 }).notNull(),
+  threshold: numeric("threshold", { precision: 12, scale: 2 }),  // USD, fixed above/below rules only
+  params: jsonb("params").default({}).notNull(),                  // { pct?, windowDays?, sources? }
+
+  isFiring: boolean("is_firing").default(false).notNull(),
+  lastPriceCents: integer("last_price_cents"),
+  lastEvaluatedAt: timestamp("last_evaluated_at", { withTimezone: true }),
+  lastTriggeredAt: timestamp("last_triggered_at", { withTimezone: true }),
+  cooldownHours: integer("cooldown_hours"), // null = user default
 
   active: boolean("active").default(true).notNull(),
 
@@ -18,7 +18,16 @@ export const export_type_enum = pgEnum("export_type", [
   "insurance_pdf",
 ]);
 
-export const alert_rule_type_enum = pgEnum("alert_rule_type", ["above", "below"]);
+export const alert_rule_type_enum = pgEnum("alert_rule_type", [
+  "above",
+  "below",
+  "pct_up",
+  "pct_down",
+  "above_ma",
+  "below_ma",
+  "spread",
+  "all_time_high",
+]);
 
 export const price_source_enum = pgEnum("price_source", [
   "tcgplayer",
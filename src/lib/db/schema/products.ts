@@ -82,6 +82,9 @@ export const products = pgTable(
     updatedAt: timestamp("updated_at", { withTimezone: true })
       .notNull()
       .defaultNow(),
+
+    // set by a DB trigger whenever status changes to 'active'
+    publishedAt: timestamp("published_at", { withTimezone: true }),
   },
   (t) => ({
     slugUq: uniqueIndex("products_slug_key").on(t.slug),
@@ -96,6 +99,7 @@ export const products = pgTable(
     ),
     statusPriceIdx: index("products_status_price_idx").on(t.status, t.priceCents),
     updatedAtIdx: index("products_updated_at_idx").on(t.updatedAt),
+    publishedAtIdx: index("idx_products_published_at").on(t.publishedAt),
     graderGradeIdx: index("products_grader_grade_idx").on(t.grader, t.gradeX10),
   })
 );
@@ -0,0 +1,68 @@
+// src/lib/db/schema/savedSearches.ts
+import {
+  pgTable,
+  uuid,
+  text,
+  boolean,
+  timestamp,
+  jsonb,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+
+export const savedSearches = pgTable(
+  "saved_searches",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: text("user_id").notNull(),
+
+    name: text("name").notNull(),
+    kind: text("kind").notNull(), // "catalog" | "shop"
+
+    // catalog: the /search query string (structured queries allowed) + optional facet
+    query: text("query"),
+    game: text("game"),
+
+    // shop: normalized ShopFilterValues
+    filters: jsonb("filters").$type<Record<string, any>>().notNull().default({}),
+
+    notifyEmail: boolean("notify_email").notNull().default(true),
+    active: boolean("active").notNull().default(true),
+
+    // only catalog rows / listings that arrived after this count as new;
+    // null = the next run just sets it (no email)
+    watermarkAt: timestamp("watermark_at", { withTimezone: true }).defaultNow(),
+    // breaks ties at watermark_at: the last "<game>:<id>" read there ("" = none yet)
+    watermarkKey: text("watermark_key").notNull().default(""),
+    lastCheckedAt: timestamp("last_checked_at", { withTimezone: true }),
+    lastNotifiedAt: timestamp("last_notified_at", { withTimezone: true }),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    userIdx: index("saved_searches_user_idx").on(t.userId),
+    activeIdx: index("saved_searches_active_idx").on(t.active),
+  })
+);
+
+// Everything a saved search has already matched, so "new" = not in here yet.
+export const savedSearchMatches = pgTable(
+  "saved_search_matches",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    savedSearchId: uuid("saved_search_id").notNull(),
+
+    // "<game>:<id>" as returned by the search (e.g. "shop:psa-10-charizard")
+    itemKey: text("item_key").notNull(),
+    title: text("title"),
+    href: text("href"),
+
+    firstSeenAt: timestamp("first_seen_at", { withTimezone: true }).notNull().defaultNow(),
+    // null = still waiting to be emailed (baseline rows are stamped immediately)
+    notifiedAt: timestamp("notified_at", { withTimezone: true }),
+  },
+  (t) => ({
+    searchItemUniq: uniqueIndex("saved_search_matches_search_item_uniq").on(t.savedSearchId, t.itemKey),
+  })
+);
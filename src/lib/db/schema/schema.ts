@@ -1,4 +1,4 @@
-import { pgTable, index, unique, uuid, text, timestamp, bigserial, integer, jsonb, foreignKey, date, uniqueIndex, boolean, numeric, serial, bigint, primaryKey, varchar } from "drizzle-orm/pg-core"
+import { pgTable, index, unique, uuid, text, timestamp, bigserial, integer, jsonb, foreignKey, date, uniqueIndex, boolean, numeric, serial, bigint, primaryKey, varchar, smallint } from "drizzle-orm/pg-core"
 import { sql } from "drizzle-orm"
 
 
@@ -82,6 +82,8 @@ export const userCollectionItems = pgTable("user_collection_items", {
 	gradingCompany: text("grading_company"),
 	gradeLabel: text("grade_label"),
 	certNumber: text("cert_number"),
+	variantType: text("variant_type").default("normal").notNull(),
+	condition: text(),
 	quantity: integer().default(1).notNull(),
 	folder: text(),
 	costCents: integer("cost_cents"),
@@ -94,7 +96,7 @@ export const userCollectionItems = pgTable("user_collection_items", {
 	index("idx_user_collection_items_user_folder").using("btree", table.userId.asc().nullsLast().op("text_ops"), table.folder.asc().nullsLast().op("text_ops")),
 	index("idx_user_collection_items_user_game").using("btree", table.userId.asc().nullsLast().op("text_ops"), table.game.asc().nullsLast().op("text_ops")),
 	index("idx_user_collection_items_user_set").using("btree", table.userId.asc().nullsLast().op("text_ops"), table.setName.asc().nullsLast().op("text_ops")),
-	uniqueIndex("ux_user_collection_item_identity").using("btree", sql`user_id`, sql`game`, sql`card_id`, sql`COALESCE(grading_company, ''::text)`, sql`COALESCE(grade_label, ''::text)`, sql`COALESCE(cert_number, ''::text)`, sql`COALESCE(folder, ''::text)`),
+	uniqueIndex("ux_user_collection_item_identity").using("btree", sql`user_id`, sql`game`, sql`card_id`, sql`variant_type`, sql`COALESCE(condition, ''::text)`, sql`COALESCE(grading_company, ''::text)`, sql`COALESCE(grade_label, ''::text)`, sql`COALESCE(cert_number, ''::text)`, sql`COALESCE(folder, ''::text)`),
 ]);
 
 export const scryfallCardSymbols = pgTable("scryfall_card_symbols", {
@@ -169,6 +171,7 @@ export const scryfallCardsRaw = pgTable("scryfall_cards_raw", {
 	payload: jsonb().notNull(),
 	fetchedAt: timestamp("fetched_at", { withTimezone: true, mode: 'string' }).defaultNow().notNull(),
 	updatedAt: timestamp("updated_at", { withTimezone: true, mode: 'string' }).defaultNow().notNull(),
+	ingestedAt: timestamp("ingested_at", { withTimezone: true, mode: 'string' }).defaultNow().notNull(),
 }, (table) => [
 	index("idx_scryfall_cards_arena_id").using("btree", table.arenaId.asc().nullsLast().op("int4_ops")),
 	index("idx_scryfall_cards_cardmarket_id").using("btree", table.cardmarketId.asc().nullsLast().op("int4_ops")),
@@ -234,6 +237,14 @@ export const userWishlistItems = pgTable("user_wishlist_items", {
 	marketItemId: uuid("market_item_id"),
 	createdAt: timestamp("created_at", { withTimezone: true, mode: 'string' }).defaultNow().notNull(),
 	updatedAt: timestamp("updated_at", { withTimezone: true, mode: 'string' }).defaultNow().notNull(),
+	wantedCondition: text("wanted_condition"),
+	wantedGrader: text("wanted_grader"),
+	wantedGradeX10: integer("wanted_grade_x10"),
+	notifyInStock: boolean("notify_in_stock").default(true).notNull(),
+	wantedVariant: text("wanted_variant"),
+	targetPriceCents: integer("target_price_cents"),
+	priority: smallint().default(2).notNull(),
+	stockCheckedAt: timestamp("stock_checked_at", { withTimezone: true, mode: 'string' }),
 }, (table) => [
 	index("idx_user_wishlist_user").using("btree", table.userId.asc().nullsLast().op("text_ops")),
 	index("idx_user_wishlist_user_game").using("btree", table.userId.asc().nullsLast().op("text_ops"), table.game.asc().nullsLast().op("text_ops")),
@@ -535,6 +546,7 @@ export const tcgCards = pgTable("tcg_cards", {
 	tcgplayerUpdatedAt: text("tcgplayer_updated_at"),
 	cardmarketUrl: text("cardmarket_url"),
 	cardmarketUpdatedAt: text("cardmarket_updated_at"),
+	ingestedAt: timestamp("ingested_at", { withTimezone: true, mode: 'string' }).defaultNow().notNull(),
 });
 
 export const tcgSets = pgTable("tcg_sets", {
@@ -619,6 +631,7 @@ export const ygoCards = pgTable("ygo_cards", {
 	hasEffect: boolean("has_effect"),
 	staple: boolean(),
 	updatedAt: timestamp("updated_at", { withTimezone: true, mode: 'string' }).defaultNow().notNull(),
+	ingestedAt: timestamp("ingested_at", { withTimezone: true, mode: 'string' }).defaultNow().notNull(),
 });
 
 export const ygoRawDump = pgTable("ygo_raw_dump", {
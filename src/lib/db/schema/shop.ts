@@ -11,6 +11,7 @@ import {
   uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
+import { inventoryItems } from "./inventory";
 
 // -------------------------
 // Enums (stable forever)
@@ -81,6 +82,11 @@ export const products = pgTable(
     // Inventory
     inventoryType: inventoryTypeEnum("inventory_type").notNull().default("stock"),
     quantity: integer("quantity").notNull().default(0),
+    // the inventory item this listing was published from; when set, quantity
+    // is a cache of that item's stock ledger (see src/lib/inventory/catalog.ts)
+    inventoryItemId: uuid("inventory_item_id").references(() => inventoryItems.id, {
+      onDelete: "set null",
+    }),
 
     status: productStatusEnum("status").notNull().default("draft"),
 
@@ -97,6 +103,9 @@ export const products = pgTable(
   },
   (t) => ({
     slugUnique: uniqueIndex("products_slug_unique").on(t.slug),
+    inventoryItemUnique: uniqueIndex("products_inventory_item_unique")
+      .on(t.inventoryItemId)
+      .where(sql`${t.inventoryItemId} IS NOT NULL`),
 
     // Common filtering indexes (money makers)
     gameFormatStatusIdx: index("products_game_format_status_idx").on(
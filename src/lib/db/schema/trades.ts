@@ -0,0 +1,100 @@
+// src/lib/db/schema/trades.ts
+import {
+  pgTable,
+  uuid,
+  text,
+  boolean,
+  integer,
+  timestamp,
+  jsonb,
+  index,
+} from "drizzle-orm/pg-core";
+
+/* ------------------------------------------------------------------ */
+/* Trade center                                                        */
+/* ------------------------------------------------------------------ */
+
+/** Opt-in: users are only findable (and their collection visible) with a handle + open_to_trades. */
+export const tradeProfiles = pgTable("trade_profiles", {
+  userId: text("user_id").primaryKey(),
+  handle: text("handle").notNull(), // unique on lower(handle)
+  openToTrades: boolean("open_to_trades").notNull().default(true),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+export const tradeOffers = pgTable(
+  "trade_offers",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    proposerId: text("proposer_id").notNull(),
+    recipientId: text("recipient_id").notNull(),
+
+    // "pending" | "countered" | "accepted" | "declined" | "cancelled"
+    status: text("status").notNull().default("pending"),
+    // a counter-offer points at the offer it replaces
+    parentId: uuid("parent_id"),
+    note: text("note"),
+
+    // fair-value snapshot (sum of unit_value_cents * quantity per side) at proposal time
+    proposerValueCents: integer("proposer_value_cents").notNull().default(0),
+    recipientValueCents: integer("recipient_value_cents").notNull().default(0),
+
+    respondedAt: timestamp("responded_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    proposerIdx: index("idx_trade_offers_proposer").on(t.proposerId, t.createdAt),
+    recipientIdx: index("idx_trade_offers_recipient").on(t.recipientId, t.createdAt),
+  }),
+);
+
+/** Items on either side of an offer; card identity is snapshotted from user_collection_items. */
+export const tradeOfferItems = pgTable(
+  "trade_offer_items",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    offerId: uuid("offer_id").notNull(),
+    side: text("side").notNull(), // "proposer" (proposer gives) | "recipient" (recipient gives)
+    itemId: uuid("item_id").notNull(),
+
+    game: text("game").notNull(),
+    cardId: text("card_id").notNull(),
+    cardName: text("card_name"),
+    setName: text("set_name"),
+    imageUrl: text("image_url"),
+    variantType: text("variant_type").notNull().default("normal"),
+    gradingCompany: text("grading_company").notNull().default(""),
+    gradeLabel: text("grade_label").notNull().default(""),
+    certNumber: text("cert_number").notNull().default(""),
+
+    quantity: integer("quantity").notNull(),
+    unitValueCents: integer("unit_value_cents"),
+    valueSource: text("value_source"),
+  },
+  (t) => ({
+    offerIdx: index("idx_trade_offer_items_offer").on(t.offerId),
+  }),
+);
+
+/** Append-only audit trail: proposed / countered / accepted / declined / cancelled. */
+export const tradeEvents = pgTable(
+  "trade_events",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    offerId: uuid("offer_id").notNull(),
+    actorId: text("actor_id").notNull(),
+    action: text("action").notNull(),
+    detail: jsonb("detail").$type<Record<string, unknown>>().notNull().default({}),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    offerIdx: index("idx_trade_events_offer").on(t.offerId, t.createdAt),
+  }),
+);
+
+export type TradeProfile = typeof tradeProfiles.$inferSelect;
+export type TradeOffer = typeof tradeOffers.$inferSelect;
+export type TradeOfferItem = typeof tradeOfferItems.$inferSelect;
+export type TradeEvent = typeof tradeEvents.$inferSelect;
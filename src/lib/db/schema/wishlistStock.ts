@@ -0,0 +1,42 @@
+// src/lib/db/schema/wishlistStock.ts
+import { pgTable, uuid, text, boolean, integer, timestamp, uniqueIndex } from "drizzle-orm/pg-core";
+
+/* ------------------------------------------------------------------ */
+/* Wishlist back-in-stock tracking + buy-list budget                   */
+/* ------------------------------------------------------------------ */
+
+/**
+ * One row per (wishlist entry, matching shop listing). notified_at IS NULL
+ * means the owner hasn't been emailed about it since it went live/restocked.
+ */
+export const wishlistStockAlerts = pgTable(
+  "wishlist_stock_alerts",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: text("user_id").notNull(),
+    wishlistItemId: uuid("wishlist_item_id").notNull(),
+    listingKey: text("listing_key").notNull(), // "product:<id>" | "inventory:<id>"
+
+    title: text("title"),
+    href: text("href"),
+    priceCents: integer("price_cents"),
+
+    inStock: boolean("in_stock").notNull().default(true),
+    firstSeenAt: timestamp("first_seen_at", { withTimezone: true }).notNull().defaultNow(),
+    restockedAt: timestamp("restocked_at", { withTimezone: true }),
+    notifiedAt: timestamp("notified_at", { withTimezone: true }),
+  },
+  (t) => ({
+    itemListingIdx: uniqueIndex("ux_wishlist_stock_alerts_item_listing").on(t.wishlistItemId, t.listingKey),
+  }),
+);
+
+/** Monthly spend cap for the wishlist buy list. */
+export const wishlistBudgets = pgTable("wishlist_budgets", {
+  userId: text("user_id").primaryKey(),
+  monthlyBudgetCents: integer("monthly_budget_cents").notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+export type WishlistStockAlert = typeof wishlistStockAlerts.$inferSelect;
+export type WishlistBudget = typeof wishlistBudgets.$inferSelect;
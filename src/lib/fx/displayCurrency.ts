@@ -0,0 +1,41 @@
+// src/lib/fx/displayCurrency.ts
+import "server-only";
+
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { normalizeFxCurrency, type FxCurrency } from "@/lib/fx/table";
+
+/** The currency a user sees portfolio values in; USD until they pick one. */
+export async function getDisplayCurrency(userId: string): Promise<FxCurrency> {
+  try {
+    const res = await db.execute<{ display_currency: string }>(sql`
+      SELECT display_currency
+      FROM public.user_preferences
+      WHERE user_id = ${userId}
+      LIMIT 1
+    `);
+    return normalizeFxCurrency(res.rows?.[0]?.display_currency) ?? "USD";
+  } catch (err: any) {
+    if (err?.code === "42P01") return "USD";
+    throw err;
+  }
+}
+
+export async function setDisplayCurrency(userId: string, currency: FxCurrency): Promise<FxCurrency> {
+  await db.execute(sql`
+    INSERT INTO public.user_preferences (user_id, display_currency)
+    VALUES (${userId}, ${currency})
+    ON CONFLICT (user_id) DO UPDATE
+      SET display_currency = EXCLUDED.display_currency,
+          updated_at = now()
+  `);
+  return currency;
+}
+
+/**
+ * Currency for an export or report: an explicit ?currency= wins, else the
+ * user's preference.
+ */
+export async function resolveDisplayCurrency(userId: string, requested?: string | null): Promise<FxCurrency> {
+  return normalizeFxCurrency(requested) ?? (await getDisplayCurrency(userId));
+}
@@ -0,0 +1,70 @@
+// src/lib/fx/rates.ts
+import "server-only";
+
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { createFxTable, FX_CURRENCIES, normalizeFxCurrency, type FxCurrency, type FxRate, type FxTable } from "@/lib/fx/table";
+
+/**
+ * Dated rates from fx_rates, imported by
+ * scripts/pricing/05_import_fx_rates.mjs. A currency with no rows yet
+ * falls back to a fixed rate from the environment (see envFxRates), so a
+ * fresh database still converts at today's rate.
+ */
+
+const CACHE_MS = 10 * 60 * 1000;
+
+let cached: { table: FxTable; expiresAt: number } | null = null;
+
+function positive(raw: string | undefined): number | null {
+  if (raw == null || raw === "") return null;
+  const n = Number(raw);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/**
+ * Fixed USD-per-unit rates from FX_<CCY>_USD (USD per 1 unit) or
+ * FX_USD_<CCY> (units per 1 USD), e.g. FX_USD_EUR=0.92, FX_USD_JPY=150.
+ */
+export function envFxRates(): Partial<Record<FxCurrency, number>> {
+  const out: Partial<Record<FxCurrency, number>> = {};
+  for (const c of FX_CURRENCIES) {
+    if (c === "USD") continue;
+    const direct = positive(process.env[`FX_${c}_USD`]);
+    const inverse = positive(process.env[`FX_USD_${c}`]);
+    const usdPerUnit = direct ?? (inverse != null ? 1 / inverse : null);
+    if (usdPerUnit != null) out[c] = usdPerUnit;
+  }
+  return out;
+}
+
+async function loadRates(): Promise<FxRate[]> {
+  try {
+    const res = await db.execute<{ currency: string; rate_date: string; usd_per_unit: string }>(sql`
+      SELECT currency, rate_date::text AS rate_date, usd_per_unit::text AS usd_per_unit
+      FROM public.fx_rates
+      ORDER BY currency, rate_date
+    `);
+    const out: FxRate[] = [];
+    for (const r of res.rows ?? []) {
+      const currency = normalizeFxCurrency(r.currency);
+      const usdPerUnit = Number(r.usd_per_unit);
+      if (currency && Number.isFinite(usdPerUnit)) out.push({ currency, date: r.rate_date, usdPerUnit });
+    }
+    return out;
+  } catch (err: any) {
+    // before the migration has run
+    if (err?.code === "42P01") return [];
+    throw err;
+  }
+}
+
+/** The FX table, cached for a few minutes per server process. */
+export async function loadFxTable(): Promise<FxTable> {
+  const now = Date.now();
+  if (cached && cached.expiresAt > now) return cached.table;
+
+  const table = createFxTable(await loadRates(), envFxRates());
+  cached = { table, expiresAt: now + CACHE_MS };
+  return table;
+}
@@ -0,0 +1,135 @@
+// src/lib/fx/table.ts
+//
+// Dated exchange rates: looks up the rate in force on a day, converts
+// between currencies and formats amounts. No server imports, so client
+// components can format with it too; ./rates.ts loads the table.
+
+export const FX_CURRENCIES = ["USD", "EUR", "GBP", "CAD", "JPY", "AUD"] as const;
+export type FxCurrency = (typeof FX_CURRENCIES)[number];
+
+export function normalizeFxCurrency(v: unknown): FxCurrency | null {
+  const s = String(v ?? "").trim().toUpperCase();
+  return (FX_CURRENCIES as readonly string[]).includes(s) ? (s as FxCurrency) : null;
+}
+
+export type FxRate = {
+  currency: FxCurrency;
+  /** YYYY-MM-DD the rate was published for */
+  date: string;
+  /** USD for one unit of `currency` */
+  usdPerUnit: number;
+};
+
+/** YYYY-MM-DD for a date or timestamp string, or null. */
+export function fxDate(v: string | Date | null | undefined): string | null {
+  if (v == null || v === "") return null;
+  if (typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v)) return v;
+  const t = v instanceof Date ? v.getTime() : Date.parse(v);
+  return Number.isFinite(t) ? new Date(t).toISOString().slice(0, 10) : null;
+}
+
+export type FxTable = {
+  /**
+   * USD per unit of `currency` in force on `on`: the last rate published
+   * on or before it. Undated lookups use the newest rate. Null when we
+   * have no rate for the currency at all.
+   */
+  rate(currency: string, on?: string | Date | null): number | null;
+  toUsd(amount: number, currency: string, on?: string | Date | null): number | null;
+  fromUsd(usd: number, currency: string, on?: string | Date | null): number | null;
+  convert(amount: number, from: string, to: string, on?: string | Date | null): number | null;
+};
+
+/**
+ * An FxTable over dated rates. `fallback` (USD per unit) is used for a
+ * currency with no dated rates; a date before a currency's first rate
+ * uses that first rate.
+ */
+export function createFxTable(rates: FxRate[], fallback: Partial<Record<FxCurrency, number>> = {}): FxTable {
+  const series = new Map<FxCurrency, FxRate[]>();
+  for (const r of rates) {
+    if (!Number.isFinite(r.usdPerUnit) || r.usdPerUnit <= 0) continue;
+    const list = series.get(r.currency) ?? [];
+    list.push(r);
+    series.set(r.currency, list);
+  }
+  for (const list of series.values()) list.sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+
+  function rate(currency: string, on?: string | Date | null): number | null {
+    const c = normalizeFxCurrency(currency);
+    if (!c) return null;
+    if (c === "USD") return 1;
+
+    const list = series.get(c);
+    if (!list?.length) {
+      const f = fallback[c];
+      return f != null && Number.isFinite(f) && f > 0 ? f : null;
+    }
+
+    const day = fxDate(on ?? null);
+    if (!day) return list[list.length - 1].usdPerUnit;
+
+    // last rate on or before `day`
+    let lo = 0;
+    let hi = list.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (list[mid].date <= day) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return list[found === -1 ? 0 : found].usdPerUnit;
+  }
+
+  function toUsd(amount: number, currency: string, on?: string | Date | null): number | null {
+    const r = rate(currency, on);
+    return r == null ? null : amount * r;
+  }
+
+  function fromUsd(usd: number, currency: string, on?: string | Date | null): number | null {
+    const r = rate(currency, on);
+    return r == null ? null : usd / r;
+  }
+
+  function convert(amount: number, from: string, to: string, on?: string | Date | null): number | null {
+    if (normalizeFxCurrency(from) != null && normalizeFxCurrency(from) === normalizeFxCurrency(to)) return amount;
+    const usd = toUsd(amount, from, on);
+    return usd == null ? null : fromUsd(usd, to, on);
+  }
+
+  return { rate, toUsd, fromUsd, convert };
+}
+
+/** Money in a display currency; yen has no minor unit. */
+export function formatFx(n: number, currency: FxCurrency): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    maximumFractionDigits: currency === "JPY" ? 0 : 2,
+  }).format(n);
+}
+
+/**
+ * USD cents shown in `currency` at the rate on `on` (default latest).
+ * Falls back to USD when there is no rate, rather than showing a wrong
+ * number.
+ */
+export function formatUsdCents(
+  fx: FxTable,
+  currency: FxCurrency,
+  cents: number | null | undefined,
+  on?: string | Date | null,
+): string {
+  if (cents == null) return "—";
+  const converted = fx.fromUsd(cents / 100, currency, on);
+  return converted == null ? formatFx(cents / 100, "USD") : formatFx(converted, currency);
+}
+
+/** Plain decimal for CSV / JSON in `currency`'s minor units ("12.50", "1875"). */
+export function fxDecimal(n: number, currency: FxCurrency): string {
+  return n.toFixed(currency === "JPY" ? 0 : 2);
+}
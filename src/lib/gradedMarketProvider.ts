@@ -3,6 +3,8 @@ export type GradeLadder = {
   rawCents?: number | null;
   psa: Partial<Record<1|2|3|4|5|6|7|8|9|10, number | null>>;
   sourceUpdatedAt?: string | null;
+  /** where the ladder came from, e.g. "pricecharting" / "ebay" */
+  source?: string | null;
 };
 
 export interface GradedMarketProvider {
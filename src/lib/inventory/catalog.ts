@@ -0,0 +1,298 @@
+// src/lib/inventory/catalog.ts
+import "server-only";
+
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+  CatalogError,
+  listingFromItem,
+  listingStatusFor,
+  type CatalogItem,
+  type ListingFields,
+} from "@/lib/inventory/catalogFlow";
+
+/**
+ * One sellable catalog. inventory_items is the source of truth: stock is
+ * the sum of its ledger, and publishing creates or updates the products
+ * row (linked by products.inventory_item_id) that the storefront and
+ * checkout read. Every stock change goes through postStockMovement, which
+ * recomputes the item's on_hand and the listing's quantity from the ledger,
+ * so the two can't drift.
+ *
+ * Listings made directly in the shop admin (no inventory item) keep
+ * managing products.quantity themselves.
+ */
+
+export type StockReason = "IMPORT_ADD" | "MANUAL_ADJUST" | "SALE" | "RETURN" | "DAMAGE" | "SHRINK";
+
+export type PublishedListing = {
+  itemId: string;
+  productId: string;
+  slug: string;
+  onHand: number;
+  created: boolean;
+};
+
+type ItemRow = {
+  id: string;
+  sku: string | null;
+  title: string;
+  game: string;
+  condition: string;
+  status: string;
+  price_cents: number;
+  meta: Record<string, any> | null;
+};
+
+/** Appends to the ledger and brings on_hand / quantity in line. Returns on_hand. */
+export async function postStockMovement(
+  tx: any,
+  m: { itemId: string; delta: number; reason: StockReason; note?: string | null },
+): Promise<number> {
+  await tx.execute(sql`
+    INSERT INTO public.inventory_stock_movements (item_id, delta, reason, note)
+    VALUES (${m.itemId}::uuid, ${m.delta}, ${m.reason}::inventory_stock_reason, ${m.note ?? null})
+  `);
+  return syncItemStock(tx, m.itemId);
+}
+
+/** on_hand = SUM(ledger); the linked listing sells what's on hand. */
+export async function syncItemStock(tx: any, itemId: string): Promise<number> {
+  const res = await tx.execute(sql`
+    WITH s AS (
+      SELECT COALESCE(SUM(delta), 0)::int AS on_hand
+      FROM public.inventory_stock_movements
+      WHERE item_id = ${itemId}::uuid
+    )
+    UPDATE public.inventory_items i
+    SET on_hand = s.on_hand, updated_at = now()
+    FROM s
+    WHERE i.id = ${itemId}::uuid
+    RETURNING i.on_hand
+  `);
+  const onHand = Number(res.rows?.[0]?.on_hand ?? 0);
+
+  await tx.execute(sql`
+    UPDATE public.products
+    SET quantity = ${Math.max(0, onHand)}, updated_at = now()
+    WHERE inventory_item_id = ${itemId}::uuid AND quantity IS DISTINCT FROM ${Math.max(0, onHand)}
+  `);
+  return onHand;
+}
+
+/**
+ * Takes sold units out of stock: a SALE movement for listings that sell
+ * from an inventory item, a plain quantity decrement for the rest.
+ */
+export async function recordSale(tx: any, s: { productId: string; qty: number; note?: string | null }) {
+  const res = await tx.execute(sql`
+    SELECT inventory_item_id::text AS inventory_item_id
+    FROM public.products
+    WHERE id = ${s.productId}::uuid
+    FOR UPDATE
+  `);
+  const row = res.rows?.[0] as { inventory_item_id: string | null } | undefined;
+  if (!row) return;
+
+  if (row.inventory_item_id) {
+    await postStockMovement(tx, { itemId: row.inventory_item_id, delta: -s.qty, reason: "SALE", note: s.note });
+    return;
+  }
+  await tx.execute(sql`
+    UPDATE public.products
+    SET quantity = GREATEST(COALESCE(quantity, 0) - ${s.qty}, 0), updated_at = now()
+    WHERE id = ${s.productId}::uuid
+  `);
+}
+
+/** Puts the item on sale: creates or updates its listing and marks both live. */
+export async function publishInventoryItem(itemId: string): Promise<PublishedListing> {
+  return db.transaction(async (tx) => {
+    const item = await lockItem(tx, itemId);
+    const fields = listingFromItem(toCatalogItem(item));
+
+    const existing = await linkedListing(tx, itemId);
+    const productId = existing
+      ? await updateListing(tx, existing.id, item, fields, "active")
+      : await insertListing(tx, item, fields);
+    await syncListingImages(tx, itemId, productId, fields.title);
+
+    await tx.execute(sql`
+      UPDATE public.inventory_items SET status = 'live', updated_at = now()
+      WHERE id = ${itemId}::uuid
+    `);
+    const onHand = await syncItemStock(tx, itemId);
+
+    const slugRes = await tx.execute(sql`SELECT slug FROM public.products WHERE id = ${productId}::uuid`);
+    return {
+      itemId,
+      productId,
+      slug: String(slugRes.rows?.[0]?.slug ?? fields.slug),
+      onHand,
+      created: !existing,
+    };
+  });
+}
+
+/**
+ * After an item edit: copies title, price, grading, images etc. onto its
+ * listing, if it has one. The listing's status follows the item's. Pass
+ * `tx` to run inside a caller's transaction.
+ */
+export async function refreshListing(itemId: string, tx?: any): Promise<string | null> {
+  const run = async (tx: any) => {
+    const existing = await linkedListing(tx, itemId);
+    if (!existing) return null;
+
+    const item = await lockItem(tx, itemId);
+    let fields: ListingFields;
+    try {
+      fields = listingFromItem(toCatalogItem(item));
+    } catch (e) {
+      // an edit that leaves the item unpublishable (no price) takes it off sale
+      if (!(e instanceof CatalogError)) throw e;
+      await tx.execute(sql`
+        UPDATE public.products SET status = 'draft'::product_status, updated_at = now()
+        WHERE id = ${existing.id}::uuid
+      `);
+      return existing.id;
+    }
+
+    await updateListing(tx, existing.id, item, fields, listingStatusFor(item.status));
+    await syncListingImages(tx, itemId, existing.id, fields.title);
+    return existing.id;
+  };
+  return tx ? run(tx) : db.transaction(run);
+}
+
+/** Archives the item and takes its listing down. */
+export async function archiveInventoryItem(itemId: string) {
+  return db.transaction(async (tx) => {
+    const res = await tx.execute(sql`
+      UPDATE public.inventory_items SET status = 'archived', updated_at = now()
+      WHERE id = ${itemId}::uuid
+      RETURNING id::text AS id, status
+    `);
+    const item = res.rows?.[0];
+    if (!item) throw new CatalogError("Not found", "not_found", 404);
+
+    await tx.execute(sql`
+      UPDATE public.products SET status = 'archived'::product_status, updated_at = now()
+      WHERE inventory_item_id = ${itemId}::uuid
+    `);
+    return item as { id: string; status: string };
+  });
+}
+
+async function lockItem(tx: any, itemId: string): Promise<ItemRow> {
+  const res = await tx.execute(sql`
+    SELECT id::text AS id, sku, title, game::text AS game, condition, status::text AS status, price_cents, meta
+    FROM public.inventory_items
+    WHERE id = ${itemId}::uuid
+    FOR UPDATE
+  `);
+  const item = res.rows?.[0] as ItemRow | undefined;
+  if (!item) throw new CatalogError("Not found", "not_found", 404);
+  return item;
+}
+
+function toCatalogItem(item: ItemRow): CatalogItem {
+  return {
+    id: item.id,
+    sku: item.sku,
+    title: item.title,
+    game: item.game,
+    condition: item.condition,
+    priceCents: Number(item.price_cents),
+    meta: item.meta,
+  };
+}
+
+async function linkedListing(tx: any, itemId: string): Promise<{ id: string } | null> {
+  const res = await tx.execute(sql`
+    SELECT id::text AS id FROM public.products WHERE inventory_item_id = ${itemId}::uuid LIMIT 1
+  `);
+  return (res.rows?.[0] as { id: string } | undefined) ?? null;
+}
+
+/** the item's SKU, unless another listing already uses it */
+async function freeSku(tx: any, sku: string | null, productId: string | null): Promise<string | null> {
+  if (!sku) return null;
+  const res = await tx.execute(sql`
+    SELECT NOT EXISTS (
+      SELECT 1 FROM public.products
+      WHERE sku = ${sku} AND ${productId ? sql`id <> ${productId}::uuid` : sql`true`}
+    ) AS ok
+  `);
+  return res.rows?.[0]?.ok ? sku : null;
+}
+
+async function insertListing(tx: any, item: ItemRow, f: ListingFields): Promise<string> {
+  const taken = await tx.execute(sql`SELECT 1 FROM public.products WHERE slug = ${f.slug} LIMIT 1`);
+  const slug = taken.rows?.length ? `${f.slug}-${item.id.slice(0, 8)}` : f.slug;
+  const sku = await freeSku(tx, item.sku, null);
+
+  const res = await tx.execute(sql`
+    INSERT INTO public.products (
+      title, slug, game, format, sealed, is_graded, grader, grade_x10, condition,
+      price_cents, inventory_type, quantity, status, subtitle, description, sku, source_card_id,
+      inventory_item_id, created_at, updated_at
+    )
+    VALUES (
+      ${f.title}, ${slug}, ${f.game}::game, ${f.format}::product_format, ${f.sealed}, ${f.isGraded},
+      ${f.grader ? sql`${f.grader}::grader` : null}, ${f.gradeX10},
+      ${f.condition ? sql`${f.condition}::card_condition` : null},
+      ${f.priceCents}, ${f.inventoryType}::inventory_type, 0, 'active'::product_status, ${f.subtitle},
+      ${f.description}, ${sku}, ${f.sourceCardId}, ${item.id}::uuid, now(), now()
+    )
+    RETURNING id::text AS id
+  `);
+  const id = res.rows?.[0]?.id as string | undefined;
+  if (!id) throw new Error("Failed to create listing");
+  return id;
+}
+
+async function updateListing(
+  tx: any,
+  productId: string,
+  item: ItemRow,
+  f: ListingFields,
+  status: "active" | "draft" | "archived",
+): Promise<string> {
+  const sku = await freeSku(tx, item.sku, productId);
+  await tx.execute(sql`
+    UPDATE public.products
+    SET
+      title = ${f.title},
+      game = ${f.game}::game,
+      format = ${f.format}::product_format,
+      sealed = ${f.sealed},
+      is_graded = ${f.isGraded},
+      grader = ${f.grader ? sql`${f.grader}::grader` : null},
+      grade_x10 = ${f.gradeX10},
+      condition = ${f.condition ? sql`${f.condition}::card_condition` : null},
+      price_cents = ${f.priceCents},
+      inventory_type = ${f.inventoryType}::inventory_type,
+      status = ${status}::product_status,
+      subtitle = COALESCE(${f.subtitle}, subtitle),
+      description = COALESCE(${f.description}, description),
+      sku = COALESCE(${sku}, sku),
+      source_card_id = COALESCE(${f.sourceCardId}, source_card_id),
+      updated_at = now()
+    WHERE id = ${productId}::uuid
+  `);
+  return productId;
+}
+
+/** product_images mirror the item's photos, in the same order */
+async function syncListingImages(tx: any, itemId: string, productId: string, title: string) {
+  await tx.execute(sql`DELETE FROM public.product_images WHERE product_id = ${productId}::uuid`);
+  await tx.execute(sql`
+    INSERT INTO public.product_images (product_id, url, alt, sort, is_stock)
+    SELECT ${productId}::uuid, url, ${title}, sort_order, false
+    FROM public.inventory_item_images
+    WHERE item_id = ${itemId}::uuid
+    ORDER BY sort_order, created_at
+    ON CONFLICT (product_id, url) DO NOTHING
+  `);
+}
@@ -0,0 +1,159 @@
+// src/lib/inventory/catalogFlow.ts
+//
+// How an inventory item becomes a shop listing, and how its stock is
+// counted. ./catalog.ts writes the listings and stock movements.
+//
+// The inventory item is the source of truth: its stock is the sum of its
+// ledger (inventory_stock_movements), and the linked products row
+// (products.inventory_item_id) is the storefront copy that checkout reads.
+
+/** values of the Postgres `game` enum that listings use */
+export const LISTING_GAMES = ["pokemon", "yugioh", "mtg", "sports", "funko", "collectibles"] as const;
+export type ListingGame = (typeof LISTING_GAMES)[number];
+
+export const LISTING_FORMATS = ["single", "pack", "box", "bundle", "lot", "accessory"] as const;
+export type ListingFormat = (typeof LISTING_FORMATS)[number];
+
+export const LISTING_INVENTORY_TYPES = ["unique", "stock", "infinite"] as const;
+export type ListingInventoryType = (typeof LISTING_INVENTORY_TYPES)[number];
+
+const GRADERS = ["psa", "bgs", "cgc", "sgc"] as const;
+
+/** card_condition enum */
+const CONDITIONS: Record<string, string> = {
+  nm: "nm",
+  "near mint": "nm",
+  mint: "nm",
+  lp: "lp",
+  "lightly played": "lp",
+  mp: "mp",
+  "moderately played": "mp",
+  hp: "hp",
+  "heavily played": "hp",
+  dmg: "dmg",
+  damaged: "dmg",
+  sealed: "new_factory_sealed",
+  new_factory_sealed: "new_factory_sealed",
+  "factory sealed": "new_factory_sealed",
+};
+
+export class CatalogError extends Error {
+  code: string;
+  status: number;
+  constructor(message: string, code: string, status = 400) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export type CatalogItem = {
+  id: string;
+  sku: string | null;
+  title: string;
+  game: string;
+  condition: string;
+  priceCents: number;
+  meta: Record<string, any> | null;
+};
+
+export type ListingFields = {
+  title: string;
+  slug: string;
+  game: ListingGame;
+  format: ListingFormat;
+  inventoryType: ListingInventoryType;
+  sealed: boolean;
+  isGraded: boolean;
+  grader: string | null;
+  gradeX10: number | null;
+  condition: string | null;
+  priceCents: number;
+  sourceCardId: string | null;
+  subtitle: string | null;
+  description: string | null;
+};
+
+export function slugify(input: string): string {
+  return input
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80);
+}
+
+function pick<T extends string>(allowed: readonly T[], v: unknown): T | null {
+  const s = String(v ?? "").trim().toLowerCase();
+  return (allowed as readonly string[]).includes(s) ? (s as T) : null;
+}
+
+function gameFor(item: CatalogItem): ListingGame {
+  return pick(LISTING_GAMES, item.meta?.productGame) ?? pick(LISTING_GAMES, item.game) ?? "collectibles";
+}
+
+function formatFor(item: CatalogItem): ListingFormat {
+  const explicit = pick(LISTING_FORMATS, item.meta?.format);
+  if (explicit) return explicit;
+  if (item.game === "supplies") return "accessory";
+  if (item.game === "sealed") return "box";
+  return "single";
+}
+
+/** meta.grade is the label grade ("9.5"); listings store it x10 */
+function gradeX10For(meta: Record<string, any> | null): number | null {
+  const n = Number(meta?.grade);
+  if (!Number.isFinite(n) || n <= 0 || n > 10) return null;
+  return Math.round(n * 10);
+}
+
+/**
+ * The products row an item publishes as. A graded slab is a one-of-one
+ * unless meta.inventoryType says otherwise.
+ */
+export function listingFromItem(item: CatalogItem): ListingFields {
+  const title = String(item.title ?? "").trim();
+  if (!title) throw new CatalogError("Give the item a title before publishing.", "title_required");
+
+  const priceCents = Math.round(Number(item.priceCents));
+  if (!Number.isFinite(priceCents) || priceCents <= 0) {
+    throw new CatalogError("Set a price before publishing.", "price_required");
+  }
+
+  const meta = item.meta ?? {};
+  const grader = pick(GRADERS, meta.grader);
+  const gradeX10 = grader ? gradeX10For(meta) : null;
+  const isGraded = grader != null && gradeX10 != null;
+  const condition = CONDITIONS[String(item.condition ?? "").trim().toLowerCase()] ?? null;
+  const format = formatFor(item);
+
+  const cardId = String(meta.cardId ?? meta.card_id ?? "").trim();
+  const setName = String(meta.setName ?? meta.set ?? "").trim();
+  const subtitle = String(meta.subtitle ?? "").trim() || setName;
+  const description = String(meta.description ?? "").trim();
+
+  return {
+    title,
+    slug: [slugify(title), slugify(item.sku || item.id.slice(0, 8))].filter(Boolean).join("-"),
+    game: gameFor(item),
+    format,
+    inventoryType: pick(LISTING_INVENTORY_TYPES, meta.inventoryType) ?? (isGraded ? "unique" : "stock"),
+    sealed: condition === "new_factory_sealed" || item.game === "sealed",
+    isGraded,
+    grader: isGraded ? grader : null,
+    gradeX10,
+    condition: isGraded ? null : condition,
+    priceCents,
+    sourceCardId: cardId || null,
+    subtitle: subtitle || null,
+    description: description || null,
+  };
+}
+
+/** inventory_items.status -> products.status */
+export function listingStatusFor(itemStatus: string): "active" | "draft" | "archived" {
+  if (itemStatus === "live") return "active";
+  if (itemStatus === "archived") return "archived";
+  return "draft";
+}
@@ -0,0 +1,138 @@
+// src/lib/notifications/channels.ts
+import "server-only";
+
+import crypto from "node:crypto";
+import { sendEmail } from "@/lib/email";
+import { getUserEmail } from "@/lib/userEmail";
+import { absUrl } from "@/lib/urls";
+import { notificationsTemplate } from "@/emails/templates";
+
+/**
+ * Outbound senders for queued notifications. Each one throws on failure so
+ * the caller can record it and retry later.
+ */
+
+export type OutboundNotification = {
+  id: string;
+  kind: string;
+  title: string;
+  body: string;
+  href: string | null;
+  data: Record<string, unknown>;
+  createdAt: string;
+};
+
+export type OutboundBatch = {
+  userId: string;
+  items: OutboundNotification[];
+  digest: "daily" | "weekly" | null;
+};
+
+const EMAIL_MAX_ITEMS = 20;
+/** Discord caps a message at 10 embeds */
+const DISCORD_MAX_EMBEDS = 10;
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+function batchKey(batch: OutboundBatch) {
+  const ids = batch.items.map((n) => n.id).sort().join(",");
+  return crypto.createHash("sha256").update(ids).digest("hex").slice(0, 32);
+}
+
+function link(href: string | null) {
+  if (!href) return null;
+  return href.startsWith("http") ? href : absUrl(href);
+}
+
+async function postJson(url: string, payload: string, headers: Record<string, string> = {}) {
+  // timeout so a slow endpoint never holds up the run
+  const ac = new AbortController();
+  const t = setTimeout(() => ac.abort(), WEBHOOK_TIMEOUT_MS);
+
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: payload,
+      signal: ac.signal,
+      redirect: "error",
+    });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+export async function sendEmailBatch(batch: OutboundBatch) {
+  const to = await getUserEmail(batch.userId);
+  if (!to) throw new Error("No email address on file");
+
+  const listed = batch.items.slice(0, EMAIL_MAX_ITEMS);
+  const tpl = notificationsTemplate({
+    items: listed.map((n) => ({ title: n.title, body: n.body, href: n.href })),
+    moreCount: Math.max(0, batch.items.length - listed.length),
+    digest: batch.digest,
+  });
+
+  await sendEmail({
+    to,
+    subject: tpl.subject,
+    html: tpl.html,
+    text: tpl.text,
+    idempotencyKey: `notifications:${batch.userId}:${batchKey(batch)}`,
+  });
+}
+
+export async function sendDiscordBatch(webhookUrl: string, batch: OutboundBatch) {
+  const listed = batch.items.slice(0, DISCORD_MAX_EMBEDS);
+  const more = batch.items.length - listed.length;
+
+  const content = [
+    batch.digest ? `**Your ${batch.digest} digest** (${batch.items.length})` : null,
+    more > 0 ? `…and ${more} more: ${absUrl("/notifications")}` : null,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  await postJson(
+    webhookUrl,
+    JSON.stringify({
+      content: content || undefined,
+      embeds: listed.map((n) => ({
+        title: n.title.slice(0, 256),
+        description: n.body.slice(0, 2000),
+        url: link(n.href) ?? undefined,
+        color: 0x2ecc71,
+        timestamp: n.createdAt,
+      })),
+    }),
+  );
+}
+
+/**
+ * Generic webhook: JSON POST signed with HMAC-SHA256 over
+ * `${timestamp}.${body}` in X-Legendary-Signature (sha256=<hex>).
+ */
+export async function sendWebhookBatch(webhookUrl: string, secret: string | null, batch: OutboundBatch) {
+  const body = JSON.stringify({
+    type: "notifications",
+    digest: batch.digest,
+    notifications: batch.items.map((n) => ({
+      id: n.id,
+      kind: n.kind,
+      title: n.title,
+      body: n.body,
+      url: link(n.href),
+      data: n.data,
+      createdAt: n.createdAt,
+    })),
+  });
+
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const headers: Record<string, string> = { "X-Legendary-Timestamp": timestamp };
+  if (secret) {
+    const sig = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+    headers["X-Legendary-Signature"] = `sha256=${sig}`;
+  }
+
+  await postJson(webhookUrl, body, headers);
+}
@@ -0,0 +1,186 @@
+// src/lib/notifications/events.ts
+//
+// Inbox entries for trade, order and wishlist events, with deep links back to
+// what produced them. Alert runners build their own (see src/lib/alerts).
+// Only builds the drafts; notifyUser() files and sends them.
+
+export type NotificationKind =
+  | "price_alert"
+  | "collection_alert"
+  | "trade"
+  | "order"
+  | "wishlist_stock"
+  | "test";
+
+export const NOTIFICATION_KIND_LABELS: Record<NotificationKind, string> = {
+  price_alert: "Price alert",
+  collection_alert: "Collection alert",
+  trade: "Trade",
+  order: "Order",
+  wishlist_stock: "Wishlist",
+  test: "Test",
+};
+
+export function notificationKindLabel(kind: string): string {
+  return NOTIFICATION_KIND_LABELS[kind as NotificationKind] ?? "Notification";
+}
+
+/** the shape notifyUser() takes */
+export type NotificationDraft = {
+  kind: NotificationKind;
+  title: string;
+  body: string;
+  href: string | null;
+  data: Record<string, unknown>;
+};
+
+/* --------------------------------- Trades --------------------------------- */
+
+export type TradeEventType = "offered" | "countered" | "accepted" | "declined" | "cancelled";
+
+export function tradeHref(offerId: string) {
+  return `/trade#offer-${encodeURIComponent(offerId)}`;
+}
+
+/** What the *other* trader sees after `actorHandle` did something to an offer. */
+export function tradeNotification(
+  type: TradeEventType,
+  opts: { offerId: string; actorHandle: string | null },
+): NotificationDraft {
+  const who = opts.actorHandle ? `@${opts.actorHandle}` : "A trader";
+  const copy: Record<TradeEventType, { title: string; body: string }> = {
+    offered: { title: `New trade offer from ${who}`, body: "Review the cards and accept, counter or decline." },
+    countered: { title: `${who} countered your offer`, body: "They replied with different terms." },
+    accepted: { title: `${who} accepted your trade`, body: "The cards have moved between your collections." },
+    declined: { title: `${who} declined your offer`, body: "You can send a new offer any time." },
+    cancelled: { title: `${who} withdrew their offer`, body: "The offer is no longer open." },
+  };
+
+  return {
+    kind: "trade",
+    ...copy[type],
+    href: tradeHref(opts.offerId),
+    data: { offerId: opts.offerId, event: type },
+  };
+}
+
+/* --------------------------------- Orders --------------------------------- */
+
+/** orders.status values, plus "delivered" from order fulfillment */
+export type OrderStatus = "pending" | "paid" | "fulfilled" | "delivered" | "canceled" | "refunded";
+
+function money(cents: number, currency: string) {
+  return `${currency.toUpperCase()} $${(cents / 100).toFixed(2)}`;
+}
+
+export function orderNotification(opts: {
+  orderId: string;
+  status: OrderStatus;
+  totalCents: number;
+  currency: string;
+  stripeSessionId: string | null;
+  detail?: string | null;
+}): NotificationDraft {
+  const ref = `#${opts.orderId.slice(0, 8).toUpperCase()}`;
+  const total = money(opts.totalCents, opts.currency || "usd");
+  const copy: Record<OrderStatus, { title: string; body: string }> = {
+    pending: { title: `Order ${ref} received`, body: `We're waiting on payment for ${total}.` },
+    paid: { title: `Order ${ref} confirmed`, body: `Payment of ${total} received. We'll let you know when it ships.` },
+    fulfilled: { title: `Order ${ref} shipped`, body: "Your order is on its way." },
+    delivered: { title: `Order ${ref} delivered`, body: "Your order has been delivered. Enjoy!" },
+    canceled: { title: `Order ${ref} canceled`, body: "This order was canceled." },
+    refunded: { title: `Order ${ref} refunded`, body: `A refund was issued on your ${total} order.` },
+  };
+
+  const c = copy[opts.status];
+  return {
+    kind: "order",
+    title: c.title,
+    body: opts.detail ? `${c.body} ${opts.detail}` : c.body,
+    href: opts.stripeSessionId ? `/checkout/success?session_id=${encodeURIComponent(opts.stripeSessionId)}` : null,
+    data: { orderId: opts.orderId, status: opts.status },
+  };
+}
+
+/**
+ * One Stripe refund on an order. Each refund gets its own entry, keyed by
+ * `refundId`; it reads as a partial refund until the refunds add up to the
+ * order total.
+ */
+export function refundNotification(opts: {
+  orderId: string;
+  refundId: string;
+  amountCents: number;
+  refundedCents: number;
+  totalCents: number;
+  currency: string;
+  stripeSessionId: string | null;
+}): NotificationDraft {
+  const ref = `#${opts.orderId.slice(0, 8).toUpperCase()}`;
+  const currency = opts.currency || "usd";
+  const amount = money(opts.amountCents, currency);
+  const full = opts.refundedCents >= opts.totalCents;
+
+  return {
+    kind: "order",
+    title: full ? `Order ${ref} refunded` : `Partial refund on order ${ref}`,
+    body: full
+      ? `${amount} was refunded to your original payment method.`
+      : `${amount} was refunded to your original payment method (${money(opts.refundedCents, currency)} of ${money(opts.totalCents, currency)} so far).`,
+    href: opts.stripeSessionId ? `/checkout/success?session_id=${encodeURIComponent(opts.stripeSessionId)}` : null,
+    data: {
+      orderId: opts.orderId,
+      status: full ? "refunded" : "partially_refunded",
+      refundId: opts.refundId,
+      amountCents: opts.amountCents,
+    },
+  };
+}
+
+/** Where customers follow up on an order's returns. */
+export function orderReturnHref(orderId: string) {
+  return `/orders/${encodeURIComponent(orderId)}/return`;
+}
+
+export type ReturnEventStatus = "approved" | "rejected" | "received" | "closed";
+
+export function returnNotification(opts: {
+  orderId: string;
+  returnId: string;
+  status: ReturnEventStatus;
+  note?: string | null;
+}): NotificationDraft {
+  const ref = `#${opts.orderId.slice(0, 8).toUpperCase()}`;
+  const copy: Record<ReturnEventStatus, { title: string; body: string }> = {
+    approved: { title: `Return approved for order ${ref}`, body: "Ship the items back and we'll take it from there." },
+    rejected: { title: `Return declined for order ${ref}`, body: "We couldn't accept this return." },
+    received: { title: `We received your return for order ${ref}`, body: "We're checking the items now." },
+    closed: { title: `Your return for order ${ref} is complete`, body: "Any refund shows up separately." },
+  };
+
+  const c = copy[opts.status];
+  return {
+    kind: "order",
+    title: c.title,
+    body: opts.note ? `${c.body} ${opts.note}` : c.body,
+    href: orderReturnHref(opts.orderId),
+    data: { orderId: opts.orderId, returnId: opts.returnId, returnStatus: opts.status },
+  };
+}
+
+/* -------------------------------- Wishlist -------------------------------- */
+
+export function wishlistStockNotification(opts: {
+  cardName: string;
+  title: string;
+  href: string | null;
+  priceCents: number | null;
+}): NotificationDraft {
+  return {
+    kind: "wishlist_stock",
+    title: `${opts.cardName} is in stock`,
+    body: opts.priceCents != null ? `${opts.title} — $${(opts.priceCents / 100).toFixed(2)}` : opts.title,
+    href: opts.href,
+    data: { priceCents: opts.priceCents },
+  };
+}
@@ -0,0 +1,140 @@
+// src/lib/notifications/inbox.ts
+import "server-only";
+
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { NotificationError } from "@/lib/notifications/policy";
+
+/**
+ * The in-app notification inbox: every row notifyUser() records, newest
+ * first. Archiving hides a notification from the inbox without deleting it.
+ */
+
+export type NotificationView = {
+  id: string;
+  kind: string;
+  title: string;
+  body: string;
+  href: string | null;
+  createdAt: string;
+  readAt: string | null;
+  archivedAt: string | null;
+};
+
+export type NotificationPage = {
+  notifications: NotificationView[];
+  unread: number;
+  /** pass as `before` for the next page; null = no more */
+  nextBefore: string | null;
+};
+
+type Row = {
+  id: string;
+  kind: string;
+  title: string;
+  body: string;
+  href: string | null;
+  created_at: string;
+  read_at: string | null;
+  archived_at: string | null;
+};
+
+const COLS = sql`
+  id::text AS id, kind, title, body, href, created_at::text AS created_at,
+  read_at::text AS read_at, archived_at::text AS archived_at
+`;
+
+function toView(r: Row): NotificationView {
+  return {
+    id: r.id,
+    kind: r.kind,
+    title: r.title,
+    body: r.body,
+    href: r.href,
+    createdAt: r.created_at,
+    readAt: r.read_at,
+    archivedAt: r.archived_at,
+  };
+}
+
+/** Unread, not archived. */
+export async function countUnreadNotifications(userId: string): Promise<number> {
+  const res = await db.execute<{ n: number }>(sql`
+    SELECT COUNT(*)::int AS n
+    FROM public.notifications
+    WHERE user_id = ${userId} AND read_at IS NULL AND archived_at IS NULL
+  `);
+  return Number(res.rows?.[0]?.n ?? 0);
+}
+
+export async function listNotifications(
+  userId: string,
+  opts: { archived?: boolean; before?: string | null; limit?: number } = {},
+): Promise<NotificationPage> {
+  const limit = Math.max(1, Math.min(Math.floor(opts.limit ?? 30), 100));
+  const before = opts.before && Number.isFinite(Date.parse(opts.before)) ? opts.before : null;
+
+  const res = await db.execute<Row>(sql`
+    SELECT ${COLS}
+    FROM public.notifications
+    WHERE user_id = ${userId}
+      AND ${opts.archived ? sql`archived_at IS NOT NULL` : sql`archived_at IS NULL`}
+      ${before ? sql`AND created_at < ${before}::timestamptz` : sql``}
+    ORDER BY created_at DESC
+    LIMIT ${limit + 1}
+  `);
+
+  const rows = res.rows ?? [];
+  const page = rows.slice(0, limit).map(toView);
+  return {
+    notifications: page,
+    unread: await countUnreadNotifications(userId),
+    nextBefore: rows.length > limit ? page[page.length - 1].createdAt : null,
+  };
+}
+
+/** Marks the given notifications (or all of them) read. Returns the new unread count. */
+export async function markNotificationsRead(userId: string, ids: string[] | "all"): Promise<number> {
+  if (ids !== "all" && !ids.length) return countUnreadNotifications(userId);
+
+  await db.execute(sql`
+    UPDATE public.notifications SET read_at = now()
+    WHERE user_id = ${userId}
+      AND read_at IS NULL
+      ${
+        ids === "all"
+          ? sql``
+          : sql`AND id IN (${sql.join(
+              ids.map((id) => sql`${id}::uuid`),
+              sql`, `,
+            )})`
+      }
+  `);
+  return countUnreadNotifications(userId);
+}
+
+/** { read?, archived? } on one notification. Archiving also marks it read. */
+export async function updateNotification(
+  userId: string,
+  id: string,
+  patch: { read?: boolean; archived?: boolean },
+): Promise<NotificationView> {
+  const readAt =
+    patch.archived === true || patch.read === true
+      ? sql`COALESCE(read_at, now())`
+      : patch.read === false
+        ? sql`NULL`
+        : sql`read_at`;
+  const archivedAt =
+    patch.archived === true ? sql`COALESCE(archived_at, now())` : patch.archived === false ? sql`NULL` : sql`archived_at`;
+
+  const res = await db.execute<Row>(sql`
+    UPDATE public.notifications
+    SET read_at = ${readAt}, archived_at = ${archivedAt}
+    WHERE id = ${id}::uuid AND user_id = ${userId}
+    RETURNING ${COLS}
+  `);
+  const row = res.rows?.[0];
+  if (!row) throw new NotificationError("Notification not found.", "not_found", 404);
+  return toView(row);
+}
@@ -0,0 +1,416 @@
+// src/lib/notifications/notifications.ts
+import "server-only";
+
+import crypto from "node:crypto";
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+  DEFAULT_NOTIFICATION_PREFS,
+  deliveryTiming,
+  externalChannels,
+  mergePrefs,
+  normalizeTimezone,
+  readPrefsPatch,
+  type DigestMode,
+  type NotificationChannel,
+  type NotificationPrefs,
+} from "@/lib/notifications/policy";
+import {
+  sendDiscordBatch,
+  sendEmailBatch,
+  sendWebhookBatch,
+  type OutboundBatch,
+  type OutboundNotification,
+} from "@/lib/notifications/channels";
+import { orderNotification, refundNotification, type OrderStatus } from "@/lib/notifications/events";
+
+/**
+ * Notification delivery.
+ *
+ * Everything that wants to tell a user something calls notifyUser(). Each
+ * event becomes a `notifications` row (the in-app inbox), then goes out on
+ * the user's email / Discord / webhook channels right away — unless they're
+ * in quiet hours or on a daily/weekly digest, in which case the row stays
+ * queued (delivered_at NULL) until flushNotifications() picks it up.
+ *
+ * A batch counts as delivered when any channel accepts it; if all of them
+ * fail it's retried on later runs, up to MAX_ATTEMPTS.
+ */
+
+export type NotificationEvent = {
+  kind: string;
+  title: string;
+  body: string;
+  href?: string | null;
+  data?: Record<string, unknown>;
+};
+
+export type NotificationSettings = NotificationPrefs & {
+  /** shown to the owner so they can verify webhook signatures */
+  webhookSecret: string | null;
+  lastDigestAt: string | null;
+};
+
+export type NotificationFlushSummary = {
+  users: number;
+  delivered: number;
+  held: number;
+  failed: number;
+};
+
+type PrefsRow = {
+  email_enabled: boolean;
+  inapp_enabled: boolean;
+  discord_enabled: boolean;
+  discord_webhook_url: string | null;
+  webhook_enabled: boolean;
+  webhook_url: string | null;
+  webhook_secret: string | null;
+  digest: string;
+  quiet_start: number | null;
+  quiet_end: number | null;
+  timezone: string;
+  cooldown_hours: number;
+  last_digest_at: string | null;
+};
+
+type PendingRow = {
+  id: string;
+  kind: string;
+  title: string;
+  body: string;
+  href: string | null;
+  data: Record<string, unknown> | null;
+  created_at: string;
+  attempts: number;
+};
+
+const MAX_ATTEMPTS = 5;
+const MAX_BATCH = 200;
+
+/* -------------------------------- Preferences ------------------------------ */
+
+function toSettings(r: PrefsRow | undefined): NotificationSettings {
+  if (!r) return { ...DEFAULT_NOTIFICATION_PREFS, webhookSecret: null, lastDigestAt: null };
+  return {
+    emailEnabled: r.email_enabled,
+    inAppEnabled: r.inapp_enabled,
+    discordEnabled: r.discord_enabled,
+    discordWebhookUrl: r.discord_webhook_url,
+    webhookEnabled: r.webhook_enabled,
+    webhookUrl: r.webhook_url,
+    digest: (["instant", "daily", "weekly"].includes(r.digest) ? r.digest : "instant") as DigestMode,
+    quietStart: r.quiet_start,
+    quietEnd: r.quiet_end,
+    timezone: normalizeTimezone(r.timezone) ?? "UTC",
+    cooldownHours: Number(r.cooldown_hours),
+    webhookSecret: r.webhook_secret,
+    lastDigestAt: r.last_digest_at,
+  };
+}
+
+/** Stored preferences, or the defaults for users who never saved any. */
+export async function getNotificationSettings(userId: string): Promise<NotificationSettings> {
+  const res = await db.execute<PrefsRow>(sql`
+    SELECT
+      email_enabled, inapp_enabled, discord_enabled, discord_webhook_url,
+      webhook_enabled, webhook_url, webhook_secret, digest, quiet_start, quiet_end,
+      timezone, cooldown_hours, last_digest_at::text AS last_digest_at
+    FROM public.notification_preferences
+    WHERE user_id = ${userId}
+  `);
+  return toSettings(res.rows?.[0]);
+}
+
+/**
+ * Applies a partial update (see readPrefsPatch). A webhook signing secret is
+ * generated the first time a webhook URL is saved, or on `rotateWebhookSecret`.
+ */
+export async function updateNotificationSettings(userId: string, body: unknown): Promise<NotificationSettings> {
+  const current = await getNotificationSettings(userId);
+  const next = mergePrefs(current, readPrefsPatch(body));
+
+  const rotate = Boolean((body as { rotateWebhookSecret?: unknown } | null)?.rotateWebhookSecret);
+  const secret =
+    next.webhookUrl && (rotate || !current.webhookSecret)
+      ? crypto.randomBytes(24).toString("hex")
+      : current.webhookSecret;
+
+  await db.execute(sql`
+    INSERT INTO public.notification_preferences (
+      user_id, email_enabled, inapp_enabled, discord_enabled, discord_webhook_url,
+      webhook_enabled, webhook_url, webhook_secret, digest, quiet_start, quiet_end,
+      timezone, cooldown_hours
+    )
+    VALUES (
+      ${userId}, ${next.emailEnabled}, ${next.inAppEnabled}, ${next.discordEnabled}, ${next.discordWebhookUrl},
+      ${next.webhookEnabled}, ${next.webhookUrl}, ${secret}, ${next.digest}, ${next.quietStart}, ${next.quietEnd},
+      ${next.timezone}, ${next.cooldownHours}
+    )
+    ON CONFLICT (user_id) DO UPDATE SET
+      email_enabled = EXCLUDED.email_enabled,
+      inapp_enabled = EXCLUDED.inapp_enabled,
+      discord_enabled = EXCLUDED.discord_enabled,
+      discord_webhook_url = EXCLUDED.discord_webhook_url,
+      webhook_enabled = EXCLUDED.webhook_enabled,
+      webhook_url = EXCLUDED.webhook_url,
+      webhook_secret = EXCLUDED.webhook_secret,
+      digest = EXCLUDED.digest,
+      quiet_start = EXCLUDED.quiet_start,
+      quiet_end = EXCLUDED.quiet_end,
+      timezone = EXCLUDED.timezone,
+      cooldown_hours = EXCLUDED.cooldown_hours,
+      updated_at = now()
+  `);
+
+  return { ...next, webhookSecret: secret, lastDigestAt: current.lastDigestAt };
+}
+
+/* --------------------------------- Delivery -------------------------------- */
+
+async function sendOn(channel: NotificationChannel, settings: NotificationSettings, batch: OutboundBatch) {
+  if (channel === "email") return sendEmailBatch(batch);
+  if (channel === "discord") return sendDiscordBatch(settings.discordWebhookUrl!, batch);
+  if (channel === "webhook") return sendWebhookBatch(settings.webhookUrl!, settings.webhookSecret, batch);
+}
+
+type DeliveryResult = {
+  /** notifications sent */
+  delivered: number;
+  /** channel -> "sent" or the error */
+  channels: Record<string, string>;
+};
+
+/** Sends everything queued for the user as one batch. */
+async function deliverPending(userId: string, settings: NotificationSettings): Promise<DeliveryResult> {
+  const rows =
+    (
+      await db.execute<PendingRow>(sql`
+        SELECT id::text AS id, kind, title, body, href, data, created_at::text AS created_at, attempts
+        FROM public.notifications
+        WHERE user_id = ${userId}
+          AND delivered_at IS NULL
+          AND attempts < ${MAX_ATTEMPTS}
+        ORDER BY created_at ASC
+        LIMIT ${MAX_BATCH}
+      `)
+    ).rows ?? [];
+  if (!rows.length) return { delivered: 0, channels: {} };
+
+  const items: OutboundNotification[] = rows.map((r) => ({
+    id: r.id,
+    kind: r.kind,
+    title: r.title,
+    body: r.body,
+    href: r.href,
+    data: r.data ?? {},
+    createdAt: r.created_at,
+  }));
+  const digest = settings.digest === "instant" ? null : settings.digest;
+  const batch: OutboundBatch = { userId, items, digest };
+
+  const channels = externalChannels(settings);
+  const results: Record<string, string> = {};
+  for (const channel of channels) {
+    try {
+      await sendOn(channel, settings, batch);
+      results[channel] = "sent";
+    } catch (err) {
+      results[channel] = err instanceof Error ? err.message.slice(0, 200) : "failed";
+      console.error(`[notifications] ${channel} delivery failed for ${userId}`, err);
+    }
+  }
+
+  const sent = !channels.length || Object.values(results).includes("sent");
+  const ids = rows.map((r) => r.id);
+  const giveUp = rows.every((r) => r.attempts + 1 >= MAX_ATTEMPTS);
+
+  await db.execute(sql`
+    UPDATE public.notifications SET
+      attempts = attempts + 1,
+      delivery = ${JSON.stringify(results)}::jsonb,
+      delivered_at = ${sent || giveUp ? sql`now()` : sql`NULL`}
+    WHERE id IN (${sql.join(
+      ids.map((id) => sql`${id}::uuid`),
+      sql`, `,
+    )})
+  `);
+
+  if (sent && digest) {
+    await db.execute(sql`
+      UPDATE public.notification_preferences SET last_digest_at = now() WHERE user_id = ${userId}
+    `);
+  }
+
+  return { delivered: sent ? rows.length : 0, channels: results };
+}
+
+/**
+ * Records events for a user and delivers them now if their preferences
+ * allow; otherwise they wait for the next flush. `force` skips quiet hours
+ * and digests (used for the settings page's test button); `inboxOnly` just
+ * files them in the inbox, for events that already have their own email.
+ */
+export async function notifyUser(
+  userId: string,
+  events: NotificationEvent[],
+  opts: { force?: boolean; inboxOnly?: boolean } = {},
+): Promise<{ queued: number } & DeliveryResult> {
+  if (!events.length) return { queued: 0, delivered: 0, channels: {} };
+
+  const settings = await getNotificationSettings(userId);
+
+  await db.execute(sql`
+    INSERT INTO public.notifications (user_id, kind, title, body, href, data, read_at, delivered_at)
+    VALUES ${sql.join(
+      events.map(
+        (e) => sql`(
+          ${userId}, ${e.kind}, ${e.title.slice(0, 300)}, ${e.body.slice(0, 2000)}, ${e.href ?? null},
+          ${JSON.stringify(e.data ?? {})}::jsonb,
+          ${settings.inAppEnabled ? null : sql`now()`},
+          ${opts.inboxOnly ? sql`now()` : null}
+        )`,
+      ),
+      sql`, `,
+    )}
+  `);
+  if (opts.inboxOnly) return { queued: events.length, delivered: 0, channels: {} };
+
+  const lastDigestAt = settings.lastDigestAt ? new Date(settings.lastDigestAt) : null;
+  if (!opts.force && deliveryTiming(settings, lastDigestAt, new Date()) === "hold") {
+    return { queued: events.length, delivered: 0, channels: {} };
+  }
+
+  return { queued: events.length, ...(await deliverPending(userId, settings)) };
+}
+
+/**
+ * Files an order status change in the customer's inbox (signed-in orders
+ * only; Stripe already emails receipts). Each status is filed once per
+ * order, so webhook retries don't repeat it.
+ */
+export async function notifyOrderStatus(orderId: string, status: OrderStatus, detail?: string | null) {
+  const res = await db.execute<{
+    user_id: string | null;
+    total_cents: number;
+    currency: string;
+    stripe_session_id: string | null;
+    already: boolean;
+  }>(sql`
+    SELECT
+      o.user_id, o.total_cents, o.currency, o.stripe_session_id,
+      EXISTS (
+        SELECT 1 FROM public.notifications n
+        WHERE n.user_id = o.user_id AND n.kind = 'order'
+          AND n.data->>'orderId' = ${orderId} AND n.data->>'status' = ${status}
+      ) AS already
+    FROM public.orders o
+    WHERE o.id = ${orderId}::uuid
+  `);
+  const o = res.rows?.[0];
+  if (!o?.user_id || o.already) return;
+
+  await notifyUser(
+    o.user_id,
+    [
+      orderNotification({
+        orderId,
+        status,
+        totalCents: Number(o.total_cents),
+        currency: o.currency,
+        stripeSessionId: o.stripe_session_id,
+        detail,
+      }),
+    ],
+    { inboxOnly: true },
+  );
+}
+
+/**
+ * Files a succeeded Stripe refund in the customer's inbox. Keyed by the
+ * refund id rather than the order status, so every partial refund is filed
+ * once and webhook retries don't repeat it. Call after the order's refund
+ * totals are synced.
+ */
+export async function notifyOrderRefund(
+  orderId: string,
+  refund: { id: string; amountCents: number; currency: string },
+) {
+  const res = await db.execute<{
+    user_id: string | null;
+    total_cents: number;
+    refunded_cents: number;
+    stripe_session_id: string | null;
+    already: boolean;
+  }>(sql`
+    SELECT
+      o.user_id, o.total_cents, o.refunded_cents, o.stripe_session_id,
+      EXISTS (
+        SELECT 1 FROM public.notifications n
+        WHERE n.user_id = o.user_id AND n.kind = 'order'
+          AND n.data->>'refundId' = ${refund.id}
+      ) AS already
+    FROM public.orders o
+    WHERE o.id = ${orderId}::uuid
+  `);
+  const o = res.rows?.[0];
+  if (!o?.user_id || o.already) return;
+
+  await notifyUser(
+    o.user_id,
+    [
+      refundNotification({
+        orderId,
+        refundId: refund.id,
+        amountCents: refund.amountCents,
+        refundedCents: Number(o.refunded_cents),
+        totalCents: Number(o.total_cents),
+        currency: refund.currency,
+        stripeSessionId: o.stripe_session_id,
+      }),
+    ],
+    { inboxOnly: true },
+  );
+}
+
+/**
+ * Cron: sends queued notifications whose digest is due or whose quiet hours
+ * have ended, plus retries of failed deliveries.
+ */
+export async function flushNotifications(opts: { limit?: number } = {}): Promise<NotificationFlushSummary> {
+  const limit = Math.max(1, Math.min(Math.floor(opts.limit ?? 500), 5000));
+
+  const users =
+    (
+      await db.execute<{ user_id: string }>(sql`
+        SELECT user_id
+        FROM public.notifications
+        WHERE delivered_at IS NULL AND attempts < ${MAX_ATTEMPTS}
+        GROUP BY user_id
+        ORDER BY MIN(created_at) ASC
+        LIMIT ${limit}
+      `)
+    ).rows ?? [];
+
+  const summary: NotificationFlushSummary = { users: 0, delivered: 0, held: 0, failed: 0 };
+  const now = new Date();
+
+  for (const { user_id: userId } of users) {
+    try {
+      const settings = await getNotificationSettings(userId);
+      const lastDigestAt = settings.lastDigestAt ? new Date(settings.lastDigestAt) : null;
+
+      summary.users++;
+      if (deliveryTiming(settings, lastDigestAt, now) === "hold") {
+        summary.held++;
+        continue;
+      }
+      summary.delivered += (await deliverPending(userId, settings)).delivered;
+    } catch (err) {
+      summary.failed++;
+      console.error(`[notifications] flush failed for ${userId}`, err);
+    }
+  }
+
+  return summary;
+}
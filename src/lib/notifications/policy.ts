@@ -0,0 +1,242 @@
+// src/lib/notifications/policy.ts
+//
+// Notification preferences, quiet hours, digests and cooldowns: validates
+// a settings patch and decides whether a notification goes out now or
+// waits. ./notifications.ts stores the settings and does the sending.
+
+export type DigestMode = "instant" | "daily" | "weekly";
+
+export const DIGEST_MODES: DigestMode[] = ["instant", "daily", "weekly"];
+
+export const DIGEST_MODE_LABELS: Record<DigestMode, string> = {
+  instant: "As they happen",
+  daily: "Daily digest",
+  weekly: "Weekly digest",
+};
+
+export type NotificationChannel = "email" | "discord" | "webhook" | "in_app";
+
+export type NotificationPrefs = {
+  emailEnabled: boolean;
+  inAppEnabled: boolean;
+  discordEnabled: boolean;
+  discordWebhookUrl: string | null;
+  webhookEnabled: boolean;
+  webhookUrl: string | null;
+  digest: DigestMode;
+  /** local hours 0-23; equal or null = no quiet hours */
+  quietStart: number | null;
+  quietEnd: number | null;
+  timezone: string;
+  /** default per-alert cooldown */
+  cooldownHours: number;
+};
+
+export const DEFAULT_NOTIFICATION_PREFS: NotificationPrefs = {
+  emailEnabled: true,
+  inAppEnabled: true,
+  discordEnabled: false,
+  discordWebhookUrl: null,
+  webhookEnabled: false,
+  webhookUrl: null,
+  digest: "instant",
+  quietStart: null,
+  quietEnd: null,
+  timezone: "UTC",
+  cooldownHours: 24,
+};
+
+export const MAX_COOLDOWN_HOURS = 24 * 30;
+
+/** presets offered in the alert forms */
+export const COOLDOWN_CHOICES = [1, 6, 24, 72, 168];
+
+export function describeCooldown(hours: number): string {
+  if (hours === 0) return "No cooldown";
+  if (hours % 24 === 0) return hours === 24 ? "Once a day" : hours === 168 ? "Once a week" : `Every ${hours / 24} days`;
+  return hours === 1 ? "Once an hour" : `Every ${hours} hours`;
+}
+
+export class NotificationError extends Error {
+  code: string;
+  status: number;
+
+  constructor(message: string, code: string, status = 400) {
+    super(message);
+    this.name = "NotificationError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+const HOUR_MS = 3_600_000;
+
+/* --------------------------------- Validation ------------------------------ */
+
+export function normalizeTimezone(raw: unknown): string | null {
+  const tz = String(raw ?? "").trim();
+  if (!tz) return null;
+  try {
+    return new Intl.DateTimeFormat("en-US", { timeZone: tz }).resolvedOptions().timeZone;
+  } catch {
+    return null;
+  }
+}
+
+function isPrivateHost(host: string) {
+  const h = host.toLowerCase().replace(/^\[|\]$/g, "");
+  if (h === "localhost" || h.endsWith(".localhost") || h.endsWith(".local") || h.endsWith(".internal")) return true;
+  if (h.includes(":")) return true; // IPv6 literals: not worth the risk
+  const m = h.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (!m) return false;
+  const [a, b] = [Number(m[1]), Number(m[2])];
+  return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168);
+}
+
+/**
+ * Webhook URLs are fetched server-side, so only public https endpoints are
+ * accepted. Discord URLs must be Discord webhook URLs.
+ */
+export function validateWebhookUrl(raw: unknown, kind: "discord" | "webhook"): string {
+  let url: URL;
+  try {
+    url = new URL(String(raw ?? "").trim());
+  } catch {
+    throw new NotificationError("Enter a full https:// URL.", "invalid_url");
+  }
+  if (url.protocol !== "https:") throw new NotificationError("Webhook URLs must use https.", "invalid_url");
+  if (url.username || url.password) throw new NotificationError("Webhook URLs can't include credentials.", "invalid_url");
+
+  if (kind === "discord") {
+    const okHost = ["discord.com", "discordapp.com", "ptb.discord.com", "canary.discord.com"].includes(url.hostname);
+    if (!okHost || !url.pathname.startsWith("/api/webhooks/")) {
+      throw new NotificationError("That isn't a Discord webhook URL.", "invalid_url");
+    }
+  } else if (isPrivateHost(url.hostname)) {
+    throw new NotificationError("Webhook URL must be a public address.", "invalid_url");
+  }
+
+  return url.toString();
+}
+
+function readHour(raw: unknown, label: string): number | null {
+  if (raw === "" || raw == null) return null;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 0 || n > 23) throw new NotificationError(`${label} must be an hour from 0 to 23.`, "invalid_hour");
+  return n;
+}
+
+export function readCooldownHours(raw: unknown): number | null {
+  if (raw === "" || raw == null) return null;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < 0 || n > MAX_COOLDOWN_HOURS) {
+    throw new NotificationError(`Cooldown must be between 0 and ${MAX_COOLDOWN_HOURS} hours.`, "invalid_cooldown");
+  }
+  return Math.round(n);
+}
+
+/** Validates a PUT body into a partial prefs patch (only keys present are changed). */
+export function readPrefsPatch(raw: unknown): Partial<NotificationPrefs> {
+  const b = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const out: Partial<NotificationPrefs> = {};
+
+  for (const key of ["emailEnabled", "inAppEnabled", "discordEnabled", "webhookEnabled"] as const) {
+    if (b[key] !== undefined) out[key] = Boolean(b[key]);
+  }
+
+  if (b.discordWebhookUrl !== undefined) {
+    out.discordWebhookUrl = b.discordWebhookUrl ? validateWebhookUrl(b.discordWebhookUrl, "discord") : null;
+  }
+  if (b.webhookUrl !== undefined) {
+    out.webhookUrl = b.webhookUrl ? validateWebhookUrl(b.webhookUrl, "webhook") : null;
+  }
+
+  if (b.digest !== undefined) {
+    const d = String(b.digest).trim().toLowerCase();
+    if (!(DIGEST_MODES as string[]).includes(d)) throw new NotificationError("Unknown digest setting.", "invalid_digest");
+    out.digest = d as DigestMode;
+  }
+
+  if (b.quietStart !== undefined) out.quietStart = readHour(b.quietStart, "Quiet hours start");
+  if (b.quietEnd !== undefined) out.quietEnd = readHour(b.quietEnd, "Quiet hours end");
+
+  if (b.timezone !== undefined) {
+    const tz = normalizeTimezone(b.timezone);
+    if (!tz) throw new NotificationError("Unknown time zone.", "invalid_timezone");
+    out.timezone = tz;
+  }
+
+  if (b.cooldownHours !== undefined) {
+    out.cooldownHours = readCooldownHours(b.cooldownHours) ?? DEFAULT_NOTIFICATION_PREFS.cooldownHours;
+  }
+
+  return out;
+}
+
+/** Applies a patch and checks the combination still makes sense. */
+export function mergePrefs(current: NotificationPrefs, patch: Partial<NotificationPrefs>): NotificationPrefs {
+  const next = { ...current, ...patch };
+  if (next.discordEnabled && !next.discordWebhookUrl) {
+    throw new NotificationError("Add a Discord webhook URL to turn Discord on.", "missing_url");
+  }
+  if (next.webhookEnabled && !next.webhookUrl) {
+    throw new NotificationError("Add a webhook URL to turn webhooks on.", "missing_url");
+  }
+  return next;
+}
+
+/* ---------------------------------- Timing --------------------------------- */
+
+function localHour(now: Date, timezone: string): number {
+  try {
+    const h = new Intl.DateTimeFormat("en-US", { timeZone: timezone, hour: "numeric", hourCycle: "h23" }).format(now);
+    return Number(h) % 24;
+  } catch {
+    return now.getUTCHours();
+  }
+}
+
+/** Quiet hours are [start, end) in the user's time zone and may wrap midnight. */
+export function isQuietTime(prefs: Pick<NotificationPrefs, "quietStart" | "quietEnd" | "timezone">, now: Date): boolean {
+  const { quietStart: start, quietEnd: end } = prefs;
+  if (start == null || end == null || start === end) return false;
+  const h = localHour(now, prefs.timezone);
+  return start < end ? h >= start && h < end : h >= start || h < end;
+}
+
+/**
+ * A digest is due a period after the last one (an hour of slack so an hourly
+ * cron doesn't slip a day).
+ */
+export function isDigestDue(digest: DigestMode, lastDigestAt: Date | null, now: Date): boolean {
+  if (digest === "instant") return true;
+  if (!lastDigestAt) return true;
+  const periodH = digest === "daily" ? 24 : 24 * 7;
+  return now.getTime() - lastDigestAt.getTime() >= (periodH - 1) * HOUR_MS;
+}
+
+/** Deliver now, or hold for the next digest / the end of quiet hours. */
+export function deliveryTiming(
+  prefs: Pick<NotificationPrefs, "digest" | "quietStart" | "quietEnd" | "timezone">,
+  lastDigestAt: Date | null,
+  now: Date,
+): "now" | "hold" {
+  if (isQuietTime(prefs, now)) return "hold";
+  return prefs.digest === "instant" || isDigestDue(prefs.digest, lastDigestAt, now) ? "now" : "hold";
+}
+
+/** Per-alert cooldown: no repeat notification within `hours` of the last one. */
+export function inCooldown(lastTriggeredAt: Date | string | null, hours: number | null, now: Date): boolean {
+  if (!lastTriggeredAt || !hours) return false;
+  const last = typeof lastTriggeredAt === "string" ? Date.parse(lastTriggeredAt) : lastTriggeredAt.getTime();
+  return Number.isFinite(last) && now.getTime() - last < hours * HOUR_MS;
+}
+
+/** Channels a notification goes out on besides the in-app inbox. */
+export function externalChannels(prefs: NotificationPrefs): NotificationChannel[] {
+  const out: NotificationChannel[] = [];
+  if (prefs.emailEnabled) out.push("email");
+  if (prefs.discordEnabled && prefs.discordWebhookUrl) out.push("discord");
+  if (prefs.webhookEnabled && prefs.webhookUrl) out.push("webhook");
+  return out;
+}
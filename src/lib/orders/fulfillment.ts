@@ -0,0 +1,328 @@
+// src/lib/orders/fulfillment.ts
+import "server-only";
+
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { sendEmail } from "@/lib/email";
+import { orderShipmentTemplate } from "@/emails/templates";
+import { notifyOrderStatus } from "@/lib/notifications/notifications";
+import {
+  CARRIER_LABELS,
+  FULFILLABLE_ORDER_STATUSES,
+  FulfillmentError,
+  buildPickList,
+  formatAddressLines,
+  orderRef,
+  readFulfillmentUpdate,
+  stageIndex,
+  trackingUrl,
+  type Carrier,
+  type FulfillmentStage,
+  type PickLine,
+} from "@/lib/orders/fulfillmentFlow";
+
+/**
+ * Order fulfillment records (see drizzle/000X_order_fulfillment.sql).
+ * Orders without a row are "unfulfilled". Shipping flips orders.status to
+ * 'fulfilled'; the shipped / delivered emails go out once each.
+ */
+
+export type OrderFulfillmentView = {
+  orderId: string;
+  orderStatus: string;
+  stage: FulfillmentStage;
+  carrier: Carrier | null;
+  trackingNumber: string | null;
+  trackingUrl: string | null;
+  note: string | null;
+  pickedAt: string | null;
+  packedAt: string | null;
+  shippedAt: string | null;
+  deliveredAt: string | null;
+  shippedEmailAt: string | null;
+  deliveredEmailAt: string | null;
+};
+
+type Row = {
+  order_id: string;
+  order_status: string;
+  stage: string | null;
+  carrier: string | null;
+  tracking_number: string | null;
+  note: string | null;
+  picked_at: string | null;
+  packed_at: string | null;
+  shipped_at: string | null;
+  delivered_at: string | null;
+  shipped_email_at: string | null;
+  delivered_email_at: string | null;
+};
+
+const SELECT_FULFILLMENT = sql`
+  SELECT
+    o.id::text AS order_id, o.status::text AS order_status,
+    f.stage, f.carrier, f.tracking_number, f.note,
+    f.picked_at::text AS picked_at, f.packed_at::text AS packed_at,
+    f.shipped_at::text AS shipped_at, f.delivered_at::text AS delivered_at,
+    f.shipped_email_at::text AS shipped_email_at, f.delivered_email_at::text AS delivered_email_at
+  FROM public.orders o
+  LEFT JOIN public.order_fulfillments f ON f.order_id = o.id
+`;
+
+function toView(r: Row): OrderFulfillmentView {
+  const carrier = (r.carrier as Carrier | null) ?? null;
+  return {
+    orderId: r.order_id,
+    orderStatus: r.order_status,
+    stage: (r.stage as FulfillmentStage | null) ?? "unfulfilled",
+    carrier,
+    trackingNumber: r.tracking_number,
+    trackingUrl: trackingUrl(carrier, r.tracking_number),
+    note: r.note,
+    pickedAt: r.picked_at,
+    packedAt: r.packed_at,
+    shippedAt: r.shipped_at,
+    deliveredAt: r.delivered_at,
+    shippedEmailAt: r.shipped_email_at,
+    deliveredEmailAt: r.delivered_email_at,
+  };
+}
+
+export async function getOrderFulfillment(orderId: string): Promise<OrderFulfillmentView> {
+  const res = await db.execute<Row>(sql`${SELECT_FULFILLMENT} WHERE o.id = ${orderId}::uuid`);
+  const row = res.rows?.[0];
+  if (!row) throw new FulfillmentError("Order not found.", "not_found", 404);
+  return toView(row);
+}
+
+/**
+ * Applies an admin update ({ stage?, carrier?, trackingNumber?, note? }).
+ * Stages reached along the way get their timestamp filled in, so marking
+ * an order shipped straight away also records it as picked and packed.
+ */
+export async function updateOrderFulfillment(
+  orderId: string,
+  body: any,
+): Promise<{ fulfillment: OrderFulfillmentView; emailed: "shipped" | "delivered" | null }> {
+  await db.transaction(async (tx) => {
+    const res = await tx.execute<Row>(sql`${SELECT_FULFILLMENT} WHERE o.id = ${orderId}::uuid FOR UPDATE OF o`);
+    const row = res.rows?.[0];
+    if (!row) throw new FulfillmentError("Order not found.", "not_found", 404);
+
+    const current = toView(row);
+    if (!(FULFILLABLE_ORDER_STATUSES as readonly string[]).includes(current.orderStatus)) {
+      throw new FulfillmentError(`This order is ${current.orderStatus}; only paid orders can be fulfilled.`, "not_fulfillable", 409);
+    }
+
+    const u = readFulfillmentUpdate(body, current);
+    const reached = (s: FulfillmentStage) => stageIndex(u.stage) >= stageIndex(s);
+    const stamp = (s: FulfillmentStage, col: string) =>
+      reached(s) ? sql`COALESCE(order_fulfillments.${sql.raw(col)}, now())` : sql`order_fulfillments.${sql.raw(col)}`;
+
+    await tx.execute(sql`
+      INSERT INTO public.order_fulfillments (
+        order_id, stage, carrier, tracking_number, note,
+        picked_at, packed_at, shipped_at, delivered_at
+      )
+      VALUES (
+        ${orderId}::uuid, ${u.stage}, ${u.carrier}, ${u.trackingNumber}, ${u.note},
+        ${reached("picked") ? sql`now()` : null},
+        ${reached("packed") ? sql`now()` : null},
+        ${reached("shipped") ? sql`now()` : null},
+        ${reached("delivered") ? sql`now()` : null}
+      )
+      ON CONFLICT (order_id) DO UPDATE SET
+        stage = EXCLUDED.stage,
+        carrier = EXCLUDED.carrier,
+        tracking_number = EXCLUDED.tracking_number,
+        note = EXCLUDED.note,
+        picked_at = ${stamp("picked", "picked_at")},
+        packed_at = ${stamp("packed", "packed_at")},
+        shipped_at = ${stamp("shipped", "shipped_at")},
+        delivered_at = ${stamp("delivered", "delivered_at")},
+        updated_at = now()
+    `);
+
+    if (reached("shipped")) {
+      await tx.execute(sql`
+        UPDATE public.orders SET status = 'fulfilled', updated_at = now()
+        WHERE id = ${orderId}::uuid AND status = 'paid'
+      `);
+    }
+  });
+
+  const emailed = await sendShipmentEmail(orderId);
+  return { fulfillment: await getOrderFulfillment(orderId), emailed };
+}
+
+/**
+ * Emails the customer about the furthest stage reached that they haven't
+ * heard about yet (delivered wins over shipped), and files it in their
+ * inbox. Email failures are logged; the next update retries.
+ */
+async function sendShipmentEmail(orderId: string): Promise<"shipped" | "delivered" | null> {
+  const f = await getOrderFulfillment(orderId);
+  const stage =
+    f.stage === "delivered" && !f.deliveredEmailAt
+      ? "delivered"
+      : f.stage === "shipped" && !f.shippedEmailAt
+        ? "shipped"
+        : null;
+  if (!stage) return null;
+
+  const carrierLabel = f.carrier ? CARRIER_LABELS[f.carrier] : null;
+  try {
+    await notifyOrderStatus(
+      orderId,
+      stage === "shipped" ? "fulfilled" : "delivered",
+      stage === "shipped" && f.trackingNumber ? `${carrierLabel ?? "Tracking"}: ${f.trackingNumber}.` : null,
+    );
+  } catch (e) {
+    console.error("[fulfillment] inbox notification failed", e);
+  }
+
+  const res = await db.execute<{
+    email: string | null;
+    shipping_name: string | null;
+    customer_name: string | null;
+    stripe_session_id: string | null;
+  }>(sql`
+    SELECT email, shipping_name, customer_name, stripe_session_id
+    FROM public.orders WHERE id = ${orderId}::uuid
+  `);
+  const o = res.rows?.[0];
+  if (!o?.email) return null;
+
+  const items = await db.execute<{ title: string; qty: number }>(sql`
+    SELECT title, qty FROM public.order_items WHERE order_id = ${orderId}::uuid ORDER BY created_at, title
+  `);
+
+  const tpl = orderShipmentTemplate({
+    stage,
+    orderRef: orderRef(orderId),
+    name: o.customer_name || o.shipping_name,
+    items: (items.rows ?? []).map((it) => ({ title: it.title, qty: Number(it.qty) })),
+    carrier: carrierLabel,
+    trackingNumber: f.trackingNumber,
+    trackingUrl: f.trackingUrl,
+    orderHref: o.stripe_session_id ? `/checkout/success?session_id=${encodeURIComponent(o.stripe_session_id)}` : null,
+  });
+
+  try {
+    await sendEmail({
+      to: o.email,
+      subject: tpl.subject,
+      html: tpl.html,
+      text: tpl.text,
+      idempotencyKey: `order-${stage}:${orderId}`,
+    });
+  } catch (e) {
+    console.error(`[fulfillment] ${stage} email failed`, e);
+    return null;
+  }
+
+  await db.execute(sql`
+    UPDATE public.order_fulfillments
+    SET ${stage === "shipped" ? sql`shipped_email_at` : sql`delivered_email_at`} = now()
+    WHERE order_id = ${orderId}::uuid
+  `);
+  return stage;
+}
+
+/* ------------------------------- Paperwork -------------------------------- */
+
+export type PackingSlip = {
+  orderId: string;
+  orderRef: string;
+  createdAt: string;
+  shipTo: { name: string | null; lines: string[]; phone: string | null };
+  email: string | null;
+  items: { title: string; qty: number }[];
+  fulfillment: OrderFulfillmentView;
+};
+
+export async function loadPackingSlip(orderId: string): Promise<PackingSlip> {
+  const res = await db.execute<{
+    created_at: string;
+    shipping_name: string | null;
+    customer_name: string | null;
+    shipping_phone: string | null;
+    shipping_address: unknown;
+    email: string | null;
+  }>(sql`
+    SELECT created_at::text AS created_at, shipping_name, customer_name, shipping_phone, shipping_address, email
+    FROM public.orders WHERE id = ${orderId}::uuid
+  `);
+  const o = res.rows?.[0];
+  if (!o) throw new FulfillmentError("Order not found.", "not_found", 404);
+
+  const items = await db.execute<{ title: string; qty: number }>(sql`
+    SELECT title, qty FROM public.order_items WHERE order_id = ${orderId}::uuid ORDER BY created_at, title
+  `);
+
+  return {
+    orderId,
+    orderRef: orderRef(orderId),
+    createdAt: o.created_at,
+    shipTo: {
+      name: o.shipping_name || o.customer_name,
+      lines: formatAddressLines(o.shipping_address),
+      phone: o.shipping_phone,
+    },
+    email: o.email,
+    items: (items.rows ?? []).map((it) => ({ title: it.title, qty: Number(it.qty) })),
+    fulfillment: await getOrderFulfillment(orderId),
+  };
+}
+
+export type PickList = {
+  orders: { id: string; ref: string; shipToName: string | null }[];
+  lines: PickLine[];
+};
+
+const PICK_LIST_MAX_ORDERS = 200;
+
+/**
+ * Everything to pull for the given orders, or, without ids, for every paid
+ * order that hasn't been picked yet (oldest first).
+ */
+export async function loadPickList(orderIds?: string[]): Promise<PickList> {
+  const filter = orderIds?.length
+    ? sql`o.id IN (${sql.join(
+        orderIds.map((id) => sql`${id}::uuid`),
+        sql`, `,
+      )})`
+    : sql`o.status = 'paid' AND COALESCE(f.stage, 'unfulfilled') = 'unfulfilled'`;
+
+  const ordersRes = await db.execute<{ id: string; ship_to: string | null }>(sql`
+    SELECT o.id::text AS id, COALESCE(o.shipping_name, o.customer_name) AS ship_to
+    FROM public.orders o
+    LEFT JOIN public.order_fulfillments f ON f.order_id = o.id
+    WHERE ${filter}
+    ORDER BY o.created_at ASC
+    LIMIT ${PICK_LIST_MAX_ORDERS}
+  `);
+  const orders = ordersRes.rows ?? [];
+  if (!orders.length) return { orders: [], lines: [] };
+
+  const itemsRes = await db.execute<{ order_id: string; product_id: string | null; title: string; qty: number }>(sql`
+    SELECT order_id::text AS order_id, product_id::text AS product_id, title, qty
+    FROM public.order_items
+    WHERE order_id IN (${sql.join(
+      orders.map((o) => sql`${o.id}::uuid`),
+      sql`, `,
+    )})
+  `);
+
+  return {
+    orders: orders.map((o) => ({ id: o.id, ref: orderRef(o.id), shipToName: o.ship_to })),
+    lines: buildPickList(
+      (itemsRes.rows ?? []).map((it) => ({
+        orderId: it.order_id,
+        productId: it.product_id,
+        title: it.title,
+        qty: Number(it.qty),
+      })),
+    ),
+  };
+}
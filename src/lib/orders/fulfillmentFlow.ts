@@ -0,0 +1,152 @@
+// src/lib/orders/fulfillmentFlow.ts
+//
+// Fulfillment stages for a paid order (picked -> packed -> shipped ->
+// delivered), which stage may follow which, carrier tracking links and
+// packing-slip helpers. ./fulfillment.ts applies them to orders.
+
+export const FULFILLMENT_STAGES = ["unfulfilled", "picked", "packed", "shipped", "delivered"] as const;
+export type FulfillmentStage = (typeof FULFILLMENT_STAGES)[number];
+
+export const FULFILLMENT_STAGE_LABELS: Record<FulfillmentStage, string> = {
+  unfulfilled: "Not started",
+  picked: "Picked",
+  packed: "Packed",
+  shipped: "Shipped",
+  delivered: "Delivered",
+};
+
+export const CARRIERS = ["usps", "ups", "fedex", "dhl", "other"] as const;
+export type Carrier = (typeof CARRIERS)[number];
+
+export const CARRIER_LABELS: Record<Carrier, string> = {
+  usps: "USPS",
+  ups: "UPS",
+  fedex: "FedEx",
+  dhl: "DHL",
+  other: "Other",
+};
+
+/** only these order statuses can be worked on */
+export const FULFILLABLE_ORDER_STATUSES = ["paid", "fulfilled"] as const;
+
+export class FulfillmentError extends Error {
+  code: string;
+  status: number;
+  constructor(message: string, code: string, status = 400) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export function stageIndex(stage: FulfillmentStage) {
+  return FULFILLMENT_STAGES.indexOf(stage);
+}
+
+export function isFulfillmentStage(v: unknown): v is FulfillmentStage {
+  return typeof v === "string" && (FULFILLMENT_STAGES as readonly string[]).includes(v);
+}
+
+/** Stages an order at `current` can move to. Skipping ahead is fine; going back is not. */
+export function nextStages(current: FulfillmentStage): FulfillmentStage[] {
+  return FULFILLMENT_STAGES.filter((s) => stageIndex(s) > stageIndex(current));
+}
+
+export function trackingUrl(carrier: Carrier | null, trackingNumber: string | null): string | null {
+  if (!carrier || !trackingNumber) return null;
+  const n = encodeURIComponent(trackingNumber);
+  switch (carrier) {
+    case "usps":
+      return `https://tools.usps.com/go/TrackConfirmAction?tLabels=${n}`;
+    case "ups":
+      return `https://www.ups.com/track?tracknum=${n}`;
+    case "fedex":
+      return `https://www.fedex.com/fedextrack/?trknbr=${n}`;
+    case "dhl":
+      return `https://www.dhl.com/us-en/home/tracking.html?tracking-id=${n}`;
+    default:
+      return null;
+  }
+}
+
+export type FulfillmentUpdate = {
+  stage: FulfillmentStage;
+  carrier: Carrier | null;
+  trackingNumber: string | null;
+  note: string | null;
+};
+
+/**
+ * Validates an admin update against the current stage. Re-sending the
+ * current stage is allowed so tracking details and notes can be corrected.
+ * Shipping needs a carrier and a tracking number.
+ */
+export function readFulfillmentUpdate(
+  body: any,
+  current: { stage: FulfillmentStage; carrier: Carrier | null; trackingNumber: string | null; note: string | null },
+): FulfillmentUpdate {
+  const stage = body?.stage === undefined ? current.stage : String(body.stage).trim().toLowerCase();
+  if (!isFulfillmentStage(stage)) throw new FulfillmentError("Unknown fulfillment stage.", "invalid_stage");
+  if (stageIndex(stage) < stageIndex(current.stage)) {
+    throw new FulfillmentError(
+      `This order is already ${FULFILLMENT_STAGE_LABELS[current.stage].toLowerCase()}.`,
+      "stage_backwards",
+      409,
+    );
+  }
+
+  let carrier = current.carrier;
+  if (body?.carrier !== undefined) {
+    const c = String(body.carrier ?? "").trim().toLowerCase();
+    if (c && !(CARRIERS as readonly string[]).includes(c)) throw new FulfillmentError("Unknown carrier.", "invalid_carrier");
+    carrier = (c || null) as Carrier | null;
+  }
+
+  let trackingNumber = current.trackingNumber;
+  if (body?.trackingNumber !== undefined) {
+    const t = String(body.trackingNumber ?? "").replace(/\s+/g, "").toUpperCase();
+    if (t && !/^[A-Z0-9-]{4,40}$/.test(t)) {
+      throw new FulfillmentError("Tracking numbers are 4–40 letters and digits.", "invalid_tracking");
+    }
+    trackingNumber = t || null;
+  }
+
+  let note = current.note;
+  if (body?.note !== undefined) note = String(body.note ?? "").trim().slice(0, 500) || null;
+
+  if (stageIndex(stage) >= stageIndex("shipped") && (!carrier || !trackingNumber)) {
+    throw new FulfillmentError("Add a carrier and tracking number before shipping.", "tracking_required");
+  }
+
+  return { stage, carrier, trackingNumber, note };
+}
+
+/** Stripe's shipping address JSON as printable lines. */
+export function formatAddressLines(addr: any): string[] {
+  if (!addr || typeof addr !== "object") return [];
+  const cityLine = [addr.city, [addr.state, addr.postal_code].filter(Boolean).join(" ")].filter(Boolean).join(", ");
+  return [addr.line1, addr.line2, cityLine, addr.country]
+    .map((s) => (s == null ? "" : String(s).trim()))
+    .filter(Boolean);
+}
+
+export type PickLine = { productId: string | null; title: string; qty: number; orderIds: string[] };
+
+/** Merges order lines for the same product so each is picked once. */
+export function buildPickList(
+  items: { orderId: string; productId: string | null; title: string; qty: number }[],
+): PickLine[] {
+  const byKey = new Map<string, PickLine>();
+  for (const it of items) {
+    const key = it.productId ?? `title:${it.title}`;
+    const line = byKey.get(key) ?? { productId: it.productId, title: it.title, qty: 0, orderIds: [] };
+    line.qty += it.qty;
+    if (!line.orderIds.includes(it.orderId)) line.orderIds.push(it.orderId);
+    byKey.set(key, line);
+  }
+  return [...byKey.values()].sort((a, b) => a.title.localeCompare(b.title));
+}
+
+export function orderRef(orderId: string) {
+  return `#${orderId.slice(0, 8).toUpperCase()}`;
+}
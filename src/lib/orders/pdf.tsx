@@ -0,0 +1,161 @@
+// src/lib/orders/pdf.tsx
+import "server-only";
+
+import type { ReactElement } from "react";
+import { Document, Page, Text, View, StyleSheet, pdf, type DocumentProps } from "@react-pdf/renderer";
+import type { PackingSlip, PickList } from "@/lib/orders/fulfillment";
+import { CARRIER_LABELS, orderRef } from "@/lib/orders/fulfillmentFlow";
+
+/* ---------- Styles ---------- */
+const styles = StyleSheet.create({
+  page: { padding: 32, fontSize: 10 },
+  h1: { fontSize: 18, marginBottom: 4 },
+  h2: { fontSize: 12, marginTop: 16, marginBottom: 6 },
+  muted: { color: "#555" },
+  columns: { flexDirection: "row", marginTop: 12 },
+  column: { flexGrow: 1, flexBasis: 0 },
+  headRow: { flexDirection: "row", borderBottom: "1px solid #000", paddingBottom: 4, fontSize: 9 },
+  row: { flexDirection: "row", borderBottom: "1px solid #ddd", paddingVertical: 5 },
+  check: { width: 18 },
+  // the built-in fonts have no checkbox glyph
+  box: { width: 9, height: 9, border: "1px solid #000", marginRight: 9, marginTop: 1 },
+  cell: { flexGrow: 1, flexBasis: 0 },
+  qty: { width: 40, textAlign: "right" },
+  orders: { width: 180, fontSize: 8, color: "#555" },
+  footer: { marginTop: 24, fontSize: 9, color: "#555" },
+});
+
+function fmtDate(iso: string) {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? iso : d.toLocaleDateString("en-US", { dateStyle: "medium" });
+}
+
+function PackingSlipDocument({ slip }: { slip: PackingSlip }) {
+  const f = slip.fulfillment;
+  const units = slip.items.reduce((n, it) => n + it.qty, 0);
+
+  return (
+    <Document title={`Packing slip ${slip.orderRef}`}>
+      <Page size="LETTER" style={styles.page}>
+        <Text style={styles.h1}>Packing Slip</Text>
+        <Text style={styles.muted}>
+          Legendary Collectibles · Order {slip.orderRef} · {fmtDate(slip.createdAt)}
+        </Text>
+
+        <View style={styles.columns}>
+          <View style={styles.column}>
+            <Text style={styles.h2}>Ship to</Text>
+            <Text>{slip.shipTo.name || "—"}</Text>
+            {slip.shipTo.lines.map((l, i) => (
+              <Text key={i}>{l}</Text>
+            ))}
+            {slip.shipTo.phone ? <Text style={styles.muted}>{slip.shipTo.phone}</Text> : null}
+          </View>
+          <View style={styles.column}>
+            <Text style={styles.h2}>Shipment</Text>
+            <Text>Carrier: {f.carrier ? CARRIER_LABELS[f.carrier] : "—"}</Text>
+            <Text>Tracking: {f.trackingNumber || "—"}</Text>
+            {slip.email ? <Text style={styles.muted}>{slip.email}</Text> : null}
+          </View>
+        </View>
+
+        <Text style={styles.h2}>Items</Text>
+        <View style={styles.headRow}>
+          <Text style={styles.check}> </Text>
+          <Text style={styles.cell}>Item</Text>
+          <Text style={styles.qty}>Qty</Text>
+        </View>
+        {slip.items.map((it, i) => (
+          <View key={i} style={styles.row} wrap={false}>
+            <View style={styles.box} />
+            <Text style={styles.cell}>{it.title}</Text>
+            <Text style={styles.qty}>{it.qty}</Text>
+          </View>
+        ))}
+        <Text style={{ marginTop: 6, textAlign: "right" }}>Total units: {units}</Text>
+
+        <Text style={styles.footer}>
+          Thank you for your order! Questions or problems? Email support@legendary-collectibles.com with your order
+          number.
+        </Text>
+      </Page>
+    </Document>
+  );
+}
+
+function PickListDocument({ list, generatedAt }: { list: PickList; generatedAt: Date }) {
+  const units = list.lines.reduce((n, l) => n + l.qty, 0);
+
+  return (
+    <Document title="Pick list">
+      <Page size="LETTER" style={styles.page}>
+        <Text style={styles.h1}>Pick List</Text>
+        <Text style={styles.muted}>
+          {generatedAt.toLocaleString("en-US")} · {list.orders.length} order{list.orders.length === 1 ? "" : "s"} ·{" "}
+          {units} unit{units === 1 ? "" : "s"}
+        </Text>
+
+        <Text style={styles.h2}>Pull</Text>
+        <View style={styles.headRow}>
+          <Text style={styles.check}> </Text>
+          <Text style={styles.cell}>Item</Text>
+          <Text style={styles.qty}>Qty</Text>
+          <Text style={styles.orders}>Orders</Text>
+        </View>
+        {list.lines.map((l, i) => (
+          <View key={i} style={styles.row} wrap={false}>
+            <View style={styles.box} />
+            <Text style={styles.cell}>{l.title}</Text>
+            <Text style={styles.qty}>{l.qty}</Text>
+            <Text style={styles.orders}>{l.orderIds.map(orderRef).join(", ")}</Text>
+          </View>
+        ))}
+
+        <Text style={styles.h2}>Orders</Text>
+        {list.orders.map((o) => (
+          <Text key={o.id}>
+            {o.ref} — {o.shipToName || "—"}
+          </Text>
+        ))}
+      </Page>
+    </Document>
+  );
+}
+
+export function packingSlipPdf(slip: PackingSlip) {
+  return pdfResponse(<PackingSlipDocument slip={slip} />, `packing-slip-${slip.orderId.slice(0, 8)}.pdf`);
+}
+
+export function pickListPdf(list: PickList, generatedAt = new Date()) {
+  return pdfResponse(
+    <PickListDocument list={list} generatedAt={generatedAt} />,
+    `pick-list-${generatedAt.toISOString().slice(0, 10)}.pdf`,
+  );
+}
+
+/** Renders a react-pdf document into an inline PDF response. */
+async function pdfResponse(doc: ReactElement<DocumentProps>, filename: string) {
+  const raw: unknown = await pdf(doc).toBuffer();
+
+  let bytes: Uint8Array;
+  if (raw instanceof Uint8Array) {
+    bytes = raw;
+  } else if (raw && typeof (raw as any).getReader === "function") {
+    // Web ReadableStream
+    bytes = new Uint8Array(await new Response(raw as ReadableStream<Uint8Array>).arrayBuffer());
+  } else {
+    bytes = new Uint8Array(await new Response(raw as any).arrayBuffer());
+  }
+
+  // copy into a plain ArrayBuffer (not SharedArrayBuffer) for the Response body
+  const ab = new ArrayBuffer(bytes.byteLength);
+  new Uint8Array(ab).set(bytes);
+
+  return new Response(ab, {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `inline; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,254 @@
+// src/lib/orders/refunds.ts
+import "server-only";
+
+import Stripe from "stripe";
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { notifyOrderRefund } from "@/lib/notifications/notifications";
+import { RefundError, readRefundRequest, refundTotals } from "@/lib/orders/returnsFlow";
+
+/**
+ * Stripe refunds for shop orders. Admins issue full or partial refunds from
+ * /admin/orders/[orderId]; refunds made in the Stripe dashboard arrive via
+ * refund.* webhooks. Either way the refund lands in order_refunds and
+ * orders.refunded_cents / orders.status are recomputed from that table.
+ */
+
+export type OrderRefundView = {
+  id: string;
+  stripeRefundId: string;
+  returnId: string | null;
+  amountCents: number;
+  currency: string;
+  reason: string | null;
+  status: string;
+  failureReason: string | null;
+  createdBy: string | null;
+  createdAt: string;
+};
+
+export type OrderRefundSummary = {
+  orderId: string;
+  orderStatus: string;
+  currency: string;
+  totalCents: number;
+  refundedCents: number;
+  pendingCents: number;
+  remainingCents: number;
+  refunds: OrderRefundView[];
+};
+
+// Request-time only; see src/app/api/stripe/_shared.ts
+function getStripe() {
+  const key = (process.env.STRIPE_SECRET_KEY || "").trim();
+  if (!key) throw new RefundError("Stripe is not configured.", "stripe_not_configured", 500);
+  return new Stripe(key);
+}
+
+export async function getOrderRefunds(orderId: string): Promise<OrderRefundSummary> {
+  const orderRes = await db.execute<{ status: string; currency: string; total_cents: number }>(sql`
+    SELECT status::text AS status, currency, total_cents FROM public.orders WHERE id = ${orderId}::uuid
+  `);
+  const o = orderRes.rows?.[0];
+  if (!o) throw new RefundError("Order not found.", "not_found", 404);
+
+  const res = await db.execute<{
+    id: string;
+    stripe_refund_id: string;
+    return_id: string | null;
+    amount_cents: number;
+    currency: string;
+    reason: string | null;
+    status: string;
+    failure_reason: string | null;
+    created_by: string | null;
+    created_at: string;
+  }>(sql`
+    SELECT
+      id::text AS id, stripe_refund_id, return_id::text AS return_id, amount_cents, currency,
+      reason, status, failure_reason, created_by, created_at::text AS created_at
+    FROM public.order_refunds
+    WHERE order_id = ${orderId}::uuid
+    ORDER BY created_at DESC
+  `);
+
+  const refunds: OrderRefundView[] = (res.rows ?? []).map((r) => ({
+    id: r.id,
+    stripeRefundId: r.stripe_refund_id,
+    returnId: r.return_id,
+    amountCents: Number(r.amount_cents),
+    currency: r.currency,
+    reason: r.reason,
+    status: r.status,
+    failureReason: r.failure_reason,
+    createdBy: r.created_by,
+    createdAt: r.created_at,
+  }));
+
+  const totalCents = Number(o.total_cents);
+  const totals = refundTotals(refunds, totalCents);
+  return {
+    orderId,
+    orderStatus: o.status,
+    currency: o.currency,
+    totalCents,
+    refundedCents: totals.refundedCents,
+    pendingCents: totals.pendingCents,
+    remainingCents: totals.remainingCents,
+    refunds,
+  };
+}
+
+/**
+ * Admin refund: { amountCents?, reason?, returnId? }. No amount refunds
+ * everything that's left.
+ */
+export async function createOrderRefund(
+  orderId: string,
+  body: any,
+  opts: { createdBy?: string | null } = {},
+): Promise<OrderRefundSummary> {
+  const orderRes = await db.execute<{ status: string; payment_intent: string | null }>(sql`
+    SELECT status::text AS status, stripe_payment_intent_id AS payment_intent
+    FROM public.orders WHERE id = ${orderId}::uuid
+  `);
+  const o = orderRes.rows?.[0];
+  if (!o) throw new RefundError("Order not found.", "not_found", 404);
+  if (o.status === "pending" || o.status === "canceled") {
+    throw new RefundError(`This order is ${o.status}; there's no payment to refund.`, "not_refundable", 409);
+  }
+  if (!o.payment_intent) throw new RefundError("This order has no Stripe payment to refund.", "no_payment", 409);
+
+  const summary = await getOrderRefunds(orderId);
+  const { amountCents, reason } = readRefundRequest(body, summary.remainingCents);
+
+  let returnId: string | null = null;
+  if (body?.returnId) {
+    const r = await db.execute<{ id: string }>(sql`
+      SELECT id::text AS id FROM public.order_returns
+      WHERE id = ${String(body.returnId)}::uuid AND order_id = ${orderId}::uuid
+    `);
+    returnId = r.rows?.[0]?.id ?? null;
+    if (!returnId) throw new RefundError("That return isn't on this order.", "invalid_return");
+  }
+
+  // Same order state + amount = same key, so a double click can't refund twice.
+  // Failed/canceled attempts are part of that state, otherwise a retry after a
+  // failure would get Stripe's replay of the failed refund.
+  const failedAttempts = summary.refunds.filter((r) => r.status === "failed" || r.status === "canceled").length;
+  const idempotencyKey = `refund:${orderId}:${summary.refundedCents + summary.pendingCents}:${amountCents}:${failedAttempts}`;
+
+  let refund: Stripe.Refund;
+  try {
+    refund = await getStripe().refunds.create(
+      {
+        payment_intent: o.payment_intent,
+        amount: amountCents,
+        reason,
+        metadata: { orderId, ...(returnId ? { returnId } : {}) },
+      },
+      { idempotencyKey },
+    );
+  } catch (err: any) {
+    if (err instanceof RefundError) throw err;
+    throw new RefundError(err?.message || "Stripe refused the refund.", "stripe_error", 502);
+  }
+
+  await recordStripeRefund(refund, { orderId, returnId, createdBy: opts.createdBy ?? null });
+  return getOrderRefunds(orderId);
+}
+
+/**
+ * Upserts a Stripe refund and recomputes the order's refund totals. Finds
+ * the order from `extra.orderId`, the refund's metadata or its payment
+ * intent. Returns the order id, or null when the refund isn't for a shop
+ * order (e.g. a subscription).
+ */
+export async function recordStripeRefund(
+  refund: Stripe.Refund,
+  extra: { orderId?: string; returnId?: string | null; createdBy?: string | null } = {},
+): Promise<string | null> {
+  const pi = typeof refund.payment_intent === "string" ? refund.payment_intent : refund.payment_intent?.id ?? null;
+  const metaOrderId = refund.metadata?.orderId || null;
+
+  let orderId = extra.orderId ?? null;
+  if (!orderId) {
+    const res = await db.execute<{ id: string }>(sql`
+      SELECT id::text AS id FROM public.orders
+      WHERE ${metaOrderId ? sql`id::text = ${metaOrderId}` : sql`false`}
+         OR ${pi ? sql`stripe_payment_intent_id = ${pi}` : sql`false`}
+      ORDER BY created_at DESC
+      LIMIT 1
+    `);
+    orderId = res.rows?.[0]?.id ?? null;
+  }
+  if (!orderId) return null;
+
+  const returnId = extra.returnId ?? refund.metadata?.returnId ?? null;
+
+  await db.execute(sql`
+    INSERT INTO public.order_refunds (
+      order_id, return_id, stripe_refund_id, amount_cents, currency, reason, status, failure_reason, created_by
+    )
+    VALUES (
+      ${orderId}::uuid, ${returnId ? sql`${returnId}::uuid` : null}, ${refund.id}, ${refund.amount},
+      ${(refund.currency || "usd").toLowerCase()}, ${refund.reason ?? null}, ${refund.status ?? "pending"},
+      ${refund.failure_reason ?? null}, ${extra.createdBy ?? null}
+    )
+    ON CONFLICT (stripe_refund_id) DO UPDATE SET
+      amount_cents = EXCLUDED.amount_cents,
+      status = EXCLUDED.status,
+      failure_reason = EXCLUDED.failure_reason,
+      return_id = COALESCE(order_refunds.return_id, EXCLUDED.return_id),
+      created_by = COALESCE(order_refunds.created_by, EXCLUDED.created_by),
+      updated_at = now()
+  `);
+
+  await syncOrderRefundTotals(orderId);
+
+  if (refund.status === "succeeded") {
+    try {
+      await notifyOrderRefund(orderId, {
+        id: refund.id,
+        amountCents: refund.amount,
+        currency: refund.currency || "usd",
+      });
+    } catch (e) {
+      console.error("[refunds] order notification failed", e);
+    }
+  }
+  return orderId;
+}
+
+/**
+ * orders.refunded_cents = succeeded refunds. The order is 'refunded' once
+ * that covers the total; if a refund is later reversed it goes back to
+ * 'fulfilled' (shipped) or 'paid'.
+ */
+async function syncOrderRefundTotals(orderId: string) {
+  await db.execute(sql`
+    WITH r AS (
+      SELECT COALESCE(SUM(amount_cents), 0)::int AS refunded
+      FROM public.order_refunds
+      WHERE order_id = ${orderId}::uuid AND status = 'succeeded'
+    )
+    UPDATE public.orders o
+    SET
+      refunded_cents = r.refunded,
+      status = CASE
+        WHEN o.total_cents > 0 AND r.refunded >= o.total_cents THEN 'refunded'::order_status
+        WHEN o.status = 'refunded' THEN
+          CASE
+            WHEN EXISTS (
+              SELECT 1 FROM public.order_fulfillments f
+              WHERE f.order_id = o.id AND f.stage IN ('shipped', 'delivered')
+            ) THEN 'fulfilled'::order_status
+            ELSE 'paid'::order_status
+          END
+        ELSE o.status
+      END,
+      updated_at = now()
+    FROM r
+    WHERE o.id = ${orderId}::uuid
+  `);
+}
@@ -0,0 +1,198 @@
+// src/lib/orders/reservations.ts
+import "server-only";
+
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { recordSale } from "@/lib/inventory/catalog";
+import { orderRef } from "@/lib/orders/fulfillmentFlow";
+import {
+  linesToReserve,
+  reservationWindow,
+  type ReservableProduct,
+  type ReservationLine,
+} from "@/lib/orders/reservationsFlow";
+
+/**
+ * Checkout stock holds. A checkout reserves its listings before the Stripe
+ * session is created, so a one-of-one can't sit in two sessions at once.
+ * The hold is converted into SALE stock when the session is paid, and
+ * released when it expires or the cart starts a new checkout.
+ */
+
+export type StockReservation = {
+  /** null when nothing needed holding (only infinite listings) */
+  reservationId: string | null;
+  /** unix seconds, for the Stripe session's expires_at */
+  sessionExpiresAt: number;
+  /** earlier sessions from this cart whose holds were dropped */
+  supersededSessionIds: string[];
+};
+
+export async function reserveStock(input: {
+  cartId: string | null;
+  userId: string | null;
+  lines: ReservationLine[];
+}): Promise<StockReservation> {
+  const { sessionExpiresAt, holdUntil } = reservationWindow();
+  const productIds = [...new Set(input.lines.map((l) => l.productId))];
+
+  return db.transaction(async (tx) => {
+    await expireStaleReservations(tx);
+
+    const superseded = input.cartId
+      ? await tx.execute<{ stripe_session_id: string | null }>(sql`
+          UPDATE public.stock_reservations
+          SET status = 'released', closed_at = now(), updated_at = now()
+          WHERE cart_id = ${input.cartId}::uuid AND status = 'held'
+          RETURNING stripe_session_id
+        `)
+      : { rows: [] };
+
+    if (!productIds.length) {
+      return { reservationId: null, sessionExpiresAt, supersededSessionIds: [] };
+    }
+    const idList = sql.join(
+      productIds.map((id) => sql`${id}::uuid`),
+      sql`, `,
+    );
+
+    // Row locks serialize checkouts racing for the same listing; ordered by
+    // id so two carts never wait on each other.
+    const productsRes = await tx.execute<{ id: string; title: string; inventory_type: string; quantity: number }>(sql`
+      SELECT id::text AS id, title, inventory_type::text AS inventory_type, quantity
+      FROM public.products
+      WHERE id IN (${idList}) AND status = 'active'::product_status
+      ORDER BY id
+      FOR UPDATE
+    `);
+
+    const heldRes = await tx.execute<{ product_id: string; held: number }>(sql`
+      SELECT ri.product_id::text AS product_id, SUM(ri.qty)::int AS held
+      FROM public.stock_reservation_items ri
+      JOIN public.stock_reservations r ON r.id = ri.reservation_id
+      WHERE r.status = 'held' AND ri.product_id IN (${idList})
+      GROUP BY ri.product_id
+    `);
+    const held = new Map((heldRes.rows ?? []).map((r) => [r.product_id, Number(r.held)]));
+
+    const products: ReservableProduct[] = (productsRes.rows ?? []).map((p) => ({
+      productId: p.id,
+      title: p.title,
+      inventoryType: p.inventory_type,
+      quantity: Number(p.quantity),
+      heldQty: held.get(p.id) ?? 0,
+    }));
+
+    const lines = linesToReserve(input.lines, products);
+    const supersededSessionIds = (superseded.rows ?? [])
+      .map((r) => r.stripe_session_id)
+      .filter((id): id is string => Boolean(id));
+    if (!lines.length) return { reservationId: null, sessionExpiresAt, supersededSessionIds };
+
+    const res = await tx.execute<{ id: string }>(sql`
+      INSERT INTO public.stock_reservations (cart_id, user_id, expires_at)
+      VALUES (${input.cartId ? sql`${input.cartId}::uuid` : null}, ${input.userId}, ${holdUntil.toISOString()}::timestamptz)
+      RETURNING id::text AS id
+    `);
+    const reservationId = res.rows?.[0]?.id;
+    if (!reservationId) throw new Error("Failed to reserve stock");
+
+    for (const l of lines) {
+      await tx.execute(sql`
+        INSERT INTO public.stock_reservation_items (reservation_id, product_id, qty)
+        VALUES (${reservationId}::uuid, ${l.productId}::uuid, ${l.qty})
+      `);
+    }
+
+    return { reservationId, sessionExpiresAt, supersededSessionIds };
+  });
+}
+
+export async function attachCheckoutSession(reservationId: string, stripeSessionId: string) {
+  await db.execute(sql`
+    UPDATE public.stock_reservations
+    SET stripe_session_id = ${stripeSessionId}, updated_at = now()
+    WHERE id = ${reservationId}::uuid
+  `);
+}
+
+/** Drops a hold whose Stripe session never got created. */
+export async function releaseReservation(reservationId: string) {
+  await db.execute(sql`
+    UPDATE public.stock_reservations
+    SET status = 'released', closed_at = now(), updated_at = now()
+    WHERE id = ${reservationId}::uuid AND status = 'held'
+  `);
+}
+
+/**
+ * Ends the hold for an expired or abandoned Stripe session. Returns false
+ * when the session had no live hold (already paid, released or never held).
+ */
+export async function releaseCheckoutSession(
+  stripeSessionId: string,
+  status: "released" | "expired" = "expired",
+): Promise<boolean> {
+  const res = await db.execute<{ id: string }>(sql`
+    UPDATE public.stock_reservations
+    SET status = ${status}, closed_at = now(), updated_at = now()
+    WHERE stripe_session_id = ${stripeSessionId} AND status = 'held'
+    RETURNING id::text AS id
+  `);
+  return Boolean(res.rows?.length);
+}
+
+/**
+ * Turns a paid session's hold into stock sold (a SALE movement on the
+ * item's ledger, or a quantity decrement for listings without one).
+ * Runs inside the webhook's order transaction. Returns false when the
+ * session never reserved anything, so the caller can fall back to
+ * decrementing from the line items; a redelivered event is a no-op.
+ */
+export async function convertReservation(tx: any, stripeSessionId: string, orderId: string): Promise<boolean> {
+  const res = await tx.execute(sql`
+    SELECT id::text AS id, status FROM public.stock_reservations
+    WHERE stripe_session_id = ${stripeSessionId}
+    FOR UPDATE
+  `);
+  const r = res.rows?.[0] as { id: string; status: string } | undefined;
+  if (!r) return false;
+  if (r.status === "converted") return true;
+
+  if (r.status !== "held") {
+    // paid after the hold lapsed: still a sale, but someone else may have the stock
+    console.warn("[reservations] converting a lapsed hold", { stripeSessionId, status: r.status });
+  }
+
+  const itemsRes = await tx.execute(sql`
+    SELECT ri.product_id::text AS product_id, ri.qty, p.quantity, p.title
+    FROM public.stock_reservation_items ri
+    JOIN public.products p ON p.id = ri.product_id
+    WHERE ri.reservation_id = ${r.id}::uuid
+  `);
+  const items = (itemsRes.rows ?? []) as { product_id: string; qty: number; quantity: number; title: string }[];
+
+  for (const it of items) {
+    const qty = Number(it.qty);
+    if (Number(it.quantity) < qty) {
+      console.warn("[reservations] oversold", { productId: it.product_id, qty, quantity: it.quantity });
+    }
+    await recordSale(tx, { productId: it.product_id, qty, note: `Order ${orderRef(orderId)}: ${it.title}` });
+  }
+
+  await tx.execute(sql`
+    UPDATE public.stock_reservations
+    SET status = 'converted', order_id = ${orderId}::uuid, closed_at = now(), updated_at = now()
+    WHERE id = ${r.id}::uuid
+  `);
+  return true;
+}
+
+/** Holds past their time stop counting against stock. */
+async function expireStaleReservations(tx: any) {
+  await tx.execute(sql`
+    UPDATE public.stock_reservations
+    SET status = 'expired', closed_at = now(), updated_at = now()
+    WHERE status = 'held' AND expires_at < now()
+  `);
+}
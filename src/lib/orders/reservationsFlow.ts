@@ -0,0 +1,98 @@
+// src/lib/orders/reservationsFlow.ts
+//
+// How much of a listing can still be put in a checkout once other open
+// holds are counted, and how long a checkout may hold it. The holds
+// themselves are stock_reservations rows, managed in ./reservations.ts.
+
+/**
+ * Stripe won't expire a Checkout Session sooner than 30 minutes after it is
+ * created, so that is the shortest hold we can give (plus a minute, so
+ * request latency can't push it under Stripe's floor).
+ */
+export const RESERVATION_TTL_MINUTES = 31;
+
+/**
+ * The hold outlives the Stripe session a little, so a payment completed in
+ * the session's last second still finds its stock held when the webhook
+ * lands.
+ */
+export const RESERVATION_GRACE_MINUTES = 5;
+
+export const RESERVATION_STATUSES = ["held", "converted", "released", "expired"] as const;
+export type ReservationStatus = (typeof RESERVATION_STATUSES)[number];
+
+export class ReservationError extends Error {
+  code: string;
+  status: number;
+  constructor(message: string, code: string, status = 409) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export type ReservableProduct = {
+  productId: string;
+  title: string;
+  inventoryType: string;
+  quantity: number;
+  /** held by other open checkouts */
+  heldQty: number;
+};
+
+/** null = no limit (inventory_type 'infinite') */
+export function availableQty(p: Pick<ReservableProduct, "inventoryType" | "quantity" | "heldQty">): number | null {
+  if (p.inventoryType === "infinite") return null;
+  const onHand = Math.max(0, Math.floor(Number(p.quantity) || 0));
+  // a one-of-one never sells more than once, whatever quantity says
+  const cap = p.inventoryType === "unique" ? Math.min(onHand, 1) : onHand;
+  return Math.max(0, cap - Math.max(0, Number(p.heldQty) || 0));
+}
+
+export type ReservationLine = { productId: string; qty: number };
+
+/**
+ * The lines a checkout should hold, merged by product. Throws with the
+ * first line that can't be covered; infinite listings need no hold and are
+ * left out.
+ */
+export function linesToReserve(lines: ReservationLine[], products: ReservableProduct[]): ReservationLine[] {
+  const wanted = new Map<string, number>();
+  for (const l of lines) {
+    const qty = Math.floor(Number(l.qty) || 0);
+    if (qty <= 0) continue;
+    wanted.set(l.productId, (wanted.get(l.productId) ?? 0) + qty);
+  }
+
+  const byId = new Map(products.map((p) => [p.productId, p]));
+  const out: ReservationLine[] = [];
+  for (const [productId, qty] of wanted) {
+    const p = byId.get(productId);
+    if (!p) throw new ReservationError("An item in your cart is no longer available.", "unavailable");
+
+    const avail = availableQty(p);
+    if (avail === null) continue;
+    if (avail < qty) {
+      throw new ReservationError(
+        avail === 0
+          ? `"${p.title}" is in someone else's checkout or sold out. Remove it to continue.`
+          : `Only ${avail} of "${p.title}" ${avail === 1 ? "is" : "are"} available right now.`,
+        avail === 0 ? "reserved" : "insufficient_stock",
+      );
+    }
+    out.push({ productId, qty });
+  }
+  return out;
+}
+
+/**
+ * When the Stripe session and the hold end. `sessionExpiresAt` is unix
+ * seconds for Checkout's `expires_at`.
+ */
+export function reservationWindow(now = new Date()): { sessionExpiresAt: number; holdUntil: Date } {
+  const sessionEnd = now.getTime() + RESERVATION_TTL_MINUTES * 60_000;
+  return {
+    sessionExpiresAt: Math.floor(sessionEnd / 1000),
+    holdUntil: new Date(sessionEnd + RESERVATION_GRACE_MINUTES * 60_000),
+  };
+}
@@ -0,0 +1,352 @@
+// src/lib/orders/returns.ts
+import "server-only";
+
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { postStockMovement } from "@/lib/inventory/catalog";
+import { notifyUser } from "@/lib/notifications/notifications";
+import { returnNotification, type ReturnEventStatus } from "@/lib/notifications/events";
+import {
+  ReturnError,
+  applyReturnAction,
+  canRequestReturn,
+  movementsForDecision,
+  readReturnRequest,
+  returnValueCents,
+  type ReturnDecision,
+  type ReturnReason,
+  type ReturnStatus,
+  type ReturnableItem,
+} from "@/lib/orders/returnsFlow";
+
+/**
+ * Customer return requests (RMAs). A signed-in customer asks to return
+ * items from their order; staff approve or decline it, mark it received,
+ * then decide per line to restock (back on sale, RETURN movement) or write
+ * it off (RETURN + DAMAGE movements). Refunds are issued separately (see
+ * ./refunds.ts), optionally against a return.
+ */
+
+export type OrderReturnItemView = {
+  id: string;
+  orderItemId: string;
+  title: string;
+  qty: number;
+  unitPriceCents: number;
+  decision: ReturnDecision | null;
+  decidedAt: string | null;
+};
+
+export type OrderReturnView = {
+  id: string;
+  orderId: string;
+  status: ReturnStatus;
+  reasonCode: ReturnReason;
+  customerNote: string | null;
+  adminNote: string | null;
+  createdAt: string;
+  receivedAt: string | null;
+  closedAt: string | null;
+  items: OrderReturnItemView[];
+  /** what the returned items sold for */
+  valueCents: number;
+};
+
+export type ReturnableOrder = {
+  orderId: string;
+  status: string;
+  currency: string;
+  createdAt: string;
+  /** inside the return window and paid / shipped */
+  eligible: boolean;
+  items: (ReturnableItem & { title: string; unitPriceCents: number })[];
+};
+
+export async function listOrderReturns(orderId: string): Promise<OrderReturnView[]> {
+  const res = await db.execute<{
+    id: string;
+    status: string;
+    reason_code: string;
+    customer_note: string | null;
+    admin_note: string | null;
+    created_at: string;
+    received_at: string | null;
+    closed_at: string | null;
+  }>(sql`
+    SELECT
+      id::text AS id, status, reason_code, customer_note, admin_note, created_at::text AS created_at,
+      received_at::text AS received_at, closed_at::text AS closed_at
+    FROM public.order_returns
+    WHERE order_id = ${orderId}::uuid
+    ORDER BY created_at DESC
+  `);
+  const returns = res.rows ?? [];
+  if (!returns.length) return [];
+
+  const itemsRes = await db.execute<{
+    id: string;
+    return_id: string;
+    order_item_id: string;
+    title: string;
+    qty: number;
+    unit_price_cents: number;
+    decision: string | null;
+    decided_at: string | null;
+  }>(sql`
+    SELECT
+      ri.id::text AS id, ri.return_id::text AS return_id, ri.order_item_id::text AS order_item_id,
+      oi.title, ri.qty, oi.unit_price_cents, ri.decision, ri.decided_at::text AS decided_at
+    FROM public.order_return_items ri
+    JOIN public.order_items oi ON oi.id = ri.order_item_id
+    JOIN public.order_returns r ON r.id = ri.return_id
+    WHERE r.order_id = ${orderId}::uuid
+    ORDER BY oi.title
+  `);
+
+  const byReturn = new Map<string, OrderReturnItemView[]>();
+  for (const it of itemsRes.rows ?? []) {
+    const list = byReturn.get(it.return_id) ?? [];
+    list.push({
+      id: it.id,
+      orderItemId: it.order_item_id,
+      title: it.title,
+      qty: Number(it.qty),
+      unitPriceCents: Number(it.unit_price_cents),
+      decision: (it.decision as ReturnDecision | null) ?? null,
+      decidedAt: it.decided_at,
+    });
+    byReturn.set(it.return_id, list);
+  }
+
+  return returns.map((r) => {
+    const items = byReturn.get(r.id) ?? [];
+    return {
+      id: r.id,
+      orderId,
+      status: r.status as ReturnStatus,
+      reasonCode: r.reason_code as ReturnReason,
+      customerNote: r.customer_note,
+      adminNote: r.admin_note,
+      createdAt: r.created_at,
+      receivedAt: r.received_at,
+      closedAt: r.closed_at,
+      items,
+      valueCents: returnValueCents(items),
+    };
+  });
+}
+
+/** The customer's order with how much of each line can still be returned. */
+export async function getReturnableOrder(userId: string, orderId: string): Promise<ReturnableOrder> {
+  const orderRes = await db.execute<{ status: string; currency: string; created_at: string }>(sql`
+    SELECT status::text AS status, currency, created_at::text AS created_at
+    FROM public.orders
+    WHERE id = ${orderId}::uuid AND user_id = ${userId}
+  `);
+  const o = orderRes.rows?.[0];
+  if (!o) throw new ReturnError("Order not found.", "not_found", 404);
+
+  return {
+    orderId,
+    status: o.status,
+    currency: o.currency,
+    createdAt: o.created_at,
+    eligible: canRequestReturn({ status: o.status, createdAt: o.created_at }),
+    items: await returnableItems(db, orderId),
+  };
+}
+
+/**
+ * Order lines with the quantity already on open returns. `lock` first takes
+ * the lines FOR UPDATE, so concurrent requests for the same order queue up;
+ * the sums are read in a later statement, which sees returns committed while
+ * waiting.
+ */
+async function returnableItems(tx: any, orderId: string, opts: { lock?: boolean } = {}): Promise<ReturnableOrder["items"]> {
+  if (opts.lock) {
+    await tx.execute(sql`
+      SELECT id FROM public.order_items WHERE order_id = ${orderId}::uuid FOR UPDATE
+    `);
+  }
+
+  const res = await tx.execute(sql`
+    SELECT
+      oi.id::text AS id, oi.title, oi.qty, oi.unit_price_cents,
+      COALESCE((
+        SELECT SUM(ri.qty)
+        FROM public.order_return_items ri
+        JOIN public.order_returns r ON r.id = ri.return_id
+        WHERE ri.order_item_id = oi.id AND r.status <> 'rejected'
+      ), 0)::int AS requested
+    FROM public.order_items oi
+    WHERE oi.order_id = ${orderId}::uuid
+    ORDER BY oi.created_at, oi.title
+  `);
+
+  const rows = (res.rows ?? []) as { id: string; title: string; qty: number; unit_price_cents: number; requested: number }[];
+  return rows.map((it) => ({
+    orderItemId: it.id,
+    title: it.title,
+    qty: Number(it.qty),
+    unitPriceCents: Number(it.unit_price_cents),
+    requestedQty: Number(it.requested),
+  }));
+}
+
+/** { reasonCode, note?, items: [{ orderItemId, qty }] } from the order's owner. */
+export async function createReturnRequest(userId: string, orderId: string, body: any): Promise<OrderReturnView> {
+  const order = await getReturnableOrder(userId, orderId);
+  if (!order.eligible) {
+    throw new ReturnError("This order can no longer be returned online. Contact support and we'll help.", "not_returnable", 409);
+  }
+
+  await db.transaction(async (tx) => {
+    // Validate against the locked lines, so a return filed at the same time
+    // can't take the same quantity.
+    const req = readReturnRequest(body, await returnableItems(tx, orderId, { lock: true }));
+
+    const res = await tx.execute<{ id: string }>(sql`
+      INSERT INTO public.order_returns (order_id, user_id, reason_code, customer_note)
+      VALUES (${orderId}::uuid, ${userId}, ${req.reasonCode}, ${req.note})
+      RETURNING id::text AS id
+    `);
+    const returnId = res.rows?.[0]?.id;
+    if (!returnId) throw new Error("Failed to create return");
+
+    for (const it of req.items) {
+      await tx.execute(sql`
+        INSERT INTO public.order_return_items (return_id, order_item_id, qty)
+        VALUES (${returnId}::uuid, ${it.orderItemId}::uuid, ${it.qty})
+      `);
+    }
+  });
+
+  const [created] = await listOrderReturns(orderId);
+  return created;
+}
+
+/**
+ * Admin update: { action?: "approve"|"reject"|"receive", adminNote?,
+ * decisions?: [{ itemId, decision: "restock"|"write_off" }] }.
+ * Decisions need the items back (status received); once every line is
+ * decided the return closes. Returns the updated return and how many
+ * ledger movements were posted.
+ */
+export async function updateReturn(
+  orderId: string,
+  returnId: string,
+  body: any,
+): Promise<{ ret: OrderReturnView; movements: number }> {
+  const result = await db.transaction(async (tx) => {
+    const res = await tx.execute<{ status: string; user_id: string; admin_note: string | null }>(sql`
+      SELECT status, user_id, admin_note FROM public.order_returns
+      WHERE id = ${returnId}::uuid AND order_id = ${orderId}::uuid
+      FOR UPDATE
+    `);
+    const row = res.rows?.[0];
+    if (!row) throw new ReturnError("Return not found.", "not_found", 404);
+
+    let status = row.status as ReturnStatus;
+    const events: ReturnEventStatus[] = [];
+
+    if (body?.action) {
+      status = applyReturnAction(status, String(body.action));
+      events.push(status as ReturnEventStatus);
+    }
+
+    const adminNote = body?.adminNote === undefined ? row.admin_note : String(body.adminNote ?? "").trim().slice(0, 1000) || null;
+
+    let movements = 0;
+    const decisions: { itemId: string; decision: ReturnDecision }[] = Array.isArray(body?.decisions) ? body.decisions : [];
+    if (decisions.length) {
+      if (status !== "received") throw new ReturnError("Mark the return received before deciding on items.", "not_received", 409);
+
+      for (const d of decisions) {
+        if (d?.decision !== "restock" && d?.decision !== "write_off") {
+          throw new ReturnError("Decide restock or write off.", "invalid_decision");
+        }
+        movements += await decideItem(tx, returnId, String(d.itemId ?? ""), d.decision);
+      }
+
+      const open = await tx.execute<{ n: number }>(sql`
+        SELECT COUNT(*)::int AS n FROM public.order_return_items
+        WHERE return_id = ${returnId}::uuid AND decision IS NULL
+      `);
+      if (Number(open.rows?.[0]?.n ?? 0) === 0) {
+        status = "closed";
+        events.push("closed");
+      }
+    }
+
+    await tx.execute(sql`
+      UPDATE public.order_returns
+      SET
+        status = ${status},
+        admin_note = ${adminNote},
+        received_at = ${status === "received" ? sql`COALESCE(received_at, now())` : sql`received_at`},
+        closed_at = ${status === "closed" ? sql`COALESCE(closed_at, now())` : sql`closed_at`},
+        updated_at = now()
+      WHERE id = ${returnId}::uuid
+    `);
+
+    return { userId: row.user_id, events, movements };
+  });
+
+  for (const status of result.events) {
+    try {
+      await notifyUser(result.userId, [returnNotification({ orderId, returnId, status })], { inboxOnly: true });
+    } catch (e) {
+      console.error("[returns] notification failed", e);
+    }
+  }
+
+  const ret = (await listOrderReturns(orderId)).find((r) => r.id === returnId);
+  if (!ret) throw new ReturnError("Return not found.", "not_found", 404);
+  return { ret, movements: result.movements };
+}
+
+/**
+ * Records one line's decision. Listings published from an inventory item
+ * get the movements on that item's ledger (which sets their quantity);
+ * other listings just get restocked units back.
+ */
+async function decideItem(tx: any, returnId: string, itemId: string, decision: ReturnDecision): Promise<number> {
+  const res = await tx.execute(sql`
+    UPDATE public.order_return_items ri
+    SET decision = ${decision}, decided_at = now()
+    FROM public.order_items oi
+    LEFT JOIN public.products p ON p.id = oi.product_id
+    WHERE ri.id = ${itemId}::uuid
+      AND ri.return_id = ${returnId}::uuid
+      AND ri.decision IS NULL
+      AND oi.id = ri.order_item_id
+    RETURNING ri.qty, oi.title, p.id::text AS product_id, p.inventory_item_id::text AS inventory_item_id
+  `);
+  const row = res.rows?.[0] as
+    | { qty: number; title: string; product_id: string | null; inventory_item_id: string | null }
+    | undefined;
+  if (!row) throw new ReturnError("That item is already decided or isn't on this return.", "invalid_item", 409);
+
+  const qty = Number(row.qty);
+  if (!row.inventory_item_id) {
+    if (decision === "restock" && row.product_id) {
+      await tx.execute(sql`
+        UPDATE public.products
+        SET quantity = COALESCE(quantity, 0) + ${qty}, updated_at = now()
+        WHERE id = ${row.product_id}::uuid
+      `);
+    }
+    return 0;
+  }
+
+  const moves = movementsForDecision(decision, qty);
+  for (const m of moves) {
+    await postStockMovement(tx, {
+      itemId: row.inventory_item_id,
+      delta: m.delta,
+      reason: m.reason,
+      note: `Return ${returnId.slice(0, 8)}: ${row.title}`,
+    });
+  }
+  return moves.length;
+}
@@ -0,0 +1,196 @@
+// src/lib/orders/returnsFlow.ts
+//
+// Refund amounts, return (RMA) requests and what a return decision does to
+// stock: request parsing, how much of an order is still refundable and
+// which status moves are allowed. ./refunds.ts talks to Stripe and
+// ./returns.ts stores the returns.
+
+/* --------------------------------- Refunds -------------------------------- */
+
+export const REFUND_REASONS = ["requested_by_customer", "duplicate", "fraudulent"] as const;
+export type RefundReason = (typeof REFUND_REASONS)[number];
+
+export const REFUND_REASON_LABELS: Record<RefundReason, string> = {
+  requested_by_customer: "Requested by customer",
+  duplicate: "Duplicate charge",
+  fraudulent: "Fraudulent",
+};
+
+/** mirrors Stripe's Refund.status */
+export type RefundStatus = "pending" | "requires_action" | "succeeded" | "failed" | "canceled";
+
+export class RefundError extends Error {
+  code: string;
+  status: number;
+  constructor(message: string, code: string, status = 400) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export type RefundTotals = {
+  /** money that has actually gone back */
+  refundedCents: number;
+  /** refunds Stripe is still working on */
+  pendingCents: number;
+  /** what can still be refunded */
+  remainingCents: number;
+  fullyRefunded: boolean;
+};
+
+export function refundTotals(refunds: { amountCents: number; status: string }[], totalCents: number): RefundTotals {
+  const sum = (statuses: string[]) =>
+    refunds.filter((r) => statuses.includes(r.status)).reduce((n, r) => n + r.amountCents, 0);
+  const refundedCents = sum(["succeeded"]);
+  const pendingCents = sum(["pending", "requires_action"]);
+  return {
+    refundedCents,
+    pendingCents,
+    remainingCents: Math.max(0, totalCents - refundedCents - pendingCents),
+    fullyRefunded: totalCents > 0 && refundedCents >= totalCents,
+  };
+}
+
+/**
+ * { amountCents?, reason? } from an admin. No amount = refund whatever is
+ * left (a full refund on an untouched order).
+ */
+export function readRefundRequest(body: any, remainingCents: number): { amountCents: number; reason: RefundReason } {
+  if (remainingCents <= 0) throw new RefundError("This order has nothing left to refund.", "nothing_to_refund", 409);
+
+  let amountCents = remainingCents;
+  if (body?.amountCents !== undefined && body?.amountCents !== null && body?.amountCents !== "") {
+    amountCents = Number(body.amountCents);
+    if (!Number.isInteger(amountCents) || amountCents <= 0) {
+      throw new RefundError("Refund amount must be a positive number of cents.", "invalid_amount");
+    }
+    if (amountCents > remainingCents) {
+      throw new RefundError(`At most ${(remainingCents / 100).toFixed(2)} can still be refunded.`, "amount_too_large");
+    }
+  }
+
+  const reason = String(body?.reason ?? "requested_by_customer").trim() as RefundReason;
+  if (!REFUND_REASONS.includes(reason)) throw new RefundError("Unknown refund reason.", "invalid_reason");
+
+  return { amountCents, reason };
+}
+
+/* --------------------------------- Returns -------------------------------- */
+
+export const RETURN_WINDOW_DAYS = 30;
+
+export const RETURN_REASONS = ["damaged_in_transit", "not_as_described", "wrong_item", "changed_mind", "other"] as const;
+export type ReturnReason = (typeof RETURN_REASONS)[number];
+
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  damaged_in_transit: "Arrived damaged",
+  not_as_described: "Not as described",
+  wrong_item: "Wrong item sent",
+  changed_mind: "Changed my mind",
+  other: "Other",
+};
+
+export const RETURN_STATUSES = ["requested", "approved", "rejected", "received", "closed"] as const;
+export type ReturnStatus = (typeof RETURN_STATUSES)[number];
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: "Requested",
+  approved: "Approved — ship it back",
+  rejected: "Declined",
+  received: "Received",
+  closed: "Closed",
+};
+
+export type ReturnDecision = "restock" | "write_off";
+
+export class ReturnError extends Error {
+  code: string;
+  status: number;
+  constructor(message: string, code: string, status = 400) {
+    super(message);
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export type ReturnableItem = {
+  orderItemId: string;
+  qty: number;
+  /** already on open or finished (not rejected) returns */
+  requestedQty: number;
+};
+
+export function canRequestReturn(order: { status: string; createdAt: string | Date }, now = new Date()) {
+  if (order.status !== "paid" && order.status !== "fulfilled") return false;
+  const created = new Date(order.createdAt).getTime();
+  return Number.isFinite(created) && now.getTime() - created <= RETURN_WINDOW_DAYS * 86_400_000;
+}
+
+/** { reasonCode, note?, items: [{ orderItemId, qty }] } from a customer. */
+export function readReturnRequest(
+  body: any,
+  returnable: ReturnableItem[],
+): { reasonCode: ReturnReason; note: string | null; items: { orderItemId: string; qty: number }[] } {
+  const reasonCode = String(body?.reasonCode ?? "").trim() as ReturnReason;
+  if (!RETURN_REASONS.includes(reasonCode)) throw new ReturnError("Pick a reason for the return.", "invalid_reason");
+
+  const note = String(body?.note ?? "").trim().slice(0, 1000) || null;
+  if (reasonCode === "other" && !note) throw new ReturnError("Tell us a bit about the problem.", "note_required");
+
+  const byId = new Map(returnable.map((r) => [r.orderItemId, r]));
+  const items: { orderItemId: string; qty: number }[] = [];
+  for (const raw of Array.isArray(body?.items) ? body.items : []) {
+    const qty = Number(raw?.qty);
+    if (!Number.isInteger(qty) || qty <= 0) continue;
+
+    const it = byId.get(String(raw?.orderItemId ?? ""));
+    if (!it) throw new ReturnError("That item isn't part of this order.", "invalid_item");
+    if (qty > it.qty - it.requestedQty) {
+      throw new ReturnError("You've asked to return more than you can.", "qty_too_large");
+    }
+    items.push({ orderItemId: it.orderItemId, qty });
+  }
+  if (!items.length) throw new ReturnError("Choose at least one item to return.", "no_items");
+
+  return { reasonCode, note, items };
+}
+
+const TRANSITIONS: Record<string, { from: ReturnStatus[]; to: ReturnStatus }> = {
+  approve: { from: ["requested"], to: "approved" },
+  reject: { from: ["requested", "approved"], to: "rejected" },
+  receive: { from: ["approved"], to: "received" },
+};
+
+export type ReturnAction = keyof typeof TRANSITIONS;
+
+export function applyReturnAction(status: ReturnStatus, action: string): ReturnStatus {
+  const t = TRANSITIONS[action];
+  if (!t) throw new ReturnError("Unknown action.", "invalid_action");
+  if (!t.from.includes(status)) {
+    throw new ReturnError(`Can't ${action} a return that is ${status}.`, "invalid_transition", 409);
+  }
+  return t.to;
+}
+
+/** What the returned items were sold for: a starting point for the refund. */
+export function returnValueCents(items: { qty: number; unitPriceCents: number }[]) {
+  return items.reduce((n, it) => n + it.qty * it.unitPriceCents, 0);
+}
+
+export type StockMovement = { reason: "RETURN" | "DAMAGE"; delta: number };
+
+/**
+ * Ledger entries for a decided return line. A restocked unit comes back
+ * into stock; a written-off unit comes back and is immediately written off,
+ * so the ledger shows both without changing what's on hand.
+ */
+export function movementsForDecision(decision: ReturnDecision, qty: number): StockMovement[] {
+  if (qty <= 0) return [];
+  return decision === "restock"
+    ? [{ reason: "RETURN", delta: qty }]
+    : [
+        { reason: "RETURN", delta: qty },
+        { reason: "DAMAGE", delta: -qty },
+      ];
+}
@@ -46,6 +46,7 @@ export type Plan = {
     // Analytics
     collectionValuations: boolean;
     advancedLtvTools: boolean;
+    portfolioPerformance: boolean; // TWR / MWR, risk, attribution, benchmarks
   };
 };
 
@@ -82,6 +83,7 @@ export const PLANS: Record<PlanId, Plan> = {
 
       collectionValuations: false,
       advancedLtvTools: false,
+      portfolioPerformance: false,
     },
   },
 
@@ -115,6 +117,7 @@ export const PLANS: Record<PlanId, Plan> = {
 
       collectionValuations: true,
       advancedLtvTools: false,
+      portfolioPerformance: false,
     },
   },
 
@@ -149,6 +152,7 @@ export const PLANS: Record<PlanId, Plan> = {
 
       collectionValuations: true,
       advancedLtvTools: true,
+      portfolioPerformance: true,
     },
   },
 };
@@ -226,6 +230,10 @@ export function canUseAdvancedLtvTools(plan: Plan): boolean {
   return plan.features.advancedLtvTools;
 }
 
+export function canSeePortfolioPerformance(plan: Plan): boolean {
+  return plan.features.portfolioPerformance;
+}
+
 export function canUsePriceAlerts(plan: Plan): boolean {
   return plan.features.priceAlerts;
 }
@@ -277,6 +285,7 @@ export function planCapabilities(plan: Plan) {
     canExportCsv: canExportCsv(plan),
     canGenerateInsuranceReport: canSeeInsuranceReports(plan),
     canUseAdvancedLtvTools: canUseAdvancedLtvTools(plan),
+    canSeePortfolioPerformance: canSeePortfolioPerformance(plan),
     canUsePriceAlerts: canUsePriceAlerts(plan),
     canShowAmazonCtas: canShowAmazonCtas(plan),
     canShowEbayCtas: canShowEbayCtas(plan),
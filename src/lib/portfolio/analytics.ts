@@ -0,0 +1,334 @@
+// src/lib/portfolio/analytics.ts
+import "server-only";
+
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { normalizeGame } from "@/lib/livePrices";
+import { loadFxTable } from "@/lib/fx/rates";
+import type { FxCurrency, FxTable } from "@/lib/fx/table";
+import {
+  attribute,
+  benchmarkKeyPrefixes,
+  chainIndex,
+  compareIndexes,
+  drawdown,
+  moneyWeightedReturn,
+  timeWeightedReturn,
+  volatility,
+  type AttributionInput,
+  type AttributionRow,
+  type BenchmarkSpec,
+  type CashFlow,
+  type Comparison,
+  type Drawdown,
+  type IndexPoint,
+  type ValuePoint,
+} from "@/lib/portfolio/performance";
+
+/**
+ * Performance of a user's collection over a window: daily snapshots from
+ * user_collection_daily_valuations, cash in from acquisitions (current
+ * rows and lots that have since been sold) and cash out from
+ * user_collection_sales. All money is in hundredths of `currency`, each
+ * day converted at that day's rate.
+ */
+
+export type PortfolioPerformance = {
+  currency: FxCurrency;
+  from: string | null;
+  to: string | null;
+  snapshots: number;
+  startValueCents: number;
+  endValueCents: number;
+  /** bought minus sold over the window */
+  netFlowsCents: number;
+  /** change in value not explained by buying or selling */
+  gainCents: number;
+  twr: { total: number; annualized: number | null } | null;
+  /** yearly; null when it has no solution */
+  mwr: number | null;
+  drawdown: Drawdown | null;
+  volatility: number | null;
+  index: IndexPoint[];
+  benchmark: {
+    id: string;
+    label: string;
+    index: IndexPoint[];
+    comparison: Comparison | null;
+  } | null;
+  attribution: {
+    byGame: AttributionRow[];
+    /** null when the window starts before snapshots recorded sets */
+    bySet: AttributionRow[] | null;
+  };
+};
+
+type GroupedFlow = CashFlow & { game: string; set: string | null };
+
+type Breakdown = {
+  byGame?: Record<string, { totalValueCents?: number }>;
+  bySet?: Record<string, { game?: string; set?: string; totalValueCents?: number }>;
+};
+
+function isoDaysAgo(days: number): string {
+  const d = new Date();
+  d.setUTCDate(d.getUTCDate() - days);
+  return d.toISOString().slice(0, 10);
+}
+
+function gameKey(raw: string | null | undefined): string {
+  const v = String(raw ?? "").trim().toLowerCase();
+  return normalizeGame(v) ?? (v || "other");
+}
+
+function setKey(game: string, set: string | null | undefined): string | null {
+  const s = String(set ?? "").trim();
+  return s ? `${game}|${s}` : null;
+}
+
+async function loadFlows(userId: string, after: string): Promise<GroupedFlow[]> {
+  // Acquisitions still held. Rows with no cost fall back to their first
+  // valuation so a gifted card isn't counted as a 100% gain.
+  const held = await db.execute<{ game: string | null; set_name: string | null; date: string; cents: string | null }>(sql`
+    SELECT
+      i.game,
+      i.set_name,
+      COALESCE(i.purchase_date, i.created_at::date)::text AS date,
+      COALESCE(NULLIF(i.cost_cents, 0) * i.quantity, fv.value_cents, i.last_value_cents, 0)::text AS cents
+    FROM user_collection_items i
+    LEFT JOIN LATERAL (
+      SELECT v.value_cents
+      FROM user_collection_item_valuations v
+      WHERE v.item_id = i.id
+      ORDER BY v.as_of_date ASC
+      LIMIT 1
+    ) fv ON true
+    WHERE i.user_id = ${userId}
+      AND COALESCE(i.purchase_date, i.created_at::date) > ${after}::date
+  `);
+
+  const flows: GroupedFlow[] = (held.rows ?? []).map((r) => ({
+    date: r.date,
+    amount: Number(r.cents ?? 0),
+    game: gameKey(r.game),
+    set: r.set_name,
+  }));
+
+  try {
+    // Acquisitions of copies that have since been sold
+    const soldLots = await db.execute<{ game: string; set_name: string | null; date: string; cents: string | null }>(sql`
+      SELECT s.game, s.set_name, l.acquired_at::text AS date, (l.quantity * l.cost_each_cents)::text AS cents
+      FROM user_collection_sale_lots l
+      JOIN user_collection_sales s ON s.id = l.sale_id
+      WHERE s.user_id = ${userId}
+        AND l.acquired_at > ${after}::date
+    `);
+    for (const r of soldLots.rows ?? []) {
+      flows.push({ date: r.date, amount: Number(r.cents ?? 0), game: gameKey(r.game), set: r.set_name });
+    }
+
+    // Money out: net proceeds for a sale, cost basis for a disposal
+    const sales = await db.execute<{ game: string; set_name: string | null; date: string; cents: string | null }>(sql`
+      SELECT
+        s.game,
+        s.set_name,
+        s.sold_at::text AS date,
+        (CASE
+          WHEN s.kind = 'sale' THEN s.gross_proceeds_cents - s.fees_cents - s.shipping_cents
+          ELSE COALESCE((
+            SELECT SUM(l.quantity * l.cost_each_cents)
+            FROM user_collection_sale_lots l
+            WHERE l.sale_id = s.id
+          ), 0)
+        END)::text AS cents
+      FROM user_collection_sales s
+      WHERE s.user_id = ${userId}
+        AND s.sold_at > ${after}::date
+    `);
+    for (const r of sales.rows ?? []) {
+      flows.push({ date: r.date, amount: -Number(r.cents ?? 0), game: gameKey(r.game), set: r.set_name });
+    }
+  } catch (err: any) {
+    // sales tables (or set_name) not migrated yet
+    if (err?.code !== "42P01" && err?.code !== "42703") throw err;
+  }
+
+  return flows;
+}
+
+/**
+ * Equal-weight index of every ungraded card in the benchmark: each day's
+ * return is the average move of the cards that were worth at least
+ * `minUsd` on their previous snapshot. In USD.
+ */
+async function loadBenchmarkIndex(spec: BenchmarkSpec, from: string, to: string): Promise<IndexPoint[]> {
+  const prefixes = benchmarkKeyPrefixes(spec.game);
+  const gameFilter = prefixes.length
+    ? sql`AND (${sql.join(prefixes.map((p) => sql`card_key LIKE ${`${p}%`}`), sql` OR `)})`
+    : sql``;
+
+  try {
+    const res = await db.execute<{ date: string; ret: string | null }>(sql`
+      WITH d AS (
+        SELECT
+          as_of_date,
+          market_value_usd::float8 AS v,
+          LAG(market_value_usd::float8) OVER w AS prev_v,
+          LAG(as_of_date) OVER w AS prev_date
+        FROM public.market_values_daily
+        WHERE grade = 'Ungraded'
+          AND as_of_date BETWEEN ${from}::date - 7 AND ${to}::date
+          ${gameFilter}
+        WINDOW w AS (PARTITION BY card_key, grade ORDER BY as_of_date)
+      )
+      SELECT as_of_date::text AS date, AVG(v / prev_v - 1)::text AS ret
+      FROM d
+      WHERE as_of_date > ${from}::date
+        AND prev_v >= ${Math.max(spec.minUsd, 0.01)}
+        AND prev_date >= as_of_date - 7
+        -- a 10x move in a day is a bad print, not the market
+        AND v / prev_v BETWEEN 0.1 AND 10
+      GROUP BY as_of_date
+      ORDER BY as_of_date
+    `);
+
+    const periods = (res.rows ?? [])
+      .map((r) => ({ date: r.date, return: Number(r.ret) }))
+      .filter((p) => Number.isFinite(p.return));
+    return chainIndex(from, periods);
+  } catch (err: any) {
+    if (err?.code === "42P01") return [];
+    throw err;
+  }
+}
+
+/** Rebases a USD index into `currency`, so both sides of a comparison feel the same FX moves. */
+function indexInCurrency(index: IndexPoint[], fx: FxTable, currency: FxCurrency): IndexPoint[] {
+  if (currency === "USD" || !index.length) return index;
+  const base = fx.fromUsd(1, currency, index[0].date);
+  if (base == null) return index;
+  return index.map((p) => ({ date: p.date, index: p.index * ((fx.fromUsd(1, currency, p.date) ?? base) / base) }));
+}
+
+function groupAttribution(
+  startValues: Map<string, number>,
+  endValues: Map<string, number>,
+  flows: Map<string, number>,
+  labelOf: (key: string) => string,
+): AttributionRow[] {
+  const keys = new Set([...startValues.keys(), ...endValues.keys(), ...flows.keys()]);
+  const inputs: AttributionInput[] = [...keys].map((key) => ({
+    key,
+    label: labelOf(key),
+    startValue: startValues.get(key) ?? 0,
+    endValue: endValues.get(key) ?? 0,
+    netFlows: flows.get(key) ?? 0,
+  }));
+  return attribute(inputs);
+}
+
+export async function getPortfolioPerformance(
+  userId: string,
+  opts: { days: number; currency: FxCurrency; benchmark?: BenchmarkSpec | null },
+): Promise<PortfolioPerformance> {
+  const fx = await loadFxTable();
+  const currency = fx.rate(opts.currency) != null ? opts.currency : "USD";
+  const toDisplay = (usdCents: number, on?: string | null) =>
+    Math.round(fx.fromUsd(usdCents, currency, on) ?? usdCents);
+
+  const since = isoDaysAgo(opts.days);
+
+  const snapRes = await db.execute<{ as_of_date: string; total_value_cents: string | null; breakdown: Breakdown | null }>(sql`
+    SELECT as_of_date::text AS as_of_date, total_value_cents::text AS total_value_cents, breakdown
+    FROM user_collection_daily_valuations
+    WHERE user_id = ${userId}
+      AND as_of_date >= ${since}::date
+    ORDER BY as_of_date ASC
+  `);
+  const snaps = snapRes.rows ?? [];
+
+  const points: ValuePoint[] = snaps.map((s) => ({
+    date: s.as_of_date,
+    value: toDisplay(Number(s.total_value_cents ?? 0), s.as_of_date),
+  }));
+
+  const empty: PortfolioPerformance = {
+    currency,
+    from: points[0]?.date ?? null,
+    to: points[points.length - 1]?.date ?? null,
+    snapshots: points.length,
+    startValueCents: points[0]?.value ?? 0,
+    endValueCents: points[points.length - 1]?.value ?? 0,
+    netFlowsCents: 0,
+    gainCents: 0,
+    twr: null,
+    mwr: null,
+    drawdown: null,
+    volatility: null,
+    index: [],
+    benchmark: null,
+    attribution: { byGame: [], bySet: null },
+  };
+  if (points.length < 2) return empty;
+
+  const start = points[0];
+  const end = points[points.length - 1];
+
+  const flows = (await loadFlows(userId, start.date))
+    .filter((f) => f.date <= end.date)
+    .map((f) => ({ ...f, amount: toDisplay(f.amount, f.date) }));
+
+  const twr = timeWeightedReturn(points, flows);
+  const index = twr?.index ?? [];
+  const netFlowsCents = flows.reduce((s, f) => s + f.amount, 0);
+
+  // ----- Benchmark -----
+  let benchmark: PortfolioPerformance["benchmark"] = null;
+  if (opts.benchmark) {
+    const benchIndex = indexInCurrency(await loadBenchmarkIndex(opts.benchmark, start.date, end.date), fx, currency);
+    benchmark = {
+      id: opts.benchmark.id,
+      label: opts.benchmark.label,
+      index: benchIndex,
+      comparison: compareIndexes(index, benchIndex),
+    };
+  }
+
+  // ----- Attribution -----
+  const startSnap = snaps[0].breakdown ?? {};
+  const endSnap = snaps[snaps.length - 1].breakdown ?? {};
+
+  const gameValues = (b: Breakdown, on: string) =>
+    new Map(Object.entries(b.byGame ?? {}).map(([g, v]) => [gameKey(g), toDisplay(Number(v?.totalValueCents ?? 0), on)]));
+  const gameFlows = new Map<string, number>();
+  for (const f of flows) gameFlows.set(f.game, (gameFlows.get(f.game) ?? 0) + f.amount);
+
+  const byGame = groupAttribution(gameValues(startSnap, start.date), gameValues(endSnap, end.date), gameFlows, (k) => k);
+
+  let bySet: AttributionRow[] | null = null;
+  if (startSnap.bySet && endSnap.bySet) {
+    const setValues = (b: Breakdown, on: string) =>
+      new Map(Object.entries(b.bySet ?? {}).map(([k, v]) => [k, toDisplay(Number(v?.totalValueCents ?? 0), on)]));
+    const setFlows = new Map<string, number>();
+    for (const f of flows) {
+      const key = setKey(f.game, f.set);
+      if (key) setFlows.set(key, (setFlows.get(key) ?? 0) + f.amount);
+    }
+    bySet = groupAttribution(setValues(startSnap, start.date), setValues(endSnap, end.date), setFlows, (k) =>
+      k.slice(k.indexOf("|") + 1),
+    );
+  }
+
+  return {
+    ...empty,
+    netFlowsCents,
+    gainCents: end.value - start.value - netFlowsCents,
+    twr: twr ? { total: twr.total, annualized: twr.annualized } : null,
+    mwr: moneyWeightedReturn(start, end, flows),
+    drawdown: index.length ? drawdown(index) : null,
+    volatility: twr ? volatility(twr.periods, start.date) : null,
+    index,
+    benchmark,
+    attribution: { byGame, bySet },
+  };
+}
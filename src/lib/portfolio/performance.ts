@@ -0,0 +1,323 @@
+// src/lib/portfolio/performance.ts
+//
+// Portfolio return and risk maths over daily collection values and the
+// cash that went in and out: time- and money-weighted returns, drawdown,
+// volatility, attribution and benchmark comparison. ./analytics.ts loads
+// the snapshots and flows.
+//
+// Sign convention: a flow is money put INTO the collection (a purchase) as
+// a positive amount and money taken OUT (sale proceeds) as a negative one.
+
+export type ValuePoint = {
+  /** YYYY-MM-DD */
+  date: string;
+  value: number;
+};
+
+export type CashFlow = {
+  /** YYYY-MM-DD */
+  date: string;
+  amount: number;
+};
+
+export type IndexPoint = {
+  date: string;
+  /** growth of 1 since the first date */
+  index: number;
+};
+
+export type PeriodReturn = {
+  /** end of the sub-period */
+  date: string;
+  return: number;
+};
+
+const DAY_MS = 86_400_000;
+
+function dayNumber(date: string): number {
+  return Math.floor(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / DAY_MS);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return dayNumber(to) - dayNumber(from);
+}
+
+function byDate<T extends { date: string }>(xs: T[]): T[] {
+  return [...xs].sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+}
+
+/**
+ * Sub-period returns between consecutive valuations with the flows in
+ * each period stripped out: r = (V1 - F) / V0 - 1, F being the net flows
+ * after V0's date up to and including V1's. Flows are assumed to land at
+ * the end of the day, so a purchase never counts as a gain. Periods that
+ * start from nothing are skipped.
+ */
+export function periodReturns(points: ValuePoint[], flows: CashFlow[]): PeriodReturn[] {
+  const pts = byDate(points);
+  const fl = byDate(flows);
+  const out: PeriodReturn[] = [];
+
+  let f = 0;
+  // flows on or before the first valuation are already in it
+  while (f < fl.length && pts.length && fl[f].date <= pts[0].date) f++;
+
+  for (let i = 1; i < pts.length; i++) {
+    let net = 0;
+    while (f < fl.length && fl[f].date <= pts[i].date) net += fl[f++].amount;
+
+    const v0 = pts[i - 1].value;
+    if (!(v0 > 0)) continue;
+    out.push({ date: pts[i].date, return: (pts[i].value - net) / v0 - 1 });
+  }
+  return out;
+}
+
+/** Chains period returns into an index starting at 1 on `startDate`. */
+export function chainIndex(startDate: string, returns: PeriodReturn[]): IndexPoint[] {
+  const out: IndexPoint[] = [{ date: startDate, index: 1 }];
+  let idx = 1;
+  for (const r of byDate(returns)) {
+    idx *= 1 + r.return;
+    out.push({ date: r.date, index: idx });
+  }
+  return out;
+}
+
+/** Compounds a total return over `days` to a yearly rate; null under a week. */
+export function annualize(total: number, days: number): number | null {
+  if (days < 7 || total <= -1) return null;
+  return Math.pow(1 + total, 365 / days) - 1;
+}
+
+export type TimeWeightedReturn = {
+  total: number;
+  annualized: number | null;
+  index: IndexPoint[];
+  periods: PeriodReturn[];
+};
+
+/**
+ * Time-weighted return: how the cards did, independent of when and how
+ * much was bought or sold. Null with fewer than two valuations.
+ */
+export function timeWeightedReturn(points: ValuePoint[], flows: CashFlow[]): TimeWeightedReturn | null {
+  const pts = byDate(points);
+  if (pts.length < 2) return null;
+
+  const periods = periodReturns(pts, flows);
+  const index = chainIndex(pts[0].date, periods);
+  const total = index[index.length - 1].index - 1;
+  return {
+    total,
+    annualized: annualize(total, daysBetween(pts[0].date, pts[pts.length - 1].date)),
+    index,
+    periods,
+  };
+}
+
+/**
+ * Money-weighted return (XIRR, yearly): the rate that makes the starting
+ * value plus every flow grow into the ending value. Reflects the timing
+ * of the user's own buying and selling. Null when it has no solution.
+ */
+export function moneyWeightedReturn(start: ValuePoint, end: ValuePoint, flows: CashFlow[]): number | null {
+  const span = daysBetween(start.date, end.date);
+  if (span <= 0) return null;
+
+  // investor's view: money in is negative, money out (and what's left) positive
+  const cash: Array<{ t: number; amount: number }> = [{ t: 0, amount: -start.value }];
+  for (const f of flows) {
+    if (f.date <= start.date || f.date > end.date) continue;
+    cash.push({ t: daysBetween(start.date, f.date) / 365, amount: -f.amount });
+  }
+  cash.push({ t: span / 365, amount: end.value });
+
+  if (!cash.some((c) => c.amount < 0) || !cash.some((c) => c.amount > 0)) return null;
+
+  const npv = (r: number) => cash.reduce((s, c) => s + c.amount / Math.pow(1 + r, c.t), 0);
+
+  // NPV falls as the rate rises; bisect between -99.99% and +10000%
+  let lo = -0.9999;
+  let hi = 100;
+  let fLo = npv(lo);
+  const fHi = npv(hi);
+  if (!Number.isFinite(fLo) || !Number.isFinite(fHi) || fLo * fHi > 0) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (lo + hi) / 2;
+    const fMid = npv(mid);
+    if (Math.abs(fMid) < 1e-9 || hi - lo < 1e-10) return mid;
+    if (fLo * fMid < 0) {
+      hi = mid;
+    } else {
+      lo = mid;
+      fLo = fMid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+export type Drawdown = {
+  /** worst fall from a peak, as a negative fraction (-0.25 = 25% down) */
+  maxDrawdown: number;
+  peakDate: string | null;
+  troughDate: string | null;
+  /** fall from the highest point so far to the last one */
+  current: number;
+};
+
+/** Drawdown of an index, so buying more never hides a fall. */
+export function drawdown(index: IndexPoint[]): Drawdown {
+  let peak = -Infinity;
+  let peakDate: string | null = null;
+  let worst = 0;
+  let worstPeak: string | null = null;
+  let worstTrough: string | null = null;
+  let current = 0;
+
+  for (const p of byDate(index)) {
+    if (p.index > peak) {
+      peak = p.index;
+      peakDate = p.date;
+    }
+    current = peak > 0 ? p.index / peak - 1 : 0;
+    if (current < worst) {
+      worst = current;
+      worstPeak = peakDate;
+      worstTrough = p.date;
+    }
+  }
+  return { maxDrawdown: worst, peakDate: worstPeak, troughDate: worstTrough, current };
+}
+
+/**
+ * Yearly volatility: the standard deviation of period returns, scaled by
+ * how many such periods fit in a year (snapshots can be days apart).
+ * Null with fewer than three periods.
+ */
+export function volatility(periods: PeriodReturn[], startDate: string): number | null {
+  if (periods.length < 3) return null;
+  const sorted = byDate(periods);
+  const span = daysBetween(startDate, sorted[sorted.length - 1].date);
+  if (span <= 0) return null;
+
+  const mean = sorted.reduce((s, p) => s + p.return, 0) / sorted.length;
+  const variance = sorted.reduce((s, p) => s + (p.return - mean) ** 2, 0) / (sorted.length - 1);
+  const perYear = 365 / (span / sorted.length);
+  return Math.sqrt(variance) * Math.sqrt(perYear);
+}
+
+export type AttributionInput = {
+  key: string;
+  label: string;
+  startValue: number;
+  endValue: number;
+  /** net flows during the period, same sign convention as CashFlow */
+  netFlows: number;
+};
+
+export type AttributionRow = {
+  key: string;
+  label: string;
+  startValue: number;
+  endValue: number;
+  netFlows: number;
+  /** change in value not explained by buying or selling */
+  gain: number;
+  /** gain over the money at work (simple Dietz); null with nothing invested */
+  return: number | null;
+  /** share of the whole portfolio's gain; null when that is zero */
+  shareOfGain: number | null;
+};
+
+/**
+ * Splits the period's gain by group (game, set): each group's change in
+ * value minus what was bought into it and plus what was sold out of it.
+ */
+export function attribute(groups: AttributionInput[]): AttributionRow[] {
+  const rows = groups.map((g) => {
+    const gain = g.endValue - g.startValue - g.netFlows;
+    const base = g.startValue + g.netFlows / 2;
+    return { ...g, gain, return: base > 0 ? gain / base : null };
+  });
+  const total = rows.reduce((s, r) => s + r.gain, 0);
+  return rows
+    .map((r) => ({ ...r, shareOfGain: total !== 0 ? r.gain / total : null }))
+    .sort((a, b) => Math.abs(b.gain) - Math.abs(a.gain));
+}
+
+/* ---------------- Benchmarks ---------------- */
+
+export type BenchmarkGame = "all" | "pokemon" | "mtg" | "yugioh";
+
+export type BenchmarkSpec = {
+  id: string;
+  game: BenchmarkGame;
+  /** cards worth at least this much (USD) at the start of each period */
+  minUsd: number;
+  label: string;
+};
+
+const GAME_LABELS: Record<BenchmarkGame, string> = {
+  all: "All",
+  pokemon: "All Pokémon",
+  mtg: "All Magic",
+  yugioh: "All Yu-Gi-Oh!",
+};
+
+/** Offered in the UI; any "<game>-<min>" id is accepted. */
+export const BENCHMARK_PRESETS = ["pokemon-20", "mtg-20", "yugioh-20", "all-20", "pokemon-100", "all-0"];
+
+export const DEFAULT_BENCHMARK = "pokemon-20";
+
+/** "pokemon-20" -> all Pokémon cards over $20. Null for anything else. */
+export function parseBenchmark(id: unknown): BenchmarkSpec | null {
+  const m = /^(all|pokemon|mtg|yugioh)-(\d{1,6})$/.exec(String(id ?? "").trim().toLowerCase());
+  if (!m) return null;
+  const game = m[1] as BenchmarkGame;
+  const minUsd = Number(m[2]);
+  return {
+    id: `${game}-${minUsd}`,
+    game,
+    minUsd,
+    label: minUsd > 0 ? `${GAME_LABELS[game]} cards over $${minUsd}` : `${GAME_LABELS[game]} cards`,
+  };
+}
+
+/** market_values_daily.card_key prefixes ("<game>|card|<id>") a benchmark covers; empty = every game. */
+export function benchmarkKeyPrefixes(game: BenchmarkGame): string[] {
+  if (game === "pokemon") return ["pokemon|"];
+  if (game === "mtg") return ["mtg|", "magic|"];
+  if (game === "yugioh") return ["yugioh|", "ygo|"];
+  return [];
+}
+
+export type Comparison = {
+  portfolioReturn: number;
+  benchmarkReturn: number;
+  /** portfolio minus benchmark */
+  excessReturn: number;
+  beatsBenchmark: boolean;
+};
+
+/**
+ * Compares two indexes over the dates both have, so a benchmark with
+ * more history doesn't get a head start. Null when they share under two dates.
+ */
+export function compareIndexes(portfolio: IndexPoint[], benchmark: IndexPoint[]): Comparison | null {
+  const bench = new Map(benchmark.map((p) => [p.date, p.index]));
+  const shared = byDate(portfolio).filter((p) => bench.has(p.date));
+  if (shared.length < 2) return null;
+
+  const first = shared[0];
+  const last = shared[shared.length - 1];
+  const portfolioReturn = last.index / first.index - 1;
+  const benchmarkReturn = bench.get(last.date)! / bench.get(first.date)! - 1;
+  return {
+    portfolioReturn,
+    benchmarkReturn,
+    excessReturn: portfolioReturn - benchmarkReturn,
+    beatsBenchmark: portfolioReturn > benchmarkReturn,
+  };
+}
@@ -29,7 +29,11 @@ export function parseMoneyToNumber(raw?: string | null): number | null {
   return Number.isFinite(n) ? n : null;
 }
 
-/** validate + read env FX. Returns nulls if invalid/missing. */
+/**
+ * validate + read env FX. Returns nulls if invalid/missing.
+ * Today's fixed rate only; valuations, exports and charts use the dated
+ * rates in @/lib/fx/rates.
+ */
 export function getFx() {
   // Prefer both if provided; either one is enough.
   // FX_USD_EUR = EUR per 1 USD
@@ -0,0 +1,267 @@
+// src/lib/search/compileQuery.ts
+import "server-only";
+
+import { sql, type SQL } from "drizzle-orm";
+import type {
+  CardQueryError,
+  CardQueryField,
+  CardQueryGame,
+  CardQueryTerm,
+  ParsedCardQuery,
+} from "@/lib/search/query";
+
+/**
+ * Compiles a parsed card query into a WHERE fragment.
+ *
+ * Every target assumes the card table is aliased as `c`, which is what the
+ * category pages and /api/cards/search already use:
+ *  - pokemon: public.tcg_cards c
+ *  - mtg:     public.scryfall_cards_raw c
+ *  - yugioh:  ygo_cards c
+ *
+ * Prices are correlated subqueries so callers don't need extra joins.
+ */
+
+export type CompiledCardQuery =
+  | { ok: true; where: SQL }
+  | { ok: false; errors: CardQueryError[] };
+
+type TextCol = (value: string, exact: boolean) => SQL;
+type NumCol = SQL;
+
+type TargetColumns = {
+  name: SQL;
+  text: Partial<Record<CardQueryField, TextCol>>;
+  numeric: Partial<Record<CardQueryField, NumCol>>;
+};
+
+function esc(v: string) {
+  return v.replace(/[%_\\]/g, (m) => `\\${m}`);
+}
+
+/** `:` = contains (case-insensitive), `=` = exact (case-insensitive) */
+function textMatch(col: SQL): TextCol {
+  return (value, exact) =>
+    exact ? sql`lower(coalesce(${col}, '')) = lower(${value})` : sql`coalesce(${col}, '') ILIKE ${`%${esc(value)}%`}`;
+}
+
+/** always exact, case-insensitive (codes, languages) */
+function codeMatch(col: SQL): TextCol {
+  return (value) => sql`lower(coalesce(${col}, '')) = lower(${value})`;
+}
+
+/** "13/98" style numbers: match the part before the slash too */
+function numberMatch(col: SQL): TextCol {
+  return (value) =>
+    sql`(lower(coalesce(${col}, '')) = lower(${value}) OR split_part(coalesce(${col}, ''), '/', 1) = ${value})`;
+}
+
+function moneyText(expr: SQL): SQL {
+  return sql`NULLIF(regexp_replace(coalesce(${expr}::text, ''), '[^0-9.]', '', 'g'), '')::numeric`;
+}
+
+const MTG_COLOR_CODES: Record<string, string> = {
+  w: "W",
+  white: "W",
+  u: "U",
+  blue: "U",
+  b: "B",
+  black: "B",
+  r: "R",
+  red: "R",
+  g: "G",
+  green: "G",
+};
+
+const TARGETS: Record<CardQueryGame, TargetColumns> = {
+  pokemon: {
+    name: sql`c.name`,
+    text: {
+      name: textMatch(sql`c.name`),
+      set: (value, exact) =>
+        exact
+          ? sql`(lower(coalesce(c.set_id, '')) = lower(${value}) OR lower(coalesce(c.set_name, '')) = lower(${value}))`
+          : sql`(lower(coalesce(c.set_id, '')) = lower(${value})
+                 OR lower(coalesce(c.ptcgo_code, '')) = lower(${value})
+                 OR coalesce(c.set_name, '') ILIKE ${`%${esc(value)}%`})`,
+      rarity: textMatch(sql`c.rarity`),
+      artist: textMatch(sql`c.artist`),
+      lang: codeMatch(sql`c.lang`),
+      number: numberMatch(sql`c.number`),
+      type: (value, exact) =>
+        sql`(${textMatch(sql`c.supertype`)(value, exact)}
+             OR ${textMatch(sql`c.subtypes`)(value, exact)}
+             OR ${textMatch(sql`c.types`)(value, exact)})`,
+      color: textMatch(sql`c.types`),
+      regulation: codeMatch(sql`c.regulation_mark`),
+    },
+    numeric: {
+      price: sql`(
+        SELECT COALESCE(
+          ${moneyText(sql`p.market_price`)},
+          ${moneyText(sql`NULLIF(p.normal, '')`)},
+          ${moneyText(sql`NULLIF(p.holofoil, '')`)},
+          ${moneyText(sql`NULLIF(p.reverse_holofoil, '')`)}
+        )
+        FROM public.tcg_card_prices_tcgplayer p
+        WHERE p.card_id = c.id
+        ORDER BY p.updated_at DESC NULLS LAST
+        LIMIT 1
+      )`,
+      year: sql`NULLIF(substring(coalesce(c.release_date, '') from '^[0-9]{4}'), '')::int`,
+    },
+  },
+
+  mtg: {
+    name: sql`c.name`,
+    text: {
+      name: textMatch(sql`c.name`),
+      set: (value, exact) =>
+        exact
+          ? sql`lower(coalesce(c.set_code, '')) = lower(${value})`
+          : sql`(lower(coalesce(c.set_code, '')) = lower(${value})
+                 OR (c.payload->>'set_name') ILIKE ${`%${esc(value)}%`})`,
+      rarity: (value, exact) =>
+        exact || value.length > 1
+          ? sql`lower(coalesce(c.payload->>'rarity', '')) = lower(${value})`
+          : sql`lower(coalesce(c.payload->>'rarity', '')) LIKE lower(${`${esc(value)}%`})`,
+      artist: textMatch(sql`(c.payload->>'artist')`),
+      lang: codeMatch(sql`(c.payload->>'lang')`),
+      number: numberMatch(sql`c.collector_number`),
+      type: textMatch(sql`(c.payload->>'type_line')`),
+      color: (value) => {
+        const v = value.toLowerCase();
+        if (v === "c" || v === "colorless") {
+          return sql`(c.payload->'colors' IS NULL OR jsonb_array_length(c.payload->'colors') = 0)`;
+        }
+        // Scryfall style: c:wu means "white AND blue"
+        const codes = (MTG_COLOR_CODES[v] ? [MTG_COLOR_CODES[v]] : v.split("").map((ch) => MTG_COLOR_CODES[ch]))
+          .filter(Boolean);
+        if (!codes.length) return sql`false`;
+        return sql.join(
+          codes.map((code) => sql`(c.payload->'colors') ? ${code}`),
+          sql` AND `,
+        );
+      },
+    },
+    numeric: {
+      price: sql`(
+        SELECT e.effective_usd::numeric
+        FROM public.mtg_prices_effective e
+        WHERE e.scryfall_id = c.id
+        LIMIT 1
+      )`,
+      year: sql`NULLIF(substring(coalesce(c.payload->>'released_at', '') from '^[0-9]{4}'), '')::int`,
+    },
+  },
+
+  yugioh: {
+    name: sql`c.name`,
+    text: {
+      name: textMatch(sql`c.name`),
+      set: (value, exact) => sql`EXISTS (
+        SELECT 1 FROM ygo_card_sets cs
+        WHERE cs.card_id = c.card_id
+          AND ${
+            exact
+              ? sql`(lower(coalesce(cs.set_name, '')) = lower(${value}) OR lower(split_part(coalesce(cs.set_code, ''), '-', 1)) = lower(${value}))`
+              : sql`(coalesce(cs.set_name, '') ILIKE ${`%${esc(value)}%`} OR lower(split_part(coalesce(cs.set_code, ''), '-', 1)) = lower(${value}))`
+          }
+      )`,
+      rarity: (value, exact) => sql`EXISTS (
+        SELECT 1 FROM ygo_card_sets cs
+        WHERE cs.card_id = c.card_id
+          AND ${textMatch(sql`cs.set_rarity`)(value, exact)}
+      )`,
+      number: (value) => sql`(c.card_id = ${value} OR EXISTS (
+        SELECT 1 FROM ygo_card_sets cs
+        WHERE cs.card_id = c.card_id AND lower(cs.set_code) = lower(${value})
+      ))`,
+      type: (value, exact) =>
+        sql`(${textMatch(sql`c.type`)(value, exact)} OR ${textMatch(sql`c.race`)(value, exact)})`,
+      color: textMatch(sql`c.attribute`),
+    },
+    numeric: {
+      price: sql`(
+        SELECT ${moneyText(sql`p.tcgplayer_price`)}
+        FROM ygo_card_prices p
+        WHERE p.card_id = c.card_id
+        LIMIT 1
+      )`,
+    },
+  },
+};
+
+function numericOp(op: CardQueryTerm["op"]): SQL {
+  switch (op) {
+    case ">":
+      return sql`>`;
+    case ">=":
+      return sql`>=`;
+    case "<":
+      return sql`<`;
+    case "<=":
+      return sql`<=`;
+    case "!=":
+      return sql`<>`;
+    default:
+      return sql`=`;
+  }
+}
+
+export function compileCardQuery(
+  query: ParsedCardQuery,
+  target: CardQueryGame,
+  opts: { includeText?: boolean } = {},
+): CompiledCardQuery {
+  const cols = TARGETS[target];
+  const includeText = opts.includeText ?? true;
+
+  const errors: CardQueryError[] = [];
+  const parts: SQL[] = [];
+
+  if (query.game && query.game !== target) {
+    errors.push({
+      message: `This search only covers ${target}; remove "game:${query.game}" or search from /search.`,
+      position: 0,
+      token: `game:${query.game}`,
+    });
+  }
+
+  if (includeText) {
+    for (const t of query.text) {
+      parts.push(sql`coalesce(${cols.name}, '') ILIKE ${`%${esc(t)}%`}`);
+    }
+  }
+  for (const t of query.excludeText) {
+    parts.push(sql`coalesce(${cols.name}, '') NOT ILIKE ${`%${esc(t)}%`}`);
+  }
+
+  for (const term of query.terms) {
+    let expr: SQL | null = null;
+
+    const numCol = cols.numeric[term.field];
+    const textCol = cols.text[term.field];
+
+    if (numCol) {
+      const n = Number(term.value.replace(/^\$/, ""));
+      expr = sql`(${numCol} IS NOT NULL AND ${numCol} ${numericOp(term.op)} ${n})`;
+    } else if (textCol) {
+      expr = textCol(term.value, term.op === "=");
+      if (term.op === "!=") expr = sql`NOT (${expr})`;
+    } else {
+      errors.push({
+        message: `"${term.field}" is not available for ${target} cards.`,
+        position: term.position,
+        token: term.raw,
+      });
+      continue;
+    }
+
+    parts.push(term.negate ? sql`NOT (${expr})` : expr);
+  }
+
+  if (errors.length) return { ok: false, errors };
+  if (!parts.length) return { ok: true, where: sql`TRUE` };
+  return { ok: true, where: sql`(${sql.join(parts, sql` AND `)})` };
+}
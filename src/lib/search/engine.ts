@@ -0,0 +1,490 @@
+// src/lib/search/engine.ts
+import "server-only";
+
+import { sql, type SQL } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+  looksLikeCardQuery,
+  parseCardQuery,
+  type CardQueryError,
+  type CardQueryGame,
+  type ParsedCardQuery,
+} from "@/lib/search/query";
+import { compileCardQuery } from "@/lib/search/compileQuery";
+import {
+  SCP_ID_PREFIX,
+  SEARCH_GAMES,
+  SEARCH_GAME_LABELS,
+  searchHitHref,
+  type SearchGame,
+} from "@/lib/search/games";
+import { compareWatermarkRows, type Watermark, type WatermarkRow } from "@/lib/search/watermark";
+
+/* -------------------------------- Types -------------------------------- */
+
+export type SearchHit = {
+  game: SearchGame;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  imageUrl: string | null;
+  href: string;
+  priceCents: number | null;
+  score: number;
+  /** when the row entered the catalog, or a listing went live (UTC, microsecond ISO, sortable as text) */
+  ingestedAt: string | null;
+};
+
+export type SearchFacet = {
+  game: SearchGame;
+  label: string;
+  count: number;
+};
+
+export type SearchArgs = {
+  q: string;
+  /** restrict to one slice; omit for "everything" */
+  game?: SearchGame | null;
+  limit?: number;
+  /**
+   * Only rows that entered the catalog after this cursor, oldest first.
+   * Relevance then only decides what matches, not what makes the page
+   * (saved-search alerts use this; see src/lib/search/savedSearches.ts).
+   */
+  since?: Watermark | null;
+};
+
+export type SearchResult = {
+  q: string;
+  game: SearchGame | null;
+  hits: SearchHit[];
+  facets: SearchFacet[];
+  total: number;
+  /** structured query problems (unknown field, bad number, ...) */
+  errors: CardQueryError[];
+};
+
+type Row = {
+  id: string;
+  title: string | null;
+  subtitle: string | null;
+  image_url: string | null;
+  price_cents: number | string | null;
+  score: number | string | null;
+  ingested_at: string | null;
+  total: number | string | null;
+};
+
+/* ------------------------------ Utilities ------------------------------- */
+
+function s(v: unknown): string {
+  return String(v ?? "").trim();
+}
+
+function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+/**
+ * Build a prefix tsquery ("char liz" -> "char:* & liz:*").
+ * Only word characters survive so user input can never break to_tsquery syntax.
+ */
+export function toPrefixTsQuery(q: string): string | null {
+  const tokens = q
+    .toLowerCase()
+    .split(/\s+/)
+    .map((t) => t.replace(/[^\p{L}\p{N}]+/gu, ""))
+    .filter(Boolean)
+    .slice(0, 8);
+
+  if (!tokens.length) return null;
+  return tokens.map((t) => `${t}:*`).join(" & ");
+}
+
+/**
+ * Match + score expressions for one text column.
+ *
+ * Ranking (highest wins):
+ *  1.00 exact (case-insensitive)
+ *  0.90 whole-string prefix
+ *  0.80 every token is a word prefix (tsquery :*)
+ *  0.70 substring
+ *  <0.7 trigram word_similarity (typo tolerance)
+ *
+ * The WHERE side uses the bare column so the trigram and tsvector GIN
+ * indexes from drizzle/000X_search_trgm.sql apply (NULL never matches anyway).
+ */
+function matchOn(col: SQL, q: string, tsq: string | null) {
+  const like = `%${q.replace(/[%_\\]/g, (m) => `\\${m}`)}%`;
+  const prefix = `${q.replace(/[%_\\]/g, (m) => `\\${m}`)}%`;
+
+  const prefixWords = tsq
+    ? sql`to_tsvector('simple', ${col}) @@ to_tsquery('simple', ${tsq})`
+    : sql`false`;
+
+  const where = sql`(
+    ${col} ILIKE ${like}
+    OR ${prefixWords}
+    OR ${q} <% ${col}
+  )`;
+
+  const score = sql`GREATEST(
+    CASE
+      WHEN lower(coalesce(${col}, '')) = lower(${q}) THEN 1.0
+      WHEN coalesce(${col}, '') ILIKE ${prefix} THEN 0.9
+      WHEN ${prefixWords} THEN 0.8
+      WHEN coalesce(${col}, '') ILIKE ${like} THEN 0.7
+      ELSE 0
+    END,
+    word_similarity(${q}, coalesce(${col}, '')) * 0.7
+  )`;
+
+  return { where, score };
+}
+
+/**
+ * Ingest-time column for one source: the exact ISO text to return, the
+ * watermark filter, and the ordering (relevance normally, oldest first
+ * after a watermark so a capped page never skips rows).
+ *
+ * After a watermark rows are read as a (time, key) keyset, with the key
+ * being the hit's `<game>:<id>` in byte order, so rows that share a
+ * timestamp are split across pages instead of skipped (see ./watermark.ts).
+ */
+function ingestOn(game: SearchGame, col: SQL, id: SQL, since: Watermark | null, rank: SQL) {
+  const key = sql`(${`${game}:`} || (${id})::text) COLLATE "C"`;
+  return {
+    select: sql`to_char(${col} AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"')`,
+    after: since
+      ? sql`AND ${col} >= ${since.at}::timestamptz
+        AND (${col}, ${key}) > (${since.at}::timestamptz, ${since.key} COLLATE "C")`
+      : sql``,
+    orderBy: since ? sql`${col} ASC, ${key} ASC` : rank,
+  };
+}
+
+/* ------------------------------ Sources -------------------------------- */
+
+type SourceQuery = (q: string, tsq: string | null, limit: number, filter: SQL, since: Watermark | null) => SQL;
+
+const SOURCES: Record<SearchGame, SourceQuery> = {
+  pokemon: (q, tsq, limit, filter, since) => {
+    const m = matchOn(sql`c.name`, q, tsq);
+    const t = ingestOn("pokemon", sql`c.ingested_at`, sql`c.id`, since, sql`score DESC, c.name ASC`);
+    return sql`
+      SELECT
+        c.id::text AS id,
+        c.name AS title,
+        concat_ws(' · ', c.set_name, nullif(c.number, '')) AS subtitle,
+        c.small_image AS image_url,
+        NULL::int AS price_cents,
+        ${m.score} AS score,
+        ${t.select} AS ingested_at,
+        COUNT(*) OVER () AS total
+      FROM public.tcg_cards c
+      WHERE (${m.where} OR c.number = ${q})
+        AND ${filter}
+        ${t.after}
+      ORDER BY ${t.orderBy}
+      LIMIT ${limit}
+    `;
+  },
+
+  mtg: (q, tsq, limit, filter, since) => {
+    const m = matchOn(sql`c.name`, q, tsq);
+    const t = ingestOn("mtg", sql`c.ingested_at`, sql`c.id`, since, sql`score DESC, c.name ASC`);
+    return sql`
+      SELECT
+        c.id::text AS id,
+        c.name AS title,
+        concat_ws(' · ', upper(c.set_code), nullif(c.collector_number, '')) AS subtitle,
+        COALESCE(
+          (c.payload->'image_uris'->>'small'),
+          (c.payload->'card_faces'->0->'image_uris'->>'small')
+        ) AS image_url,
+        CASE
+          WHEN e.effective_usd IS NULL THEN NULL
+          ELSE round(e.effective_usd::numeric * 100)::int
+        END AS price_cents,
+        ${m.score} AS score,
+        ${t.select} AS ingested_at,
+        COUNT(*) OVER () AS total
+      FROM public.scryfall_cards_raw c
+      LEFT JOIN public.mtg_prices_effective e
+        ON e.scryfall_id = c.id
+      WHERE ${m.where}
+        AND ${filter}
+        ${t.after}
+      ORDER BY ${t.orderBy}
+      LIMIT ${limit}
+    `;
+  },
+
+  yugioh: (q, tsq, limit, filter, since) => {
+    const m = matchOn(sql`c.name`, q, tsq);
+    const t = ingestOn("yugioh", sql`c.ingested_at`, sql`c.card_id`, since, sql`score DESC, c.name ASC`);
+    return sql`
+      SELECT
+        c.card_id::text AS id,
+        c.name AS title,
+        concat_ws(' · ', c.type, c.race) AS subtitle,
+        img.thumb AS image_url,
+        NULL::int AS price_cents,
+        CASE WHEN c.card_id = ${q} THEN 1.0 ELSE ${m.score} END AS score,
+        ${t.select} AS ingested_at,
+        COUNT(*) OVER () AS total
+      FROM ygo_cards c
+      LEFT JOIN LATERAL (
+        SELECT i.image_url_small AS thumb
+        FROM ygo_card_images i
+        WHERE i.card_id = c.card_id
+        ORDER BY (CASE WHEN i.image_url_small IS NOT NULL THEN 0 ELSE 1 END)
+        LIMIT 1
+      ) img ON TRUE
+      WHERE (c.card_id = ${q} OR ${m.where})
+        AND ${filter}
+        ${t.after}
+      ORDER BY ${t.orderBy}
+      LIMIT ${limit}
+    `;
+  },
+
+  funko: (q, tsq, limit, _filter, since) => {
+    const m = matchOn(sql`fi.name`, q, tsq);
+    const t = ingestOn("funko", sql`fi.created_at`, sql`fi.id`, since, sql`score DESC, fi.name ASC NULLS LAST`);
+    return sql`
+      SELECT
+        fi.id::text AS id,
+        fi.name AS title,
+        concat_ws(' · ', fi.franchise, fi.series, nullif(fi.number, '')) AS subtitle,
+        COALESCE(fi.image_small, fi.image_large) AS image_url,
+        NULL::int AS price_cents,
+        CASE WHEN fi.upc = ${q} THEN 1.0 ELSE ${m.score} END AS score,
+        ${t.select} AS ingested_at,
+        COUNT(*) OVER () AS total
+      FROM funko_items fi
+      WHERE (
+        ${m.where}
+        OR fi.upc = ${q}
+        OR fi.franchise ILIKE ${`%${q}%`}
+      )
+        ${t.after}
+      ORDER BY ${t.orderBy}
+      LIMIT ${limit}
+    `;
+  },
+
+  sports: (q, tsq, limit, _filter, since) => {
+    const sc = matchOn(sql`c.player`, q, tsq);
+    const scp = matchOn(sql`p.product_name`, q, tsq);
+    const tsc = ingestOn("sports", sql`c.created_at`, sql`c.id`, since, sql``);
+    const tscp = ingestOn("sports", sql`p.created_at`, sql`${SCP_ID_PREFIX} || p.id`, since, sql``);
+    return sql`
+      SELECT *, COUNT(*) OVER () AS total
+      FROM (
+        SELECT
+          c.id::text AS id,
+          c.player AS title,
+          concat_ws(' · ', c.year::text, c.set_name, nullif(c.number, '')) AS subtitle,
+          NULL::text AS image_url,
+          NULL::int AS price_cents,
+          ${sc.score} AS score,
+          ${tsc.select} AS ingested_at
+        FROM sc_cards c
+        WHERE ${sc.where}
+          ${tsc.after}
+        UNION ALL
+        SELECT
+          ${SCP_ID_PREFIX} || p.id AS id,
+          p.product_name AS title,
+          p.console_name AS subtitle,
+          p.image_url,
+          NULL::int AS price_cents,
+          ${scp.score} AS score,
+          ${tscp.select} AS ingested_at
+        FROM scp_cards p
+        WHERE ${scp.where}
+          ${tscp.after}
+      ) u
+      ORDER BY ${since ? sql`ingested_at ASC, id COLLATE "C" ASC` : sql`score DESC, title ASC NULLS LAST`}
+      LIMIT ${limit}
+    `;
+  },
+
+  shop: (q, tsq, limit, _filter, since) => {
+    const m = matchOn(sql`p.title`, q, tsq);
+    const t = ingestOn("shop", sql`p.published_at`, sql`p.slug`, since, sql`score DESC, p.updated_at DESC`);
+    return sql`
+      SELECT
+        p.slug AS id,
+        p.title,
+        concat_ws(' · ', p.game::text, p.format::text) AS subtitle,
+        pi.url AS image_url,
+        p.price_cents,
+        CASE WHEN p.sku = ${q} THEN 1.0 ELSE ${m.score} END AS score,
+        ${t.select} AS ingested_at,
+        COUNT(*) OVER () AS total
+      FROM products p
+      LEFT JOIN LATERAL (
+        SELECT url
+        FROM product_images
+        WHERE product_id = p.id
+        ORDER BY sort ASC, created_at ASC
+        LIMIT 1
+      ) pi ON TRUE
+      WHERE p.status = 'active'
+        AND (${m.where} OR p.sku = ${q})
+        ${t.after}
+      ORDER BY ${t.orderBy}
+      LIMIT ${limit}
+    `;
+  },
+};
+
+function watermarkRow(h: SearchHit): WatermarkRow {
+  return { arrivedAt: h.ingestedAt ?? "", key: `${h.game}:${h.id}` };
+}
+
+function toNum(v: unknown): number | null {
+  if (v == null || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+const CARD_QUERY_GAMES: CardQueryGame[] = ["pokemon", "mtg", "yugioh"];
+
+/**
+ * Per-source WHERE fragments for a structured query.
+ * null = source can't express the query's fields, so it is skipped entirely.
+ */
+function structuredFilters(query: ParsedCardQuery): {
+  filters: Partial<Record<SearchGame, SQL>>;
+  errors: CardQueryError[];
+} {
+  const filters: Partial<Record<SearchGame, SQL>> = {};
+  const hasFields = query.terms.length > 0 || query.excludeText.length > 0;
+
+  if (!hasFields) {
+    for (const g of SEARCH_GAMES) filters[g] = sql`TRUE`;
+    return { filters, errors: [] };
+  }
+
+  const errors: CardQueryError[] = [];
+  for (const g of CARD_QUERY_GAMES) {
+    if (query.game && query.game !== g) continue;
+    const compiled = compileCardQuery({ ...query, game: g }, g, { includeText: false });
+    if (compiled.ok) filters[g] = compiled.where;
+    else if (query.game) errors.push(...compiled.errors);
+  }
+
+  return { filters, errors };
+}
+
+/* ------------------------------ Main query ------------------------------ */
+
+async function runSource(
+  game: SearchGame,
+  q: string,
+  tsq: string | null,
+  limit: number,
+  filter: SQL | undefined,
+  since: Watermark | null,
+) {
+  if (!filter) return { game, hits: [] as SearchHit[], total: 0 };
+
+  try {
+    const res = await db.execute<Row>(SOURCES[game](q, tsq, limit, filter, since));
+    const rows = res.rows ?? [];
+
+    const hits: SearchHit[] = rows.map((r) => ({
+      game,
+      id: r.id,
+      title: r.title ?? r.id,
+      subtitle: r.subtitle || null,
+      imageUrl: r.image_url || null,
+      href: searchHitHref(game, r.id),
+      priceCents: toNum(r.price_cents),
+      score: toNum(r.score) ?? 0,
+      ingestedAt: r.ingested_at ?? null,
+    }));
+
+    return { game, hits, total: toNum(rows[0]?.total) ?? 0 };
+  } catch (err) {
+    // One broken source (missing table in a dev DB, etc.) should not take down search.
+    console.error(`[search] ${game} source failed`, err);
+    return { game, hits: [] as SearchHit[], total: 0 };
+  }
+}
+
+/**
+ * Search every catalog (and the shop) at once.
+ *
+ * Each source ranks its own rows in SQL; we then merge by score so an exact
+ * Funko hit can outrank a fuzzy Pokémon one. Facet counts are always computed
+ * across ALL sources so the UI can show "Pokémon (12) · MTG (3)" even when one
+ * slice is selected.
+ *
+ * Structured queries (`game:mtg set:mh3 price>20 bolt`) are supported: bare words
+ * drive ranking, field terms become filters on the card sources that have them.
+ */
+export async function searchEverything(args: SearchArgs): Promise<SearchResult> {
+  const raw = s(args.q).slice(0, 120);
+  let game = args.game ?? null;
+  const limit = clamp(Math.floor(args.limit ?? 48), 1, 100);
+  const since = args.since ?? null;
+
+  if (!raw) {
+    return { q: raw, game, hits: [], facets: [], total: 0, errors: [] };
+  }
+
+  let q = raw;
+  let filters: Partial<Record<SearchGame, SQL>> = {};
+  for (const g of SEARCH_GAMES) filters[g] = sql`TRUE`;
+
+  if (looksLikeCardQuery(raw)) {
+    const parsed = parseCardQuery(raw);
+    if (!parsed.ok) {
+      return { q: raw, game, hits: [], facets: [], total: 0, errors: parsed.errors };
+    }
+
+    const built = structuredFilters(parsed.query);
+    if (built.errors.length) {
+      return { q: raw, game, hits: [], facets: [], total: 0, errors: built.errors };
+    }
+
+    q = parsed.query.text.join(" ");
+    filters = built.filters;
+    if (parsed.query.game) game = parsed.query.game;
+  }
+
+  const tsq = toPrefixTsQuery(q);
+
+  // When a slice is selected we still need per-source totals for the facets,
+  // but only the selected source needs the full page of hits. After a
+  // watermark every source returns its oldest `limit` so the merged page is
+  // exactly the oldest `limit` overall.
+  const perSource = since ? limit : game ? 1 : Math.min(limit, 24);
+
+  const results = await Promise.all(
+    SEARCH_GAMES.map((g) => runSource(g, q, tsq, g === game ? limit : perSource, filters[g], since)),
+  );
+
+  const facets: SearchFacet[] = results
+    .filter((r) => r.total > 0)
+    .map((r) => ({ game: r.game, label: SEARCH_GAME_LABELS[r.game], count: r.total }));
+
+  const pool = game ? results.filter((r) => r.game === game) : results;
+
+  const hits = pool
+    .flatMap((r) => r.hits)
+    .sort((a, b) =>
+      since
+        ? compareWatermarkRows(watermarkRow(a), watermarkRow(b))
+        : b.score - a.score || a.title.localeCompare(b.title),
+    )
+    .slice(0, limit);
+
+  const total = pool.reduce((acc, r) => acc + r.total, 0);
+
+  return { q: raw, game, hits, facets, total, errors: [] };
+}
@@ -0,0 +1,62 @@
+// src/lib/search/games.ts
+//
+// The slices cross-game search covers, their labels and where each hit
+// links to. Sports hits come from two catalogs (sc_cards and the
+// SportsCardsPro scp_cards), so SportsCardsPro ids carry a prefix to keep
+// them apart on the shared sports card page.
+
+export type SearchGame = "pokemon" | "mtg" | "yugioh" | "funko" | "sports" | "shop";
+
+export const SEARCH_GAMES: SearchGame[] = ["pokemon", "mtg", "yugioh", "funko", "sports", "shop"];
+
+export const SEARCH_GAME_LABELS: Record<SearchGame, string> = {
+  pokemon: "Pokémon",
+  mtg: "Magic: The Gathering",
+  yugioh: "Yu-Gi-Oh!",
+  funko: "Funko",
+  sports: "Sports",
+  shop: "Shop",
+};
+
+export function normalizeSearchGame(raw: unknown): SearchGame | null {
+  const v = String(raw ?? "").trim().toLowerCase();
+  if (!v || v === "all") return null;
+  if (v === "magic") return "mtg";
+  if (v === "ygo" || v === "yu-gi-oh" || v === "yu-gi-oh!") return "yugioh";
+  if (v === "products" || v === "store") return "shop";
+  return (SEARCH_GAMES as string[]).includes(v) ? (v as SearchGame) : null;
+}
+
+/** prefix on scp_cards ids in sports hits and /categories/sports/cards/[id] */
+export const SCP_ID_PREFIX = "scp-";
+
+export type SportsCardRef = { source: "sc" | "scp"; id: string };
+
+/** Which catalog a sports card id points at. */
+export function parseSportsCardId(raw: string): SportsCardRef | null {
+  const v = raw.trim();
+  if (!v) return null;
+  if (v.startsWith(SCP_ID_PREFIX)) {
+    const id = v.slice(SCP_ID_PREFIX.length);
+    return id ? { source: "scp", id } : null;
+  }
+  return { source: "sc", id: v };
+}
+
+export function searchHitHref(game: SearchGame, id: string): string {
+  const enc = encodeURIComponent(id);
+  switch (game) {
+    case "pokemon":
+      return `/categories/pokemon/cards/${enc}`;
+    case "mtg":
+      return `/categories/mtg/cards/${enc}`;
+    case "yugioh":
+      return `/categories/yugioh/cards/${enc}`;
+    case "funko":
+      return `/categories/funko/items/${enc}`;
+    case "sports":
+      return `/categories/sports/cards/${enc}`;
+    case "shop":
+      return `/products/${enc}`;
+  }
+}
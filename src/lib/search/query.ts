@@ -0,0 +1,277 @@
+// src/lib/search/query.ts
+//
+// Scryfall-style card query language, e.g.
+//   game:mtg set:mh3 rarity:mythic price>20 artist:"Rebecca Guay" lang:ja
+//
+// Parsing only, with no DB or server-only imports, so API routes and server
+// components share it. SQL generation lives in ./compileQuery.ts.
+
+/* -------------------------------- Types -------------------------------- */
+
+export type CardQueryGame = "pokemon" | "mtg" | "yugioh";
+
+export type CardQueryField =
+  | "game"
+  | "name"
+  | "set"
+  | "rarity"
+  | "artist"
+  | "lang"
+  | "price"
+  | "number"
+  | "type"
+  | "color"
+  | "regulation"
+  | "year";
+
+export type CardQueryOp = ":" | "=" | "!=" | ">" | ">=" | "<" | "<=";
+
+export type CardQueryTerm = {
+  field: CardQueryField;
+  op: CardQueryOp;
+  value: string;
+  negate: boolean;
+  /** original text, e.g. `-rarity:common` */
+  raw: string;
+  /** 0-based offset in the input */
+  position: number;
+};
+
+export type CardQueryError = {
+  message: string;
+  position: number;
+  token: string;
+};
+
+export type ParsedCardQuery = {
+  /** from game: (null = not specified) */
+  game: CardQueryGame | null;
+  /** field terms, excluding game: */
+  terms: CardQueryTerm[];
+  /** bare words / quoted phrases matched against the card name */
+  text: string[];
+  /** bare words prefixed with "-" */
+  excludeText: string[];
+};
+
+export type ParseCardQueryResult =
+  | { ok: true; query: ParsedCardQuery }
+  | { ok: false; errors: CardQueryError[] };
+
+/* ------------------------------ Field table ----------------------------- */
+
+const FIELD_ALIASES: Record<string, CardQueryField> = {
+  g: "game",
+  game: "game",
+
+  n: "name",
+  name: "name",
+
+  s: "set",
+  e: "set",
+  set: "set",
+  edition: "set",
+
+  r: "rarity",
+  rarity: "rarity",
+
+  a: "artist",
+  artist: "artist",
+
+  l: "lang",
+  lang: "lang",
+  language: "lang",
+
+  p: "price",
+  usd: "price",
+  price: "price",
+
+  cn: "number",
+  num: "number",
+  number: "number",
+
+  t: "type",
+  type: "type",
+
+  c: "color",
+  color: "color",
+  colour: "color",
+
+  reg: "regulation",
+  mark: "regulation",
+  regulation: "regulation",
+
+  y: "year",
+  year: "year",
+};
+
+const NUMERIC_FIELDS = new Set<CardQueryField>(["price", "year"]);
+
+export const CARD_QUERY_FIELDS: CardQueryField[] = [
+  "game",
+  "name",
+  "set",
+  "rarity",
+  "artist",
+  "lang",
+  "price",
+  "number",
+  "type",
+  "color",
+  "regulation",
+  "year",
+];
+
+const OPS: CardQueryOp[] = [">=", "<=", "!=", ":", "=", ">", "<"];
+
+/* ------------------------------ Utilities ------------------------------- */
+
+export function normalizeQueryGame(raw: string): CardQueryGame | null {
+  const v = raw.trim().toLowerCase();
+  if (v === "pokemon" || v === "pkmn" || v === "ptcg") return "pokemon";
+  if (v === "mtg" || v === "magic") return "mtg";
+  if (v === "yugioh" || v === "ygo" || v === "yu-gi-oh") return "yugioh";
+  return null;
+}
+
+/**
+ * Cheap check used by routes to decide whether to run the parser at all.
+ * A plain "charizard" search keeps its old behavior.
+ */
+export function looksLikeCardQuery(q: string): boolean {
+  return /(^|\s)-?[a-z]+(>=|<=|!=|:|=|>|<)/i.test(q);
+}
+
+function readOp(input: string, i: number): CardQueryOp | null {
+  for (const op of OPS) {
+    if (input.startsWith(op, i)) return op;
+  }
+  return null;
+}
+
+/** Reads a bare or quoted value starting at i. */
+function readValue(input: string, i: number): { value: string; end: number; unclosed: boolean } {
+  if (input[i] === '"') {
+    const close = input.indexOf('"', i + 1);
+    if (close === -1) return { value: input.slice(i + 1), end: input.length, unclosed: true };
+    return { value: input.slice(i + 1, close), end: close + 1, unclosed: false };
+  }
+
+  let j = i;
+  while (j < input.length && !/\s/.test(input[j])) j++;
+  return { value: input.slice(i, j), end: j, unclosed: false };
+}
+
+/* -------------------------------- Parser -------------------------------- */
+
+export function parseCardQuery(input: string): ParseCardQueryResult {
+  const src = String(input ?? "");
+  const errors: CardQueryError[] = [];
+
+  const query: ParsedCardQuery = { game: null, terms: [], text: [], excludeText: [] };
+
+  let i = 0;
+  while (i < src.length) {
+    if (/\s/.test(src[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let negate = false;
+    if (src[i] === "-" && i + 1 < src.length && !/\s/.test(src[i + 1])) {
+      negate = true;
+      i++;
+    }
+
+    // Try `key<op>value`
+    const keyMatch = /^[a-z_]+/i.exec(src.slice(i));
+    const op = keyMatch ? readOp(src, i + keyMatch[0].length) : null;
+
+    if (keyMatch && op) {
+      const key = keyMatch[0].toLowerCase();
+      const valueStart = i + keyMatch[0].length + op.length;
+      const { value, end, unclosed } = readValue(src, valueStart);
+      const raw = src.slice(start, end);
+      i = end;
+
+      if (unclosed) {
+        errors.push({ message: `Missing closing quote in "${raw}".`, position: start, token: raw });
+        continue;
+      }
+
+      const field = FIELD_ALIASES[key];
+      if (!field) {
+        errors.push({
+          message: `Unknown field "${key}". Supported fields: ${CARD_QUERY_FIELDS.join(", ")}.`,
+          position: start,
+          token: raw,
+        });
+        continue;
+      }
+
+      const v = value.trim();
+      if (!v) {
+        errors.push({ message: `"${key}${op}" needs a value.`, position: start, token: raw });
+        continue;
+      }
+
+      if (field === "game") {
+        const game = negate || (op !== ":" && op !== "=") ? null : normalizeQueryGame(v);
+        if (!game) {
+          errors.push({
+            message: `Invalid game "${v}". Use game:pokemon, game:mtg or game:yugioh.`,
+            position: start,
+            token: raw,
+          });
+        } else if (query.game && query.game !== game) {
+          errors.push({ message: `Only one game: term is allowed.`, position: start, token: raw });
+        } else {
+          query.game = game;
+        }
+        continue;
+      }
+
+      if (NUMERIC_FIELDS.has(field)) {
+        const n = Number(v.replace(/^\$/, ""));
+        if (!Number.isFinite(n)) {
+          errors.push({ message: `"${field}" expects a number, got "${v}".`, position: start, token: raw });
+          continue;
+        }
+      } else if (op !== ":" && op !== "=" && op !== "!=") {
+        errors.push({
+          message: `"${field}" does not support "${op}". Use ${field}:value.`,
+          position: start,
+          token: raw,
+        });
+        continue;
+      }
+
+      query.terms.push({ field, op, value: v, negate, raw, position: start });
+      continue;
+    }
+
+    // Bare word or quoted phrase -> name text
+    const { value, end, unclosed } = readValue(src, i);
+    const raw = src.slice(start, end);
+    i = end;
+
+    if (unclosed) {
+      errors.push({ message: `Missing closing quote in "${raw}".`, position: start, token: raw });
+      continue;
+    }
+
+    const v = value.trim();
+    if (!v) continue;
+    if (negate) query.excludeText.push(v);
+    else query.text.push(v);
+  }
+
+  if (errors.length) return { ok: false, errors };
+  return { ok: true, query };
+}
+
+/** One-line summary for API responses / UI banners. */
+export function formatCardQueryErrors(errors: CardQueryError[]): string {
+  return errors.map((e) => e.message).join(" ");
+}
@@ -0,0 +1,411 @@
+// src/lib/search/savedSearches.ts
+import "server-only";
+
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { sendEmail } from "@/lib/email";
+import { getUserEmail } from "@/lib/userEmail";
+import { savedSearchMatchesTemplate } from "@/emails/templates";
+import { searchEverything } from "@/lib/search/engine";
+import { normalizeSearchGame, type SearchGame } from "@/lib/search/games";
+import { looksLikeCardQuery, parseCardQuery, type CardQueryError } from "@/lib/search/query";
+import { nextWatermark, type Watermark } from "@/lib/search/watermark";
+import {
+  SHOP_FILTER_GAMES,
+  isEmptyShopFilter,
+  readShopFilters,
+  shopFilterWhere,
+  type ShopFilterValues,
+} from "@/lib/shop/filters";
+
+/**
+ * Saved searches + "new match" notifications.
+ *
+ * A saved search is either:
+ *  - catalog: a /search query (structured `game:mtg set:mh3 price>20` works too)
+ *  - shop:    a ShopFilters filter set, matched against active `products`
+ *
+ * "New" means the card or listing arrived after the search's watermark
+ * (catalog rows' ingested_at, funko/sports created_at, a shop listing's
+ * published_at, i.e. when it went active) and matches it; relevance only
+ * filters, it never decides what is looked at. Each run reads up to
+ * MATCH_PAGE arrivals in (time, key) order and moves the watermark past
+ * them (see ./watermark.ts). saved_search_matches dedupes rows read twice.
+ */
+
+/* ---------------------------------- Types --------------------------------- */
+
+export type SavedSearchKind = "catalog" | "shop";
+
+export type SavedSearchInput = {
+  name: string;
+  kind: SavedSearchKind;
+  query: string | null;
+  game: SearchGame | null;
+  filters: ShopFilterValues | Record<string, never>;
+  notifyEmail: boolean;
+};
+
+export type SavedSearchValidation =
+  | { ok: true; value: SavedSearchInput }
+  | { ok: false; error: string; message: string; errors?: CardQueryError[] };
+
+export type SavedSearchRow = {
+  id: string;
+  user_id: string;
+  name: string;
+  kind: SavedSearchKind;
+  query: string | null;
+  game: string | null;
+  filters: Record<string, unknown> | null;
+  notify_email: boolean;
+  active: boolean;
+  /** UTC microsecond ISO; null = not started yet */
+  watermark_at: string | null;
+  /** tie-breaking match key at watermark_at ("" = before every key) */
+  watermark_key: string;
+  last_checked_at: string | null;
+  last_notified_at: string | null;
+};
+
+export type SavedSearchMatch = {
+  key: string;
+  title: string;
+  subtitle: string | null;
+  href: string;
+  priceCents: number | null;
+  /** arrival time (shop: when the listing went active), UTC microsecond ISO */
+  arrivedAt: string;
+};
+
+export type SavedSearchRunSummary = {
+  checked: number;
+  baselined: number;
+  newMatches: number;
+  emailed: number;
+  failed: number;
+};
+
+export const MAX_SAVED_SEARCHES_PER_USER = 25;
+
+const MATCH_PAGE = 100;
+
+// Rows can commit a little after the timestamp they were stamped with, so
+// a short page moves the watermark to a bit before the read, not to it.
+const READ_OVERLAP = sql`interval '10 minutes'`;
+
+const ISO_US = `'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'`;
+const EMAIL_MAX_ITEMS = 20;
+const NOTIFY_COOLDOWN_HOURS = 20;
+
+function s(v: unknown) {
+  return String(v ?? "").trim();
+}
+
+function toNum(v: unknown): number | null {
+  if (v == null || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+/* -------------------------------- Validation ------------------------------- */
+
+function describeShopFilter(f: ShopFilterValues) {
+  const parts = [
+    f.q ? `“${f.q}”` : null,
+    f.game,
+    f.format,
+    f.sealed ? "sealed" : null,
+    f.graded ? "graded" : f.graded === false ? "raw" : null,
+    f.grader ? f.grader.toUpperCase() : null,
+    f.gradeMin != null ? `${f.gradeMin / 10}+` : null,
+    f.condition,
+    f.priceMax != null ? `≤ $${(f.priceMax / 100).toFixed(2)}` : null,
+  ].filter(Boolean);
+  return parts.length ? `Shop: ${parts.join(" · ")}` : "Shop search";
+}
+
+export function validateSavedSearchInput(body: any): SavedSearchValidation {
+  const kind = s(body?.kind).toLowerCase();
+  const notifyEmail = body?.notifyEmail === undefined ? true : Boolean(body.notifyEmail);
+  const name = s(body?.name).slice(0, 120);
+
+  if (kind === "catalog") {
+    const query = s(body?.query).slice(0, 120);
+    if (!query) {
+      return { ok: false, error: "missing_query", message: "Enter a search before saving it." };
+    }
+
+    if (looksLikeCardQuery(query)) {
+      const parsed = parseCardQuery(query);
+      if (!parsed.ok) {
+        return {
+          ok: false,
+          error: "invalid_query",
+          message: "That search has errors; fix it before saving.",
+          errors: parsed.errors,
+        };
+      }
+    }
+
+    return {
+      ok: true,
+      value: {
+        name: name || query,
+        kind,
+        query,
+        game: normalizeSearchGame(body?.game),
+        filters: {},
+        notifyEmail,
+      },
+    };
+  }
+
+  if (kind === "shop") {
+    const raw = body?.filters && typeof body.filters === "object" ? body.filters : {};
+    const { filters, invalidGame } = readShopFilters((k) => raw[k]);
+
+    if (invalidGame) {
+      return {
+        ok: false,
+        error: "invalid_game",
+        message: `Invalid game '${invalidGame}'. Allowed: ${SHOP_FILTER_GAMES.join(", ")}.`,
+      };
+    }
+    if (isEmptyShopFilter(filters)) {
+      return { ok: false, error: "empty_filter", message: "Pick at least one filter before saving." };
+    }
+
+    return {
+      ok: true,
+      value: {
+        name: name || describeShopFilter(filters),
+        kind,
+        query: null,
+        game: null,
+        filters,
+        notifyEmail,
+      },
+    };
+  }
+
+  return { ok: false, error: "invalid_kind", message: "kind must be 'catalog' or 'shop'." };
+}
+
+/* --------------------------------- Matching -------------------------------- */
+
+async function findShopMatches(raw: Record<string, unknown>, since: Watermark): Promise<SavedSearchMatch[]> {
+  const { filters } = readShopFilters((k) => raw[k]);
+  const where = shopFilterWhere(filters);
+
+  const res = await db.execute<{
+    slug: string;
+    title: string;
+    subtitle: string | null;
+    price_cents: number | null;
+    arrived_at: string;
+  }>(sql`
+    SELECT
+      p.slug, p.title, p.subtitle, p.price_cents,
+      to_char(p.published_at AT TIME ZONE 'UTC', ${sql.raw(ISO_US)}) AS arrived_at
+    FROM products p
+    WHERE ${sql.join(where, sql` AND `)}
+      AND p.published_at >= ${since.at}::timestamptz
+      AND (p.published_at, ('shop:' || p.slug) COLLATE "C") > (${since.at}::timestamptz, ${since.key} COLLATE "C")
+    ORDER BY p.published_at ASC, ('shop:' || p.slug) COLLATE "C" ASC
+    LIMIT ${MATCH_PAGE}
+  `);
+
+  return (res.rows ?? []).map((r) => ({
+    key: `shop:${r.slug}`,
+    title: r.title,
+    subtitle: r.subtitle ?? null,
+    href: `/products/${encodeURIComponent(r.slug)}`,
+    priceCents: toNum(r.price_cents),
+    arrivedAt: r.arrived_at,
+  }));
+}
+
+/** Matches after the `since` cursor in (arrivedAt, key) order, at most MATCH_PAGE. */
+export async function findSavedSearchMatches(row: SavedSearchRow, since: Watermark): Promise<SavedSearchMatch[]> {
+  if (row.kind === "shop") return findShopMatches(row.filters ?? {}, since);
+
+  const result = await searchEverything({
+    q: s(row.query),
+    game: normalizeSearchGame(row.game),
+    limit: MATCH_PAGE,
+    since,
+  });
+
+  return result.hits
+    .filter((h) => h.ingestedAt)
+    .map((h) => ({
+      key: `${h.game}:${h.id}`,
+      title: h.title,
+      subtitle: h.subtitle,
+      href: h.href,
+      priceCents: h.priceCents,
+      arrivedAt: h.ingestedAt!,
+    }));
+}
+
+/* -------------------------------- Notifier -------------------------------- */
+
+function inCooldown(lastNotifiedAt: string | null) {
+  if (!lastNotifiedAt) return false;
+  const last = new Date(lastNotifiedAt).getTime();
+  return Number.isFinite(last) && Date.now() - last < NOTIFY_COOLDOWN_HOURS * 3600_000;
+}
+
+async function recordMatches(searchId: string, matches: SavedSearchMatch[]) {
+  if (!matches.length) return 0;
+
+  const values = sql.join(
+    matches.map((m) => sql`(${searchId}::uuid, ${m.key}, ${m.title}, ${m.href})`),
+    sql`, `,
+  );
+
+  const res = await db.execute<{ item_key: string }>(sql`
+    INSERT INTO saved_search_matches (saved_search_id, item_key, title, href)
+    VALUES ${values}
+    ON CONFLICT (saved_search_id, item_key) DO NOTHING
+    RETURNING item_key
+  `);
+
+  return res.rows?.length ?? 0;
+}
+
+async function notifyPending(row: SavedSearchRow, current: SavedSearchMatch[]): Promise<boolean> {
+  const pending =
+    (
+      await db.execute<{ id: string; item_key: string; title: string | null; href: string | null }>(sql`
+        SELECT id, item_key, title, href
+        FROM saved_search_matches
+        WHERE saved_search_id = ${row.id}::uuid
+          AND notified_at IS NULL
+        ORDER BY first_seen_at ASC
+      `)
+    ).rows ?? [];
+
+  if (!pending.length) return false;
+
+  // Email turned off: mark as seen so turning it back on doesn't send a backlog.
+  if (!row.notify_email) {
+    await db.execute(sql`
+      UPDATE saved_search_matches SET notified_at = now()
+      WHERE saved_search_id = ${row.id}::uuid AND notified_at IS NULL
+    `);
+    return false;
+  }
+
+  // Keep pending rows for the next run instead of emailing twice in a day.
+  if (inCooldown(row.last_notified_at)) return false;
+
+  const to = await getUserEmail(row.user_id);
+  if (!to) return false;
+
+  const byKey = new Map(current.map((m) => [m.key, m]));
+  const listed = pending.slice(0, EMAIL_MAX_ITEMS).map((p) => {
+    const live = byKey.get(p.item_key);
+    return {
+      title: live?.title ?? p.title ?? p.item_key,
+      subtitle: live?.subtitle ?? null,
+      href: live?.href ?? p.href ?? "/search",
+      priceCents: live?.priceCents ?? null,
+    };
+  });
+
+  const tpl = savedSearchMatchesTemplate({
+    searchName: row.name,
+    matches: listed,
+    moreCount: Math.max(0, pending.length - listed.length),
+  });
+
+  await sendEmail({
+    to,
+    subject: tpl.subject,
+    html: tpl.html,
+    text: tpl.text,
+    idempotencyKey: `saved-search:${row.id}:${pending[pending.length - 1].id}`,
+  });
+
+  await db.execute(sql`
+    UPDATE saved_search_matches SET notified_at = now()
+    WHERE id IN (${sql.join(pending.map((p) => sql`${p.id}::uuid`), sql`, `)})
+  `);
+  await db.execute(sql`
+    UPDATE saved_searches SET last_notified_at = now()
+    WHERE id = ${row.id}::uuid
+  `);
+
+  return true;
+}
+
+/**
+ * Checks active saved searches (least recently checked first) and emails new matches.
+ * Called by /api/cron/saved-searches.
+ */
+export async function runSavedSearches(opts: { limit?: number } = {}): Promise<SavedSearchRunSummary> {
+  const limit = Math.max(1, Math.min(Math.floor(opts.limit ?? 200), 1000));
+
+  const searches =
+    (
+      await db.execute<SavedSearchRow>(sql`
+        SELECT
+          id::text AS id, user_id, name, kind, query, game, filters,
+          notify_email, active,
+          to_char(watermark_at AT TIME ZONE 'UTC', ${sql.raw(ISO_US)}) AS watermark_at,
+          watermark_key,
+          last_checked_at, last_notified_at
+        FROM saved_searches
+        WHERE active = TRUE
+        ORDER BY last_checked_at ASC NULLS FIRST
+        LIMIT ${limit}
+      `)
+    ).rows ?? [];
+
+  const summary: SavedSearchRunSummary = { checked: 0, baselined: 0, newMatches: 0, emailed: 0, failed: 0 };
+
+  for (const row of searches) {
+    try {
+      const readAt =
+        (
+          await db.execute<{ read_at: string }>(sql`
+            SELECT to_char((now() - ${READ_OVERLAP}) AT TIME ZONE 'UTC', ${sql.raw(ISO_US)}) AS read_at
+          `)
+        ).rows?.[0]?.read_at ?? new Date().toISOString();
+
+      // Not started yet: only set the watermark, so nothing that already exists is emailed.
+      if (!row.watermark_at) {
+        await db.execute(sql`
+          UPDATE saved_searches
+          SET watermark_at = ${readAt}::timestamptz, watermark_key = '', last_checked_at = now()
+          WHERE id = ${row.id}::uuid
+        `);
+        summary.baselined++;
+        summary.checked++;
+        continue;
+      }
+
+      const current: Watermark = { at: row.watermark_at, key: row.watermark_key ?? "" };
+      const matches = await findSavedSearchMatches(row, current);
+      summary.newMatches += await recordMatches(row.id, matches);
+
+      if (await notifyPending(row, matches)) summary.emailed++;
+
+      const watermark = nextWatermark(matches, MATCH_PAGE, current, readAt);
+      await db.execute(sql`
+        UPDATE saved_searches
+        SET watermark_at = ${watermark.at}::timestamptz, watermark_key = ${watermark.key}, last_checked_at = now()
+        WHERE id = ${row.id}::uuid
+      `);
+      summary.checked++;
+    } catch (err) {
+      // One bad search (or a flaky email send) shouldn't stop the rest.
+      summary.failed++;
+      console.error(`[saved-searches] search ${row.id} failed`, err);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,44 @@
+// src/lib/search/watermark.ts
+//
+// Where a saved search's next run should start reading new arrivals from.
+// Runs read candidates after the watermark a page at a time, ordered by
+// (arrival time, item key); timestamps are UTC microsecond ISO strings, so
+// both parts compare as text.
+
+/**
+ * Keyset cursor: the next read takes rows with `(at, key) > (wm.at, wm.key)`.
+ * `key` is the match key (`<game>:<id>`) and breaks ties between rows that
+ * share a timestamp; "" sorts before every key.
+ */
+export type Watermark = { at: string; key: string };
+
+export type WatermarkRow = { arrivedAt: string; key: string };
+
+/** Same order as the SQL side: arrival time, then key in byte order. */
+export function compareWatermarkRows(a: WatermarkRow, b: WatermarkRow): number {
+  if (a.arrivedAt !== b.arrivedAt) return a.arrivedAt < b.arrivedAt ? -1 : 1;
+  if (a.key !== b.key) return a.key < b.key ? -1 : 1;
+  return 0;
+}
+
+/**
+ * Next watermark after reading `seen` (in cursor order) with a page size of
+ * `pageSize`, starting from `current`.
+ *
+ * - A full page continues right after its last row, so rows sharing that
+ *   timestamp that didn't fit are read next time.
+ * - A short page means everything up to the read was seen: jump to `readAt`
+ *   (unless the watermark is already past it).
+ */
+export function nextWatermark(
+  seen: WatermarkRow[],
+  pageSize: number,
+  current: Watermark,
+  readAt: string,
+): Watermark {
+  if (seen.length >= pageSize) {
+    const last = seen[seen.length - 1];
+    return { at: last.arrivedAt, key: last.key };
+  }
+  return readAt > current.at ? { at: readAt, key: "" } : current;
+}
@@ -19,6 +19,7 @@ function getMetadataBase(): URL | undefined {
 }
 
 function absoluteImageUrl(image?: string): string {
+  if (image && /^https?:\/\//i.test(image)) return image;
   return absoluteUrl(image || site.ogImage || "/og-image.jpg");
 }
 
@@ -135,6 +136,44 @@ export function getCategoryMetadata({
   };
 }
 
+/** Public share pages (collections, binders, wishlists). Not indexed: they're for the people they're sent to. */
+export function getShareMetadata({
+  title,
+  description,
+  image,
+  slug,
+}: {
+  title: string;
+  description: string;
+  image?: string | null;
+  slug: string;
+}): Metadata {
+  const absUrl = absoluteUrl(`/share/${slug}`);
+  const img = absoluteImageUrl(image ?? undefined);
+
+  return {
+    ...baseMetadata,
+    title: `${title} • ${site.shortName}`,
+    description,
+    alternates: { canonical: absUrl },
+    robots: { index: false, follow: true },
+    openGraph: {
+      ...(baseMetadata.openGraph ?? {}),
+      type: "website",
+      title,
+      description,
+      url: absUrl,
+      images: [{ url: img, width: 1200, height: 630, alt: title }],
+    },
+    twitter: {
+      ...(baseMetadata.twitter ?? {}),
+      title,
+      description,
+      images: [img],
+    },
+  };
+}
+
 export function orgJsonLd() {
   return {
     "@context": "https://schema.org",
@@ -0,0 +1,334 @@
+// src/lib/shares/shares.ts
+import "server-only";
+
+import { randomBytes } from "crypto";
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+  normalizeShareKind,
+  projectShareItems,
+  type PublicShareItem,
+  type PublicShareSummary,
+  type ShareKind,
+  type ShareSourceItem,
+} from "@/lib/shares/visibility";
+
+/* ========== Typed Errors ========== */
+
+export class ShareError extends Error {
+  code: string;
+  status: number;
+
+  constructor(message: string, code: string, status = 400) {
+    super(message);
+    this.name = "ShareError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/* ========== Types ========== */
+
+export type ShareLink = {
+  id: string;
+  slug: string;
+  kind: ShareKind;
+  folder: string | null;
+  title: string | null;
+  description: string | null;
+  hideValues: boolean;
+  hideCost: boolean;
+  hideQuantities: boolean;
+  isActive: boolean;
+  viewCount: number;
+  createdAt: string;
+};
+
+export type ShareInput = {
+  kind: ShareKind;
+  folder: string | null;
+  title: string | null;
+  description: string | null;
+  hideValues: boolean;
+  hideCost: boolean;
+  hideQuantities: boolean;
+};
+
+export type PublicShare = {
+  slug: string;
+  kind: ShareKind;
+  title: string;
+  description: string | null;
+  ownerHandle: string | null;
+  items: PublicShareItem[];
+  summary: PublicShareSummary;
+};
+
+const SLUG_RE = /^[A-Za-z0-9_-]{8,32}$/;
+const MAX_SHARE_ITEMS = 2000;
+
+type ShareRow = {
+  id: string;
+  user_id: string;
+  slug: string;
+  kind: ShareKind;
+  folder: string | null;
+  title: string | null;
+  description: string | null;
+  hide_values: boolean;
+  hide_cost: boolean;
+  hide_quantities: boolean;
+  is_active: boolean;
+  view_count: number;
+  created_at: string;
+};
+
+const SHARE_COLS = sql`
+  id::text AS id, user_id, slug, kind, folder, title, description,
+  hide_values, hide_cost, hide_quantities, is_active, view_count,
+  created_at::text AS created_at
+`;
+
+function toLink(r: ShareRow): ShareLink {
+  return {
+    id: r.id,
+    slug: r.slug,
+    kind: r.kind,
+    folder: r.folder,
+    title: r.title,
+    description: r.description,
+    hideValues: !!r.hide_values,
+    hideCost: !!r.hide_cost,
+    hideQuantities: !!r.hide_quantities,
+    isActive: !!r.is_active,
+    viewCount: Number(r.view_count ?? 0),
+    createdAt: r.created_at,
+  };
+}
+
+function s(v: unknown) {
+  return String(v ?? "").trim();
+}
+
+function newSlug() {
+  return randomBytes(9).toString("base64url");
+}
+
+/* ========== Validation ========== */
+
+export function validateShareInput(body: any): ShareInput {
+  const kind = normalizeShareKind(body?.kind);
+  if (!kind) throw new ShareError("kind must be collection, folder or wishlist.", "invalid_kind");
+
+  const folder = kind === "folder" ? s(body?.folder).slice(0, 120) : null;
+  if (kind === "folder" && !folder) throw new ShareError("Pick a folder to share.", "missing_folder");
+
+  return {
+    kind,
+    folder,
+    title: s(body?.title).slice(0, 120) || null,
+    description: s(body?.description).slice(0, 500) || null,
+    hideValues: Boolean(body?.hideValues),
+    hideCost: body?.hideCost == null ? true : Boolean(body.hideCost),
+    hideQuantities: Boolean(body?.hideQuantities),
+  };
+}
+
+/* ========== Owner side ========== */
+
+export async function listShares(userId: string): Promise<ShareLink[]> {
+  const res = await db.execute<ShareRow>(sql`
+    SELECT ${SHARE_COLS}
+    FROM public.collection_shares
+    WHERE user_id = ${userId}
+    ORDER BY kind, folder NULLS FIRST
+  `);
+  return (res.rows ?? []).map(toLink);
+}
+
+/**
+ * Creates the link for a target, or updates its settings if one exists.
+ * The slug never changes, so links already sent keep working.
+ */
+export async function upsertShare(userId: string, input: ShareInput): Promise<ShareLink> {
+  if (input.kind === "folder") {
+    const has = await db.execute(sql`
+      SELECT 1
+      FROM public.user_collection_items
+      WHERE user_id = ${userId} AND COALESCE(folder, 'Unsorted') = ${input.folder}
+      LIMIT 1
+    `);
+    if (!has.rows?.length) throw new ShareError("That folder is empty.", "folder_not_found", 404);
+  }
+
+  const res = await db.execute<ShareRow>(sql`
+    INSERT INTO public.collection_shares (
+      user_id, slug, kind, folder, title, description,
+      hide_values, hide_cost, hide_quantities
+    )
+    VALUES (
+      ${userId}, ${newSlug()}, ${input.kind}, ${input.folder}, ${input.title}, ${input.description},
+      ${input.hideValues}, ${input.hideCost}, ${input.hideQuantities}
+    )
+    ON CONFLICT (user_id, kind, COALESCE(folder, '')) DO UPDATE SET
+      title = EXCLUDED.title,
+      description = EXCLUDED.description,
+      hide_values = EXCLUDED.hide_values,
+      hide_cost = EXCLUDED.hide_cost,
+      hide_quantities = EXCLUDED.hide_quantities,
+      is_active = true,
+      updated_at = now()
+    RETURNING ${SHARE_COLS}
+  `);
+  return toLink(res.rows[0]);
+}
+
+export async function updateShare(
+  userId: string,
+  id: string,
+  patch: Partial<Pick<ShareLink, "title" | "description" | "hideValues" | "hideCost" | "hideQuantities" | "isActive">>,
+): Promise<ShareLink> {
+  const sets = [];
+  if (patch.title !== undefined) sets.push(sql`title = ${s(patch.title).slice(0, 120) || null}`);
+  if (patch.description !== undefined) sets.push(sql`description = ${s(patch.description).slice(0, 500) || null}`);
+  if (typeof patch.hideValues === "boolean") sets.push(sql`hide_values = ${patch.hideValues}`);
+  if (typeof patch.hideCost === "boolean") sets.push(sql`hide_cost = ${patch.hideCost}`);
+  if (typeof patch.hideQuantities === "boolean") sets.push(sql`hide_quantities = ${patch.hideQuantities}`);
+  if (typeof patch.isActive === "boolean") sets.push(sql`is_active = ${patch.isActive}`);
+  if (!sets.length) throw new ShareError("Nothing to update.", "bad_request");
+
+  const res = await db.execute<ShareRow>(sql`
+    UPDATE public.collection_shares
+    SET ${sql.join(sets, sql`, `)}, updated_at = now()
+    WHERE id::text = ${id} AND user_id = ${userId}
+    RETURNING ${SHARE_COLS}
+  `);
+  const row = res.rows?.[0];
+  if (!row) throw new ShareError("Share link not found.", "not_found", 404);
+  return toLink(row);
+}
+
+export async function deleteShare(userId: string, id: string) {
+  await db.execute(sql`
+    DELETE FROM public.collection_shares
+    WHERE id::text = ${id} AND user_id = ${userId}
+  `);
+}
+
+/** Folders the owner can share, with item counts. */
+export async function listShareableFolders(userId: string): Promise<{ folder: string; items: number }[]> {
+  const res = await db.execute<{ folder: string; items: number }>(sql`
+    SELECT COALESCE(folder, 'Unsorted') AS folder, COUNT(*)::int AS items
+    FROM public.user_collection_items
+    WHERE user_id = ${userId} AND quantity > 0
+    GROUP BY 1
+    ORDER BY 1
+  `);
+  return (res.rows ?? []).map((r) => ({ folder: r.folder, items: Number(r.items) }));
+}
+
+/* ========== Public side ========== */
+
+type ItemRow = {
+  game: string;
+  card_id: string;
+  card_name: string | null;
+  set_name: string | null;
+  image_url: string | null;
+  variant_type: string | null;
+  grading_company: string | null;
+  grade_label: string | null;
+  quantity: number;
+  cost_cents: number | null;
+  last_value_cents: number | null;
+};
+
+async function loadShareItems(share: ShareRow): Promise<ShareSourceItem[]> {
+  const res =
+    share.kind === "wishlist"
+      ? await db.execute<ItemRow>(sql`
+          SELECT
+            game, card_id, card_name, set_name, image_url,
+            NULL::text AS variant_type, NULL::text AS grading_company, NULL::text AS grade_label,
+            1 AS quantity, NULL::int AS cost_cents, NULL::int AS last_value_cents
+          FROM public.user_wishlist_items
+          WHERE user_id = ${share.user_id}
+          ORDER BY game, card_name NULLS LAST, card_id
+          LIMIT ${MAX_SHARE_ITEMS}
+        `)
+      : await db.execute<ItemRow>(sql`
+          SELECT
+            game, card_id, card_name, set_name, image_url,
+            variant_type, NULLIF(grading_company, '') AS grading_company, NULLIF(grade_label, '') AS grade_label,
+            quantity, cost_cents, last_value_cents
+          FROM public.user_collection_items
+          WHERE user_id = ${share.user_id}
+            AND quantity > 0
+            ${share.kind === "folder" ? sql`AND COALESCE(folder, 'Unsorted') = ${share.folder}` : sql``}
+          ORDER BY last_value_cents DESC NULLS LAST, card_name
+          LIMIT ${MAX_SHARE_ITEMS}
+        `);
+
+  return (res.rows ?? []).map((r) => ({
+    game: r.game,
+    cardId: r.card_id,
+    cardName: r.card_name,
+    setName: r.set_name,
+    imageUrl: r.image_url,
+    variantType: r.variant_type,
+    gradingCompany: r.grading_company,
+    gradeLabel: r.grade_label,
+    quantity: Number(r.quantity ?? 0),
+    costCents: r.cost_cents == null ? null : Number(r.cost_cents),
+    lastValueCents: r.last_value_cents == null ? null : Number(r.last_value_cents),
+  }));
+}
+
+function defaultTitle(share: ShareRow, handle: string | null) {
+  const who = handle ? `@${handle}` : "A collector";
+  if (share.kind === "wishlist") return `${who}'s wishlist`;
+  if (share.kind === "folder") return `${who}'s ${share.folder} binder`;
+  return `${who}'s collection`;
+}
+
+/**
+ * Loads an active share by slug with visibility applied. The owner's trade
+ * handle (if they have one) is the only identity shown.
+ */
+export async function getPublicShare(slug: string, opts: { countView?: boolean } = {}): Promise<PublicShare | null> {
+  if (!SLUG_RE.test(slug)) return null;
+
+  const res = await db.execute<ShareRow & { handle: string | null }>(sql`
+    SELECT ${SHARE_COLS}, (
+      SELECT p.handle FROM public.trade_profiles p WHERE p.user_id = collection_shares.user_id
+    ) AS handle
+    FROM public.collection_shares
+    WHERE slug = ${slug} AND is_active = true
+    LIMIT 1
+  `);
+  const share = res.rows?.[0];
+  if (!share) return null;
+
+  if (opts.countView) {
+    await db.execute(sql`
+      UPDATE public.collection_shares SET view_count = view_count + 1 WHERE id::text = ${share.id}
+    `);
+  }
+
+  const rows = await loadShareItems(share);
+  const { items, summary } = projectShareItems(rows, share.kind, {
+    hideValues: !!share.hide_values,
+    hideCost: !!share.hide_cost,
+    hideQuantities: !!share.hide_quantities,
+  });
+
+  return {
+    slug: share.slug,
+    kind: share.kind,
+    title: share.title || defaultTitle(share, share.handle),
+    description: share.description,
+    ownerHandle: share.handle,
+    items,
+    summary,
+  };
+}
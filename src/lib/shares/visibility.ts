@@ -0,0 +1,125 @@
+// src/lib/shares/visibility.ts
+//
+// What a public share page may show. Hidden fields are dropped here, on the
+// server, so they never reach the page payload.
+
+export type ShareKind = "collection" | "folder" | "wishlist";
+
+export type ShareVisibility = {
+  hideValues: boolean;
+  hideCost: boolean;
+  hideQuantities: boolean;
+};
+
+/** A user_collection_items / user_wishlist_items row as loaded for a share. */
+export type ShareSourceItem = {
+  game: string;
+  cardId: string;
+  cardName: string | null;
+  setName: string | null;
+  imageUrl: string | null;
+  variantType: string | null;
+  gradingCompany: string | null;
+  gradeLabel: string | null;
+  quantity: number;
+  /** per copy */
+  costCents: number | null;
+  /** whole row (quantity × unit) */
+  lastValueCents: number | null;
+};
+
+export type PublicShareItem = {
+  game: string;
+  cardId: string;
+  name: string;
+  setName: string | null;
+  imageUrl: string | null;
+  variant: string | null;
+  grade: string | null;
+  href: string | null;
+  quantity: number | null;
+  valueCents: number | null;
+  costCents: number | null;
+};
+
+export type PublicShareSummary = {
+  cards: number;
+  copies: number | null;
+  valueCents: number | null;
+  costCents: number | null;
+};
+
+export function normalizeShareKind(raw: unknown): ShareKind | null {
+  const v = String(raw ?? "").trim().toLowerCase();
+  return v === "collection" || v === "folder" || v === "wishlist" ? v : null;
+}
+
+function cardHref(game: string, cardId: string): string | null {
+  const enc = encodeURIComponent(cardId);
+  switch (game) {
+    case "pokemon":
+      return `/categories/pokemon/cards/${enc}`;
+    case "mtg":
+      return `/categories/mtg/cards/${enc}`;
+    case "yugioh":
+      return `/categories/yugioh/cards/${enc}`;
+    case "funko":
+      return `/categories/funko/items/${enc}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Applies the share's visibility flags. Cert numbers are never published.
+ * Wishlists carry no quantities, values or costs.
+ */
+export function projectShareItems(
+  rows: ShareSourceItem[],
+  kind: ShareKind,
+  vis: ShareVisibility,
+): { items: PublicShareItem[]; summary: PublicShareSummary } {
+  const owned = kind !== "wishlist";
+  const showQty = owned && !vis.hideQuantities;
+  const showValue = owned && !vis.hideValues;
+  const showCost = owned && !vis.hideCost;
+
+  let copies = 0;
+  let value = 0;
+  let cost = 0;
+
+  const items = rows.map((r) => {
+    const qty = Math.max(0, Number(r.quantity) || 0);
+    const costTotal = r.costCents == null ? null : r.costCents * qty;
+    copies += qty;
+    value += r.lastValueCents ?? 0;
+    cost += costTotal ?? 0;
+
+    const variant = r.variantType && r.variantType !== "normal" ? r.variantType : null;
+    const grade = r.gradingCompany ? `${r.gradingCompany} ${r.gradeLabel ?? ""}`.trim() : null;
+
+    return {
+      game: r.game,
+      cardId: r.cardId,
+      name: r.cardName || r.cardId,
+      setName: r.setName,
+      imageUrl: r.imageUrl,
+      variant,
+      grade,
+      href: cardHref(r.game, r.cardId),
+      quantity: showQty ? qty : null,
+      valueCents: showValue ? (r.lastValueCents ?? null) : null,
+      costCents: showCost ? costTotal : null,
+    };
+  });
+
+  return {
+    items,
+    summary: {
+      cards: items.length,
+      copies: showQty ? copies : null,
+      valueCents: showValue ? value : null,
+      costCents: showCost ? cost : null,
+    },
+  };
+}
@@ -0,0 +1,156 @@
+// src/lib/shop/filters.ts
+import "server-only";
+
+import { sql, type SQL } from "drizzle-orm";
+
+/**
+ * Shop listing filters (the `ShopFilters` sidebar + /api/shop/products query params).
+ *
+ * Shared by the products API and saved searches so a saved shop filter matches
+ * exactly what the shopper saw when they saved it. Every fragment assumes
+ * `products` is aliased as `p`.
+ */
+
+// "collectibles" is a SPECIAL BUCKET, not a true "game equals collectibles" filter.
+export const SHOP_FILTER_GAMES = ["pokemon", "yugioh", "mtg", "sports", "funko", "collectibles"] as const;
+
+export type ShopFilterGame = (typeof SHOP_FILTER_GAMES)[number];
+
+export type ShopFilterValues = {
+  game: ShopFilterGame | null;
+  format: string | null;
+  q: string | null;
+  sealed: boolean | null;
+  graded: boolean | null;
+  grader: string | null;
+  /** x10, e.g. 95 = 9.5 */
+  gradeMin: number | null;
+  condition: string | null;
+  priceMin: number | null;
+  priceMax: number | null;
+};
+
+const GAMES_SET = new Set<string>(SHOP_FILTER_GAMES);
+
+function norm(v: unknown) {
+  return String(v ?? "").trim();
+}
+
+export function toShopBool(v: unknown): boolean | null {
+  const s = norm(v).toLowerCase();
+  if (!s) return null;
+  if (s === "true" || s === "1" || s === "yes") return true;
+  if (s === "false" || s === "0" || s === "no") return false;
+  return null;
+}
+
+function toNumOrNull(v: unknown): number | null {
+  const s = norm(v);
+  if (!s) return null;
+  const n = Number(s);
+  return Number.isFinite(n) ? n : null;
+}
+
+// normalize plural slugs -> enum values
+export function normShopFormat(v: string) {
+  const s = (v || "").trim().toLowerCase();
+  if (!s || s === "all") return "";
+  if (s === "singles") return "single";
+  if (s === "packs") return "pack";
+  if (s === "boxes") return "box";
+  if (s === "bundles") return "bundle";
+  if (s === "lots") return "lot";
+  if (s === "accessories") return "accessory";
+  return s;
+}
+
+export function normShopGame(v: string) {
+  const s = (v || "").trim().toLowerCase();
+  if (!s) return "";
+
+  if (s === "ygo" || s === "yu-gi-oh" || s === "yu-gi-oh!") return "yugioh";
+  if (s === "magic") return "mtg";
+
+  // Treat these as the SPECIAL BUCKET
+  if (s === "collectible") return "collectibles";
+  if (s === "figures" || s === "figure") return "collectibles";
+
+  return s;
+}
+
+export function isShopFilterGame(v: string): v is ShopFilterGame {
+  return GAMES_SET.has(v);
+}
+
+/**
+ * Reads filters from query params or a saved JSON object.
+ * Unknown games come back as `game: null` plus `invalidGame` so callers can 400.
+ */
+export function readShopFilters(
+  get: (key: string) => unknown,
+): { filters: ShopFilterValues; invalidGame: string | null } {
+  const gameRaw = normShopGame(norm(get("game")));
+  const game = gameRaw && isShopFilterGame(gameRaw) ? gameRaw : null;
+
+  return {
+    filters: {
+      game,
+      format: normShopFormat(norm(get("format"))) || null,
+      q: norm(get("q")) || null,
+      sealed: toShopBool(get("sealed")),
+      graded: toShopBool(get("graded")),
+      grader: norm(get("grader")).toLowerCase() || null,
+      gradeMin: toNumOrNull(get("gradeMin")),
+      condition: norm(get("condition")).toLowerCase() || null,
+      priceMin: toNumOrNull(get("priceMin")),
+      priceMax: toNumOrNull(get("priceMax")),
+    },
+    invalidGame: gameRaw && !game ? gameRaw : null,
+  };
+}
+
+/** True when no filter narrows the catalog (saving that would match every new listing). */
+export function isEmptyShopFilter(f: ShopFilterValues) {
+  return Object.values(f).every((v) => v == null);
+}
+
+/** WHERE fragments for active products matching the filters. */
+export function shopFilterWhere(f: ShopFilterValues): SQL[] {
+  const where: SQL[] = [];
+  where.push(sql`p.status = 'active'`);
+
+  /**
+   * ✅ KEY FIX:
+   * collectibles = bucket = NOT pokemon/yugioh/mtg/funko
+   */
+  if (f.game === "collectibles") {
+    where.push(
+      sql`p.game not in ('pokemon'::game, 'yugioh'::game, 'mtg'::game, 'funko'::game)`,
+    );
+  } else if (f.game) {
+    where.push(sql`p.game = ${f.game}::game`);
+  }
+
+  if (f.format) where.push(sql`p.format = ${f.format}::product_format`);
+
+  if (f.sealed !== null) where.push(sql`p.sealed = ${f.sealed}`);
+  if (f.graded !== null) where.push(sql`p.is_graded = ${f.graded}`);
+
+  if (f.grader) where.push(sql`lower(p.grader::text) = ${f.grader}`);
+  if (f.gradeMin !== null) where.push(sql`p.grade_x10 >= ${f.gradeMin}`);
+  if (f.condition) where.push(sql`lower(p.condition::text) = ${f.condition}`);
+
+  if (f.priceMin !== null) where.push(sql`p.price_cents >= ${f.priceMin}`);
+  if (f.priceMax !== null) where.push(sql`p.price_cents <= ${f.priceMax}`);
+
+  if (f.q) {
+    const like = `%${f.q.replace(/%/g, "\\%").replace(/_/g, "\\_")}%`;
+    where.push(sql`(
+      p.title ILIKE ${like}
+      OR coalesce(p.subtitle,'') ILIKE ${like}
+      OR coalesce(p.sku,'') ILIKE ${like}
+    )`);
+  }
+
+  return where;
+}
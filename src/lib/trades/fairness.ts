@@ -0,0 +1,57 @@
+// src/lib/trades/fairness.ts
+//
+// Fair-value scoring for a trade offer: totals each side at market value
+// and says whether the gap is within tolerance. Works on items already
+// priced by getLivePriceForCard in ./trades.ts.
+
+export type ValuedTradeItem = {
+  quantity: number;
+  /** per copy; null when we have no price for the card */
+  unitValueCents: number | null;
+};
+
+export type TradeVerdict = "fair" | "favors_proposer" | "favors_recipient";
+
+export type TradeScore = {
+  /** what the proposer gives */
+  proposerValueCents: number;
+  /** what the recipient gives */
+  recipientValueCents: number;
+  /** recipientValue - proposerValue: > 0 means the proposer comes out ahead */
+  imbalanceCents: number;
+  /** imbalance as a share of the bigger side (0..1) */
+  imbalancePct: number;
+  /** items without a price (valued at $0 above) */
+  unpricedItems: number;
+  verdict: TradeVerdict;
+};
+
+/** Within 5% of the bigger side (or $1 on small trades) counts as even. */
+export const FAIR_TOLERANCE_PCT = 0.05;
+export const FAIR_TOLERANCE_MIN_CENTS = 100;
+
+export function sideValueCents(items: ValuedTradeItem[]): number {
+  return items.reduce((sum, it) => sum + (it.unitValueCents ?? 0) * it.quantity, 0);
+}
+
+export function scoreTrade(proposerGives: ValuedTradeItem[], recipientGives: ValuedTradeItem[]): TradeScore {
+  const proposerValueCents = sideValueCents(proposerGives);
+  const recipientValueCents = sideValueCents(recipientGives);
+  const imbalanceCents = recipientValueCents - proposerValueCents;
+
+  const bigger = Math.max(proposerValueCents, recipientValueCents);
+  const imbalancePct = bigger > 0 ? Math.abs(imbalanceCents) / bigger : 0;
+  const tolerance = Math.max(FAIR_TOLERANCE_MIN_CENTS, Math.round(bigger * FAIR_TOLERANCE_PCT));
+
+  const verdict: TradeVerdict =
+    Math.abs(imbalanceCents) <= tolerance ? "fair" : imbalanceCents > 0 ? "favors_proposer" : "favors_recipient";
+
+  return {
+    proposerValueCents,
+    recipientValueCents,
+    imbalanceCents,
+    imbalancePct: Math.round(imbalancePct * 1000) / 1000,
+    unpricedItems: [...proposerGives, ...recipientGives].filter((it) => it.unitValueCents == null).length,
+    verdict,
+  };
+}
@@ -0,0 +1,776 @@
+// src/lib/trades/trades.ts
+import "server-only";
+
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { getLivePriceForCard, normalizeGame } from "@/lib/livePrices";
+import { ensureCanAddItem } from "@/lib/collections/limits";
+import { enqueueRevalueJob } from "@/lib/collections/revalueQueue";
+import { scoreTrade, type TradeScore } from "@/lib/trades/fairness";
+import { notifyUser } from "@/lib/notifications/notifications";
+import { tradeNotification, type TradeEventType } from "@/lib/notifications/events";
+
+/* ========== Typed Errors ========== */
+
+export class TradeError extends Error {
+  code: string;
+  status: number;
+  details?: Record<string, unknown>;
+
+  constructor(message: string, code: string, status = 400, details?: Record<string, unknown>) {
+    super(message);
+    this.name = "TradeError";
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/* ========== Types ========== */
+
+export type TradeStatus = "pending" | "countered" | "accepted" | "declined" | "cancelled";
+export type TradeSide = "proposer" | "recipient";
+export type TradeAction = "accept" | "decline" | "cancel" | "counter";
+
+export type TradeProfile = { userId: string; handle: string; openToTrades: boolean };
+
+export type TradeableItem = {
+  itemId: string;
+  game: string;
+  cardId: string;
+  cardName: string | null;
+  setName: string | null;
+  imageUrl: string | null;
+  variantType: string;
+  gradingCompany: string;
+  gradeLabel: string;
+  certNumber: string;
+  quantity: number;
+};
+
+export type TradePick = { itemId: string; quantity: number };
+
+export type TradeInput = {
+  recipientHandle: string;
+  /** proposer's own items */
+  give: TradePick[];
+  /** recipient's items */
+  get: TradePick[];
+  note: string | null;
+};
+
+export type QuotedItem = TradeableItem & {
+  side: TradeSide;
+  /** quantity in the offer (not the owner's total) */
+  quantity: number;
+  unitValueCents: number | null;
+  valueSource: string | null;
+};
+
+export type TradeQuote = {
+  recipient: TradeProfile;
+  items: QuotedItem[];
+  score: TradeScore;
+};
+
+export type TradeOfferView = {
+  id: string;
+  status: TradeStatus;
+  parentId: string | null;
+  note: string | null;
+  role: TradeSide;
+  proposerHandle: string | null;
+  recipientHandle: string | null;
+  items: QuotedItem[];
+  score: TradeScore;
+  createdAt: string;
+  respondedAt: string | null;
+};
+
+export type TradeEventView = { action: string; actorHandle: string | null; detail: unknown; createdAt: string };
+
+const HANDLE_RE = /^[a-z0-9_]{3,24}$/;
+const MAX_ITEMS_PER_SIDE = 50;
+const TRADE_FOLDER = "Unsorted";
+
+/* ========== Validation ========== */
+
+function s(v: unknown) {
+  return String(v ?? "").trim();
+}
+
+export function normalizeHandle(raw: unknown): string | null {
+  const v = s(raw).replace(/^@/, "").toLowerCase();
+  return HANDLE_RE.test(v) ? v : null;
+}
+
+function readPicks(raw: unknown, field: string): TradePick[] {
+  const list = Array.isArray(raw) ? raw : [];
+  if (list.length > MAX_ITEMS_PER_SIDE) {
+    throw new TradeError(`Offers are limited to ${MAX_ITEMS_PER_SIDE} items per side.`, "too_many_items");
+  }
+
+  const merged = new Map<string, number>();
+  for (const p of list) {
+    const itemId = s((p as any)?.itemId);
+    const quantity = Number((p as any)?.quantity ?? 1);
+    if (!itemId) throw new TradeError(`${field}: itemId is required.`, "invalid_items");
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new TradeError(`${field}: quantity must be a whole number of at least 1.`, "invalid_quantity");
+    }
+    merged.set(itemId, (merged.get(itemId) ?? 0) + quantity);
+  }
+  return [...merged].map(([itemId, quantity]) => ({ itemId, quantity }));
+}
+
+export function validateTradeInput(body: any): TradeInput {
+  const recipientHandle = normalizeHandle(body?.recipient ?? body?.recipientHandle);
+  if (!recipientHandle) throw new TradeError("Pick a trader by their handle.", "missing_recipient");
+
+  const give = readPicks(body?.give, "give");
+  const get = readPicks(body?.get, "get");
+  if (!give.length && !get.length) {
+    throw new TradeError("Add at least one card to the offer.", "empty_offer");
+  }
+
+  return { recipientHandle, give, get, note: s(body?.note).slice(0, 1000) || null };
+}
+
+/* ========== Profiles ========== */
+
+export async function getTradeProfile(userId: string): Promise<TradeProfile | null> {
+  const res = await db.execute<{ user_id: string; handle: string; open_to_trades: boolean }>(sql`
+    SELECT user_id, handle, open_to_trades
+    FROM public.trade_profiles
+    WHERE user_id = ${userId}
+    LIMIT 1
+  `);
+  const r = res.rows?.[0];
+  return r ? { userId: r.user_id, handle: r.handle, openToTrades: !!r.open_to_trades } : null;
+}
+
+export async function upsertTradeProfile(
+  userId: string,
+  input: { handle: unknown; openToTrades?: unknown },
+): Promise<TradeProfile> {
+  const handle = normalizeHandle(input.handle);
+  if (!handle) {
+    throw new TradeError("Handles are 3–24 characters: letters, numbers and underscores.", "invalid_handle");
+  }
+  const open = input.openToTrades == null ? true : Boolean(input.openToTrades);
+
+  try {
+    await db.execute(sql`
+      INSERT INTO public.trade_profiles (user_id, handle, open_to_trades)
+      VALUES (${userId}, ${handle}, ${open})
+      ON CONFLICT (user_id) DO UPDATE SET
+        handle = EXCLUDED.handle,
+        open_to_trades = EXCLUDED.open_to_trades,
+        updated_at = now()
+    `);
+  } catch (err: any) {
+    if (err?.code === "23505") throw new TradeError("That handle is taken.", "handle_taken", 409);
+    throw err;
+  }
+
+  return { userId, handle, openToTrades: open };
+}
+
+/** Only users who opted in can be found (and have their collection shown). */
+export async function findTrader(handle: string): Promise<TradeProfile | null> {
+  const h = normalizeHandle(handle);
+  if (!h) return null;
+
+  const res = await db.execute<{ user_id: string; handle: string; open_to_trades: boolean }>(sql`
+    SELECT user_id, handle, open_to_trades
+    FROM public.trade_profiles
+    WHERE lower(handle) = ${h} AND open_to_trades = true
+    LIMIT 1
+  `);
+  const r = res.rows?.[0];
+  return r ? { userId: r.user_id, handle: r.handle, openToTrades: true } : null;
+}
+
+/* ========== Items + valuation ========== */
+
+type ItemRow = {
+  id: string;
+  game: string;
+  card_id: string;
+  card_name: string | null;
+  set_name: string | null;
+  image_url: string | null;
+  variant_type: string | null;
+  grading_company: string | null;
+  grade_label: string | null;
+  cert_number: string | null;
+  quantity: number;
+};
+
+function toTradeable(r: ItemRow): TradeableItem {
+  return {
+    itemId: r.id,
+    game: r.game,
+    cardId: r.card_id,
+    cardName: r.card_name,
+    setName: r.set_name,
+    imageUrl: r.image_url,
+    variantType: r.variant_type || "normal",
+    gradingCompany: r.grading_company ?? "",
+    gradeLabel: r.grade_label ?? "",
+    certNumber: r.cert_number ?? "",
+    quantity: Number(r.quantity ?? 0),
+  };
+}
+
+export async function listTradeableItems(userId: string): Promise<TradeableItem[]> {
+  const res = await db.execute<ItemRow>(sql`
+    SELECT
+      id::text AS id, game, card_id, card_name, set_name, image_url,
+      variant_type, grading_company, grade_label, cert_number, quantity
+    FROM public.user_collection_items
+    WHERE user_id = ${userId}
+      AND quantity > 0
+      AND game IN ('pokemon', 'mtg', 'yugioh')
+    ORDER BY game, card_name NULLS LAST, card_id
+  `);
+  return (res.rows ?? []).map(toTradeable);
+}
+
+async function loadPicked(userId: string, picks: TradePick[], side: TradeSide): Promise<TradeableItem[]> {
+  if (!picks.length) return [];
+
+  const ids = sql`ARRAY[${sql.join(
+    picks.map((p) => sql`${p.itemId}`),
+    sql`, `,
+  )}]::text[]`;
+
+  const res = await db.execute<ItemRow>(sql`
+    SELECT
+      id::text AS id, game, card_id, card_name, set_name, image_url,
+      variant_type, grading_company, grade_label, cert_number, quantity
+    FROM public.user_collection_items
+    WHERE user_id = ${userId}
+      AND id::text = ANY(${ids})
+  `);
+  const byId = new Map((res.rows ?? []).map((r) => [r.id, toTradeable(r)]));
+
+  return picks.map((p) => {
+    const item = byId.get(p.itemId);
+    const who = side === "proposer" ? "You don't" : "They don't";
+    if (!item) throw new TradeError(`${who} have one of the selected cards anymore.`, "items_unavailable", 409);
+    if (item.quantity < p.quantity) {
+      throw new TradeError(
+        `${who} have ${p.quantity}× ${item.cardName ?? item.cardId} (only ${item.quantity}).`,
+        "items_unavailable",
+        409,
+      );
+    }
+    return { ...item, quantity: p.quantity };
+  });
+}
+
+/** Live per-copy value for each distinct card/variant (one lookup per card). */
+async function valueItems(items: TradeableItem[], side: TradeSide): Promise<QuotedItem[]> {
+  const cache = new Map<string, Promise<{ cents: number | null; source: string | null }>>();
+
+  const lookup = (it: TradeableItem) => {
+    const key = `${it.game}|${it.cardId}|${it.variantType}`;
+    let p = cache.get(key);
+    if (!p) {
+      const game = normalizeGame(it.game);
+      p = (game ? getLivePriceForCard(game, it.cardId, it.variantType) : Promise.resolve(null))
+        .then((lp) => (lp ? { cents: Math.round(lp.amount * 100), source: lp.source } : { cents: null, source: null }))
+        .catch(() => ({ cents: null, source: null }));
+      cache.set(key, p);
+    }
+    return p;
+  };
+
+  return Promise.all(
+    items.map(async (it) => {
+      const v = await lookup(it);
+      return { ...it, side, unitValueCents: v.cents, valueSource: v.source };
+    }),
+  );
+}
+
+function scoreItems(items: QuotedItem[]): TradeScore {
+  return scoreTrade(
+    items.filter((i) => i.side === "proposer"),
+    items.filter((i) => i.side === "recipient"),
+  );
+}
+
+/** Checks ownership/quantities on both sides and values them. Nothing is written. */
+export async function quoteTrade(proposerId: string, input: TradeInput): Promise<TradeQuote> {
+  const recipient = await findTrader(input.recipientHandle);
+  if (!recipient) throw new TradeError("No open trader with that handle.", "trader_not_found", 404);
+  if (recipient.userId === proposerId) throw new TradeError("You can't trade with yourself.", "self_trade");
+
+  const [give, get] = await Promise.all([
+    loadPicked(proposerId, input.give, "proposer"),
+    loadPicked(recipient.userId, input.get, "recipient"),
+  ]);
+
+  const items = [...(await valueItems(give, "proposer")), ...(await valueItems(get, "recipient"))];
+  return { recipient, items, score: scoreItems(items) };
+}
+
+/* ========== Offers ========== */
+
+async function insertOffer(
+  tx: any,
+  proposerId: string,
+  quote: TradeQuote,
+  note: string | null,
+  parentId: string | null,
+): Promise<string> {
+  const offerRes = await tx.execute(sql`
+    INSERT INTO public.trade_offers (
+      proposer_id, recipient_id, status, parent_id, note,
+      proposer_value_cents, recipient_value_cents
+    )
+    VALUES (
+      ${proposerId}, ${quote.recipient.userId}, 'pending', ${parentId}::uuid, ${note},
+      ${quote.score.proposerValueCents}, ${quote.score.recipientValueCents}
+    )
+    RETURNING id::text AS id
+  `);
+  const offerId: string = offerRes.rows[0].id;
+
+  for (const it of quote.items) {
+    await tx.execute(sql`
+      INSERT INTO public.trade_offer_items (
+        offer_id, side, item_id, game, card_id, card_name, set_name, image_url,
+        variant_type, grading_company, grade_label, cert_number,
+        quantity, unit_value_cents, value_source
+      )
+      VALUES (
+        ${offerId}::uuid, ${it.side}, ${it.itemId}::uuid, ${it.game}, ${it.cardId},
+        ${it.cardName}, ${it.setName}, ${it.imageUrl},
+        ${it.variantType}, ${it.gradingCompany}, ${it.gradeLabel}, ${it.certNumber},
+        ${it.quantity}, ${it.unitValueCents}, ${it.valueSource}
+      )
+    `);
+  }
+
+  await logEvent(tx, offerId, proposerId, parentId ? "countered" : "proposed", {
+    parentId,
+    score: quote.score,
+  });
+
+  return offerId;
+}
+
+async function logEvent(tx: any, offerId: string, actorId: string, action: string, detail: Record<string, unknown>) {
+  await tx.execute(sql`
+    INSERT INTO public.trade_events (offer_id, actor_id, action, detail)
+    VALUES (${offerId}::uuid, ${actorId}, ${action}, ${JSON.stringify(detail)}::jsonb)
+  `);
+}
+
+async function requireHandle(userId: string) {
+  const profile = await getTradeProfile(userId);
+  if (!profile) throw new TradeError("Pick a trader handle before sending offers.", "missing_profile", 409);
+  return profile;
+}
+
+/** Tells the other side of a trade what happened; never fails the trade itself. */
+async function notifyTrade(toUserId: string, type: TradeEventType, offerId: string, actor: TradeProfile | null) {
+  try {
+    await notifyUser(toUserId, [tradeNotification(type, { offerId, actorHandle: actor?.handle ?? null })]);
+  } catch (err) {
+    console.error(`[trades] notify ${type} failed for ${offerId}`, err);
+  }
+}
+
+export async function createTradeOffer(proposerId: string, input: TradeInput) {
+  const me = await requireHandle(proposerId);
+  const quote = await quoteTrade(proposerId, input);
+  const offerId = await db.transaction((tx) => insertOffer(tx, proposerId, quote, input.note, null));
+  await notifyTrade(quote.recipient.userId, "offered", offerId, me);
+  return { offerId, score: quote.score };
+}
+
+type LockedOffer = { id: string; proposer_id: string; recipient_id: string; status: TradeStatus };
+
+async function lockOffer(tx: any, offerId: string): Promise<LockedOffer> {
+  const res = await tx.execute(sql`
+    SELECT id::text AS id, proposer_id, recipient_id, status
+    FROM public.trade_offers
+    WHERE id::text = ${offerId}
+    FOR UPDATE
+  `);
+  const offer = res.rows?.[0] as LockedOffer | undefined;
+  if (!offer) throw new TradeError("Trade not found.", "not_found", 404);
+  return offer;
+}
+
+function assertPending(offer: LockedOffer) {
+  if (offer.status !== "pending") {
+    throw new TradeError(`This offer was already ${offer.status}.`, "not_pending", 409);
+  }
+}
+
+async function setStatus(tx: any, offerId: string, status: TradeStatus) {
+  await tx.execute(sql`
+    UPDATE public.trade_offers
+    SET status = ${status}, responded_at = now(), updated_at = now()
+    WHERE id::text = ${offerId}
+  `);
+}
+
+/** Recipient declines, or proposer withdraws. */
+export async function closeTradeOffer(userId: string, offerId: string, action: "decline" | "cancel") {
+  const result = await db.transaction(async (tx) => {
+    const offer = await lockOffer(tx, offerId);
+    const allowed = action === "decline" ? offer.recipient_id : offer.proposer_id;
+    if (userId !== allowed) {
+      const notYours = offer.proposer_id !== userId && offer.recipient_id !== userId;
+      throw new TradeError(
+        notYours ? "Trade not found." : `Only the ${action === "decline" ? "recipient" : "proposer"} can ${action} this offer.`,
+        notYours ? "not_found" : "forbidden",
+        notYours ? 404 : 403,
+      );
+    }
+    assertPending(offer);
+
+    const status: TradeStatus = action === "decline" ? "declined" : "cancelled";
+    await setStatus(tx, offerId, status);
+    await logEvent(tx, offerId, userId, status, {});
+    return { offerId, status, otherId: action === "decline" ? offer.proposer_id : offer.recipient_id };
+  });
+
+  const actor = await getTradeProfile(userId);
+  await notifyTrade(result.otherId, action === "decline" ? "declined" : "cancelled", offerId, actor);
+  return { offerId: result.offerId, status: result.status };
+}
+
+/**
+ * Recipient replies with different terms: the original is marked "countered"
+ * and a new pending offer goes back the other way.
+ */
+export async function counterTradeOffer(userId: string, offerId: string, body: any) {
+  const me = await requireHandle(userId);
+
+  const peek = await db.execute<{ proposer_id: string; recipient_id: string }>(sql`
+    SELECT proposer_id, recipient_id FROM public.trade_offers WHERE id::text = ${offerId} LIMIT 1
+  `);
+  const original = peek.rows?.[0];
+  if (!original || (original.proposer_id !== userId && original.recipient_id !== userId)) {
+    throw new TradeError("Trade not found.", "not_found", 404);
+  }
+  if (original.recipient_id !== userId) {
+    throw new TradeError("Only the recipient can counter this offer.", "forbidden", 403);
+  }
+
+  const other = await getTradeProfile(original.proposer_id);
+  if (!other?.openToTrades) throw new TradeError("That trader is no longer taking offers.", "trader_not_found", 404);
+
+  const input = validateTradeInput({ ...body, recipient: other.handle });
+  const quote = await quoteTrade(me.userId, input);
+
+  const newId = await db.transaction(async (tx) => {
+    const offer = await lockOffer(tx, offerId);
+    assertPending(offer);
+    await setStatus(tx, offerId, "countered");
+    return insertOffer(tx, userId, quote, input.note, offerId);
+  });
+
+  await notifyTrade(original.proposer_id, "countered", newId, me);
+  return { offerId: newId, score: quote.score };
+}
+
+type OfferItemRow = {
+  side: TradeSide;
+  item_id: string;
+  game: string;
+  card_id: string;
+  card_name: string | null;
+  set_name: string | null;
+  image_url: string | null;
+  variant_type: string;
+  grading_company: string;
+  grade_label: string;
+  cert_number: string;
+  quantity: number;
+  unit_value_cents: number | null;
+};
+
+/**
+ * Recipient accepts: both sides' cards move in one transaction. Givers must
+ * still hold every copy; received copies land in the receiver's collection
+ * with the trade-time value as their cost basis.
+ */
+export async function acceptTradeOffer(userId: string, offerId: string) {
+  const head = await db.execute<{ proposer_id: string; recipient_id: string }>(sql`
+    SELECT proposer_id, recipient_id FROM public.trade_offers WHERE id::text = ${offerId} LIMIT 1
+  `);
+  const h = head.rows?.[0];
+  if (!h || (h.proposer_id !== userId && h.recipient_id !== userId)) {
+    throw new TradeError("Trade not found.", "not_found", 404);
+  }
+  if (h.recipient_id !== userId) throw new TradeError("Only the recipient can accept this offer.", "forbidden", 403);
+
+  // Plan limits for whoever ends up with more copies than they started with.
+  const qtyRes = await db.execute<{ side: TradeSide; qty: number }>(sql`
+    SELECT side, COALESCE(SUM(quantity), 0)::int AS qty
+    FROM public.trade_offer_items
+    WHERE offer_id::text = ${offerId}
+    GROUP BY side
+  `);
+  const qty = { proposer: 0, recipient: 0 };
+  for (const r of qtyRes.rows ?? []) qty[r.side] = Number(r.qty);
+  if (qty.recipient > qty.proposer) await ensureCanAddItem(h.proposer_id, qty.recipient - qty.proposer);
+  if (qty.proposer > qty.recipient) await ensureCanAddItem(h.recipient_id, qty.proposer - qty.recipient);
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  await db.transaction(async (tx) => {
+    const offer = await lockOffer(tx, offerId);
+    assertPending(offer);
+
+    const itemsRes = await tx.execute<OfferItemRow>(sql`
+      SELECT
+        side, item_id::text AS item_id, game, card_id, card_name, set_name, image_url,
+        variant_type, grading_company, grade_label, cert_number, quantity, unit_value_cents
+      FROM public.trade_offer_items
+      WHERE offer_id::text = ${offerId}
+    `);
+
+    for (const it of itemsRes.rows ?? []) {
+      const giver = it.side === "proposer" ? offer.proposer_id : offer.recipient_id;
+      const receiver = it.side === "proposer" ? offer.recipient_id : offer.proposer_id;
+
+      const src = await tx.execute<{ quantity: number; condition: string | null }>(sql`
+        SELECT quantity, condition
+        FROM public.user_collection_items
+        WHERE id::text = ${it.item_id} AND user_id = ${giver}
+        FOR UPDATE
+      `);
+      const have = Number(src.rows?.[0]?.quantity ?? 0);
+      const condition = src.rows?.[0]?.condition ?? null;
+      if (have < it.quantity) {
+        const who = giver === userId ? "You no longer have" : "The other trader no longer has";
+        throw new TradeError(`${who} ${it.quantity}× ${it.card_name ?? it.card_id}.`, "items_unavailable", 409);
+      }
+
+      await tx.execute(sql`
+        UPDATE public.user_collection_items
+        SET quantity = quantity - ${it.quantity}, updated_at = now()
+        WHERE id::text = ${it.item_id}
+      `);
+      await tx.execute(sql`
+        DELETE FROM public.user_collection_items
+        WHERE id::text = ${it.item_id} AND quantity <= 0
+      `);
+
+      const unit = it.unit_value_cents;
+      const existing = await tx.execute<{ id: string }>(sql`
+        SELECT id::text AS id
+        FROM public.user_collection_items
+        WHERE user_id = ${receiver}
+          AND game = ${it.game}
+          AND card_id = ${it.card_id}
+          AND variant_type = ${it.variant_type}
+          AND COALESCE(condition,'') = COALESCE(${condition},'')
+          AND COALESCE(grading_company,'') = ${it.grading_company}
+          AND COALESCE(grade_label,'') = ${it.grade_label}
+          AND COALESCE(cert_number,'') = ${it.cert_number}
+          AND COALESCE(folder,'__default__') = ${TRADE_FOLDER}
+        LIMIT 1
+        FOR UPDATE
+      `);
+      const existingId = existing.rows?.[0]?.id;
+
+      if (existingId) {
+        // per-copy cost basis, blended by quantity
+        await tx.execute(sql`
+          UPDATE public.user_collection_items
+          SET
+            cost_cents = CASE
+              WHEN ${unit}::int IS NULL THEN cost_cents
+              WHEN cost_cents IS NULL THEN ${unit}::int
+              ELSE round((cost_cents * quantity + ${unit}::int * ${it.quantity})::numeric / (quantity + ${it.quantity}))::int
+            END,
+            quantity = quantity + ${it.quantity},
+            updated_at = now()
+          WHERE id::text = ${existingId}
+        `);
+      } else {
+        await tx.execute(sql`
+          INSERT INTO public.user_collection_items (
+            user_id, game, card_id, card_name, set_name, image_url, variant_type, condition,
+            grading_company, grade_label, cert_number, purchase_date,
+            quantity, folder, cost_cents, last_value_cents, updated_at
+          )
+          VALUES (
+            ${receiver}, ${it.game}, ${it.card_id}, ${it.card_name ?? it.card_id}, ${it.set_name}, ${it.image_url},
+            ${it.variant_type}, ${condition}, ${it.grading_company}, ${it.grade_label}, ${it.cert_number}, ${today}::date,
+            ${it.quantity}, ${TRADE_FOLDER}, ${unit}, ${unit != null ? unit * it.quantity : 0}, now()
+          )
+        `);
+      }
+    }
+
+    await setStatus(tx, offerId, "accepted");
+    await logEvent(tx, offerId, userId, "accepted", {
+      moved: (itemsRes.rows ?? []).map((it) => ({
+        side: it.side,
+        itemId: it.item_id,
+        cardId: it.card_id,
+        quantity: it.quantity,
+      })),
+    });
+  });
+
+  await Promise.all([enqueueRevalueJob(h.proposer_id), enqueueRevalueJob(h.recipient_id)]);
+  await notifyTrade(h.proposer_id, "accepted", offerId, await getTradeProfile(userId));
+
+  return { offerId, status: "accepted" as const };
+}
+
+export async function respondToTrade(userId: string, offerId: string, action: TradeAction, body: any) {
+  switch (action) {
+    case "accept":
+      return acceptTradeOffer(userId, offerId);
+    case "decline":
+    case "cancel":
+      return closeTradeOffer(userId, offerId, action);
+    case "counter":
+      return counterTradeOffer(userId, offerId, body);
+  }
+}
+
+export function normalizeTradeAction(raw: unknown): TradeAction | null {
+  const v = s(raw).toLowerCase();
+  return v === "accept" || v === "decline" || v === "cancel" || v === "counter" ? v : null;
+}
+
+/* ========== Reads ========== */
+
+type OfferRow = {
+  id: string;
+  status: TradeStatus;
+  parent_id: string | null;
+  note: string | null;
+  proposer_id: string;
+  recipient_id: string;
+  proposer_handle: string | null;
+  recipient_handle: string | null;
+  created_at: string;
+  responded_at: string | null;
+  items: OfferItemRow[] | null;
+};
+
+function toView(userId: string, r: OfferRow): TradeOfferView {
+  const items: QuotedItem[] = (r.items ?? []).map((it) => ({
+    side: it.side,
+    itemId: it.item_id,
+    game: it.game,
+    cardId: it.card_id,
+    cardName: it.card_name,
+    setName: it.set_name,
+    imageUrl: it.image_url,
+    variantType: it.variant_type,
+    gradingCompany: it.grading_company,
+    gradeLabel: it.grade_label,
+    certNumber: it.cert_number,
+    quantity: Number(it.quantity),
+    unitValueCents: it.unit_value_cents == null ? null : Number(it.unit_value_cents),
+    valueSource: null,
+  }));
+
+  return {
+    id: r.id,
+    status: r.status,
+    parentId: r.parent_id,
+    note: r.note,
+    role: r.proposer_id === userId ? "proposer" : "recipient",
+    proposerHandle: r.proposer_handle,
+    recipientHandle: r.recipient_handle,
+    items,
+    score: scoreItems(items),
+    createdAt: r.created_at,
+    respondedAt: r.responded_at,
+  };
+}
+
+const OFFER_SELECT = sql`
+  SELECT
+    o.id::text AS id,
+    o.status,
+    o.parent_id::text AS parent_id,
+    o.note,
+    o.proposer_id,
+    o.recipient_id,
+    pp.handle AS proposer_handle,
+    rp.handle AS recipient_handle,
+    o.created_at::text AS created_at,
+    o.responded_at::text AS responded_at,
+    (
+      SELECT json_agg(json_build_object(
+        'side', i.side,
+        'item_id', i.item_id,
+        'game', i.game,
+        'card_id', i.card_id,
+        'card_name', i.card_name,
+        'set_name', i.set_name,
+        'image_url', i.image_url,
+        'variant_type', i.variant_type,
+        'grading_company', i.grading_company,
+        'grade_label', i.grade_label,
+        'cert_number', i.cert_number,
+        'quantity', i.quantity,
+        'unit_value_cents', i.unit_value_cents
+      ) ORDER BY i.side, i.card_name)
+      FROM public.trade_offer_items i
+      WHERE i.offer_id = o.id
+    ) AS items
+  FROM public.trade_offers o
+  LEFT JOIN public.trade_profiles pp ON pp.user_id = o.proposer_id
+  LEFT JOIN public.trade_profiles rp ON rp.user_id = o.recipient_id
+`;
+
+export async function listTradeOffers(userId: string, limit = 50): Promise<TradeOfferView[]> {
+  const res = await db.execute<OfferRow>(sql`
+    ${OFFER_SELECT}
+    WHERE o.proposer_id = ${userId} OR o.recipient_id = ${userId}
+    ORDER BY (o.status = 'pending') DESC, o.created_at DESC
+    LIMIT ${limit}
+  `);
+  return (res.rows ?? []).map((r) => toView(userId, r));
+}
+
+export async function getTradeOffer(
+  userId: string,
+  offerId: string,
+): Promise<{ offer: TradeOfferView; events: TradeEventView[] } | null> {
+  const res = await db.execute<OfferRow>(sql`
+    ${OFFER_SELECT}
+    WHERE o.id::text = ${offerId}
+      AND (o.proposer_id = ${userId} OR o.recipient_id = ${userId})
+    LIMIT 1
+  `);
+  const row = res.rows?.[0];
+  if (!row) return null;
+
+  const ev = await db.execute<{ action: string; handle: string | null; detail: unknown; created_at: string }>(sql`
+    SELECT e.action, p.handle, e.detail, e.created_at::text AS created_at
+    FROM public.trade_events e
+    LEFT JOIN public.trade_profiles p ON p.user_id = e.actor_id
+    WHERE e.offer_id::text = ${offerId}
+    ORDER BY e.created_at ASC
+  `);
+
+  return {
+    offer: toView(userId, row),
+    events: (ev.rows ?? []).map((e) => ({
+      action: e.action,
+      actorHandle: e.handle,
+      detail: e.detail,
+      createdAt: e.created_at,
+    })),
+  };
+}
@@ -0,0 +1,18 @@
+// src/lib/userEmail.ts
+import "server-only";
+
+import { clerkClient } from "@clerk/nextjs/server";
+
+/** Primary email for a Clerk user (null if Clerk is unreachable or they have none). */
+export async function getUserEmail(userId: string): Promise<string | null> {
+  try {
+    const cc: any = clerkClient as any;
+    const client = typeof cc === "function" ? await cc() : cc;
+    const user = await client.users.getUser(userId);
+    const primary = user.emailAddresses?.find((e: any) => e.id === user.primaryEmailAddressId);
+    return primary?.emailAddress ?? user.emailAddresses?.[0]?.emailAddress ?? null;
+  } catch (err) {
+    console.error(`[userEmail] Clerk lookup failed for ${userId}`, err);
+    return null;
+  }
+}
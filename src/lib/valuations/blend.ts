@@ -0,0 +1,237 @@
+// src/lib/valuations/blend.ts
+//
+// Blends price quotes from several markets into one value with a range and
+// a confidence grade, weighting each by source, recency and sample size
+// and dropping outliers. ./engine.ts loads the quotes.
+
+import type { CardCondition } from "../cards/condition";
+
+export type PriceSource = "tcgplayer" | "cardmarket" | "ebay" | "pricecharting" | "retail";
+
+/** How much a source counts before recency and sample size. */
+export const SOURCE_WEIGHTS: Record<PriceSource, number> = {
+  tcgplayer: 1,
+  ebay: 1,
+  cardmarket: 0.8,
+  pricecharting: 0.7,
+  /** Amazon / CoolStuffInc asking prices */
+  retail: 0.3,
+};
+
+/** Sales assumed behind a source's price when it doesn't report a count. */
+const DEFAULT_SAMPLE: Record<PriceSource, number> = {
+  tcgplayer: 10,
+  ebay: 3,
+  cardmarket: 8,
+  pricecharting: 5,
+  retail: 1,
+};
+
+/** a quote backed by this many sales counts fully */
+const FULL_SAMPLE = 20;
+
+/** a quote loses half its weight every this many days */
+export const RECENCY_HALF_LIFE_DAYS = 30;
+
+/** undated quotes are treated as this old */
+const UNDATED_AGE_DAYS = 60;
+
+/** quotes older than this are ignored */
+const MAX_AGE_DAYS = 365;
+
+/** a quote for another printing (e.g. normal for a reverse holo) counts this much */
+const VARIANT_FALLBACK_WEIGHT = 0.4;
+
+/** with 3+ quotes, drop those this many times off the weighted median */
+const OUTLIER_FACTOR = 3;
+
+/** Raw-card value relative to Near Mint. */
+export const CONDITION_MULTIPLIERS: Record<CardCondition, number> = {
+  nm: 1,
+  lp: 0.85,
+  mp: 0.7,
+  hp: 0.5,
+  dmg: 0.3,
+};
+
+export type ConfidenceGrade = "A" | "B" | "C" | "D";
+
+/** The range is at least value ± this share, wider when we know less. */
+export const RANGE_BAND: Record<ConfidenceGrade, number> = { A: 0.05, B: 0.1, C: 0.2, D: 0.35 };
+
+export type PriceQuote = {
+  source: PriceSource;
+  /** where it came from, e.g. "tcgplayer.holofoil" */
+  label: string;
+  /** major units of `currency` */
+  amount: number;
+  currency: string;
+  asOf: string | null;
+  sampleSize?: number | null;
+  /** condition the price is for; null = Near Mint / market */
+  condition?: CardCondition | null;
+  /** false when the quote is for a different printing than asked */
+  variantMatch?: boolean;
+};
+
+export type ExcludedQuote = { label: string; reason: "no_fx" | "stale" | "outlier" | "no_price" };
+
+export type ValuationSource = {
+  source: PriceSource;
+  label: string;
+  amountUsd: number;
+  /** share of the blended value, 0..1 */
+  share: number;
+};
+
+/**
+ * What the value is based on: raw-card prices, a graded price ladder, or
+ * raw prices standing in for a slab we have no graded data for.
+ */
+export type ValuationBasis = "raw" | "graded" | "raw_fallback";
+
+export type Valuation = {
+  basis: ValuationBasis;
+  valueUsd: number;
+  lowUsd: number;
+  highUsd: number;
+  confidence: { score: number; grade: ConfidenceGrade };
+  condition: CardCondition;
+  /** newest quote used */
+  asOf: string | null;
+  /** label of the quote that counted most */
+  primarySource: string;
+  sources: ValuationSource[];
+  excluded: ExcludedQuote[];
+};
+
+export type BlendOptions = {
+  /**
+   * USD for an amount at the rate on `asOf` (the quote's date), or null
+   * when there is no rate for that currency
+   */
+  toUsd: (amount: number, currency: string, asOf?: string | null) => number | null;
+  /** condition to value for; quotes are scaled from theirs. Default NM. */
+  condition?: CardCondition | null;
+  /** default "raw" */
+  basis?: ValuationBasis;
+  now?: Date;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function ageDays(asOf: string | null, now: Date): number | null {
+  if (!asOf) return null;
+  const t = Date.parse(asOf);
+  if (!Number.isFinite(t)) return null;
+  return Math.max(0, (now.getTime() - t) / 86_400_000);
+}
+
+export function quoteWeight(q: PriceQuote, now: Date): number {
+  const age = ageDays(q.asOf, now) ?? UNDATED_AGE_DAYS;
+  const recency = Math.pow(0.5, age / RECENCY_HALF_LIFE_DAYS);
+  const n = q.sampleSize != null && q.sampleSize > 0 ? q.sampleSize : DEFAULT_SAMPLE[q.source];
+  const sample = Math.sqrt(Math.min(n, FULL_SAMPLE) / FULL_SAMPLE);
+  const variant = q.variantMatch === false ? VARIANT_FALLBACK_WEIGHT : 1;
+  return SOURCE_WEIGHTS[q.source] * recency * sample * variant;
+}
+
+export function confidenceGrade(score: number): ConfidenceGrade {
+  if (score >= 0.75) return "A";
+  if (score >= 0.5) return "B";
+  if (score >= 0.25) return "C";
+  return "D";
+}
+
+function weightedMedian(xs: Array<{ v: number; w: number }>): number {
+  const sorted = [...xs].sort((a, b) => a.v - b.v);
+  const half = sorted.reduce((s, x) => s + x.w, 0) / 2;
+  let acc = 0;
+  for (const x of sorted) {
+    acc += x.w;
+    if (acc >= half) return x.v;
+  }
+  return sorted[sorted.length - 1].v;
+}
+
+/**
+ * One value from many quotes: each is converted to USD, scaled to the
+ * wanted condition and weighted by source, recency, sample size and
+ * whether it is for the right printing; outliers are dropped and the rest
+ * averaged by weight. Confidence grows with total weight and with how
+ * well the sources agree. Null when no quote is usable.
+ */
+export function blendQuotes(quotes: PriceQuote[], opts: BlendOptions): Valuation | null {
+  const now = opts.now ?? new Date();
+  const condition = opts.condition ?? "nm";
+  const excluded: ExcludedQuote[] = [];
+
+  let usable: Array<{ q: PriceQuote; v: number; w: number }> = [];
+  for (const q of quotes) {
+    if (!Number.isFinite(q.amount) || q.amount <= 0) {
+      excluded.push({ label: q.label, reason: "no_price" });
+      continue;
+    }
+    const age = ageDays(q.asOf, now);
+    if (age != null && age > MAX_AGE_DAYS) {
+      excluded.push({ label: q.label, reason: "stale" });
+      continue;
+    }
+    const usd = opts.toUsd(q.amount, q.currency, q.asOf);
+    if (usd == null || !Number.isFinite(usd) || usd <= 0) {
+      excluded.push({ label: q.label, reason: "no_fx" });
+      continue;
+    }
+    const scale = CONDITION_MULTIPLIERS[condition] / CONDITION_MULTIPLIERS[q.condition ?? "nm"];
+    usable.push({ q, v: usd * scale, w: quoteWeight(q, now) });
+  }
+  if (!usable.length) return null;
+
+  if (usable.length >= 3) {
+    const median = weightedMedian(usable);
+    const kept = usable.filter((x) => x.v <= median * OUTLIER_FACTOR && x.v >= median / OUTLIER_FACTOR);
+    for (const x of usable) if (!kept.includes(x)) excluded.push({ label: x.q.label, reason: "outlier" });
+    usable = kept;
+  }
+
+  const totalW = usable.reduce((s, x) => s + x.w, 0);
+  const value = usable.reduce((s, x) => s + x.v * x.w, 0) / totalW;
+
+  // one source can't be cross-checked, so it never reads as full agreement
+  let agreement = 0.7;
+  if (usable.length > 1) {
+    const variance = usable.reduce((s, x) => s + x.w * (x.v - value) ** 2, 0) / totalW;
+    agreement = Math.max(0, 1 - Math.sqrt(variance) / value);
+  }
+  const evidence = 1 - Math.exp(-totalW / 1.2);
+  const score = round2(evidence * agreement);
+  const grade = confidenceGrade(score);
+
+  const band = RANGE_BAND[grade];
+  const low = Math.min(...usable.map((x) => x.v), value * (1 - band));
+  const high = Math.max(...usable.map((x) => x.v), value * (1 + band));
+
+  const byWeight = [...usable].sort((a, b) => b.w - a.w);
+  const asOf = usable
+    .map((x) => x.q.asOf)
+    .filter((d): d is string => !!d && Number.isFinite(Date.parse(d)))
+    .sort((a, b) => Date.parse(b) - Date.parse(a))[0] ?? null;
+
+  return {
+    basis: opts.basis ?? "raw",
+    valueUsd: round2(value),
+    lowUsd: round2(low),
+    highUsd: round2(high),
+    confidence: { score, grade },
+    condition,
+    asOf,
+    primarySource: byWeight[0].q.label,
+    sources: byWeight.map((x) => ({
+      source: x.q.source,
+      label: x.q.label,
+      amountUsd: round2(x.v),
+      share: round2(x.w / totalW),
+    })),
+    excluded,
+  };
+}
@@ -0,0 +1,44 @@
+// src/lib/valuations/collection.ts
+import "server-only";
+
+import { normalizeGame } from "@/lib/livePrices";
+import { getValuations, valuationKey, type ValuationRequest } from "@/lib/valuations/engine";
+import type { Valuation } from "@/lib/valuations/blend";
+
+export type CollectionRowRef = {
+  game: string;
+  card_id: string;
+  variant_type?: string | null;
+  condition?: string | null;
+  grading_company?: string | null;
+  grade_label?: string | null;
+};
+
+/**
+ * Values user_collection_items rows (one copy each) through the valuation
+ * engine: slabs at their grade, raw copies at their condition. Rows for
+ * games we don't price come back with a null valuation.
+ */
+export async function valueCollectionRows<T extends CollectionRowRef>(
+  rows: T[],
+): Promise<Array<T & { valuation: Valuation | null }>> {
+  const reqs = rows.map((r): ValuationRequest | null => {
+    const game = normalizeGame(r.game);
+    return game && r.card_id
+      ? {
+          game,
+          cardId: r.card_id,
+          variant: r.variant_type,
+          condition: r.condition,
+          gradingCompany: r.grading_company,
+          gradeLabel: r.grade_label,
+        }
+      : null;
+  });
+
+  const values = await getValuations(reqs.filter((r): r is ValuationRequest => r != null));
+  return rows.map((r, i) => {
+    const req = reqs[i];
+    return { ...r, valuation: req ? (values.get(valuationKey(req)) ?? null) : null };
+  });
+}
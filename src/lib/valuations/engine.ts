@@ -0,0 +1,525 @@
+// src/lib/valuations/engine.ts
+import "server-only";
+
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import type { GameId } from "@/lib/livePrices";
+import { normalizeCondition } from "@/lib/cards/condition";
+import { blendQuotes, type PriceQuote, type PriceSource, type Valuation } from "@/lib/valuations/blend";
+import { normalizeVariant, type CanonVariant } from "@/lib/valuations/variants";
+import { asRawFallback, ladderQuote, parseSlabGrade, slabKey, type SlabGrade } from "@/lib/valuations/grading";
+import { dbGradedMarketProvider } from "@/lib/valuations/gradedLadder";
+import { loadFxTable } from "@/lib/fx/rates";
+
+/**
+ * The one place that prices a card. Loads every quote we hold for it
+ * (TCGplayer, Cardmarket, eBay comps, PriceCharting, retail) and blends
+ * them in ./blend.ts. Graded slabs are priced from the graded ladder
+ * instead (./grading.ts), falling back to raw prices flagged as such.
+ * Routes and exports should call getValuation / getValuations rather than
+ * reading price tables themselves.
+ */
+
+const PRICECHARTING_ENABLED = process.env.ENABLE_PRICECHARTING === "true";
+
+const VALUATION_CONCURRENCY = 8;
+
+export type ValuationRequest = {
+  game: GameId;
+  cardId: string;
+  /** printing or finish, e.g. "reverse_holofoil", "foil"; default normal */
+  variant?: string | null;
+  /** raw condition, e.g. "LP"; default Near Mint. Ignored for slabs. */
+  condition?: string | null;
+  /** user_collection_items.grading_company / grade_label; empty for raw cards */
+  gradingCompany?: string | null;
+  gradeLabel?: string | null;
+};
+
+export function valuationKey(req: ValuationRequest): string {
+  const slab = parseSlabGrade(req.gradingCompany, req.gradeLabel);
+  return [
+    req.game,
+    req.cardId,
+    normalizeVariant(req.variant, req.game),
+    slab ? slabKey(slab) : (normalizeCondition(req.condition) ?? "nm"),
+  ].join("|");
+}
+
+function num(v: unknown): number | null {
+  if (v == null || v === "") return null;
+  const n = typeof v === "number" ? v : Number(String(v).replace(/[\s,$€]/g, ""));
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/**
+ * Legacy text price columns hold either dollars or cents: an integer of
+ * 100 or more is read as cents (586 -> 5.86).
+ */
+function looseAmount(v: unknown): number | null {
+  const n = num(v);
+  if (n == null) return null;
+  return Number.isInteger(n) && n >= 100 ? n / 100 : n;
+}
+
+/** A missing price table or column must not take the page down. */
+async function safeQuotes(label: string, load: () => Promise<PriceQuote[]>): Promise<PriceQuote[]> {
+  try {
+    return await load();
+  } catch (err: any) {
+    if (err?.code === "42P01" || err?.code === "42703") return [];
+    console.warn("[valuations/engine] quote source failed", { label, error: err?.message ?? String(err) });
+    return [];
+  }
+}
+
+/* ---------------- Pokemon ---------------- */
+
+async function pokemonTcgplayer(cardId: string, vt: CanonVariant): Promise<PriceQuote[]> {
+  const rows =
+    (
+      await db.execute<{
+        updated_at: string | null;
+        variant_type: string | null;
+        normal: string | null;
+        holofoil: string | null;
+        reverse_holofoil: string | null;
+        first_edition_holofoil: string | null;
+        first_edition_normal: string | null;
+        market_price: string | number | null;
+        mid_price: string | number | null;
+      }>(sql`
+        SELECT updated_at, variant_type, normal, holofoil, reverse_holofoil,
+          first_edition_holofoil, first_edition_normal, market_price, mid_price
+        FROM public.tcg_card_prices_tcgplayer
+        WHERE card_id = ${cardId}
+        ORDER BY
+          CASE
+            WHEN btrim(COALESCE(variant_type,'')) = ${vt} THEN 0
+            WHEN ${vt} = 'normal' AND (variant_type IS NULL OR btrim(variant_type) = '') THEN 1
+            ELSE 2
+          END,
+          updated_at DESC NULLS LAST
+        LIMIT 5
+      `)
+    ).rows ?? [];
+  if (!rows.length) return [];
+
+  const exact = rows.find((r) => (r.variant_type ?? "").trim() === vt) ?? null;
+  const blank = rows.find((r) => !String(r.variant_type ?? "").trim()) ?? null;
+  const row = exact ?? (vt === "normal" ? blank : null) ?? rows[0];
+
+  const wide =
+    vt === "normal"
+      ? row.normal
+      : vt === "holofoil"
+        ? row.holofoil
+        : vt === "reverse_holofoil"
+          ? row.reverse_holofoil
+          : vt === "first_edition"
+            ? (row.first_edition_holofoil ?? row.first_edition_normal)
+            : (row.holofoil ?? row.normal);
+
+  const rowMatches = !!exact || vt === "normal";
+  const candidates = [
+    { v: looseAmount(wide), label: `tcgplayer.${vt}`, match: true },
+    { v: looseAmount(row.market_price), label: "tcgplayer.market_price", match: rowMatches },
+    { v: looseAmount(row.mid_price), label: "tcgplayer.mid_price", match: rowMatches },
+    { v: looseAmount(row.holofoil), label: "tcgplayer.holofoil", match: false },
+    { v: looseAmount(row.normal), label: "tcgplayer.normal", match: false },
+  ];
+  const best = candidates.find((c) => c.v != null);
+  if (!best?.v) return [];
+
+  return [
+    {
+      source: "tcgplayer",
+      label: best.label,
+      amount: best.v,
+      currency: "USD",
+      asOf: row.updated_at,
+      variantMatch: best.match,
+    },
+  ];
+}
+
+async function pokemonCardmarket(cardId: string, vt: CanonVariant): Promise<PriceQuote[]> {
+  const row =
+    (
+      await db.execute<{
+        updated_at: string | null;
+        trend_price: string | null;
+        avg30: string | null;
+        average_sell_price: string | null;
+        reverse_holo_trend: string | null;
+        reverse_holo_avg30: string | null;
+        reverse_holo_sell: string | null;
+      }>(sql`
+        SELECT updated_at, trend_price, avg30, average_sell_price,
+          reverse_holo_trend, reverse_holo_avg30, reverse_holo_sell
+        FROM public.tcg_card_prices_cardmarket
+        WHERE card_id = ${cardId}
+        LIMIT 1
+      `)
+    ).rows?.[0] ?? null;
+  if (!row) return [];
+
+  // Cardmarket only splits out reverse holos; first editions aren't priced separately
+  const rh =
+    vt === "reverse_holofoil"
+      ? (num(row.reverse_holo_trend) ?? num(row.reverse_holo_avg30) ?? num(row.reverse_holo_sell))
+      : null;
+  const base = num(row.trend_price) ?? num(row.avg30) ?? num(row.average_sell_price);
+  const v = rh ?? base;
+  if (v == null) return [];
+
+  return [
+    {
+      source: "cardmarket",
+      label: rh != null ? "cardmarket.reverse_holo_trend" : "cardmarket.trend",
+      amount: v,
+      currency: "EUR",
+      asOf: row.updated_at,
+      variantMatch: rh != null || (vt !== "reverse_holofoil" && vt !== "first_edition"),
+    },
+  ];
+}
+
+function bucketPrice(bucket: any): number | null {
+  return num(bucket?.marketPrice) ?? num(bucket?.midPrice) ?? num(bucket?.lowPrice);
+}
+
+/** tcgdex card snapshots carry both markets; used when the price tables have nothing. */
+async function pokemonTcgdexSnapshot(
+  cardId: string,
+  vt: CanonVariant,
+  want: { tcgplayer: boolean; cardmarket: boolean },
+): Promise<PriceQuote[]> {
+  const raw =
+    (
+      await db.execute<{ raw_json: any }>(sql`
+        SELECT raw_json FROM public.tcgdex_cards WHERE id = ${cardId} LIMIT 1
+      `)
+    ).rows?.[0]?.raw_json ?? null;
+  const pricing = raw?.pricing ?? {};
+  const out: PriceQuote[] = [];
+
+  const tcg = pricing.tcgplayer ?? null;
+  if (want.tcgplayer && tcg) {
+    const key = vt === "reverse_holofoil" ? "reverse-holofoil" : vt === "holofoil" ? "holofoil" : "normal";
+    const exact = bucketPrice(tcg[key]);
+    const any = exact ?? bucketPrice(tcg.normal) ?? bucketPrice(tcg["reverse-holofoil"]) ?? bucketPrice(tcg.holofoil);
+    if (any != null) {
+      out.push({
+        source: "tcgplayer",
+        label: `tcgdex.tcgplayer.${exact != null ? key : "fallback"}`,
+        amount: any,
+        currency: String(tcg.unit ?? "USD"),
+        asOf: typeof tcg.updated === "string" ? tcg.updated : null,
+        variantMatch: exact != null && vt !== "first_edition" && vt !== "promo",
+      });
+    }
+  }
+
+  const cm = pricing.cardmarket ?? null;
+  if (want.cardmarket && cm) {
+    const holo = vt === "reverse_holofoil" ? (num(cm["trend-holo"]) ?? num(cm["avg-holo"])) : null;
+    const v = holo ?? num(cm.trend) ?? num(cm.avg) ?? num(cm.low);
+    if (v != null) {
+      out.push({
+        source: "cardmarket",
+        label: holo != null ? "tcgdex.cardmarket.trend-holo" : "tcgdex.cardmarket.trend",
+        amount: v,
+        currency: "EUR",
+        asOf: typeof cm.updated === "string" ? cm.updated : null,
+        variantMatch: holo != null || (vt !== "reverse_holofoil" && vt !== "first_edition"),
+      });
+    }
+  }
+
+  return out;
+}
+
+async function pokemonQuotes(cardId: string, vt: CanonVariant): Promise<PriceQuote[]> {
+  const [tcg, cm] = await Promise.all([
+    safeQuotes("pokemon.tcgplayer", () => pokemonTcgplayer(cardId, vt)),
+    safeQuotes("pokemon.cardmarket", () => pokemonCardmarket(cardId, vt)),
+  ]);
+  if (tcg.length && cm.length) return [...tcg, ...cm];
+
+  const snap = await safeQuotes("pokemon.tcgdex", () =>
+    pokemonTcgdexSnapshot(cardId, vt, { tcgplayer: !tcg.length, cardmarket: !cm.length }),
+  );
+  return [...tcg, ...cm, ...snap];
+}
+
+/* ---------------- Yu-Gi-Oh! ---------------- */
+
+async function ygoQuotes(cardId: string, vt: CanonVariant): Promise<PriceQuote[]> {
+  const row =
+    (
+      await db.execute<{
+        tcgplayer_price: string | null;
+        cardmarket_price: string | null;
+        ebay_price: string | null;
+        amazon_price: string | null;
+        coolstuffinc_price: string | null;
+      }>(sql`
+        SELECT tcgplayer_price, cardmarket_price, ebay_price, amazon_price, coolstuffinc_price
+        FROM public.ygo_card_prices
+        WHERE card_id = ${cardId}
+        LIMIT 1
+      `)
+    ).rows?.[0] ?? null;
+  if (!row) return [];
+
+  const cols: Array<[PriceQuote["source"], string, unknown, string]> = [
+    ["tcgplayer", "ygo.tcgplayer_price", row.tcgplayer_price, "USD"],
+    ["cardmarket", "ygo.cardmarket_price", row.cardmarket_price, "EUR"],
+    ["ebay", "ygo.ebay_price", row.ebay_price, "USD"],
+    ["retail", "ygo.amazon_price", row.amazon_price, "USD"],
+    ["retail", "ygo.coolstuffinc_price", row.coolstuffinc_price, "USD"],
+  ];
+
+  // ygo_card_prices isn't split by edition, so 1st editions only get an approximate price
+  const variantMatch = vt === "normal";
+  const out: PriceQuote[] = [];
+  for (const [source, label, raw, currency] of cols) {
+    const amount = looseAmount(raw);
+    if (amount != null) out.push({ source, label, amount, currency, asOf: null, variantMatch });
+  }
+  return out;
+}
+
+/* ---------------- MTG ---------------- */
+
+/** Scryfall's foil / etched prices; effective_usd below is non-foil only. */
+async function mtgFinishQuotes(cardId: string, vt: "foil" | "etched"): Promise<PriceQuote[]> {
+  const row =
+    (
+      await db.execute<{ usd_foil: string | null; usd_etched: string | null; updated_at: string | null }>(sql`
+        SELECT usd_foil::text AS usd_foil, usd_etched::text AS usd_etched, updated_at::text AS updated_at
+        FROM public.mtg_prices_scryfall_latest
+        WHERE scryfall_id::text = ${cardId}
+        LIMIT 1
+      `)
+    ).rows?.[0] ?? null;
+  const v = num(vt === "etched" ? row?.usd_etched : row?.usd_foil);
+  if (v == null) return [];
+  return [{ source: "tcgplayer", label: `mtg.usd_${vt}`, amount: v, currency: "USD", asOf: row?.updated_at ?? null }];
+}
+
+async function mtgQuotes(cardId: string, vt: CanonVariant): Promise<PriceQuote[]> {
+  if (vt === "foil" || vt === "etched") {
+    const finish = await safeQuotes("mtg.finish", () => mtgFinishQuotes(cardId, vt));
+    if (finish.length) return finish;
+  }
+
+  const row =
+    (
+      await db.execute<{ effective_usd: string | null; updated_at: string | null }>(sql`
+        SELECT effective_usd, updated_at::text AS updated_at
+        FROM public.mtg_prices_effective
+        WHERE scryfall_id = ${cardId}
+        LIMIT 1
+      `)
+    ).rows?.[0] ?? null;
+  const v = looseAmount(row?.effective_usd);
+  if (v == null) return [];
+  return [
+    {
+      source: "tcgplayer",
+      label: "mtg.effective_usd",
+      amount: v,
+      currency: "USD",
+      asOf: row?.updated_at ?? null,
+      variantMatch: vt === "normal",
+    },
+  ];
+}
+
+/* ---------------- Cross-game: eBay comps, PriceCharting ---------------- */
+
+async function ebayComps(game: GameId, cardId: string): Promise<PriceQuote[]> {
+  const rows =
+    (
+      await db.execute<{
+        value_cents: number | null;
+        currency: string | null;
+        as_of_date: string | null;
+        sample_size: number | null;
+        condition: string | null;
+      }>(sql`
+        SELECT mps.value_cents, mps.currency, mps.as_of_date::text AS as_of_date, mps.sample_size, mps.condition
+        FROM public.market_item_external_ids mie
+        JOIN public.market_items mi ON mi.id = mie.market_item_id
+        JOIN public.market_price_snapshots mps
+          ON mps.market_item_id = mie.market_item_id AND mps.source = 'ebay'
+        WHERE mi.game = ${game}
+          AND mie.external_id = ${cardId}
+          AND mie.source = 'ebay'
+        ORDER BY mps.as_of_date DESC
+        LIMIT 10
+      `)
+    ).rows ?? [];
+
+  // graded comps (PSA 10 etc.) aren't raw-card prices
+  const raw = rows.find((r) => !r.condition || normalizeCondition(r.condition));
+  if (!raw?.value_cents) return [];
+
+  return [
+    {
+      source: "ebay",
+      label: "ebay.sold",
+      amount: Number(raw.value_cents) / 100,
+      currency: raw.currency ?? "USD",
+      asOf: raw.as_of_date,
+      sampleSize: raw.sample_size,
+      condition: normalizeCondition(raw.condition),
+    },
+  ];
+}
+
+async function pricechartingLoose(game: GameId, cardId: string): Promise<PriceQuote[]> {
+  if (!PRICECHARTING_ENABLED) return [];
+  const row =
+    (
+      await db.execute<{ loose_cents: number | null; currency: string | null; captured_at: string | null }>(sql`
+        SELECT loose_cents, currency, captured_at::text AS captured_at
+        FROM public.pricecharting_grade_snapshots
+        WHERE category = ${game} AND card_id = ${cardId} AND loose_cents IS NOT NULL
+        ORDER BY captured_at DESC
+        LIMIT 1
+      `)
+    ).rows?.[0] ?? null;
+  if (!row?.loose_cents) return [];
+
+  return [
+    {
+      source: "pricecharting",
+      label: "pricecharting.loose",
+      amount: Number(row.loose_cents) / 100,
+      currency: row.currency ?? "USD",
+      asOf: row.captured_at,
+    },
+  ];
+}
+
+/* ---------------- Graded slabs ---------------- */
+
+function ladderSource(raw: string | null | undefined): PriceSource {
+  const v = String(raw ?? "").toLowerCase();
+  if (v.includes("ebay")) return "ebay";
+  if (v.includes("tcgplayer")) return "tcgplayer";
+  return "pricecharting";
+}
+
+async function gradedLadderQuotes(game: GameId, cardId: string, slab: SlabGrade): Promise<PriceQuote[]> {
+  const ladder = await dbGradedMarketProvider.fetchPsaLadder({ game, cardId });
+  if (!ladder) return [];
+  const source = ladderSource(ladder.source);
+  const q = ladderQuote(ladder, slab, { source, label: `graded.${source}` });
+  return q ? [q] : [];
+}
+
+/** PriceCharting prices BGS / CGC / SGC 10s directly. */
+async function pricechartingTen(game: GameId, cardId: string, slab: SlabGrade): Promise<PriceQuote[]> {
+  if (!PRICECHARTING_ENABLED || slab.grade !== 10) return [];
+  if (slab.grader !== "bgs" && slab.grader !== "cgc" && slab.grader !== "sgc") return [];
+  const row =
+    (
+      await db.execute<{
+        bgs10_cents: number | null;
+        cgc10_cents: number | null;
+        sgc10_cents: number | null;
+        currency: string | null;
+        captured_at: string | null;
+      }>(sql`
+        SELECT bgs10_cents, cgc10_cents, sgc10_cents, currency, captured_at::text AS captured_at
+        FROM public.pricecharting_grade_snapshots
+        WHERE category = ${game} AND card_id = ${cardId}
+        ORDER BY captured_at DESC
+        LIMIT 1
+      `)
+    ).rows?.[0] ?? null;
+  const cents = row?.[`${slab.grader}10_cents` as const];
+  if (!cents) return [];
+
+  return [
+    {
+      source: "pricecharting",
+      label: `pricecharting.${slab.grader}10`,
+      amount: Number(cents) / 100,
+      currency: row?.currency ?? "USD",
+      asOf: row?.captured_at ?? null,
+    },
+  ];
+}
+
+export async function loadGradedQuotes(req: ValuationRequest, slab: SlabGrade): Promise<PriceQuote[]> {
+  const cardId = String(req.cardId ?? "").trim();
+  if (!cardId) return [];
+  const [ladder, pc] = await Promise.all([
+    safeQuotes("graded.ladder", () => gradedLadderQuotes(req.game, cardId, slab)),
+    safeQuotes("graded.pricecharting", () => pricechartingTen(req.game, cardId, slab)),
+  ]);
+  return [...ladder, ...pc];
+}
+
+/* ---------------- Entry points ---------------- */
+
+export async function loadQuotes(req: ValuationRequest): Promise<PriceQuote[]> {
+  const cardId = String(req.cardId ?? "").trim();
+  if (!cardId) return [];
+  const vt = normalizeVariant(req.variant, req.game);
+
+  const own =
+    req.game === "pokemon"
+      ? pokemonQuotes(cardId, vt)
+      : req.game === "yugioh"
+        ? safeQuotes("yugioh", () => ygoQuotes(cardId, vt))
+        : req.game === "mtg"
+          ? safeQuotes("mtg", () => mtgQuotes(cardId, vt))
+          : Promise.resolve([]);
+
+  const [base, ebay, pc] = await Promise.all([
+    own,
+    // YGO rows already carry an eBay price
+    req.game === "yugioh" ? Promise.resolve([]) : safeQuotes("ebay", () => ebayComps(req.game, cardId)),
+    safeQuotes("pricecharting", () => pricechartingLoose(req.game, cardId)),
+  ]);
+  return [...base, ...ebay, ...pc];
+}
+
+export async function getValuation(req: ValuationRequest): Promise<Valuation | null> {
+  // each quote is converted at the rate on its own date
+  const toUsd = (await loadFxTable()).toUsd;
+  const slab = parseSlabGrade(req.gradingCompany, req.gradeLabel);
+  if (slab) {
+    const graded = blendQuotes(await loadGradedQuotes(req, slab), { toUsd, basis: "graded" });
+    if (graded) return graded;
+    const raw = blendQuotes(await loadQuotes(req), { toUsd });
+    return raw ? asRawFallback(raw) : null;
+  }
+
+  const quotes = await loadQuotes(req);
+  return blendQuotes(quotes, { toUsd, condition: normalizeCondition(req.condition) });
+}
+
+/** Values many cards, looking each distinct card/variant/condition/grade up once. */
+export async function getValuations(reqs: ValuationRequest[]): Promise<Map<string, Valuation | null>> {
+  const out = new Map<string, Valuation | null>();
+  const pending = new Map<string, ValuationRequest>();
+  for (const r of reqs) pending.set(valuationKey(r), r);
+
+  // a few cards at a time: each valuation is several queries
+  const entries = [...pending];
+  for (let i = 0; i < entries.length; i += VALUATION_CONCURRENCY) {
+    await Promise.all(
+      entries.slice(i, i + VALUATION_CONCURRENCY).map(async ([key, r]) => {
+        out.set(key, await getValuation(r));
+      }),
+    );
+  }
+  return out;
+}
@@ -0,0 +1,85 @@
+// src/lib/valuations/gradedLadder.ts
+import "server-only";
+
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import type { GradeLadder, GradedMarketProvider } from "@/lib/gradedMarketProvider";
+
+export type GradedLatestRow = {
+  game: string;
+  card_id: string;
+  currency: string;
+  raw_cents: number | null;
+  psa_1_cents: number | null;
+  psa_2_cents: number | null;
+  psa_3_cents: number | null;
+  psa_4_cents: number | null;
+  psa_5_cents: number | null;
+  psa_6_cents: number | null;
+  psa_7_cents: number | null;
+  psa_8_cents: number | null;
+  psa_9_cents: number | null;
+  psa_10_cents: number | null;
+  source: string;
+  source_updated_at: string | null;
+  captured_at: string;
+  updated_at: string;
+};
+
+/**
+ * Latest graded price row for a card from card_market_prices_graded_latest.
+ * Without a currency, USD is preferred and then the freshest row.
+ */
+export async function loadGradedLatest(params: {
+  game: string;
+  cardId: string;
+  currency?: string | null;
+}): Promise<GradedLatestRow | null> {
+  const currency = params.currency ? params.currency.toUpperCase() : null;
+  const res = await db.execute<GradedLatestRow>(sql`
+    SELECT
+      game, card_id, currency,
+      raw_cents,
+      psa_1_cents, psa_2_cents, psa_3_cents, psa_4_cents, psa_5_cents,
+      psa_6_cents, psa_7_cents, psa_8_cents, psa_9_cents, psa_10_cents,
+      source, source_updated_at, captured_at, updated_at
+    FROM public.card_market_prices_graded_latest
+    WHERE game = ${params.game}
+      AND card_id = ${params.cardId}
+      ${currency ? sql`AND currency = ${currency}` : sql``}
+    ORDER BY (currency = 'USD') DESC, updated_at DESC
+    LIMIT 1
+  `);
+  return res.rows?.[0] ?? null;
+}
+
+const cents = (v: unknown) => (v == null ? null : Number(v));
+
+export function gradedRowToLadder(row: GradedLatestRow): GradeLadder {
+  return {
+    currency: row.currency,
+    rawCents: cents(row.raw_cents),
+    psa: {
+      1: cents(row.psa_1_cents),
+      2: cents(row.psa_2_cents),
+      3: cents(row.psa_3_cents),
+      4: cents(row.psa_4_cents),
+      5: cents(row.psa_5_cents),
+      6: cents(row.psa_6_cents),
+      7: cents(row.psa_7_cents),
+      8: cents(row.psa_8_cents),
+      9: cents(row.psa_9_cents),
+      10: cents(row.psa_10_cents),
+    },
+    sourceUpdatedAt: row.source_updated_at ?? row.updated_at ?? null,
+    source: row.source,
+  };
+}
+
+/** GradedMarketProvider backed by our own graded price table. */
+export const dbGradedMarketProvider: GradedMarketProvider = {
+  async fetchPsaLadder({ game, cardId, currency }) {
+    const row = await loadGradedLatest({ game, cardId, currency });
+    return row ? gradedRowToLadder(row) : null;
+  },
+};
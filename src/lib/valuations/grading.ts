@@ -0,0 +1,135 @@
+// src/lib/valuations/grading.ts
+//
+// Prices graded slabs from a PSA price ladder: parses the stored grade,
+// reads the matching rung and scales it for slabs from other graders.
+// ./gradedLadder.ts loads the ladders.
+
+import type { GradeLadder } from "../gradedMarketProvider";
+import { normalizeGrader, type Grader } from "../wishlist/stockMatch";
+import { RANGE_BAND, type PriceQuote, type PriceSource, type Valuation } from "./blend";
+
+export type PsaGrade = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10;
+
+const PSA_GRADES: PsaGrade[] = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+/**
+ * A slab from another grader relative to the same number from PSA. The
+ * ladder is PSA-only, so other slabs are priced off it and scaled.
+ */
+export const GRADER_FACTORS: Record<Grader, number> = {
+  psa: 1,
+  bgs: 0.95,
+  cgc: 0.85,
+  sgc: 0.85,
+};
+
+/** graders we don't know (TAG, ACE, ...) */
+const OTHER_GRADER_FACTOR = 0.75;
+
+/** grading_company values that mean "not graded" */
+const RAW_COMPANIES = new Set(["ungr", "ungraded", "raw", "none"]);
+
+export type SlabGrade = {
+  /** null for a grader we don't have a factor for */
+  grader: Grader | null;
+  /** 1..10, halves allowed (9.5) */
+  grade: number;
+};
+
+/**
+ * Reads the grade off a collection item's grading_company / grade_label,
+ * e.g. ("PSA", "10"), ("BGS", "Gem Mint 9.5"), ("", "CGC 9"). Null for a
+ * raw card: no grading company, or no grade number in the label.
+ */
+export function parseSlabGrade(company: unknown, label: unknown): SlabGrade | null {
+  const rawCompany = String(company ?? "").trim();
+  const rawLabel = String(label ?? "").trim();
+  if (!rawCompany && !rawLabel) return null;
+  if (RAW_COMPANIES.has(rawCompany.toLowerCase())) return null;
+
+  // the company is sometimes only written into the label ("PSA 10")
+  const grader = normalizeGrader(rawCompany) ?? normalizeGrader(rawLabel.split(/\s+/)[0]);
+  if (!rawCompany && !grader) return null;
+
+  const nums = rawLabel.match(/\d+(?:\.\d+)?/g);
+  if (!nums) return null;
+  const n = Number(nums[nums.length - 1]);
+  if (!Number.isFinite(n) || n < 1 || n > 10) return null;
+
+  return { grader, grade: Math.round(n * 2) / 2 };
+}
+
+export function slabKey(slab: SlabGrade | null): string {
+  return slab ? `${slab.grader ?? "other"}${slab.grade}` : "raw";
+}
+
+/** Ladder rungs that have a price, in major units. */
+function rungs(ladder: GradeLadder): Array<{ grade: PsaGrade; amount: number }> {
+  const out: Array<{ grade: PsaGrade; amount: number }> = [];
+  for (const g of PSA_GRADES) {
+    const cents = ladder.psa[g];
+    if (cents != null && Number.isFinite(cents) && cents > 0) out.push({ grade: g, amount: cents / 100 });
+  }
+  return out;
+}
+
+/**
+ * One quote for a slab from a PSA ladder. Whole grades use their rung; a
+ * half grade sits halfway between the rungs either side. A missing rung
+ * is interpolated from the nearest priced rungs, or taken from the
+ * closest one at the ends; those, and non-PSA slabs, are marked as not an
+ * exact match so they count for less. Null when the ladder has no prices.
+ */
+export function ladderQuote(
+  ladder: GradeLadder,
+  slab: SlabGrade,
+  meta: { source: PriceSource; label: string; sampleSize?: number | null },
+): PriceQuote | null {
+  const priced = rungs(ladder);
+  if (!priced.length) return null;
+
+  const g = slab.grade;
+  const below = [...priced].reverse().find((r) => r.grade <= g) ?? null;
+  const above = priced.find((r) => r.grade >= g) ?? null;
+
+  let amount: number;
+  let exact: boolean;
+  if (below && above) {
+    const span = above.grade - below.grade;
+    amount = span === 0 ? below.amount : below.amount + ((above.amount - below.amount) * (g - below.grade)) / span;
+    // a half grade between two neighbouring rungs is as good as a rung
+    exact = span === 0 || (span === 1 && Math.floor(g) === below.grade);
+  } else {
+    amount = (below ?? above)!.amount;
+    exact = false;
+  }
+
+  const factor = slab.grader ? GRADER_FACTORS[slab.grader] : OTHER_GRADER_FACTOR;
+
+  return {
+    source: meta.source,
+    label: `${meta.label}.psa_${String(g).replace(".", "_")}`,
+    amount: amount * factor,
+    currency: ladder.currency,
+    asOf: ladder.sourceUpdatedAt ?? null,
+    sampleSize: meta.sampleSize ?? null,
+    // other graders are scaled off the PSA ladder, so never exact
+    variantMatch: exact && slab.grader === "psa",
+  };
+}
+
+/**
+ * A slab we could only price as a raw card. The number is kept so the
+ * portfolio isn't blank, but it is flagged and graded D with a D-width
+ * range.
+ */
+export function asRawFallback(v: Valuation): Valuation {
+  const band = RANGE_BAND.D;
+  return {
+    ...v,
+    basis: "raw_fallback",
+    confidence: { score: Math.min(v.confidence.score, 0.2), grade: "D" },
+    lowUsd: Math.min(v.lowUsd, Math.round(v.valueUsd * (1 - band) * 100) / 100),
+    highUsd: Math.max(v.highUsd, Math.round(v.valueUsd * (1 + band) * 100) / 100),
+  };
+}
@@ -2,7 +2,8 @@ import "server-only";
 
 import { sql } from "drizzle-orm";
 import { db } from "@/lib/db";
-import { getLivePriceForCard, normalizeGame, type GameId } from "@/lib/livePrices";
+import { normalizeGame } from "@/lib/livePrices";
+import { valueCollectionRows } from "@/lib/valuations/collection";
 
 function todayISODate(): string {
   return new Date().toISOString().slice(0, 10);
@@ -13,6 +14,11 @@ type ItemRow = {
   user_id: string;
   game: string; // raw stored game
   card_id: string;
+  set_name: string | null;
+  variant_type: string | null;
+  condition: string | null;
+  grading_company: string | null;
+  grade_label: string | null;
   quantity: number | null;
   cost_cents: number | null; // per-copy cost basis
 };
@@ -24,12 +30,20 @@ type GameAgg = {
   totalValueCents: number;
 };
 
+type SetAgg = {
+  game: string;
+  set: string;
+  totalCostCents: number;
+  totalValueCents: number;
+};
+
 type UserAgg = {
   totalQuantity: number;
   distinctItems: Set<string>;
   totalCostCents: number;
   totalValueCents: number;
   byGame: Map<string, GameAgg>; // key: normalized game id
+  bySet: Map<string, SetAgg>; // key: "<game>|<set name>"
 };
 
 export async function revalueUserCollection(userId: string, asOfDate?: string) {
@@ -42,6 +56,11 @@ export async function revalueUserCollection(userId: string, asOfDate?: string) {
       user_id,
       game,
       card_id,
+      set_name,
+      variant_type,
+      condition,
+      grading_company,
+      grade_label,
       quantity,
       cost_cents
     FROM user_collection_items
@@ -66,14 +85,19 @@ export async function revalueUserCollection(userId: string, asOfDate?: string) {
     totalCostCents: 0,
     totalValueCents: 0,
     byGame: new Map<string, GameAgg>(),
+    bySet: new Map<string, SetAgg>(),
   };
 
   let updatedCount = 0;
   let skippedNoPrice = 0;
   let skippedUnsupportedGame = 0;
 
+  // price everything first (each distinct card once) so the transaction
+  // below only holds its locks for the writes
+  const valued = await valueCollectionRows(items);
+
   await db.transaction(async (tx) => {
-    for (const item of items) {
+    for (const item of valued) {
       const gameNorm = normalizeGame(item.game);
       if (!gameNorm) {
         skippedUnsupportedGame++;
@@ -81,18 +105,13 @@ export async function revalueUserCollection(userId: string, asOfDate?: string) {
       }
 
       const qty = item.quantity ?? 1;
-      if (!item.card_id) {
+      const valuation = item.valuation;
+      if (!valuation) {
         skippedNoPrice++;
         continue;
       }
 
-      const livePrice = await getLivePriceForCard(gameNorm as GameId, item.card_id);
-      if (!livePrice) {
-        skippedNoPrice++;
-        continue;
-      }
-
-      const unitPriceCents = Math.round(livePrice.amount * 100);
+      const unitPriceCents = Math.round(valuation.valueUsd * 100);
       const totalValueCents = unitPriceCents * qty;
 
       await tx.execute(sql`
@@ -103,11 +122,19 @@ export async function revalueUserCollection(userId: string, asOfDate?: string) {
         WHERE id = ${item.id}
       `);
 
-      const source = (livePrice as any)?.source ?? "effective";
-      const confidence = (livePrice as any)?.confidence ?? null;
+      const source = valuation.primarySource;
+      const confidence = valuation.confidence.grade;
 
       const metaJson = JSON.stringify({
         unit_price_cents: unitPriceCents,
+        unit_low_cents: Math.round(valuation.lowUsd * 100),
+        unit_high_cents: Math.round(valuation.highUsd * 100),
+        confidence_score: valuation.confidence.score,
+        basis: valuation.basis,
+        condition: valuation.basis === "raw" ? valuation.condition : null,
+        grading_company: item.grading_company || null,
+        grade_label: item.grade_label || null,
+        primary_source: valuation.primarySource,
         quantity: qty,
         card_id: item.card_id,
       });
@@ -167,6 +194,19 @@ export async function revalueUserCollection(userId: string, asOfDate?: string) {
       gameAgg.itemIds.add(item.id);
       gameAgg.totalCostCents += totalCostForRow;
       gameAgg.totalValueCents += totalValueCents;
+
+      // per-set values feed performance attribution
+      const setName = item.set_name?.trim();
+      if (setName) {
+        const setKey = `${gameNorm}|${setName}`;
+        let setAgg = totals.bySet.get(setKey);
+        if (!setAgg) {
+          setAgg = { game: gameNorm, set: setName, totalCostCents: 0, totalValueCents: 0 };
+          totals.bySet.set(setKey, setAgg);
+        }
+        setAgg.totalCostCents += totalCostForRow;
+        setAgg.totalValueCents += totalValueCents;
+      }
     }
 
     // Daily portfolio row for this user
@@ -183,7 +223,8 @@ export async function revalueUserCollection(userId: string, asOfDate?: string) {
         totalValueCents: gAgg.totalValueCents,
       };
     }
-    const breakdownJson = JSON.stringify({ byGame: breakdownByGame });
+    const breakdownBySet = Object.fromEntries(totals.bySet.entries());
+    const breakdownJson = JSON.stringify({ byGame: breakdownByGame, bySet: breakdownBySet });
 
     await tx.execute(sql`
       INSERT INTO user_collection_daily_valuations (
@@ -0,0 +1,68 @@
+// src/lib/valuations/variants.ts
+//
+// Printings / finishes stored in user_collection_items.variant_type: the
+// canonical names per game, their labels and the spellings we accept.
+// Client forms import it for their pickers.
+
+/** Canonical printing or finish; which ones apply depends on the game. */
+export type CanonVariant =
+  | "normal"
+  | "holofoil"
+  | "reverse_holofoil"
+  | "first_edition"
+  | "promo"
+  | "foil"
+  | "etched";
+
+/** Printings each game is priced and tracked by; the first is the default. */
+export const GAME_VARIANTS: Record<string, CanonVariant[]> = {
+  pokemon: ["normal", "holofoil", "reverse_holofoil", "first_edition", "promo"],
+  mtg: ["normal", "foil", "etched"],
+  yugioh: ["normal", "first_edition"],
+};
+
+export const VARIANT_LABELS: Record<CanonVariant, string> = {
+  normal: "Normal",
+  holofoil: "Holo",
+  reverse_holofoil: "Reverse",
+  first_edition: "1st Ed",
+  promo: "Promo",
+  foil: "Foil",
+  etched: "Etched",
+};
+
+function parseVariant(input: unknown): CanonVariant {
+  const s = String(input ?? "").trim().toLowerCase().replace(/[\s-]+/g, "_");
+  if (s === "holo" || s === "holofoil") return "holofoil";
+  if (s === "reverse" || s === "reverse_holo" || s === "reverseholo" || s === "reverse_holofoil") {
+    return "reverse_holofoil";
+  }
+  if (s === "first" || s === "firstedition" || s === "first_edition" || s === "1st_edition" || s === "1st_ed") {
+    return "first_edition";
+  }
+  if (s === "promo" || s === "wpromo" || s === "w_promo") return "promo";
+  if (s === "foil") return "foil";
+  if (s === "etched" || s === "etched_foil" || s === "foil_etched") return "etched";
+  return "normal";
+}
+
+/**
+ * Canonical variant for a stored or submitted value. With a game, the
+ * spelling is mapped onto that game's printings (a Pokémon "foil" is a
+ * holo, an MTG "holofoil" is a foil) and anything the game doesn't have
+ * falls back to normal.
+ */
+export function normalizeVariant(input: unknown, game?: string | null): CanonVariant {
+  const v = parseVariant(input);
+  const allowed = game ? GAME_VARIANTS[String(game).toLowerCase()] : null;
+  if (!allowed) return v;
+
+  if (allowed.includes(v)) return v;
+  if (v === "foil" || v === "etched") return allowed.includes("holofoil") ? "holofoil" : "normal";
+  if (v === "holofoil" || v === "reverse_holofoil") return allowed.includes("foil") ? "foil" : "normal";
+  return "normal";
+}
+
+export function variantLabel(v: unknown): string {
+  return VARIANT_LABELS[parseVariant(v)];
+}
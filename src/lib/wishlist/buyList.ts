@@ -0,0 +1,112 @@
+// src/lib/wishlist/buyList.ts
+import "server-only";
+
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { getLivePriceForCard, normalizeGame } from "@/lib/livePrices";
+import { loadWishlist, WishlistError, type WishlistEntry } from "@/lib/wishlist/stock";
+import { planBuyList, type BuyListInput, type BuyListRow, type BuyListTotals } from "@/lib/wishlist/buyListPlan";
+
+export type BuyListItem = BuyListInput &
+  Pick<WishlistEntry, "game" | "cardId" | "cardName" | "setName" | "imageUrl" | "wantedVariant" | "want"> & {
+    priceSource: string | null;
+  };
+
+export type BuyList = {
+  /** "YYYY-MM" the budget applies to */
+  month: string;
+  rows: BuyListRow<BuyListItem>[];
+  totals: BuyListTotals;
+};
+
+const PRICE_BATCH = 10;
+
+/* --------------------------------- Budget --------------------------------- */
+
+export async function getWishlistBudget(userId: string): Promise<number | null> {
+  const res = await db.execute<{ monthly_budget_cents: number }>(sql`
+    SELECT monthly_budget_cents FROM public.wishlist_budgets WHERE user_id = ${userId} LIMIT 1
+  `);
+  const v = res.rows?.[0]?.monthly_budget_cents;
+  return v == null ? null : Number(v);
+}
+
+/** null removes the budget (buy list then plans everything buyable). */
+export async function setWishlistBudget(userId: string, raw: unknown): Promise<number | null> {
+  if (raw === "" || raw == null) {
+    await db.execute(sql`DELETE FROM public.wishlist_budgets WHERE user_id = ${userId}`);
+    return null;
+  }
+
+  const cents = Number(raw);
+  if (!Number.isFinite(cents) || cents < 0) {
+    throw new WishlistError("Budget must be a positive amount.", "invalid_budget");
+  }
+
+  await db.execute(sql`
+    INSERT INTO public.wishlist_budgets (user_id, monthly_budget_cents)
+    VALUES (${userId}, ${Math.round(cents)})
+    ON CONFLICT (user_id) DO UPDATE SET
+      monthly_budget_cents = EXCLUDED.monthly_budget_cents,
+      updated_at = now()
+  `);
+  return Math.round(cents);
+}
+
+/** What the user has logged as bought this calendar month (cost basis × quantity). */
+async function spentThisMonth(userId: string): Promise<number> {
+  const res = await db.execute<{ spent: number | null }>(sql`
+    SELECT COALESCE(SUM(COALESCE(cost_cents, 0) * COALESCE(quantity, 0)), 0)::bigint AS spent
+    FROM public.user_collection_items
+    WHERE user_id = ${userId}
+      AND purchase_date >= date_trunc('month', CURRENT_DATE)::date
+  `);
+  return Number(res.rows?.[0]?.spent ?? 0);
+}
+
+/* -------------------------------- Buy list -------------------------------- */
+
+async function priceEntries(entries: WishlistEntry[]): Promise<BuyListItem[]> {
+  const out: BuyListItem[] = [];
+
+  // a handful at a time: each lookup is its own query
+  for (let i = 0; i < entries.length; i += PRICE_BATCH) {
+    const batch = entries.slice(i, i + PRICE_BATCH);
+    const priced = await Promise.all(
+      batch.map(async (e) => {
+        const game = normalizeGame(e.game);
+        const live = game ? await getLivePriceForCard(game, e.cardId, e.wantedVariant).catch(() => null) : null;
+        return {
+          id: e.id,
+          game: e.game,
+          cardId: e.cardId,
+          cardName: e.cardName,
+          setName: e.setName,
+          imageUrl: e.imageUrl,
+          wantedVariant: e.wantedVariant,
+          want: e.want,
+          priority: e.priority,
+          targetPriceCents: e.targetPriceCents,
+          marketCents: live ? Math.round(live.amount * 100) : null,
+          priceSource: live?.source ?? null,
+        };
+      }),
+    );
+    out.push(...priced);
+  }
+
+  return out;
+}
+
+export async function buildBuyList(userId: string): Promise<BuyList> {
+  const [entries, budgetCents, spentCents] = await Promise.all([
+    loadWishlist(userId),
+    getWishlistBudget(userId),
+    spentThisMonth(userId),
+  ]);
+
+  const items = await priceEntries(entries);
+  const { rows, totals } = planBuyList(items, { budgetCents, spentCents });
+
+  return { month: new Date().toISOString().slice(0, 7), rows, totals };
+}
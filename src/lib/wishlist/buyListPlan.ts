@@ -0,0 +1,142 @@
+// src/lib/wishlist/buyListPlan.ts
+//
+// Turns a priced wishlist into a buy list for this month's budget, by
+// priority, then cards below their target price, then cheapest first.
+// ./buyList.ts prices the entries and reads the budget.
+
+export type WishlistPriority = 1 | 2 | 3;
+
+export const WISHLIST_PRIORITIES: WishlistPriority[] = [1, 2, 3];
+
+export const WISHLIST_PRIORITY_LABELS: Record<WishlistPriority, string> = {
+  1: "High",
+  2: "Medium",
+  3: "Low",
+};
+
+export type WishlistVariant = "normal" | "holofoil" | "reverse_holofoil" | "first_edition" | "promo";
+
+export const WISHLIST_VARIANTS: WishlistVariant[] = ["normal", "holofoil", "reverse_holofoil", "first_edition", "promo"];
+
+export const WISHLIST_VARIANT_LABELS: Record<WishlistVariant, string> = {
+  normal: "Normal",
+  holofoil: "Holofoil",
+  reverse_holofoil: "Reverse Holofoil",
+  first_edition: "1st Edition",
+  promo: "Promo",
+};
+
+export type BuyListInput = {
+  id: string;
+  priority: WishlistPriority;
+  targetPriceCents: number | null;
+  /** current market price for one copy; null when we have no price */
+  marketCents: number | null;
+};
+
+/**
+ * planned      – fits the remaining budget this month
+ * over_budget  – worth buying (no target, or at/below target) but doesn't fit
+ * above_target – market is above the user's target; wait for a drop
+ * unpriced     – no market price to plan with
+ */
+export type BuyListStatus = "planned" | "over_budget" | "above_target" | "unpriced";
+
+export type BuyListRow<T extends BuyListInput> = T & {
+  status: BuyListStatus;
+  belowTarget: boolean;
+  /** target − market when at/below target */
+  savingsCents: number | null;
+};
+
+export type BuyListTotals = {
+  /** sum of market prices for everything priced */
+  marketTotalCents: number;
+  plannedTotalCents: number;
+  plannedCount: number;
+  belowTargetCount: number;
+  unpricedCount: number;
+  budgetCents: number | null;
+  spentCents: number;
+  /** budget − spent − planned; null with no budget */
+  remainingCents: number | null;
+};
+
+export function normalizePriority(raw: unknown): WishlistPriority | null {
+  const v = String(raw ?? "").trim().toLowerCase();
+  if (v === "1" || v === "high") return 1;
+  if (v === "2" || v === "medium" || v === "med") return 2;
+  if (v === "3" || v === "low") return 3;
+  return null;
+}
+
+export function normalizeWishlistVariant(raw: unknown): WishlistVariant | null {
+  const v = String(raw ?? "").trim().toLowerCase();
+  return (WISHLIST_VARIANTS as string[]).includes(v) ? (v as WishlistVariant) : null;
+}
+
+function isBelowTarget(it: BuyListInput) {
+  return it.targetPriceCents != null && it.marketCents != null && it.marketCents <= it.targetPriceCents;
+}
+
+/**
+ * Buy order: priority, then cards at/below target, then cheapest first.
+ * Cards are added greedily while they fit what's left of the month's budget
+ * after purchases already logged this month (a cheaper card further down can
+ * still fit after a pricey one doesn't). No budget = everything buyable is planned.
+ */
+export function planBuyList<T extends BuyListInput>(
+  items: T[],
+  opts: { budgetCents: number | null; spentCents: number },
+): { rows: BuyListRow<T>[]; totals: BuyListTotals } {
+  const ordered = [...items].sort(
+    (a, b) =>
+      a.priority - b.priority ||
+      Number(isBelowTarget(b)) - Number(isBelowTarget(a)) ||
+      (a.marketCents ?? Infinity) - (b.marketCents ?? Infinity),
+  );
+
+  let left = opts.budgetCents == null ? Infinity : Math.max(0, opts.budgetCents - opts.spentCents);
+  const totals: BuyListTotals = {
+    marketTotalCents: 0,
+    plannedTotalCents: 0,
+    plannedCount: 0,
+    belowTargetCount: 0,
+    unpricedCount: 0,
+    budgetCents: opts.budgetCents,
+    spentCents: opts.spentCents,
+    remainingCents: null,
+  };
+
+  const rows = ordered.map((it): BuyListRow<T> => {
+    const belowTarget = isBelowTarget(it);
+    const savingsCents = belowTarget ? it.targetPriceCents! - it.marketCents! : null;
+    if (belowTarget) totals.belowTargetCount++;
+
+    let status: BuyListStatus;
+    if (it.marketCents == null) {
+      status = "unpriced";
+      totals.unpricedCount++;
+    } else {
+      totals.marketTotalCents += it.marketCents;
+      if (it.targetPriceCents != null && !belowTarget) {
+        status = "above_target";
+      } else if (it.marketCents <= left) {
+        status = "planned";
+        left -= it.marketCents;
+        totals.plannedTotalCents += it.marketCents;
+        totals.plannedCount++;
+      } else {
+        status = "over_budget";
+      }
+    }
+
+    return { ...it, status, belowTarget, savingsCents };
+  });
+
+  if (opts.budgetCents != null) {
+    totals.remainingCents = opts.budgetCents - opts.spentCents - totals.plannedTotalCents;
+  }
+
+  return { rows, totals };
+}
@@ -0,0 +1,508 @@
+// src/lib/wishlist/stock.ts
+import "server-only";
+
+import { sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { sendEmail } from "@/lib/email";
+import { getUserEmail } from "@/lib/userEmail";
+import { wishlistBackInStockTemplate } from "@/emails/templates";
+import { notifyUser as notifyInbox } from "@/lib/notifications/notifications";
+import { wishlistStockNotification } from "@/lib/notifications/events";
+import { normalizeCondition } from "@/lib/cards/condition";
+import {
+  listingMatchesWant,
+  normalizeGradeX10,
+  normalizeGrader,
+  type StockListing,
+  type WishlistWant,
+} from "@/lib/wishlist/stockMatch";
+import {
+  normalizePriority,
+  normalizeWishlistVariant,
+  type WishlistPriority,
+  type WishlistVariant,
+} from "@/lib/wishlist/buyListPlan";
+
+/**
+ * Wishlist <-> shop matching + back-in-stock emails.
+ *
+ * A wishlist entry matches:
+ *  - active `products` whose source_card_id is the card (stock > 0 or "infinite")
+ *  - live `inventory_items` whose meta.cardId is the card (on_hand > 0) and
+ *    that aren't published yet (published ones match as their product)
+ * filtered by the entry's optional condition / grade wants.
+ *
+ * wishlist_stock_alerts remembers which listings each entry has seen. A listing
+ * that appears (went active/live) or comes back after being out of stock is
+ * "pending" until the owner is emailed. The first check of an entry only
+ * records a baseline: the wishlist page already shows what's in stock.
+ */
+
+/* ---------------------------------- Types --------------------------------- */
+
+export class WishlistError extends Error {
+  code: string;
+  status: number;
+
+  constructor(message: string, code: string, status = 400) {
+    super(message);
+    this.name = "WishlistError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export type WishlistEntry = {
+  id: string;
+  game: string;
+  cardId: string;
+  cardName: string | null;
+  setName: string | null;
+  imageUrl: string | null;
+  want: WishlistWant;
+  /** null = any printing */
+  wantedVariant: WishlistVariant | null;
+  /** per copy */
+  targetPriceCents: number | null;
+  priority: WishlistPriority;
+  notifyInStock: boolean;
+  stockCheckedAt: string | null;
+  createdAt: string;
+};
+
+export type WishlistEntryWithStock = WishlistEntry & { listings: StockListing[] };
+
+export type WishlistStockRunSummary = {
+  users: number;
+  entries: number;
+  pending: number;
+  emailed: number;
+  failed: number;
+};
+
+const EMAIL_MAX_ITEMS = 20;
+
+type EntryRow = {
+  id: string;
+  game: string;
+  card_id: string;
+  card_name: string | null;
+  set_name: string | null;
+  image_url: string | null;
+  wanted_condition: string | null;
+  wanted_grader: string | null;
+  wanted_grade_x10: number | null;
+  wanted_variant: string | null;
+  target_price_cents: number | null;
+  priority: number | null;
+  notify_in_stock: boolean;
+  stock_checked_at: string | null;
+  created_at: string;
+};
+
+const ENTRY_COLS = sql`
+  id::text AS id, game, card_id, card_name, set_name, image_url,
+  wanted_condition, wanted_grader, wanted_grade_x10, wanted_variant,
+  target_price_cents, priority, notify_in_stock,
+  stock_checked_at::text AS stock_checked_at, created_at::text AS created_at
+`;
+
+function toEntry(r: EntryRow): WishlistEntry {
+  return {
+    id: r.id,
+    game: r.game,
+    cardId: r.card_id,
+    cardName: r.card_name,
+    setName: r.set_name,
+    imageUrl: r.image_url,
+    want: {
+      conditionMin: normalizeCondition(r.wanted_condition),
+      grader: normalizeGrader(r.wanted_grader),
+      gradeMinX10: normalizeGradeX10(r.wanted_grade_x10),
+    },
+    wantedVariant: normalizeWishlistVariant(r.wanted_variant),
+    targetPriceCents: r.target_price_cents == null ? null : Number(r.target_price_cents),
+    priority: normalizePriority(r.priority) ?? 2,
+    notifyInStock: r.notify_in_stock !== false,
+    stockCheckedAt: r.stock_checked_at,
+    createdAt: r.created_at,
+  };
+}
+
+/* --------------------------------- Entries -------------------------------- */
+
+export async function loadWishlist(userId: string): Promise<WishlistEntry[]> {
+  const res = await db.execute<EntryRow>(sql`
+    SELECT ${ENTRY_COLS}
+    FROM public.user_wishlist_items
+    WHERE user_id = ${userId}
+    ORDER BY created_at DESC
+  `);
+  return (res.rows ?? []).map(toEntry);
+}
+
+/**
+ * PATCH-style update of an entry's wants / buying plan. `wantedGrade` accepts
+ * 9.5 or 95; empty strings (or null) clear a field.
+ */
+export async function updateWishlistEntry(userId: string, id: string, body: any): Promise<WishlistEntry> {
+  const sets = [];
+
+  if (body?.wantedCondition !== undefined) {
+    const v = body.wantedCondition ? normalizeCondition(body.wantedCondition) : null;
+    if (body.wantedCondition && !v) throw new WishlistError("Unknown condition.", "invalid_condition");
+    sets.push(sql`wanted_condition = ${v}`);
+  }
+  if (body?.wantedGrader !== undefined) {
+    const v = body.wantedGrader ? normalizeGrader(body.wantedGrader) : null;
+    if (body.wantedGrader && !v) throw new WishlistError("Grader must be PSA, BGS, CGC or SGC.", "invalid_grader");
+    sets.push(sql`wanted_grader = ${v}`);
+  }
+  if (body?.wantedGrade !== undefined) {
+    const v = body.wantedGrade === "" || body.wantedGrade == null ? null : normalizeGradeX10(body.wantedGrade);
+    if (body.wantedGrade !== "" && body.wantedGrade != null && v == null) {
+      throw new WishlistError("Grade must be between 1 and 10.", "invalid_grade");
+    }
+    sets.push(sql`wanted_grade_x10 = ${v}`);
+  }
+  if (body?.wantedVariant !== undefined) {
+    const v = body.wantedVariant ? normalizeWishlistVariant(body.wantedVariant) : null;
+    if (body.wantedVariant && !v) throw new WishlistError("Unknown variant.", "invalid_variant");
+    sets.push(sql`wanted_variant = ${v}`);
+  }
+  if (body?.targetPriceCents !== undefined) {
+    sets.push(sql`target_price_cents = ${readTargetPriceCents(body.targetPriceCents)}`);
+  }
+  if (body?.priority !== undefined) {
+    const v = normalizePriority(body.priority);
+    if (!v) throw new WishlistError("Priority must be high, medium or low.", "invalid_priority");
+    sets.push(sql`priority = ${v}`);
+  }
+  if (typeof body?.notifyInStock === "boolean") sets.push(sql`notify_in_stock = ${body.notifyInStock}`);
+
+  if (!sets.length) throw new WishlistError("Nothing to update.", "bad_request");
+
+  const res = await db.execute<EntryRow>(sql`
+    UPDATE public.user_wishlist_items
+    SET ${sql.join(sets, sql`, `)}, updated_at = now()
+    WHERE id::text = ${id} AND user_id = ${userId}
+    RETURNING ${ENTRY_COLS}
+  `);
+  const row = res.rows?.[0];
+  if (!row) throw new WishlistError("Wishlist item not found.", "not_found", 404);
+  return toEntry(row);
+}
+
+/** Whole cents ≥ 0, or null to clear. */
+export function readTargetPriceCents(raw: unknown): number | null {
+  if (raw === "" || raw == null) return null;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < 0) {
+    throw new WishlistError("Target price must be a positive amount.", "invalid_target_price");
+  }
+  return Math.round(n);
+}
+
+export async function deleteWishlistEntry(userId: string, id: string) {
+  await db.execute(sql`
+    DELETE FROM public.user_wishlist_items
+    WHERE id::text = ${id} AND user_id = ${userId}
+  `);
+}
+
+/* --------------------------------- Matching -------------------------------- */
+
+type ProductRow = {
+  id: string;
+  game: string;
+  card_id: string;
+  title: string;
+  slug: string;
+  price_cents: number | null;
+  inventory_type: string;
+  quantity: number;
+  condition: string | null;
+  is_graded: boolean;
+  grader: string | null;
+  grade_x10: number | null;
+};
+
+type InventoryRow = {
+  id: string;
+  game: string;
+  card_id: string;
+  title: string;
+  price_cents: number | null;
+  on_hand: number;
+  condition: string | null;
+  grader: string | null;
+  grade: string | null;
+};
+
+function cardKey(game: string, cardId: string) {
+  return `${game}|${cardId}`;
+}
+
+/** In-stock listings for each entry (keyed by entry id), best price first. */
+export async function findStockForEntries(entries: WishlistEntry[]): Promise<Map<string, StockListing[]>> {
+  const out = new Map<string, StockListing[]>();
+  if (!entries.length) return out;
+
+  const ids = sql`ARRAY[${sql.join(
+    [...new Set(entries.map((e) => e.cardId))].map((id) => sql`${id}`),
+    sql`, `,
+  )}]::text[]`;
+
+  const [products, inventory] = await Promise.all([
+    db.execute<ProductRow>(sql`
+      SELECT
+        p.id::text AS id, p.game::text AS game, p.source_card_id AS card_id,
+        p.title, p.slug, p.price_cents, p.inventory_type::text AS inventory_type, p.quantity,
+        p.condition::text AS condition, p.is_graded, p.grader::text AS grader, p.grade_x10
+      FROM products p
+      WHERE p.status = 'active'
+        AND p.source_card_id = ANY(${ids})
+        AND (p.inventory_type = 'infinite' OR p.quantity > 0)
+    `),
+    db.execute<InventoryRow>(sql`
+      SELECT
+        i.id::text AS id, i.game::text AS game,
+        COALESCE(i.meta->>'cardId', i.meta->>'card_id') AS card_id,
+        i.title, i.price_cents, i.on_hand, NULLIF(i.condition, '') AS condition,
+        i.meta->>'grader' AS grader, i.meta->>'grade' AS grade
+      FROM inventory_items i
+      WHERE i.status = 'live'
+        AND i.on_hand > 0
+        -- published items already show up as their product listing
+        AND NOT EXISTS (SELECT 1 FROM products lp WHERE lp.inventory_item_id = i.id)
+        AND COALESCE(i.meta->>'cardId', i.meta->>'card_id') = ANY(${ids})
+    `),
+  ]);
+
+  const byCard = new Map<string, StockListing[]>();
+  const push = (key: string, l: StockListing) => {
+    const list = byCard.get(key) ?? [];
+    list.push(l);
+    byCard.set(key, list);
+  };
+
+  for (const p of products.rows ?? []) {
+    push(cardKey(p.game, p.card_id), {
+      source: "product",
+      id: p.id,
+      title: p.title,
+      href: `/products/${encodeURIComponent(p.slug)}`,
+      priceCents: p.price_cents == null ? null : Number(p.price_cents),
+      quantity: p.inventory_type === "infinite" ? null : Number(p.quantity),
+      condition: normalizeCondition(p.condition),
+      isGraded: !!p.is_graded,
+      grader: normalizeGrader(p.grader),
+      gradeX10: p.grade_x10 == null ? null : Number(p.grade_x10),
+    });
+  }
+
+  for (const i of inventory.rows ?? []) {
+    const grader = normalizeGrader(i.grader);
+    push(cardKey(i.game, i.card_id), {
+      source: "inventory",
+      id: i.id,
+      title: i.title,
+      // inventory items don't have a storefront page of their own yet
+      href: null,
+      priceCents: i.price_cents == null ? null : Number(i.price_cents),
+      quantity: Number(i.on_hand),
+      condition: normalizeCondition(i.condition),
+      isGraded: grader != null,
+      grader,
+      gradeX10: normalizeGradeX10(i.grade),
+    });
+  }
+
+  for (const e of entries) {
+    const matches = (byCard.get(cardKey(e.game, e.cardId)) ?? [])
+      .filter((l) => listingMatchesWant(e.want, l))
+      .sort((a, b) => (a.priceCents ?? Infinity) - (b.priceCents ?? Infinity));
+    if (matches.length) out.set(e.id, matches);
+  }
+
+  return out;
+}
+
+export async function loadWishlistWithStock(userId: string): Promise<WishlistEntryWithStock[]> {
+  const entries = await loadWishlist(userId);
+  const stock = await findStockForEntries(entries);
+  return entries.map((e) => ({ ...e, listings: stock.get(e.id) ?? [] }));
+}
+
+/* -------------------------------- Notifier -------------------------------- */
+
+function listingKey(l: StockListing) {
+  return `${l.source}:${l.id}`;
+}
+
+async function recordEntryStock(userId: string, entry: WishlistEntry, listings: StockListing[]) {
+  const baseline = entry.stockCheckedAt == null;
+
+  if (listings.length) {
+    const values = sql.join(
+      listings.map(
+        (l) => sql`(
+          ${userId}, ${entry.id}::uuid, ${listingKey(l)}, ${l.title}, ${l.href}, ${l.priceCents},
+          ${baseline ? sql`now()` : sql`NULL::timestamptz`}
+        )`,
+      ),
+      sql`, `,
+    );
+
+    // A listing that was out of stock and is back counts as new again.
+    await db.execute(sql`
+      INSERT INTO wishlist_stock_alerts (user_id, wishlist_item_id, listing_key, title, href, price_cents, notified_at)
+      VALUES ${values}
+      ON CONFLICT (wishlist_item_id, listing_key) DO UPDATE SET
+        title = EXCLUDED.title,
+        href = EXCLUDED.href,
+        price_cents = EXCLUDED.price_cents,
+        in_stock = true,
+        restocked_at = CASE WHEN wishlist_stock_alerts.in_stock THEN wishlist_stock_alerts.restocked_at ELSE now() END,
+        notified_at = CASE WHEN wishlist_stock_alerts.in_stock THEN wishlist_stock_alerts.notified_at ELSE NULL END
+    `);
+  }
+
+  const keys = listings.map((l) => sql`${listingKey(l)}`);
+  await db.execute(sql`
+    UPDATE wishlist_stock_alerts
+    SET in_stock = false
+    WHERE wishlist_item_id = ${entry.id}::uuid
+      AND in_stock = true
+      ${keys.length ? sql`AND listing_key <> ALL(ARRAY[${sql.join(keys, sql`, `)}]::text[])` : sql``}
+  `);
+}
+
+async function notifyUser(userId: string): Promise<{ pending: number; emailed: boolean }> {
+  // Entries with email turned off: mark as seen so turning it back on doesn't send a backlog.
+  await db.execute(sql`
+    UPDATE wishlist_stock_alerts a
+    SET notified_at = now()
+    FROM user_wishlist_items w
+    WHERE a.wishlist_item_id = w.id
+      AND a.user_id = ${userId}
+      AND a.notified_at IS NULL
+      AND w.notify_in_stock = false
+  `);
+
+  const pending =
+    (
+      await db.execute<{
+        id: string;
+        card_name: string | null;
+        card_id: string;
+        title: string | null;
+        href: string | null;
+        price_cents: number | null;
+        seen_at: string;
+      }>(sql`
+        SELECT
+          a.id::text AS id, w.card_name, w.card_id, a.title, a.href, a.price_cents,
+          COALESCE(a.restocked_at, a.first_seen_at)::text AS seen_at
+        FROM wishlist_stock_alerts a
+        JOIN user_wishlist_items w ON w.id = a.wishlist_item_id
+        WHERE a.user_id = ${userId}
+          AND a.notified_at IS NULL
+          AND a.in_stock = true
+        ORDER BY COALESCE(a.restocked_at, a.first_seen_at) ASC
+      `)
+    ).rows ?? [];
+
+  if (!pending.length) return { pending: 0, emailed: false };
+
+  const to = await getUserEmail(userId);
+  if (!to) return { pending: pending.length, emailed: false };
+
+  const listed = pending.slice(0, EMAIL_MAX_ITEMS);
+  const tpl = wishlistBackInStockTemplate({
+    items: listed.map((p) => ({
+      cardName: p.card_name || p.card_id,
+      title: p.title || p.card_name || p.card_id,
+      href: p.href,
+      priceCents: p.price_cents,
+    })),
+    moreCount: Math.max(0, pending.length - listed.length),
+  });
+
+  await sendEmail({
+    to,
+    subject: tpl.subject,
+    html: tpl.html,
+    text: tpl.text,
+    idempotencyKey: `wishlist-stock:${userId}:${pending[pending.length - 1].id}:${pending[pending.length - 1].seen_at}`,
+  });
+
+  // The email covers delivery; the inbox just keeps a record.
+  await notifyInbox(
+    userId,
+    pending.map((p) =>
+      wishlistStockNotification({
+        cardName: p.card_name || p.card_id,
+        title: p.title || p.card_name || p.card_id,
+        href: p.href ?? "/collection/wishlist",
+        priceCents: p.price_cents,
+      }),
+    ),
+    { inboxOnly: true },
+  ).catch((e) => console.error("[wishlist-stock] inbox insert failed", e));
+
+  await db.execute(sql`
+    UPDATE wishlist_stock_alerts SET notified_at = now()
+    WHERE id IN (${sql.join(pending.map((p) => sql`${p.id}::uuid`), sql`, `)})
+  `);
+
+  return { pending: pending.length, emailed: true };
+}
+
+/**
+ * Re-matches wishlists (least recently checked users first) and emails
+ * owners about listings that went live or came back in stock.
+ * Called by /api/cron/wishlist-stock.
+ */
+export async function runWishlistStockAlerts(opts: { limit?: number } = {}): Promise<WishlistStockRunSummary> {
+  const limit = Math.max(1, Math.min(Math.floor(opts.limit ?? 200), 1000));
+
+  const users =
+    (
+      await db.execute<{ user_id: string }>(sql`
+        SELECT user_id
+        FROM user_wishlist_items
+        GROUP BY user_id
+        ORDER BY MIN(stock_checked_at) ASC NULLS FIRST
+        LIMIT ${limit}
+      `)
+    ).rows ?? [];
+
+  const summary: WishlistStockRunSummary = { users: 0, entries: 0, pending: 0, emailed: 0, failed: 0 };
+
+  for (const { user_id: userId } of users) {
+    try {
+      const entries = await loadWishlist(userId);
+      const stock = await findStockForEntries(entries);
+
+      for (const e of entries) await recordEntryStock(userId, e, stock.get(e.id) ?? []);
+
+      await db.execute(sql`
+        UPDATE user_wishlist_items SET stock_checked_at = now()
+        WHERE user_id = ${userId}
+      `);
+
+      const { pending, emailed } = await notifyUser(userId);
+      summary.users++;
+      summary.entries += entries.length;
+      summary.pending += pending;
+      if (emailed) summary.emailed++;
+    } catch (err) {
+      // One bad wishlist (or a flaky email send) shouldn't stop the rest.
+      summary.failed++;
+      console.error(`[wishlist-stock] user ${userId} failed`, err);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,85 @@
+// src/lib/wishlist/stockMatch.ts
+//
+// Does a shop listing satisfy a wishlist entry's condition / grade wants?
+// Also parses graders and grades, and describes a want for display.
+// ./stock.ts loads the listings and sends the back-in-stock alerts.
+
+import { CARD_CONDITIONS, CARD_CONDITION_LABELS, type CardCondition } from "../cards/condition";
+
+export const GRADERS = ["psa", "bgs", "cgc", "sgc"] as const;
+export type Grader = (typeof GRADERS)[number];
+
+export type WishlistWant = {
+  /** worst acceptable raw condition; null = any */
+  conditionMin: CardCondition | null;
+  /** only graded listings from this company; null = any company */
+  grader: Grader | null;
+  /** minimum grade ×10 (95 = 9.5); null = any */
+  gradeMinX10: number | null;
+};
+
+export type StockListing = {
+  source: "product" | "inventory";
+  id: string;
+  title: string;
+  href: string | null;
+  priceCents: number | null;
+  /** null = unlimited (print-on-demand style "infinite" products) */
+  quantity: number | null;
+  condition: CardCondition | null;
+  isGraded: boolean;
+  grader: Grader | null;
+  gradeX10: number | null;
+};
+
+export function normalizeGrader(raw: unknown): Grader | null {
+  const v = String(raw ?? "").trim().toLowerCase();
+  return (GRADERS as readonly string[]).includes(v) ? (v as Grader) : null;
+}
+
+/** "9.5" / 9.5 / "95" -> 95. Anything outside 1..10 is ignored. */
+export function normalizeGradeX10(raw: unknown): number | null {
+  if (raw == null || raw === "") return null;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n <= 0) return null;
+  const x10 = n <= 10 ? Math.round(n * 10) : Math.round(n);
+  return x10 >= 10 && x10 <= 100 ? x10 : null;
+}
+
+function wantsGraded(want: WishlistWant) {
+  return want.grader != null || want.gradeMinX10 != null;
+}
+
+/**
+ * Graded wants only match slabs (right company, grade at least the minimum);
+ * a raw condition want only matches raw cards at least that good. No wants
+ * means any in-stock copy counts.
+ */
+export function listingMatchesWant(want: WishlistWant, listing: StockListing): boolean {
+  if (listing.quantity != null && listing.quantity <= 0) return false;
+
+  if (wantsGraded(want)) {
+    if (!listing.isGraded) return false;
+    if (want.grader && listing.grader !== want.grader) return false;
+    if (want.gradeMinX10 != null && (listing.gradeX10 == null || listing.gradeX10 < want.gradeMinX10)) return false;
+    return true;
+  }
+
+  if (want.conditionMin) {
+    if (listing.isGraded || !listing.condition) return false;
+    return CARD_CONDITIONS.indexOf(listing.condition) <= CARD_CONDITIONS.indexOf(want.conditionMin);
+  }
+
+  return true;
+}
+
+export function describeWant(want: WishlistWant): string | null {
+  if (wantsGraded(want)) {
+    const grade = want.gradeMinX10 != null ? `${want.gradeMinX10 / 10}+` : null;
+    return [want.grader ? want.grader.toUpperCase() : "Graded", grade].filter(Boolean).join(" ");
+  }
+  if (want.conditionMin) {
+    return want.conditionMin === "nm" ? "Near Mint" : `${CARD_CONDITION_LABELS[want.conditionMin]} or better`;
+  }
+  return null;
+}
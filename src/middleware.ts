@@ -6,9 +6,10 @@ import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
 /**
  * Protect ONLY what must be protected:
  * - Collection pages + APIs require auth
+ * - Admin pages require sign-in (roles are checked in the admin layout)
  * - Cart remains guest-safe
  */
-const isProtectedRoute = createRouteMatcher(["/collection(.*)", "/api/collection(.*)"]);
+const isProtectedRoute = createRouteMatcher(["/collection(.*)", "/api/collection(.*)", "/admin(.*)"]);
 
 /**
  * Always-public routes (never require auth, never get blocked).
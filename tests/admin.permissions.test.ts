@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import {
+  ADMIN_ROLES,
+  auditChanges,
+  can,
+  isAdminRole,
+  parseAdminEmails,
+  permissionsFor,
+} from "../src/lib/admin/permissions";
+
+describe("can", () => {
+  it("gives owners everything, including staff management", () => {
+    expect(can("owner", "staff:manage")).toBe(true);
+    expect(can("owner", "orders:refund")).toBe(true);
+  });
+
+  it("keeps staff management owner-only", () => {
+    for (const role of ADMIN_ROLES.filter((r) => r !== "owner")) {
+      expect(can(role, "staff:manage")).toBe(false);
+    }
+  });
+
+  it("lets fulfillment ship orders but not refund or touch prices and stock", () => {
+    expect(can("fulfillment", "orders:fulfill")).toBe(true);
+    expect(can("fulfillment", "orders:refund")).toBe(false);
+    expect(can("fulfillment", "catalog:write")).toBe(false);
+    expect(can("fulfillment", "stock:write")).toBe(false);
+  });
+
+  it("limits listing writers to copy and photos", () => {
+    expect(can("listing_writer", "listings:write")).toBe(true);
+    expect(can("listing_writer", "catalog:write")).toBe(false);
+    expect(can("listing_writer", "orders:read")).toBe(false);
+  });
+
+  it("denies everything without a role", () => {
+    expect(can(null, "catalog:read")).toBe(false);
+    expect(can(undefined, "catalog:read")).toBe(false);
+  });
+
+  it("gives every role catalog read access", () => {
+    for (const role of ADMIN_ROLES) expect(permissionsFor(role)).toContain("catalog:read");
+  });
+});
+
+describe("isAdminRole", () => {
+  it("accepts known roles only", () => {
+    expect(isAdminRole("manager")).toBe(true);
+    expect(isAdminRole("admin")).toBe(false);
+    expect(isAdminRole(null)).toBe(false);
+  });
+});
+
+describe("parseAdminEmails", () => {
+  it("splits, trims and lowercases", () => {
+    expect(parseAdminEmails(" Owner@Shop.com, ,b@x.io ")).toEqual(["owner@shop.com", "b@x.io"]);
+    expect(parseAdminEmails(undefined)).toEqual([]);
+  });
+});
+
+describe("auditChanges", () => {
+  it("records only fields that changed", () => {
+    const before = { title: "Pikachu", price_cents: 1000, condition: "NM" };
+    expect(auditChanges(before, { title: "Pikachu", price_cents: 1200 })).toEqual({
+      price_cents: { from: 1000, to: 1200 },
+    });
+  });
+
+  it("ignores fields missing from a partial update", () => {
+    expect(auditChanges({ price_cents: 1000 }, { price_cents: undefined, condition: "LP" })).toEqual({
+      condition: { from: null, to: "LP" },
+    });
+  });
+
+  it("treats a new record as changes from null", () => {
+    expect(auditChanges(null, { price_cents: 500 })).toEqual({ price_cents: { from: null, to: 500 } });
+  });
+
+  it("compares structured values by content", () => {
+    expect(auditChanges({ meta: { a: 1 } }, { meta: { a: 1 } })).toEqual({});
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  BACKOFF_MAX_SECONDS,
+  ListingBatchError,
+  MAX_ATTEMPTS,
+  MAX_BATCH_SIZE,
+  afterFailure,
+  batchIds,
+  copyDiff,
+  copyFromOutput,
+  diffWords,
+  retryDelaySeconds,
+} from "../src/lib/ai/listingBatchFlow";
+
+const now = new Date("2026-03-01T12:00:00Z");
+
+describe("retry backoff", () => {
+  it("doubles per attempt up to the cap", () => {
+    expect([1, 2, 3, 4].map(retryDelaySeconds)).toEqual([30, 60, 120, 240]);
+    expect(retryDelaySeconds(20)).toBe(BACKOFF_MAX_SECONDS);
+  });
+
+  it("requeues transient failures until attempts run out", () => {
+    const r = afterFailure(2, new Error("model timeout"), now);
+    expect(r.status).toBe("queued");
+    expect(r.nextAttemptAt?.toISOString()).toBe("2026-03-01T12:01:00.000Z");
+    expect(afterFailure(MAX_ATTEMPTS, new Error("model timeout"), now).status).toBe("failed");
+  });
+
+  it("gives up at once on errors retrying can't fix", () => {
+    const gone = new ListingBatchError("Product not found", "not_found", 404);
+    expect(afterFailure(1, gone, now)).toEqual({ status: "failed", nextAttemptAt: null });
+  });
+});
+
+describe("batchIds", () => {
+  it("trims and de-duplicates", () => {
+    expect(batchIds([" a ", "a", "b", ""])).toEqual(["a", "b"]);
+  });
+
+  it("rejects empty and oversized batches", () => {
+    expect(() => batchIds([])).toThrow(ListingBatchError);
+    expect(() => batchIds(Array.from({ length: MAX_BATCH_SIZE + 1 }, (_, i) => `id-${i}`))).toThrow(/at most/);
+  });
+});
+
+describe("diffWords", () => {
+  it("marks replaced words and rebuilds both sides", () => {
+    const parts = diffWords("Charizard Base Set holo", "Charizard Base Set Unlimited holo");
+    expect(parts).toEqual([
+      { op: "same", text: "Charizard Base Set " },
+      { op: "added", text: "Unlimited " },
+      { op: "same", text: "holo" },
+    ]);
+
+    const before = "NM card, light edge wear";
+    const after = "Near Mint card with light edge wear";
+    const d = diffWords(before, after);
+    expect(d.filter((p) => p.op !== "added").map((p) => p.text).join("")).toBe(before);
+    expect(d.filter((p) => p.op !== "removed").map((p) => p.text).join("")).toBe(after);
+  });
+});
+
+describe("copyDiff", () => {
+  const output = {
+    product: { subtitle: null },
+    copy: { shortTitle: "Charizard", listingTitle: "Charizard - Base Set 4/102", descriptionMd: "Holo rare." },
+  };
+
+  it("reads the fields apply-listing writes", () => {
+    expect(copyFromOutput(output)).toEqual({
+      title: "Charizard - Base Set 4/102",
+      subtitle: null,
+      description: "Holo rare.",
+    });
+  });
+
+  it("treats fields the model left empty as unchanged", () => {
+    const d = copyDiff(
+      { title: "Charizard - Base Set", subtitle: "Base Set", description: null },
+      copyFromOutput(output),
+    );
+    expect(d.map((f) => [f.field, f.changed])).toEqual([
+      ["title", true],
+      ["subtitle", false],
+      ["description", true],
+    ]);
+    expect(d[1].after).toBe("Base Set");
+    expect(d[2].parts).toEqual([{ op: "added", text: "Holo rare." }]);
+  });
+});
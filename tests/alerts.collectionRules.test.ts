@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeCollectionRule,
+  evaluateCollectionRule,
+  readCollectionRule,
+  readCollectionScope,
+  shouldNotifyCollection,
+  type ValuedItem,
+} from "../src/lib/alerts/collectionRules";
+import { AlertRuleError } from "../src/lib/alerts/rules";
+
+/** one point per day ending 2026-03-31, oldest first */
+function item(itemId: string, cents: number[], quantity = 1): ValuedItem {
+  const end = Date.UTC(2026, 2, 31);
+  return {
+    itemId,
+    cardName: itemId,
+    quantity,
+    points: cents.map((c, i) => ({
+      date: new Date(end - (cents.length - 1 - i) * 86_400_000).toISOString().slice(0, 10),
+      cents: c,
+    })),
+  };
+}
+
+describe("readCollectionScope / readCollectionRule", () => {
+  it("validates scopes", () => {
+    expect(readCollectionScope({ kind: "folder", folder: " Binder " })).toEqual({ kind: "folder", folder: "Binder" });
+    expect(() => readCollectionScope({ kind: "folder" })).toThrow(AlertRuleError);
+    expect(() => readCollectionScope({ kind: "shelf" })).toThrow(/Scope/);
+  });
+
+  it("defaults to week-over-week for value rules and a day for card moves", () => {
+    expect(readCollectionRule({ rule_type: "value_pct_down", params: { pct: 10 } })).toEqual({
+      ruleType: "value_pct_down",
+      pct: 10,
+      windowDays: 7,
+    });
+    const move = readCollectionRule({ rule_type: "item_move_usd", params: { amountUsd: 25 } });
+    expect(move.windowDays).toBe(1);
+    expect(describeCollectionRule(move)).toBe("Any card moves more than $25.00 in a day");
+  });
+});
+
+describe("evaluateCollectionRule", () => {
+  const drop = readCollectionRule({ rule_type: "value_pct_down", params: { pct: 10 } });
+
+  it("fires when the scope's value drops over the window", () => {
+    const res = evaluateCollectionRule(drop, [
+      item("a", [10000, 10000, 9000, 9000, 8800, 8700, 8600, 8500]),
+      item("b", [5000, 5000, 5000, 5000, 5000, 5000, 5000, 5000]),
+    ]);
+    expect(res?.firing).toBe(true);
+    expect(res?.metricPct).toBeCloseTo(-10);
+    expect(res?.valueCents).toBe(13500);
+  });
+
+  it("ignores cards added inside the window", () => {
+    const res = evaluateCollectionRule(drop, [
+      item("old", [10000, 10000, 10000, 10000, 10000, 10000, 10000, 10000]),
+      item("new", [500, 20000]),
+    ]);
+    expect(res?.firing).toBe(false);
+    expect(res?.valueCents).toBe(10000);
+  });
+
+  it("needs a base point to say anything", () => {
+    expect(evaluateCollectionRule(drop, [item("a", [100, 90])])).toBeNull();
+  });
+
+  it("finds per-copy card moves in either direction", () => {
+    const moves = readCollectionRule({ rule_type: "item_move_usd", params: { amountUsd: 25 } });
+    const res = evaluateCollectionRule(moves, [
+      item("up", [4000, 7000]),
+      item("quad", [40000, 36000], 4), // $100 -> $90 per copy
+      item("down", [10000, 6000]),
+    ]);
+    expect(res?.movers.map((m) => m.itemId)).toEqual(["down", "up"]);
+    expect(res?.detail).toContain("down $100.00 → $60.00");
+  });
+});
+
+describe("shouldNotifyCollection", () => {
+  const drop = readCollectionRule({ rule_type: "value_pct_down", params: { pct: 10 } });
+  const moves = readCollectionRule({ rule_type: "item_move_pct", params: { pct: 20 } });
+  const firing = { firing: true, asOf: "2026-03-31", valueCents: 1, metricPct: null, movers: [], detail: "" };
+
+  it("value rules notify when they start firing", () => {
+    expect(shouldNotifyCollection(drop, { firing: false, asOf: "2026-03-30" }, firing)).toBe(true);
+    expect(shouldNotifyCollection(drop, { firing: true, asOf: "2026-03-30" }, firing)).toBe(false);
+  });
+
+  it("card-move rules notify once per valuation day", () => {
+    expect(shouldNotifyCollection(moves, { firing: true, asOf: "2026-03-30" }, firing)).toBe(true);
+    expect(shouldNotifyCollection(moves, { firing: true, asOf: "2026-03-31" }, firing)).toBe(false);
+  });
+});
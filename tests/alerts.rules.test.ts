@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  AlertRuleError,
+  describeAlertRule,
+  evaluateAlertRule,
+  readAlertRule,
+  shouldNotify,
+  type PricePoint,
+} from "../src/lib/alerts/rules";
+
+/** one point per day ending 2026-03-31, oldest first */
+function daily(cents: number[]): PricePoint[] {
+  const end = Date.UTC(2026, 2, 31);
+  return cents.map((c, i) => ({
+    date: new Date(end - (cents.length - 1 - i) * 86_400_000).toISOString().slice(0, 10),
+    cents: c,
+  }));
+}
+
+describe("readAlertRule", () => {
+  it("keeps only the params a rule uses", () => {
+    expect(readAlertRule({ rule_type: "pct_up", params: { pct: 20, windowDays: 7, sources: ["ebay", "amazon"] } })).toEqual({
+      ruleType: "pct_up",
+      threshold: null,
+      params: { pct: 20, windowDays: 7 },
+    });
+    expect(readAlertRule({ rule_type: "below_ma", params: {} }).params).toEqual({ windowDays: 30 });
+  });
+
+  it("rejects bad rules", () => {
+    expect(() => readAlertRule({ rule_type: "sideways" })).toThrow(AlertRuleError);
+    expect(() => readAlertRule({ rule_type: "above", threshold: "" })).toThrow(/Threshold/);
+    expect(() => readAlertRule({ rule_type: "spread", params: { pct: 25, sources: ["ebay", "ebay"] } })).toThrow(
+      /two different/,
+    );
+  });
+
+  it("describes rules in words", () => {
+    expect(describeAlertRule(readAlertRule({ rule_type: "pct_up", params: { pct: 20, windowDays: 7 } }))).toBe(
+      "Up 20% in 7 days",
+    );
+    expect(describeAlertRule(readAlertRule({ rule_type: "spread", params: { pct: 25 } }))).toBe(
+      "TCGplayer vs Cardmarket spread over 25%",
+    );
+  });
+});
+
+describe("evaluateAlertRule", () => {
+  it("measures % moves from the price at the start of the window", () => {
+    const up = readAlertRule({ rule_type: "pct_up", params: { pct: 20, windowDays: 7 } });
+    const series = daily([1000, 1000, 1100, 1100, 1150, 1180, 1190, 1250]);
+
+    const res = evaluateAlertRule(up, { series });
+    expect(res?.firing).toBe(true);
+    expect(res?.metricPct).toBeCloseTo(25);
+
+    // 7 days back is the window's start; not enough history = no opinion
+    expect(evaluateAlertRule(up, { series: series.slice(2) })).toBeNull();
+
+    const down = readAlertRule({ rule_type: "pct_down", params: { pct: 20, windowDays: 7 } });
+    expect(evaluateAlertRule(down, { series })?.firing).toBe(false);
+  });
+
+  it("compares against the moving average of the prior days", () => {
+    const below = readAlertRule({ rule_type: "below_ma", params: { windowDays: 5 } });
+    const res = evaluateAlertRule(below, { series: daily([1000, 1000, 1000, 1000, 1000, 900]) });
+    expect(res?.firing).toBe(true);
+    expect(res?.metricPct).toBeCloseTo(-10);
+  });
+
+  it("flags spreads between sources and skips missing ones", () => {
+    const spread = readAlertRule({ rule_type: "spread", params: { pct: 25 } });
+    expect(evaluateAlertRule(spread, { series: [], sources: { tcgplayer: 1300, cardmarket: 1000 } })?.firing).toBe(true);
+    expect(evaluateAlertRule(spread, { series: [], sources: { tcgplayer: 1200, cardmarket: 1000 } })?.firing).toBe(false);
+    expect(evaluateAlertRule(spread, { series: [], sources: { tcgplayer: 1300 } })).toBeNull();
+  });
+
+  it("spots a new all-time high", () => {
+    const ath = readAlertRule({ rule_type: "all_time_high" });
+    expect(evaluateAlertRule(ath, { series: daily([1500, 900, 1400, 1600]) })?.firing).toBe(true);
+    expect(evaluateAlertRule(ath, { series: daily([1500, 900, 1400]) })?.firing).toBe(false);
+  });
+
+  it("keeps fixed thresholds working", () => {
+    const above = readAlertRule({ rule_type: "above", threshold: 12.5 });
+    expect(evaluateAlertRule(above, { series: daily([1200, 1300]) })?.firing).toBe(true);
+  });
+});
+
+describe("shouldNotify", () => {
+  const pctUp = readAlertRule({ rule_type: "pct_up", params: { pct: 20, windowDays: 7 } });
+  const ath = readAlertRule({ rule_type: "all_time_high" });
+  const firing = { firing: true, priceCents: 1600, metricPct: null, detail: "" };
+
+  it("notifies when a rule starts firing, not while it stays true", () => {
+    expect(shouldNotify(pctUp, { firing: false, priceCents: null }, firing)).toBe(true);
+    expect(shouldNotify(pctUp, { firing: true, priceCents: 1500 }, firing)).toBe(false);
+    expect(shouldNotify(pctUp, { firing: false, priceCents: null }, null)).toBe(false);
+  });
+
+  it("notifies on each higher all-time high", () => {
+    expect(shouldNotify(ath, { firing: true, priceCents: 1500 }, firing)).toBe(true);
+    expect(shouldNotify(ath, { firing: true, priceCents: 1600 }, firing)).toBe(false);
+  });
+});
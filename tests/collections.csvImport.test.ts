@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectImportSource,
+  normalizeCardNumber,
+  normalizeImportVariant,
+  parseCollectionCsv,
+} from "../src/lib/collections/csvImport";
+
+describe("collection CSV import", () => {
+  it("detects the exporting app from the header row", () => {
+    expect(detectImportSource(["Quantity", "Name", "Simple Name", "Set", "Product ID"])).toBe("tcgplayer");
+    expect(detectImportSource(["Count", "Tradelist Count", "Name", "Edition", "Card Number", "Foil"])).toBe("deckbox");
+    expect(detectImportSource(["Count", "Name", "Edition", "Collector Number", "Purchase Price"])).toBe("moxfield");
+    expect(detectImportSource(["Folder Name", "Quantity", "Card Name", "Set Code"])).toBe("dragonshield");
+    expect(detectImportSource(["name", "set", "qty"])).toBe("generic");
+  });
+
+  it("maps TCGplayer rows, including product line and printing", () => {
+    const csv = [
+      "Quantity,Name,Simple Name,Set,Card Number,Set Code,Printing,Condition,Language,Product Line,Product ID,Price",
+      "2,Charizard (Holo),Charizard,Base Set,004/102,BS,Holofoil,Near Mint,English,Pokemon,42382,350.00",
+    ].join("\n");
+
+    const r = parseCollectionCsv(csv);
+    expect(r.ok).toBe(true);
+    if (!r.ok) return;
+
+    expect(r.source).toBe("tcgplayer");
+    expect(r.rows[0]).toMatchObject({
+      line: 2,
+      game: "pokemon",
+      name: "Charizard",
+      setCode: "BS",
+      setName: "Base Set",
+      number: "4",
+      quantity: 2,
+      variant: "holofoil",
+      tcgplayerId: 42382,
+      // market price is not a cost basis
+      costCents: null,
+    });
+  });
+
+  it("handles Dragon Shield's sep= line, folders, cost and dates", () => {
+    const csv = [
+      "sep=,",
+      "Folder Name,Quantity,Trade Quantity,Card Name,Set Code,Set Name,Card Number,Condition,Printing,Language,Price Bought,Date Bought",
+      "Binder A,3,0,Lightning Bolt,M11,Magic 2011,149,NearMint,Foil,English,1.25,2023-05-01",
+      "Binder A,0,0,Shock,M19,Core Set 2019,156,NearMint,Normal,English,0.10,2023-05-01",
+    ].join("\r\n");
+
+    const r = parseCollectionCsv(csv);
+    expect(r.ok).toBe(true);
+    if (!r.ok) return;
+
+    expect(r.source).toBe("dragonshield");
+    expect(r.rows).toHaveLength(1);
+    expect(r.rows[0]).toMatchObject({
+      line: 3,
+      folder: "Binder A",
+      setCode: "M11",
+      number: "149",
+      variant: "holofoil",
+      costCents: 125,
+      purchaseDate: "2023-05-01",
+    });
+    expect(r.skipped).toEqual([{ line: 4, reason: "Quantity is 0 or not a number" }]);
+  });
+
+  it("reads Moxfield's Edition as a set code", () => {
+    const csv = 'Count,Tradelist Count,Name,Edition,Condition,Language,Foil,Collector Number,Purchase Price\n1,0,"Delver of Secrets // Insectile Aberration",isd,NM,English,foil,51,"$4.00"';
+    const r = parseCollectionCsv(csv);
+    expect(r.ok && r.rows[0]).toMatchObject({
+      name: "Delver of Secrets // Insectile Aberration",
+      setCode: "isd",
+      setName: null,
+      number: "51",
+      variant: "holofoil",
+      costCents: 400,
+    });
+  });
+
+  it("rejects files without a name column", () => {
+    const r = parseCollectionCsv("foo,bar\n1,2");
+    expect(r.ok).toBe(false);
+    if (!r.ok) expect(r.error).toBe("missing_columns");
+  });
+
+  it("normalizes printings and card numbers", () => {
+    expect(normalizeImportVariant("Reverse Holofoil")).toBe("reverse_holofoil");
+    expect(normalizeImportVariant("1st Edition Holofoil")).toBe("first_edition");
+    expect(normalizeImportVariant("", "etched")).toBe("holofoil");
+    expect(normalizeImportVariant("", "")).toBe("normal");
+    expect(normalizeCardNumber("TG01/TG30")).toBe("TG01");
+    expect(normalizeCardNumber("LOB-EN001")).toBe("LOB-EN001");
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { renderCollectionExport, type CollectionExportItem } from "../src/lib/collections/exportFormats";
+import { parseCollectionFile } from "../src/lib/collections/csvImport";
+
+function item(over: Partial<CollectionExportItem>): CollectionExportItem {
+  return {
+    game: "mtg",
+    cardId: "id",
+    cardName: null,
+    setName: null,
+    setCode: null,
+    number: null,
+    variant: "normal",
+    gradingCompany: null,
+    gradeLabel: null,
+    certNumber: null,
+    quantity: 1,
+    folder: null,
+    costCents: null,
+    purchaseDate: null,
+    lastValueCents: null,
+    imageUrl: null,
+    tcgplayerId: null,
+    mtgoId: null,
+    mtgoFoilId: null,
+    ygoType: null,
+    ...over,
+  };
+}
+
+const BOLT = item({ cardId: "bolt", cardName: "Lightning Bolt", setCode: "m11", number: "149", quantity: 2, mtgoId: 38600 });
+const BOLT_BINDER = item({ ...BOLT, folder: "Binder", quantity: 1 });
+const BOLT_FOIL = item({ ...BOLT, variant: "holofoil", quantity: 1, mtgoFoilId: 38601 });
+const ZAP = item({ cardId: "zap", cardName: "Zap", quantity: 1 });
+const PIKA = item({ game: "pokemon", cardId: "base1-58", cardName: "Pikachu", setCode: "BS", number: "58" });
+
+describe("collection export formats", () => {
+  it("writes Moxfield and Archidekt text, merging folders and flagging foils", () => {
+    const mox = renderCollectionExport("moxfield", [BOLT, BOLT_BINDER, BOLT_FOIL, PIKA]);
+    expect(mox.body).toBe("3 Lightning Bolt (M11) 149\n1 Lightning Bolt (M11) 149 *F*\n");
+    expect(mox.skipped).toBe(1);
+
+    const arch = renderCollectionExport("archidekt", [BOLT]);
+    expect(arch.body).toBe("2x Lightning Bolt (m11) 149\n");
+  });
+
+  it("writes TCGplayer mass entry for every game", () => {
+    const r = renderCollectionExport("tcgplayer", [BOLT, PIKA, ZAP]);
+    expect(r.body).toBe("2 Lightning Bolt [M11]\n1 Pikachu [BS]\n1 Zap\n");
+  });
+
+  it("writes MTGO .dek using the foil CatID for foils and skips cards without one", () => {
+    const r = renderCollectionExport("mtgo", [BOLT, BOLT_FOIL, ZAP]);
+    expect(r.body).toContain('<Cards CatID="38600" Quantity="2" Sideboard="false" Name="Lightning Bolt" Annotation="0" />');
+    expect(r.body).toContain('CatID="38601" Quantity="1"');
+    expect(r.exported).toBe(2);
+    expect(r.skipped).toBe(1);
+  });
+
+  it("writes .ydk with extra-deck monsters split out", () => {
+    const r = renderCollectionExport("ydk", [
+      item({ game: "yugioh", cardId: "89631139", quantity: 2, ygoType: "Normal Monster" }),
+      item({ game: "yugioh", cardId: "44508094", quantity: 1, ygoType: "Synchro Monster" }),
+    ]);
+    expect(r.body).toBe("#created by Legendary Collectibles\n#main\n89631139\n89631139\n#extra\n44508094\n!side\n");
+  });
+
+  it("round-trips the JSON backup through the importer", () => {
+    const graded = item({
+      game: "pokemon",
+      cardId: "base1-4",
+      cardName: "Charizard",
+      gradingCompany: "PSA",
+      gradeLabel: "PSA 9",
+      certNumber: "12345678",
+      folder: "Vault",
+      costCents: 25000,
+      purchaseDate: "2021-03-04",
+      variant: "first_edition",
+    });
+    const json = renderCollectionExport("json", [graded, BOLT], { exportedAt: "2025-01-01T00:00:00.000Z" });
+
+    const parsed = parseCollectionFile(json.body);
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+
+    expect(parsed.source).toBe("json");
+    expect(parsed.rows[0]).toMatchObject({
+      game: "pokemon",
+      cardId: "base1-4",
+      variant: "first_edition",
+      gradingCompany: "PSA",
+      gradeLabel: "PSA 9",
+      certNumber: "12345678",
+      folder: "Vault",
+      costCents: 25000,
+      purchaseDate: "2021-03-04",
+      quantity: 1,
+    });
+    expect(parsed.rows[1]).toMatchObject({ game: "mtg", cardId: "bolt", quantity: 2, setCode: "m11", number: "149" });
+  });
+});
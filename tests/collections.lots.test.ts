@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { allocateLots, holdingTerm, splitCents, type AcquisitionLot } from "../src/lib/collections/lots";
+
+const LOTS: AcquisitionLot[] = [
+  { itemId: "b", quantity: 2, costEachCents: 500, acquiredAt: "2024-06-01" },
+  { itemId: "a", quantity: 3, costEachCents: 100, acquiredAt: "2023-01-15" },
+];
+
+describe("collection lot matching", () => {
+  it("FIFO takes the oldest lot first and spills into the next", () => {
+    const r = allocateLots(LOTS, 4, "fifo");
+    expect(r.ok && r.allocations).toEqual([
+      { itemId: "a", quantity: 3, costEachCents: 100, acquiredAt: "2023-01-15" },
+      { itemId: "b", quantity: 1, costEachCents: 500, acquiredAt: "2024-06-01" },
+    ]);
+  });
+
+  it("LIFO takes the newest lot first", () => {
+    const r = allocateLots(LOTS, 1, "lifo");
+    expect(r.ok && r.allocations.map((a) => a.itemId)).toEqual(["b"]);
+  });
+
+  it("specific-ID must cover the sale quantity exactly", () => {
+    expect(allocateLots(LOTS, 2, "specific", [{ itemId: "b", quantity: 2 }]).ok).toBe(true);
+
+    const short = allocateLots(LOTS, 2, "specific", [{ itemId: "b", quantity: 1 }]);
+    expect(short.ok).toBe(false);
+    if (!short.ok) expect(short.error).toBe("lot_mismatch");
+
+    const over = allocateLots(LOTS, 3, "specific", [{ itemId: "b", quantity: 3 }]);
+    expect(!over.ok && over.error).toBe("insufficient_quantity");
+  });
+
+  it("rejects selling more copies than owned", () => {
+    const r = allocateLots(LOTS, 6, "fifo");
+    expect(!r.ok && r.error).toBe("insufficient_quantity");
+  });
+
+  it("long-term only after more than one year", () => {
+    expect(holdingTerm("2023-01-15", "2024-01-15")).toBe("short");
+    expect(holdingTerm("2023-01-15", "2024-01-16")).toBe("long");
+  });
+
+  it("splitCents always sums back to the total", () => {
+    expect(splitCents(1000, [1, 1, 1])).toEqual([334, 333, 333]);
+    expect(splitCents(0, [2, 1])).toEqual([0, 0]);
+  });
+});
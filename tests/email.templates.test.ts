@@ -41,6 +41,25 @@ describe("Email templates", () => {
     expect(s.html).toContain("misty@example.com");
   });
 
+  it("savedSearchMatchesTemplate lists matches with absolute links", async () => {
+    const { savedSearchMatchesTemplate } = await import("../src/emails/templates");
+
+    const t = savedSearchMatchesTemplate({
+      searchName: "PSA 10 Charizard",
+      matches: [
+        { title: "Charizard <PSA 10>", subtitle: "pokemon · single", href: "/products/charizard-psa-10", priceCents: 125000 },
+      ],
+      moreCount: 2,
+    });
+
+    expect(t.subject).toContain("3 new matches");
+    expect(t.subject).toContain("PSA 10 Charizard");
+    expect(t.text).toContain("https://www.legendary-collectibles.com/products/charizard-psa-10");
+    expect(t.text).toContain("$1250.00");
+    expect(t.html).toContain("Charizard &lt;PSA 10&gt;");
+    expect(t.html).toContain("and 2 more");
+  });
+
   it("Email.renderHtml wraps content in our branded layout", async () => {
     const { Email } = await import("../src/lib/email");
     const html = Email.renderHtml("Title", "<p>Body</p>");
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { createFxTable, formatUsdCents, fxDate, normalizeFxCurrency, type FxRate } from "../src/lib/fx/table";
+import { blendQuotes } from "../src/lib/valuations/blend";
+
+const rates: FxRate[] = [
+  { currency: "EUR", date: "2026-01-01", usdPerUnit: 1.1 },
+  { currency: "EUR", date: "2026-02-01", usdPerUnit: 1.2 },
+  { currency: "JPY", date: "2026-01-01", usdPerUnit: 0.0065 },
+];
+
+describe("createFxTable", () => {
+  const fx = createFxTable(rates, { GBP: 1.25, EUR: 9 });
+
+  it("uses the last rate on or before the date", () => {
+    expect(fx.rate("EUR", "2026-01-15")).toBe(1.1);
+    expect(fx.rate("EUR", "2026-02-01")).toBe(1.2);
+    expect(fx.rate("eur", "2026-03-10T12:00:00Z")).toBe(1.2);
+  });
+
+  it("uses the newest rate when undated and the first before history starts", () => {
+    expect(fx.rate("EUR")).toBe(1.2);
+    expect(fx.rate("EUR", "2025-06-01")).toBe(1.1);
+  });
+
+  it("falls back to the fixed rate only for currencies with no history", () => {
+    expect(fx.rate("GBP", "2026-01-15")).toBe(1.25);
+    expect(fx.rate("CAD")).toBeNull();
+    expect(fx.rate("XYZ")).toBeNull();
+    expect(fx.rate("USD")).toBe(1);
+  });
+
+  it("converts between currencies through USD on the same date", () => {
+    expect(fx.toUsd(100, "EUR", "2026-01-20")).toBeCloseTo(110, 6);
+    expect(fx.fromUsd(120, "EUR", "2026-02-20")).toBeCloseTo(100, 6);
+    expect(fx.convert(100, "EUR", "JPY", "2026-01-20")).toBeCloseTo(110 / 0.0065, 4);
+    expect(fx.convert(5, "AUD", "AUD")).toBe(5);
+    expect(fx.convert(5, "EUR", "CAD")).toBeNull();
+  });
+});
+
+describe("helpers", () => {
+  it("normalizes currencies and dates", () => {
+    expect(normalizeFxCurrency(" gbp ")).toBe("GBP");
+    expect(normalizeFxCurrency("BTC")).toBeNull();
+    expect(fxDate("2026-03-01T23:00:00Z")).toBe("2026-03-01");
+    expect(fxDate(null)).toBeNull();
+    expect(fxDate("not a date")).toBeNull();
+  });
+
+  it("formats USD cents in the display currency, or USD without a rate", () => {
+    const fx = createFxTable(rates);
+    expect(formatUsdCents(fx, "JPY", 650, "2026-01-10")).toBe("¥1,000");
+    expect(formatUsdCents(fx, "CAD", 1234)).toBe("$12.34");
+    expect(formatUsdCents(fx, "EUR", null)).toBe("—");
+  });
+});
+
+describe("blending with dated rates", () => {
+  it("converts each quote at the rate on its own date", () => {
+    const fx = createFxTable(rates);
+    const v = blendQuotes(
+      [{ source: "cardmarket", label: "cardmarket.trend", amount: 10, currency: "EUR", asOf: "2026-01-20T00:00:00Z" }],
+      { toUsd: fx.toUsd, now: new Date("2026-03-01T00:00:00Z") },
+    )!;
+    expect(v.valueUsd).toBe(11);
+  });
+});
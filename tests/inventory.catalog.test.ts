@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import {
+  CatalogError,
+  listingFromItem,
+  listingStatusFor,
+  slugify,
+  type CatalogItem,
+} from "../src/lib/inventory/catalogFlow";
+
+const base: CatalogItem = {
+  id: "8c1f2a34-0000-4000-8000-000000000001",
+  sku: "INV-ABC123",
+  title: "Charizard - Base Set",
+  game: "pokemon",
+  condition: "Near Mint",
+  priceCents: 45000,
+  meta: { cardId: "base1-4", setName: "Base Set" },
+};
+
+describe("listingFromItem", () => {
+  it("maps a raw single onto a stock listing", () => {
+    const l = listingFromItem(base);
+    expect(l).toMatchObject({
+      title: "Charizard - Base Set",
+      slug: "charizard-base-set-inv-abc123",
+      game: "pokemon",
+      format: "single",
+      inventoryType: "stock",
+      isGraded: false,
+      condition: "nm",
+      priceCents: 45000,
+      sourceCardId: "base1-4",
+      subtitle: "Base Set",
+    });
+  });
+
+  it("lists a graded slab as a one-of-one", () => {
+    const l = listingFromItem({ ...base, meta: { grader: "PSA", grade: "9.5" } });
+    expect(l).toMatchObject({ isGraded: true, grader: "psa", gradeX10: 95, inventoryType: "unique", condition: null });
+  });
+
+  it("lets meta override the inferred game, format and inventory type", () => {
+    const l = listingFromItem({
+      ...base,
+      game: "sealed",
+      meta: { productGame: "mtg", format: "bundle", inventoryType: "infinite" },
+    });
+    expect(l).toMatchObject({ game: "mtg", format: "bundle", inventoryType: "infinite", sealed: true });
+  });
+
+  it("falls back for inventory games the shop has no enum value for", () => {
+    expect(listingFromItem({ ...base, game: "supplies", meta: null })).toMatchObject({
+      game: "collectibles",
+      format: "accessory",
+    });
+    expect(listingFromItem({ ...base, game: "sealed", meta: null }).format).toBe("box");
+  });
+
+  it("carries copy kept in meta onto the listing", () => {
+    const l = listingFromItem({
+      ...base,
+      meta: { setName: "Base Set", subtitle: "Base Set · Holo Rare", description: "Unlimited print." },
+    });
+    expect(l).toMatchObject({ subtitle: "Base Set · Holo Rare", description: "Unlimited print." });
+    expect(listingFromItem(base).description).toBeNull();
+  });
+
+  it("uses the item id in the slug when there is no SKU", () => {
+    expect(listingFromItem({ ...base, sku: null }).slug).toBe("charizard-base-set-8c1f2a34");
+  });
+
+  it("refuses items without a title or price", () => {
+    expect(() => listingFromItem({ ...base, title: "  " })).toThrow(CatalogError);
+    expect(() => listingFromItem({ ...base, priceCents: 0 })).toThrow(/price/);
+  });
+});
+
+describe("listingStatusFor", () => {
+  it("follows the item's status", () => {
+    expect(listingStatusFor("live")).toBe("active");
+    expect(listingStatusFor("draft")).toBe("draft");
+    expect(listingStatusFor("archived")).toBe("archived");
+  });
+});
+
+describe("slugify", () => {
+  it("strips accents and punctuation", () => {
+    expect(slugify("Pokémon — Évolutions!")).toBe("pokemon-evolutions");
+  });
+});
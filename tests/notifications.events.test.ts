@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  notificationKindLabel,
+  orderNotification,
+  refundNotification,
+  tradeHref,
+  tradeNotification,
+  wishlistStockNotification,
+} from "../src/lib/notifications/events";
+
+describe("tradeNotification", () => {
+  it("names the other trader and links to the offer", () => {
+    const n = tradeNotification("countered", { offerId: "abc-123", actorHandle: "misty" });
+    expect(n.kind).toBe("trade");
+    expect(n.title).toBe("@misty countered your offer");
+    expect(n.href).toBe("/trade#offer-abc-123");
+    expect(n.data).toEqual({ offerId: "abc-123", event: "countered" });
+  });
+
+  it("falls back when the trader has no handle", () => {
+    expect(tradeNotification("offered", { offerId: "x", actorHandle: null }).title).toBe("New trade offer from A trader");
+    expect(tradeHref("a b")).toBe("/trade#offer-a%20b");
+  });
+});
+
+describe("orderNotification", () => {
+  const base = {
+    orderId: "0f3c2a9e-1111-2222-3333-444444444444",
+    totalCents: 1234,
+    currency: "usd",
+    stripeSessionId: "cs_test_1",
+  };
+
+  it("uses a short order reference and links to the receipt", () => {
+    const n = orderNotification({ ...base, status: "paid" });
+    expect(n.title).toBe("Order #0F3C2A9E confirmed");
+    expect(n.body).toContain("USD $12.34");
+    expect(n.href).toBe("/checkout/success?session_id=cs_test_1");
+    expect(n.data).toEqual({ orderId: base.orderId, status: "paid" });
+  });
+
+  it("appends detail and omits the link without a session", () => {
+    const n = orderNotification({ ...base, status: "fulfilled", stripeSessionId: null, detail: "Tracking: 1Z999." });
+    expect(n.body).toBe("Your order is on its way. Tracking: 1Z999.");
+    expect(n.href).toBeNull();
+  });
+});
+
+describe("refundNotification", () => {
+  const base = {
+    orderId: "0f3c2a9e-1111-2222-3333-444444444444",
+    totalCents: 5000,
+    currency: "usd",
+    stripeSessionId: null,
+  };
+
+  it("labels a partial refund with its amount and keys it by refund", () => {
+    const n = refundNotification({ ...base, refundId: "re_1", amountCents: 1500, refundedCents: 1500 });
+    expect(n.title).toBe("Partial refund on order #0F3C2A9E");
+    expect(n.body).toBe("USD $15.00 was refunded to your original payment method (USD $15.00 of USD $50.00 so far).");
+    expect(n.data).toEqual({ orderId: base.orderId, status: "partially_refunded", refundId: "re_1", amountCents: 1500 });
+  });
+
+  it("calls it refunded once the refunds cover the total", () => {
+    const n = refundNotification({ ...base, refundId: "re_2", amountCents: 3500, refundedCents: 5000 });
+    expect(n.title).toBe("Order #0F3C2A9E refunded");
+    expect(n.body).toBe("USD $35.00 was refunded to your original payment method.");
+    expect(n.data).toMatchObject({ status: "refunded", refundId: "re_2" });
+  });
+});
+
+describe("wishlistStockNotification / labels", () => {
+  it("formats the listing and price", () => {
+    const n = wishlistStockNotification({ cardName: "Charizard", title: "Charizard Base Set", href: "/products/x", priceCents: 50000 });
+    expect(n.title).toBe("Charizard is in stock");
+    expect(n.body).toBe("Charizard Base Set — $500.00");
+    expect(wishlistStockNotification({ cardName: "A", title: "A foil", href: null, priceCents: null }).body).toBe("A foil");
+  });
+
+  it("labels unknown kinds generically", () => {
+    expect(notificationKindLabel("price_alert")).toBe("Price alert");
+    expect(notificationKindLabel("something_new")).toBe("Notification");
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_NOTIFICATION_PREFS,
+  NotificationError,
+  deliveryTiming,
+  describeCooldown,
+  externalChannels,
+  inCooldown,
+  isDigestDue,
+  isQuietTime,
+  mergePrefs,
+  readPrefsPatch,
+  validateWebhookUrl,
+} from "../src/lib/notifications/policy";
+
+const HOUR = 3_600_000;
+
+describe("validateWebhookUrl", () => {
+  it("only accepts Discord webhook URLs for Discord", () => {
+    expect(validateWebhookUrl("https://discord.com/api/webhooks/1/abc", "discord")).toBe(
+      "https://discord.com/api/webhooks/1/abc",
+    );
+    expect(() => validateWebhookUrl("https://example.com/api/webhooks/1/abc", "discord")).toThrow(NotificationError);
+  });
+
+  it("rejects non-https and private addresses for generic webhooks", () => {
+    expect(validateWebhookUrl("https://hooks.example.com/x", "webhook")).toBe("https://hooks.example.com/x");
+    expect(() => validateWebhookUrl("http://hooks.example.com/x", "webhook")).toThrow(/https/);
+    for (const url of ["https://localhost/x", "https://127.0.0.1/x", "https://10.0.0.5/x", "https://192.168.1.2/x"]) {
+      expect(() => validateWebhookUrl(url, "webhook")).toThrow(/public/);
+    }
+  });
+});
+
+describe("readPrefsPatch / mergePrefs", () => {
+  it("only returns the keys that were sent", () => {
+    expect(readPrefsPatch({ digest: "Daily", quietStart: "22", quietEnd: 7 })).toEqual({
+      digest: "daily",
+      quietStart: 22,
+      quietEnd: 7,
+    });
+    expect(readPrefsPatch({ discordWebhookUrl: "" })).toEqual({ discordWebhookUrl: null });
+  });
+
+  it("validates hours, time zones and digests", () => {
+    expect(() => readPrefsPatch({ quietStart: 24 })).toThrow(NotificationError);
+    expect(() => readPrefsPatch({ timezone: "Mars/Olympus" })).toThrow(/time zone/);
+    expect(() => readPrefsPatch({ digest: "hourly" })).toThrow(/digest/);
+  });
+
+  it("won't enable a webhook channel without a URL", () => {
+    expect(() => mergePrefs(DEFAULT_NOTIFICATION_PREFS, { discordEnabled: true })).toThrow(/Discord/);
+  });
+});
+
+describe("timing", () => {
+  // 2026-06-01 03:30 UTC = 23:30 the day before in New York (EDT)
+  const now = new Date(Date.UTC(2026, 5, 1, 3, 30));
+
+  it("evaluates quiet hours in the user's time zone, wrapping midnight", () => {
+    const prefs = { quietStart: 22, quietEnd: 7, timezone: "America/New_York" };
+    expect(isQuietTime(prefs, now)).toBe(true);
+    expect(isQuietTime({ ...prefs, timezone: "UTC" }, now)).toBe(true);
+    expect(isQuietTime({ ...prefs, timezone: "Asia/Tokyo" }, now)).toBe(false); // 12:30
+    expect(isQuietTime({ ...prefs, quietEnd: 22 }, now)).toBe(false);
+  });
+
+  it("holds digests until a period after the last one", () => {
+    expect(isDigestDue("daily", null, now)).toBe(true);
+    expect(isDigestDue("daily", new Date(now.getTime() - 12 * HOUR), now)).toBe(false);
+    expect(isDigestDue("daily", new Date(now.getTime() - 23.5 * HOUR), now)).toBe(true);
+    expect(isDigestDue("weekly", new Date(now.getTime() - 48 * HOUR), now)).toBe(false);
+  });
+
+  it("holds instant notifications only during quiet hours", () => {
+    const prefs = { ...DEFAULT_NOTIFICATION_PREFS, quietStart: 1, quietEnd: 6 };
+    expect(deliveryTiming(prefs, null, now)).toBe("hold");
+    expect(deliveryTiming({ ...prefs, quietStart: null }, null, now)).toBe("now");
+  });
+
+  it("applies per-alert cooldowns from last_triggered_at", () => {
+    const last = new Date(now.getTime() - 5 * HOUR).toISOString();
+    expect(inCooldown(last, 24, now)).toBe(true);
+    expect(inCooldown(last, 4, now)).toBe(false);
+    expect(inCooldown(null, 24, now)).toBe(false);
+    expect(inCooldown(last, 0, now)).toBe(false);
+    expect(describeCooldown(72)).toBe("Every 3 days");
+  });
+});
+
+describe("externalChannels", () => {
+  it("skips channels without a URL", () => {
+    expect(externalChannels({ ...DEFAULT_NOTIFICATION_PREFS, discordEnabled: true })).toEqual(["email"]);
+    expect(
+      externalChannels({ ...DEFAULT_NOTIFICATION_PREFS, emailEnabled: false, webhookEnabled: true, webhookUrl: "https://x.io" }),
+    ).toEqual(["webhook"]);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import {
+  FulfillmentError,
+  buildPickList,
+  formatAddressLines,
+  nextStages,
+  readFulfillmentUpdate,
+  trackingUrl,
+} from "../src/lib/orders/fulfillmentFlow";
+
+const fresh = { stage: "unfulfilled" as const, carrier: null, trackingNumber: null, note: null };
+
+describe("readFulfillmentUpdate", () => {
+  it("moves forward and skips stages", () => {
+    expect(readFulfillmentUpdate({ stage: "picked" }, fresh).stage).toBe("picked");
+    expect(readFulfillmentUpdate({ stage: "Packed" }, fresh).stage).toBe("packed");
+    expect(nextStages("packed")).toEqual(["shipped", "delivered"]);
+  });
+
+  it("refuses to go backwards but allows editing the current stage", () => {
+    const packed = { ...fresh, stage: "packed" as const };
+    expect(() => readFulfillmentUpdate({ stage: "picked" }, packed)).toThrow(FulfillmentError);
+    expect(readFulfillmentUpdate({ note: "  fragile  " }, packed)).toMatchObject({ stage: "packed", note: "fragile" });
+  });
+
+  it("needs a carrier and tracking number to ship", () => {
+    expect(() => readFulfillmentUpdate({ stage: "shipped" }, fresh)).toThrow(/tracking/);
+    expect(() => readFulfillmentUpdate({ stage: "shipped", carrier: "pigeon", trackingNumber: "1Z999" }, fresh)).toThrow(
+      /carrier/,
+    );
+    expect(readFulfillmentUpdate({ stage: "shipped", carrier: "UPS", trackingNumber: "1z 999 aa1" }, fresh)).toMatchObject({
+      carrier: "ups",
+      trackingNumber: "1Z999AA1",
+    });
+  });
+});
+
+describe("paperwork helpers", () => {
+  it("links known carriers only", () => {
+    expect(trackingUrl("usps", "9400 1")).toBe("https://tools.usps.com/go/TrackConfirmAction?tLabels=9400%201");
+    expect(trackingUrl("other", "X1")).toBeNull();
+    expect(trackingUrl(null, "X1")).toBeNull();
+  });
+
+  it("formats Stripe addresses", () => {
+    expect(
+      formatAddressLines({ line1: "1 Main St", line2: null, city: "Austin", state: "TX", postal_code: "78701", country: "US" }),
+    ).toEqual(["1 Main St", "Austin, TX 78701", "US"]);
+    expect(formatAddressLines(null)).toEqual([]);
+  });
+
+  it("merges the same product across orders", () => {
+    const lines = buildPickList([
+      { orderId: "o1", productId: "p1", title: "Charizard", qty: 1 },
+      { orderId: "o2", productId: "p1", title: "Charizard", qty: 2 },
+      { orderId: "o2", productId: null, title: "Booster Box", qty: 1 },
+    ]);
+    expect(lines).toEqual([
+      { productId: null, title: "Booster Box", qty: 1, orderIds: ["o2"] },
+      { productId: "p1", title: "Charizard", qty: 3, orderIds: ["o1", "o2"] },
+    ]);
+  });
+});
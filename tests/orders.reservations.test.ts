@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  RESERVATION_GRACE_MINUTES,
+  RESERVATION_TTL_MINUTES,
+  ReservationError,
+  availableQty,
+  linesToReserve,
+  reservationWindow,
+  type ReservableProduct,
+} from "../src/lib/orders/reservationsFlow";
+
+const single: ReservableProduct = {
+  productId: "p1",
+  title: "Charizard PSA 10",
+  inventoryType: "unique",
+  quantity: 1,
+  heldQty: 0,
+};
+const packs: ReservableProduct = {
+  productId: "p2",
+  title: "Booster pack",
+  inventoryType: "stock",
+  quantity: 5,
+  heldQty: 2,
+};
+const supplies: ReservableProduct = {
+  productId: "p3",
+  title: "Sleeves",
+  inventoryType: "infinite",
+  quantity: 0,
+  heldQty: 0,
+};
+
+describe("availableQty", () => {
+  it("subtracts what other checkouts hold", () => {
+    expect(availableQty(packs)).toBe(3);
+    expect(availableQty({ ...packs, heldQty: 9 })).toBe(0);
+  });
+
+  it("never lets a one-of-one sell twice", () => {
+    expect(availableQty(single)).toBe(1);
+    expect(availableQty({ ...single, quantity: 3 })).toBe(1);
+    expect(availableQty({ ...single, heldQty: 1 })).toBe(0);
+  });
+
+  it("has no limit for infinite listings", () => {
+    expect(availableQty(supplies)).toBeNull();
+  });
+});
+
+describe("linesToReserve", () => {
+  it("merges lines per product and leaves infinite listings out", () => {
+    expect(
+      linesToReserve(
+        [
+          { productId: "p2", qty: 1 },
+          { productId: "p3", qty: 4 },
+          { productId: "p2", qty: 2 },
+        ],
+        [packs, supplies],
+      ),
+    ).toEqual([{ productId: "p2", qty: 3 }]);
+  });
+
+  it("refuses a single already in someone else's checkout", () => {
+    const err = (() => {
+      try {
+        linesToReserve([{ productId: "p1", qty: 1 }], [{ ...single, heldQty: 1 }]);
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(err).toBeInstanceOf(ReservationError);
+    expect((err as ReservationError).code).toBe("reserved");
+    expect((err as ReservationError).status).toBe(409);
+  });
+
+  it("says how many are left when asking for too many", () => {
+    expect(() => linesToReserve([{ productId: "p2", qty: 4 }], [packs])).toThrow(/Only 3/);
+    expect(() => linesToReserve([{ productId: "p1", qty: 2 }], [single])).toThrow(/Only 1/);
+  });
+
+  it("rejects listings that are gone", () => {
+    expect(() => linesToReserve([{ productId: "nope", qty: 1 }], [packs])).toThrow(ReservationError);
+  });
+});
+
+describe("reservationWindow", () => {
+  it("outlives the Stripe session by the grace period", () => {
+    const now = new Date("2026-03-01T12:00:00Z");
+    const w = reservationWindow(now);
+    expect(w.sessionExpiresAt).toBe(now.getTime() / 1000 + RESERVATION_TTL_MINUTES * 60);
+    expect(w.holdUntil.getTime() - w.sessionExpiresAt * 1000).toBe(RESERVATION_GRACE_MINUTES * 60_000);
+    // Stripe rejects sessions that expire in under 30 minutes
+    expect(RESERVATION_TTL_MINUTES).toBeGreaterThanOrEqual(30);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  RefundError,
+  ReturnError,
+  applyReturnAction,
+  canRequestReturn,
+  movementsForDecision,
+  readRefundRequest,
+  readReturnRequest,
+  refundTotals,
+  returnValueCents,
+} from "../src/lib/orders/returnsFlow";
+
+describe("refunds", () => {
+  it("only counts succeeded refunds as refunded, but holds back pending ones", () => {
+    const totals = refundTotals(
+      [
+        { amountCents: 500, status: "succeeded" },
+        { amountCents: 300, status: "pending" },
+        { amountCents: 900, status: "failed" },
+      ],
+      2000,
+    );
+    expect(totals).toEqual({ refundedCents: 500, pendingCents: 300, remainingCents: 1200, fullyRefunded: false });
+    expect(refundTotals([{ amountCents: 2000, status: "succeeded" }], 2000).fullyRefunded).toBe(true);
+  });
+
+  it("defaults to refunding what's left and caps partial refunds", () => {
+    expect(readRefundRequest({}, 1200)).toEqual({ amountCents: 1200, reason: "requested_by_customer" });
+    expect(readRefundRequest({ amountCents: 250, reason: "duplicate" }, 1200)).toEqual({
+      amountCents: 250,
+      reason: "duplicate",
+    });
+    expect(() => readRefundRequest({ amountCents: 1201 }, 1200)).toThrow(/12.00/);
+    expect(() => readRefundRequest({ amountCents: 1.5 }, 1200)).toThrow(RefundError);
+    expect(() => readRefundRequest({}, 0)).toThrow(/nothing left/);
+  });
+});
+
+describe("return requests", () => {
+  const now = new Date("2026-06-30T00:00:00Z");
+  const items = [
+    { orderItemId: "a", qty: 2, requestedQty: 1 },
+    { orderItemId: "b", qty: 1, requestedQty: 0 },
+  ];
+
+  it("are open for paid or shipped orders inside the window", () => {
+    expect(canRequestReturn({ status: "fulfilled", createdAt: "2026-06-10T00:00:00Z" }, now)).toBe(true);
+    expect(canRequestReturn({ status: "fulfilled", createdAt: "2026-05-01T00:00:00Z" }, now)).toBe(false);
+    expect(canRequestReturn({ status: "refunded", createdAt: "2026-06-10T00:00:00Z" }, now)).toBe(false);
+  });
+
+  it("validates reasons and quantities", () => {
+    expect(
+      readReturnRequest({ reasonCode: "wrong_item", items: [{ orderItemId: "a", qty: 1 }, { orderItemId: "b", qty: 0 }] }, items),
+    ).toEqual({ reasonCode: "wrong_item", note: null, items: [{ orderItemId: "a", qty: 1 }] });
+    expect(() => readReturnRequest({ reasonCode: "wrong_item", items: [{ orderItemId: "a", qty: 2 }] }, items)).toThrow(
+      /more than/,
+    );
+    expect(() => readReturnRequest({ reasonCode: "other", items: [{ orderItemId: "b", qty: 1 }] }, items)).toThrow(
+      ReturnError,
+    );
+    expect(() => readReturnRequest({ reasonCode: "changed_mind", items: [] }, items)).toThrow(/at least one/);
+  });
+
+  it("moves through approve / receive and refuses skipping", () => {
+    expect(applyReturnAction("requested", "approve")).toBe("approved");
+    expect(applyReturnAction("approved", "receive")).toBe("received");
+    expect(() => applyReturnAction("requested", "receive")).toThrow(ReturnError);
+    expect(() => applyReturnAction("closed", "reject")).toThrow(/closed/);
+  });
+});
+
+describe("return decisions", () => {
+  it("restock posts a RETURN; write-off posts RETURN then DAMAGE", () => {
+    expect(movementsForDecision("restock", 2)).toEqual([{ reason: "RETURN", delta: 2 }]);
+    expect(movementsForDecision("write_off", 1)).toEqual([
+      { reason: "RETURN", delta: 1 },
+      { reason: "DAMAGE", delta: -1 },
+    ]);
+    expect(returnValueCents([{ qty: 2, unitPriceCents: 450 }])).toBe(900);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from "vitest";
+import {
+  attribute,
+  benchmarkKeyPrefixes,
+  compareIndexes,
+  drawdown,
+  moneyWeightedReturn,
+  parseBenchmark,
+  timeWeightedReturn,
+  volatility,
+  type CashFlow,
+  type ValuePoint,
+} from "../src/lib/portfolio/performance";
+
+describe("timeWeightedReturn", () => {
+  it("ignores money added or taken out", () => {
+    const points: ValuePoint[] = [
+      { date: "2026-01-01", value: 100 },
+      { date: "2026-01-02", value: 110 }, // +10%
+      { date: "2026-01-03", value: 310 }, // bought 200 worth, flat
+      { date: "2026-01-04", value: 155 }, // sold 186 worth after a +10% day
+    ];
+    const flows: CashFlow[] = [
+      { date: "2026-01-03", amount: 200 },
+      { date: "2026-01-04", amount: -186 },
+    ];
+
+    const twr = timeWeightedReturn(points, flows)!;
+    expect(twr.periods.map((p) => p.return)).toEqual([
+      expect.closeTo(0.1, 10),
+      expect.closeTo(0, 10),
+      expect.closeTo(0.1, 10),
+    ]);
+    expect(twr.total).toBeCloseTo(0.21, 10);
+    expect(twr.index[0]).toEqual({ date: "2026-01-01", index: 1 });
+    // under a week is too short to annualize
+    expect(twr.annualized).toBeNull();
+  });
+
+  it("skips flows already in the first snapshot and needs two points", () => {
+    const twr = timeWeightedReturn(
+      [
+        { date: "2026-01-01", value: 100 },
+        { date: "2026-01-31", value: 120 },
+      ],
+      [{ date: "2026-01-01", amount: 100 }],
+    )!;
+    expect(twr.total).toBeCloseTo(0.2, 10);
+    expect(twr.annualized).toBeCloseTo(Math.pow(1.2, 365 / 30) - 1, 8);
+
+    expect(timeWeightedReturn([{ date: "2026-01-01", value: 100 }], [])).toBeNull();
+  });
+});
+
+describe("moneyWeightedReturn", () => {
+  it("matches a simple yearly growth with no flows", () => {
+    const r = moneyWeightedReturn({ date: "2025-01-01", value: 100 }, { date: "2026-01-01", value: 110 }, []);
+    expect(r).toBeCloseTo(0.1, 6);
+  });
+
+  it("rewards buying before a rise more than the time-weighted return does", () => {
+    const start = { date: "2025-01-01", value: 100 };
+    const end = { date: "2026-01-01", value: 330 };
+    // doubled the stake halfway, then everything rose 10%
+    const flows = [{ date: "2025-07-02", amount: 200 }];
+    const mwr = moneyWeightedReturn(start, end, flows)!;
+    expect(mwr).toBeGreaterThan(0.1);
+
+    // sanity: discounting at the found rate balances the cash flows
+    const t = 182 / 365;
+    const npv = -100 - 200 / Math.pow(1 + mwr, t) + 330 / (1 + mwr);
+    expect(npv).toBeCloseTo(0, 4);
+  });
+
+  it("is null without money on both sides", () => {
+    expect(moneyWeightedReturn({ date: "2026-01-01", value: 0 }, { date: "2026-02-01", value: 50 }, [])).toBeNull();
+    expect(moneyWeightedReturn({ date: "2026-01-01", value: 10 }, { date: "2026-01-01", value: 50 }, [])).toBeNull();
+  });
+});
+
+describe("drawdown and volatility", () => {
+  it("finds the worst fall from a peak", () => {
+    const dd = drawdown([
+      { date: "2026-01-01", index: 1 },
+      { date: "2026-01-02", index: 1.2 },
+      { date: "2026-01-03", index: 0.9 },
+      { date: "2026-01-04", index: 1.1 },
+    ]);
+    expect(dd.maxDrawdown).toBeCloseTo(-0.25, 10);
+    expect(dd.peakDate).toBe("2026-01-02");
+    expect(dd.troughDate).toBe("2026-01-03");
+    expect(dd.current).toBeCloseTo(1.1 / 1.2 - 1, 10);
+  });
+
+  it("annualizes by the spacing of the snapshots", () => {
+    const periods = [0.01, -0.01, 0.01, -0.01].map((r, i) => ({ date: `2026-01-0${i + 2}`, return: r }));
+    const daily = volatility(periods, "2026-01-01")!;
+    const sd = Math.sqrt((4 * 0.01 ** 2) / 3);
+    expect(daily).toBeCloseTo(sd * Math.sqrt(365), 10);
+
+    expect(volatility(periods.slice(0, 2), "2026-01-01")).toBeNull();
+  });
+});
+
+describe("attribute", () => {
+  it("splits the gain by group net of flows", () => {
+    const rows = attribute([
+      { key: "pokemon", label: "pokemon", startValue: 100, endValue: 180, netFlows: 50 },
+      { key: "mtg", label: "mtg", startValue: 100, endValue: 40, netFlows: -70 },
+    ]);
+    // pokemon: 180 - 100 - 50 = 30; mtg: 40 - 100 + 70 = 10
+    expect(rows.map((r) => [r.key, r.gain])).toEqual([
+      ["pokemon", 30],
+      ["mtg", 10],
+    ]);
+    expect(rows[0].shareOfGain).toBeCloseTo(0.75, 10);
+    expect(rows[0].return).toBeCloseTo(30 / 125, 10);
+    expect(rows[1].return).toBeCloseTo(10 / 65, 10);
+  });
+});
+
+describe("benchmarks", () => {
+  it("parses <game>-<min> ids", () => {
+    expect(parseBenchmark("Pokemon-20")).toMatchObject({
+      id: "pokemon-20",
+      game: "pokemon",
+      minUsd: 20,
+      label: "All Pokémon cards over $20",
+    });
+    expect(parseBenchmark("all-0")?.label).toBe("All cards");
+    expect(parseBenchmark("sports-20")).toBeNull();
+    expect(parseBenchmark("")).toBeNull();
+    expect(benchmarkKeyPrefixes("yugioh")).toEqual(["yugioh|", "ygo|"]);
+    expect(benchmarkKeyPrefixes("all")).toEqual([]);
+  });
+
+  it("compares only over the dates both indexes have", () => {
+    const cmp = compareIndexes(
+      [
+        { date: "2026-01-01", index: 1 },
+        { date: "2026-01-02", index: 1.1 },
+        { date: "2026-01-03", index: 1.21 },
+      ],
+      [
+        { date: "2025-12-31", index: 1 },
+        { date: "2026-01-02", index: 2 },
+        { date: "2026-01-03", index: 2.1 },
+      ],
+    )!;
+    expect(cmp.portfolioReturn).toBeCloseTo(0.1, 10);
+    expect(cmp.benchmarkReturn).toBeCloseTo(0.05, 10);
+    expect(cmp.excessReturn).toBeCloseTo(0.05, 10);
+    expect(cmp.beatsBenchmark).toBe(true);
+
+    expect(compareIndexes([{ date: "2026-01-01", index: 1 }], [{ date: "2026-01-01", index: 1 }])).toBeNull();
+  });
+});
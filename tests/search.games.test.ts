@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import {
+  SEARCH_GAMES,
+  SEARCH_GAME_LABELS,
+  normalizeSearchGame,
+  parseSportsCardId,
+  searchHitHref,
+} from "../src/lib/search/games";
+
+describe("search games", () => {
+  it("covers sports alongside the other catalogs", () => {
+    expect(SEARCH_GAMES).toContain("sports");
+    expect(SEARCH_GAME_LABELS.sports).toBe("Sports");
+    expect(normalizeSearchGame(" Sports ")).toBe("sports");
+    expect(normalizeSearchGame("magic")).toBe("mtg");
+    expect(normalizeSearchGame("all")).toBeNull();
+  });
+
+  it("links sports hits from both catalogs to the sports card page", () => {
+    expect(searchHitHref("sports", "baseball-1952-topps-311")).toBe("/categories/sports/cards/baseball-1952-topps-311");
+    expect(searchHitHref("sports", "scp-12345")).toBe("/categories/sports/cards/scp-12345");
+    expect(searchHitHref("shop", "a b")).toBe("/products/a%20b");
+  });
+
+  it("tells SportsCardsPro ids from sc_cards ids", () => {
+    expect(parseSportsCardId("scp-12345")).toEqual({ source: "scp", id: "12345" });
+    expect(parseSportsCardId("baseball-1952-topps-311")).toEqual({ source: "sc", id: "baseball-1952-topps-311" });
+    expect(parseSportsCardId("scp-")).toBeNull();
+    expect(parseSportsCardId(" ")).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { looksLikeCardQuery, parseCardQuery } from "../src/lib/search/query";
+
+describe("parseCardQuery", () => {
+  it("parses game, fields, comparisons and quoted values", () => {
+    const r = parseCardQuery('game:mtg set:mh3 rarity:mythic price>20 artist:"Rebecca Guay" lang:ja');
+    expect(r.ok).toBe(true);
+    if (!r.ok) return;
+
+    expect(r.query.game).toBe("mtg");
+    expect(r.query.terms.map((t) => [t.field, t.op, t.value])).toEqual([
+      ["set", ":", "mh3"],
+      ["rarity", ":", "mythic"],
+      ["price", ">", "20"],
+      ["artist", ":", "Rebecca Guay"],
+      ["lang", ":", "ja"],
+    ]);
+    expect(r.query.text).toEqual([]);
+  });
+
+  it("keeps bare words as name text and supports negation", () => {
+    const r = parseCardQuery('lightning bolt -foil -rarity:common "black lotus"');
+    expect(r.ok).toBe(true);
+    if (!r.ok) return;
+
+    expect(r.query.text).toEqual(["lightning", "bolt", "black lotus"]);
+    expect(r.query.excludeText).toEqual(["foil"]);
+    expect(r.query.terms[0]).toMatchObject({ field: "rarity", negate: true, value: "common" });
+  });
+
+  it("resolves field aliases", () => {
+    const r = parseCardQuery("s:sv3 r:rare a:Arita usd<=5 reg:G");
+    expect(r.ok).toBe(true);
+    if (!r.ok) return;
+    expect(r.query.terms.map((t) => t.field)).toEqual(["set", "rarity", "artist", "price", "regulation"]);
+  });
+
+  it("returns readable errors instead of matching everything", () => {
+    const r = parseCardQuery('foo:bar price>cheap artist>"x" game:chess name:"open');
+    expect(r.ok).toBe(false);
+    if (r.ok) return;
+
+    const messages = r.errors.map((e) => e.message);
+    expect(messages[0]).toContain('Unknown field "foo"');
+    expect(messages[1]).toContain('"price" expects a number');
+    expect(messages[2]).toContain('"artist" does not support ">"');
+    expect(messages[3]).toContain('Invalid game "chess"');
+    expect(messages[4]).toContain("Missing closing quote");
+    expect(r.errors[0].position).toBe(0);
+  });
+
+  it("only treats field syntax as structured", () => {
+    expect(looksLikeCardQuery("charizard ex")).toBe(false);
+    expect(looksLikeCardQuery("charizard set:base1")).toBe(true);
+    expect(looksLikeCardQuery("price>20")).toBe(true);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { compareWatermarkRows, nextWatermark, type Watermark } from "../src/lib/search/watermark";
+
+const t = (n: number) => `2026-03-01T00:00:0${n}.000000Z`;
+const row = (n: number, key: string) => ({ arrivedAt: t(n), key });
+const READ_AT = "2026-03-01T01:00:00.000000Z";
+const START: Watermark = { at: t(0), key: "" };
+
+describe("nextWatermark", () => {
+  it("jumps to the read time after a short page", () => {
+    expect(nextWatermark([row(1, "mtg:a"), row(2, "mtg:b")], 3, START, READ_AT)).toEqual({ at: READ_AT, key: "" });
+    expect(nextWatermark([], 3, START, READ_AT)).toEqual({ at: READ_AT, key: "" });
+  });
+
+  it("never moves back after a short page", () => {
+    const ahead: Watermark = { at: "2026-03-01T02:00:00.000000Z", key: "shop:x" };
+    expect(nextWatermark([], 3, ahead, READ_AT)).toBe(ahead);
+  });
+
+  it("continues right after the last row of a full page", () => {
+    expect(nextWatermark([row(1, "mtg:a"), row(2, "mtg:b"), row(3, "mtg:c")], 3, START, READ_AT)).toEqual({
+      at: t(3),
+      key: "mtg:c",
+    });
+  });
+
+  it("splits rows sharing one timestamp across pages by key", () => {
+    const first = nextWatermark([row(4, "funko:1"), row(4, "funko:2"), row(4, "mtg:a")], 3, START, READ_AT);
+    expect(first).toEqual({ at: t(4), key: "mtg:a" });
+
+    // the next page starts at the same timestamp, after that key
+    const remaining = [row(4, "pokemon:x"), row(4, "shop:y"), row(4, "mtg:a")].filter(
+      (r) => compareWatermarkRows(r, { arrivedAt: first.at, key: first.key }) > 0,
+    );
+    expect(remaining.map((r) => r.key)).toEqual(["pokemon:x", "shop:y"]);
+  });
+});
+
+describe("compareWatermarkRows", () => {
+  it("orders by time, then key in byte order", () => {
+    const rows = [row(2, "a"), row(1, "b"), row(1, "B"), row(1, "a")];
+    expect(rows.sort(compareWatermarkRows).map((r) => `${r.arrivedAt.slice(-9, -8)}${r.key}`)).toEqual([
+      "1B",
+      "1a",
+      "1b",
+      "2a",
+    ]);
+  });
+});
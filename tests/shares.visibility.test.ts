@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { normalizeShareKind, projectShareItems, type ShareSourceItem } from "../src/lib/shares/visibility";
+
+const rows: ShareSourceItem[] = [
+  {
+    game: "pokemon",
+    cardId: "base1-4",
+    cardName: "Charizard",
+    setName: "Base",
+    imageUrl: null,
+    variantType: "holofoil",
+    gradingCompany: "PSA",
+    gradeLabel: "9",
+    quantity: 2,
+    costCents: 10000,
+    lastValueCents: 50000,
+  },
+  {
+    game: "mtg",
+    cardId: "abc",
+    cardName: null,
+    setName: null,
+    imageUrl: null,
+    variantType: "normal",
+    gradingCompany: null,
+    gradeLabel: null,
+    quantity: 1,
+    costCents: null,
+    lastValueCents: null,
+  },
+];
+
+const showAll = { hideValues: false, hideCost: false, hideQuantities: false };
+
+describe("projectShareItems", () => {
+  it("shows everything when nothing is hidden", () => {
+    const { items, summary } = projectShareItems(rows, "collection", showAll);
+    expect(items[0]).toMatchObject({
+      name: "Charizard",
+      variant: "holofoil",
+      grade: "PSA 9",
+      quantity: 2,
+      valueCents: 50000,
+      costCents: 20000,
+      href: "/categories/pokemon/cards/base1-4",
+    });
+    expect(items[1]).toMatchObject({ name: "abc", variant: null, grade: null });
+    expect(summary).toEqual({ cards: 2, copies: 3, valueCents: 50000, costCents: 20000 });
+  });
+
+  it("drops hidden fields from items and totals", () => {
+    const { items, summary } = projectShareItems(rows, "folder", {
+      hideValues: true,
+      hideCost: true,
+      hideQuantities: true,
+    });
+    expect(items[0]).toMatchObject({ quantity: null, valueCents: null, costCents: null });
+    expect(summary).toEqual({ cards: 2, copies: null, valueCents: null, costCents: null });
+  });
+
+  it("never publishes quantities or money for wishlists", () => {
+    const { summary } = projectShareItems(rows, "wishlist", showAll);
+    expect(summary).toEqual({ cards: 2, copies: null, valueCents: null, costCents: null });
+  });
+});
+
+describe("normalizeShareKind", () => {
+  it("accepts known kinds only", () => {
+    expect(normalizeShareKind(" Folder ")).toBe("folder");
+    expect(normalizeShareKind("deck")).toBeNull();
+  });
+});
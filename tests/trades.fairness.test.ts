@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { scoreTrade } from "../src/lib/trades/fairness";
+
+describe("trade fair-value scoring", () => {
+  it("calls near-even trades fair", () => {
+    const s = scoreTrade([{ quantity: 2, unitValueCents: 1000 }], [{ quantity: 1, unitValueCents: 2050 }]);
+    expect(s).toMatchObject({ proposerValueCents: 2000, recipientValueCents: 2050, imbalanceCents: 50, verdict: "fair" });
+  });
+
+  it("flags which side comes out ahead", () => {
+    expect(scoreTrade([{ quantity: 1, unitValueCents: 1000 }], [{ quantity: 1, unitValueCents: 5000 }]).verdict).toBe(
+      "favors_proposer",
+    );
+    const s = scoreTrade([{ quantity: 1, unitValueCents: 5000 }], [{ quantity: 1, unitValueCents: 1000 }]);
+    expect(s.verdict).toBe("favors_recipient");
+    expect(s.imbalancePct).toBe(0.8);
+  });
+
+  it("counts unpriced items at $0 and reports them", () => {
+    const s = scoreTrade([{ quantity: 3, unitValueCents: null }], [{ quantity: 1, unitValueCents: 50 }]);
+    expect(s).toMatchObject({ proposerValueCents: 0, recipientValueCents: 50, unpricedItems: 1, verdict: "fair" });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { blendQuotes, confidenceGrade, quoteWeight, type PriceQuote } from "../src/lib/valuations/blend";
+import { normalizeVariant } from "../src/lib/valuations/variants";
+
+const now = new Date("2026-03-01T00:00:00Z");
+const daysAgo = (d: number) => new Date(now.getTime() - d * 86_400_000).toISOString();
+
+// 1 EUR = 1.10 USD; anything else has no rate
+const toUsd = (amount: number, currency: string) =>
+  currency === "USD" ? amount : currency === "EUR" ? amount * 1.1 : null;
+
+const tcg = (amount: number, extra: Partial<PriceQuote> = {}): PriceQuote => ({
+  source: "tcgplayer",
+  label: "tcgplayer.normal",
+  amount,
+  currency: "USD",
+  asOf: daysAgo(1),
+  ...extra,
+});
+
+describe("blendQuotes", () => {
+  it("returns null with nothing usable", () => {
+    expect(blendQuotes([], { toUsd, now })).toBeNull();
+    expect(blendQuotes([tcg(0)], { toUsd, now })).toBeNull();
+  });
+
+  it("values a single quote at its price with a widened range and low confidence", () => {
+    const v = blendQuotes([tcg(10)], { toUsd, now })!;
+    expect(v.valueUsd).toBe(10);
+    expect(v.primarySource).toBe("tcgplayer.normal");
+    expect(["C", "D"]).toContain(v.confidence.grade);
+    expect(v.lowUsd).toBeLessThan(10);
+    expect(v.highUsd).toBeGreaterThan(10);
+  });
+
+  it("converts EUR quotes and drops currencies without a rate", () => {
+    const v = blendQuotes(
+      [
+        { source: "cardmarket", label: "cardmarket.trend", amount: 10, currency: "EUR", asOf: daysAgo(1) },
+        { source: "retail", label: "jp", amount: 1500, currency: "JPY", asOf: daysAgo(1) },
+      ],
+      { toUsd, now },
+    )!;
+    expect(v.valueUsd).toBe(11);
+    expect(v.excluded).toEqual([{ label: "jp", reason: "no_fx" }]);
+  });
+
+  it("leans toward fresher, better-sampled quotes", () => {
+    const v = blendQuotes(
+      [
+        tcg(10),
+        { source: "ebay", label: "ebay.sold", amount: 20, currency: "USD", asOf: daysAgo(200), sampleSize: 1 },
+      ],
+      { toUsd, now },
+    )!;
+    expect(v.valueUsd).toBeGreaterThan(10);
+    expect(v.valueUsd).toBeLessThan(11);
+    expect(v.sources[0].label).toBe("tcgplayer.normal");
+  });
+
+  it("drops outliers once there are three or more quotes", () => {
+    const v = blendQuotes(
+      [
+        tcg(10),
+        { source: "ebay", label: "ebay.sold", amount: 11, currency: "USD", asOf: daysAgo(2), sampleSize: 12 },
+        { source: "retail", label: "ygo.amazon_price", amount: 90, currency: "USD", asOf: daysAgo(2) },
+      ],
+      { toUsd, now },
+    )!;
+    expect(v.excluded).toEqual([{ label: "ygo.amazon_price", reason: "outlier" }]);
+    expect(v.highUsd).toBeLessThan(20);
+  });
+
+  it("ignores quotes older than a year", () => {
+    const v = blendQuotes([tcg(10), tcg(50, { label: "old", asOf: daysAgo(400) })], { toUsd, now })!;
+    expect(v.valueUsd).toBe(10);
+    expect(v.excluded).toEqual([{ label: "old", reason: "stale" }]);
+  });
+
+  it("scales to the wanted condition from each quote's own", () => {
+    const lp = blendQuotes([tcg(10)], { toUsd, now, condition: "lp" })!;
+    expect(lp.valueUsd).toBe(8.5);
+
+    const fromLp = blendQuotes(
+      [{ source: "ebay", label: "ebay.sold", amount: 8.5, currency: "USD", asOf: daysAgo(1), condition: "lp" }],
+      { toUsd, now },
+    )!;
+    expect(fromLp.valueUsd).toBe(10);
+  });
+
+  it("grades agreeing, fresh multi-source data higher than a lone quote", () => {
+    const many = blendQuotes(
+      [
+        tcg(10),
+        { source: "ebay", label: "ebay.sold", amount: 10.2, currency: "USD", asOf: daysAgo(3), sampleSize: 25 },
+        { source: "cardmarket", label: "cardmarket.trend", amount: 9, currency: "EUR", asOf: daysAgo(1) },
+      ],
+      { toUsd, now },
+    )!;
+    const lone = blendQuotes([tcg(10)], { toUsd, now })!;
+    expect(many.confidence.score).toBeGreaterThan(lone.confidence.score);
+    expect(["A", "B"]).toContain(many.confidence.grade);
+    expect(many.sources.reduce((s, x) => s + x.share, 0)).toBeCloseTo(1, 1);
+  });
+
+  it("reports the newest quote date", () => {
+    const v = blendQuotes([tcg(10, { asOf: daysAgo(5) }), tcg(10, { label: "b", asOf: daysAgo(2) })], {
+      toUsd,
+      now,
+    })!;
+    expect(v.asOf).toBe(daysAgo(2));
+  });
+});
+
+describe("quoteWeight", () => {
+  it("halves every 30 days and penalises the wrong printing", () => {
+    const fresh = quoteWeight(tcg(10, { asOf: now.toISOString() }), now);
+    expect(quoteWeight(tcg(10, { asOf: daysAgo(30) }), now)).toBeCloseTo(fresh / 2, 5);
+    expect(quoteWeight(tcg(10, { asOf: now.toISOString(), variantMatch: false }), now)).toBeLessThan(fresh);
+  });
+});
+
+describe("confidenceGrade", () => {
+  it("buckets scores", () => {
+    expect(confidenceGrade(0.9)).toBe("A");
+    expect(confidenceGrade(0.6)).toBe("B");
+    expect(confidenceGrade(0.3)).toBe("C");
+    expect(confidenceGrade(0.1)).toBe("D");
+  });
+});
+
+describe("normalizeVariant", () => {
+  it("maps stored spellings to printings", () => {
+    expect(normalizeVariant("Reverse Holo")).toBe("reverse_holofoil");
+    expect(normalizeVariant("holo")).toBe("holofoil");
+    expect(normalizeVariant("1st Edition")).toBe("first_edition");
+    expect(normalizeVariant(null)).toBe("normal");
+  });
+});
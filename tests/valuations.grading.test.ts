@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { blendQuotes } from "../src/lib/valuations/blend";
+import { asRawFallback, ladderQuote, parseSlabGrade, slabKey } from "../src/lib/valuations/grading";
+import type { GradeLadder } from "../src/lib/gradedMarketProvider";
+
+const toUsd = (amount: number, currency: string) => (currency === "USD" ? amount : null);
+const now = new Date("2026-03-01T00:00:00Z");
+
+const ladder: GradeLadder = {
+  currency: "USD",
+  rawCents: 1000,
+  psa: { 7: 3000, 8: 5000, 9: 8000, 10: 40000 },
+  sourceUpdatedAt: "2026-02-27T00:00:00Z",
+};
+
+const meta = { source: "pricecharting" as const, label: "graded.pricecharting" };
+
+describe("parseSlabGrade", () => {
+  it("reads grader and grade from the stored fields", () => {
+    expect(parseSlabGrade("PSA", "10")).toEqual({ grader: "psa", grade: 10 });
+    expect(parseSlabGrade("BGS", "Gem Mint 9.5")).toEqual({ grader: "bgs", grade: 9.5 });
+    expect(parseSlabGrade("", "CGC 9")).toEqual({ grader: "cgc", grade: 9 });
+    expect(parseSlabGrade("TAG", "9")).toEqual({ grader: null, grade: 9 });
+  });
+
+  it("treats ungraded copies as raw", () => {
+    expect(parseSlabGrade("", "")).toBeNull();
+    expect(parseSlabGrade("UNGR", "Ungraded")).toBeNull();
+    expect(parseSlabGrade(null, "raw")).toBeNull();
+    expect(parseSlabGrade("PSA", "")).toBeNull();
+  });
+
+  it("keys slabs apart from raw copies", () => {
+    expect(slabKey(parseSlabGrade("PSA", "10"))).toBe("psa10");
+    expect(slabKey(null)).toBe("raw");
+  });
+});
+
+describe("ladderQuote", () => {
+  it("uses the rung for a whole PSA grade", () => {
+    const q = ladderQuote(ladder, { grader: "psa", grade: 10 }, meta)!;
+    expect(q.amount).toBe(400);
+    expect(q.variantMatch).toBe(true);
+    expect(q.label).toBe("graded.pricecharting.psa_10");
+  });
+
+  it("puts half grades between neighbouring rungs", () => {
+    const q = ladderQuote(ladder, { grader: "psa", grade: 8.5 }, meta)!;
+    expect(q.amount).toBe(65);
+    expect(q.variantMatch).toBe(true);
+  });
+
+  it("scales other graders and marks them inexact", () => {
+    const q = ladderQuote(ladder, { grader: "cgc", grade: 9 }, meta)!;
+    expect(q.amount).toBeCloseTo(68, 5);
+    expect(q.variantMatch).toBe(false);
+  });
+
+  it("clamps to the nearest rung past the ends of the ladder", () => {
+    const q = ladderQuote(ladder, { grader: "psa", grade: 5 }, meta)!;
+    expect(q.amount).toBe(30);
+    expect(q.variantMatch).toBe(false);
+  });
+
+  it("returns null for an empty ladder", () => {
+    expect(ladderQuote({ currency: "USD", psa: {} }, { grader: "psa", grade: 10 }, meta)).toBeNull();
+  });
+
+  it("values a PSA 10 far above the raw card once blended", () => {
+    const q = ladderQuote(ladder, { grader: "psa", grade: 10 }, meta)!;
+    const v = blendQuotes([q], { toUsd, now, basis: "graded" })!;
+    expect(v.basis).toBe("graded");
+    expect(v.valueUsd).toBe(400);
+  });
+});
+
+describe("asRawFallback", () => {
+  it("flags the value and drops confidence to D", () => {
+    const raw = blendQuotes(
+      [
+        { source: "tcgplayer", label: "tcgplayer.normal", amount: 10, currency: "USD", asOf: "2026-02-28T00:00:00Z" },
+        { source: "ebay", label: "ebay.sold", amount: 10, currency: "USD", asOf: "2026-02-28T00:00:00Z", sampleSize: 20 },
+      ],
+      { toUsd, now },
+    )!;
+    const v = asRawFallback(raw);
+    expect(v.basis).toBe("raw_fallback");
+    expect(v.confidence.grade).toBe("D");
+    expect(v.valueUsd).toBe(10);
+    expect(v.lowUsd).toBeLessThanOrEqual(6.5);
+    expect(v.highUsd).toBeGreaterThanOrEqual(13.5);
+  });
+});
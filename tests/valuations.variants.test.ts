@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { normalizeVariant, variantLabel } from "../src/lib/valuations/variants";
+
+describe("normalizeVariant per game", () => {
+  it("keeps printings the game has", () => {
+    expect(normalizeVariant("Reverse Holo", "pokemon")).toBe("reverse_holofoil");
+    expect(normalizeVariant("etched", "mtg")).toBe("etched");
+    expect(normalizeVariant("1st Edition", "yugioh")).toBe("first_edition");
+  });
+
+  it("maps foil spellings onto the game's own finish", () => {
+    expect(normalizeVariant("foil", "pokemon")).toBe("holofoil");
+    expect(normalizeVariant("holofoil", "mtg")).toBe("foil");
+    expect(normalizeVariant("reverse_holofoil", "mtg")).toBe("foil");
+  });
+
+  it("falls back to normal for printings the game doesn't have", () => {
+    expect(normalizeVariant("first_edition", "mtg")).toBe("normal");
+    expect(normalizeVariant("foil", "yugioh")).toBe("normal");
+    expect(normalizeVariant("", "pokemon")).toBe("normal");
+  });
+
+  it("labels stored values", () => {
+    expect(variantLabel("etched")).toBe("Etched");
+    expect(variantLabel("reverse_holofoil")).toBe("Reverse");
+    expect(variantLabel(null)).toBe("Normal");
+  });
+});
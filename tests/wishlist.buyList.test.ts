@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalizePriority,
+  normalizeWishlistVariant,
+  planBuyList,
+  type BuyListInput,
+} from "../src/lib/wishlist/buyListPlan";
+
+function item(id: string, overrides: Partial<BuyListInput> = {}): BuyListInput {
+  return { id, priority: 2, targetPriceCents: null, marketCents: 1000, ...overrides };
+}
+
+describe("planBuyList", () => {
+  it("orders by priority, then below-target, then cheapest", () => {
+    const { rows } = planBuyList(
+      [
+        item("low", { priority: 3, marketCents: 100 }),
+        item("pricey", { marketCents: 5000 }),
+        item("cheap", { marketCents: 500 }),
+        item("deal", { marketCents: 4000, targetPriceCents: 4500 }),
+        item("high", { priority: 1, marketCents: 9000 }),
+      ],
+      { budgetCents: null, spentCents: 0 },
+    );
+    expect(rows.map((r) => r.id)).toEqual(["high", "deal", "cheap", "pricey", "low"]);
+  });
+
+  it("plans everything buyable with no budget", () => {
+    const { rows, totals } = planBuyList([item("a"), item("b")], { budgetCents: null, spentCents: 0 });
+    expect(rows.every((r) => r.status === "planned")).toBe(true);
+    expect(totals.plannedTotalCents).toBe(2000);
+    expect(totals.remainingCents).toBeNull();
+  });
+
+  it("fits the budget after this month's spend and lets a cheaper card fill the gap", () => {
+    const { rows, totals } = planBuyList(
+      [
+        item("first", { priority: 1, marketCents: 3000 }),
+        item("too-much", { marketCents: 2500 }),
+        item("fits", { priority: 3, marketCents: 1500 }),
+      ],
+      { budgetCents: 6000, spentCents: 1000 },
+    );
+    const status = Object.fromEntries(rows.map((r) => [r.id, r.status]));
+    expect(status).toEqual({ first: "planned", "too-much": "over_budget", fits: "planned" });
+    expect(totals.plannedTotalCents).toBe(4500);
+    expect(totals.remainingCents).toBe(500);
+  });
+
+  it("holds back cards above target and flags ones below it", () => {
+    const { rows, totals } = planBuyList(
+      [item("wait", { targetPriceCents: 800 }), item("deal", { targetPriceCents: 1200 })],
+      { budgetCents: null, spentCents: 0 },
+    );
+    const wait = rows.find((r) => r.id === "wait")!;
+    const deal = rows.find((r) => r.id === "deal")!;
+    expect(wait.status).toBe("above_target");
+    expect(wait.belowTarget).toBe(false);
+    expect(deal.status).toBe("planned");
+    expect(deal.savingsCents).toBe(200);
+    expect(totals.belowTargetCount).toBe(1);
+    expect(totals.marketTotalCents).toBe(2000);
+  });
+
+  it("leaves unpriced cards out of the totals", () => {
+    const { rows, totals } = planBuyList([item("a"), item("nope", { marketCents: null })], {
+      budgetCents: 5000,
+      spentCents: 0,
+    });
+    expect(rows[1]).toMatchObject({ id: "nope", status: "unpriced" });
+    expect(totals.unpricedCount).toBe(1);
+    expect(totals.marketTotalCents).toBe(1000);
+  });
+});
+
+describe("normalizers", () => {
+  it("accepts priority numbers and words", () => {
+    expect(normalizePriority(1)).toBe(1);
+    expect(normalizePriority("Low")).toBe(3);
+    expect(normalizePriority("urgent")).toBeNull();
+  });
+
+  it("only accepts known variants", () => {
+    expect(normalizeWishlistVariant("Holofoil")).toBe("holofoil");
+    expect(normalizeWishlistVariant("gold")).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeWant,
+  listingMatchesWant,
+  normalizeGradeX10,
+  type StockListing,
+  type WishlistWant,
+} from "../src/lib/wishlist/stockMatch";
+import { normalizeCondition } from "../src/lib/cards/condition";
+
+const anyWant: WishlistWant = { conditionMin: null, grader: null, gradeMinX10: null };
+
+function listing(overrides: Partial<StockListing> = {}): StockListing {
+  return {
+    source: "product",
+    id: "p1",
+    title: "Charizard",
+    href: "/products/charizard",
+    priceCents: 1000,
+    quantity: 1,
+    condition: "lp",
+    isGraded: false,
+    grader: null,
+    gradeX10: null,
+    ...overrides,
+  };
+}
+
+describe("listingMatchesWant", () => {
+  it("matches any in-stock copy when nothing is wanted", () => {
+    expect(listingMatchesWant(anyWant, listing())).toBe(true);
+    expect(listingMatchesWant(anyWant, listing({ quantity: null }))).toBe(true);
+    expect(listingMatchesWant(anyWant, listing({ quantity: 0 }))).toBe(false);
+  });
+
+  it("treats a raw condition want as a minimum", () => {
+    const want = { ...anyWant, conditionMin: "lp" as const };
+    expect(listingMatchesWant(want, listing({ condition: "nm" }))).toBe(true);
+    expect(listingMatchesWant(want, listing({ condition: "lp" }))).toBe(true);
+    expect(listingMatchesWant(want, listing({ condition: "mp" }))).toBe(false);
+    expect(listingMatchesWant(want, listing({ isGraded: true, grader: "psa", gradeX10: 100, condition: null }))).toBe(false);
+  });
+
+  it("only matches slabs from the wanted grader at or above the grade", () => {
+    const want: WishlistWant = { conditionMin: null, grader: "psa", gradeMinX10: 90 };
+    const slab = listing({ isGraded: true, grader: "psa", gradeX10: 95, condition: null });
+    expect(listingMatchesWant(want, slab)).toBe(true);
+    expect(listingMatchesWant(want, { ...slab, gradeX10: 85 })).toBe(false);
+    expect(listingMatchesWant(want, { ...slab, grader: "bgs" })).toBe(false);
+    expect(listingMatchesWant(want, listing({ condition: "nm" }))).toBe(false);
+  });
+});
+
+describe("wishlist want helpers", () => {
+  it("normalizes conditions and grades", () => {
+    expect(normalizeCondition("Near Mint")).toBe("nm");
+    expect(normalizeCondition("lightly_played")).toBe("lp");
+    expect(normalizeCondition("pristine")).toBeNull();
+    expect(normalizeGradeX10("9.5")).toBe(95);
+    expect(normalizeGradeX10(95)).toBe(95);
+    expect(normalizeGradeX10(101)).toBeNull();
+    expect(normalizeGradeX10(0)).toBeNull();
+  });
+
+  it("describes wants for badges", () => {
+    expect(describeWant(anyWant)).toBeNull();
+    expect(describeWant({ ...anyWant, conditionMin: "lp" })).toBe("Lightly Played or better");
+    expect(describeWant({ conditionMin: null, grader: "psa", gradeMinX10: 90 })).toBe("PSA 9+");
+  });
+});